@@ -2,6 +2,7 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { PatientProvider } from '@/contexts/PatientContext';
 import Landing from '@/pages/Landing';
 import Dashboard from '@/pages/Dashboard';
 import PatientProfile from '@/pages/PatientProfile';
@@ -81,7 +82,7 @@ function AppRoutes() {
       } />
       
       {/* Public invitation acceptance route */}
-      <Route path="/invitation/:invitationId" element={<AcceptInvitation />} />
+      <Route path="/invitation/:token" element={<AcceptInvitation />} />
       
       {/* Test route - public for testing */}
       <Route path="/test-medications" element={<MedicationTest />} />
@@ -99,11 +100,13 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <Router>
-          <div className="min-h-screen bg-gray-50">
-            <AppRoutes />
-          </div>
-        </Router>
+        <PatientProvider>
+          <Router>
+            <div className="min-h-screen bg-gray-50">
+              <AppRoutes />
+            </div>
+          </Router>
+        </PatientProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -1,5 +1,8 @@
-import React, { useState, useEffect } from 'react';
-import { Calendar, Plus, Clock, MapPin, User } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Calendar, Plus, Clock, MapPin, User, CheckCircle, XCircle, Link, Trash2, RefreshCw, Bell } from 'lucide-react';
+import { Appointment, AppointmentReminderSettings, AppointmentStatus, CalendarFeed, CalendarSyncSummary, GoogleCalendarConnection, GoogleCalendarSummary } from '@shared/types';
+import { apiClient, API_ENDPOINTS } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface CalendarEvent {
   id: string;
@@ -8,152 +11,348 @@ interface CalendarEvent {
   end: Date;
   location?: string;
   description?: string;
-  attendees?: string[];
+  provider?: string;
+  status: AppointmentStatus;
 }
 
 interface CalendarIntegrationProps {
   patientId: string;
 }
 
+const initialEvent = {
+  title: '',
+  date: '',
+  time: '',
+  duration: '60',
+  location: '',
+  description: '',
+  provider: ''
+};
+
+// Reminder times that can be picked, in minutes before the appointment
+const REMINDER_OPTIONS = [
+  { minutes: 7 * 24 * 60, label: '1 week before' },
+  { minutes: 24 * 60, label: '1 day before' },
+  { minutes: 2 * 60, label: '2 hours before' },
+  { minutes: 30, label: '30 minutes before' }
+];
+
+// The API sends dates as ISO strings
+const toEvent = (appointment: Appointment): CalendarEvent => {
+  const start = new Date(appointment.dateTime);
+  return {
+    id: appointment.id,
+    title: appointment.title,
+    start,
+    end: new Date(start.getTime() + appointment.duration * 60 * 1000),
+    location: appointment.location,
+    description: appointment.description,
+    provider: appointment.provider,
+    status: appointment.status
+  };
+};
+
 export default function CalendarIntegration({ patientId }: CalendarIntegrationProps) {
+  const { user } = useAuth();
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [showAddEvent, setShowAddEvent] = useState(false);
-  const [newEvent, setNewEvent] = useState({
-    title: '',
-    date: '',
-    time: '',
-    duration: '60',
-    location: '',
-    description: '',
-    provider: ''
-  });
-
-  // Initialize Google Calendar API
+  const [newEvent, setNewEvent] = useState(initialEvent);
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [includeReminders, setIncludeReminders] = useState(false);
+  const [newFeedUrl, setNewFeedUrl] = useState<string | null>(null);
+  const [googleConnection, setGoogleConnection] = useState<GoogleCalendarConnection | null>(null);
+  const [googleCalendars, setGoogleCalendars] = useState<GoogleCalendarSummary[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [reminderSettings, setReminderSettings] = useState<AppointmentReminderSettings | null>(null);
+
   useEffect(() => {
-    const initializeGoogleCalendar = async () => {
-      try {
-        // Check if Google Calendar API is available
-        const apiKey = import.meta.env.VITE_GOOGLE_CALENDAR_API_KEY;
-        const clientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
-        
-        console.log('📅 Checking Google Calendar API credentials...');
-        console.log('📅 API Key available:', !!apiKey);
-        console.log('📅 Client ID available:', !!clientId);
-        console.log('📅 Environment variables available:', Object.keys(import.meta.env).filter(key => key.startsWith('VITE_')));
-        
-        if (!apiKey || !clientId) {
-          console.warn('📅 Google Calendar API credentials not found');
-          if (!apiKey) console.warn('📅 Missing: VITE_GOOGLE_CALENDAR_API_KEY');
-          if (!clientId) console.warn('📅 Missing: VITE_GOOGLE_CLIENT_ID');
-          return;
-        }
-        
-        console.log('📅 Google Calendar API credentials found, initializing...');
-
-        // Load Google API
-        if (typeof window !== 'undefined' && (window as any).gapi) {
-          await (window as any).gapi.load('auth2', () => {
-            (window as any).gapi.auth2.init({
-              client_id: clientId,
-            });
-          });
-          
-          setIsAuthenticated(true);
+    if (patientId) {
+      loadAppointments();
+      loadFeeds();
+      loadGoogleConnection();
+      loadReminderSettings();
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    // Set by the server when Google redirects back after connecting
+    if (new URLSearchParams(window.location.search).get('googleCalendar') === 'error') {
+      setError('Google Calendar could not be connected. Please try again.');
+    }
+  }, []);
+
+  const loadGoogleConnection = async () => {
+    try {
+      const response = await apiClient.get<{ success: boolean; data: GoogleCalendarConnection | null }>(
+        API_ENDPOINTS.GOOGLE_CALENDAR
+      );
+      if (response.success) {
+        setGoogleConnection(response.data);
+        if (response.data) {
+          const calendars = await apiClient.get<{ success: boolean; data: GoogleCalendarSummary[] }>(
+            API_ENDPOINTS.GOOGLE_CALENDAR_CALENDARS
+          );
+          if (calendars.success) {
+            setGoogleCalendars(calendars.data);
+          }
         }
-      } catch (error) {
-        console.error('Error initializing Google Calendar:', error);
       }
-    };
+    } catch (error) {
+      console.error('Error loading Google Calendar connection:', error);
+    }
+  };
 
-    initializeGoogleCalendar();
-  }, []);
+  const handleConnectGoogle = async () => {
+    try {
+      setError(null);
+      const response = await apiClient.get<{ success: boolean; data: string }>(API_ENDPOINTS.GOOGLE_CALENDAR_AUTH_URL);
+      if (response.success) {
+        window.location.href = response.data;
+      }
+    } catch (error) {
+      console.error('Error connecting Google Calendar:', error);
+      setError(error instanceof Error ? error.message : 'Failed to connect Google Calendar');
+    }
+  };
 
-  const handleGoogleSignIn = async () => {
+  const handleGoogleSync = async () => {
     try {
-      if ((window as any).gapi && (window as any).gapi.auth2) {
-        const authInstance = (window as any).gapi.auth2.getAuthInstance();
-        await authInstance.signIn({
-          scope: 'https://www.googleapis.com/auth/calendar'
-        });
-        setIsAuthenticated(true);
-        loadCalendarEvents();
+      setIsSyncing(true);
+      setError(null);
+      const response = await apiClient.post<{ success: boolean; data: CalendarSyncSummary }>(
+        API_ENDPOINTS.GOOGLE_CALENDAR_SYNC
+      );
+      if (response.success) {
+        await loadGoogleConnection();
+        // Edits made in Google may have changed the appointments
+        if (response.data.pulled > 0) {
+          await loadAppointments();
+        }
       }
     } catch (error) {
-      console.error('Error signing in to Google:', error);
+      console.error('Error syncing Google Calendar:', error);
+      setError(error instanceof Error ? error.message : 'Failed to sync Google Calendar');
+    } finally {
+      setIsSyncing(false);
     }
   };
 
-  const loadCalendarEvents = async () => {
+  const handleGoogleSettings = async (calendarId: string | null, syncPatient: boolean) => {
+    if (!googleConnection) {
+      return;
+    }
+
     try {
-      setIsLoading(true);
-      
-      // Mock data for now - in a real implementation, this would fetch from Google Calendar API
-      const mockEvents: CalendarEvent[] = [
-        {
-          id: '1',
-          title: 'Dr. Smith - Annual Checkup',
-          start: new Date(Date.now() + 24 * 60 * 60 * 1000), // Tomorrow
-          end: new Date(Date.now() + 24 * 60 * 60 * 1000 + 60 * 60 * 1000), // Tomorrow + 1 hour
-          location: '123 Medical Center Dr, City, State',
-          description: 'Annual physical examination and health screening'
-        },
+      setError(null);
+      const others = googleConnection.patientIds.filter(id => id !== patientId);
+      const response = await apiClient.put<{ success: boolean; data: GoogleCalendarConnection }>(
+        API_ENDPOINTS.GOOGLE_CALENDAR_SETTINGS,
         {
-          id: '2',
-          title: 'Cardiology Appointment',
-          start: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Next week
-          end: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000 + 45 * 60 * 1000), // Next week + 45 min
-          location: 'Heart Specialists Clinic',
-          description: 'Follow-up appointment for blood pressure monitoring'
+          ...(calendarId ? { calendarId } : {}),
+          patientIds: syncPatient ? [...others, patientId] : others
         }
-      ];
-      
-      setEvents(mockEvents);
+      );
+      if (response.success) {
+        setGoogleConnection(response.data);
+        if (response.data.calendarId) {
+          await handleGoogleSync();
+        }
+      }
+    } catch (error) {
+      console.error('Error updating Google Calendar settings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update Google Calendar settings');
+    }
+  };
+
+  const handleDisconnectGoogle = async () => {
+    if (!confirm('Appointments will stop syncing with Google Calendar. Events already there are kept. Disconnect?')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await apiClient.delete(API_ENDPOINTS.GOOGLE_CALENDAR);
+      setGoogleConnection(null);
+      setGoogleCalendars([]);
+    } catch (error) {
+      console.error('Error disconnecting Google Calendar:', error);
+      setError(error instanceof Error ? error.message : 'Failed to disconnect Google Calendar');
+    }
+  };
+
+  const loadReminderSettings = async () => {
+    try {
+      const response = await apiClient.get<{ success: boolean; data: AppointmentReminderSettings }>(
+        API_ENDPOINTS.PATIENT_APPOINTMENT_REMINDERS(patientId)
+      );
+      if (response.success) {
+        setReminderSettings(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading appointment reminder settings:', error);
+    }
+  };
+
+  const handleReminderOffset = async (minutes: number, enabled: boolean) => {
+    if (!reminderSettings) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const others = reminderSettings.offsetsMinutes.filter(offset => offset !== minutes);
+      const response = await apiClient.put<{ success: boolean; data: AppointmentReminderSettings }>(
+        API_ENDPOINTS.PATIENT_APPOINTMENT_REMINDERS(patientId),
+        { offsetsMinutes: enabled ? [...others, minutes] : others }
+      );
+      if (response.success) {
+        setReminderSettings(response.data);
+      }
+    } catch (error) {
+      console.error('Error updating appointment reminder times:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update reminder times');
+    }
+  };
+
+  const handleReminderSubscription = async (subscribed: boolean) => {
+    try {
+      setError(null);
+      const response = await apiClient.put<{ success: boolean; data: AppointmentReminderSettings }>(
+        `${API_ENDPOINTS.PATIENT_APPOINTMENT_REMINDERS(patientId)}/subscription`,
+        { subscribed }
+      );
+      if (response.success) {
+        setReminderSettings(response.data);
+      }
+    } catch (error) {
+      console.error('Error updating appointment reminder subscription:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update reminder emails');
+    }
+  };
+
+  // The patient's own reminders are a setting; everyone else subscribes
+  const isSubscribed = !!reminderSettings && (user?.id === patientId
+    ? reminderSettings.notifyPatient
+    : reminderSettings.subscriberIds.includes(user?.id || ''));
+
+  const loadFeeds = async () => {
+    try {
+      const response = await apiClient.get<{ success: boolean; data: CalendarFeed[] }>(
+        API_ENDPOINTS.PATIENT_CALENDAR_FEEDS(patientId)
+      );
+      if (response.success) {
+        setFeeds(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading calendar feeds:', error);
+    }
+  };
+
+  const handleCreateFeed = async () => {
+    try {
+      setError(null);
+      const response = await apiClient.post<{ success: boolean; data: CalendarFeed & { url: string } }>(
+        API_ENDPOINTS.PATIENT_CALENDAR_FEEDS(patientId),
+        { includeReminders }
+      );
+      if (response.success) {
+        const { url, ...feed } = response.data;
+        setFeeds(prev => [...prev, feed]);
+        setNewFeedUrl(url);
+      }
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create calendar link');
+    }
+  };
+
+  const handleRevokeFeed = async (feedId: string) => {
+    if (!confirm('Calendars subscribed with this link will stop updating. Revoke it?')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await apiClient.delete(`${API_ENDPOINTS.PATIENT_CALENDAR_FEEDS(patientId)}/${feedId}`);
+      setFeeds(prev => prev.filter(feed => feed.id !== feedId));
     } catch (error) {
-      console.error('Error loading calendar events:', error);
+      console.error('Error revoking calendar feed:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revoke calendar link');
+    }
+  };
+
+  const loadAppointments = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await apiClient.get<{ success: boolean; data: Appointment[] }>(
+        `${API_ENDPOINTS.PATIENT_APPOINTMENTS(patientId)}/upcoming`
+      );
+      if (response.success) {
+        setEvents(response.data.map(toEvent));
+      }
+    } catch (error) {
+      console.error('Error loading appointments:', error);
+      setError('Failed to load appointments');
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleAddEvent = async () => {
+    if (!newEvent.title || !newEvent.date || !newEvent.time) {
+      alert('Please fill in all required fields');
+      return;
+    }
+
     try {
-      if (!newEvent.title || !newEvent.date || !newEvent.time) {
-        alert('Please fill in all required fields');
-        return;
+      setIsSaving(true);
+      setError(null);
+      const response = await apiClient.post<{ success: boolean; data: Appointment }>(
+        API_ENDPOINTS.PATIENT_APPOINTMENTS(patientId),
+        {
+          title: newEvent.title,
+          dateTime: new Date(`${newEvent.date}T${newEvent.time}`).toISOString(),
+          duration: parseInt(newEvent.duration),
+          location: newEvent.location,
+          description: newEvent.description,
+          provider: newEvent.provider
+        }
+      );
+
+      if (response.success) {
+        setEvents(prev => [...prev, toEvent(response.data)].sort((a, b) => a.start.getTime() - b.start.getTime()));
+        setNewEvent(initialEvent);
+        setShowAddEvent(false);
       }
+    } catch (error) {
+      console.error('Error adding appointment:', error);
+      setError(error instanceof Error ? error.message : 'Failed to schedule appointment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
-      const startDateTime = new Date(`${newEvent.date}T${newEvent.time}`);
-      const endDateTime = new Date(startDateTime.getTime() + parseInt(newEvent.duration) * 60 * 1000);
-
-      const event: CalendarEvent = {
-        id: Date.now().toString(),
-        title: newEvent.title,
-        start: startDateTime,
-        end: endDateTime,
-        location: newEvent.location,
-        description: newEvent.description
-      };
-
-      // In a real implementation, this would create the event in Google Calendar
-      setEvents(prev => [...prev, event]);
-      
-      // Reset form
-      setNewEvent({
-        title: '',
-        date: '',
-        time: '',
-        duration: '60',
-        location: '',
-        description: '',
-        provider: ''
-      });
-      setShowAddEvent(false);
-      
-      console.log('Event added:', event);
+  const handleStatusChange = async (eventId: string, status: AppointmentStatus) => {
+    try {
+      setError(null);
+      const response = await apiClient.post<{ success: boolean; data: Appointment }>(
+        `${API_ENDPOINTS.PATIENT_APPOINTMENTS(patientId)}/${eventId}/status`,
+        { status }
+      );
+
+      if (response.success) {
+        // Completed and cancelled appointments drop off the upcoming list
+        setEvents(prev => status === 'confirmed'
+          ? prev.map(event => event.id === eventId ? toEvent(response.data) : event)
+          : prev.filter(event => event.id !== eventId));
+      }
     } catch (error) {
-      console.error('Error adding event:', error);
+      console.error('Error updating appointment:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update appointment');
     }
   };
 
@@ -182,25 +381,22 @@ export default function CalendarIntegration({ patientId }: CalendarIntegrationPr
         </h3>
         
         <div className="flex items-center space-x-3">
-          {!isAuthenticated ? (
-            <button
-              onClick={handleGoogleSignIn}
-              className="btn-secondary text-sm"
-            >
-              Connect Google Calendar
-            </button>
-          ) : (
-            <button
-              onClick={() => setShowAddEvent(true)}
-              className="btn-primary flex items-center space-x-2"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add Appointment</span>
-            </button>
-          )}
+          <button
+            onClick={() => setShowAddEvent(true)}
+            className="btn-primary flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Appointment</span>
+          </button>
         </div>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
       {/* Add Event Form */}
       {showAddEvent && (
         <div className="bg-gray-50 rounded-lg p-6 border border-gray-200">
@@ -305,9 +501,10 @@ export default function CalendarIntegration({ patientId }: CalendarIntegrationPr
             </button>
             <button
               onClick={handleAddEvent}
-              className="btn-primary"
+              disabled={isSaving}
+              className="btn-primary disabled:opacity-50"
             >
-              Schedule Appointment
+              {isSaving ? 'Scheduling...' : 'Schedule Appointment'}
             </button>
           </div>
         </div>
@@ -328,7 +525,16 @@ export default function CalendarIntegration({ patientId }: CalendarIntegrationPr
             >
               <div className="flex items-start justify-between">
                 <div className="flex-1">
-                  <h4 className="font-medium text-gray-900 mb-2">{event.title}</h4>
+                  <div className="flex items-center space-x-2 mb-2">
+                    <h4 className="font-medium text-gray-900">{event.title}</h4>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded-full ${
+                        event.status === 'confirmed' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {event.status === 'confirmed' ? 'Confirmed' : 'Scheduled'}
+                    </span>
+                  </div>
                   
                   <div className="space-y-1 text-sm text-gray-600">
                     <div className="flex items-center space-x-2">
@@ -341,6 +547,13 @@ export default function CalendarIntegration({ patientId }: CalendarIntegrationPr
                       <span>{formatEventTime(event.start, event.end)}</span>
                     </div>
                     
+                    {event.provider && (
+                      <div className="flex items-center space-x-2">
+                        <User className="w-4 h-4" />
+                        <span>{event.provider}</span>
+                      </div>
+                    )}
+
                     {event.location && (
                       <div className="flex items-center space-x-2">
                         <MapPin className="w-4 h-4" />
@@ -355,8 +568,29 @@ export default function CalendarIntegration({ patientId }: CalendarIntegrationPr
                 </div>
                 
                 <div className="flex items-center space-x-2">
-                  <button className="text-gray-400 hover:text-gray-600 p-1">
-                    <Calendar className="w-4 h-4" />
+                  {event.status === 'scheduled' ? (
+                    <button
+                      onClick={() => handleStatusChange(event.id, 'confirmed')}
+                      className="text-gray-400 hover:text-green-600 p-1"
+                      title="Confirm appointment"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleStatusChange(event.id, 'completed')}
+                      className="text-gray-400 hover:text-green-600 p-1"
+                      title="Mark as completed"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleStatusChange(event.id, 'cancelled')}
+                    className="text-gray-400 hover:text-red-600 p-1"
+                    title="Cancel appointment"
+                  >
+                    <XCircle className="w-4 h-4" />
                   </button>
                 </div>
               </div>
@@ -368,37 +602,183 @@ export default function CalendarIntegration({ patientId }: CalendarIntegrationPr
           <Calendar className="w-12 h-12 text-gray-300 mx-auto mb-4" />
           <h4 className="text-lg font-medium text-gray-900 mb-2">No appointments scheduled</h4>
           <p className="text-gray-500 mb-4">Schedule your first appointment to get started.</p>
-          {isAuthenticated && (
-            <button
-              onClick={() => setShowAddEvent(true)}
-              className="btn-primary flex items-center space-x-2 mx-auto"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Schedule Appointment</span>
-            </button>
-          )}
+          <button
+            onClick={() => setShowAddEvent(true)}
+            className="btn-primary flex items-center space-x-2 mx-auto"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Schedule Appointment</span>
+          </button>
         </div>
       )}
 
-      {!isAuthenticated && (
+      {/* Appointment reminder emails */}
+      {reminderSettings && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <div className="flex items-start space-x-3">
-            <Calendar className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
-            <div>
-              <h4 className="text-sm font-medium text-blue-900">Connect Google Calendar</h4>
+            <Bell className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-blue-900">Reminder emails</h4>
               <p className="text-sm text-blue-700 mt-1">
-                Connect your Google Calendar to sync appointments and get reminders across all your devices.
+                Reminders include the appointment details and the current medication list to bring along.
               </p>
+
+              <div className="flex flex-wrap items-center gap-4 mt-3">
+                {REMINDER_OPTIONS.map((option) => (
+                  <label key={option.minutes} className="flex items-center space-x-2 text-sm text-blue-900">
+                    <input
+                      type="checkbox"
+                      checked={reminderSettings.offsetsMinutes.includes(option.minutes)}
+                      onChange={(e) => handleReminderOffset(option.minutes, e.target.checked)}
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                ))}
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-blue-900 mt-3">
+                <input
+                  type="checkbox"
+                  checked={isSubscribed}
+                  onChange={(e) => handleReminderSubscription(e.target.checked)}
+                />
+                <span>Email me reminders</span>
+              </label>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Google Calendar sync */}
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="flex items-start space-x-3">
+          <RefreshCw className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <h4 className="text-sm font-medium text-blue-900">Sync with Google Calendar</h4>
+            {googleConnection ? (
+              <>
+                <p className="text-sm text-blue-700 mt-1">
+                  Appointments are kept in step with the calendar you choose, and edits made there come back here.
+                  {googleConnection.lastSyncedAt && ` Last synced ${new Date(googleConnection.lastSyncedAt).toLocaleString()}.`}
+                </p>
+
+                <div className="flex flex-wrap items-center gap-4 mt-3">
+                  <select
+                    value={googleConnection.calendarId || ''}
+                    onChange={(e) => handleGoogleSettings(e.target.value, googleConnection.patientIds.includes(patientId))}
+                    className="input text-sm w-auto"
+                  >
+                    <option value="" disabled>Choose a calendar</option>
+                    {googleCalendars.map((calendar) => (
+                      <option key={calendar.id} value={calendar.id}>
+                        {calendar.summary}{calendar.primary ? ' (primary)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="flex items-center space-x-2 text-sm text-blue-900">
+                    <input
+                      type="checkbox"
+                      checked={googleConnection.patientIds.includes(patientId)}
+                      onChange={(e) => handleGoogleSettings(null, e.target.checked)}
+                    />
+                    <span>Sync these appointments</span>
+                  </label>
+                  <button
+                    onClick={handleGoogleSync}
+                    disabled={isSyncing || !googleConnection.calendarId}
+                    className="text-sm bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {isSyncing ? 'Syncing...' : 'Sync Now'}
+                  </button>
+                  <button
+                    onClick={handleDisconnectGoogle}
+                    className="text-sm text-blue-700 hover:text-red-600"
+                  >
+                    Disconnect
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-blue-700 mt-1">
+                  Connect your Google account to add appointments to your calendar and bring back changes you make there.
+                </p>
+                <button
+                  onClick={handleConnectGoogle}
+                  className="text-sm bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors mt-3"
+                >
+                  Connect Google Calendar
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Calendar feed links */}
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="flex items-start space-x-3">
+          <Link className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <h4 className="text-sm font-medium text-blue-900">Subscribe in your calendar app</h4>
+            <p className="text-sm text-blue-700 mt-1">
+              Create a private link to add these appointments to Google Calendar, Apple Calendar or Outlook.
+              Anyone with the link can see the calendar, so keep it to yourself.
+            </p>
+
+            <div className="flex items-center space-x-4 mt-3">
+              <label className="flex items-center space-x-2 text-sm text-blue-900">
+                <input
+                  type="checkbox"
+                  checked={includeReminders}
+                  onChange={(e) => setIncludeReminders(e.target.checked)}
+                />
+                <span>Include medication reminder times</span>
+              </label>
               <button
-                onClick={handleGoogleSignIn}
-                className="mt-3 text-sm bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+                onClick={handleCreateFeed}
+                className="text-sm bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
               >
-                Connect Now
+                Create Link
               </button>
             </div>
+
+            {newFeedUrl && (
+              <div className="mt-3">
+                <p className="text-xs text-blue-700 mb-1">Copy this link now; it won't be shown again.</p>
+                <input
+                  type="text"
+                  readOnly
+                  value={newFeedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="input text-xs"
+                />
+              </div>
+            )}
+
+            {feeds.length > 0 && (
+              <ul className="mt-3 space-y-2">
+                {feeds.map((feed) => (
+                  <li key={feed.id} className="flex items-center justify-between text-sm text-blue-900">
+                    <span>
+                      Created {formatEventDate(new Date(feed.createdAt))}
+                      {feed.includeReminders && ' · with reminders'}
+                      {feed.lastAccessedAt && ` · last used ${formatEventDate(new Date(feed.lastAccessedAt))}`}
+                    </span>
+                    <button
+                      onClick={() => handleRevokeFeed(feed.id)}
+                      className="text-blue-400 hover:text-red-600 p-1"
+                      title="Revoke link"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
-      )}
+      </div>
     </div>
   );
 }
\ No newline at end of file
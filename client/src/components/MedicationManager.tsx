@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Calendar, Pill, Save, X, AlertTriangle, CheckCircle, Info, Clock, Bell } from 'lucide-react';
-import { Medication, NewMedication, MedicationReminder, NewMedicationReminder } from '@shared/types';
+import { Plus, Edit, Trash2, Calendar, Pill, Save, X, AlertTriangle, CheckCircle, Info, Clock, Bell, History, Ban } from 'lucide-react';
+import { Medication, NewMedication, MedicationReminder, NewMedicationReminder, DosingSchedule, SupplyForecast, MedicationHistoryEntry, NewDiscontinuation, DiscontinueReason } from '@shared/types';
+import { describeDosingSchedule } from '@shared/utils/dosingSchedule';
+import { DEFAULT_TIME_ZONE, getTimeZoneAbbreviation } from '@shared/utils/timezone';
+import { isWithinHardDeleteWindow } from '@shared/utils/medicationDiscontinuation';
 import { DrugConcept, drugApiService } from '@/lib/drugApi';
-import { apiClient } from '@/lib/api';
+import { apiClient, API_ENDPOINTS } from '@/lib/api';
 import MedicationSearch from './MedicationSearch';
 
 interface MedicationManagerProps {
@@ -11,7 +14,9 @@ interface MedicationManagerProps {
   onAddMedication: (medication: NewMedication) => Promise<Medication | void>;
   onUpdateMedication: (id: string, medication: Partial<Medication>) => Promise<void>;
   onDeleteMedication: (id: string) => Promise<void>;
+  onDiscontinueMedication: (id: string, discontinuation: NewDiscontinuation) => Promise<void>;
   isLoading?: boolean;
+  patientTimeZone?: string; // Schedule and reminder times are wall-clock times in this zone
 }
 
 interface MedicationFormData {
@@ -23,6 +28,12 @@ interface MedicationFormData {
   strength: string;
   dosageForm: string;
   frequency: string;
+  scheduleType: DosingSchedule['type'] | '';
+  scheduleTimes: string[];
+  intervalHours: number;
+  scheduleDays: DayOfWeek[];
+  cycleDaysOn: number;
+  cycleDaysOff: number;
   route: string;
   instructions: string;
   prescribedBy: string;
@@ -35,6 +46,9 @@ interface MedicationFormData {
   pharmacy: string;
   prescriptionNumber: string;
   refillsRemaining: number;
+  quantityDispensed: string;
+  lastFillDate: string;
+  unitsPerDose: number;
 }
 
 const initialFormData: MedicationFormData = {
@@ -46,6 +60,12 @@ const initialFormData: MedicationFormData = {
   strength: '',
   dosageForm: '',
   frequency: '',
+  scheduleType: '',
+  scheduleTimes: ['08:00'],
+  intervalHours: 8,
+  scheduleDays: [],
+  cycleDaysOn: 21,
+  cycleDaysOff: 7,
   route: 'oral',
   instructions: '',
   prescribedBy: '',
@@ -58,6 +78,9 @@ const initialFormData: MedicationFormData = {
   pharmacy: '',
   prescriptionNumber: '',
   refillsRemaining: 0,
+  quantityDispensed: '',
+  lastFillDate: '',
+  unitsPerDose: 1,
 };
 
 // Common dosage forms for validation
@@ -79,6 +102,100 @@ const WEEKDAYS = [
 
 type DayOfWeek = typeof WEEKDAYS[number]['value'];
 
+// Schedule types offered in the form
+const SCHEDULE_TYPES: { value: DosingSchedule['type']; label: string }[] = [
+  { value: 'fixed_times', label: 'Same times every day' },
+  { value: 'interval', label: 'Every N hours' },
+  { value: 'weekly', label: 'Specific days of the week' },
+  { value: 'cyclic', label: 'Cycle (days on / days off)' },
+  { value: 'prn', label: 'As needed (PRN)' }
+];
+
+// Schedule pre-filled when a frequency is picked
+const FREQUENCY_SCHEDULE_PRESETS: Record<string, Partial<MedicationFormData>> = {
+  'Once daily': { scheduleType: 'fixed_times', scheduleTimes: ['08:00'] },
+  'Twice daily': { scheduleType: 'fixed_times', scheduleTimes: ['08:00', '20:00'] },
+  'Three times daily': { scheduleType: 'fixed_times', scheduleTimes: ['08:00', '14:00', '20:00'] },
+  'Four times daily': { scheduleType: 'fixed_times', scheduleTimes: ['08:00', '12:00', '16:00', '20:00'] },
+  'Every 4 hours': { scheduleType: 'interval', intervalHours: 4, scheduleTimes: ['06:00'] },
+  'Every 6 hours': { scheduleType: 'interval', intervalHours: 6, scheduleTimes: ['06:00'] },
+  'Every 8 hours': { scheduleType: 'interval', intervalHours: 8, scheduleTimes: ['06:00'] },
+  'Every 12 hours': { scheduleType: 'interval', intervalHours: 12, scheduleTimes: ['08:00'] },
+  'As needed': { scheduleType: 'prn' },
+  'Weekly': { scheduleType: 'weekly', scheduleDays: ['monday'], scheduleTimes: ['08:00'] },
+};
+
+const DISCONTINUE_REASON_LABELS: Record<DiscontinueReason, string> = {
+  side_effect: 'Side effect',
+  ineffective: 'Not effective',
+  completed_course: 'Completed course',
+  doctor_changed: 'Doctor changed prescription',
+};
+
+// Readable value for a field in the change history
+const formatHistoryValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (field === 'schedule') {
+    return describeDosingSchedule(value as DosingSchedule);
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleDateString();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return String(value);
+};
+
+// "refillsRemaining" -> "Refills remaining"
+const formatHistoryField = (field: string): string => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Build the structured schedule sent to the API from the form fields
+const buildSchedule = (data: MedicationFormData): DosingSchedule | undefined => {
+  const times = data.scheduleTimes.filter(Boolean);
+  switch (data.scheduleType) {
+    case 'fixed_times':
+      return { type: 'fixed_times', times };
+    case 'interval':
+      return { type: 'interval', intervalHours: data.intervalHours, firstDoseTime: times[0] || '08:00' };
+    case 'weekly':
+      return { type: 'weekly', days: data.scheduleDays, times };
+    case 'cyclic':
+      return { type: 'cyclic', daysOn: data.cycleDaysOn, daysOff: data.cycleDaysOff, times };
+    case 'prn':
+      return { type: 'prn' };
+    default:
+      return undefined;
+  }
+};
+
+// Map a stored schedule back onto the form fields
+const scheduleToFormFields = (schedule?: DosingSchedule): Partial<MedicationFormData> => {
+  if (!schedule) {
+    return { scheduleType: '' };
+  }
+  switch (schedule.type) {
+    case 'fixed_times':
+      return { scheduleType: 'fixed_times', scheduleTimes: schedule.times };
+    case 'interval':
+      return { scheduleType: 'interval', intervalHours: schedule.intervalHours, scheduleTimes: [schedule.firstDoseTime] };
+    case 'weekly':
+      return { scheduleType: 'weekly', scheduleDays: schedule.days, scheduleTimes: schedule.times };
+    case 'cyclic':
+      return { scheduleType: 'cyclic', cycleDaysOn: schedule.daysOn, cycleDaysOff: schedule.daysOff, scheduleTimes: schedule.times };
+    case 'prn':
+      return { scheduleType: 'prn' };
+  }
+};
+
 interface ReminderFormData {
   id?: string;
   time: string;
@@ -105,7 +222,9 @@ export default function MedicationManager({
   onAddMedication,
   onUpdateMedication,
   onDeleteMedication,
-  isLoading = false
+  onDiscontinueMedication,
+  isLoading = false,
+  patientTimeZone = DEFAULT_TIME_ZONE
 }: MedicationManagerProps) {
   const [isAddingMedication, setIsAddingMedication] = useState(false);
   const [editingMedicationId, setEditingMedicationId] = useState<string | null>(null);
@@ -122,6 +241,60 @@ export default function MedicationManager({
   const [initialReminders, setInitialReminders] = useState<MedicationReminder[]>([]);
   const [showReminderForm, setShowReminderForm] = useState(false);
 
+  // Change history timeline, shown for one medication at a time
+  const [historyMedicationId, setHistoryMedicationId] = useState<string | null>(null);
+  const [history, setHistory] = useState<MedicationHistoryEntry[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+
+  const toggleHistory = async (medicationId: string) => {
+    if (historyMedicationId === medicationId) {
+      setHistoryMedicationId(null);
+      return;
+    }
+
+    setHistoryMedicationId(medicationId);
+    setHistory([]);
+    setIsLoadingHistory(true);
+    try {
+      const response = await apiClient.get<{ success: boolean; data: MedicationHistoryEntry[] }>(
+        `${API_ENDPOINTS.PATIENT_MEDICATIONS(patientId)}/${medicationId}/history`
+      );
+      if (response.success) {
+        setHistory(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading medication history:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  // Supply forecasts for medications with a recorded fill
+  const [supplyForecasts, setSupplyForecasts] = useState<Record<string, SupplyForecast>>({});
+
+  useEffect(() => {
+    const tracked = medications.filter(med => med.isActive && med.lastFillDate && med.quantityDispensed != null);
+    if (tracked.length === 0) {
+      setSupplyForecasts({});
+      return;
+    }
+
+    Promise.all(tracked.map(async med => {
+      const response = await apiClient.get<{ success: boolean; data: SupplyForecast | null }>(`${API_ENDPOINTS.PATIENT_MEDICATIONS(patientId)}/${med.id}/supply`);
+      return [med.id, response.success ? response.data : null] as const;
+    }))
+      .then(results => {
+        const forecasts: Record<string, SupplyForecast> = {};
+        results.forEach(([id, forecast]) => {
+          if (forecast) {
+            forecasts[id] = forecast;
+          }
+        });
+        setSupplyForecasts(forecasts);
+      })
+      .catch(error => console.error('Error loading supply forecasts:', error));
+  }, [medications, patientId]);
+
   const addReminder = () => {
     setReminders(prev => [...prev, { time: '08:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] }]);
   };
@@ -267,6 +440,9 @@ export default function MedicationManager({
         if (typeof value === 'string' && value === 'As needed' && !formData.isPRN) {
           setFormData(prev => ({ ...prev, isPRN: true }));
         }
+        if (typeof value === 'string' && FREQUENCY_SCHEDULE_PRESETS[value]) {
+          setFormData(prev => ({ ...prev, ...FREQUENCY_SCHEDULE_PRESETS[value] }));
+        }
         break;
     }
     
@@ -291,6 +467,17 @@ export default function MedicationManager({
       errors.dosageForm = 'Please select a valid dosage form';
     }
     
+    // Schedule validation
+    if (formData.scheduleType && formData.scheduleType !== 'prn' && formData.scheduleTimes.filter(Boolean).length === 0) {
+      errors.schedule = 'Add at least one dose time';
+    }
+    if (formData.scheduleType === 'weekly' && formData.scheduleDays.length === 0) {
+      errors.schedule = 'Select at least one day';
+    }
+    if (formData.scheduleType === 'interval' && (!formData.intervalHours || formData.intervalHours < 0.25 || formData.intervalHours > 168)) {
+      errors.schedule = 'Interval must be between 15 minutes (0.25 hours) and 168 hours';
+    }
+
     // Date validation
     if (formData.startDate && formData.endDate) {
       const startDate = new Date(formData.startDate);
@@ -329,6 +516,7 @@ export default function MedicationManager({
         strength: formData.strength?.trim() || undefined,
         dosageForm: formData.dosageForm?.trim() || undefined,
         frequency: formData.frequency,
+        schedule: buildSchedule(formData),
         route: formData.route || undefined,
         instructions: formData.instructions.trim(),
         prescribedBy: formData.prescribedBy.trim(),
@@ -342,6 +530,9 @@ export default function MedicationManager({
         pharmacy: formData.pharmacy?.trim() || undefined,
         prescriptionNumber: formData.prescriptionNumber?.trim() || undefined,
         refillsRemaining: formData.refillsRemaining || undefined,
+        quantityDispensed: formData.quantityDispensed ? Number(formData.quantityDispensed) : undefined,
+        lastFillDate: formData.lastFillDate ? new Date(formData.lastFillDate) : undefined,
+        unitsPerDose: formData.unitsPerDose || undefined,
       };
 
       console.log('🔍 MedicationManager: Prepared medication data:', medicationData);
@@ -368,20 +559,20 @@ export default function MedicationManager({
         const remindersToDelete = initialReminders.filter(r => !currentReminderIds.includes(r.id));
         
         await Promise.all(remindersToDelete.map(r => 
-          apiClient.delete(`/api/medications/reminders/${r.id}`)
+          apiClient.delete(`${API_ENDPOINTS.PATIENT_MEDICATIONS(patientId)}/reminders/${r.id}`)
         ));
 
         // 2. Create or update reminders
         await Promise.all(reminders.map(r => {
           if (r.id) {
             // Update
-             return apiClient.put(`/api/medications/reminders/${r.id}`, {
+             return apiClient.put(`${API_ENDPOINTS.PATIENT_MEDICATIONS(patientId)}/reminders/${r.id}`, {
               reminderTime: r.time,
               days: r.days
             });
           } else {
             // Create
-            return apiClient.post(`/api/medications/${savedMedicationId}/reminders`, {
+            return apiClient.post(`${API_ENDPOINTS.PATIENT_MEDICATIONS(patientId)}/${savedMedicationId}/reminders`, {
               reminderTime: r.time,
               days: r.days,
               isActive: true
@@ -401,6 +592,14 @@ export default function MedicationManager({
   };
 
   const handleEdit = async (medication: Medication) => {
+    const initialScheduleFields = {
+      scheduleType: initialFormData.scheduleType,
+      scheduleTimes: initialFormData.scheduleTimes,
+      intervalHours: initialFormData.intervalHours,
+      scheduleDays: initialFormData.scheduleDays,
+      cycleDaysOn: initialFormData.cycleDaysOn,
+      cycleDaysOff: initialFormData.cycleDaysOff,
+    };
     setFormData({
       name: medication.name,
       genericName: medication.genericName || '',
@@ -410,6 +609,8 @@ export default function MedicationManager({
       strength: medication.strength || '',
       dosageForm: medication.dosageForm || '',
       frequency: medication.frequency,
+      ...initialScheduleFields,
+      ...scheduleToFormFields(medication.schedule),
       route: medication.route || 'oral',
       instructions: medication.instructions,
       prescribedBy: medication.prescribedBy,
@@ -432,13 +633,18 @@ export default function MedicationManager({
       pharmacy: medication.pharmacy || '',
       prescriptionNumber: medication.prescriptionNumber || '',
       refillsRemaining: medication.refillsRemaining || 0,
+      quantityDispensed: medication.quantityDispensed != null ? String(medication.quantityDispensed) : '',
+      lastFillDate: medication.lastFillDate
+        ? new Date(medication.lastFillDate).toISOString().split('T')[0]
+        : '',
+      unitsPerDose: medication.unitsPerDose || 1,
     });
     setEditingMedicationId(medication.id);
     setIsAddingMedication(true);
 
     // Fetch reminders
     try {
-      const response = await apiClient.get<MedicationReminder[]>(`/api/medications/${medication.id}/reminders`);
+      const response = await apiClient.get<MedicationReminder[]>(`${API_ENDPOINTS.PATIENT_MEDICATIONS(patientId)}/${medication.id}/reminders`);
       if (response.success && response.data) {
         setInitialReminders(response.data);
         setReminders(response.data.map(r => ({
@@ -468,6 +674,32 @@ export default function MedicationManager({
     setInitialReminders([]);
   };
 
+  // Discontinue form, shown for one medication at a time
+  const [discontinuingMedicationId, setDiscontinuingMedicationId] = useState<string | null>(null);
+  const [discontinueForm, setDiscontinueForm] = useState<{ reason: DiscontinueReason; endDate: string; notes: string }>({
+    reason: 'completed_course',
+    endDate: new Date().toISOString().split('T')[0],
+    notes: '',
+  });
+
+  const startDiscontinue = (medicationId: string) => {
+    setDiscontinueForm({ reason: 'completed_course', endDate: new Date().toISOString().split('T')[0], notes: '' });
+    setDiscontinuingMedicationId(medicationId);
+  };
+
+  const handleDiscontinue = async (medicationId: string) => {
+    try {
+      await onDiscontinueMedication(medicationId, {
+        reason: discontinueForm.reason,
+        endDate: discontinueForm.endDate ? new Date(discontinueForm.endDate) : undefined,
+        notes: discontinueForm.notes.trim() || undefined,
+      });
+      setDiscontinuingMedicationId(null);
+    } catch (error) {
+      console.error('Error discontinuing medication:', error);
+    }
+  };
+
   const handleDelete = async (medicationId: string) => {
     if (window.confirm('Are you sure you want to delete this medication?')) {
       try {
@@ -480,12 +712,22 @@ export default function MedicationManager({
 
   const activeMedications = medications.filter(med => med.isActive);
   const inactiveMedications = medications.filter(med => !med.isActive);
+  const timeZoneLabel = getTimeZoneAbbreviation(patientTimeZone);
+  const isViewerInOtherTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone !== patientTimeZone;
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
-        <h3 className="text-lg font-semibold text-gray-900">Medications</h3>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Medications</h3>
+          {isViewerInOtherTimeZone && (
+            <p className="text-xs text-gray-500 mt-1 flex items-center space-x-1">
+              <Clock className="w-3 h-3" />
+              <span>Times are in the patient's timezone ({patientTimeZone})</span>
+            </p>
+          )}
+        </div>
         {!isAddingMedication && (
           <button
             onClick={() => {
@@ -675,6 +917,140 @@ export default function MedicationManager({
                 )}
               </div>
 
+              {/* Dosing Schedule */}
+              <div className="md:col-span-2 bg-white p-4 rounded-lg border border-gray-200">
+                <label className="label">Dosing Schedule</label>
+                <select
+                  value={formData.scheduleType}
+                  onChange={(e) => handleInputChange('scheduleType', e.target.value)}
+                  className="input"
+                >
+                  <option value="">No structured schedule</option>
+                  {SCHEDULE_TYPES.map(type => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+
+                {formData.scheduleType === 'interval' && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-3">
+                    <div>
+                      <label className="text-xs font-medium text-gray-500 mb-1 block">Every (hours)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={168}
+                        value={formData.intervalHours}
+                        onChange={(e) => handleInputChange('intervalHours', Number(e.target.value))}
+                        className="input"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs font-medium text-gray-500 mb-1 block">First dose at ({timeZoneLabel})</label>
+                      <input
+                        type="time"
+                        value={formData.scheduleTimes[0] || ''}
+                        onChange={(e) => setFormData(prev => ({ ...prev, scheduleTimes: [e.target.value] }))}
+                        className="input"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {formData.scheduleType === 'cyclic' && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-3">
+                    <div>
+                      <label className="text-xs font-medium text-gray-500 mb-1 block">Days on</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={formData.cycleDaysOn}
+                        onChange={(e) => handleInputChange('cycleDaysOn', Number(e.target.value))}
+                        className="input"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs font-medium text-gray-500 mb-1 block">Days off</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={formData.cycleDaysOff}
+                        onChange={(e) => handleInputChange('cycleDaysOff', Number(e.target.value))}
+                        className="input"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {formData.scheduleType === 'weekly' && (
+                  <div className="flex flex-wrap gap-1 mt-3">
+                    {WEEKDAYS.map(day => (
+                      <button
+                        key={day.value}
+                        type="button"
+                        onClick={() => setFormData(prev => ({
+                          ...prev,
+                          scheduleDays: prev.scheduleDays.includes(day.value)
+                            ? prev.scheduleDays.filter(d => d !== day.value)
+                            : [...prev.scheduleDays, day.value]
+                        }))}
+                        className={`px-2 py-1 text-xs rounded-full border ${
+                          formData.scheduleDays.includes(day.value)
+                            ? 'bg-blue-100 text-blue-700 border-blue-200'
+                            : 'bg-gray-50 text-gray-500 border-gray-200 hover:bg-gray-100'
+                        }`}
+                      >
+                        {day.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {(formData.scheduleType === 'fixed_times' || formData.scheduleType === 'weekly' || formData.scheduleType === 'cyclic') && (
+                  <div className="mt-3 space-y-2">
+                    <label className="text-xs font-medium text-gray-500 block">Dose times ({timeZoneLabel})</label>
+                    {formData.scheduleTimes.map((time, index) => (
+                      <div key={index} className="flex items-center space-x-2">
+                        <Clock className="w-4 h-4 text-gray-400" />
+                        <input
+                          type="time"
+                          value={time}
+                          onChange={(e) => setFormData(prev => ({
+                            ...prev,
+                            scheduleTimes: prev.scheduleTimes.map((t, i) => i === index ? e.target.value : t)
+                          }))}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setFormData(prev => ({
+                            ...prev,
+                            scheduleTimes: prev.scheduleTimes.filter((_, i) => i !== index)
+                          }))}
+                          className="text-gray-400 hover:text-red-500 p-1"
+                          title="Remove dose time"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, scheduleTimes: [...prev.scheduleTimes, '12:00'] }))}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-medium flex items-center space-x-1"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>Add Dose Time</span>
+                    </button>
+                  </div>
+                )}
+
+                {validationErrors.schedule && (
+                  <p className="mt-1 text-sm text-red-600">{validationErrors.schedule}</p>
+                )}
+              </div>
+
               {/* Reminder Settings */}
               {!formData.isPRN && (
                 <div className="md:col-span-2 bg-blue-50 p-4 rounded-lg border border-blue-100">
@@ -702,7 +1078,7 @@ export default function MedicationManager({
                           <div className="flex items-start justify-between">
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 w-full mr-4">
                               <div>
-                                <label className="text-xs font-medium text-gray-500 mb-1 block">Time</label>
+                                <label className="text-xs font-medium text-gray-500 mb-1 block">Time ({timeZoneLabel})</label>
                                 <div className="flex items-center space-x-2">
                                   <Clock className="w-4 h-4 text-gray-400" />
                                   <input
@@ -857,6 +1233,42 @@ export default function MedicationManager({
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="label">Quantity Dispensed</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.quantityDispensed}
+                  onChange={(e) => handleInputChange('quantityDispensed', e.target.value)}
+                  className="input"
+                  placeholder="e.g., 30"
+                />
+              </div>
+
+              <div>
+                <label className="label">Last Fill Date</label>
+                <input
+                  type="date"
+                  value={formData.lastFillDate}
+                  onChange={(e) => handleInputChange('lastFillDate', e.target.value)}
+                  className="input"
+                />
+              </div>
+
+              <div>
+                <label className="label">Units per Dose</label>
+                <input
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  value={formData.unitsPerDose}
+                  onChange={(e) => handleInputChange('unitsPerDose', Number(e.target.value))}
+                  className="input"
+                />
+              </div>
+            </div>
+
             <div className="flex items-center space-x-2">
               <input
                 type="checkbox"
@@ -937,6 +1349,15 @@ export default function MedicationManager({
                         {medication.dosage} • {medication.frequency}
                         {medication.strength && ` • ${medication.strength}`}
                       </p>
+                      {medication.schedule && (
+                        <p className="text-xs text-gray-500 mt-1 flex items-center space-x-1">
+                          <Clock className="w-3 h-3" />
+                          <span>
+                            {describeDosingSchedule(medication.schedule)}
+                            {medication.schedule.type !== 'prn' && ` (${timeZoneLabel})`}
+                          </span>
+                        </p>
+                      )}
                       <p className="text-sm text-gray-500 mt-1">{medication.instructions}</p>
                       <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
                         <span className="flex items-center space-x-1">
@@ -949,9 +1370,26 @@ export default function MedicationManager({
                         </span>
                         <span>By: {medication.prescribedBy}</span>
                       </div>
+                      {supplyForecasts[medication.id] && (
+                        <p className={`text-xs mt-1 ${
+                          (supplyForecasts[medication.id].daysRemaining ?? Infinity) < 7 ? 'text-red-600 font-medium' : 'text-gray-500'
+                        }`}>
+                          {Math.floor(supplyForecasts[medication.id].onHand)} left
+                          {supplyForecasts[medication.id].runOutDate &&
+                            ` • runs out ${new Date(supplyForecasts[medication.id].runOutDate!).toLocaleDateString()}`}
+                          {medication.refillsRemaining !== undefined && ` • ${medication.refillsRemaining} refills remaining`}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => toggleHistory(medication.id)}
+                      className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                      title="Change history"
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={() => handleEdit(medication)}
                       className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
@@ -959,15 +1397,100 @@ export default function MedicationManager({
                     >
                       <Edit className="w-4 h-4" />
                     </button>
+                    {isWithinHardDeleteWindow(medication, new Date()) && (
+                      <button
+                        onClick={() => handleDelete(medication.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Delete medication added in error"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
                     <button
-                      onClick={() => handleDelete(medication.id)}
+                      onClick={() => startDiscontinue(medication.id)}
                       className="p-2 text-gray-400 hover:text-red-600 transition-colors"
-                      title="Delete medication"
+                      title="Discontinue medication"
                     >
-                      <Trash2 className="w-4 h-4" />
+                      <Ban className="w-4 h-4" />
                     </button>
                   </div>
                 </div>
+                {discontinuingMedicationId === medication.id && (
+                  <div className="mt-4 border-t border-gray-100 pt-3 space-y-3">
+                    <h6 className="text-sm font-medium text-gray-900">Discontinue {medication.name}</h6>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="label">Reason</label>
+                        <select
+                          value={discontinueForm.reason}
+                          onChange={(e) => setDiscontinueForm(prev => ({ ...prev, reason: e.target.value as DiscontinueReason }))}
+                          className="input"
+                        >
+                          {Object.entries(DISCONTINUE_REASON_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="label">Last Day Taken</label>
+                        <input
+                          type="date"
+                          value={discontinueForm.endDate}
+                          onChange={(e) => setDiscontinueForm(prev => ({ ...prev, endDate: e.target.value }))}
+                          className="input"
+                        />
+                      </div>
+                    </div>
+                    <input
+                      type="text"
+                      value={discontinueForm.notes}
+                      onChange={(e) => setDiscontinueForm(prev => ({ ...prev, notes: e.target.value }))}
+                      className="input"
+                      placeholder="Notes (optional)"
+                    />
+                    <p className="text-xs text-gray-500">Reminders for this medication will be turned off. Its logs and history are kept.</p>
+                    <div className="flex justify-end space-x-3">
+                      <button type="button" onClick={() => setDiscontinuingMedicationId(null)} className="btn-secondary">
+                        Cancel
+                      </button>
+                      <button type="button" onClick={() => handleDiscontinue(medication.id)} className="btn-primary">
+                        Discontinue
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {historyMedicationId === medication.id && (
+                  <div className="mt-4 border-t border-gray-100 pt-3">
+                    <h6 className="text-sm font-medium text-gray-900 mb-2">Change History</h6>
+                    {isLoadingHistory ? (
+                      <p className="text-xs text-gray-500">Loading...</p>
+                    ) : history.length === 0 ? (
+                      <p className="text-xs text-gray-500">No changes since this medication was added.</p>
+                    ) : (
+                      <ol className="relative border-l border-gray-200 ml-1 space-y-3">
+                        {history.map(entry => (
+                          <li key={entry.id} className="ml-4">
+                            <div className="absolute w-2 h-2 bg-primary-600 rounded-full -left-1 mt-1.5" />
+                            <p className="text-xs text-gray-500">
+                              Version {entry.version} • {new Date(entry.changedAt).toLocaleString()}
+                              {' • '}{entry.changedBy === 'system' ? 'Automatic' : entry.changedByName || 'Family member'}
+                            </p>
+                            <ul className="text-sm text-gray-700">
+                              {entry.changes.map(change => (
+                                <li key={change.field}>
+                                  {formatHistoryField(change.field)}:{' '}
+                                  <span className="line-through text-gray-400">{formatHistoryValue(change.field, change.before)}</span>
+                                  {' → '}
+                                  <span>{formatHistoryValue(change.field, change.after)}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -1023,7 +1546,13 @@ export default function MedicationManager({
                               : new Date(medication.endDate).toLocaleDateString()
                           }</span>
                         )}
+                        {medication.discontinueReason && (
+                          <span>Reason: {DISCONTINUE_REASON_LABELS[medication.discontinueReason]}</span>
+                        )}
                       </div>
+                      {medication.discontinueNotes && (
+                        <p className="text-xs text-gray-400 mt-1">{medication.discontinueNotes}</p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1,5 +1,13 @@
 import React, { useState } from 'react';
 import LoadingSpinner from './LoadingSpinner';
+import type { FamilyMemberRole, FamilyPermission } from '@shared/types';
+import {
+  ASSIGNABLE_ROLES,
+  FAMILY_PERMISSIONS,
+  FAMILY_PERMISSION_LABELS,
+  FAMILY_ROLE_LABELS,
+  ROLE_PERMISSIONS,
+} from '@shared/utils/familyPermissions';
 
 interface PatientInvitationProps {
   onInvitationSent?: () => void;
@@ -9,8 +17,12 @@ export const PatientInvitation: React.FC<PatientInvitationProps> = ({ onInvitati
   const [formData, setFormData] = useState({
     email: '',
     patientName: '',
-    message: ''
+    message: '',
+    role: 'family_member' as FamilyMemberRole,
+    allowAnyEmail: false
   });
+  // null leaves the new member on their role's defaults
+  const [permissions, setPermissions] = useState<FamilyPermission[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -34,7 +46,7 @@ export const PatientInvitation: React.FC<PatientInvitationProps> = ({ onInvitati
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`
         },
-        body: JSON.stringify(formData)
+        body: JSON.stringify({ ...formData, permissions })
       });
 
       const result = await response.json();
@@ -44,7 +56,8 @@ export const PatientInvitation: React.FC<PatientInvitationProps> = ({ onInvitati
       }
 
       setSuccess('Invitation sent successfully!');
-      setFormData({ email: '', patientName: '', message: '' });
+      setFormData({ email: '', patientName: '', message: '', role: 'family_member', allowAnyEmail: false });
+      setPermissions(null);
       onInvitationSent?.();
 
     } catch (err) {
@@ -54,10 +67,17 @@ export const PatientInvitation: React.FC<PatientInvitationProps> = ({ onInvitati
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const togglePermission = (permission: FamilyPermission) => {
+    setPermissions(prev => prev && (prev.includes(permission)
+      ? prev.filter(p => p !== permission)
+      : [...prev, permission]));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
     setFormData(prev => ({
       ...prev,
-      [e.target.name]: e.target.value
+      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value
     }));
   };
 
@@ -113,6 +133,67 @@ export const PatientInvitation: React.FC<PatientInvitationProps> = ({ onInvitati
           />
         </div>
 
+        <div>
+          <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-1">
+            Role
+          </label>
+          <select
+            id="role"
+            name="role"
+            value={formData.role}
+            onChange={handleChange}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {ASSIGNABLE_ROLES.map(role => (
+              <option key={role} value={role}>{FAMILY_ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <div className="flex items-start space-x-2">
+            <input
+              type="checkbox"
+              id="customPermissions"
+              checked={permissions !== null}
+              onChange={(e) => setPermissions(e.target.checked ? [...ROLE_PERMISSIONS[formData.role]] : null)}
+              className="mt-1"
+            />
+            <label htmlFor="customPermissions" className="text-sm text-gray-700">
+              Choose exactly what they can do
+            </label>
+          </div>
+          <ul className="mt-2 ml-6 space-y-1">
+            {(permissions === null ? ROLE_PERMISSIONS[formData.role] : FAMILY_PERMISSIONS).map(permission => (
+              <li key={permission} className="flex items-center space-x-2 text-sm text-gray-600">
+                {permissions !== null && (
+                  <input
+                    type="checkbox"
+                    id={`permission-${permission}`}
+                    checked={permissions.includes(permission)}
+                    onChange={() => togglePermission(permission)}
+                  />
+                )}
+                <label htmlFor={`permission-${permission}`}>{FAMILY_PERMISSION_LABELS[permission]}</label>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="flex items-start space-x-2">
+          <input
+            type="checkbox"
+            id="allowAnyEmail"
+            name="allowAnyEmail"
+            checked={formData.allowAnyEmail}
+            onChange={handleChange}
+            className="mt-1"
+          />
+          <label htmlFor="allowAnyEmail" className="text-sm text-gray-700">
+            Let them accept while signed in with a different email address
+          </label>
+        </div>
+
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
             {error}
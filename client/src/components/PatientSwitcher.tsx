@@ -0,0 +1,29 @@
+import { usePatient } from '@/contexts/PatientContext';
+import { Users } from 'lucide-react';
+
+export default function PatientSwitcher() {
+  const { patients, selectedPatient, selectPatient } = usePatient();
+
+  // Nothing to switch between until the user can view someone else's care
+  if (patients.length < 2 || !selectedPatient) {
+    return null;
+  }
+
+  return (
+    <label className="flex items-center space-x-2 text-sm text-gray-600">
+      <Users className="w-5 h-5 text-gray-400" />
+      <span className="sr-only">Viewing dashboard for</span>
+      <select
+        value={selectedPatient.id}
+        onChange={(e) => selectPatient(e.target.value)}
+        className="input py-1"
+      >
+        {patients.map(patient => (
+          <option key={patient.id} value={patient.id}>
+            {patient.isSelf ? `${patient.name} (you)` : patient.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
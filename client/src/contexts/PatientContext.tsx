@@ -0,0 +1,103 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiClient, API_ENDPOINTS } from '@/lib/api';
+import type { FamilyGroupRecord, FamilyPermission } from '@shared/types';
+import { getMemberPermissions } from '@shared/utils/familyPermissions';
+
+const SELECTED_PATIENT_KEY = 'kinconnect.selectedPatientId';
+
+// A family group only offers its members as patients if the user can see
+// some of their care there; otherwise the dashboard would be all 403s
+const VIEW_PERMISSIONS: FamilyPermission[] = ['view_profile', 'view_medications', 'view_appointments', 'view_tasks'];
+
+export interface PatientOption {
+  id: string; // The patient's user uid
+  name: string;
+  isSelf: boolean;
+}
+
+interface PatientContextType {
+  patients: PatientOption[];
+  selectedPatient: PatientOption | null;
+  selectPatient: (patientId: string) => void;
+}
+
+const PatientContext = createContext<PatientContextType | undefined>(undefined);
+
+interface PatientProviderProps {
+  children: ReactNode;
+}
+
+export function PatientProvider({ children }: PatientProviderProps) {
+  const { user } = useAuth();
+  const [patients, setPatients] = useState<PatientOption[]>([]);
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(
+    () => localStorage.getItem(SELECTED_PATIENT_KEY)
+  );
+
+  // The user first, then everyone in a family group where the user can view their care
+  useEffect(() => {
+    if (!user) {
+      setPatients([]);
+      return;
+    }
+
+    const self: PatientOption = { id: user.id, name: user.name, isSelf: true };
+    setPatients([self]);
+
+    const loadPatients = async () => {
+      try {
+        const response = await apiClient.get<{ success: boolean; data: FamilyGroupRecord[] }>(API_ENDPOINTS.FAMILY_GROUPS);
+        const options = new Map<string, PatientOption>([[self.id, self]]);
+        for (const group of response.data || []) {
+          const membership = group.members.find(member => member.uid === user.id);
+          const permissions = membership ? getMemberPermissions(membership) : [];
+          if (!VIEW_PERMISSIONS.some(permission => permissions.includes(permission))) {
+            continue;
+          }
+
+          for (const member of group.members) {
+            if (!options.has(member.uid)) {
+              options.set(member.uid, { id: member.uid, name: member.name, isSelf: false });
+            }
+          }
+        }
+        setPatients([...options.values()]);
+      } catch (error) {
+        console.error('Error loading family groups:', error);
+      }
+    };
+
+    loadPatients();
+  }, [user]);
+
+  const selectPatient = (patientId: string) => {
+    localStorage.setItem(SELECTED_PATIENT_KEY, patientId);
+    setSelectedPatientId(patientId);
+  };
+
+  // Fall back to the user's own dashboard if the stored patient is no longer in their groups
+  const selectedPatient = patients.find(patient => patient.id === selectedPatientId)
+    || patients.find(patient => patient.isSelf)
+    || null;
+
+  const value: PatientContextType = {
+    patients,
+    selectedPatient,
+    selectPatient,
+  };
+
+  return (
+    <PatientContext.Provider value={value}>
+      {children}
+    </PatientContext.Provider>
+  );
+}
+
+export function usePatient() {
+  const context = useContext(PatientContext);
+  if (context === undefined) {
+    throw new Error('usePatient must be used within a PatientProvider');
+  }
+  return context;
+}
@@ -94,6 +94,7 @@ export const API_ENDPOINTS = {
   PATIENT_SEARCH_CONDITION: '/patients/search/condition',
   PATIENT_SEARCH_ALLERGY: '/patients/search/allergy',
   PATIENT_SEARCH_AGE: '/patients/search/age',
+  PATIENT_BY_ID: (patientId: string) => `/patients/${patientId}`,
   
   // Medications
   MEDICATIONS: '/medications',
@@ -105,6 +106,19 @@ export const API_ENDPOINTS = {
   MEDICATION_REMINDERS: '/medication-reminders',
   PATIENT_MEDICATION_REMINDERS: (patientId: string) => `/patients/${patientId}/medication-reminders`,
   
+  // Family
+  FAMILY_GROUPS: '/family/groups',
+
+  // Appointments
+  PATIENT_APPOINTMENTS: (patientId: string) => `/patients/${patientId}/appointments`,
+  PATIENT_CALENDAR_FEEDS: (patientId: string) => `/patients/${patientId}/calendar-feeds`,
+  PATIENT_APPOINTMENT_REMINDERS: (patientId: string) => `/patients/${patientId}/appointment-reminders`,
+  GOOGLE_CALENDAR: '/google-calendar',
+  GOOGLE_CALENDAR_AUTH_URL: '/google-calendar/auth-url',
+  GOOGLE_CALENDAR_CALENDARS: '/google-calendar/calendars',
+  GOOGLE_CALENDAR_SETTINGS: '/google-calendar/settings',
+  GOOGLE_CALENDAR_SYNC: '/google-calendar/sync',
+  
   // Drug search (external API integration)
   DRUG_SEARCH: '/drugs/search',
   DRUG_DETAILS: (rxcui: string) => `/drugs/${rxcui}`,
@@ -3,6 +3,8 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { Heart, CheckCircle, XCircle, Clock } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import type { FamilyMemberRole, FamilyPermission } from '@shared/types';
+import { FAMILY_PERMISSION_LABELS, FAMILY_ROLE_LABELS, getMemberPermissions } from '@shared/utils/familyPermissions';
 
 interface InvitationData {
   id: string;
@@ -11,32 +13,36 @@ interface InvitationData {
   patientName: string;
   patientEmail: string;
   message: string;
+  role?: FamilyMemberRole; // Missing on invitations sent before roles could be chosen
+  permissions?: FamilyPermission[] | null;
   status: string;
   createdAt: Date;
   expiresAt: Date;
 }
 
 export default function AcceptInvitation() {
-  const { invitationId } = useParams<{ invitationId: string }>();
+  const { token: invitationToken } = useParams<{ token: string }>();
   const navigate = useNavigate();
   const { isAuthenticated, firebaseUser } = useAuth();
   
   const [invitation, setInvitation] = useState<InvitationData | null>(null);
   const [loading, setLoading] = useState(true);
   const [accepting, setAccepting] = useState(false);
+  const [declining, setDeclining] = useState(false);
+  const [declined, setDeclined] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
 
   useEffect(() => {
-    if (invitationId) {
+    if (invitationToken) {
       fetchInvitation();
     }
-  }, [invitationId]);
+  }, [invitationToken]);
 
   const fetchInvitation = async () => {
     try {
       const response = await fetch(
-        `https://us-central1-claritystream-uldp9.cloudfunctions.net/api/api/invitations/${invitationId}`
+        `https://us-central1-claritystream-uldp9.cloudfunctions.net/api/api/invitations/token/${invitationToken}`
       );
       
       const result = await response.json();
@@ -70,7 +76,7 @@ export default function AcceptInvitation() {
       const token = await firebaseUser.getIdToken();
       
       const response = await fetch(
-        `https://us-central1-claritystream-uldp9.cloudfunctions.net/api/api/invitations/${invitationId}/accept`,
+        `https://us-central1-claritystream-uldp9.cloudfunctions.net/api/api/invitations/token/${invitationToken}/accept`,
         {
           method: 'POST',
           headers: {
@@ -98,6 +104,46 @@ export default function AcceptInvitation() {
     }
   };
 
+  const handleDeclineInvitation = async () => {
+    if (!isAuthenticated || !firebaseUser) {
+      setError('Please sign in to decline this invitation');
+      return;
+    }
+
+    setDeclining(true);
+    setError(null);
+
+    try {
+      const token = await firebaseUser.getIdToken();
+
+      const response = await fetch(
+        `https://us-central1-claritystream-uldp9.cloudfunctions.net/api/api/invitations/${invitation?.id}/decline`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+          }
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to decline invitation');
+      }
+
+      setDeclined(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decline invitation');
+    } finally {
+      setDeclining(false);
+    }
+  };
+
+  const invitedRole = invitation?.role || 'family_member';
+  const invitedPermissions = getMemberPermissions({ role: invitedRole, permissions: invitation?.permissions ?? undefined });
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -140,6 +186,26 @@ export default function AcceptInvitation() {
     );
   }
 
+  if (declined) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="max-w-md mx-auto bg-white rounded-lg shadow-md p-8 text-center">
+          <XCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Invitation Declined</h1>
+          <p className="text-gray-600 mb-6">
+            We've let {invitation?.inviterName} know you won't be joining their care network.
+          </p>
+          <button
+            onClick={() => navigate('/')}
+            className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700"
+          >
+            Go to KinConnect
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -184,6 +250,21 @@ export default function AcceptInvitation() {
                 </label>
                 <p className="text-gray-900">{invitation?.patientName}</p>
               </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Your Role
+                </label>
+                <p className="text-gray-900">{FAMILY_ROLE_LABELS[invitedRole]}</p>
+                <ul className="mt-1 text-sm text-gray-600 list-disc list-inside">
+                  {invitedPermissions.map(permission => (
+                    <li key={permission}>{FAMILY_PERMISSION_LABELS[permission]}</li>
+                  ))}
+                </ul>
+                {invitedPermissions.length === 0 && (
+                  <p className="text-sm text-gray-600">You won't have access to any of their information yet.</p>
+                )}
+              </div>
               
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -241,14 +322,15 @@ export default function AcceptInvitation() {
 
               <div className="flex space-x-4 justify-center">
                 <button
-                  onClick={() => navigate('/')}
-                  className="px-6 py-3 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                  onClick={handleDeclineInvitation}
+                  disabled={accepting || declining}
+                  className="px-6 py-3 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Decline
+                  {declining ? 'Declining...' : 'Decline'}
                 </button>
                 <button
                   onClick={handleAcceptInvitation}
-                  disabled={accepting}
+                  disabled={accepting || declining}
                   className="bg-blue-600 text-white px-8 py-3 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
                 >
                   {accepting ? (
@@ -1,7 +1,13 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePatient } from '@/contexts/PatientContext';
+import PatientSwitcher from '@/components/PatientSwitcher';
 import { signOutUser } from '@/lib/firebase';
+import { apiClient, API_ENDPOINTS } from '@/lib/api';
+import { DoseEscalation, Medication, MedicationReminder } from '@shared/types';
+import { DAYS_OF_WEEK } from '@shared/utils/dosingSchedule';
+import { DEFAULT_TIME_ZONE, formatTimeInZone, getTimeZoneAbbreviation, getZonedDateParts } from '@shared/utils/timezone';
 import { 
   Heart, 
   Calendar, 
@@ -10,11 +16,96 @@ import {
   Settings, 
   LogOut,
   Plus,
-  Bell
+  Bell,
+  AlertTriangle
 } from 'lucide-react';
 
+interface TodaysReminder {
+  id: string;
+  medicationName: string;
+  time: string;
+}
+
 export default function Dashboard() {
   const { user, firebaseUser } = useAuth();
+  const { selectedPatient } = usePatient();
+  const patientId = selectedPatient?.id;
+  const [todaysReminders, setTodaysReminders] = useState<TodaysReminder[]>([]);
+  const [patientTimeZone, setPatientTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [missedDoses, setMissedDoses] = useState<DoseEscalation[]>([]);
+
+  // Today's reminders, with "today" and the times taken from the patient's timezone
+  useEffect(() => {
+    if (!patientId) {
+      return;
+    }
+
+    const loadTodaysReminders = async () => {
+      try {
+        const [profile, medications, reminders] = await Promise.all([
+          apiClient.get<{ success: boolean; data: any }>(
+            selectedPatient!.isSelf ? API_ENDPOINTS.PATIENT_PROFILE : API_ENDPOINTS.PATIENT_BY_ID(patientId)
+          ),
+          apiClient.get<{ success: boolean; data: Medication[] }>(API_ENDPOINTS.PATIENT_MEDICATIONS(patientId)),
+          apiClient.get<{ success: boolean; data: MedicationReminder[] }>(`${API_ENDPOINTS.PATIENT_MEDICATIONS(patientId)}/reminders/all`),
+        ]);
+
+        const timeZone = profile.data?.timezone || DEFAULT_TIME_ZONE;
+        const today = DAYS_OF_WEEK[getZonedDateParts(new Date(), timeZone).weekday];
+        const activeMedications = new Map(
+          (medications.data || []).filter(med => med.isActive).map(med => [med.id, med.name])
+        );
+
+        setPatientTimeZone(timeZone);
+        setTodaysReminders(
+          (reminders.data || [])
+            .filter(reminder => reminder.isActive && reminder.days.includes(today) && activeMedications.has(reminder.medicationId))
+            .sort((a, b) => a.reminderTime.localeCompare(b.reminderTime))
+            .map(reminder => ({
+              id: reminder.id,
+              medicationName: activeMedications.get(reminder.medicationId)!,
+              time: reminder.reminderTime,
+            }))
+        );
+      } catch (error) {
+        console.error('Error loading reminders:', error);
+      }
+    };
+
+    loadTodaysReminders();
+  }, [patientId]);
+
+  // Missed doses of family members that this user has been alerted about
+  useEffect(() => {
+    const loadMissedDoses = async () => {
+      try {
+        const response = await apiClient.get<{ success: boolean; data: DoseEscalation[] }>(`${API_ENDPOINTS.MEDICATIONS}/escalations`);
+        setMissedDoses(response.data || []);
+      } catch (error) {
+        console.error('Error loading missed doses:', error);
+      }
+    };
+
+    loadMissedDoses();
+  }, []);
+
+  const handleAcknowledge = async (escalationId: string) => {
+    try {
+      await apiClient.post(`${API_ENDPOINTS.MEDICATIONS}/escalations/${escalationId}/acknowledge`);
+      setMissedDoses(prev => prev.filter(escalation => escalation.id !== escalationId));
+    } catch (error) {
+      console.error('Error acknowledging missed dose:', error);
+    }
+  };
+
+  const timeZoneLabel = getTimeZoneAbbreviation(patientTimeZone);
+
+  // Missed doses can be for any family member, so each is shown in its own patient's timezone
+  const formatMissedDoseTime = (escalation: DoseEscalation): string => {
+    const scheduledFor = new Date(escalation.scheduledFor);
+    const timeZone = escalation.timeZone || DEFAULT_TIME_ZONE;
+    return `${formatTimeInZone(scheduledFor, timeZone)} ${getTimeZoneAbbreviation(timeZone, scheduledFor)}`;
+  };
 
   const handleSignOut = async () => {
     try {
@@ -67,6 +158,8 @@ export default function Dashboard() {
             </div>
             
             <div className="flex items-center space-x-4">
+              <PatientSwitcher />
+
               <button className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
                 <Bell className="w-6 h-6" />
               </button>
@@ -104,10 +197,35 @@ export default function Dashboard() {
             Welcome back, {user?.name || 'there'}! 👋
           </h1>
           <p className="text-gray-600">
-            Here's what's happening with your family's care today.
+            {selectedPatient && !selectedPatient.isSelf
+              ? `Here's what's happening with ${selectedPatient.name}'s care today.`
+              : "Here's what's happening with your family's care today."}
           </p>
         </div>
 
+        {/* Missed Dose Alerts */}
+        {missedDoses.length > 0 && (
+          <div className="mb-8 space-y-3">
+            {missedDoses.map(escalation => (
+              <div key={escalation.id} className="flex items-center justify-between p-4 bg-red-50 border border-red-200 rounded-lg">
+                <div className="flex items-center space-x-3">
+                  <AlertTriangle className="w-5 h-5 text-red-600" />
+                  <span className="text-sm text-red-800">
+                    {escalation.patientName} hasn't logged {escalation.medicationName} scheduled for{' '}
+                    {formatMissedDoseTime(escalation)}
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleAcknowledge(escalation.id)}
+                  className="px-3 py-1 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-100"
+                >
+                  Acknowledge
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div className="mb-8">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Quick Actions</h2>
@@ -141,12 +259,14 @@ export default function Dashboard() {
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h3>
               <div className="space-y-4">
-                <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
-                  <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                  <span className="text-sm text-gray-600">
-                    Medication reminder: Take blood pressure medication at 9:00 AM
-                  </span>
-                </div>
+                {todaysReminders.map(reminder => (
+                  <div key={reminder.id} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
+                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                    <span className="text-sm text-gray-600">
+                      Medication reminder: Take {reminder.medicationName} at {reminder.time} {timeZoneLabel}
+                    </span>
+                  </div>
+                ))}
                 <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
                   <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                   <span className="text-sm text-gray-600">
@@ -170,7 +290,7 @@ export default function Dashboard() {
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Medications Due</span>
-                  <span className="font-semibold text-primary-600">3</span>
+                  <span className="font-semibold text-primary-600">{todaysReminders.length}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Appointments</span>
@@ -10,29 +10,54 @@ import {
   Plus,
   Trash2
 } from 'lucide-react';
-import { Medication, NewMedication } from '@shared/types';
+import { Medication, NewMedication, NewDiscontinuation } from '@shared/types';
 import { apiClient, API_ENDPOINTS } from '@/lib/api';
 import MedicationManager from '@/components/MedicationManager';
 import AddressAutocomplete from '@/components/AddressAutocomplete';
 import CalendarIntegration from '@/components/CalendarIntegration';
 import MedicalConditionSelect from '@/components/MedicalConditionSelect';
 import AllergySelect from '@/components/AllergySelect';
+import { DEFAULT_TIME_ZONE } from '@shared/utils/timezone';
+
+// Offered in the timezone picker; the browser's own zone is added if it isn't listed
+const COMMON_TIME_ZONES = [
+  { value: 'America/New_York', label: 'Eastern Time' },
+  { value: 'America/Chicago', label: 'Central Time' },
+  { value: 'America/Denver', label: 'Mountain Time' },
+  { value: 'America/Phoenix', label: 'Arizona' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+  { value: 'UTC', label: 'UTC' },
+];
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 export default function PatientProfile() {
   const { user } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [medications, setMedications] = useState<Medication[]>([]);
   const [isLoadingMedications, setIsLoadingMedications] = useState(false);
+  // The saved timezone; medication times are shown in this zone
+  const [patientTimeZone, setPatientTimeZone] = useState(DEFAULT_TIME_ZONE);
   const [formData, setFormData] = useState({
     dateOfBirth: '',
     gender: '',
     address: '',
     phoneNumber: '',
     emergencyContact: '',
+    timezone: '',
     medicalConditions: [''],
     allergies: [''],
   });
 
+  const timeZoneOptions = [...COMMON_TIME_ZONES];
+  for (const zone of [browserTimeZone, formData.timezone]) {
+    if (zone && !timeZoneOptions.some(option => option.value === zone)) {
+      timeZoneOptions.push({ value: zone, label: zone });
+    }
+  }
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({
       ...prev,
@@ -70,6 +95,7 @@ export default function PatientProfile() {
         address: formData.address || undefined,
         phoneNumber: formData.phoneNumber || undefined,
         emergencyContact: formData.emergencyContact || undefined,
+        timezone: formData.timezone || undefined,
         medicalConditions: formData.medicalConditions.filter(condition => condition.trim() !== ''),
         allergies: formData.allergies.filter(allergy => allergy.trim() !== ''),
       };
@@ -92,9 +118,11 @@ export default function PatientProfile() {
             address: savedData.address || '',
             phoneNumber: savedData.phoneNumber || '',
             emergencyContact: savedData.emergencyContact || '',
+            timezone: savedData.timezone || '',
             medicalConditions: savedData.medicalConditions && savedData.medicalConditions.length > 0 ? savedData.medicalConditions : [''],
             allergies: savedData.allergies && savedData.allergies.length > 0 ? savedData.allergies : [''],
           });
+          setPatientTimeZone(savedData.timezone || DEFAULT_TIME_ZONE);
         }
       } else {
         throw new Error(response.error || 'Failed to save profile');
@@ -126,9 +154,11 @@ export default function PatientProfile() {
             address: profileData.address || '',
             phoneNumber: profileData.phoneNumber || '',
             emergencyContact: profileData.emergencyContact || '',
+            timezone: profileData.timezone || '',
             medicalConditions: profileData.medicalConditions?.length > 0 ? profileData.medicalConditions : [''],
             allergies: profileData.allergies?.length > 0 ? profileData.allergies : [''],
           });
+          setPatientTimeZone(profileData.timezone || DEFAULT_TIME_ZONE);
         }
       } catch (error) {
         console.error('Error loading profile data:', error);
@@ -229,6 +259,38 @@ export default function PatientProfile() {
     }
   };
 
+  const handleDiscontinueMedication = async (id: string, discontinuation: NewDiscontinuation) => {
+    try {
+      setIsLoadingMedications(true);
+      const response = await apiClient.post<{ success: boolean; data: Medication }>(
+        `${API_ENDPOINTS.MEDICATION_BY_ID(id)}/discontinue`,
+        discontinuation
+      );
+
+      if (response.success && response.data) {
+        const medicationWithDates = {
+          ...response.data,
+          prescribedDate: new Date(response.data.prescribedDate),
+          startDate: response.data.startDate ? new Date(response.data.startDate) : undefined,
+          endDate: response.data.endDate ? new Date(response.data.endDate) : undefined,
+          discontinuedAt: response.data.discontinuedAt ? new Date(response.data.discontinuedAt) : undefined,
+          createdAt: new Date(response.data.createdAt),
+          updatedAt: new Date(response.data.updatedAt),
+        };
+        setMedications(prev =>
+          prev.map(med =>
+            med.id === id ? medicationWithDates : med
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Error discontinuing medication:', error);
+      throw error;
+    } finally {
+      setIsLoadingMedications(false);
+    }
+  };
+
   const handleDeleteMedication = async (id: string) => {
     try {
       setIsLoadingMedications(true);
@@ -389,6 +451,25 @@ export default function PatientProfile() {
                 placeholder="Name and phone number"
               />
             </div>
+
+            {/* Timezone */}
+            <div>
+              <label className="label">Timezone</label>
+              <select
+                value={formData.timezone}
+                onChange={(e) => handleInputChange('timezone', e.target.value)}
+                disabled={!isEditing}
+                className="input disabled:bg-gray-50 disabled:text-gray-500"
+              >
+                <option value="">Select timezone</option>
+                {timeZoneOptions.map(zone => (
+                  <option key={zone.value} value={zone.value}>
+                    {zone.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Medication and reminder times use this timezone.</p>
+            </div>
           </div>
 
           {/* Medical Conditions */}
@@ -472,7 +553,9 @@ export default function PatientProfile() {
             onAddMedication={handleAddMedication}
             onUpdateMedication={handleUpdateMedication}
             onDeleteMedication={handleDeleteMedication}
+            onDiscontinueMedication={handleDiscontinueMedication}
             isLoading={isLoadingMedications}
+            patientTimeZone={patientTimeZone}
           />
         </div>
 
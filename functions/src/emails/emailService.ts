@@ -1,7 +1,12 @@
 import { Resend } from 'resend';
 import { getInvitationEmailHtml } from './templates/invitation';
+import { getInvitationResponseEmailHtml } from './templates/invitationResponse';
 import { getWelcomeEmailHtml } from './templates/welcome';
 import { getReminderEmailHtml } from './templates/reminder';
+import { getMissedDoseEmailHtml } from './templates/missedDose';
+import { getLowSupplyEmailHtml } from './templates/lowSupply';
+import { getBreakGlassEmailHtml } from './templates/breakGlass';
+import { getAppointmentReminderEmailHtml } from './templates/appointmentReminder';
 
 export class EmailService {
   private resend: Resend | null = null;
@@ -63,6 +68,48 @@ export class EmailService {
     }
   }
 
+  async sendInvitationResponseEmail({
+    to,
+    inviterName,
+    patientName,
+    accepted,
+  }: {
+    to: string;
+    inviterName: string;
+    patientName: string;
+    accepted: boolean;
+  }) {
+    if (!this.resend) {
+      console.warn('Email service not initialized (missing API key)');
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    try {
+      const html = getInvitationResponseEmailHtml({
+        inviterName,
+        patientName,
+        accepted,
+      });
+
+      const { data, error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to,
+        subject: `${patientName} ${accepted ? 'accepted' : 'declined'} your KinConnect invitation`,
+        html,
+      });
+
+      if (error) {
+        console.error('Resend API Error:', error);
+        throw new Error(error.message);
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Failed to send invitation response email:', error);
+      throw error;
+    }
+  }
+
   async sendWelcomeEmail({
     to,
     name,
@@ -144,6 +191,219 @@ export class EmailService {
       throw error;
     }
   }
+
+  async sendMissedDoseEmail({
+    to,
+    caregiverName,
+    patientName,
+    medicationName,
+    dosage,
+    time,
+  }: {
+    to: string;
+    caregiverName: string;
+    patientName: string;
+    medicationName: string;
+    dosage: string;
+    time: string;
+  }) {
+    if (!this.resend) {
+      console.warn('Email service not initialized (missing API key)');
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    try {
+      const html = getMissedDoseEmailHtml({
+        caregiverName,
+        patientName,
+        medicationName,
+        dosage,
+        time
+      });
+
+      const { data, error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to,
+        subject: `Missed Medication: ${patientName} - ${medicationName}`,
+        html,
+      });
+
+      if (error) {
+        console.error('Resend API Error:', error);
+        throw new Error(error.message);
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Failed to send missed dose email:', error);
+      throw error;
+    }
+  }
+
+  async sendBreakGlassEmail({
+    to,
+    recipientName,
+    patientName,
+    accessorName,
+    justification,
+    hours,
+  }: {
+    to: string;
+    recipientName: string;
+    patientName: string;
+    accessorName: string;
+    justification: string;
+    hours: number;
+  }) {
+    if (!this.resend) {
+      console.warn('Email service not initialized (missing API key)');
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    try {
+      const html = getBreakGlassEmailHtml({
+        recipientName,
+        patientName,
+        accessorName,
+        justification,
+        hours
+      });
+
+      const { data, error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to,
+        subject: `Emergency access to ${patientName}'s information`,
+        html,
+      });
+
+      if (error) {
+        console.error('Resend API Error:', error);
+        throw new Error(error.message);
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Failed to send emergency access email:', error);
+      throw error;
+    }
+  }
+
+  async sendLowSupplyEmail({
+    to,
+    recipientName,
+    patientName,
+    medicationName,
+    daysRemaining,
+    runOutDate,
+    pharmacy,
+    prescriptionNumber,
+    refillsRemaining,
+  }: {
+    to: string;
+    recipientName: string;
+    patientName: string;
+    medicationName: string;
+    daysRemaining: number;
+    runOutDate: string;
+    pharmacy?: string;
+    prescriptionNumber?: string;
+    refillsRemaining?: number;
+  }) {
+    if (!this.resend) {
+      console.warn('Email service not initialized (missing API key)');
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    try {
+      const html = getLowSupplyEmailHtml({
+        recipientName,
+        patientName,
+        medicationName,
+        daysRemaining,
+        runOutDate,
+        pharmacy,
+        prescriptionNumber,
+        refillsRemaining
+      });
+
+      const { data, error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to,
+        subject: `Refill Needed: ${patientName} - ${medicationName}`,
+        html,
+      });
+
+      if (error) {
+        console.error('Resend API Error:', error);
+        throw new Error(error.message);
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Failed to send low supply email:', error);
+      throw error;
+    }
+  }
+
+  async sendAppointmentReminderEmail({
+    to,
+    recipientName,
+    patientName,
+    title,
+    when,
+    description,
+    location,
+    provider,
+    notes,
+    medications,
+  }: {
+    to: string;
+    recipientName: string;
+    patientName: string;
+    title: string;
+    when: string;
+    description?: string;
+    location?: string;
+    provider?: string;
+    notes?: string;
+    medications?: { name: string; dosage: string; instructions?: string }[];
+  }) {
+    if (!this.resend) {
+      console.warn('Email service not initialized (missing API key)');
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    try {
+      const html = getAppointmentReminderEmailHtml({
+        recipientName,
+        patientName,
+        title,
+        when,
+        description,
+        location,
+        provider,
+        notes,
+        medications
+      });
+
+      const { data, error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to,
+        subject: `Appointment Reminder: ${patientName} - ${title}`,
+        html,
+      });
+
+      if (error) {
+        console.error('Resend API Error:', error);
+        throw new Error(error.message);
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      console.error('Failed to send appointment reminder email:', error);
+      throw error;
+    }
+  }
 }
 
 export const emailService = new EmailService();
@@ -0,0 +1,66 @@
+interface AppointmentReminderEmailProps {
+  recipientName: string;
+  patientName: string;
+  title: string;
+  when: string;
+  description?: string;
+  location?: string;
+  provider?: string;
+  notes?: string;
+  medications?: { name: string; dosage: string; instructions?: string }[];
+}
+
+import { escapeHtml } from '../../../../shared/utils/security';
+
+export const getAppointmentReminderEmailHtml = ({
+  recipientName,
+  patientName,
+  title,
+  when,
+  description,
+  location,
+  provider,
+  notes,
+  medications
+}: AppointmentReminderEmailProps): string => {
+  const safeRecipientName = escapeHtml(recipientName);
+  const safePatientName = escapeHtml(patientName);
+  const safeTitle = escapeHtml(title);
+  const safeWhen = escapeHtml(when);
+  const safeDescription = description ? escapeHtml(description) : '';
+  const safeLocation = location ? escapeHtml(location) : '';
+  const safeProvider = provider ? escapeHtml(provider) : '';
+  const safeNotes = notes ? escapeHtml(notes) : '';
+  const medicationItems = (medications || [])
+    .map(medication => `<li style="margin: 5px 0;"><strong>${escapeHtml(medication.name)}</strong> ${escapeHtml(medication.dosage)}` +
+      `${medication.instructions ? ` - ${escapeHtml(medication.instructions)}` : ''}</li>`)
+    .join('');
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb;">Upcoming Appointment</h2>
+      <p>Hi ${safeRecipientName},</p>
+      <p>This is a reminder of ${safePatientName}'s upcoming appointment:</p>
+      <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <h3 style="margin-top: 0; color: #111827;">${safeTitle}</h3>
+        <p style="margin: 5px 0;"><strong>When:</strong> ${safeWhen}</p>
+        ${safeLocation ? `<p style="margin: 5px 0;"><strong>Where:</strong> ${safeLocation}</p>` : ''}
+        ${safeProvider ? `<p style="margin: 5px 0;"><strong>Provider:</strong> ${safeProvider}</p>` : ''}
+        ${safeDescription ? `<p style="margin: 5px 0;">${safeDescription}</p>` : ''}
+        ${safeNotes ? `<p style="margin: 5px 0;"><strong>Notes:</strong> ${safeNotes}</p>` : ''}
+      </div>
+      ${medications ? `
+      <h3 style="color: #111827;">Current Medications</h3>
+      ${medicationItems
+        ? `<p>Bring this list along in case the provider asks:</p><ul style="padding-left: 20px;">${medicationItems}</ul>`
+        : `<p>${safePatientName} has no active medications recorded.</p>`}
+      ` : ''}
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${process.env.APP_URL || 'https://kinconnect.app'}/profile"
+           style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          View Appointments
+        </a>
+      </div>
+    </div>
+  `;
+};
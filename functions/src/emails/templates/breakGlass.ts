@@ -0,0 +1,40 @@
+interface BreakGlassEmailProps {
+  recipientName: string;
+  patientName: string;
+  accessorName: string;
+  justification: string;
+  hours: number;
+}
+
+import { escapeHtml } from '../../../../shared/utils/security';
+
+export const getBreakGlassEmailHtml = ({
+  recipientName,
+  patientName,
+  accessorName,
+  justification,
+  hours
+}: BreakGlassEmailProps): string => {
+  const safeRecipientName = escapeHtml(recipientName);
+  const safePatientName = escapeHtml(patientName);
+  const safeAccessorName = escapeHtml(accessorName);
+  const safeJustification = escapeHtml(justification);
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #dc2626;">Emergency Access Used</h2>
+      <p>Hi ${safeRecipientName},</p>
+      <p>${safeAccessorName} used emergency access to view ${safePatientName}'s profile, medications and appointments. Their access ends automatically after ${hours} hours.</p>
+      <div style="background-color: #fef2f2; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <p style="margin: 0;"><strong>Reason given:</strong> ${safeJustification}</p>
+      </div>
+      <p>If you don't recognise this, review the access grants in the app and revoke it.</p>
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${process.env.APP_URL || 'https://kinconnect.app'}/dashboard"
+           style="background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Review Access
+        </a>
+      </div>
+    </div>
+  `;
+};
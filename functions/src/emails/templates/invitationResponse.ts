@@ -0,0 +1,33 @@
+interface InvitationResponseEmailProps {
+  inviterName: string;
+  patientName: string;
+  accepted: boolean;
+}
+
+import { escapeHtml } from '../../../../shared/utils/security';
+
+export const getInvitationResponseEmailHtml = ({
+  inviterName,
+  patientName,
+  accepted,
+}: InvitationResponseEmailProps): string => {
+  const safeInviterName = escapeHtml(inviterName);
+  const safePatientName = escapeHtml(patientName);
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: ${accepted ? '#16a34a' : '#6b7280'};">Invitation ${accepted ? 'Accepted' : 'Declined'}</h2>
+      <p>Hi ${safeInviterName},</p>
+      ${accepted
+        ? `<p>${safePatientName} accepted your invitation and has joined your family care network on KinConnect.</p>`
+        : `<p>${safePatientName} declined your invitation to join your family care network on KinConnect.</p>
+      <p>If you think this was a mistake, you can send a new invitation from the app.</p>`}
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${process.env.APP_URL || 'https://kinconnect.app'}/dashboard"
+           style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Open KinConnect
+        </a>
+      </div>
+    </div>
+  `;
+};
@@ -0,0 +1,53 @@
+interface LowSupplyEmailProps {
+  recipientName: string;
+  patientName: string;
+  medicationName: string;
+  daysRemaining: number;
+  runOutDate: string;
+  pharmacy?: string;
+  prescriptionNumber?: string;
+  refillsRemaining?: number;
+}
+
+import { escapeHtml } from '../../../../shared/utils/security';
+
+export const getLowSupplyEmailHtml = ({
+  recipientName,
+  patientName,
+  medicationName,
+  daysRemaining,
+  runOutDate,
+  pharmacy,
+  prescriptionNumber,
+  refillsRemaining
+}: LowSupplyEmailProps): string => {
+  const safeRecipientName = escapeHtml(recipientName);
+  const safePatientName = escapeHtml(patientName);
+  const safeMedicationName = escapeHtml(medicationName);
+  const safeRunOutDate = escapeHtml(runOutDate);
+  const safePharmacy = pharmacy ? escapeHtml(pharmacy) : '';
+  const safePrescriptionNumber = prescriptionNumber ? escapeHtml(prescriptionNumber) : '';
+  const daysText = daysRemaining === 1 ? '1 day' : `${daysRemaining} days`;
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #d97706;">Refill Needed Soon</h2>
+      <p>Hi ${safeRecipientName},</p>
+      <p>${safePatientName} has about ${daysText} of this medication left:</p>
+      <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <h3 style="margin-top: 0; color: #111827;">${safeMedicationName}</h3>
+        <p style="margin: 5px 0;"><strong>Runs out:</strong> ${safeRunOutDate}</p>
+        ${safePharmacy ? `<p style="margin: 5px 0;"><strong>Pharmacy:</strong> ${safePharmacy}</p>` : ''}
+        ${safePrescriptionNumber ? `<p style="margin: 5px 0;"><strong>Prescription #:</strong> ${safePrescriptionNumber}</p>` : ''}
+        ${refillsRemaining !== undefined ? `<p style="margin: 5px 0;"><strong>Refills remaining:</strong> ${refillsRemaining}</p>` : ''}
+      </div>
+      <p>${refillsRemaining === 0 ? 'There are no refills left on this prescription, so a new one may be needed from the prescriber.' : 'Please arrange a refill, then record it in the app.'}</p>
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${process.env.APP_URL || 'https://kinconnect.app'}/profile"
+           style="background-color: #d97706; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          View Medications
+        </a>
+      </div>
+    </div>
+  `;
+};
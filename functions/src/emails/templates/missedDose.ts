@@ -0,0 +1,43 @@
+interface MissedDoseEmailProps {
+  caregiverName: string;
+  patientName: string;
+  medicationName: string;
+  dosage: string;
+  time: string;
+}
+
+import { escapeHtml } from '../../../../shared/utils/security';
+
+export const getMissedDoseEmailHtml = ({
+  caregiverName,
+  patientName,
+  medicationName,
+  dosage,
+  time
+}: MissedDoseEmailProps): string => {
+  const safeCaregiverName = escapeHtml(caregiverName);
+  const safePatientName = escapeHtml(patientName);
+  const safeMedicationName = escapeHtml(medicationName);
+  const safeDosage = escapeHtml(dosage);
+  const safeTime = escapeHtml(time);
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #dc2626;">Missed Medication</h2>
+      <p>Hi ${safeCaregiverName},</p>
+      <p>${safePatientName} hasn't logged a scheduled dose yet:</p>
+      <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <h3 style="margin-top: 0; color: #111827;">${safeMedicationName}</h3>
+        ${safeDosage ? `<p style="margin: 5px 0;"><strong>Dosage:</strong> ${safeDosage}</p>` : ''}
+        <p style="margin: 5px 0;"><strong>Scheduled for:</strong> ${safeTime}</p>
+      </div>
+      <p>Please check in with them, then acknowledge this alert in the app so the rest of the family isn't notified.</p>
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${process.env.APP_URL || 'https://kinconnect.app'}/dashboard"
+           style="background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Acknowledge
+        </a>
+      </div>
+    </div>
+  `;
+};
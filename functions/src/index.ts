@@ -18,24 +18,41 @@ import {
 
 // Import shared services
 import { MedicationService } from '../../shared/services/medicationService';
+import { AuditService } from '../../shared/services/auditService';
 import { PatientService } from '../../shared/services/patientService';
-import { AccessService } from '../../shared/services/accessService';
+import { createAccessServices } from '../../shared/services/accessService';
+import { TaskService } from '../../shared/services/taskService';
+import { AppointmentService } from '../../shared/services/appointmentService';
+import { CalendarFeedService } from '../../shared/services/calendarFeedService';
+import { AppointmentReminderService } from '../../shared/services/appointmentReminderService';
+import { GoogleCalendarSyncService } from '../../shared/services/googleCalendarSyncService';
+import { createConfiguredGoogleCalendarClient } from '../../shared/services/googleCalendarClient';
 import { DrugService } from '../../shared/services/drugService';
 import { RxImageService } from '../../shared/services/rxImageService';
 import { DailyMedService } from '../../shared/services/dailyMedService';
 import { createAuthMiddleware } from '../../shared/middleware/auth';
 import { performanceMiddleware, skipHealthCheckMiddleware } from '../../shared/middleware/performance';
 import { getPerformanceService } from '../../shared/services/performanceService';
+import { config } from '../../shared/config';
 
 // Import router factories from shared
 import { createPatientRouter } from '../../shared/routes/patients';
 import { createMedicationRouter } from '../../shared/routes/medications';
 import { createDrugRouter } from '../../shared/routes/drugs';
+import { createAccessGrantRouter } from '../../shared/routes/accessGrants';
+import { createProviderRouter } from '../../shared/routes/providers';
+import { createTaskRouter } from '../../shared/routes/tasks';
+import { createAppointmentRouter } from '../../shared/routes/appointments';
+import { createCalendarFeedRouter, createCalendarFeedDownloadRouter } from '../../shared/routes/calendarFeeds';
+import { createAppointmentReminderRouter } from '../../shared/routes/appointmentReminders';
+import { createGoogleCalendarRouter } from '../../shared/routes/googleCalendar';
 
 // Import function-specific routes
 import authRouter from './routes/auth';
 import invitationsRouter from './routes/invitations';
 import familyRouter from './routes/family';
+import { emailService } from './emails/emailService';
+import { doseEscalationService } from './scheduled/reminders';
 
 // Initialize Sentry before app creation
 initSentryNode({
@@ -51,9 +68,33 @@ app.use(createSentryTracingHandler());
 
 // Initialize services
 // Note: functions `db` is admin.firestore()
-const medicationService = new MedicationService({ db });
+const auditService = new AuditService({ db });
+const medicationService = new MedicationService({ db, auditService });
 const patientService = new PatientService({ db });
-const accessService = new AccessService({ db });
+const { accessService, accessGrantService, providerLinkService } = createAccessServices({
+  db,
+  auditService,
+  notifier: {
+    sendBreakGlassAlert: async (notification) => {
+      const result = await emailService.sendBreakGlassEmail(notification);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+  },
+  emergencyAccessHours: config.BREAK_GLASS_ACCESS_HOURS,
+});
+const taskService = new TaskService({ db, auditService });
+const googleCalendarSyncService = new GoogleCalendarSyncService({
+  db,
+  client: createConfiguredGoogleCalendarClient(),
+  tokenEncryptionKey: config.GOOGLE_TOKEN_ENCRYPTION_KEY,
+  auditService,
+  accessService,
+});
+const appointmentService = new AppointmentService({ db, auditService, changeListener: googleCalendarSyncService });
+const calendarFeedService = new CalendarFeedService({ db, auditService, accessService, appointmentService, medicationService });
+const appointmentReminderService = new AppointmentReminderService({ db, auditService, accessService, appointmentService, medicationService });
 const drugService = new DrugService();
 const rxImageService = new RxImageService();
 const dailyMedService = new DailyMedService();
@@ -242,8 +283,17 @@ app.use('/api/family', familyRouter);
 // Mount shared routers
 // Note: We need to cast authenticateToken because Express types might mismatch between versions
 // but functionally it's compatible (req, res, next)
-app.use('/api/patients', createPatientRouter(patientService, accessService, authenticateToken) as any);
-app.use('/api/medications', createMedicationRouter(medicationService, accessService, authenticateToken) as any);
+app.use('/api/patients', createPatientRouter(patientService, accessService, authenticateToken, medicationService) as any);
+app.use('/api/medications', createMedicationRouter(medicationService, accessService, authenticateToken, doseEscalationService) as any);
+app.use('/api/patients/:patientId/medications', createMedicationRouter(medicationService, accessService, authenticateToken) as any);
+app.use('/api/patients/:patientId/access-grants', createAccessGrantRouter(accessGrantService, accessService, authenticateToken) as any);
+app.use('/api/patients/:patientId/tasks', createTaskRouter(taskService, accessService, authenticateToken) as any);
+app.use('/api/patients/:patientId/appointments', createAppointmentRouter(appointmentService, accessService, authenticateToken) as any);
+app.use('/api/patients/:patientId/calendar-feeds', createCalendarFeedRouter(calendarFeedService, accessService, authenticateToken) as any);
+app.use('/api/calendar-feeds', createCalendarFeedDownloadRouter(calendarFeedService) as any);
+app.use('/api/patients/:patientId/appointment-reminders', createAppointmentReminderRouter(appointmentReminderService, accessService, authenticateToken) as any);
+app.use('/api/google-calendar', createGoogleCalendarRouter(googleCalendarSyncService, authenticateToken) as any);
+app.use('/api/providers', createProviderRouter(providerLinkService, authenticateToken) as any);
 app.use('/api/drugs', createDrugRouter(drugService, rxImageService, dailyMedService, authenticateToken) as any);
 
 // Sentry error handler - must be after all routes and middleware
@@ -260,3 +310,11 @@ export const api = functions
 		// secrets: ['RESEND_API_KEY', 'FROM_EMAIL', 'SENDGRID_FROM_EMAIL', 'APP_URL']
 	})
 	.https.onRequest(app);
+
+// Scheduled jobs
+export { dispatchMedicationReminders, escalateMissedDoses } from './scheduled/reminders';
+export { sendLowSupplyAlerts } from './scheduled/refills';
+export { expireInvitations } from './scheduled/invitations';
+export { generateRecurringTasks } from './scheduled/tasks';
+export { syncGoogleCalendars } from './scheduled/calendarSync';
+export { sendAppointmentReminders } from './scheduled/appointments';
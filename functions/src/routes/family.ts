@@ -1,10 +1,23 @@
 import * as express from 'express';
 import { db } from '../firebase';
 import { authenticate } from '../middleware/auth';
+import { AuditService } from '../../../shared/services/auditService';
+import { FamilyGroupService } from '../../../shared/services/familyGroupService';
+import type { FamilyGroupMember, FamilyGroupRecord } from '../../../shared/types';
+import { ASSIGNABLE_ROLES, getMemberPermissions, getPermissionsNotHeld, normalizeFamilyRole, validatePermissions } from '../../../shared/utils/familyPermissions';
+import { getFamilyGroupIds } from '../../../shared/utils/familyGroups';
 
 const router = express.Router();
+const auditService = new AuditService({ db });
+const familyGroupService = new FamilyGroupService({ db, auditService });
 
-// Get user's family group
+const findMember = (group: FamilyGroupRecord, uid: string): FamilyGroupMember | undefined =>
+  group.members.find(member => member.uid === uid);
+
+const isPrimaryCaregiver = (member: FamilyGroupMember): boolean =>
+  normalizeFamilyRole(member.role) === 'primary_caregiver';
+
+// Get user's first family group; /groups lists all of them
 router.get('/group', authenticate, async (req, res) => {
   try {
     const uid = (req as any).user.uid;
@@ -12,7 +25,7 @@ router.get('/group', authenticate, async (req, res) => {
     // Get user's family group ID
     const userDoc = await db.collection('users').doc(uid).get();
     const userData = userDoc.data();
-    const familyGroupId = userData?.familyGroupId;
+    const familyGroupId = getFamilyGroupIds(userData)[0];
     
     if (!familyGroupId) {
       return res.json({
@@ -58,5 +71,312 @@ router.get('/group', authenticate, async (req, res) => {
   }
 });
 
-export default router;
+// Get every family group the user belongs to
+router.get('/groups', authenticate, async (req, res) => {
+  try {
+    const uid = (req as any).user.uid;
+
+    const groups = await familyGroupService.getGroupsForUser(uid);
+    if (!groups.success) {
+      return res.status(500).json(groups);
+    }
+
+    res.json({
+      success: true,
+      data: groups.data!.map(group => ({
+        ...group,
+        members: group.members.map((member: any) => ({
+          ...member,
+          joinedAt: member.joinedAt?.toDate ? member.joinedAt.toDate() : member.joinedAt,
+        })),
+      })),
+      message: 'Family groups retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error getting family groups:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get family groups'
+    });
+  }
+});
+
+// Change a member's role or permissions
+router.put('/groups/:familyGroupId/members/:memberId', authenticate, async (req, res) => {
+  try {
+    const uid = (req as any).user.uid;
+    const { familyGroupId, memberId } = req.params;
+    const { role, permissions } = req.body;
+
+    if (memberId === uid) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot change your own role or permissions'
+      });
+    }
+
+    if (role === undefined && permissions === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'role or permissions is required'
+      });
+    }
+
+    if (role !== undefined && !ASSIGNABLE_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: `role must be one of: ${ASSIGNABLE_ROLES.join(', ')}. Transfer the primary caregiver role instead.`
+      });
+    }
+
+    // null puts the member back on their role's defaults
+    if (permissions !== undefined && permissions !== null) {
+      const permissionsError = validatePermissions(permissions);
+      if (permissionsError) {
+        return res.status(400).json({
+          success: false,
+          error: permissionsError
+        });
+      }
+    }
+
+    const group = await familyGroupService.getGroupById(familyGroupId);
+    if (!group.success) {
+      return res.status(500).json(group);
+    }
+
+    // Groups the user isn't in are reported as missing rather than forbidden
+    const actor = group.data ? findMember(group.data, uid) : undefined;
+    if (!group.data || !actor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Family group not found'
+      });
+    }
+
+    if (!getMemberPermissions(actor).includes('manage_members')) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+
+    const member = findMember(group.data, memberId);
+    if (!member) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+    }
+
+    if (isPrimaryCaregiver(member)) {
+      return res.status(409).json({
+        success: false,
+        error: 'The primary caregiver cannot be changed directly; transfer the role instead'
+      });
+    }
+
+    // Other managers can only hand on permissions they hold themselves
+    const before = getMemberPermissions(member);
+    const after = getMemberPermissions({
+      role: role ?? member.role,
+      permissions: permissions === undefined ? member.permissions : permissions,
+    });
+    const notHeld = getPermissionsNotHeld([actor], after.filter(permission => !before.includes(permission)));
+    if (notHeld.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: `You cannot grant permissions you don't have: ${notHeld.join(', ')}`
+      });
+    }
+
+    const result = await familyGroupService.updateMember(group.data.id, memberId, { role, permissions }, uid);
+
+    if (!result.success) {
+      return res.status(result.error === 'Member not found' ? 404 : 500).json(result);
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error updating family member:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update family member'
+    });
+  }
+});
+
+// Remove another member from the group
+router.delete('/groups/:familyGroupId/members/:memberId', authenticate, async (req, res) => {
+  try {
+    const uid = (req as any).user.uid;
+    const { familyGroupId, memberId } = req.params;
+
+    if (memberId === uid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Use /groups/:familyGroupId/leave to leave the family group'
+      });
+    }
+
+    const group = await familyGroupService.getGroupById(familyGroupId);
+    if (!group.success) {
+      return res.status(500).json(group);
+    }
+
+    // Groups the user isn't in are reported as missing rather than forbidden
+    const actor = group.data ? findMember(group.data, uid) : undefined;
+    if (!group.data || !actor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Family group not found'
+      });
+    }
 
+    if (!getMemberPermissions(actor).includes('manage_members')) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+
+    const member = findMember(group.data, memberId);
+    if (!member) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+    }
+
+    if (isPrimaryCaregiver(member)) {
+      return res.status(409).json({
+        success: false,
+        error: 'The primary caregiver cannot be removed'
+      });
+    }
+
+    const result = await familyGroupService.removeMember(group.data.id, memberId, uid);
+
+    if (!result.success) {
+      return res.status(result.error === 'Member not found' ? 404 : 500).json(result);
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error removing family member:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove family member'
+    });
+  }
+});
+
+// Leave the family group
+router.post('/groups/:familyGroupId/leave', authenticate, async (req, res) => {
+  try {
+    const uid = (req as any).user.uid;
+    const { familyGroupId } = req.params;
+
+    const group = await familyGroupService.getGroupById(familyGroupId);
+    if (!group.success) {
+      return res.status(500).json(group);
+    }
+
+    const member = group.data ? findMember(group.data, uid) : undefined;
+    if (!group.data || !member) {
+      return res.status(404).json({
+        success: false,
+        error: 'Family group not found'
+      });
+    }
+
+    // Someone has to be left in charge
+    if (isPrimaryCaregiver(member) && group.data.members.length > 1) {
+      return res.status(409).json({
+        success: false,
+        error: 'Transfer the primary caregiver role to another member before leaving'
+      });
+    }
+
+    const result = await familyGroupService.removeMember(group.data.id, uid, uid);
+
+    if (!result.success) {
+      return res.status(result.error === 'Member not found' ? 404 : 500).json(result);
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error leaving family group:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to leave family group'
+    });
+  }
+});
+
+// Hand the primary caregiver role to another member
+router.post('/groups/:familyGroupId/transfer', authenticate, async (req, res) => {
+  try {
+    const uid = (req as any).user.uid;
+    const { familyGroupId } = req.params;
+    const { memberId } = req.body;
+
+    if (!memberId || typeof memberId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'memberId is required'
+      });
+    }
+
+    if (memberId === uid) {
+      return res.status(400).json({
+        success: false,
+        error: 'You are already the primary caregiver'
+      });
+    }
+
+    const group = await familyGroupService.getGroupById(familyGroupId);
+    if (!group.success) {
+      return res.status(500).json(group);
+    }
+
+    // Groups the user isn't in are reported as missing rather than forbidden
+    const actor = group.data ? findMember(group.data, uid) : undefined;
+    if (!group.data || !actor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Family group not found'
+      });
+    }
+
+    if (!isPrimaryCaregiver(actor)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the primary caregiver can transfer the role'
+      });
+    }
+
+    if (!findMember(group.data, memberId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+    }
+
+    const result = await familyGroupService.transferPrimaryCaregiver(group.data.id, uid, memberId);
+
+    if (!result.success) {
+      return res.status(result.error === 'Member not found' ? 404 : 500).json(result);
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error transferring primary caregiver role:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to transfer primary caregiver role'
+    });
+  }
+});
+
+export default router;
@@ -1,15 +1,129 @@
 import * as express from 'express';
+import rateLimit from 'express-rate-limit';
 import { db, admin } from '../firebase';
 import { authenticate } from '../middleware/auth';
 import { emailService } from '../emails/emailService';
+import { AuditService } from '../../../shared/services/auditService';
+import { AuditAction, FamilyGroupMember, FamilyPermission } from '../../../shared/types';
+import { ASSIGNABLE_ROLES, getMemberPermissions, getPermissionsNotHeld, validatePermissions } from '../../../shared/utils/familyPermissions';
+import { getFamilyGroupIds } from '../../../shared/utils/familyGroups';
+import { generateSecretToken, hashSecretToken } from '../../../shared/utils/secretTokens';
 
 const router = express.Router();
+const auditService = new AuditService({ db });
 const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// A lookup that fails is a guess at a token, so only failures count
+const tokenLookupLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  skipSuccessfulRequests: true,
+  message: { success: false, error: 'Too many invitation lookups, please try again later' },
+});
+
+// The invitation an invitation link points to, or null after it has been accepted
+const findInvitationByToken = async (token: string) => {
+  const snapshot = await db.collection('invitations')
+    .where('tokenHash', '==', hashSecretToken(token))
+    .limit(1)
+    .get();
+
+  return snapshot.empty ? null : snapshot.docs[0];
+};
+
+const logFailedTokenLookup = (req: express.Request) =>
+  auditService.logSecurityEvent(
+    (req as any).user?.uid || 'anonymous',
+    AuditAction.INVALID_TOKEN,
+    'invitation',
+    'Invitation token not found',
+    req.ip,
+    req.get('user-agent')
+  );
+
+// Why an invitation can no longer be answered, or null if it is still open
+const getClosedReason = (invitationData: any): string | null => {
+  switch (invitationData?.status) {
+    case 'accepted':
+      return 'Invitation has already been accepted';
+    case 'declined':
+      return 'Invitation has been declined';
+    case 'revoked':
+      return 'Invitation has been revoked';
+    case 'expired':
+      return 'Invitation has expired';
+  }
+
+  const expiresAt = invitationData?.expiresAt?.toDate();
+  if (expiresAt && new Date() > expiresAt) {
+    return 'Invitation has expired';
+  }
+
+  return null;
+};
+
+// Invitations are matched to people by email, so the address must be proven theirs
+const hasVerifiedEmail = (user: any): boolean => !!user.email && user.email_verified === true;
+
+const UNVERIFIED_EMAIL = 'Verify your email address to answer invitations sent to it';
+
+// The token hash never leaves the server
+const toInvitationResponse = (id: string, { tokenHash, ...invitationData }: any = {}) => ({
+  id,
+  ...invitationData,
+  createdAt: invitationData?.createdAt?.toDate(),
+  expiresAt: invitationData?.expiresAt?.toDate(),
+  acceptedAt: invitationData?.acceptedAt?.toDate(),
+  declinedAt: invitationData?.declinedAt?.toDate(),
+  revokedAt: invitationData?.revokedAt?.toDate(),
+  resentAt: invitationData?.resentAt?.toDate(),
+});
+
+// Why the inviter can't bring someone into the group with this role and these
+// permissions, or null if they can. Like editing a member, inviting needs
+// manage_members, and only the primary caregiver can hand on permissions they
+// don't hold themselves.
+const getInviteDeniedReason = (
+  members: FamilyGroupMember[] | undefined,
+  inviterUid: string,
+  role: FamilyGroupMember['role'],
+  permissions: FamilyPermission[] | null | undefined
+): string | null => {
+  const inviter = members?.find(member => member.uid === inviterUid);
+  if (!inviter || !getMemberPermissions(inviter).includes('manage_members')) {
+    return 'Only members who can manage the family group can invite';
+  }
+
+  const notHeld = getPermissionsNotHeld([inviter], getMemberPermissions({ role, permissions: permissions ?? undefined }));
+  return notHeld.length > 0
+    ? `You cannot grant permissions you don't have: ${notHeld.join(', ')}`
+    : null;
+};
+
+// Tells the inviter how their invitation was answered. A failed email
+// doesn't undo the answer.
+const notifyInviter = async (invitationData: any, accepted: boolean) => {
+  if (!invitationData?.inviterEmail) {
+    return;
+  }
+
+  try {
+    await emailService.sendInvitationResponseEmail({
+      to: invitationData.inviterEmail,
+      inviterName: invitationData.inviterName,
+      patientName: invitationData.patientName,
+      accepted,
+    });
+  } catch (error) {
+    console.error('Error notifying inviter:', error);
+  }
+};
 
 // Patient invitation endpoints
 router.post('/send', authenticate, async (req, res) => {
   try {
-    const { email, patientName, message } = req.body;
+    const { email, patientName, message, allowAnyEmail, role = 'family_member', permissions, familyGroupId } = req.body;
     const inviterUid = (req as any).user.uid;
     
     if (!email || !patientName) {
@@ -19,33 +133,108 @@ router.post('/send', authenticate, async (req, res) => {
       });
     }
 
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: `role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`
+      });
+    }
+
+    // Without permissions the new member gets the defaults for their role
+    if (permissions !== undefined && permissions !== null) {
+      const permissionsError = validatePermissions(permissions);
+      if (permissionsError) {
+        return res.status(400).json({
+          success: false,
+          error: permissionsError
+        });
+      }
+    }
+
     // Get inviter information
-    const inviterDoc = await db.collection('users').doc(inviterUid).get();
+    const inviterRef = db.collection('users').doc(inviterUid);
+    const inviterDoc = await inviterRef.get();
     const inviterData = inviterDoc.data();
     const inviterName = inviterData?.name || 'A family member';
 
+    // The invitee joins the group named in the request, or the inviter's first one
+    let invitationGroupId: string | undefined = familyGroupId || getFamilyGroupIds(inviterData)[0];
+    if (invitationGroupId) {
+      const familyGroupDoc = await db.collection('familyGroups').doc(invitationGroupId).get();
+      const members: FamilyGroupMember[] | undefined = familyGroupDoc.data()?.members;
+
+      // Groups the inviter isn't in are reported as missing rather than forbidden
+      if (!familyGroupDoc.exists || !members?.some(member => member.uid === inviterUid)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Family group not found'
+        });
+      }
+
+      const deniedReason = getInviteDeniedReason(members, inviterUid, role, permissions);
+      if (deniedReason) {
+        return res.status(403).json({
+          success: false,
+          error: deniedReason
+        });
+      }
+    } else {
+      // Someone inviting for the first time starts a group as its primary caregiver
+      const familyGroupRef = await db.collection('familyGroups').add({
+        createdBy: inviterUid,
+        name: `${inviterName}'s Family`,
+        members: [
+          {
+            uid: inviterUid,
+            email: inviterData?.email || '',
+            name: inviterName,
+            role: 'primary_caregiver',
+            joinedAt: admin.firestore.Timestamp.now(),
+          },
+        ],
+        createdAt: admin.firestore.Timestamp.now(),
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+      invitationGroupId = familyGroupRef.id;
+
+      await inviterRef.update({
+        familyGroupIds: admin.firestore.FieldValue.arrayUnion(invitationGroupId),
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+
+      await auditService.logFamilyGroupChange(inviterUid, invitationGroupId, AuditAction.CREATE_FAMILY_GROUP);
+    }
+
     // Create invitation record
     const invitationData = {
+      familyGroupId: invitationGroupId,
       inviterUid,
       inviterName,
       inviterEmail: inviterData?.email || '',
-      patientEmail: email,
+      patientEmail: email.trim().toLowerCase(),
       patientName,
       message: message || '',
+      role,
+      permissions: permissions ?? null,
+      allowAnyEmail: allowAnyEmail === true,
       status: 'pending',
       createdAt: admin.firestore.Timestamp.now(),
-      expiresAt: admin.firestore.Timestamp.fromDate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)), // 7 days
+      expiresAt: admin.firestore.Timestamp.fromDate(new Date(Date.now() + INVITATION_TTL_MS)),
     };
 
-    const invitationRef = await db.collection('invitations').add(invitationData);
+    const token = generateSecretToken();
+    const invitationRef = await db.collection('invitations').add({
+      ...invitationData,
+      tokenHash: hashSecretToken(token),
+    });
     const invitationId = invitationRef.id;
 
-    // Send email invitation
+    // Send email invitation; the link is the only place the token is kept
     await emailService.sendInvitation({
       to: email,
       patientName,
       inviterName,
-      invitationLink: `${APP_URL}/invitation/${invitationId}`,
+      invitationLink: `${APP_URL}/invitation/${token}`,
       message
     });
 
@@ -64,14 +253,75 @@ router.post('/send', authenticate, async (req, res) => {
   }
 });
 
-// Get invitation details
-router.get('/:invitationId', async (req, res) => {
+// Get user's sent invitations
+router.get('/sent', authenticate, async (req, res) => {
   try {
-    const { invitationId } = req.params;
+    const uid = (req as any).user.uid;
     
-    const invitationDoc = await db.collection('invitations').doc(invitationId).get();
+    const invitationsRef = db.collection('invitations')
+      .where('inviterUid', '==', uid)
+      .orderBy('createdAt', 'desc');
     
-    if (!invitationDoc.exists) {
+    const snapshot = await invitationsRef.get();
+    
+    const invitations = snapshot.docs.map(doc => toInvitationResponse(doc.id, doc.data()));
+
+    res.json({
+      success: true,
+      data: invitations,
+      message: 'Sent invitations retrieved successfully'
+    });
+
+  } catch (error) {
+    console.error('Error getting sent invitations:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get sent invitations'
+    });
+  }
+});
+
+// Get invitations sent to the signed-in user's email, once it is verified
+router.get('/received', authenticate, async (req, res) => {
+  try {
+    const email = (req as any).user.email;
+    if (!hasVerifiedEmail((req as any).user)) {
+      return res.json({
+        success: true,
+        data: [],
+        message: 'Received invitations retrieved successfully'
+      });
+    }
+
+    const snapshot = await db.collection('invitations')
+      .where('patientEmail', '==', email.toLowerCase())
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    const invitations = snapshot.docs.map(doc => toInvitationResponse(doc.id, doc.data()));
+
+    res.json({
+      success: true,
+      data: invitations,
+      message: 'Received invitations retrieved successfully'
+    });
+
+  } catch (error) {
+    console.error('Error getting received invitations:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get received invitations'
+    });
+  }
+});
+
+// Get invitation details from the token in an invitation link
+router.get('/token/:token', tokenLookupLimiter, async (req, res) => {
+  try {
+    const invitationDoc = await findInvitationByToken(req.params.token);
+
+    if (!invitationDoc) {
+      await logFailedTokenLookup(req);
       return res.status(404).json({
         success: false,
         error: 'Invitation not found'
@@ -79,34 +329,18 @@ router.get('/:invitationId', async (req, res) => {
     }
 
     const invitationData = invitationDoc.data();
-    
-    // Check if invitation has expired
-    const now = new Date();
-    const expiresAt = invitationData?.expiresAt?.toDate();
-    
-    if (expiresAt && now > expiresAt) {
-      return res.status(410).json({
-        success: false,
-        error: 'Invitation has expired'
-      });
-    }
 
-    // Check if invitation is already accepted
-    if (invitationData?.status === 'accepted') {
+    const closedReason = getClosedReason(invitationData);
+    if (closedReason) {
       return res.status(410).json({
         success: false,
-        error: 'Invitation has already been accepted'
+        error: closedReason
       });
     }
 
     res.json({
       success: true,
-      data: {
-        id: invitationId,
-        ...invitationData,
-        createdAt: invitationData?.createdAt?.toDate(),
-        expiresAt: invitationData?.expiresAt?.toDate(),
-      }
+      data: toInvitationResponse(invitationDoc.id, invitationData)
     });
 
   } catch (error) {
@@ -119,13 +353,151 @@ router.get('/:invitationId', async (req, res) => {
 });
 
 // Accept invitation
-router.post('/:invitationId/accept', authenticate, async (req, res) => {
+router.post('/token/:token/accept', authenticate, tokenLookupLimiter, async (req, res) => {
+  try {
+    const { uid: accepterUid, email: accepterEmail } = (req as any).user;
+
+    const invitationDoc = await findInvitationByToken(req.params.token);
+
+    if (!invitationDoc) {
+      await logFailedTokenLookup(req);
+      return res.status(404).json({
+        success: false,
+        error: 'Invitation not found'
+      });
+    }
+
+    const invitationId = invitationDoc.id;
+    const invitationData = invitationDoc.data();
+
+    if (!invitationData.allowAnyEmail) {
+      if (!hasVerifiedEmail((req as any).user)) {
+        return res.status(403).json({
+          success: false,
+          error: UNVERIFIED_EMAIL
+        });
+      }
+      if (accepterEmail.toLowerCase() !== invitationData.patientEmail?.toLowerCase()) {
+        return res.status(403).json({
+          success: false,
+          error: 'This invitation was sent to a different email address'
+        });
+      }
+    }
+
+    // Invitations sent before the group was recorded go to the inviter's current group
+    const inviterUid = invitationData.inviterUid;
+    let familyGroupId: string | undefined = invitationData.familyGroupId;
+    if (!familyGroupId && inviterUid) {
+      const inviterDoc = await db.collection('users').doc(inviterUid).get();
+      familyGroupId = getFamilyGroupIds(inviterDoc.data())[0];
+    }
+
+    if (!familyGroupId) {
+      return res.status(409).json({
+        success: false,
+        error: 'The inviter is no longer in a family group'
+      });
+    }
+
+    // Invitations sent before roles could be chosen have neither field
+    const newMember: Omit<FamilyGroupMember, 'joinedAt'> & { joinedAt: admin.firestore.Timestamp } = {
+      uid: accepterUid,
+      email: invitationData.patientEmail,
+      name: invitationData.patientName,
+      role: invitationData.role || 'family_member',
+      joinedAt: admin.firestore.Timestamp.now(),
+    };
+    if (Array.isArray(invitationData.permissions)) {
+      newMember.permissions = invitationData.permissions;
+    }
+
+    // The inviter may have left the group or lost permissions since sending,
+    // so that is checked again as the invitation is claimed. Claiming consumes
+    // the token so the link can't be used twice.
+    const invitationRef = db.collection('invitations').doc(invitationId);
+    const familyGroupRef = db.collection('familyGroups').doc(familyGroupId);
+    const outcome = await db.runTransaction(async (transaction): Promise<{ joined: boolean } | { status: number; error: string }> => {
+      const current = await transaction.get(invitationRef);
+      const familyGroupDoc = await transaction.get(familyGroupRef);
+
+      const closedReason = getClosedReason(current.data());
+      if (closedReason) {
+        return { status: 410, error: closedReason };
+      }
+
+      const members: FamilyGroupMember[] = familyGroupDoc.exists ? familyGroupDoc.data()?.members || [] : [];
+      if (getInviteDeniedReason(members, inviterUid, newMember.role, invitationData.permissions)) {
+        return { status: 403, error: 'The inviter can no longer add members to this family group' };
+      }
+
+      transaction.update(invitationRef, {
+        status: 'accepted',
+        acceptedBy: accepterUid,
+        acceptedAt: admin.firestore.Timestamp.now(),
+        tokenHash: admin.firestore.FieldValue.delete(),
+      });
+
+      const joined = !members.some(member => member.uid === accepterUid);
+      if (joined) {
+        transaction.update(familyGroupRef, {
+          members: admin.firestore.FieldValue.arrayUnion(newMember),
+          updatedAt: admin.firestore.Timestamp.now(),
+        });
+      }
+      return { joined };
+    });
+
+    if ('error' in outcome) {
+      return res.status(outcome.status).json({
+        success: false,
+        error: outcome.error
+      });
+    }
+
+    // The accepter may already belong to other groups
+    await db.collection('users').doc(accepterUid).update({
+      familyGroupIds: admin.firestore.FieldValue.arrayUnion(familyGroupId),
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    if (outcome.joined) {
+      await auditService.logFamilyGroupChange(accepterUid, familyGroupId, AuditAction.ADD_FAMILY_MEMBER, {
+        memberId: accepterUid,
+        role: newMember.role,
+        permissions: newMember.permissions ?? null,
+        invitationId,
+        invitedBy: inviterUid,
+      });
+    }
+
+    await auditService.logInvitationChange(accepterUid, invitationId, AuditAction.ACCEPT_INVITATION, {
+      inviterUid,
+    });
+    await notifyInviter(invitationData, true);
+
+    res.json({
+      success: true,
+      message: 'Invitation accepted successfully and family group updated'
+    });
+
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to accept invitation'
+    });
+  }
+});
+
+// Decline an invitation sent to the signed-in user's email
+router.post('/:invitationId/decline', authenticate, async (req, res) => {
   try {
     const { invitationId } = req.params;
-    const accepterUid = (req as any).user.uid;
-    
+    const { uid, email } = (req as any).user;
+
     const invitationDoc = await db.collection('invitations').doc(invitationId).get();
-    
+
     if (!invitationDoc.exists) {
       return res.status(404).json({
         success: false,
@@ -134,153 +506,159 @@ router.post('/:invitationId/accept', authenticate, async (req, res) => {
     }
 
     const invitationData = invitationDoc.data();
-    
-    // Check if invitation has expired
-    const now = new Date();
-    const expiresAt = invitationData?.expiresAt?.toDate();
-    
-    if (expiresAt && now > expiresAt) {
-      return res.status(410).json({
+
+    if (!hasVerifiedEmail((req as any).user)) {
+      return res.status(403).json({
+        success: false,
+        error: UNVERIFIED_EMAIL
+      });
+    }
+
+    if (invitationData?.patientEmail?.toLowerCase() !== email.toLowerCase()) {
+      return res.status(403).json({
         success: false,
-        error: 'Invitation has expired'
+        error: 'Only the person invited can decline this invitation'
       });
     }
 
-    // Check if invitation is already accepted
-    if (invitationData?.status === 'accepted') {
+    const closedReason = getClosedReason(invitationData);
+    if (closedReason) {
       return res.status(410).json({
         success: false,
-        error: 'Invitation has already been accepted'
+        error: closedReason
       });
     }
 
-    // Update invitation status
     await db.collection('invitations').doc(invitationId).update({
-      status: 'accepted',
-      acceptedBy: accepterUid,
-      acceptedAt: admin.firestore.Timestamp.now(),
+      status: 'declined',
+      declinedBy: uid,
+      declinedAt: admin.firestore.Timestamp.now(),
     });
 
-    // Create or update family group
-    const inviterUid = invitationData?.inviterUid;
-    if (inviterUid) {
-      // Check if inviter already has a family group
-      const familyGroupQuery = await db.collection('familyGroups')
-        .where('createdBy', '==', inviterUid)
-        .limit(1)
-        .get();
-
-      let familyGroupId: string;
-
-      if (familyGroupQuery.empty) {
-        // Create new family group
-        const familyGroupData = {
-          createdBy: inviterUid,
-          name: `${invitationData?.inviterName}'s Family`,
-          members: [
-            {
-              uid: inviterUid,
-              email: invitationData?.inviterEmail,
-              name: invitationData?.inviterName,
-              role: 'admin',
-              joinedAt: admin.firestore.Timestamp.now(),
-            },
-            {
-              uid: accepterUid,
-              email: invitationData?.patientEmail,
-              name: invitationData?.patientName,
-              role: 'member',
-              joinedAt: admin.firestore.Timestamp.now(),
-            }
-          ],
-          createdAt: admin.firestore.Timestamp.now(),
-          updatedAt: admin.firestore.Timestamp.now(),
-        };
-
-        const familyGroupRef = await db.collection('familyGroups').add(familyGroupData);
-        familyGroupId = familyGroupRef.id;
-      } else {
-        // Add to existing family group
-        const familyGroupDoc = familyGroupQuery.docs[0];
-        familyGroupId = familyGroupDoc.id;
-        const familyGroupData = familyGroupDoc.data();
-
-        // Check if user is already a member
-        const existingMember = familyGroupData.members?.find((member: any) => member.uid === accepterUid);
-        
-        if (!existingMember) {
-          const newMember = {
-            uid: accepterUid,
-            email: invitationData?.patientEmail,
-            name: invitationData?.patientName,
-            role: 'member',
-            joinedAt: admin.firestore.Timestamp.now(),
-          };
+    await auditService.logInvitationChange(uid, invitationId, AuditAction.REJECT_INVITATION, {
+      inviterUid: invitationData?.inviterUid,
+    });
+    await notifyInviter(invitationData, false);
 
-          await db.collection('familyGroups').doc(familyGroupId).update({
-            members: admin.firestore.FieldValue.arrayUnion(newMember),
-            updatedAt: admin.firestore.Timestamp.now(),
-          });
-        }
-      }
+    res.json({
+      success: true,
+      message: 'Invitation declined'
+    });
 
-      // Update user profiles with family group reference
-      await db.collection('users').doc(accepterUid).update({
-        familyGroupId: familyGroupId,
-        updatedAt: admin.firestore.Timestamp.now(),
+  } catch (error) {
+    console.error('Error declining invitation:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to decline invitation'
+    });
+  }
+});
+
+// Revoke a pending invitation the signed-in user sent
+router.post('/:invitationId/revoke', authenticate, async (req, res) => {
+  try {
+    const { invitationId } = req.params;
+    const uid = (req as any).user.uid;
+
+    const invitationDoc = await db.collection('invitations').doc(invitationId).get();
+
+    if (!invitationDoc.exists || invitationDoc.data()?.inviterUid !== uid) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invitation not found'
       });
+    }
 
-      // Ensure inviter also has family group reference
-      await db.collection('users').doc(inviterUid).update({
-        familyGroupId: familyGroupId,
-        updatedAt: admin.firestore.Timestamp.now(),
+    const closedReason = getClosedReason(invitationDoc.data());
+    if (closedReason) {
+      return res.status(409).json({
+        success: false,
+        error: closedReason
       });
     }
 
+    await db.collection('invitations').doc(invitationId).update({
+      status: 'revoked',
+      revokedAt: admin.firestore.Timestamp.now(),
+    });
+
+    await auditService.logInvitationChange(uid, invitationId, AuditAction.REVOKE_INVITATION, {
+      patientEmail: invitationDoc.data()?.patientEmail,
+    });
+
     res.json({
       success: true,
-      message: 'Invitation accepted successfully and family group updated'
+      message: 'Invitation revoked'
     });
 
   } catch (error) {
-    console.error('Error accepting invitation:', error);
+    console.error('Error revoking invitation:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to accept invitation'
+      error: 'Failed to revoke invitation'
     });
   }
 });
 
-// Get user's sent invitations
-router.get('/sent', authenticate, async (req, res) => {
+// Send a pending or expired invitation again with a fresh link and expiry
+router.post('/:invitationId/resend', authenticate, async (req, res) => {
   try {
+    const { invitationId } = req.params;
     const uid = (req as any).user.uid;
-    
-    const invitationsRef = db.collection('invitations')
-      .where('inviterUid', '==', uid)
-      .orderBy('createdAt', 'desc');
-    
-    const snapshot = await invitationsRef.get();
-    
-    const invitations = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt?.toDate(),
-      expiresAt: doc.data().expiresAt?.toDate(),
-      acceptedAt: doc.data().acceptedAt?.toDate(),
-    }));
+
+    const invitationDoc = await db.collection('invitations').doc(invitationId).get();
+    const invitationData = invitationDoc.data();
+
+    if (!invitationDoc.exists || invitationData?.inviterUid !== uid) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invitation not found'
+      });
+    }
+
+    // Only invitations nobody has answered can go out again
+    if (invitationData?.status !== 'pending' && invitationData?.status !== 'expired') {
+      return res.status(409).json({
+        success: false,
+        error: getClosedReason(invitationData)
+      });
+    }
+
+    // Only the hash of the old token was kept, so the new email gets a new token
+    const token = generateSecretToken();
+    const updates = {
+      status: 'pending',
+      expiresAt: admin.firestore.Timestamp.fromDate(new Date(Date.now() + INVITATION_TTL_MS)),
+      resentAt: admin.firestore.Timestamp.now(),
+    };
+    await db.collection('invitations').doc(invitationId).update({
+      ...updates,
+      tokenHash: hashSecretToken(token),
+    });
+
+    await emailService.sendInvitation({
+      to: invitationData?.patientEmail,
+      patientName: invitationData?.patientName,
+      inviterName: invitationData?.inviterName,
+      invitationLink: `${APP_URL}/invitation/${token}`,
+      message: invitationData?.message
+    });
+
+    await auditService.logInvitationChange(uid, invitationId, AuditAction.RESEND_INVITATION, {
+      previousStatus: invitationData?.status,
+    });
 
     res.json({
       success: true,
-      data: invitations,
-      message: 'Sent invitations retrieved successfully'
+      data: toInvitationResponse(invitationId, { ...invitationData, ...updates }),
+      message: 'Invitation resent successfully'
     });
 
   } catch (error) {
-    console.error('Error getting sent invitations:', error);
+    console.error('Error resending invitation:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to get sent invitations'
+      error: 'Failed to resend invitation'
     });
   }
 });
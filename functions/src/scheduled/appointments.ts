@@ -0,0 +1,33 @@
+import * as functions from 'firebase-functions';
+import { db } from '../firebase';
+import { emailService } from '../emails/emailService';
+import { AuditService } from '../../../shared/services/auditService';
+import { AppointmentReminderService } from '../../../shared/services/appointmentReminderService';
+
+const appointmentReminderService = new AppointmentReminderService({
+  db,
+  auditService: new AuditService({ db }),
+  notifier: {
+    sendAppointmentReminder: async (notification) => {
+      const result = await emailService.sendAppointmentReminderEmail(notification);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+  },
+});
+
+// Runs every 5 minutes so even the shortest reminder goes out before the appointment
+export const sendAppointmentReminders = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const result = await appointmentReminderService.sendDueReminders();
+
+    if (!result.success) {
+      console.error('Appointment reminders failed:', result.error);
+      return null;
+    }
+
+    console.log(result.message);
+    return null;
+  });
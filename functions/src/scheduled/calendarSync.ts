@@ -0,0 +1,27 @@
+import * as functions from 'firebase-functions';
+import { db } from '../firebase';
+import { AuditService } from '../../../shared/services/auditService';
+import { GoogleCalendarSyncService } from '../../../shared/services/googleCalendarSyncService';
+import { createConfiguredGoogleCalendarClient } from '../../../shared/services/googleCalendarClient';
+
+const syncService = new GoogleCalendarSyncService({
+  db,
+  client: createConfiguredGoogleCalendarClient(),
+  auditService: new AuditService({ db }),
+});
+
+// Runs every 15 minutes and picks up appointment edits made in Google Calendar
+export const syncGoogleCalendars = functions.pubsub
+  .schedule('every 15 minutes')
+  .onRun(async () => {
+    const result = await syncService.syncAll();
+
+    if (!result.success) {
+      // Expected until the Google OAuth app is configured
+      console.error('Google Calendar sync failed:', result.error);
+      return null;
+    }
+
+    console.log(result.message);
+    return null;
+  });
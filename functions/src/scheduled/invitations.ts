@@ -0,0 +1,24 @@
+import * as functions from 'firebase-functions';
+import { db } from '../firebase';
+import { AuditService } from '../../../shared/services/auditService';
+import { InvitationService } from '../../../shared/services/invitationService';
+
+const invitationService = new InvitationService({
+  db,
+  auditService: new AuditService({ db }),
+});
+
+// Runs hourly and marks pending invitations past their expiry as expired
+export const expireInvitations = functions.pubsub
+  .schedule('every 1 hours')
+  .onRun(async () => {
+    const result = await invitationService.expireInvitations();
+
+    if (!result.success) {
+      console.error('Invitation expiry failed:', result.error);
+      return null;
+    }
+
+    console.log(result.message);
+    return null;
+  });
@@ -0,0 +1,37 @@
+import * as functions from 'firebase-functions';
+import { db } from '../firebase';
+import { emailService } from '../emails/emailService';
+import { config } from '../../../shared/config';
+import { MedicationService } from '../../../shared/services/medicationService';
+import { FamilyGroupService } from '../../../shared/services/familyGroupService';
+import { SupplyAlertService } from '../../../shared/services/supplyAlertService';
+
+const supplyAlertService = new SupplyAlertService({
+  db,
+  medicationService: new MedicationService({ db }),
+  familyGroupService: new FamilyGroupService({ db }),
+  notifier: {
+    sendLowSupplyAlert: async (notification) => {
+      const result = await emailService.sendLowSupplyEmail(notification);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+  },
+  thresholdDays: config.LOW_SUPPLY_ALERT_DAYS,
+});
+
+// Runs daily and tells the family about medications that are about to run out
+export const sendLowSupplyAlerts = functions.pubsub
+  .schedule('every 24 hours')
+  .onRun(async () => {
+    const result = await supplyAlertService.sendLowSupplyAlerts();
+
+    if (!result.success) {
+      console.error('Low supply alerts failed:', result.error);
+      return null;
+    }
+
+    console.log(result.message);
+    return null;
+  });
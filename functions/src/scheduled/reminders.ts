@@ -0,0 +1,73 @@
+import * as functions from 'firebase-functions';
+import { db } from '../firebase';
+import { emailService } from '../emails/emailService';
+import { config } from '../../../shared/config';
+import { AuditService } from '../../../shared/services/auditService';
+import { MedicationService } from '../../../shared/services/medicationService';
+import { ReminderDispatchService } from '../../../shared/services/reminderDispatchService';
+import { DoseEscalationService } from '../../../shared/services/doseEscalationService';
+import { FamilyGroupService } from '../../../shared/services/familyGroupService';
+
+const medicationService = new MedicationService({ db });
+
+// Also used by the API to list and acknowledge escalations
+export const doseEscalationService = new DoseEscalationService({
+  db,
+  medicationService,
+  auditService: new AuditService({ db }),
+  familyGroupService: new FamilyGroupService({ db }),
+  notifier: {
+    sendMissedDoseAlert: async (notification) => {
+      const result = await emailService.sendMissedDoseEmail(notification);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+  },
+  graceMinutes: config.MISSED_DOSE_GRACE_MINUTES,
+  escalationIntervalMinutes: config.MISSED_DOSE_ESCALATION_MINUTES,
+});
+
+const reminderDispatchService = new ReminderDispatchService({
+  db,
+  medicationService,
+  doseEscalationService,
+  notifier: {
+    sendReminder: async (notification) => {
+      const result = await emailService.sendReminderEmail(notification);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+  },
+});
+
+// Runs every minute and emails reminders that have come due
+export const dispatchMedicationReminders = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const result = await reminderDispatchService.dispatchDueReminders();
+
+    if (!result.success) {
+      console.error('Reminder dispatch failed:', result.error);
+      return null;
+    }
+
+    console.log(result.message);
+    return null;
+  });
+
+// Runs every five minutes and tells caregivers about doses that were never logged
+export const escalateMissedDoses = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const result = await doseEscalationService.processDueEscalations();
+
+    if (!result.success) {
+      console.error('Missed dose escalation failed:', result.error);
+      return null;
+    }
+
+    console.log(result.message);
+    return null;
+  });
@@ -0,0 +1,24 @@
+import * as functions from 'firebase-functions';
+import { db } from '../firebase';
+import { AuditService } from '../../../shared/services/auditService';
+import { TaskService } from '../../../shared/services/taskService';
+
+const taskService = new TaskService({
+  db,
+  auditService: new AuditService({ db }),
+});
+
+// Runs daily and keeps the next few weeks of each recurring task created
+export const generateRecurringTasks = functions.pubsub
+  .schedule('every 24 hours')
+  .onRun(async () => {
+    const result = await taskService.generateRecurringTasks();
+
+    if (!result.success) {
+      console.error('Recurring task generation failed:', result.error);
+      return null;
+    }
+
+    console.log(result.message);
+    return null;
+  });
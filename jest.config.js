@@ -1,6 +1,10 @@
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
+  // Tests are compiled like the server they test, default imports included
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.server.json' }]
+  },
   roots: ['<rootDir>/server', '<rootDir>/shared'],
   testMatch: ['**/__tests__/**/*.test.ts'],
   collectCoverageFrom: [
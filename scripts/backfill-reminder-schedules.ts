@@ -0,0 +1,39 @@
+/**
+ * Reminder Schedule Backfill
+ *
+ * Reminders are only dispatched once they have a `nextNotifyAt`. This sets it
+ * for every active reminder created before reminders became timezone-aware.
+ * Safe to run more than once.
+ *
+ * Usage: npx ts-node scripts/backfill-reminder-schedules.ts
+ */
+
+import { adminDb } from '../server/firebase-admin';
+import { MedicationService } from '../shared/services/medicationService';
+
+const run = async () => {
+  const medicationService = new MedicationService({ db: adminDb });
+  const snapshot = await adminDb.collection('medicationReminders')
+    .where('isActive', '==', true)
+    .get();
+
+  const patientIds = Array.from(new Set<string>(snapshot.docs.map(doc => doc.data().patientId)));
+  console.log(`Rescheduling reminders for ${patientIds.length} patients...`);
+
+  let rescheduled = 0;
+  for (const patientId of patientIds) {
+    const result = await medicationService.rescheduleRemindersForPatient(patientId);
+    if (!result.success) {
+      console.error(`Failed to reschedule reminders for ${patientId}: ${result.error}`);
+      continue;
+    }
+    rescheduled += result.data || 0;
+  }
+
+  console.log(`Rescheduled ${rescheduled} reminders`);
+};
+
+run().catch(error => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
@@ -8,18 +8,36 @@ import { adminDb, adminAuth } from './firebase-admin';
 
 // Import shared services
 import { MedicationService } from '../shared/services/medicationService';
+import { AuditService } from '../shared/services/auditService';
 import { PatientService } from '../shared/services/patientService';
-import { AccessService } from '../shared/services/accessService';
+import { createAccessServices } from '../shared/services/accessService';
+import { TaskService } from '../shared/services/taskService';
+import { DoseEscalationService } from '../shared/services/doseEscalationService';
+import { FamilyGroupService } from '../shared/services/familyGroupService';
+import { AppointmentService } from '../shared/services/appointmentService';
+import { CalendarFeedService } from '../shared/services/calendarFeedService';
+import { AppointmentReminderService } from '../shared/services/appointmentReminderService';
+import { GoogleCalendarSyncService } from '../shared/services/googleCalendarSyncService';
+import { createConfiguredGoogleCalendarClient } from '../shared/services/googleCalendarClient';
 import { DrugService } from '../shared/services/drugService';
 import { RxImageService } from '../shared/services/rxImageService';
 import { DailyMedService } from '../shared/services/dailyMedService';
 import { createAuthMiddleware } from '../shared/middleware/auth';
+import { config } from '../shared/config';
+import { emailService } from '../functions/src/emails/emailService';
 
 // Import router factories
 import authRoutes from './routes/auth';
 import { createPatientRouter } from '../shared/routes/patients';
 import { createMedicationRouter } from '../shared/routes/medications';
 import { createDrugRouter } from '../shared/routes/drugs';
+import { createAccessGrantRouter } from '../shared/routes/accessGrants';
+import { createProviderRouter } from '../shared/routes/providers';
+import { createTaskRouter } from '../shared/routes/tasks';
+import { createAppointmentRouter } from '../shared/routes/appointments';
+import { createCalendarFeedRouter, createCalendarFeedDownloadRouter } from '../shared/routes/calendarFeeds';
+import { createAppointmentReminderRouter } from '../shared/routes/appointmentReminders';
+import { createGoogleCalendarRouter } from '../shared/routes/googleCalendar';
 
 // Load environment variables
 dotenv.config();
@@ -28,9 +46,49 @@ const app = express();
 const PORT = process.env.PORT || 5000;
 
 // Initialize services
-const medicationService = new MedicationService({ db: adminDb });
+const auditService = new AuditService({ db: adminDb });
+const medicationService = new MedicationService({ db: adminDb, auditService });
 const patientService = new PatientService({ db: adminDb });
-const accessService = new AccessService({ db: adminDb });
+const { accessService, accessGrantService, providerLinkService } = createAccessServices({
+  db: adminDb,
+  auditService,
+  notifier: {
+    sendBreakGlassAlert: async (notification) => {
+      const result = await emailService.sendBreakGlassEmail(notification);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+  },
+  emergencyAccessHours: config.BREAK_GLASS_ACCESS_HOURS,
+});
+const doseEscalationService = new DoseEscalationService({
+  db: adminDb,
+  medicationService,
+  auditService,
+  familyGroupService: new FamilyGroupService({ db: adminDb }),
+  notifier: {
+    sendMissedDoseAlert: async (notification) => {
+      const result = await emailService.sendMissedDoseEmail(notification);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+  },
+  graceMinutes: config.MISSED_DOSE_GRACE_MINUTES,
+  escalationIntervalMinutes: config.MISSED_DOSE_ESCALATION_MINUTES,
+});
+const taskService = new TaskService({ db: adminDb, auditService });
+const googleCalendarSyncService = new GoogleCalendarSyncService({
+  db: adminDb,
+  client: createConfiguredGoogleCalendarClient(),
+  tokenEncryptionKey: config.GOOGLE_TOKEN_ENCRYPTION_KEY,
+  auditService,
+  accessService,
+});
+const appointmentService = new AppointmentService({ db: adminDb, auditService, changeListener: googleCalendarSyncService });
+const calendarFeedService = new CalendarFeedService({ db: adminDb, auditService, accessService, appointmentService, medicationService });
+const appointmentReminderService = new AppointmentReminderService({ db: adminDb, auditService, accessService, appointmentService, medicationService });
 const drugService = new DrugService();
 const rxImageService = new RxImageService();
 const dailyMedService = new DailyMedService();
@@ -71,8 +129,17 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // API routes
 app.use('/api/auth', authRoutes);
-app.use('/api/patients', createPatientRouter(patientService, accessService, authenticateToken));
-app.use('/api/medications', createMedicationRouter(medicationService, accessService, authenticateToken));
+app.use('/api/patients', createPatientRouter(patientService, accessService, authenticateToken, medicationService));
+app.use('/api/medications', createMedicationRouter(medicationService, accessService, authenticateToken, doseEscalationService));
+app.use('/api/patients/:patientId/medications', createMedicationRouter(medicationService, accessService, authenticateToken));
+app.use('/api/patients/:patientId/access-grants', createAccessGrantRouter(accessGrantService, accessService, authenticateToken));
+app.use('/api/patients/:patientId/tasks', createTaskRouter(taskService, accessService, authenticateToken));
+app.use('/api/patients/:patientId/appointments', createAppointmentRouter(appointmentService, accessService, authenticateToken));
+app.use('/api/patients/:patientId/calendar-feeds', createCalendarFeedRouter(calendarFeedService, accessService, authenticateToken));
+app.use('/api/calendar-feeds', createCalendarFeedDownloadRouter(calendarFeedService));
+app.use('/api/patients/:patientId/appointment-reminders', createAppointmentReminderRouter(appointmentReminderService, accessService, authenticateToken));
+app.use('/api/google-calendar', createGoogleCalendarRouter(googleCalendarSyncService, authenticateToken));
+app.use('/api/providers', createProviderRouter(providerLinkService, authenticateToken));
 app.use('/api/drugs', createDrugRouter(drugService, rxImageService, dailyMedService, authenticateToken));
 
 // Health check endpoint
@@ -14,17 +14,21 @@ const mockMedicationService = {
   getMedicationLogsByPatientId: jest.fn(),
   getMedicationLogsByMedicationId: jest.fn(),
   createMedicationLog: jest.fn(),
+  getMedicationLogById: jest.fn(),
   updateMedicationLog: jest.fn(),
   deleteMedicationLog: jest.fn(),
+  checkDailyDoseLimit: jest.fn(),
+  recordDoseLimitOverride: jest.fn(),
   getMedicationRemindersByPatientId: jest.fn(),
   getMedicationRemindersByMedicationId: jest.fn(),
+  getMedicationReminderById: jest.fn(),
   createMedicationReminder: jest.fn(),
   updateMedicationReminder: jest.fn(),
   deleteMedicationReminder: jest.fn()
 };
 
 const mockAccessService = {
-  canAccessPatient: jest.fn()
+  can: jest.fn().mockResolvedValue(true)
 };
 
 const mockAuthenticateToken = (req: any, res: any, next: any) => {
@@ -107,5 +111,135 @@ describe('Medications API', () => {
       expect(response.status).toBe(400);
     });
   });
-});
 
+  describe('editable fields', () => {
+    const medication = { id: 'med1', patientId: 'user123', name: 'Aspirin', isActive: true };
+
+    beforeEach(() => {
+      mockMedicationService.getMedicationById.mockResolvedValue({ success: true, data: medication });
+    });
+
+    it('should not let a medication update move it to another patient or rewrite its bookkeeping', async () => {
+      mockMedicationService.updateMedication.mockResolvedValue({ success: true, data: medication });
+
+      const response = await request(app)
+        .put('/medications/med1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ dosage: '20mg', patientId: 'other-patient', version: 1, lowSupplyAlertedAt: null, quantityCarriedOver: 500 });
+
+      expect(response.status).toBe(200);
+      expect(mockMedicationService.updateMedication).toHaveBeenCalledWith('med1', { dosage: '20mg' }, expect.anything());
+    });
+
+    it('should only stop a medication through /discontinue', async () => {
+      const deactivated = await request(app)
+        .put('/medications/med1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ isActive: false });
+      const discontinued = await request(app)
+        .put('/medications/med1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ discontinueReason: 'side_effect' });
+
+      expect(deactivated.status).toBe(400);
+      expect(deactivated.body.code).toBe('DISCONTINUE_REQUIRED');
+      expect(discontinued.status).toBe(400);
+      expect(mockMedicationService.updateMedication).not.toHaveBeenCalled();
+    });
+
+    it('should record the signed-in user as the one who logged a dose', async () => {
+      mockMedicationService.checkDailyDoseLimit.mockResolvedValue({ success: true, data: null });
+      mockMedicationService.createMedicationLog.mockResolvedValue({ success: true, data: { id: 'log1' } });
+
+      await request(app)
+        .post('/medications/med1/logs')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ takenAt: '2024-03-10T08:00:00Z', takenBy: 'someone-else', patientId: 'other-patient' });
+
+      expect(mockMedicationService.createMedicationLog).toHaveBeenCalledWith({
+        takenAt: '2024-03-10T08:00:00Z',
+        takenBy: 'user123',
+        medicationId: 'med1',
+        patientId: 'user123',
+      });
+    });
+
+    it('should not let a log or reminder update move it to another medication', async () => {
+      mockMedicationService.getMedicationLogById.mockResolvedValue({
+        success: true,
+        data: { id: 'log1', medicationId: 'med1', patientId: 'user123', status: 'taken' },
+      });
+      mockMedicationService.updateMedicationLog.mockResolvedValue({ success: true, data: {} });
+      mockMedicationService.getMedicationReminderById.mockResolvedValue({
+        success: true,
+        data: { id: 'rem1', medicationId: 'med1', patientId: 'user123' },
+      });
+      mockMedicationService.updateMedicationReminder.mockResolvedValue({ success: true, data: {} });
+
+      await request(app)
+        .put('/medications/logs/log1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ notes: 'With breakfast', medicationId: 'med2', patientId: 'other-patient', takenBy: 'someone-else' });
+      await request(app)
+        .put('/medications/reminders/rem1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ reminderTime: '09:00', medicationId: 'med2', patientId: 'other-patient', nextNotifyAt: null });
+
+      expect(mockMedicationService.updateMedicationLog).toHaveBeenCalledWith('log1', { notes: 'With breakfast' });
+      expect(mockMedicationService.updateMedicationReminder).toHaveBeenCalledWith('rem1', { reminderTime: '09:00' });
+    });
+  });
+
+  describe('PUT /medications/logs/:logId', () => {
+    const exceeded = { exceeded: true, limit: 4, taken: 4, requested: 1, unit: 'count' };
+
+    beforeEach(() => {
+      mockMedicationService.getMedicationById.mockResolvedValue({
+        success: true,
+        data: { id: 'med1', patientId: 'user123', dosage: '1 tablet', maxDailyDose: '4 tablets', isActive: true },
+      });
+      mockMedicationService.getMedicationLogById.mockResolvedValue({
+        success: true,
+        data: { id: 'log1', medicationId: 'med1', patientId: 'user123', status: 'skipped', reasonCode: 'asleep', takenAt: '2024-03-10T08:00:00Z' },
+      });
+      mockMedicationService.checkDailyDoseLimit.mockResolvedValue({ success: true, data: exceeded });
+      mockMedicationService.updateMedicationLog.mockResolvedValue({ success: true, data: { id: 'log1' } });
+    });
+
+    it('should not turn a skipped dose into one over the maximum daily dose without a reason', async () => {
+      const response = await request(app)
+        .put('/medications/logs/log1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'taken', reasonCode: null });
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe('MAX_DAILY_DOSE_EXCEEDED');
+      expect(mockMedicationService.checkDailyDoseLimit).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'med1' }),
+        { takenAt: '2024-03-10T08:00:00Z', status: 'taken', amount: undefined },
+        'log1'
+      );
+      expect(mockMedicationService.updateMedicationLog).not.toHaveBeenCalled();
+    });
+
+    it('should record the override when a reason is given', async () => {
+      const response = await request(app)
+        .put('/medications/logs/log1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ status: 'taken', reasonCode: null, overrideReason: 'Doctor advised an extra dose' });
+
+      expect(response.status).toBe(200);
+      expect(mockMedicationService.recordDoseLimitOverride).toHaveBeenCalledWith('user123', { id: 'log1' }, exceeded);
+    });
+
+    it('should not check the limit for changes that leave the daily total alone', async () => {
+      const response = await request(app)
+        .put('/medications/logs/log1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ notes: 'Was asleep' });
+
+      expect(response.status).toBe(200);
+      expect(mockMedicationService.checkDailyDoseLimit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -60,7 +60,8 @@ router.get('/profile', authenticateToken, async (req, res) => {
 // Update user profile
 router.put('/profile', authenticateToken, async (req, res) => {
   try {
-    const updates = req.body;
+    // userType is set by the server; users can't make themselves providers
+    const { userType, ...updates } = req.body;
     const updatedUser = await userService.updateUser(req.user!.uid, updates);
     
     if (!updatedUser.success) {
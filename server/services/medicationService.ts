@@ -208,6 +208,7 @@ export class MedicationService {
           id: doc.id,
           ...data,
           takenAt: data.takenAt?.toDate ? data.takenAt.toDate() : new Date(data.takenAt),
+          status: data.status || 'taken',
           createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
         };
       }) as MedicationLog[];
@@ -240,6 +241,7 @@ export class MedicationService {
           id: doc.id,
           ...data,
           takenAt: data.takenAt?.toDate ? data.takenAt.toDate() : new Date(data.takenAt),
+          status: data.status || 'taken',
           createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
         };
       }) as MedicationLog[];
@@ -273,6 +275,7 @@ export class MedicationService {
       const parsedLogData = {
         ...logData,
         takenAt: new Date(logData.takenAt),
+        status: logData.status || 'taken',
         createdAt: new Date(),
       };
 
@@ -324,6 +327,7 @@ export class MedicationService {
         id: updatedDoc.id,
         ...data,
         takenAt: data.takenAt?.toDate ? data.takenAt.toDate() : new Date(data.takenAt),
+        status: data.status || 'taken',
         createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
       };
 
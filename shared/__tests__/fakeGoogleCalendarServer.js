@@ -0,0 +1,175 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.FakeGoogleCalendarServer = void 0;
+const http_1 = require("http");
+class FakeGoogleCalendarServer {
+    calendars = new Map();
+    revokedTokens = [];
+    requests = [];
+    validCode = 'auth-code';
+    accessTokens = new Set();
+    refreshTokens = new Set();
+    sequence = 0;
+    nextId = 1;
+    expiredBefore = 0; // Sync tokens older than this get 410
+    server;
+    now;
+    pageSize;
+    constructor(options = {}) {
+        this.now = options.now || (() => new Date());
+        this.pageSize = options.pageSize;
+    }
+    async start() {
+        this.server = (0, http_1.createServer)((req, res) => {
+            this.handle(req, res).catch(error => this.send(res, 500, { error: String(error) }));
+        });
+        await new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${this.server.address().port}`;
+    }
+    async stop() {
+        await new Promise(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+    }
+    addCalendar(id, summary, options = {}) {
+        this.calendars.set(id, {
+            summary,
+            primary: !!options.primary,
+            accessRole: options.accessRole || 'owner',
+            events: new Map(),
+        });
+    }
+    events(calendarId) {
+        return [...this.calendars.get(calendarId).events.values()];
+    }
+    // An edit made by the user in Google Calendar
+    editEvent(calendarId, eventId, changes) {
+        const event = this.calendars.get(calendarId).events.get(eventId);
+        Object.assign(event, changes);
+        this.touch(event);
+        return event;
+    }
+    // A deletion made by the user in Google Calendar
+    removeEvent(calendarId, eventId) {
+        this.editEvent(calendarId, eventId, { status: 'cancelled' });
+    }
+    expireAccessTokens() {
+        this.accessTokens.clear();
+    }
+    expireSyncTokens() {
+        this.expiredBefore = this.sequence + 1;
+    }
+    touch(event) {
+        event.sequence = ++this.sequence;
+        event.etag = `"${event.sequence}"`;
+        event.updated = this.now().toISOString();
+    }
+    issueTokens(withRefreshToken) {
+        const accessToken = `access-${this.nextId++}`;
+        this.accessTokens.add(accessToken);
+        const tokens = { access_token: accessToken, expires_in: 3600, token_type: 'Bearer' };
+        if (withRefreshToken) {
+            tokens.refresh_token = `refresh-${this.nextId++}`;
+            this.refreshTokens.add(tokens.refresh_token);
+        }
+        return tokens;
+    }
+    async handle(req, res) {
+        const url = new URL(req.url, 'http://localhost');
+        const body = await this.readBody(req);
+        this.requests.push(`${req.method} ${url.pathname}`);
+        if (req.method === 'POST' && url.pathname === '/token') {
+            const params = new URLSearchParams(body);
+            if (params.get('grant_type') === 'authorization_code' && params.get('code') === this.validCode) {
+                return this.send(res, 200, this.issueTokens(true));
+            }
+            if (params.get('grant_type') === 'refresh_token' && this.refreshTokens.has(params.get('refresh_token'))) {
+                return this.send(res, 200, this.issueTokens(false));
+            }
+            return this.send(res, 400, { error: 'invalid_grant' });
+        }
+        if (req.method === 'POST' && url.pathname === '/revoke') {
+            const token = new URLSearchParams(body).get('token');
+            this.revokedTokens.push(token);
+            this.refreshTokens.delete(token);
+            return this.send(res, 200, {});
+        }
+        const token = (req.headers.authorization || '').replace('Bearer ', '');
+        if (!this.accessTokens.has(token)) {
+            return this.send(res, 401, { error: { code: 401, message: 'Invalid Credentials' } });
+        }
+        if (req.method === 'GET' && url.pathname === '/calendar/v3/users/me/calendarList') {
+            const items = [...this.calendars.entries()]
+                .filter(([, calendar]) => url.searchParams.get('minAccessRole') !== 'writer' || calendar.accessRole !== 'reader')
+                .map(([id, calendar]) => ({ id, summary: calendar.summary, primary: calendar.primary, accessRole: calendar.accessRole }));
+            return this.send(res, 200, { items });
+        }
+        const match = url.pathname.match(/^\/calendar\/v3\/calendars\/([^/]+)\/events(?:\/([^/]+))?$/);
+        const calendar = match && this.calendars.get(decodeURIComponent(match[1]));
+        if (!match || !calendar) {
+            return this.send(res, 404, { error: { code: 404, message: 'Not Found' } });
+        }
+        const eventId = match[2] && decodeURIComponent(match[2]);
+        const event = eventId ? calendar.events.get(eventId) : undefined;
+        if (req.method === 'POST' && !eventId) {
+            const created = { status: 'confirmed', ...JSON.parse(body), id: `event${this.nextId++}` };
+            this.touch(created);
+            calendar.events.set(created.id, created);
+            return this.send(res, 200, this.toResource(created));
+        }
+        if (req.method === 'GET' && !eventId) {
+            const syncToken = url.searchParams.get('syncToken');
+            const since = syncToken ? Number(syncToken.replace('sync-', '')) : 0;
+            if (syncToken && since < this.expiredBefore) {
+                return this.send(res, 410, { error: { code: 410, message: 'Sync token is no longer valid' } });
+            }
+            const changed = [...calendar.events.values()]
+                .filter(e => e.sequence > since && (syncToken || e.status !== 'cancelled'))
+                .sort((a, b) => a.sequence - b.sequence);
+            const offset = Number(url.searchParams.get('pageToken') || 0);
+            const size = this.pageSize || Number(url.searchParams.get('maxResults') || 250);
+            const page = changed.slice(offset, offset + size);
+            const last = offset + size >= changed.length;
+            return this.send(res, 200, {
+                items: page.map(e => this.toResource(e)),
+                ...(last ? { nextSyncToken: `sync-${this.sequence}` } : { nextPageToken: String(offset + size) }),
+            });
+        }
+        if (!event || event.status === 'cancelled') {
+            return this.send(res, req.method === 'DELETE' ? 410 : 404, { error: { code: 404, message: 'Not Found' } });
+        }
+        if (req.method === 'PUT') {
+            const ifMatch = req.headers['if-match'];
+            if (ifMatch && ifMatch !== event.etag) {
+                return this.send(res, 412, { error: { code: 412, message: 'Precondition Failed' } });
+            }
+            const { id, etag, updated, sequence } = event;
+            const replaced = { status: 'confirmed', ...JSON.parse(body), id, etag, updated, sequence };
+            this.touch(replaced);
+            calendar.events.set(id, replaced);
+            return this.send(res, 200, this.toResource(replaced));
+        }
+        if (req.method === 'DELETE') {
+            event.status = 'cancelled';
+            this.touch(event);
+            res.writeHead(204);
+            return void res.end();
+        }
+        this.send(res, 405, { error: { code: 405, message: 'Method Not Allowed' } });
+    }
+    toResource(event) {
+        const { sequence, ...resource } = event;
+        return resource;
+    }
+    readBody(req) {
+        return new Promise((resolve, reject) => {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => resolve(body));
+            req.on('error', reject);
+        });
+    }
+    send(res, status, data) {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+    }
+}
+exports.FakeGoogleCalendarServer = FakeGoogleCalendarServer;
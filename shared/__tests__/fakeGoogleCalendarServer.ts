@@ -0,0 +1,221 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+// A local stand-in for Google's OAuth and Calendar endpoints, for running HttpGoogleCalendarClient in tests
+
+export interface FakeCalendarEvent {
+  id: string;
+  etag: string;
+  status: 'confirmed' | 'tentative' | 'cancelled';
+  summary?: string;
+  description?: string;
+  location?: string;
+  start?: { dateTime?: string; date?: string };
+  end?: { dateTime?: string; date?: string };
+  updated: string;
+  sequence: number; // When the event last changed; sync tokens are based on it
+}
+
+interface FakeGoogleCalendarServerOptions {
+  now?: () => Date;
+  pageSize?: number; // Events per page, to exercise paging
+}
+
+export class FakeGoogleCalendarServer {
+  readonly calendars = new Map<string, { summary: string; primary: boolean; accessRole: string; events: Map<string, FakeCalendarEvent> }>();
+  readonly revokedTokens: string[] = [];
+  readonly requests: string[] = [];
+  validCode = 'auth-code';
+  private accessTokens = new Set<string>();
+  private refreshTokens = new Set<string>();
+  private sequence = 0;
+  private nextId = 1;
+  private expiredBefore = 0; // Sync tokens older than this get 410
+  private server?: Server;
+  private now: () => Date;
+  private pageSize?: number;
+
+  constructor(options: FakeGoogleCalendarServerOptions = {}) {
+    this.now = options.now || (() => new Date());
+    this.pageSize = options.pageSize;
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(error => this.send(res, 500, { error: String(error) }));
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+  }
+
+  addCalendar(id: string, summary: string, options: { primary?: boolean; accessRole?: string } = {}): void {
+    this.calendars.set(id, {
+      summary,
+      primary: !!options.primary,
+      accessRole: options.accessRole || 'owner',
+      events: new Map(),
+    });
+  }
+
+  events(calendarId: string): FakeCalendarEvent[] {
+    return [...this.calendars.get(calendarId)!.events.values()];
+  }
+
+  // An edit made by the user in Google Calendar
+  editEvent(calendarId: string, eventId: string, changes: Partial<FakeCalendarEvent>): FakeCalendarEvent {
+    const event = this.calendars.get(calendarId)!.events.get(eventId)!;
+    Object.assign(event, changes);
+    this.touch(event);
+    return event;
+  }
+
+  // A deletion made by the user in Google Calendar
+  removeEvent(calendarId: string, eventId: string): void {
+    this.editEvent(calendarId, eventId, { status: 'cancelled' });
+  }
+
+  expireAccessTokens(): void {
+    this.accessTokens.clear();
+  }
+
+  expireSyncTokens(): void {
+    this.expiredBefore = this.sequence + 1;
+  }
+
+  private touch(event: FakeCalendarEvent): void {
+    event.sequence = ++this.sequence;
+    event.etag = `"${event.sequence}"`;
+    event.updated = this.now().toISOString();
+  }
+
+  private issueTokens(withRefreshToken: boolean): any {
+    const accessToken = `access-${this.nextId++}`;
+    this.accessTokens.add(accessToken);
+    const tokens: any = { access_token: accessToken, expires_in: 3600, token_type: 'Bearer' };
+    if (withRefreshToken) {
+      tokens.refresh_token = `refresh-${this.nextId++}`;
+      this.refreshTokens.add(tokens.refresh_token);
+    }
+    return tokens;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url!, 'http://localhost');
+    const body = await this.readBody(req);
+    this.requests.push(`${req.method} ${url.pathname}`);
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      const params = new URLSearchParams(body);
+      if (params.get('grant_type') === 'authorization_code' && params.get('code') === this.validCode) {
+        return this.send(res, 200, this.issueTokens(true));
+      }
+      if (params.get('grant_type') === 'refresh_token' && this.refreshTokens.has(params.get('refresh_token')!)) {
+        return this.send(res, 200, this.issueTokens(false));
+      }
+      return this.send(res, 400, { error: 'invalid_grant' });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/revoke') {
+      const token = new URLSearchParams(body).get('token')!;
+      this.revokedTokens.push(token);
+      this.refreshTokens.delete(token);
+      return this.send(res, 200, {});
+    }
+
+    const token = (req.headers.authorization || '').replace('Bearer ', '');
+    if (!this.accessTokens.has(token)) {
+      return this.send(res, 401, { error: { code: 401, message: 'Invalid Credentials' } });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/calendar/v3/users/me/calendarList') {
+      const items = [...this.calendars.entries()]
+        .filter(([, calendar]) => url.searchParams.get('minAccessRole') !== 'writer' || calendar.accessRole !== 'reader')
+        .map(([id, calendar]) => ({ id, summary: calendar.summary, primary: calendar.primary, accessRole: calendar.accessRole }));
+      return this.send(res, 200, { items });
+    }
+
+    const match = url.pathname.match(/^\/calendar\/v3\/calendars\/([^/]+)\/events(?:\/([^/]+))?$/);
+    const calendar = match && this.calendars.get(decodeURIComponent(match[1]));
+    if (!match || !calendar) {
+      return this.send(res, 404, { error: { code: 404, message: 'Not Found' } });
+    }
+    const eventId = match[2] && decodeURIComponent(match[2]);
+    const event = eventId ? calendar.events.get(eventId) : undefined;
+
+    if (req.method === 'POST' && !eventId) {
+      const created = { status: 'confirmed', ...JSON.parse(body), id: `event${this.nextId++}` } as FakeCalendarEvent;
+      this.touch(created);
+      calendar.events.set(created.id, created);
+      return this.send(res, 200, this.toResource(created));
+    }
+
+    if (req.method === 'GET' && !eventId) {
+      const syncToken = url.searchParams.get('syncToken');
+      const since = syncToken ? Number(syncToken.replace('sync-', '')) : 0;
+      if (syncToken && since < this.expiredBefore) {
+        return this.send(res, 410, { error: { code: 410, message: 'Sync token is no longer valid' } });
+      }
+
+      const changed = [...calendar.events.values()]
+        .filter(e => e.sequence > since && (syncToken || e.status !== 'cancelled'))
+        .sort((a, b) => a.sequence - b.sequence);
+      const offset = Number(url.searchParams.get('pageToken') || 0);
+      const size = this.pageSize || Number(url.searchParams.get('maxResults') || 250);
+      const page = changed.slice(offset, offset + size);
+      const last = offset + size >= changed.length;
+
+      return this.send(res, 200, {
+        items: page.map(e => this.toResource(e)),
+        ...(last ? { nextSyncToken: `sync-${this.sequence}` } : { nextPageToken: String(offset + size) }),
+      });
+    }
+
+    if (!event || event.status === 'cancelled') {
+      return this.send(res, req.method === 'DELETE' ? 410 : 404, { error: { code: 404, message: 'Not Found' } });
+    }
+
+    if (req.method === 'PUT') {
+      const ifMatch = req.headers['if-match'];
+      if (ifMatch && ifMatch !== event.etag) {
+        return this.send(res, 412, { error: { code: 412, message: 'Precondition Failed' } });
+      }
+      const { id, etag, updated, sequence } = event;
+      const replaced = { status: 'confirmed', ...JSON.parse(body), id, etag, updated, sequence } as FakeCalendarEvent;
+      this.touch(replaced);
+      calendar.events.set(id, replaced);
+      return this.send(res, 200, this.toResource(replaced));
+    }
+
+    if (req.method === 'DELETE') {
+      event.status = 'cancelled';
+      this.touch(event);
+      res.writeHead(204);
+      return void res.end();
+    }
+
+    this.send(res, 405, { error: { code: 405, message: 'Method Not Allowed' } });
+  }
+
+  private toResource(event: FakeCalendarEvent): any {
+    const { sequence, ...resource } = event;
+    return resource;
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: ServerResponse, status: number, data: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+}
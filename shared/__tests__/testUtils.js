@@ -32,6 +32,11 @@ const createMockFirestoreDb = () => {
     };
     return {
         collection: jest.fn(() => mockCollection),
+        runTransaction: jest.fn((fn) => fn({
+            get: (ref) => ref.get(),
+            set: (ref, data) => ref.set(data),
+            update: (ref, data) => ref.update(data),
+        })),
         _mockCollection: mockCollection,
         _mockDoc: mockDoc
     };
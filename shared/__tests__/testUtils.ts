@@ -32,6 +32,11 @@ export const createMockFirestoreDb = () => {
 
   return {
     collection: jest.fn(() => mockCollection),
+    runTransaction: jest.fn((fn: any) => fn({
+      get: (ref: any) => ref.get(),
+      set: (ref: any, data: any) => ref.set(data),
+      update: (ref: any, data: any) => ref.update(data),
+    })),
     _mockCollection: mockCollection,
     _mockDoc: mockDoc
   };
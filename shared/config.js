@@ -28,6 +28,12 @@ const ConfigSchema = zod_1.z.object({
     RESEND_API_KEY: zod_1.z.string().optional(),
     FROM_EMAIL: zod_1.z.string().email().optional().default('noreply@kinconnect.com'),
     SENDGRID_FROM_EMAIL: zod_1.z.string().email().optional(), // For backward compatibility
+    // Missed-dose escalation
+    MISSED_DOSE_GRACE_MINUTES: zod_1.z.coerce.number().int().positive().default(60), // After the reminder, before caregivers are told
+    MISSED_DOSE_ESCALATION_MINUTES: zod_1.z.coerce.number().int().positive().default(30), // Between caregiver tiers
+    LOW_SUPPLY_ALERT_DAYS: zod_1.z.coerce.number().int().positive().default(7), // Tell the family when supply runs out sooner than this
+    // Access grants
+    BREAK_GLASS_ACCESS_HOURS: zod_1.z.coerce.number().int().positive().default(4), // How long emergency access lasts
     // Cache
     REDIS_URL: zod_1.z.string().optional(),
     ENABLE_CACHE: zod_1.z.coerce.boolean().default(true),
@@ -37,6 +43,10 @@ const ConfigSchema = zod_1.z.object({
     // Google
     GOOGLE_MAPS_API_KEY: zod_1.z.string().optional(),
     GOOGLE_CALENDAR_API_KEY: zod_1.z.string().optional(),
+    GOOGLE_CLIENT_ID: zod_1.z.string().optional(), // OAuth client for server-side Calendar sync
+    GOOGLE_CLIENT_SECRET: zod_1.z.string().optional(),
+    GOOGLE_OAUTH_REDIRECT_URI: zod_1.z.string().url().optional(), // Must point at /api/google-calendar/callback
+    GOOGLE_TOKEN_ENCRYPTION_KEY: zod_1.z.string().optional(), // 32 bytes, base64; the Calendar OAuth tokens are stored encrypted with it
     // Feature Flags
     ENABLE_DRUG_IMAGES: zod_1.z.coerce.boolean().default(true),
     ENABLE_CLINICAL_INFO: zod_1.z.coerce.boolean().default(true),
@@ -66,6 +76,9 @@ function loadConfig() {
         RESEND_API_KEY: process.env.RESEND_API_KEY,
         FROM_EMAIL: process.env.FROM_EMAIL || process.env.SENDGRID_FROM_EMAIL,
         SENDGRID_FROM_EMAIL: process.env.SENDGRID_FROM_EMAIL,
+        MISSED_DOSE_GRACE_MINUTES: process.env.MISSED_DOSE_GRACE_MINUTES,
+        MISSED_DOSE_ESCALATION_MINUTES: process.env.MISSED_DOSE_ESCALATION_MINUTES,
+        LOW_SUPPLY_ALERT_DAYS: process.env.LOW_SUPPLY_ALERT_DAYS,
         REDIS_URL: process.env.REDIS_URL,
         ENABLE_CACHE: process.env.ENABLE_CACHE,
         CACHE_TTL_DRUG_DATA: process.env.CACHE_TTL_DRUG_DATA,
@@ -73,6 +86,10 @@ function loadConfig() {
         CACHE_KEY_VERSION: process.env.CACHE_KEY_VERSION,
         GOOGLE_MAPS_API_KEY: process.env.VITE_GOOGLE_MAPS_API_KEY || process.env.GOOGLE_MAPS_API_KEY,
         GOOGLE_CALENDAR_API_KEY: process.env.VITE_GOOGLE_CALENDAR_API_KEY,
+        GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
+        GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
+        GOOGLE_OAUTH_REDIRECT_URI: process.env.GOOGLE_OAUTH_REDIRECT_URI,
+        GOOGLE_TOKEN_ENCRYPTION_KEY: process.env.GOOGLE_TOKEN_ENCRYPTION_KEY,
         ENABLE_DRUG_IMAGES: process.env.ENABLE_DRUG_IMAGES,
         ENABLE_CLINICAL_INFO: process.env.ENABLE_CLINICAL_INFO,
         ENABLE_AUTHORIZATION: process.env.ENABLE_AUTHORIZATION,
@@ -106,6 +123,9 @@ function loadConfig() {
             DAILYMED_BASE_URL: 'https://dailymed.nlm.nih.gov/dailymed/services/v2',
             EMAIL_PROVIDER: 'resend',
             FROM_EMAIL: 'noreply@kinconnect.com',
+            MISSED_DOSE_GRACE_MINUTES: 60,
+            MISSED_DOSE_ESCALATION_MINUTES: 30,
+            LOW_SUPPLY_ALERT_DAYS: 7,
             ENABLE_CACHE: false,
             CACHE_TTL_DRUG_DATA: 86400,
             CACHE_TTL_IMAGES: 604800,
@@ -21,6 +21,8 @@ exports.COLLECTIONS = {
     APPOINTMENTS: 'appointments',
     VISIT_RECORDS: 'visit_records',
     AUDIT_LOGS: 'audit_logs',
+    PATIENT_ACCESS: 'patient_access',
+    HEALTHCARE_PROVIDERS: 'healthcare_providers',
 };
 // Firebase security rules (for reference)
 exports.FIREBASE_RULES = {
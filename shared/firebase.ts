@@ -19,6 +19,8 @@ export const COLLECTIONS = {
   APPOINTMENTS: 'appointments',
   VISIT_RECORDS: 'visit_records',
   AUDIT_LOGS: 'audit_logs',
+  PATIENT_ACCESS: 'patient_access',
+  HEALTHCARE_PROVIDERS: 'healthcare_providers',
 } as const;
 
 // Firebase security rules (for reference)
@@ -78,6 +78,7 @@ describe('Auth Middleware', () => {
             const decodedToken = {
                 uid: 'user-123',
                 email: 'test@example.com',
+                email_verified: true,
                 name: 'Test User',
                 picture: 'https://example.com/pic.jpg'
             };
@@ -91,6 +92,7 @@ describe('Auth Middleware', () => {
             expect(req.user).toEqual({
                 uid: 'user-123',
                 email: 'test@example.com',
+                email_verified: true,
                 name: 'Test User',
                 picture: 'https://example.com/pic.jpg'
             });
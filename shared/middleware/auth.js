@@ -61,6 +61,7 @@ function createAuthMiddleware(deps) {
             req.user = {
                 uid: decoded.uid,
                 email: decoded.email,
+                email_verified: decoded.email_verified === true,
                 name: decoded.name,
                 picture: decoded.picture
             };
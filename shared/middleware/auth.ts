@@ -91,6 +91,7 @@ export function createAuthMiddleware(deps: AuthMiddlewareDeps): any {
       (req as any).user = {
         uid: decoded.uid,
         email: decoded.email,
+        email_verified: decoded.email_verified === true,
         name: decoded.name,
         picture: decoded.picture
       };
@@ -0,0 +1,202 @@
+import { Router } from 'express';
+import { AccessGrantService } from '../../shared/services/accessGrantService';
+import { AccessService } from '../../shared/services/accessService';
+import type { NewAccessGrant } from '../types';
+import { validateAccessGrant, validateJustification } from '../utils/accessGrants';
+import { getPermissionsNotHeld } from '../utils/familyPermissions';
+
+export function createAccessGrantRouter(
+  accessGrantService: AccessGrantService,
+  accessService: AccessService,
+  authenticateToken: any
+) {
+  // Mounted at /patients/:patientId/access-grants
+  const router = Router({ mergeParams: true });
+
+  // Grants are managed by the patient or a family group admin
+  const canManageGrants = (req: any): Promise<boolean> =>
+    accessService.can(req.user!.uid, req.params.patientId, 'manage_members');
+
+  // The route may name the patient by profile ID, but grants are stored and
+  // looked up by the patient's user uid
+  const findPatientUid = (req: any): Promise<string | null> =>
+    accessService.resolvePatientUid(req.params.patientId);
+
+  const statusFor = (error?: string): number => {
+    switch (error) {
+      case 'Patient not found':
+        return 404;
+      case 'Only healthcare providers can take emergency access':
+        return 403;
+      default:
+        return 500;
+    }
+  };
+
+  // List the patient's grants, including expired and revoked ones
+  router.get('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canManageGrants(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const patientUid = await findPatientUid(req);
+      if (!patientUid) {
+        return res.status(404).json({
+          success: false,
+          error: 'Patient not found'
+        });
+      }
+
+      const grants = await accessGrantService.getGrantsForPatient(patientUid);
+      if (!grants.success) {
+        return res.status(500).json(grants);
+      }
+
+      res.json(grants);
+    } catch (error) {
+      console.error('Error getting access grants:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Give someone temporary access to some of the patient's data
+  router.post('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canManageGrants(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const patientUid = await findPatientUid(req);
+      if (!patientUid) {
+        return res.status(404).json({
+          success: false,
+          error: 'Patient not found'
+        });
+      }
+
+      const validationError = validateAccessGrant(req.body, patientUid, new Date());
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const { granteeId, permissions, expiresAt, reason } = req.body;
+
+      // As with family members, only the patient and the primary caregiver
+      // can share permissions they don't hold themselves
+      if (req.user!.uid !== patientUid) {
+        const memberships = await accessService.getSharedMemberships(req.user!.uid, patientUid);
+        const notHeld = getPermissionsNotHeld(memberships, permissions);
+        if (notHeld.length > 0) {
+          return res.status(403).json({
+            success: false,
+            error: `You cannot grant permissions you don't have: ${notHeld.join(', ')}`
+          });
+        }
+      }
+
+      const grantData: NewAccessGrant = { granteeId, permissions, expiresAt: new Date(expiresAt), reason };
+
+      const grant = await accessGrantService.createGrant(patientUid, grantData, req.user!.uid);
+      if (!grant.success) {
+        return res.status(500).json(grant);
+      }
+
+      res.status(201).json(grant);
+    } catch (error) {
+      console.error('Error creating access grant:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Emergency read access; any healthcare provider may take it, but must say why
+  router.post('/break-glass', authenticateToken, async (req: any, res: any) => {
+    try {
+      const patientUid = await findPatientUid(req);
+      if (!patientUid) {
+        return res.status(404).json({
+          success: false,
+          error: 'Patient not found'
+        });
+      }
+
+      if (req.user!.uid === patientUid) {
+        return res.status(400).json({
+          success: false,
+          error: 'A patient already has access to their own data'
+        });
+      }
+
+      const validationError = validateJustification(req.body.justification);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const grant = await accessGrantService.breakGlass(patientUid, req.user!.uid, req.body.justification);
+      if (!grant.success) {
+        return res.status(statusFor(grant.error)).json(grant);
+      }
+
+      res.status(201).json(grant);
+    } catch (error) {
+      console.error('Error granting emergency access:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // End a grant early
+  router.delete('/:grantId', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canManageGrants(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const patientUid = await findPatientUid(req);
+      if (!patientUid) {
+        return res.status(404).json({
+          success: false,
+          error: 'Patient not found'
+        });
+      }
+
+      const grant = await accessGrantService.revokeGrant(patientUid, req.params.grantId, req.user!.uid);
+      if (!grant.success) {
+        return res.status(grant.error === 'Access grant not found' ? 404 : 500).json(grant);
+      }
+
+      res.json(grant);
+    } catch (error) {
+      console.error('Error revoking access grant:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,110 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createAppointmentReminderRouter = createAppointmentReminderRouter;
+const express_1 = require("express");
+const appointments_1 = require("../utils/appointments");
+function createAppointmentReminderRouter(appointmentReminderService, accessService, authenticateToken) {
+    // Mounted at /patients/:patientId/appointment-reminders; like the
+    // appointments themselves, changing when reminders go out needs
+    // edit_appointments, while anyone who can see them can opt in
+    const router = (0, express_1.Router)({ mergeParams: true });
+    const canAccess = (req) => accessService.can(req.user.uid, req.params.patientId, 'view_appointments');
+    const canEdit = (req) => accessService.can(req.user.uid, req.params.patientId, 'edit_appointments');
+    const statusFor = (error) => {
+        switch (error) {
+            case 'Only family members can get appointment reminders':
+                return 403;
+            default:
+                return 500;
+        }
+    };
+    // The patient's reminder times and who gets them
+    router.get('/', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canAccess(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const settings = await appointmentReminderService.getSettings(req.params.patientId);
+            if (!settings.success) {
+                return res.status(500).json(settings);
+            }
+            res.json(settings);
+        }
+        catch (error) {
+            console.error('Error getting appointment reminder settings:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Change the reminder times, in minutes before the appointment
+    router.put('/', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canEdit(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const { offsetsMinutes, notifyPatient } = req.body;
+            const validationError = (0, appointments_1.validateReminderSettings)({ offsetsMinutes, notifyPatient });
+            if (validationError) {
+                return res.status(400).json({
+                    success: false,
+                    error: validationError
+                });
+            }
+            const updates = {
+                ...(offsetsMinutes !== undefined ? { offsetsMinutes } : {}),
+                ...(notifyPatient !== undefined ? { notifyPatient } : {}),
+            };
+            const settings = await appointmentReminderService.updateSettings(req.params.patientId, updates, req.user.uid);
+            if (!settings.success) {
+                return res.status(statusFor(settings.error)).json(settings);
+            }
+            res.json(settings);
+        }
+        catch (error) {
+            console.error('Error updating appointment reminder settings:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Opt the current user in or out of the reminder emails
+    router.put('/subscription', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canAccess(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const { subscribed } = req.body;
+            if (typeof subscribed !== 'boolean') {
+                return res.status(400).json({
+                    success: false,
+                    error: 'subscribed must be true or false'
+                });
+            }
+            const settings = await appointmentReminderService.setSubscription(req.params.patientId, req.user.uid, subscribed);
+            if (!settings.success) {
+                return res.status(statusFor(settings.error)).json(settings);
+            }
+            res.json(settings);
+        }
+        catch (error) {
+            console.error('Error updating appointment reminder subscription:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    return router;
+}
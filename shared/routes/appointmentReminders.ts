@@ -0,0 +1,129 @@
+import { Router } from 'express';
+import { AppointmentReminderService } from '../../shared/services/appointmentReminderService';
+import { AccessService } from '../../shared/services/accessService';
+import type { AppointmentReminderSettingsUpdate } from '../types';
+import { validateReminderSettings } from '../utils/appointments';
+
+export function createAppointmentReminderRouter(
+  appointmentReminderService: AppointmentReminderService,
+  accessService: AccessService,
+  authenticateToken: any
+) {
+  // Mounted at /patients/:patientId/appointment-reminders; like the
+  // appointments themselves, changing when reminders go out needs
+  // edit_appointments, while anyone who can see them can opt in
+  const router = Router({ mergeParams: true });
+
+  const canAccess = (req: any): Promise<boolean> =>
+    accessService.can(req.user!.uid, req.params.patientId, 'view_appointments');
+
+  const canEdit = (req: any): Promise<boolean> =>
+    accessService.can(req.user!.uid, req.params.patientId, 'edit_appointments');
+
+  const statusFor = (error?: string): number => {
+    switch (error) {
+      case 'Only family members can get appointment reminders':
+        return 403;
+      default:
+        return 500;
+    }
+  };
+
+  // The patient's reminder times and who gets them
+  router.get('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canAccess(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const settings = await appointmentReminderService.getSettings(req.params.patientId);
+      if (!settings.success) {
+        return res.status(500).json(settings);
+      }
+
+      res.json(settings);
+    } catch (error) {
+      console.error('Error getting appointment reminder settings:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Change the reminder times, in minutes before the appointment
+  router.put('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canEdit(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const { offsetsMinutes, notifyPatient } = req.body;
+      const validationError = validateReminderSettings({ offsetsMinutes, notifyPatient });
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const updates: AppointmentReminderSettingsUpdate = {
+        ...(offsetsMinutes !== undefined ? { offsetsMinutes } : {}),
+        ...(notifyPatient !== undefined ? { notifyPatient } : {}),
+      };
+      const settings = await appointmentReminderService.updateSettings(req.params.patientId, updates, req.user!.uid);
+      if (!settings.success) {
+        return res.status(statusFor(settings.error)).json(settings);
+      }
+
+      res.json(settings);
+    } catch (error) {
+      console.error('Error updating appointment reminder settings:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Opt the current user in or out of the reminder emails
+  router.put('/subscription', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canAccess(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const { subscribed } = req.body;
+      if (typeof subscribed !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          error: 'subscribed must be true or false'
+        });
+      }
+
+      const settings = await appointmentReminderService.setSubscription(req.params.patientId, req.user!.uid, subscribed);
+      if (!settings.success) {
+        return res.status(statusFor(settings.error)).json(settings);
+      }
+
+      res.json(settings);
+    } catch (error) {
+      console.error('Error updating appointment reminder subscription:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,313 @@
+import { Router } from 'express';
+import { AppointmentService } from '../../shared/services/appointmentService';
+import { AccessService } from '../../shared/services/accessService';
+import type { Appointment, AppointmentStatus, AppointmentUpdate, NewAppointment } from '../types';
+import { APPOINTMENT_STATUSES, parseAppointmentRange, validateAppointment } from '../utils/appointments';
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+export function createAppointmentRouter(
+  appointmentService: AppointmentService,
+  accessService: AccessService,
+  authenticateToken: any
+) {
+  // Mounted at /patients/:patientId/appointments; scheduling and changing
+  // appointments needs edit_appointments on top of view_appointments
+  const router = Router({ mergeParams: true });
+
+  const canAccess = (req: any): Promise<boolean> =>
+    accessService.can(req.user!.uid, req.params.patientId, 'view_appointments');
+
+  const canEdit = (req: any): Promise<boolean> =>
+    accessService.can(req.user!.uid, req.params.patientId, 'edit_appointments');
+
+  const statusFor = (error?: string): number => {
+    if (error?.startsWith('Cannot ')) {
+      return 409;
+    }
+    switch (error) {
+      case 'Appointment not found':
+        return 404;
+      default:
+        return 500;
+    }
+  };
+
+  // Loads the appointment in the path, sending 404 if it belongs to another patient
+  const findAppointment = async (req: any, res: any): Promise<Appointment | null> => {
+    const appointment = await appointmentService.getAppointmentById(req.params.appointmentId);
+    if (!appointment.success || appointment.data!.patientId !== req.params.patientId) {
+      res.status(appointment.success ? 404 : statusFor(appointment.error)).json({
+        success: false,
+        error: appointment.success ? 'Appointment not found' : appointment.error
+      });
+      return null;
+    }
+    return appointment.data!;
+  };
+
+  // List the patient's appointments, optionally between two dates
+  router.get('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canAccess(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const { range, error } = parseAppointmentRange(req.query);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error
+        });
+      }
+
+      const appointments = await appointmentService.getAppointmentsByPatientId(req.params.patientId, range);
+      if (!appointments.success) {
+        return res.status(500).json(appointments);
+      }
+
+      res.json(appointments);
+    } catch (error) {
+      console.error('Error getting appointments:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // The patient's next scheduled and confirmed appointments
+  router.get('/upcoming', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canAccess(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      let limit: number | undefined;
+      if (req.query.limit !== undefined) {
+        limit = Number(req.query.limit);
+        if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+          return res.status(400).json({
+            success: false,
+            error: 'limit must be a whole number between 1 and 100'
+          });
+        }
+      }
+
+      const appointments = await appointmentService.getUpcomingAppointments(req.params.patientId, limit);
+      if (!appointments.success) {
+        return res.status(500).json(appointments);
+      }
+
+      res.json(appointments);
+    } catch (error) {
+      console.error('Error getting upcoming appointments:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Schedule an appointment
+  router.post('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canEdit(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const validationError = validateAppointment(req.body, true);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      const appointmentData: NewAppointment = {
+        patientId: req.params.patientId,
+        title: req.body.title.trim(),
+        description: req.body.description || '',
+        dateTime: new Date(req.body.dateTime),
+        duration: req.body.duration || DEFAULT_DURATION_MINUTES,
+        location: req.body.location || '',
+        provider: req.body.provider || '',
+        status: 'scheduled',
+        ...(req.body.notes ? { notes: req.body.notes } : {}),
+      };
+
+      const appointment = await appointmentService.createAppointment(appointmentData, req.user!.uid);
+      if (!appointment.success) {
+        return res.status(statusFor(appointment.error)).json(appointment);
+      }
+
+      res.status(201).json(appointment);
+    } catch (error) {
+      console.error('Error creating appointment:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Get an appointment
+  router.get('/:appointmentId', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canAccess(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const appointment = await findAppointment(req, res);
+      if (!appointment) {
+        return;
+      }
+
+      res.json({ success: true, data: appointment });
+    } catch (error) {
+      console.error('Error getting appointment:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Edit an appointment's details
+  router.put('/:appointmentId', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canEdit(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      if (req.body.status !== undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'Use the status endpoint to change an appointment\'s status'
+        });
+      }
+
+      const validationError = validateAppointment(req.body, false);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError
+        });
+      }
+
+      if (!(await findAppointment(req, res))) {
+        return;
+      }
+
+      const updates: AppointmentUpdate = {};
+      for (const field of ['title', 'description', 'duration', 'location', 'provider', 'notes'] as const) {
+        if (req.body[field] !== undefined) {
+          (updates as any)[field] = req.body[field];
+        }
+      }
+      if (req.body.dateTime !== undefined) {
+        updates.dateTime = new Date(req.body.dateTime);
+      }
+
+      const appointment = await appointmentService.updateAppointment(req.params.appointmentId, updates, req.user!.uid);
+      if (!appointment.success) {
+        return res.status(statusFor(appointment.error)).json(appointment);
+      }
+
+      res.json(appointment);
+    } catch (error) {
+      console.error('Error updating appointment:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Confirm, complete or cancel an appointment
+  router.post('/:appointmentId/status', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canEdit(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const { status } = req.body;
+      if (!APPOINTMENT_STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: `status must be one of: ${APPOINTMENT_STATUSES.join(', ')}`
+        });
+      }
+
+      if (!(await findAppointment(req, res))) {
+        return;
+      }
+
+      const appointment = await appointmentService.updateStatus(
+        req.params.appointmentId,
+        status as AppointmentStatus,
+        req.user!.uid
+      );
+      if (!appointment.success) {
+        return res.status(statusFor(appointment.error)).json(appointment);
+      }
+
+      res.json(appointment);
+    } catch (error) {
+      console.error('Error updating appointment status:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Delete an appointment
+  router.delete('/:appointmentId', authenticateToken, async (req: any, res: any) => {
+    try {
+      if (!(await canEdit(req))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      if (!(await findAppointment(req, res))) {
+        return;
+      }
+
+      const result = await appointmentService.deleteAppointment(req.params.appointmentId, req.user!.uid);
+      if (!result.success) {
+        return res.status(statusFor(result.error)).json(result);
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error deleting appointment:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  return router;
+}
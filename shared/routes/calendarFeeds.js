@@ -0,0 +1,112 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createCalendarFeedRouter = createCalendarFeedRouter;
+exports.createCalendarFeedDownloadRouter = createCalendarFeedDownloadRouter;
+const express_1 = require("express");
+const config_1 = require("../config");
+// Where a feed can be downloaded; calendar apps fetch it without signing in
+const feedUrl = (req, token) => `${config_1.config.APP_URL || `${req.protocol}://${req.get('host')}`}/api/calendar-feeds/${token}.ics`;
+function createCalendarFeedRouter(calendarFeedService, accessService, authenticateToken) {
+    // Mounted at /patients/:patientId/calendar-feeds; each user manages their own feeds
+    const router = (0, express_1.Router)({ mergeParams: true });
+    const canAccess = (req) => accessService.can(req.user.uid, req.params.patientId, 'view_appointments');
+    // List the current user's feeds for the patient
+    router.get('/', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canAccess(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const feeds = await calendarFeedService.getFeeds(req.user.uid, req.params.patientId);
+            if (!feeds.success) {
+                return res.status(500).json(feeds);
+            }
+            res.json(feeds);
+        }
+        catch (error) {
+            console.error('Error getting calendar feeds:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Create a feed. The URL is only shown once.
+    router.post('/', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canAccess(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const { includeReminders = false } = req.body;
+            if (typeof includeReminders !== 'boolean') {
+                return res.status(400).json({
+                    success: false,
+                    error: 'includeReminders must be true or false'
+                });
+            }
+            const result = await calendarFeedService.createFeed(req.user.uid, req.params.patientId, includeReminders);
+            if (!result.success) {
+                return res.status(500).json(result);
+            }
+            res.status(201).json({
+                success: true,
+                data: { ...result.data.feed, url: feedUrl(req, result.data.token) },
+                message: result.message
+            });
+        }
+        catch (error) {
+            console.error('Error creating calendar feed:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Revoke a feed
+    router.delete('/:feedId', authenticateToken, async (req, res) => {
+        try {
+            const result = await calendarFeedService.revokeFeed(req.params.feedId, req.user.uid);
+            if (!result.success) {
+                return res.status(result.error === 'Calendar feed not found' ? 404 : 500).json(result);
+            }
+            res.json(result);
+        }
+        catch (error) {
+            console.error('Error revoking calendar feed:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    return router;
+}
+function createCalendarFeedDownloadRouter(calendarFeedService) {
+    // Mounted at /calendar-feeds; the token in the URL is the only credential
+    const router = (0, express_1.Router)();
+    router.get('/:token.ics', async (req, res) => {
+        try {
+            const feed = await calendarFeedService.renderFeed(req.params.token);
+            if (!feed.success) {
+                const status = feed.error === 'Calendar feed not found' ? 404 : feed.error === 'Access denied' ? 403 : 500;
+                return res.status(status).json(feed);
+            }
+            res.set('Content-Type', 'text/calendar; charset=utf-8');
+            res.set('Cache-Control', 'private, no-store');
+            res.send(feed.data);
+        }
+        catch (error) {
+            console.error('Error rendering calendar feed:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    return router;
+}
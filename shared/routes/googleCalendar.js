@@ -0,0 +1,161 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createGoogleCalendarRouter = createGoogleCalendarRouter;
+const express_1 = require("express");
+const config_1 = require("../config");
+// Where the browser lands after connecting, with the outcome in the query string
+const profileUrl = (outcome) => `${config_1.config.APP_URL || ''}/profile?googleCalendar=${outcome}`;
+function createGoogleCalendarRouter(syncService, authenticateToken) {
+    // Mounted at /google-calendar; each user manages their own connection
+    const router = (0, express_1.Router)();
+    const statusFor = (error) => {
+        switch (error) {
+            case 'Google Calendar is not configured':
+                return 503;
+            case 'Google Calendar is not connected':
+                return 404;
+            case 'Calendar not found':
+                return 400;
+            case 'Access denied':
+                return 403;
+            default:
+                return 500;
+        }
+    };
+    // The user's connection; data is null when they haven't connected
+    router.get('/', authenticateToken, async (req, res) => {
+        try {
+            const connection = await syncService.getConnection(req.user.uid);
+            if (!connection.success) {
+                return res.status(500).json(connection);
+            }
+            res.json(connection);
+        }
+        catch (error) {
+            console.error('Error getting Google Calendar connection:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // The Google consent page to send the browser to
+    router.get('/auth-url', authenticateToken, async (req, res) => {
+        try {
+            const url = await syncService.getAuthUrl(req.user.uid);
+            if (!url.success) {
+                return res.status(statusFor(url.error)).json(url);
+            }
+            res.json(url);
+        }
+        catch (error) {
+            console.error('Error creating Google authorization URL:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Google redirects here after consent; the state identifies the user, so no sign-in is needed
+    router.get('/callback', async (req, res) => {
+        try {
+            const { state, code, error } = req.query;
+            if (error || typeof state !== 'string' || typeof code !== 'string') {
+                return res.redirect(profileUrl('error'));
+            }
+            const connection = await syncService.completeAuthorization(state, code);
+            res.redirect(profileUrl(connection.success ? 'connected' : 'error'));
+        }
+        catch (error) {
+            console.error('Error completing Google authorization:', error);
+            res.redirect(profileUrl('error'));
+        }
+    });
+    // Calendars the user can sync to
+    router.get('/calendars', authenticateToken, async (req, res) => {
+        try {
+            const calendars = await syncService.listCalendars(req.user.uid);
+            if (!calendars.success) {
+                return res.status(statusFor(calendars.error)).json(calendars);
+            }
+            res.json(calendars);
+        }
+        catch (error) {
+            console.error('Error listing Google calendars:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Choose the calendar and the patients whose appointments are synced
+    router.put('/settings', authenticateToken, async (req, res) => {
+        try {
+            const { calendarId, patientIds } = req.body;
+            if (calendarId !== undefined && (typeof calendarId !== 'string' || !calendarId)) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'calendarId must be a calendar ID'
+                });
+            }
+            if (patientIds !== undefined &&
+                (!Array.isArray(patientIds) || !patientIds.every((id) => typeof id === 'string' && id))) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'patientIds must be a list of patient IDs'
+                });
+            }
+            const settings = {
+                ...(calendarId !== undefined ? { calendarId } : {}),
+                ...(patientIds !== undefined ? { patientIds } : {}),
+            };
+            const connection = await syncService.updateSettings(req.user.uid, settings);
+            if (!connection.success) {
+                return res.status(statusFor(connection.error)).json(connection);
+            }
+            res.json(connection);
+        }
+        catch (error) {
+            console.error('Error updating Google Calendar settings:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Sync now rather than waiting for the schedule
+    router.post('/sync', authenticateToken, async (req, res) => {
+        try {
+            const result = await syncService.syncUser(req.user.uid);
+            if (!result.success) {
+                return res.status(statusFor(result.error)).json(result);
+            }
+            res.json(result);
+        }
+        catch (error) {
+            console.error('Error syncing Google Calendar:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Disconnect and revoke access
+    router.delete('/', authenticateToken, async (req, res) => {
+        try {
+            const result = await syncService.disconnect(req.user.uid);
+            if (!result.success) {
+                return res.status(statusFor(result.error)).json(result);
+            }
+            res.json(result);
+        }
+        catch (error) {
+            console.error('Error disconnecting Google Calendar:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    return router;
+}
@@ -1,20 +1,66 @@
 import { Router } from 'express';
 import { MedicationService } from '../../shared/services/medicationService';
 import { AccessService } from '../../shared/services/accessService';
-import type { NewMedication, NewMedicationLog, NewMedicationReminder } from '../types';
+import { DoseEscalationService } from '../../shared/services/doseEscalationService';
+import type { DoseLimitWarning, NewMedication, NewMedicationLog, NewMedicationReminder } from '../types';
+import { validateDosingSchedule } from '../utils/dosingSchedule';
+import { isDoseTaken, validateMedicationLogStatus } from '../utils/medicationLog';
+import { validateRefill, validateSupplyFields } from '../utils/supplyForecast';
+import { HARD_DELETE_WINDOW_HOURS, isWithinHardDeleteWindow, validateDiscontinuation } from '../utils/medicationDiscontinuation';
+
+// Fields a client may set on each kind of record. Identity, lifecycle and
+// bookkeeping fields (patientId, version, discontinued*, supply alerts, ...)
+// are left to the server, and anything else in the body is dropped.
+const MEDICATION_FIELDS = [
+  'name', 'genericName', 'brandName', 'rxcui', 'ndc', 'dosage', 'strength', 'dosageForm', 'frequency',
+  'schedule', 'route', 'instructions', 'prescribedBy', 'prescribedDate', 'startDate', 'endDate', 'isPRN',
+  'maxDailyDose', 'sideEffects', 'notes', 'pharmacy', 'prescriptionNumber', 'refillsRemaining',
+  'quantityDispensed', 'lastFillDate', 'unitsPerDose'
+] as const;
+// Only /discontinue may stop a medication, so the reason is recorded and its reminders are turned off
+const DISCONTINUE_FIELDS = ['discontinuedAt', 'discontinuedBy', 'discontinueReason', 'discontinueNotes'];
+const LOG_FIELDS = ['takenAt', 'status', 'reasonCode', 'amount', 'overrideReason', 'notes'] as const;
+const REMINDER_FIELDS = ['reminderTime', 'days', 'isActive'] as const;
+
+const pickFields = <K extends string>(body: any, fields: readonly K[]): Partial<Record<K, any>> => {
+  const picked: Partial<Record<K, any>> = {};
+  for (const field of fields) {
+    if (body?.[field] !== undefined) {
+      picked[field] = body[field];
+    }
+  }
+  return picked;
+};
 
 export function createMedicationRouter(
   medicationService: MedicationService,
   accessService: AccessService,
-  authenticateToken: any
+  authenticateToken: any,
+  doseEscalationService?: DoseEscalationService
 ) {
-  const router = Router();
+  // Mounted at /medications for the signed-in user's own medications and at
+  // /patients/:patientId/medications for a patient they care for
+  const router = Router({ mergeParams: true });
+
+  // The patient named in the path, or the signed-in user
+  const getTargetPatientId = (req: any): string => req.params.patientId || req.user!.uid;
+
+  // Medications reached through /patients/:patientId must belong to that patient
+  const isForTargetPatient = (req: any, patientId: string): boolean =>
+    !req.params.patientId || req.params.patientId === patientId;
 
-  // Get all medications for the authenticated user's patient profile
+  // Get all medications for the target patient
   router.get('/', authenticateToken, async (req: any, res: any) => {
     try {
-      // For now, using user ID as patient ID - in a real app, you'd get the patient ID from the user
-      const patientId = req.user!.uid;
+      const patientId = getTargetPatientId(req);
+      const hasAccess = await accessService.can(req.user!.uid, patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
       const medications = await medicationService.getMedicationsByPatientId(patientId);
       
       if (!medications.success) {
@@ -31,25 +77,127 @@ export function createMedicationRouter(
     }
   });
 
+  // Get adherence for the target patient's medications
+  // Registered before '/:medicationId' so "adherence" is not treated as an ID
+  router.get('/adherence', authenticateToken, async (req: any, res: any) => {
+    try {
+      const patientId = getTargetPatientId(req);
+      const hasAccess = await accessService.can(req.user!.uid, patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const to = req.query.to ? new Date(req.query.to) : new Date();
+      const from = req.query.from ? new Date(req.query.from) : new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({
+          success: false,
+          error: 'from and to must be valid dates with from before to'
+        });
+      }
+
+      if (to.getTime() - from.getTime() > 366 * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({
+          success: false,
+          error: 'Adherence range cannot exceed one year'
+        });
+      }
+
+      const report = await medicationService.getAdherenceReport(patientId, from, to, {
+        medicationId: req.query.medicationId,
+      });
+
+      if (!report.success) {
+        return res.status(500).json(report);
+      }
+
+      if (req.query.byMedication !== 'true') {
+        delete report.data!.medications;
+      }
+
+      res.json(report);
+    } catch (error) {
+      console.error('Error getting adherence:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  if (doseEscalationService) {
+    // Get missed doses the authenticated user has been alerted about and not yet acknowledged
+    // Registered before '/:medicationId' so "escalations" is not treated as an ID
+    router.get('/escalations', authenticateToken, async (req: any, res: any) => {
+      try {
+        const escalations = await doseEscalationService.getOpenEscalationsForCaregiver(req.user!.uid);
+
+        if (!escalations.success) {
+          return res.status(500).json(escalations);
+        }
+
+        res.json(escalations);
+      } catch (error) {
+        console.error('Error getting escalations:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    });
+
+    // Acknowledge a missed dose so it stops escalating to other family members
+    router.post('/escalations/:escalationId/acknowledge', authenticateToken, async (req: any, res: any) => {
+      try {
+        const { escalationId } = req.params;
+
+        const existingEscalation = await doseEscalationService.getEscalationById(escalationId);
+        if (!existingEscalation.success || !existingEscalation.data) {
+          return res.status(404).json({ success: false, error: 'Escalation not found' });
+        }
+
+        const hasAccess = await accessService.can(req.user!.uid, existingEscalation.data.patientId, 'log_doses');
+        if (!hasAccess) {
+          return res.status(403).json({ success: false, error: 'Access denied' });
+        }
+
+        const escalation = await doseEscalationService.acknowledgeEscalation(escalationId, req.user!.uid);
+
+        if (!escalation.success) {
+          return res.status(409).json(escalation);
+        }
+
+        res.json(escalation);
+      } catch (error) {
+        console.error('Error acknowledging escalation:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    });
+  }
+
   // Get a specific medication by ID
   router.get('/:medicationId', authenticateToken, async (req: any, res: any) => {
     try {
       const { medicationId } = req.params;
       const medication = await medicationService.getMedicationById(medicationId);
       
-      if (!medication.success) {
-        return res.status(medication.data ? 500 : 404).json(medication);
+      if (!medication.success || !isForTargetPatient(req, medication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
       }
 
-      // Verify user has access to this medication
-      if (medication.data) {
-          const hasAccess = await accessService.canAccessPatient(req.user!.uid, medication.data.patientId);
-          if (!hasAccess) {
-              return res.status(403).json({
-                  success: false,
-                  error: 'Access denied'
-              });
-          }
+      const hasAccess = await accessService.can(req.user!.uid, medication.data!.patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
       }
 
       res.json(medication);
@@ -62,13 +210,24 @@ export function createMedicationRouter(
     }
   });
 
-  // Create a new medication
+  // Create a new medication for the target patient
   router.post('/', authenticateToken, async (req: any, res: any) => {
     try {
+      const patientId = getTargetPatientId(req);
+      const hasAccess = await accessService.can(req.user!.uid, patientId, 'edit_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
       const medicationData: NewMedication = {
-        patientId: req.user!.uid, // Using user ID as patient ID for now
-        ...req.body,
-      };
+        ...pickFields(req.body, MEDICATION_FIELDS),
+        // Medications are stopped through /discontinue so the reason is recorded
+        isActive: true,
+        patientId,
+      } as NewMedication;
 
       // Validate required fields
       if (!medicationData.name || !medicationData.dosage || !medicationData.frequency || !medicationData.instructions || !medicationData.prescribedBy) {
@@ -78,6 +237,24 @@ export function createMedicationRouter(
         });
       }
 
+      if (medicationData.schedule) {
+        const scheduleError = validateDosingSchedule(medicationData.schedule);
+        if (scheduleError) {
+          return res.status(400).json({
+            success: false,
+            error: `Invalid schedule: ${scheduleError}`
+          });
+        }
+      }
+
+      const supplyError = validateSupplyFields(medicationData);
+      if (supplyError) {
+        return res.status(400).json({
+          success: false,
+          error: supplyError
+        });
+      }
+
       const medication = await medicationService.createMedication(medicationData);
       
       if (!medication.success) {
@@ -99,22 +276,53 @@ export function createMedicationRouter(
     try {
       const { medicationId } = req.params;
       
-      // First check if medication exists and belongs to user
       const existingMedication = await medicationService.getMedicationById(medicationId);
       
-      if (!existingMedication.success) {
-        return res.status(404).json(existingMedication);
+      if (!existingMedication.success || !isForTargetPatient(req, existingMedication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
       }
 
-      // Only allow editing own medications for now, could be expanded to caregivers
-      if (existingMedication.data!.patientId !== req.user!.uid) {
+      const hasAccess = await accessService.can(req.user!.uid, existingMedication.data!.patientId, 'edit_medications');
+      if (!hasAccess) {
         return res.status(403).json({
           success: false,
           error: 'Access denied'
         });
       }
 
-      const updatedMedication = await medicationService.updateMedication(medicationId, req.body);
+      if ((req.body.isActive !== undefined && req.body.isActive !== existingMedication.data!.isActive) ||
+          DISCONTINUE_FIELDS.some(field => req.body[field] !== undefined)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Use POST /discontinue to stop a medication',
+          code: 'DISCONTINUE_REQUIRED'
+        });
+      }
+
+      const updates = pickFields(req.body, MEDICATION_FIELDS);
+
+      if (updates.schedule) {
+        const scheduleError = validateDosingSchedule(updates.schedule);
+        if (scheduleError) {
+          return res.status(400).json({
+            success: false,
+            error: `Invalid schedule: ${scheduleError}`
+          });
+        }
+      }
+
+      const supplyError = validateSupplyFields(updates);
+      if (supplyError) {
+        return res.status(400).json({
+          success: false,
+          error: supplyError
+        });
+      }
+
+      const updatedMedication = await medicationService.updateMedication(medicationId, updates, {
+        uid: req.user!.uid,
+        name: req.user!.name || req.user!.email,
+      });
       
       if (!updatedMedication.success) {
         return res.status(500).json(updatedMedication);
@@ -130,25 +338,34 @@ export function createMedicationRouter(
     }
   });
 
-  // Delete a medication
+  // Delete a medication added in error. Older medications are discontinued instead
+  // so their logs and history are kept.
   router.delete('/:medicationId', authenticateToken, async (req: any, res: any) => {
     try {
       const { medicationId } = req.params;
       
-      // First check if medication exists and belongs to user
       const existingMedication = await medicationService.getMedicationById(medicationId);
       
-      if (!existingMedication.success) {
-        return res.status(404).json(existingMedication);
+      if (!existingMedication.success || !isForTargetPatient(req, existingMedication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
       }
 
-      if (existingMedication.data!.patientId !== req.user!.uid) {
+      const hasAccess = await accessService.can(req.user!.uid, existingMedication.data!.patientId, 'edit_medications');
+      if (!hasAccess) {
         return res.status(403).json({
           success: false,
           error: 'Access denied'
         });
       }
 
+      if (!isWithinHardDeleteWindow(existingMedication.data!, new Date())) {
+        return res.status(409).json({
+          success: false,
+          error: `Medications can only be deleted within ${HARD_DELETE_WINDOW_HOURS} hours of being added; discontinue it instead`,
+          code: 'DISCONTINUE_REQUIRED'
+        });
+      }
+
       const result = await medicationService.deleteMedication(medicationId);
       
       if (!result.success) {
@@ -165,10 +382,192 @@ export function createMedicationRouter(
     }
   });
 
+  // Stop a medication, keeping its record, logs and history
+  router.post('/:medicationId/discontinue', authenticateToken, async (req: any, res: any) => {
+    try {
+      const { medicationId } = req.params;
+      const medication = await medicationService.getMedicationById(medicationId);
+
+      if (!medication.success || !isForTargetPatient(req, medication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
+      }
+
+      const hasAccess = await accessService.can(req.user!.uid, medication.data!.patientId, 'edit_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      if (!medication.data!.isActive) {
+        return res.status(409).json({
+          success: false,
+          error: 'Medication is already discontinued'
+        });
+      }
+
+      const discontinuationError = validateDiscontinuation(req.body, medication.data!);
+      if (discontinuationError) {
+        return res.status(400).json({
+          success: false,
+          error: discontinuationError
+        });
+      }
+
+      const result = await medicationService.discontinueMedication(
+        medication.data!,
+        {
+          reason: req.body.reason,
+          endDate: req.body.endDate,
+          notes: req.body.notes,
+        },
+        { uid: req.user!.uid, name: req.user!.name || req.user!.email }
+      );
+
+      if (!result.success) {
+        return res.status(500).json(result);
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error discontinuing medication:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Get a medication's change history, newest first
+  router.get('/:medicationId/history', authenticateToken, async (req: any, res: any) => {
+    try {
+      const { medicationId } = req.params;
+      const medication = await medicationService.getMedicationById(medicationId);
+
+      if (!medication.success || !isForTargetPatient(req, medication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
+      }
+
+      const hasAccess = await accessService.can(req.user!.uid, medication.data!.patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const history = await medicationService.getMedicationHistory(medicationId);
+
+      if (!history.success) {
+        return res.status(500).json(history);
+      }
+
+      res.json(history);
+    } catch (error) {
+      console.error('Error getting medication history:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Forecast when a medication's supply runs out
+  router.get('/:medicationId/supply', authenticateToken, async (req: any, res: any) => {
+    try {
+      const { medicationId } = req.params;
+      const medication = await medicationService.getMedicationById(medicationId);
+
+      if (!medication.success || !isForTargetPatient(req, medication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
+      }
+
+      const hasAccess = await accessService.can(req.user!.uid, medication.data!.patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const forecast = await medicationService.getSupplyForecast(medication.data!);
+
+      if (!forecast.success) {
+        return res.status(500).json(forecast);
+      }
+
+      res.json(forecast);
+    } catch (error) {
+      console.error('Error forecasting medication supply:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Record a refill of a medication
+  router.post('/:medicationId/refills', authenticateToken, async (req: any, res: any) => {
+    try {
+      const { medicationId } = req.params;
+      const medication = await medicationService.getMedicationById(medicationId);
+
+      if (!medication.success || !isForTargetPatient(req, medication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
+      }
+
+      const hasAccess = await accessService.can(req.user!.uid, medication.data!.patientId, 'edit_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const refillError = validateRefill(req.body, medication.data!.lastFillDate, new Date());
+      if (refillError) {
+        return res.status(400).json({
+          success: false,
+          error: refillError
+        });
+      }
+
+      const result = await medicationService.recordRefill(
+        medication.data!,
+        {
+          quantityDispensed: req.body.quantityDispensed,
+          fillDate: req.body.fillDate,
+        },
+        { uid: req.user!.uid, name: req.user!.name || req.user!.email }
+      );
+
+      if (!result.success) {
+        return res.status(500).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Error recording refill:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
   // Get active medications only
   router.get('/active/list', authenticateToken, async (req: any, res: any) => {
     try {
-      const patientId = req.user!.uid;
+      const patientId = getTargetPatientId(req);
+      const hasAccess = await accessService.can(req.user!.uid, patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
       const medications = await medicationService.getActiveMedicationsByPatientId(patientId);
       
       if (!medications.success) {
@@ -185,11 +584,39 @@ export function createMedicationRouter(
     }
   });
 
+  // Get discontinued medications
+  router.get('/inactive/list', authenticateToken, async (req: any, res: any) => {
+    try {
+      const patientId = getTargetPatientId(req);
+      const hasAccess = await accessService.can(req.user!.uid, patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
+      const medications = await medicationService.getInactiveMedicationsByPatientId(patientId);
+
+      if (!medications.success) {
+        return res.status(500).json(medications);
+      }
+
+      res.json(medications);
+    } catch (error) {
+      console.error('Error getting inactive medications:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
   // Search medications by name
   router.get('/search/:searchTerm', authenticateToken, async (req: any, res: any) => {
     try {
       const { searchTerm } = req.params;
-      const patientId = req.user!.uid;
+      const patientId = getTargetPatientId(req);
       
       if (!searchTerm || searchTerm.trim().length < 2) {
         return res.status(400).json({
@@ -198,6 +625,14 @@ export function createMedicationRouter(
         });
       }
 
+      const hasAccess = await accessService.can(req.user!.uid, patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
       const medications = await medicationService.searchMedicationsByName(patientId, searchTerm);
       
       if (!medications.success) {
@@ -216,10 +651,18 @@ export function createMedicationRouter(
 
   // Medication Log Routes
 
-  // Get all medication logs for the user
+  // Get all medication logs for the target patient
   router.get('/logs/all', authenticateToken, async (req: any, res: any) => {
     try {
-      const patientId = req.user!.uid;
+      const patientId = getTargetPatientId(req);
+      const hasAccess = await accessService.can(req.user!.uid, patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
       const logs = await medicationService.getMedicationLogsByPatientId(patientId);
       
       if (!logs.success) {
@@ -241,21 +684,18 @@ export function createMedicationRouter(
     try {
       const { medicationId } = req.params;
       
-      // First verify the medication belongs to the user
       const medication = await medicationService.getMedicationById(medicationId);
       
-      if (!medication.success) {
-        return res.status(404).json(medication);
+      if (!medication.success || !isForTargetPatient(req, medication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
       }
 
-      if (medication.data) {
-          const hasAccess = await accessService.canAccessPatient(req.user!.uid, medication.data.patientId);
-          if (!hasAccess) {
-              return res.status(403).json({
-                  success: false,
-                  error: 'Access denied'
-              });
-          }
+      const hasAccess = await accessService.can(req.user!.uid, medication.data!.patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
       }
 
       const logs = await medicationService.getMedicationLogsByMedicationId(medicationId);
@@ -279,14 +719,15 @@ export function createMedicationRouter(
     try {
       const { medicationId } = req.params;
       
-      // First verify the medication belongs to the user
       const medication = await medicationService.getMedicationById(medicationId);
       
-      if (!medication.success) {
-        return res.status(404).json(medication);
+      if (!medication.success || !isForTargetPatient(req, medication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
       }
 
-      if (medication.data!.patientId !== req.user!.uid) {
+      // Family members may record a dose they gave or saw taken
+      const hasAccess = await accessService.can(req.user!.uid, medication.data!.patientId, 'log_doses');
+      if (!hasAccess) {
         return res.status(403).json({
           success: false,
           error: 'Access denied'
@@ -294,11 +735,11 @@ export function createMedicationRouter(
       }
 
       const logData: NewMedicationLog = {
+        ...pickFields(req.body, LOG_FIELDS),
+        takenBy: req.user!.uid,
         medicationId,
-        patientId: req.user!.uid,
-        takenBy: req.user!.uid, // Assuming the user is taking their own medication
-        ...req.body,
-      };
+        patientId: medication.data!.patientId,
+      } as NewMedicationLog;
 
       // Validate required fields
       if (!logData.takenAt) {
@@ -308,13 +749,67 @@ export function createMedicationRouter(
         });
       }
 
+      const statusError = validateMedicationLogStatus(logData);
+      if (statusError) {
+        return res.status(400).json({
+          success: false,
+          error: statusError
+        });
+      }
+
+      if (logData.overrideReason !== undefined && (typeof logData.overrideReason !== 'string' || !logData.overrideReason.trim())) {
+        return res.status(400).json({
+          success: false,
+          error: 'overrideReason must be a non-empty string'
+        });
+      }
+
+      // Doses over the maximum daily dose are refused unless the caller gives a reason
+      const doseCheck = isDoseTaken(logData)
+        ? await medicationService.checkDailyDoseLimit(medication.data!, logData)
+        : { success: true, data: null };
+
+      if (!doseCheck.success) {
+        return res.status(500).json(doseCheck);
+      }
+
+      const check = doseCheck.data;
+      if (check?.exceeded && !logData.overrideReason) {
+        return res.status(409).json({
+          success: false,
+          error: `This dose would exceed the maximum daily dose of ${medication.data!.maxDailyDose}. Provide an overrideReason to log it anyway.`,
+          code: 'MAX_DAILY_DOSE_EXCEEDED',
+          data: check
+        });
+      }
+
+      if (!check?.exceeded) {
+        delete logData.overrideReason;
+      }
+
       const log = await medicationService.createMedicationLog(logData);
       
       if (!log.success) {
         return res.status(500).json(log);
       }
 
-      res.status(201).json(log);
+      let warning: DoseLimitWarning | undefined;
+      if (check?.exceeded) {
+        await medicationService.recordDoseLimitOverride(req.user!.uid, log.data!, check);
+        warning = {
+          code: 'MAX_DAILY_DOSE_OVERRIDDEN',
+          message: `Logged over the maximum daily dose of ${medication.data!.maxDailyDose}`,
+          check
+        };
+      } else if (check && check.taken + check.requested === check.limit) {
+        warning = {
+          code: 'MAX_DAILY_DOSE_REACHED',
+          message: `This dose reaches the maximum daily dose of ${medication.data!.maxDailyDose}`,
+          check
+        };
+      }
+
+      res.status(201).json(warning ? { ...log, warning } : log);
     } catch (error) {
       console.error('Error creating medication log:', error);
       res.status(500).json({ 
@@ -336,21 +831,76 @@ export function createMedicationRouter(
       }
 
       const medication = await medicationService.getMedicationById(log.data.medicationId);
-      if (!medication.success || !medication.data) {
+      if (!medication.success || !medication.data || !isForTargetPatient(req, medication.data.patientId)) {
            return res.status(404).json({ success: false, error: 'Medication not found for this log' });
       }
 
-      const hasAccess = await accessService.canAccessPatient(req.user!.uid, medication.data.patientId);
+      const hasAccess = await accessService.can(req.user!.uid, medication.data.patientId, 'log_doses');
       if (!hasAccess) {
           return res.status(403).json({ success: false, error: 'Access denied' });
       }
 
-      const updatedLog = await medicationService.updateMedicationLog(logId, req.body);
+      const updates = pickFields(req.body, LOG_FIELDS);
+
+      // Check the log as it will be after the update; changing the status away
+      // from partial drops the recorded amount
+      const status = updates.status ?? log.data.status;
+      const statusError = validateMedicationLogStatus({
+        status,
+        reasonCode: updates.reasonCode ?? log.data.reasonCode,
+        amount: updates.amount ?? (status === 'partial' ? log.data.amount : undefined),
+      });
+      if (statusError) {
+        return res.status(400).json({ success: false, error: statusError });
+      }
+
+      if (updates.overrideReason !== undefined && (typeof updates.overrideReason !== 'string' || !updates.overrideReason.trim())) {
+        return res.status(400).json({
+          success: false,
+          error: 'overrideReason must be a non-empty string'
+        });
+      }
+
+      // A change that makes the log count toward the daily total (or changes how
+      // much or when) is checked against the maximum daily dose like a new log
+      const updated = {
+        takenAt: updates.takenAt ?? log.data.takenAt,
+        status,
+        amount: updates.amount ?? (status === 'partial' ? log.data.amount : undefined),
+      };
+      const affectsDailyTotal = updates.status !== undefined || updates.takenAt !== undefined || updates.amount !== undefined;
+      const doseCheck = affectsDailyTotal && isDoseTaken(updated)
+        ? await medicationService.checkDailyDoseLimit(medication.data, updated, logId)
+        : { success: true, data: null };
+
+      if (!doseCheck.success) {
+        return res.status(500).json(doseCheck);
+      }
+
+      const check = doseCheck.data;
+      if (check?.exceeded && !updates.overrideReason) {
+        return res.status(409).json({
+          success: false,
+          error: `This dose would exceed the maximum daily dose of ${medication.data.maxDailyDose}. Provide an overrideReason to log it anyway.`,
+          code: 'MAX_DAILY_DOSE_EXCEEDED',
+          data: check
+        });
+      }
+
+      if (affectsDailyTotal && !check?.exceeded) {
+        delete updates.overrideReason;
+      }
+
+      const updatedLog = await medicationService.updateMedicationLog(logId, updates);
       
       if (!updatedLog.success) {
         return res.status(404).json(updatedLog);
       }
 
+      if (check?.exceeded) {
+        await medicationService.recordDoseLimitOverride(req.user!.uid, updatedLog.data!, check);
+      }
+
       res.json(updatedLog);
     } catch (error) {
       console.error('Error updating medication log:', error);
@@ -373,11 +923,11 @@ export function createMedicationRouter(
       }
 
       const medication = await medicationService.getMedicationById(log.data.medicationId);
-      if (!medication.success || !medication.data) {
+      if (!medication.success || !medication.data || !isForTargetPatient(req, medication.data.patientId)) {
            return res.status(404).json({ success: false, error: 'Medication not found for this log' });
       }
 
-      const hasAccess = await accessService.canAccessPatient(req.user!.uid, medication.data.patientId);
+      const hasAccess = await accessService.can(req.user!.uid, medication.data.patientId, 'log_doses');
       if (!hasAccess) {
           return res.status(403).json({ success: false, error: 'Access denied' });
       }
@@ -400,10 +950,18 @@ export function createMedicationRouter(
 
   // Medication Reminder Routes
 
-  // Get all reminders for the authenticated user
+  // Get all reminders for the target patient
   router.get('/reminders/all', authenticateToken, async (req: any, res: any) => {
     try {
-      const patientId = req.user!.uid;
+      const patientId = getTargetPatientId(req);
+      const hasAccess = await accessService.can(req.user!.uid, patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+      }
+
       const reminders = await medicationService.getMedicationRemindersByPatientId(patientId);
       
       if (!reminders.success) {
@@ -427,15 +985,13 @@ export function createMedicationRouter(
       
       // Verify medication access
       const medication = await medicationService.getMedicationById(medicationId);
-      if (!medication.success) {
-        return res.status(404).json(medication);
+      if (!medication.success || !isForTargetPatient(req, medication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
       }
 
-      if (medication.data) {
-          const hasAccess = await accessService.canAccessPatient(req.user!.uid, medication.data.patientId);
-          if (!hasAccess) {
-              return res.status(403).json({ success: false, error: 'Access denied' });
-          }
+      const hasAccess = await accessService.can(req.user!.uid, medication.data!.patientId, 'view_medications');
+      if (!hasAccess) {
+        return res.status(403).json({ success: false, error: 'Access denied' });
       }
 
       const reminders = await medicationService.getMedicationRemindersByMedicationId(medicationId);
@@ -461,22 +1017,20 @@ export function createMedicationRouter(
       
       // Verify medication access
       const medication = await medicationService.getMedicationById(medicationId);
-      if (!medication.success) {
-        return res.status(404).json(medication);
+      if (!medication.success || !isForTargetPatient(req, medication.data!.patientId)) {
+        return res.status(404).json({ success: false, error: 'Medication not found' });
       }
-      
-      if (medication.data) {
-          const hasAccess = await accessService.canAccessPatient(req.user!.uid, medication.data.patientId);
-          if (!hasAccess) {
-              return res.status(403).json({ success: false, error: 'Access denied' });
-          }
+
+      const hasAccess = await accessService.can(req.user!.uid, medication.data!.patientId, 'edit_medications');
+      if (!hasAccess) {
+        return res.status(403).json({ success: false, error: 'Access denied' });
       }
 
       const reminderData: NewMedicationReminder = {
+        ...pickFields(req.body, REMINDER_FIELDS),
         medicationId,
-        patientId: req.user!.uid,
-        ...req.body,
-      };
+        patientId: medication.data!.patientId,
+      } as NewMedicationReminder;
 
       // Validate required fields
       if (!reminderData.reminderTime || !reminderData.days || reminderData.days.length === 0) {
@@ -508,16 +1062,16 @@ export function createMedicationRouter(
       const { reminderId } = req.params;
       
       const existingReminder = await medicationService.getMedicationReminderById(reminderId);
-      if (!existingReminder.success || !existingReminder.data) {
+      if (!existingReminder.success || !existingReminder.data || !isForTargetPatient(req, existingReminder.data.patientId)) {
           return res.status(404).json({ success: false, error: 'Reminder not found' });
       }
 
-      const hasAccess = await accessService.canAccessPatient(req.user!.uid, existingReminder.data.patientId);
+      const hasAccess = await accessService.can(req.user!.uid, existingReminder.data.patientId, 'edit_medications');
       if (!hasAccess) {
           return res.status(403).json({ success: false, error: 'Access denied' });
       }
 
-      const updatedReminder = await medicationService.updateMedicationReminder(reminderId, req.body);
+      const updatedReminder = await medicationService.updateMedicationReminder(reminderId, pickFields(req.body, REMINDER_FIELDS));
       
       if (!updatedReminder.success) {
         return res.status(404).json(updatedReminder);
@@ -539,11 +1093,11 @@ export function createMedicationRouter(
       const { reminderId } = req.params;
       
       const existingReminder = await medicationService.getMedicationReminderById(reminderId);
-      if (!existingReminder.success || !existingReminder.data) {
+      if (!existingReminder.success || !existingReminder.data || !isForTargetPatient(req, existingReminder.data.patientId)) {
           return res.status(404).json({ success: false, error: 'Reminder not found' });
       }
 
-      const hasAccess = await accessService.canAccessPatient(req.user!.uid, existingReminder.data.patientId);
+      const hasAccess = await accessService.can(req.user!.uid, existingReminder.data.patientId, 'edit_medications');
       if (!hasAccess) {
           return res.status(403).json({ success: false, error: 'Access denied' });
       }
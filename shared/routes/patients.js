@@ -2,8 +2,25 @@
 Object.defineProperty(exports, "__esModule", { value: true });
 exports.createPatientRouter = createPatientRouter;
 const express_1 = require("express");
-function createPatientRouter(patientService, accessService, authenticateToken) {
+const timezone_1 = require("../utils/timezone");
+function createPatientRouter(patientService, accessService, authenticateToken, medicationService) {
     const router = (0, express_1.Router)();
+    const validateTimeZone = (req, res) => {
+        if (req.body.timezone !== undefined && !(0, timezone_1.isValidTimeZone)(req.body.timezone)) {
+            res.status(400).json({
+                success: false,
+                error: 'timezone must be an IANA timezone name, e.g. "America/Chicago"'
+            });
+            return false;
+        }
+        return true;
+    };
+    // Reminder firing times depend on the patient's timezone
+    const rescheduleReminders = async (userId) => {
+        if (medicationService) {
+            await medicationService.rescheduleRemindersForPatient(userId);
+        }
+    };
     // Get patient profile
     router.get('/profile', authenticateToken, async (req, res) => {
         try {
@@ -24,6 +41,9 @@ function createPatientRouter(patientService, accessService, authenticateToken) {
     // Create patient profile
     router.post('/profile', authenticateToken, async (req, res) => {
         try {
+            if (!validateTimeZone(req, res)) {
+                return;
+            }
             const patientData = {
                 userId: req.user.uid,
                 ...req.body,
@@ -32,6 +52,9 @@ function createPatientRouter(patientService, accessService, authenticateToken) {
             if (!patient.success) {
                 return res.status(500).json(patient);
             }
+            if (patientData.timezone) {
+                await rescheduleReminders(req.user.uid);
+            }
             res.status(201).json(patient);
         }
         catch (error) {
@@ -45,6 +68,9 @@ function createPatientRouter(patientService, accessService, authenticateToken) {
     // Update patient profile
     router.put('/profile', authenticateToken, async (req, res) => {
         try {
+            if (!validateTimeZone(req, res)) {
+                return;
+            }
             const patient = await patientService.getPatientByUserId(req.user.uid);
             if (!patient.success) {
                 return res.status(500).json(patient);
@@ -59,12 +85,18 @@ function createPatientRouter(patientService, accessService, authenticateToken) {
                 if (!newPatient.success) {
                     return res.status(500).json(newPatient);
                 }
+                if (patientData.timezone) {
+                    await rescheduleReminders(req.user.uid);
+                }
                 return res.status(201).json(newPatient);
             }
             const updatedPatient = await patientService.updatePatient(patient.data.id, req.body);
             if (!updatedPatient.success) {
                 return res.status(500).json(updatedPatient);
             }
+            if (req.body.timezone !== undefined && req.body.timezone !== patient.data.timezone) {
+                await rescheduleReminders(req.user.uid);
+            }
             res.json(updatedPatient);
         }
         catch (error) {
@@ -79,7 +111,11 @@ function createPatientRouter(patientService, accessService, authenticateToken) {
     router.get('/:patientId', authenticateToken, async (req, res) => {
         try {
             const { patientId } = req.params;
-            const patient = await patientService.getPatientById(patientId);
+            let patient = await patientService.getPatientById(patientId);
+            // Medications and family groups refer to patients by their user ID
+            if (patient.success && !patient.data) {
+                patient = await patientService.getPatientByUserId(patientId);
+            }
             if (!patient.success) {
                 return res.status(500).json(patient);
             }
@@ -92,7 +128,7 @@ function createPatientRouter(patientService, accessService, authenticateToken) {
             // Check if current user has access to this patient
             // Use the patient's userId if available, or just the patientId if that's what we have
             const targetUserId = patient.data.userId || patientId;
-            const hasAccess = await accessService.canAccessPatient(req.user.uid, targetUserId);
+            const hasAccess = await accessService.can(req.user.uid, targetUserId, 'view_profile');
             if (!hasAccess) {
                 return res.status(403).json({
                     success: false,
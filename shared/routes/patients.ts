@@ -1,15 +1,36 @@
 import { Router } from 'express';
 import { PatientService } from '../../shared/services/patientService';
 import { AccessService } from '../../shared/services/accessService';
+import { MedicationService } from '../../shared/services/medicationService';
+import { isValidTimeZone } from '../utils/timezone';
 import type { NewPatient } from '../types';
 
 export function createPatientRouter(
   patientService: PatientService,
   accessService: AccessService,
-  authenticateToken: any
+  authenticateToken: any,
+  medicationService?: MedicationService
 ) {
   const router = Router();
 
+  const validateTimeZone = (req: any, res: any): boolean => {
+    if (req.body.timezone !== undefined && !isValidTimeZone(req.body.timezone)) {
+      res.status(400).json({
+        success: false,
+        error: 'timezone must be an IANA timezone name, e.g. "America/Chicago"'
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // Reminder firing times depend on the patient's timezone
+  const rescheduleReminders = async (userId: string) => {
+    if (medicationService) {
+      await medicationService.rescheduleRemindersForPatient(userId);
+    }
+  };
+
   // Get patient profile
   router.get('/profile', authenticateToken, async (req: any, res: any) => {
     try {
@@ -32,6 +53,10 @@ export function createPatientRouter(
   // Create patient profile
   router.post('/profile', authenticateToken, async (req: any, res: any) => {
     try {
+      if (!validateTimeZone(req, res)) {
+        return;
+      }
+
       const patientData: NewPatient = {
         userId: req.user!.uid,
         ...req.body,
@@ -43,6 +68,10 @@ export function createPatientRouter(
         return res.status(500).json(patient);
       }
 
+      if (patientData.timezone) {
+        await rescheduleReminders(req.user!.uid);
+      }
+
       res.status(201).json(patient);
     } catch (error) {
       console.error('Error creating patient profile:', error);
@@ -56,6 +85,10 @@ export function createPatientRouter(
   // Update patient profile
   router.put('/profile', authenticateToken, async (req: any, res: any) => {
     try {
+      if (!validateTimeZone(req, res)) {
+        return;
+      }
+
       const patient = await patientService.getPatientByUserId(req.user!.uid);
       
       if (!patient.success) {
@@ -75,6 +108,10 @@ export function createPatientRouter(
           return res.status(500).json(newPatient);
         }
 
+        if (patientData.timezone) {
+          await rescheduleReminders(req.user!.uid);
+        }
+
         return res.status(201).json(newPatient);
       }
 
@@ -84,6 +121,10 @@ export function createPatientRouter(
         return res.status(500).json(updatedPatient);
       }
 
+      if (req.body.timezone !== undefined && req.body.timezone !== patient.data.timezone) {
+        await rescheduleReminders(req.user!.uid);
+      }
+
       res.json(updatedPatient);
     } catch (error) {
       console.error('Error updating patient profile:', error);
@@ -98,7 +139,12 @@ export function createPatientRouter(
   router.get('/:patientId', authenticateToken, async (req: any, res: any) => {
     try {
       const { patientId } = req.params;
-      const patient = await patientService.getPatientById(patientId);
+      let patient = await patientService.getPatientById(patientId);
+
+      // Medications and family groups refer to patients by their user ID
+      if (patient.success && !patient.data) {
+        patient = await patientService.getPatientByUserId(patientId);
+      }
       
       if (!patient.success) {
         return res.status(500).json(patient);
@@ -114,7 +160,7 @@ export function createPatientRouter(
       // Check if current user has access to this patient
       // Use the patient's userId if available, or just the patientId if that's what we have
       const targetUserId = patient.data.userId || patientId;
-      const hasAccess = await accessService.canAccessPatient(req.user!.uid, targetUserId);
+      const hasAccess = await accessService.can(req.user!.uid, targetUserId, 'view_profile');
       
       if (!hasAccess) {
           return res.status(403).json({
@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import { ProviderLinkService } from '../../shared/services/providerLinkService';
+
+export function createProviderRouter(
+  providerLinkService: ProviderLinkService,
+  authenticateToken: any
+) {
+  // The signed-in user is the patient, except under /patients where they are the provider
+  const router = Router();
+
+  const statusFor = (error?: string): number => {
+    switch (error) {
+      case 'Provider not found':
+      case 'Provider link not found':
+        return 404;
+      case 'User is not a healthcare provider':
+        return 400;
+      case 'Provider already linked':
+        return 409;
+      default:
+        return 500;
+    }
+  };
+
+  // List the providers linked to the signed-in patient
+  router.get('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      const links = await providerLinkService.getProvidersForPatient(req.user!.uid);
+      if (!links.success) {
+        return res.status(500).json(links);
+      }
+
+      res.json(links);
+    } catch (error) {
+      console.error('Error getting providers:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // Approve a provider, by the email they signed up with
+  router.post('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      const { providerEmail } = req.body;
+      if (typeof providerEmail !== 'string' || !providerEmail.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'providerEmail is required'
+        });
+      }
+
+      const link = await providerLinkService.linkProvider(req.user!.uid, providerEmail);
+      if (!link.success) {
+        return res.status(statusFor(link.error)).json(link);
+      }
+
+      res.status(201).json(link);
+    } catch (error) {
+      console.error('Error linking provider:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // List the patients linked to the signed-in provider
+  router.get('/patients', authenticateToken, async (req: any, res: any) => {
+    try {
+      const links = await providerLinkService.getPatientsForProvider(req.user!.uid);
+      if (!links.success) {
+        return res.status(500).json(links);
+      }
+
+      res.json(links);
+    } catch (error) {
+      console.error('Error getting provider patients:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // The provider ends their access to a patient
+  router.delete('/patients/:patientId', authenticateToken, async (req: any, res: any) => {
+    try {
+      const result = await providerLinkService.unlinkProvider(req.user!.uid, req.params.patientId, req.user!.uid);
+      if (!result.success) {
+        return res.status(statusFor(result.error)).json(result);
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error unlinking patient:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // The patient removes a provider's access
+  router.delete('/:providerId', authenticateToken, async (req: any, res: any) => {
+    try {
+      const result = await providerLinkService.unlinkProvider(req.params.providerId, req.user!.uid, req.user!.uid);
+      if (!result.success) {
+        return res.status(statusFor(result.error)).json(result);
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error unlinking provider:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  return router;
+}
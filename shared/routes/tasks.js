@@ -0,0 +1,346 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createTaskRouter = createTaskRouter;
+const express_1 = require("express");
+const tasks_1 = require("../utils/tasks");
+const taskRecurrence_1 = require("../utils/taskRecurrence");
+function createTaskRouter(taskService, accessService, authenticateToken) {
+    // Mounted at /patients/:patientId/tasks; reading tasks needs view_tasks,
+    // and creating, changing, completing or deleting them needs manage_tasks
+    const router = (0, express_1.Router)({ mergeParams: true });
+    const canAccess = (req) => accessService.can(req.user.uid, req.params.patientId, 'view_tasks');
+    const canManage = (req) => accessService.can(req.user.uid, req.params.patientId, 'manage_tasks');
+    const statusFor = (error) => {
+        switch (error) {
+            case 'Task not found':
+            case 'Recurring task not found':
+                return 404;
+            case "Assignee is not in the patient's family group":
+            case 'Task is not part of a recurring series':
+                return 400;
+            default:
+                return 500;
+        }
+    };
+    // Reads which instances of a recurring task an edit applies to
+    const scopeOf = (value) => value === undefined || value === 'this' ? 'this' : value === 'future' ? 'future' : null;
+    // Loads the task in the path, sending 404 if it belongs to another patient
+    const findTask = async (req, res) => {
+        const task = await taskService.getTaskById(req.params.taskId);
+        if (!task.success || task.data.patientId !== req.params.patientId) {
+            res.status(task.success ? 404 : statusFor(task.error)).json({
+                success: false,
+                error: task.success ? 'Task not found' : task.error
+            });
+            return null;
+        }
+        return task.data;
+    };
+    // List the patient's tasks, filtered by assignee, status and due date
+    router.get('/', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canAccess(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const { filters, error } = (0, tasks_1.parseTaskFilters)(req.query);
+            if (error) {
+                return res.status(400).json({
+                    success: false,
+                    error
+                });
+            }
+            const tasks = await taskService.getTasksByPatientId(req.params.patientId, filters);
+            if (!tasks.success) {
+                return res.status(500).json(tasks);
+            }
+            res.json(tasks);
+        }
+        catch (error) {
+            console.error('Error getting tasks:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Create a task
+    router.post('/', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canManage(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const validationError = (0, tasks_1.validateTask)(req.body, true);
+            if (validationError) {
+                return res.status(400).json({
+                    success: false,
+                    error: validationError
+                });
+            }
+            const taskData = {
+                patientId: req.params.patientId,
+                title: req.body.title.trim(),
+                description: req.body.description || '',
+                priority: req.body.priority || 'medium',
+                status: req.body.status || 'pending',
+                dueDate: new Date(req.body.dueDate),
+                ...(req.body.assignedTo ? { assignedTo: req.body.assignedTo } : {}),
+            };
+            const task = await taskService.createTask(taskData, req.user.uid);
+            if (!task.success) {
+                return res.status(statusFor(task.error)).json(task);
+            }
+            res.status(201).json(task);
+        }
+        catch (error) {
+            console.error('Error creating task:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // List the patient's recurring tasks
+    router.get('/series', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canAccess(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const series = await taskService.getSeriesByPatientId(req.params.patientId);
+            if (!series.success) {
+                return res.status(500).json(series);
+            }
+            res.json(series);
+        }
+        catch (error) {
+            console.error('Error getting recurring tasks:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Create a recurring task; its instances for the next few weeks are created with it
+    router.post('/series', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canManage(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const validationError = (0, taskRecurrence_1.validateTaskSeries)(req.body, true);
+            if (validationError) {
+                return res.status(400).json({
+                    success: false,
+                    error: validationError
+                });
+            }
+            const seriesData = {
+                patientId: req.params.patientId,
+                title: req.body.title.trim(),
+                description: req.body.description || '',
+                priority: req.body.priority || 'medium',
+                recurrence: req.body.recurrence,
+                time: req.body.time,
+                startDate: new Date(req.body.startDate),
+                ...(req.body.endDate ? { endDate: new Date(req.body.endDate) } : {}),
+                ...(req.body.assignedTo ? { assignedTo: req.body.assignedTo } : {}),
+            };
+            const series = await taskService.createSeries(seriesData, req.user.uid);
+            if (!series.success) {
+                return res.status(statusFor(series.error)).json(series);
+            }
+            res.status(201).json(series);
+        }
+        catch (error) {
+            console.error('Error creating recurring task:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Get a task
+    router.get('/:taskId', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canAccess(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const task = await findTask(req, res);
+            if (!task) {
+                return;
+            }
+            res.json({ success: true, data: task });
+        }
+        catch (error) {
+            console.error('Error getting task:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Edits a recurring task from the instance in the path on
+    const updateFuture = async (req, res, body) => {
+        if (body.status !== undefined || body.dueDate !== undefined) {
+            return res.status(400).json({
+                success: false,
+                error: 'status and dueDate can only be changed on a single task'
+            });
+        }
+        const validationError = (0, taskRecurrence_1.validateTaskSeries)(body, false);
+        if (validationError) {
+            return res.status(400).json({
+                success: false,
+                error: validationError
+            });
+        }
+        if (!(await findTask(req, res))) {
+            return;
+        }
+        const updates = {};
+        for (const field of ['assignedTo', 'title', 'description', 'priority', 'recurrence', 'time']) {
+            if (body[field] !== undefined) {
+                updates[field] = body[field];
+            }
+        }
+        if (body.endDate !== undefined) {
+            updates.endDate = body.endDate === null ? null : new Date(body.endDate);
+        }
+        const series = await taskService.updateFutureTasks(req.params.taskId, updates, req.user.uid);
+        if (!series.success) {
+            return res.status(statusFor(series.error)).json(series);
+        }
+        res.json(series);
+    };
+    // Update a task: reassign it, change its status or edit its details. For an
+    // instance of a recurring task, scope "future" edits the series from this
+    // instance on instead.
+    router.put('/:taskId', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canManage(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const { scope: rawScope, ...body } = req.body;
+            const scope = scopeOf(rawScope);
+            if (!scope) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'scope must be one of: this, future'
+                });
+            }
+            if (scope === 'future') {
+                return updateFuture(req, res, body);
+            }
+            const validationError = (0, tasks_1.validateTask)(body, false);
+            if (validationError) {
+                return res.status(400).json({
+                    success: false,
+                    error: validationError
+                });
+            }
+            if (!(await findTask(req, res))) {
+                return;
+            }
+            const updates = {};
+            for (const field of ['assignedTo', 'title', 'description', 'priority', 'status']) {
+                if (body[field] !== undefined) {
+                    updates[field] = body[field];
+                }
+            }
+            if (body.dueDate !== undefined) {
+                updates.dueDate = new Date(body.dueDate);
+            }
+            const task = await taskService.updateTask(req.params.taskId, updates, req.user.uid);
+            if (!task.success) {
+                return res.status(statusFor(task.error)).json(task);
+            }
+            res.json(task);
+        }
+        catch (error) {
+            console.error('Error updating task:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Mark a task done. Other instances of a recurring task stay open.
+    router.post('/:taskId/complete', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canManage(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            if (!(await findTask(req, res))) {
+                return;
+            }
+            const task = await taskService.completeTask(req.params.taskId, req.user.uid);
+            if (!task.success) {
+                return res.status(statusFor(task.error)).json(task);
+            }
+            res.json(task);
+        }
+        catch (error) {
+            console.error('Error completing task:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    // Delete a task. For an instance of a recurring task, ?scope=future ends
+    // the series at this instance.
+    router.delete('/:taskId', authenticateToken, async (req, res) => {
+        try {
+            if (!(await canManage(req))) {
+                return res.status(403).json({
+                    success: false,
+                    error: 'Access denied'
+                });
+            }
+            const scope = scopeOf(req.query.scope);
+            if (!scope) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'scope must be one of: this, future'
+                });
+            }
+            if (!(await findTask(req, res))) {
+                return;
+            }
+            const result = scope === 'future'
+                ? await taskService.deleteFutureTasks(req.params.taskId, req.user.uid)
+                : await taskService.deleteTask(req.params.taskId, req.user.uid);
+            if (!result.success) {
+                return res.status(statusFor(result.error)).json(result);
+            }
+            res.json(result);
+        }
+        catch (error) {
+            console.error('Error deleting task:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    });
+    return router;
+}
@@ -0,0 +1,230 @@
+import { AccessGrantService, BreakGlassNotifier } from '../accessGrantService';
+import { AuditService } from '../auditService';
+import { FamilyGroupService } from '../familyGroupService';
+import { AuditAction, AuditResult } from '../../types';
+import { mockConsole } from '../../__tests__/testUtils';
+
+mockConsole();
+
+// In-memory Firestore covering the reads and writes grants make
+const createFakeDb = (collections: Record<string, Record<string, any>>) => {
+  let nextId = 1;
+
+  const docRef = (collection: string, id: string) => ({
+    id,
+    get: async () => ({
+      exists: !!collections[collection]?.[id],
+      id,
+      data: () => collections[collection]?.[id],
+    }),
+    update: async (updates: any) => {
+      Object.assign(collections[collection][id], updates);
+    },
+  });
+
+  return {
+    collection: jest.fn((collection: string) => {
+      const filters: Array<(data: any) => boolean> = [];
+      const query: any = {
+        where: jest.fn((field: string, _op: string, value: any) => {
+          filters.push(data => data[field] === value);
+          return query;
+        }),
+        orderBy: jest.fn(() => query),
+        get: jest.fn(async () => {
+          const docs = Object.entries(collections[collection] || {})
+            .filter(([, data]) => filters.every(filter => filter(data)))
+            .map(([id, data]) => ({ id, data: () => data }));
+          return { docs, empty: docs.length === 0 };
+        }),
+        add: jest.fn(async (data: any) => {
+          const id = `grant-${nextId++}`;
+          collections[collection] = { ...collections[collection], [id]: data };
+          return { id };
+        }),
+        doc: (id: string) => docRef(collection, id),
+      };
+      return query;
+    }),
+  };
+};
+
+describe('AccessGrantService', () => {
+  const now = new Date('2024-03-10T12:00:00Z');
+  let collections: Record<string, Record<string, any>>;
+  let auditService: jest.Mocked<AuditService>;
+  let familyGroupService: jest.Mocked<FamilyGroupService>;
+  let notifier: jest.Mocked<BreakGlassNotifier>;
+  let service: AccessGrantService;
+
+  beforeEach(() => {
+    collections = {
+      users: {
+        'patient-1': { name: 'Dad', email: 'dad@example.com' },
+        'nurse-1': { name: 'Nurse Jo', email: 'jo@hospital.example', userType: 'healthcare_provider' },
+        // Users can set their own userType, so it doesn't make them a provider
+        'neighbour-1': { name: 'Sam', email: 'sam@example.com', userType: 'healthcare_provider' },
+      },
+      healthcare_providers: {
+        'nurse-1': { verifiedAt: new Date('2024-01-01T00:00:00Z') },
+      },
+      accessGrants: {},
+    };
+    auditService = { logPatientAccess: jest.fn(), logBreakGlassAccess: jest.fn() } as any;
+    familyGroupService = {
+      getMembersForUser: jest.fn().mockResolvedValue({
+        success: true,
+        data: [
+          { uid: 'patient-1', name: 'Dad', email: 'dad@example.com' },
+          { uid: 'daughter-1', name: 'Ann', email: 'ann@example.com' },
+        ],
+      }),
+    } as any;
+    notifier = { sendBreakGlassAlert: jest.fn().mockResolvedValue(undefined) };
+    service = new AccessGrantService({
+      db: createFakeDb(collections),
+      auditService,
+      familyGroupService,
+      notifier,
+      clock: { now: () => now },
+      emergencyAccessHours: 6,
+    });
+  });
+
+  describe('createGrant', () => {
+    it('should store the grant and audit who gave it', async () => {
+      const result = await service.createGrant('patient-1', {
+        granteeId: 'neighbour-1',
+        permissions: ['view_medications'],
+        expiresAt: new Date('2024-03-17T12:00:00Z'),
+      }, 'patient-1');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(expect.objectContaining({
+        id: 'grant-1',
+        emergency: false,
+        expiresAt: new Date('2024-03-17T12:00:00Z'),
+      }));
+      expect(auditService.logPatientAccess).toHaveBeenCalledWith(
+        'patient-1',
+        'patient-1',
+        AuditAction.GRANT_ACCESS,
+        AuditResult.SUCCESS,
+        expect.objectContaining({ grantId: 'grant-1', granteeId: 'neighbour-1' })
+      );
+    });
+  });
+
+  describe('breakGlass', () => {
+    it('should grant read access for the configured hours, audit it and tell the family', async () => {
+      const result = await service.breakGlass('patient-1', 'nurse-1', '  Patient unconscious in ER  ');
+
+      expect(result.data).toEqual(expect.objectContaining({
+        emergency: true,
+        justification: 'Patient unconscious in ER',
+        permissions: ['view_profile', 'view_medications', 'view_appointments'],
+        expiresAt: new Date('2024-03-10T18:00:00Z'),
+      }));
+      expect(auditService.logBreakGlassAccess).toHaveBeenCalledWith(
+        'nurse-1',
+        'patient-1',
+        'Patient unconscious in ER',
+        expect.objectContaining({ grantId: 'grant-1' })
+      );
+      expect(notifier.sendBreakGlassAlert).toHaveBeenCalledTimes(2);
+      expect(notifier.sendBreakGlassAlert).toHaveBeenCalledWith({
+        to: 'ann@example.com',
+        recipientName: 'Ann',
+        patientName: 'Dad',
+        accessorName: 'Nurse Jo',
+        justification: 'Patient unconscious in ER',
+        hours: 6,
+      });
+    });
+
+    it('should only let verified healthcare providers take access to patients that exist', async () => {
+      const neighbour = await service.breakGlass('patient-1', 'neighbour-1', 'Patient unconscious in ER');
+      const missing = await service.breakGlass('patient-9', 'nurse-1', 'Patient unconscious in ER');
+
+      expect(neighbour).toEqual({ success: false, error: 'Only healthcare providers can take emergency access' });
+      expect(missing).toEqual({ success: false, error: 'Patient not found' });
+      expect(collections.accessGrants).toEqual({});
+      expect(notifier.sendBreakGlassAlert).not.toHaveBeenCalled();
+    });
+
+    it('should tell the patient when they are not in a family group', async () => {
+      familyGroupService.getMembersForUser.mockResolvedValueOnce({ success: true, data: [] });
+
+      await service.breakGlass('patient-1', 'nurse-1', 'Patient unconscious in ER');
+
+      expect(notifier.sendBreakGlassAlert).toHaveBeenCalledTimes(1);
+      expect(notifier.sendBreakGlassAlert).toHaveBeenCalledWith(expect.objectContaining({ to: 'dad@example.com' }));
+    });
+
+    it('should keep the grant when a notification fails', async () => {
+      notifier.sendBreakGlassAlert.mockRejectedValueOnce(new Error('Email down'));
+
+      const result = await service.breakGlass('patient-1', 'nurse-1', 'Patient unconscious in ER');
+
+      expect(result.success).toBe(true);
+      expect(notifier.sendBreakGlassAlert).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('revokeGrant', () => {
+    beforeEach(() => {
+      collections.accessGrants['grant-9'] = {
+        patientId: 'patient-1',
+        granteeId: 'neighbour-1',
+        permissions: ['view_medications'],
+        emergency: false,
+        expiresAt: new Date('2024-03-17T12:00:00Z'),
+      };
+    });
+
+    it('should end the grant and audit it', async () => {
+      const result = await service.revokeGrant('patient-1', 'grant-9', 'patient-1');
+
+      expect(result.success).toBe(true);
+      expect(collections.accessGrants['grant-9']).toEqual(expect.objectContaining({ revokedAt: now, revokedBy: 'patient-1' }));
+      expect(auditService.logPatientAccess).toHaveBeenCalledWith(
+        'patient-1',
+        'patient-1',
+        AuditAction.REVOKE_ACCESS_GRANT,
+        AuditResult.SUCCESS,
+        expect.objectContaining({ grantId: 'grant-9' })
+      );
+    });
+
+    it('should not find another patient\'s grant', async () => {
+      const result = await service.revokeGrant('patient-2', 'grant-9', 'patient-2');
+
+      expect(result).toEqual({ success: false, error: 'Access grant not found' });
+      expect(collections.accessGrants['grant-9'].revokedAt).toBeUndefined();
+    });
+  });
+
+  describe('findActiveGrant', () => {
+    const grant = (overrides: object) => ({
+      patientId: 'patient-1',
+      granteeId: 'neighbour-1',
+      permissions: ['view_medications'],
+      emergency: false,
+      expiresAt: new Date('2024-03-11T12:00:00Z'),
+      ...overrides,
+    });
+
+    it('should only return grants in force that include the permission', async () => {
+      collections.accessGrants = {
+        expired: grant({ expiresAt: new Date('2024-03-09T12:00:00Z') }),
+        revoked: grant({ revokedAt: new Date('2024-03-10T08:00:00Z') }),
+        current: grant({}),
+      };
+
+      expect(await service.findActiveGrant('neighbour-1', 'patient-1', 'view_medications'))
+        .toEqual(expect.objectContaining({ id: 'current' }));
+      expect(await service.findActiveGrant('neighbour-1', 'patient-1', 'edit_medications')).toBeNull();
+      expect(await service.findActiveGrant('neighbour-1', 'patient-2')).toBeNull();
+    });
+  });
+});
@@ -1,6 +1,7 @@
 "use strict";
 Object.defineProperty(exports, "__esModule", { value: true });
 const accessService_1 = require("../accessService");
+const auditService_1 = require("../auditService");
 const testUtils_1 = require("../../__tests__/testUtils");
 const types_1 = require("../../types");
 (0, testUtils_1.mockConsole)();
@@ -99,4 +100,221 @@ describe('AccessService', () => {
             expect(hasAccess).toBe(true);
         });
     });
+    describe('can', () => {
+        const sameGroup = { exists: true, data: () => ({ familyGroupId: 'family-123' }) };
+        const groupWithMember = (member, id = 'family-123') => ({
+            exists: true,
+            id,
+            data: () => ({ members: [{ uid: 'user-123', ...member }, { uid: 'user-456', role: 'family_member' }] })
+        });
+        beforeEach(() => {
+            mockAuditService.logPermissionDenied = jest.fn();
+        });
+        it('should let the patient do everything for themselves', async () => {
+            const allowed = await service.can('user-123', 'user-123', 'manage_members');
+            expect(allowed).toBe(true);
+            expect(mockDb._mockDoc.get).not.toHaveBeenCalled();
+        });
+        it.each([
+            ['primary_caregiver', 'edit_medications'],
+            ['admin', 'manage_members'],
+            ['caregiver', 'edit_medications'],
+            ['family_member', 'log_doses'],
+            ['member', 'view_medications'],
+        ])('should allow the %s role to %s by default', async (role, permission) => {
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce(sameGroup) // requesting user
+                .mockResolvedValueOnce(sameGroup) // target user
+                .mockResolvedValueOnce(sameGroup) // requesting user's group
+                .mockResolvedValueOnce(groupWithMember({ role })); // family group
+            const allowed = await service.can('user-123', 'user-456', permission);
+            expect(allowed).toBe(true);
+            expect(mockAuditService.logPatientAccess).toHaveBeenCalledWith('user-123', 'user-456', types_1.AuditAction.ACCESS_PATIENT, types_1.AuditResult.SUCCESS, expect.objectContaining({ permission }));
+        });
+        it('should deny a permission the role does not have and record it', async () => {
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce(groupWithMember({ role: 'family_member' }));
+            const allowed = await service.can('user-123', 'user-456', 'edit_medications');
+            expect(allowed).toBe(false);
+            expect(mockAuditService.logPermissionDenied).toHaveBeenCalledWith('user-123', 'user-456', 'edit_medications', 'Missing permission: edit_medications');
+        });
+        it('should use the member\'s own permissions over their role', async () => {
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce(groupWithMember({ role: 'primary_caregiver', permissions: ['view_medications'] }));
+            const allowed = await service.can('user-123', 'user-456', 'edit_medications');
+            expect(allowed).toBe(false);
+        });
+        it('should only use permissions from groups shared with the patient', async () => {
+            const userGroups = { exists: true, data: () => ({ familyGroupIds: ['family-123', 'family-789'] }) };
+            const targetGroups = { exists: true, data: () => ({ familyGroupIds: ['family-789'] }) };
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce(userGroups) // requesting user
+                .mockResolvedValueOnce(targetGroups) // target user
+                .mockResolvedValueOnce(userGroups) // requesting user's groups
+                .mockResolvedValueOnce(groupWithMember({ role: 'primary_caregiver' }, 'family-123'))
+                .mockResolvedValueOnce(groupWithMember({ role: 'family_member' }, 'family-789'));
+            const allowed = await service.can('user-123', 'user-456', 'edit_medications');
+            expect(allowed).toBe(false);
+            expect(mockAuditService.logPermissionDenied).toHaveBeenCalledWith('user-123', 'user-456', 'edit_medications', 'Missing permission: edit_medications');
+        });
+        it('should deny outside the patient\'s family group with the permission recorded', async () => {
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce({ exists: true, data: () => ({ familyGroupId: 'family-456' }) });
+            const allowed = await service.can('user-123', 'user-456', 'view_medications');
+            expect(allowed).toBe(false);
+            expect(mockDb._mockDoc.get).toHaveBeenCalledTimes(2);
+            expect(mockAuditService.logPermissionDenied).toHaveBeenCalledWith('user-123', 'user-456', 'view_medications', 'User and patient not in same family group');
+        });
+    });
+    describe('getSharedMemberships', () => {
+        const sameGroup = { exists: true, data: () => ({ familyGroupId: 'family-123' }) };
+        it('should return the user\'s entries in groups shared with the patient', async () => {
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce(sameGroup) // requesting user
+                .mockResolvedValueOnce(sameGroup) // target user
+                .mockResolvedValueOnce(sameGroup) // requesting user's group
+                .mockResolvedValueOnce({
+                exists: true,
+                id: 'family-123',
+                data: () => ({ members: [{ uid: 'user-123', role: 'caregiver' }, { uid: 'user-456', role: 'family_member' }] })
+            });
+            const memberships = await service.getSharedMemberships('user-123', 'user-456');
+            expect(memberships).toEqual([{ uid: 'user-123', role: 'caregiver' }]);
+        });
+        it('should return nothing when they share no group', async () => {
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce({ exists: true, data: () => ({ familyGroupId: 'family-456' }) });
+            expect(await service.getSharedMemberships('user-123', 'user-456')).toEqual([]);
+        });
+    });
+    describe('resolvePatientUid', () => {
+        it('should keep a user uid', async () => {
+            mockDb._mockDoc.get.mockResolvedValueOnce({ exists: true, data: () => ({}) });
+            expect(await service.resolvePatientUid('user-456')).toBe('user-456');
+        });
+        it('should map a patient profile ID to its user uid', async () => {
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce({ exists: false })
+                .mockResolvedValueOnce({ exists: true, data: () => ({ userId: 'user-456' }) });
+            expect(await service.resolvePatientUid('patient-456')).toBe('user-456');
+        });
+        it('should return null for an unknown patient', async () => {
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce({ exists: false })
+                .mockResolvedValueOnce({ exists: false });
+            expect(await service.resolvePatientUid('nonexistent')).toBeNull();
+        });
+    });
+    describe('access grants', () => {
+        const noGroups = { exists: true, data: () => ({}) };
+        const grant = (overrides = {}) => ({
+            id: 'grant-1',
+            patientId: 'user-456',
+            granteeId: 'user-123',
+            grantedBy: 'user-456',
+            permissions: ['view_medications'],
+            emergency: false,
+            createdAt: new Date(),
+            expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+            ...overrides
+        });
+        let mockAccessGrantService;
+        beforeEach(() => {
+            mockAuditService.logPermissionDenied = jest.fn();
+            mockAccessGrantService = { findActiveGrant: jest.fn().mockResolvedValue(null) };
+            service = new accessService_1.AccessService({ db: mockDb, auditService: mockAuditService, accessGrantService: mockAccessGrantService });
+        });
+        it('should let a grantee outside the family group access the patient', async () => {
+            mockDb._mockDoc.get.mockResolvedValueOnce(noGroups);
+            mockAccessGrantService.findActiveGrant.mockResolvedValueOnce(grant());
+            const hasAccess = await service.canAccessPatient('user-123', 'user-456');
+            expect(hasAccess).toBe(true);
+            expect(mockAccessGrantService.findActiveGrant).toHaveBeenCalledWith('user-123', 'user-456', undefined);
+            expect(mockAuditService.logPatientAccess).toHaveBeenCalledWith('user-123', 'user-456', types_1.AuditAction.ACCESS_PATIENT, types_1.AuditResult.SUCCESS, { reason: 'Access grant', grantId: 'grant-1' });
+            expect(mockAuditService.logPatientAccessDenied).not.toHaveBeenCalled();
+        });
+        it('should allow a permission the grant includes', async () => {
+            mockDb._mockDoc.get.mockResolvedValueOnce(noGroups);
+            mockAccessGrantService.findActiveGrant.mockResolvedValueOnce(grant({ emergency: true }));
+            const allowed = await service.can('user-123', 'user-456', 'view_medications');
+            expect(allowed).toBe(true);
+            expect(mockAccessGrantService.findActiveGrant).toHaveBeenCalledWith('user-123', 'user-456', 'view_medications');
+            expect(mockAuditService.logPatientAccess).toHaveBeenCalledWith('user-123', 'user-456', types_1.AuditAction.ACCESS_PATIENT, types_1.AuditResult.SUCCESS, expect.objectContaining({ reason: 'Emergency access', grantId: 'grant-1' }));
+        });
+        it('should top up a family member\'s permissions with a grant', async () => {
+            const sameGroup = { exists: true, data: () => ({ familyGroupId: 'family-123' }) };
+            mockDb._mockDoc.get
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce(sameGroup)
+                .mockResolvedValueOnce({
+                exists: true,
+                id: 'family-123',
+                data: () => ({ members: [{ uid: 'user-123', role: 'family_member' }] })
+            });
+            mockAccessGrantService.findActiveGrant.mockResolvedValueOnce(grant({ permissions: ['edit_medications'] }));
+            const allowed = await service.can('user-123', 'user-456', 'edit_medications');
+            expect(allowed).toBe(true);
+            expect(mockAuditService.logPermissionDenied).not.toHaveBeenCalled();
+        });
+        it('should deny with the family reason when there is no grant', async () => {
+            mockDb._mockDoc.get.mockResolvedValueOnce(noGroups);
+            const allowed = await service.can('user-123', 'user-456', 'view_medications');
+            expect(allowed).toBe(false);
+            expect(mockAuditService.logPermissionDenied).toHaveBeenCalledWith('user-123', 'user-456', 'view_medications', 'User not in any family group');
+        });
+    });
+    describe('provider links', () => {
+        const noGroups = { exists: true, data: () => ({}) };
+        let mockProviderLinkService;
+        beforeEach(() => {
+            mockAuditService.logPermissionDenied = jest.fn();
+            mockProviderLinkService = {
+                findLink: jest.fn().mockResolvedValue({ id: 'doctor-1_user-456', providerId: 'doctor-1', patientId: 'user-456' })
+            };
+            service = new accessService_1.AccessService({ db: mockDb, auditService: mockAuditService, providerLinkService: mockProviderLinkService });
+        });
+        it('should let a linked provider access the patient', async () => {
+            mockDb._mockDoc.get.mockResolvedValueOnce(noGroups);
+            const hasAccess = await service.canAccessPatient('doctor-1', 'user-456');
+            expect(hasAccess).toBe(true);
+            expect(mockProviderLinkService.findLink).toHaveBeenCalledWith('doctor-1', 'user-456');
+            expect(mockAuditService.logPatientAccess).toHaveBeenCalledWith('doctor-1', 'user-456', types_1.AuditAction.ACCESS_PATIENT, types_1.AuditResult.SUCCESS, { reason: 'Provider access', providerLinkId: 'doctor-1_user-456' });
+        });
+        it('should let a linked provider change medications but not manage the family group', async () => {
+            mockDb._mockDoc.get.mockResolvedValue(noGroups);
+            expect(await service.can('doctor-1', 'user-456', 'edit_medications')).toBe(true);
+            expect(await service.can('doctor-1', 'user-456', 'manage_members')).toBe(false);
+            expect(mockProviderLinkService.findLink).toHaveBeenCalledTimes(1);
+        });
+        it('should deny when the provider is not linked', async () => {
+            mockDb._mockDoc.get.mockResolvedValueOnce(noGroups);
+            mockProviderLinkService.findLink.mockResolvedValueOnce(null);
+            const hasAccess = await service.canAccessPatient('doctor-1', 'user-456');
+            expect(hasAccess).toBe(false);
+            expect(mockAuditService.logPatientAccessDenied).toHaveBeenCalled();
+        });
+    });
+    describe('createAccessServices', () => {
+        it('should write a denied permission check to the audit log', async () => {
+            const { accessService } = (0, accessService_1.createAccessServices)({ db: mockDb, auditService: new auditService_1.AuditService({ db: mockDb }) });
+            const allowed = await accessService.can('user-123', 'user-456', 'view_medications');
+            expect(allowed).toBe(false);
+            expect(mockDb._mockCollection.add).toHaveBeenCalledWith(expect.objectContaining({
+                userId: 'user-123',
+                action: types_1.AuditAction.ACCESS_PATIENT_DENIED,
+                resourceId: 'user-456',
+                result: types_1.AuditResult.DENIED,
+                metadata: expect.objectContaining({ permission: 'view_medications' })
+            }));
+        });
+    });
 });
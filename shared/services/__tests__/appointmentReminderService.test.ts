@@ -0,0 +1,180 @@
+import { AppointmentReminderService, AppointmentReminderNotifier } from '../appointmentReminderService';
+import { AuditService } from '../auditService';
+import { AccessService } from '../accessService';
+import { AppointmentService } from '../appointmentService';
+import { FamilyGroupService } from '../familyGroupService';
+import { MedicationService } from '../medicationService';
+import { mockConsole } from '../../__tests__/testUtils';
+
+mockConsole();
+
+// In-memory Firestore covering the reminder settings and the appointment updates
+const createFakeDb = (collections: Record<string, Record<string, any>>) => ({
+  collection: jest.fn((collection: string) => ({
+    doc: (id: string) => ({
+      id,
+      get: async () => ({
+        exists: !!collections[collection]?.[id],
+        id,
+        data: () => collections[collection]?.[id] && { ...collections[collection][id] },
+      }),
+      set: async (data: any) => {
+        collections[collection] = { ...collections[collection], [id]: data };
+      },
+      update: async (updates: any) => {
+        Object.assign(collections[collection][id], updates);
+      },
+    }),
+  })),
+});
+
+describe('AppointmentReminderService', () => {
+  const now = new Date('2024-03-11T15:00:00Z');
+  let collections: Record<string, Record<string, any>>;
+  let notifier: jest.Mocked<AppointmentReminderNotifier>;
+  let auditService: jest.Mocked<AuditService>;
+  let accessService: jest.Mocked<AccessService>;
+  let familyGroupService: jest.Mocked<FamilyGroupService>;
+  let service: AppointmentReminderService;
+
+  beforeEach(() => {
+    collections = {
+      appointments: {
+        // A day away, so only the one-day reminder is due
+        'appt-1': {
+          patientId: 'patient-1',
+          title: 'Cardiology follow-up',
+          description: 'Bring BP log',
+          dateTime: new Date('2024-03-12T15:00:00Z'),
+          duration: 30,
+          location: 'Heart Specialists Clinic',
+          provider: 'Dr. Smith',
+          notes: 'Fasting from midnight',
+          status: 'scheduled',
+        },
+      },
+      appointmentReminderSettings: {},
+      users: {
+        'patient-1': { name: 'Maria', email: 'maria@example.com' },
+      },
+    };
+    notifier = { sendAppointmentReminder: jest.fn().mockResolvedValue(undefined) };
+    auditService = { logAppointmentReminderChange: jest.fn() } as any;
+    accessService = { can: jest.fn().mockResolvedValue(true) } as any;
+    familyGroupService = {
+      getMembersForUser: jest.fn().mockResolvedValue({
+        success: true,
+        data: [
+          { uid: 'patient-1', email: 'maria@example.com', name: 'Maria', role: 'patient' },
+          { uid: 'daughter-1', email: 'ana@example.com', name: 'Ana', role: 'primary_caregiver' },
+          { uid: 'son-1', email: 'luis@example.com', name: 'Luis', role: 'family_member' },
+        ],
+      }),
+    } as any;
+    const appointmentService = {
+      getOpenAppointmentsBetween: jest.fn(async () => ({
+        success: true,
+        data: Object.entries(collections.appointments).map(([id, data]) => ({ id, ...data })),
+      })),
+    } as any as AppointmentService;
+    const medicationService = {
+      getPatientTimeZone: jest.fn().mockResolvedValue('America/Chicago'),
+      getMedicationsByPatientId: jest.fn().mockResolvedValue({
+        success: true,
+        data: [
+          { id: 'med-1', name: 'Lisinopril', dosage: '10mg', instructions: 'With water', isActive: true },
+          { id: 'med-2', name: 'Warfarin', dosage: '5mg', instructions: '', isActive: false },
+        ],
+      }),
+    } as any as MedicationService;
+
+    service = new AppointmentReminderService({
+      db: createFakeDb(collections),
+      notifier,
+      auditService,
+      accessService,
+      appointmentService,
+      familyGroupService,
+      medicationService,
+      clock: { now: () => now },
+    });
+  });
+
+  it('should remind the patient a day and two hours before by default', async () => {
+    const result = await service.getSettings('patient-1');
+
+    expect(result.data).toEqual({ patientId: 'patient-1', offsetsMinutes: [1440, 120], notifyPatient: true, subscriberIds: [] });
+  });
+
+  it('should save reminder times latest first and audit the change', async () => {
+    const result = await service.updateSettings('patient-1', { offsetsMinutes: [120, 10080, 120] }, 'daughter-1');
+
+    expect(result.data!.offsetsMinutes).toEqual([10080, 120]);
+    expect(collections.appointmentReminderSettings['patient-1']).toMatchObject({ offsetsMinutes: [10080, 120], updatedAt: now });
+    expect(auditService.logAppointmentReminderChange).toHaveBeenCalledWith('daughter-1', 'patient-1', {
+      offsetsMinutes: [10080, 120],
+    });
+  });
+
+  it('should let family members subscribe and the patient opt out', async () => {
+    await service.setSubscription('patient-1', 'daughter-1', true);
+    const optedOut = await service.setSubscription('patient-1', 'patient-1', false);
+    const stranger = await service.setSubscription('patient-1', 'provider-1', true);
+
+    expect(optedOut.data).toMatchObject({ notifyPatient: false, subscriberIds: ['daughter-1'] });
+    expect(stranger).toEqual({ success: false, error: 'Only family members can get appointment reminders' });
+  });
+
+  it('should email the details and medication list to the patient and subscribers', async () => {
+    collections.appointmentReminderSettings['patient-1'] = { offsetsMinutes: [1440, 120], notifyPatient: true, subscriberIds: ['daughter-1'] };
+
+    const result = await service.sendDueReminders();
+
+    expect(result.data).toEqual({ checked: 1, reminded: 1, failed: 0 });
+    expect(notifier.sendAppointmentReminder).toHaveBeenCalledTimes(2);
+    expect(notifier.sendAppointmentReminder).toHaveBeenCalledWith({
+      to: 'ana@example.com',
+      recipientName: 'Ana',
+      patientName: 'Maria',
+      title: 'Cardiology follow-up',
+      when: '2024-03-12 10:00 CDT',
+      description: 'Bring BP log',
+      location: 'Heart Specialists Clinic',
+      provider: 'Dr. Smith',
+      notes: 'Fasting from midnight',
+      medications: [{ name: 'Lisinopril', dosage: '10mg', instructions: 'With water' }],
+    });
+    expect(collections.appointments['appt-1'].remindersSent).toEqual([1440]);
+  });
+
+  it('should send each reminder once', async () => {
+    await service.sendDueReminders();
+    const second = await service.sendDueReminders();
+
+    expect(second.data).toEqual({ checked: 0, reminded: 0, failed: 0 });
+    expect(notifier.sendAppointmentReminder).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip subscribers who have lost access and hide medications without permission', async () => {
+    collections.appointmentReminderSettings['patient-1'] = { offsetsMinutes: [1440], notifyPatient: false, subscriberIds: ['daughter-1', 'son-1'] };
+    accessService.can.mockImplementation(async (userId, _patient, permission) =>
+      userId === 'daughter-1' && permission === 'view_appointments');
+
+    await service.sendDueReminders();
+
+    expect(notifier.sendAppointmentReminder).toHaveBeenCalledTimes(1);
+    const notification = notifier.sendAppointmentReminder.mock.calls[0][0];
+    expect(notification.to).toBe('ana@example.com');
+    expect(notification.medications).toBeUndefined();
+  });
+
+  it('should count an appointment as failed when no email could be sent', async () => {
+    notifier.sendAppointmentReminder.mockRejectedValue(new Error('Email service not configured'));
+
+    const result = await service.sendDueReminders();
+
+    expect(result.data).toEqual({ checked: 1, reminded: 0, failed: 1 });
+    // Still marked, so a broken email service doesn't resend on every run
+    expect(collections.appointments['appt-1'].remindersSent).toEqual([1440]);
+  });
+});
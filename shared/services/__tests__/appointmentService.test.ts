@@ -0,0 +1,258 @@
+import { AppointmentService } from '../appointmentService';
+import { AuditService } from '../auditService';
+import { AuditAction } from '../../types';
+import { mockConsole } from '../../__tests__/testUtils';
+
+mockConsole();
+
+// In-memory Firestore covering the appointment queries
+const createFakeDb = (collections: Record<string, Record<string, any>>) => {
+  let nextId = 1;
+
+  const docRef = (collection: string, id: string) => ({
+    id,
+    get: async () => ({
+      exists: !!collections[collection]?.[id],
+      id,
+      // A snapshot, so later writes don't change what was read
+      data: () => collections[collection]?.[id] && { ...collections[collection][id] },
+    }),
+    set: async (data: any) => {
+      collections[collection] = { ...collections[collection], [id]: data };
+    },
+    update: async (updates: any) => {
+      Object.assign(collections[collection][id], updates);
+    },
+    delete: async () => {
+      delete collections[collection][id];
+    },
+  });
+
+  const matches = (value: any, op: string, expected: any) => {
+    switch (op) {
+      case '>=': return value >= expected;
+      case '<=': return value <= expected;
+      default: return value === expected;
+    }
+  };
+
+  return {
+    collection: jest.fn((collection: string) => {
+      const filters: Array<(data: any) => boolean> = [];
+      let order: string | undefined;
+      const query: any = {
+        where: jest.fn((field: string, op: string, value: any) => {
+          filters.push(data => matches(data[field], op, value));
+          return query;
+        }),
+        orderBy: jest.fn((field: string) => {
+          order = field;
+          return query;
+        }),
+        get: jest.fn(async () => {
+          const docs = Object.entries(collections[collection] || {})
+            .filter(([, data]) => filters.every(filter => filter(data)))
+            .sort(([, a], [, b]) => (order ? a[order] - b[order] : 0))
+            .map(([id, data]) => ({ id, data: () => data }));
+          return { docs, empty: docs.length === 0 };
+        }),
+        doc: (id?: string) => docRef(collection, id || `appointment-${nextId++}`),
+      };
+      return query;
+    }),
+  };
+};
+
+describe('AppointmentService', () => {
+  const now = new Date('2024-03-10T12:00:00Z');
+  let collections: Record<string, Record<string, any>>;
+  let auditService: jest.Mocked<AuditService>;
+  let service: AppointmentService;
+
+  const appointment = (overrides: object) => ({
+    patientId: 'patient-1',
+    title: 'Cardiology follow-up',
+    description: '',
+    dateTime: new Date('2024-03-12T15:00:00Z'),
+    duration: 30,
+    location: 'Heart Specialists Clinic',
+    provider: 'Dr. Smith',
+    status: 'scheduled',
+    createdBy: 'patient-1',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    collections = { appointments: {} };
+    auditService = { logAppointmentChange: jest.fn() } as any;
+    service = new AppointmentService({ db: createFakeDb(collections), auditService, clock: { now: () => now } });
+  });
+
+  describe('createAppointment', () => {
+    it('should create an appointment and audit it', async () => {
+      const result = await service.createAppointment({
+        patientId: 'patient-1',
+        title: 'Annual checkup',
+        description: '',
+        dateTime: new Date('2024-03-15T14:00:00Z'),
+        duration: 60,
+        location: '123 Medical Center Dr',
+        provider: 'Dr. Jones',
+        status: 'scheduled',
+      }, 'daughter-1');
+
+      expect(result.data).toEqual(expect.objectContaining({
+        id: 'appointment-1',
+        status: 'scheduled',
+        createdBy: 'daughter-1',
+        createdAt: now,
+      }));
+      expect(auditService.logAppointmentChange).toHaveBeenCalledWith('daughter-1', 'appointment-1', AuditAction.CREATE_APPOINTMENT, {
+        patientId: 'patient-1',
+        dateTime: new Date('2024-03-15T14:00:00Z'),
+      });
+    });
+  });
+
+  describe('listing', () => {
+    beforeEach(() => {
+      collections.appointments = {
+        later: appointment({ status: 'confirmed', dateTime: new Date('2024-03-20T15:00:00Z') }),
+        soon: appointment({ dateTime: new Date('2024-03-11T15:00:00Z') }),
+        cancelled: appointment({ status: 'cancelled', dateTime: new Date('2024-03-13T15:00:00Z') }),
+        past: appointment({ status: 'completed', dateTime: new Date('2024-03-01T15:00:00Z') }),
+        otherPatient: appointment({ patientId: 'patient-2' }),
+      };
+    });
+
+    it('should list the patient\'s appointments in date order within a range', async () => {
+      const all = await service.getAppointmentsByPatientId('patient-1');
+      const march = await service.getAppointmentsByPatientId('patient-1', {
+        from: new Date('2024-03-10T00:00:00Z'),
+        to: new Date('2024-03-15T00:00:00Z'),
+      });
+
+      expect(all.data!.map(a => a.id)).toEqual(['past', 'soon', 'cancelled', 'later']);
+      expect(march.data!.map(a => a.id)).toEqual(['soon', 'cancelled']);
+    });
+
+    it('should list upcoming appointments that are still on', async () => {
+      const upcoming = await service.getUpcomingAppointments('patient-1');
+      const next = await service.getUpcomingAppointments('patient-1', 1);
+
+      expect(upcoming.data!.map(a => a.id)).toEqual(['soon', 'later']);
+      expect(next.data!.map(a => a.id)).toEqual(['soon']);
+    });
+
+    it('should list every patient\'s open appointments between two instants', async () => {
+      const result = await service.getOpenAppointmentsBetween(now, new Date('2024-03-15T00:00:00Z'));
+
+      expect(result.data!.map(a => a.id)).toEqual(['soon', 'otherPatient']);
+    });
+  });
+
+  describe('updateStatus', () => {
+    beforeEach(() => {
+      collections.appointments = { 'appointment-9': appointment({}) };
+    });
+
+    it('should confirm and then complete an appointment', async () => {
+      await service.updateStatus('appointment-9', 'confirmed', 'daughter-1');
+      const completed = await service.updateStatus('appointment-9', 'completed', 'daughter-1');
+
+      expect(completed.data!.status).toBe('completed');
+      expect(auditService.logAppointmentChange).toHaveBeenLastCalledWith('daughter-1', 'appointment-9', AuditAction.UPDATE_APPOINTMENT, {
+        patientId: 'patient-1',
+        status: 'completed',
+        previousStatus: 'confirmed',
+      });
+    });
+
+    it('should not complete an unconfirmed appointment or reopen a cancelled one', async () => {
+      const completed = await service.updateStatus('appointment-9', 'completed', 'daughter-1');
+      await service.updateStatus('appointment-9', 'cancelled', 'daughter-1');
+      const reopened = await service.updateStatus('appointment-9', 'scheduled', 'daughter-1');
+
+      expect(completed).toEqual({ success: false, error: 'Cannot change a scheduled appointment to completed' });
+      expect(reopened).toEqual({ success: false, error: 'Cannot change a cancelled appointment to scheduled' });
+      expect(collections.appointments['appointment-9'].status).toBe('cancelled');
+    });
+  });
+
+  describe('updateAppointment', () => {
+    it('should reschedule an open appointment', async () => {
+      collections.appointments = { 'appointment-9': appointment({ remindersSent: [1440] }) };
+
+      const result = await service.updateAppointment('appointment-9', { dateTime: new Date('2024-03-14T15:00:00Z') }, 'patient-1');
+
+      expect(result.data!.dateTime).toEqual(new Date('2024-03-14T15:00:00Z'));
+      // Reminders already sent were for the old time
+      expect(result.data!.remindersSent).toEqual([]);
+      expect(auditService.logAppointmentChange).toHaveBeenCalledWith('patient-1', 'appointment-9', AuditAction.UPDATE_APPOINTMENT, {
+        patientId: 'patient-1',
+        fields: ['dateTime'],
+      });
+    });
+
+    it('should not edit a completed appointment', async () => {
+      collections.appointments = { 'appointment-9': appointment({ status: 'completed' }) };
+
+      const result = await service.updateAppointment('appointment-9', { title: 'Follow-up' }, 'patient-1');
+
+      expect(result).toEqual({ success: false, error: 'Cannot edit a completed appointment' });
+    });
+  });
+
+  describe('deleteAppointment', () => {
+    it('should delete the appointment and audit it', async () => {
+      collections.appointments = { 'appointment-9': appointment({}) };
+
+      const result = await service.deleteAppointment('appointment-9', 'patient-1');
+      const missing = await service.deleteAppointment('appointment-9', 'patient-1');
+
+      expect(result.success).toBe(true);
+      expect(collections.appointments['appointment-9']).toBeUndefined();
+      expect(auditService.logAppointmentChange).toHaveBeenCalledWith('patient-1', 'appointment-9', AuditAction.DELETE_APPOINTMENT, {
+        patientId: 'patient-1',
+        title: 'Cardiology follow-up',
+        dateTime: new Date('2024-03-12T15:00:00Z'),
+      });
+      expect(missing).toEqual({ success: false, error: 'Appointment not found' });
+    });
+  });
+
+  describe('change listener', () => {
+    it('should be told about each change, and a failure should not undo it', async () => {
+      const changeListener = { appointmentChanged: jest.fn().mockRejectedValue(new Error('Google is down')) };
+      service = new AppointmentService({ db: createFakeDb(collections), clock: { now: () => now }, changeListener });
+      collections.appointments = { 'appointment-9': appointment({}) };
+
+      const confirmed = await service.updateStatus('appointment-9', 'confirmed', 'patient-1');
+      const failed = await service.updateStatus('appointment-9', 'scheduled', 'patient-1');
+      const deleted = await service.deleteAppointment('appointment-9', 'patient-1');
+
+      expect(confirmed.success).toBe(true);
+      expect(failed.success).toBe(false);
+      expect(deleted.success).toBe(true);
+      expect(changeListener.appointmentChanged.mock.calls).toEqual([['patient-1'], ['patient-1']]);
+    });
+
+    it('should stop waiting for a slow listener after the timeout', async () => {
+      const changeListener = { appointmentChanged: jest.fn(() => new Promise<void>(() => {})) };
+      service = new AppointmentService({
+        db: createFakeDb(collections),
+        clock: { now: () => now },
+        changeListener,
+        changeListenerTimeoutMs: 10,
+      });
+      collections.appointments = { 'appointment-9': appointment({}) };
+
+      const confirmed = await service.updateStatus('appointment-9', 'confirmed', 'patient-1');
+
+      expect(confirmed.success).toBe(true);
+      expect(changeListener.appointmentChanged).toHaveBeenCalledWith('patient-1');
+    });
+  });
+});
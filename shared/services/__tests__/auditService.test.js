@@ -222,7 +222,8 @@ describe('AuditService', () => {
             expect(mockDb._mockCollection.where).toHaveBeenCalledWith('action', 'in', expect.arrayContaining([
                 types_1.AuditAction.LOGIN_FAILED,
                 types_1.AuditAction.UNAUTHORIZED_ACCESS,
-                types_1.AuditAction.INVALID_TOKEN
+                types_1.AuditAction.INVALID_TOKEN,
+                types_1.AuditAction.BREAK_GLASS_ACCESS
             ]));
         });
         it('should handle errors', async () => {
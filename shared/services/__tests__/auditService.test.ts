@@ -309,7 +309,8 @@ describe('AuditService', () => {
         expect.arrayContaining([
           AuditAction.LOGIN_FAILED,
           AuditAction.UNAUTHORIZED_ACCESS,
-          AuditAction.INVALID_TOKEN
+          AuditAction.INVALID_TOKEN,
+          AuditAction.BREAK_GLASS_ACCESS
         ])
       );
     });
@@ -0,0 +1,155 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const calendarFeedService_1 = require("../calendarFeedService");
+const types_1 = require("../../types");
+const secretTokens_1 = require("../../utils/secretTokens");
+const testUtils_1 = require("../../__tests__/testUtils");
+(0, testUtils_1.mockConsole)();
+// In-memory Firestore covering the calendar feed queries
+const createFakeDb = (collections) => {
+    let nextId = 1;
+    const docRef = (collection, id) => ({
+        id,
+        get: async () => ({
+            exists: !!collections[collection]?.[id],
+            id,
+            data: () => collections[collection]?.[id] && { ...collections[collection][id] },
+        }),
+        set: async (data) => {
+            collections[collection] = { ...collections[collection], [id]: data };
+        },
+        update: async (updates) => {
+            Object.assign(collections[collection][id], updates);
+        },
+        delete: async () => {
+            delete collections[collection][id];
+        },
+    });
+    return {
+        collection: jest.fn((collection) => {
+            const filters = [];
+            const query = {
+                where: jest.fn((field, _op, value) => {
+                    filters.push(data => data[field] === value);
+                    return query;
+                }),
+                limit: jest.fn(() => query),
+                get: jest.fn(async () => {
+                    const docs = Object.entries(collections[collection] || {})
+                        .filter(([, data]) => filters.every(filter => filter(data)))
+                        .map(([id, data]) => ({ id, data: () => data }));
+                    return { docs, empty: docs.length === 0 };
+                }),
+                doc: (id) => docRef(collection, id || `feed-${nextId++}`),
+            };
+            return query;
+        }),
+    };
+};
+describe('CalendarFeedService', () => {
+    const now = new Date('2024-03-10T12:00:00Z');
+    let collections;
+    let auditService;
+    let accessService;
+    let appointmentService;
+    let medicationService;
+    let service;
+    beforeEach(() => {
+        collections = { calendarFeeds: {} };
+        auditService = { logCalendarFeedChange: jest.fn() };
+        accessService = { can: jest.fn().mockResolvedValue(true) };
+        appointmentService = {
+            getAppointmentsByPatientId: jest.fn().mockResolvedValue({
+                success: true,
+                data: [{
+                        id: 'appt-1',
+                        patientId: 'patient-1',
+                        title: 'Cardiology follow-up',
+                        description: 'Bring BP log',
+                        dateTime: new Date('2024-03-12T15:00:00Z'),
+                        duration: 30,
+                        location: 'Heart Specialists Clinic',
+                        provider: 'Dr. Smith',
+                        status: 'scheduled',
+                        createdBy: 'patient-1',
+                        createdAt: now,
+                        updatedAt: now,
+                    }],
+            }),
+        };
+        medicationService = {
+            getPatientTimeZone: jest.fn().mockResolvedValue('America/Chicago'),
+            getMedicationsByPatientId: jest.fn().mockResolvedValue({
+                success: true,
+                data: [
+                    { id: 'med-1', name: 'Lisinopril', dosage: '10mg', instructions: 'With water', isActive: true },
+                    { id: 'med-2', name: 'Warfarin', dosage: '5mg', instructions: '', isActive: false },
+                ],
+            }),
+            getMedicationRemindersByPatientId: jest.fn().mockResolvedValue({
+                success: true,
+                data: [
+                    { id: 'rem-1', medicationId: 'med-1', reminderTime: '08:00', days: ['monday', 'thursday'], isActive: true, createdAt: new Date('2024-03-01T00:00:00Z'), updatedAt: now },
+                    { id: 'rem-2', medicationId: 'med-2', reminderTime: '20:00', days: ['monday'], isActive: true, createdAt: now, updatedAt: now },
+                ],
+            }),
+        };
+        service = new calendarFeedService_1.CalendarFeedService({
+            db: createFakeDb(collections),
+            auditService,
+            accessService,
+            appointmentService,
+            medicationService,
+            clock: { now: () => now },
+        });
+    });
+    it('should create a feed storing only the token hash', async () => {
+        const result = await service.createFeed('daughter-1', 'patient-1', true);
+        const { token, feed } = result.data;
+        expect(feed).toEqual({ id: 'feed-1', userId: 'daughter-1', patientId: 'patient-1', includeReminders: true, createdAt: now });
+        expect(collections.calendarFeeds['feed-1'].tokenHash).toBe((0, secretTokens_1.hashSecretToken)(token));
+        expect(JSON.stringify(collections.calendarFeeds)).not.toContain(token);
+        expect(auditService.logCalendarFeedChange).toHaveBeenCalledWith('daughter-1', 'feed-1', types_1.AuditAction.CREATE_CALENDAR_FEED, {
+            patientId: 'patient-1',
+            includeReminders: true,
+        });
+    });
+    it('should render appointments and reminder times for a valid token', async () => {
+        const { token } = (await service.createFeed('daughter-1', 'patient-1', true)).data;
+        const result = await service.renderFeed(token);
+        expect(result.success).toBe(true);
+        expect(result.data).toContain('UID:appointment-appt-1@kinconnect');
+        expect(result.data).toContain('DTSTART:20240312T150000Z\r\nDTEND:20240312T153000Z');
+        expect(result.data).toContain('DESCRIPTION:Provider: Dr. Smith\\nBring BP log');
+        expect(result.data).toContain('STATUS:TENTATIVE');
+        // March 4 is the first Monday or Thursday after the reminder was created
+        expect(result.data).toContain('DTSTART;TZID=America/Chicago:20240304T080000');
+        expect(result.data).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,TH');
+        expect(result.data).toContain('SUMMARY:Take Lisinopril 10mg');
+        expect(result.data).not.toContain('Warfarin');
+        expect(collections.calendarFeeds['feed-1'].lastAccessedAt).toEqual(now);
+    });
+    it('should re-check access on every fetch', async () => {
+        const { token } = (await service.createFeed('daughter-1', 'patient-1', true)).data;
+        accessService.can.mockResolvedValueOnce(false);
+        const result = await service.renderFeed(token);
+        expect(result).toEqual({ success: false, error: 'Access denied' });
+        expect(accessService.can).toHaveBeenCalledWith('daughter-1', 'patient-1', 'view_appointments');
+    });
+    it('should leave out reminders without medication access', async () => {
+        const { token } = (await service.createFeed('daughter-1', 'patient-1', true)).data;
+        accessService.can.mockImplementation(async (_user, _patient, permission) => permission === 'view_appointments');
+        const result = await service.renderFeed(token);
+        expect(result.data).toContain('Cardiology follow-up');
+        expect(result.data).not.toContain('Lisinopril');
+    });
+    it('should stop serving a revoked feed', async () => {
+        const { token, feed } = (await service.createFeed('daughter-1', 'patient-1', false)).data;
+        const notOwner = await service.revokeFeed(feed.id, 'son-1');
+        const revoked = await service.revokeFeed(feed.id, 'daughter-1');
+        const result = await service.renderFeed(token);
+        expect(notOwner).toEqual({ success: false, error: 'Calendar feed not found' });
+        expect(revoked.success).toBe(true);
+        expect(result).toEqual({ success: false, error: 'Calendar feed not found' });
+    });
+});
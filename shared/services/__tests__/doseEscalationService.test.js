@@ -0,0 +1,239 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const doseEscalationService_1 = require("../doseEscalationService");
+const familyGroupService_1 = require("../familyGroupService");
+const medicationService_1 = require("../medicationService");
+const types_1 = require("../../types");
+const testUtils_1 = require("../../__tests__/testUtils");
+(0, testUtils_1.mockConsole)();
+// Minimal in-memory Firestore covering the calls the escalation service makes
+const createFakeDb = (collections) => {
+    const docRef = (collection, id) => ({
+        collection,
+        id,
+        get: jest.fn(async () => ({
+            exists: !!collections[collection]?.[id],
+            id,
+            data: () => collections[collection]?.[id],
+        })),
+        set: jest.fn(async (data) => {
+            collections[collection] = collections[collection] || {};
+            collections[collection][id] = { ...data };
+        }),
+    });
+    const matches = (value, op, expected) => {
+        switch (op) {
+            case '<=': return value instanceof Date && value <= expected;
+            case '>=': return value instanceof Date && value >= expected;
+            case 'array-contains': return Array.isArray(value) && value.includes(expected);
+            default: return value === expected;
+        }
+    };
+    return {
+        collection: jest.fn((collection) => {
+            const filters = [];
+            const query = {
+                where: jest.fn((field, op, value) => {
+                    filters.push(data => matches(data[field], op, value));
+                    return query;
+                }),
+                limit: jest.fn(() => query),
+                get: jest.fn(async () => {
+                    const docs = Object.entries(collections[collection] || {})
+                        .filter(([, data]) => filters.every(filter => filter(data)))
+                        .map(([id, data]) => ({ id, data: () => data }));
+                    return { docs, empty: docs.length === 0 };
+                }),
+                doc: (id) => docRef(collection, id),
+            };
+            return query;
+        }),
+        runTransaction: jest.fn(async (fn) => fn({
+            get: (ref) => ref.get(),
+            update: (ref, updates) => {
+                Object.assign(collections[ref.collection][ref.id], updates);
+            },
+        })),
+    };
+};
+describe('DoseEscalationService', () => {
+    let collections;
+    let notifier;
+    let auditService;
+    let now;
+    const scheduledFor = new Date('2024-01-01T08:00:00Z');
+    const reminder = {
+        id: 'reminder-1',
+        medicationId: 'med-1',
+        patientId: 'patient-1',
+        reminderTime: '08:00',
+        days: ['monday'],
+        isActive: true,
+        createdAt: new Date('2023-12-01T00:00:00Z'),
+        updatedAt: new Date('2023-12-01T00:00:00Z'),
+    };
+    const names = { medicationName: 'Lisinopril', patientName: 'Pat', timeZone: 'America/Chicago' };
+    const createService = () => {
+        const db = createFakeDb(collections);
+        return new doseEscalationService_1.DoseEscalationService({
+            db,
+            medicationService: new medicationService_1.MedicationService({ db }),
+            auditService: auditService,
+            familyGroupService: new familyGroupService_1.FamilyGroupService({ db }),
+            notifier,
+            clock: { now: () => now },
+            graceMinutes: 60,
+            escalationIntervalMinutes: 30,
+        });
+    };
+    const escalation = () => collections.doseEscalations['reminder-1_1704096000000'];
+    beforeEach(() => {
+        now = scheduledFor;
+        notifier = { sendMissedDoseAlert: jest.fn().mockResolvedValue(undefined) };
+        auditService = { logDoseEscalation: jest.fn().mockResolvedValue(undefined) };
+        collections = {
+            doseEscalations: {},
+            medicationLogs: {},
+            medications: {
+                'med-1': { name: 'Lisinopril', dosage: '10mg' },
+            },
+            users: {
+                'patient-1': { name: 'Pat', familyGroupId: 'family-1' },
+            },
+            familyGroups: {
+                'family-1': {
+                    members: [
+                        { uid: 'patient-1', email: 'pat@example.com', name: 'Pat', role: 'family_member' },
+                        { uid: 'carer-1', email: 'carer@example.com', name: 'Casey', role: 'primary_caregiver' },
+                        { uid: 'sibling-1', email: 'sam@example.com', name: 'Sam', role: 'family_member' },
+                    ],
+                },
+            },
+            patients: {},
+        };
+    });
+    it('should wait out the grace window before escalating', async () => {
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        now = new Date('2024-01-01T08:59:00Z');
+        const result = await service.processDueEscalations();
+        expect(result.data.due).toBe(0);
+        expect(escalation().nextCheckAt).toEqual(new Date('2024-01-01T09:00:00Z'));
+        expect(notifier.sendMissedDoseAlert).not.toHaveBeenCalled();
+    });
+    it('should notify the primary caregiver first', async () => {
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        now = new Date('2024-01-01T09:00:00Z');
+        const result = await service.processDueEscalations();
+        expect(result.data).toEqual({ due: 1, escalated: 1, resolved: 0, exhausted: 0, failed: 0 });
+        expect(notifier.sendMissedDoseAlert).toHaveBeenCalledTimes(1);
+        expect(notifier.sendMissedDoseAlert).toHaveBeenCalledWith({
+            to: 'carer@example.com',
+            caregiverName: 'Casey',
+            patientName: 'Pat',
+            medicationName: 'Lisinopril',
+            dosage: '10mg',
+            time: '08:00 UTC',
+        });
+        expect(escalation()).toMatchObject({
+            status: 'escalated',
+            level: 1,
+            notifiedMemberIds: ['carer-1'],
+            nextCheckAt: new Date('2024-01-01T09:30:00Z'),
+        });
+        expect(auditService.logDoseEscalation).toHaveBeenCalledWith('system', 'reminder-1_1704096000000', types_1.AuditAction.ESCALATE_MISSED_DOSE, types_1.AuditResult.SUCCESS, expect.objectContaining({ level: 1, notifiedMemberIds: ['carer-1'] }));
+    });
+    it('should escalate to the other members when nobody acknowledges', async () => {
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        now = new Date('2024-01-01T09:00:00Z');
+        await service.processDueEscalations();
+        now = new Date('2024-01-01T09:30:00Z');
+        await service.processDueEscalations();
+        expect(notifier.sendMissedDoseAlert).toHaveBeenCalledTimes(2);
+        expect(notifier.sendMissedDoseAlert).toHaveBeenLastCalledWith(expect.objectContaining({ to: 'sam@example.com' }));
+        expect(escalation()).toMatchObject({ level: 2, notifiedMemberIds: ['carer-1', 'sibling-1'] });
+    });
+    it('should close out and audit an escalation nobody acknowledged', async () => {
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        for (const time of ['09:00', '09:30', '10:00']) {
+            now = new Date(`2024-01-01T${time}:00Z`);
+            await service.processDueEscalations();
+        }
+        expect(notifier.sendMissedDoseAlert).toHaveBeenCalledTimes(2);
+        expect(escalation()).toMatchObject({ status: 'escalated', nextCheckAt: null, exhaustedAt: now });
+        expect(auditService.logDoseEscalation).toHaveBeenLastCalledWith('system', 'reminder-1_1704096000000', types_1.AuditAction.ESCALATE_MISSED_DOSE, types_1.AuditResult.FAILURE, expect.objectContaining({ reason: 'No caregiver acknowledged' }));
+    });
+    it('should go straight to family members when there is no primary caregiver', async () => {
+        collections.familyGroups['family-1'].members[1].role = 'family_member';
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        now = new Date('2024-01-01T09:00:00Z');
+        await service.processDueEscalations();
+        expect(notifier.sendMissedDoseAlert).toHaveBeenCalledTimes(2);
+        expect(escalation().notifiedMemberIds).toEqual(['carer-1', 'sibling-1']);
+    });
+    it('should treat the admin of a legacy group as the primary caregiver', async () => {
+        collections.familyGroups['family-1'].members[1].role = 'admin';
+        collections.familyGroups['family-1'].members[2].role = 'member';
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        now = new Date('2024-01-01T09:00:00Z');
+        await service.processDueEscalations();
+        expect(escalation().notifiedMemberIds).toEqual(['carer-1']);
+    });
+    it('should resolve instead of escalating once the dose is logged', async () => {
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        collections.medicationLogs['log-1'] = { medicationId: 'med-1', takenAt: new Date('2024-01-01T08:45:00Z') };
+        now = new Date('2024-01-01T09:00:00Z');
+        const result = await service.processDueEscalations();
+        expect(result.data.resolved).toBe(1);
+        expect(notifier.sendMissedDoseAlert).not.toHaveBeenCalled();
+        expect(escalation()).toMatchObject({ status: 'resolved', nextCheckAt: null });
+        expect(auditService.logDoseEscalation).toHaveBeenCalledWith('system', 'reminder-1_1704096000000', types_1.AuditAction.RESOLVE_MISSED_DOSE, types_1.AuditResult.SUCCESS, expect.any(Object));
+    });
+    it('should stop escalating once a caregiver acknowledges', async () => {
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        now = new Date('2024-01-01T09:00:00Z');
+        await service.processDueEscalations();
+        const result = await service.acknowledgeEscalation('reminder-1_1704096000000', 'carer-1');
+        now = new Date('2024-01-01T09:30:00Z');
+        await service.processDueEscalations();
+        expect(result.success).toBe(true);
+        expect(result.data).toMatchObject({ status: 'acknowledged', acknowledgedBy: 'carer-1' });
+        expect(notifier.sendMissedDoseAlert).toHaveBeenCalledTimes(1);
+        expect(auditService.logDoseEscalation).toHaveBeenCalledWith('carer-1', 'reminder-1_1704096000000', types_1.AuditAction.ACKNOWLEDGE_MISSED_DOSE, types_1.AuditResult.SUCCESS, expect.any(Object));
+    });
+    it('should not acknowledge an escalation that is already closed', async () => {
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        await service.acknowledgeEscalation('reminder-1_1704096000000', 'carer-1');
+        const result = await service.acknowledgeEscalation('reminder-1_1704096000000', 'sibling-1');
+        expect(result.success).toBe(false);
+        expect(escalation().acknowledgedBy).toBe('carer-1');
+    });
+    it('should record when there are no caregivers to notify', async () => {
+        collections.users['patient-1'].familyGroupId = undefined;
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        now = new Date('2024-01-01T09:00:00Z');
+        const result = await service.processDueEscalations();
+        expect(result.data.exhausted).toBe(1);
+        expect(escalation()).toMatchObject({ status: 'pending', nextCheckAt: null });
+        expect(auditService.logDoseEscalation).toHaveBeenCalledWith('system', 'reminder-1_1704096000000', types_1.AuditAction.ESCALATE_MISSED_DOSE, types_1.AuditResult.FAILURE, expect.objectContaining({ reason: 'No caregivers to notify' }));
+    });
+    it('should list open escalations for a caregiver who was notified', async () => {
+        const service = createService();
+        await service.trackDose(reminder, scheduledFor, names);
+        now = new Date('2024-01-01T09:00:00Z');
+        await service.processDueEscalations();
+        const carer = await service.getOpenEscalationsForCaregiver('carer-1');
+        const sibling = await service.getOpenEscalationsForCaregiver('sibling-1');
+        expect(carer.data.map(e => e.id)).toEqual(['reminder-1_1704096000000']);
+        expect(sibling.data).toEqual([]);
+    });
+});
@@ -0,0 +1,158 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const familyGroupService_1 = require("../familyGroupService");
+const types_1 = require("../../types");
+const testUtils_1 = require("../../__tests__/testUtils");
+(0, testUtils_1.mockConsole)();
+// In-memory Firestore with just enough to run the service's transactions
+const createFakeDb = (collections) => {
+    const docRef = (collection, id) => ({
+        id,
+        get: async () => ({
+            exists: !!collections[collection]?.[id],
+            id,
+            data: () => collections[collection]?.[id],
+        }),
+        update: async (updates) => {
+            Object.assign(collections[collection][id], updates);
+        },
+        delete: async () => {
+            delete collections[collection][id];
+        },
+    });
+    return {
+        collection: jest.fn((collection) => ({
+            doc: (id) => docRef(collection, id),
+        })),
+        runTransaction: jest.fn((fn) => fn({
+            get: (ref) => ref.get(),
+            update: (ref, data) => ref.update(data),
+            delete: (ref) => ref.delete(),
+        })),
+    };
+};
+describe('FamilyGroupService', () => {
+    let collections;
+    let auditService;
+    let service;
+    const member = (uid, role, extra = {}) => ({
+        uid,
+        email: `${uid}@example.com`,
+        name: uid,
+        role,
+        joinedAt: new Date('2024-01-01T00:00:00Z'),
+        ...extra,
+    });
+    beforeEach(() => {
+        collections = {
+            users: {
+                'owner': { familyGroupId: 'group-1' },
+                'helper': { familyGroupId: 'group-1' },
+                'dad': { familyGroupId: 'group-1' },
+            },
+            familyGroups: {
+                'group-1': {
+                    name: "Owner's Family",
+                    createdBy: 'owner',
+                    members: [member('owner', 'admin'), member('helper', 'member'), member('dad', 'family_member')],
+                },
+            },
+        };
+        auditService = { logFamilyGroupChange: jest.fn() };
+        service = new familyGroupService_1.FamilyGroupService({ db: createFakeDb(collections), auditService });
+    });
+    describe('getGroupsForUser', () => {
+        it('should return every group the user belongs to, including a legacy familyGroupId', async () => {
+            collections.familyGroups['group-2'] = { name: "In-laws", members: [member('helper', 'caregiver')] };
+            collections.users.helper = { familyGroupIds: ['group-2'], familyGroupId: 'group-1' };
+            const result = await service.getGroupsForUser('helper');
+            expect(result.success).toBe(true);
+            expect(result.data.map(group => group.id)).toEqual(['group-2', 'group-1']);
+        });
+        it('should return an empty list when the user has no group', async () => {
+            collections.users.loner = {};
+            const result = await service.getGroupsForUser('loner');
+            expect(result).toEqual({ success: true, data: [] });
+        });
+    });
+    describe('getMembersForUser', () => {
+        it('should list members across groups once each', async () => {
+            collections.familyGroups['group-2'] = { members: [member('helper', 'caregiver'), member('aunt', 'family_member')] };
+            collections.users.helper = { familyGroupIds: ['group-1', 'group-2'] };
+            const result = await service.getMembersForUser('helper');
+            expect(result.data.map(m => m.uid)).toEqual(['owner', 'helper', 'dad', 'aunt']);
+        });
+    });
+    describe('updateMember', () => {
+        it('should change the role, rewrite legacy roles and audit the change', async () => {
+            const result = await service.updateMember('group-1', 'dad', { role: 'caregiver' }, 'owner');
+            expect(result.success).toBe(true);
+            expect(result.data.role).toBe('caregiver');
+            expect(collections.familyGroups['group-1'].members.map((m) => m.role))
+                .toEqual(['primary_caregiver', 'family_member', 'caregiver']);
+            expect(auditService.logFamilyGroupChange).toHaveBeenCalledWith('owner', 'group-1', types_1.AuditAction.UPDATE_FAMILY_PERMISSIONS, {
+                memberId: 'dad',
+                before: { role: 'family_member', permissions: null },
+                after: { role: 'caregiver', permissions: null },
+            });
+        });
+        it('should set permissions and clear them back to the role defaults', async () => {
+            await service.updateMember('group-1', 'dad', { permissions: ['view_medications'] }, 'owner');
+            expect(collections.familyGroups['group-1'].members[2].permissions).toEqual(['view_medications']);
+            await service.updateMember('group-1', 'dad', { permissions: null }, 'owner');
+            expect(collections.familyGroups['group-1'].members[2]).not.toHaveProperty('permissions');
+        });
+        it('should fail for someone outside the group', async () => {
+            const result = await service.updateMember('group-1', 'stranger', { role: 'caregiver' }, 'owner');
+            expect(result).toEqual({ success: false, error: 'Member not found' });
+            expect(auditService.logFamilyGroupChange).not.toHaveBeenCalled();
+        });
+    });
+    describe('removeMember', () => {
+        it('should remove the member, clear their familyGroupId and audit it', async () => {
+            const result = await service.removeMember('group-1', 'dad', 'owner');
+            expect(result.success).toBe(true);
+            expect(collections.familyGroups['group-1'].members.map((m) => m.uid)).toEqual(['owner', 'helper']);
+            expect(collections.users.dad).toEqual(expect.objectContaining({ familyGroupIds: [], familyGroupId: null }));
+            expect(auditService.logFamilyGroupChange).toHaveBeenCalledWith('owner', 'group-1', types_1.AuditAction.REMOVE_FAMILY_MEMBER, { memberId: 'dad', role: 'family_member', left: false });
+        });
+        it('should record a member leaving', async () => {
+            const result = await service.removeMember('group-1', 'helper', 'helper');
+            expect(result.message).toBe('Left family group successfully');
+            expect(auditService.logFamilyGroupChange).toHaveBeenCalledWith('helper', 'group-1', types_1.AuditAction.REMOVE_FAMILY_MEMBER, expect.objectContaining({ left: true }));
+        });
+        it('should delete the group when its last member leaves', async () => {
+            collections.familyGroups['group-1'].members = [member('owner', 'primary_caregiver')];
+            await service.removeMember('group-1', 'owner', 'owner');
+            expect(collections.familyGroups['group-1']).toBeUndefined();
+            expect(collections.users.owner.familyGroupId).toBeNull();
+        });
+        it('should leave the member\'s other groups alone', async () => {
+            collections.users.dad = { familyGroupIds: ['group-1', 'group-2'] };
+            await service.removeMember('group-1', 'dad', 'owner');
+            expect(collections.users.dad.familyGroupIds).toEqual(['group-2']);
+        });
+        it('should move a legacy familyGroupId for another group into familyGroupIds', async () => {
+            collections.users.dad = { familyGroupIds: ['group-1'], familyGroupId: 'group-2' };
+            await service.removeMember('group-1', 'dad', 'owner');
+            expect(collections.users.dad).toEqual(expect.objectContaining({ familyGroupIds: ['group-2'], familyGroupId: 'group-2' }));
+        });
+    });
+    describe('transferPrimaryCaregiver', () => {
+        it('should swap the roles and reset the new primary caregiver\'s permissions', async () => {
+            collections.familyGroups['group-1'].members[1].permissions = ['view_medications'];
+            const result = await service.transferPrimaryCaregiver('group-1', 'owner', 'helper');
+            expect(result.success).toBe(true);
+            const [owner, helper] = collections.familyGroups['group-1'].members;
+            expect(owner.role).toBe('caregiver');
+            expect(helper.role).toBe('primary_caregiver');
+            expect(helper).not.toHaveProperty('permissions');
+            expect(auditService.logFamilyGroupChange).toHaveBeenCalledWith('owner', 'group-1', types_1.AuditAction.UPDATE_FAMILY_PERMISSIONS, { transferredFrom: 'owner', transferredTo: 'helper' });
+        });
+        it('should fail when the new primary caregiver is not a member', async () => {
+            const result = await service.transferPrimaryCaregiver('group-1', 'owner', 'stranger');
+            expect(result).toEqual({ success: false, error: 'Member not found' });
+            expect(collections.familyGroups['group-1'].members[0].role).toBe('admin');
+        });
+    });
+});
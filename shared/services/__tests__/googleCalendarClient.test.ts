@@ -0,0 +1,105 @@
+import { HttpGoogleCalendarClient, isGoogleCalendarError } from '../googleCalendarClient';
+import { FakeGoogleCalendarServer } from '../../__tests__/fakeGoogleCalendarServer';
+
+describe('HttpGoogleCalendarClient', () => {
+  let server: FakeGoogleCalendarServer;
+  let client: HttpGoogleCalendarClient;
+  let accessToken: string;
+
+  const event = {
+    summary: 'Cardiology follow-up',
+    location: 'Heart Specialists Clinic',
+    start: { dateTime: '2024-03-12T15:00:00.000Z' },
+    end: { dateTime: '2024-03-12T15:30:00.000Z' },
+  };
+
+  beforeEach(async () => {
+    server = new FakeGoogleCalendarServer({ pageSize: 2 });
+    server.addCalendar('primary-cal', 'Maria', { primary: true });
+    server.addCalendar('family-cal', 'Family');
+    server.addCalendar('holidays', 'Holidays', { accessRole: 'reader' });
+    const baseUrl = await server.start();
+    client = new HttpGoogleCalendarClient({
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      redirectUri: 'https://app.example.com/api/google-calendar/callback',
+      apiBaseUrl: `${baseUrl}/calendar/v3`,
+      authUrl: `${baseUrl}/auth`,
+      tokenUrl: `${baseUrl}/token`,
+      revokeUrl: `${baseUrl}/revoke`,
+    });
+    accessToken = (await client.exchangeCode('auth-code')).accessToken;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should ask for offline access in the consent URL', () => {
+    const url = new URL(client.getAuthUrl('state-123'));
+
+    expect(url.searchParams.get('access_type')).toBe('offline');
+    expect(url.searchParams.get('prompt')).toBe('consent');
+    expect(url.searchParams.get('state')).toBe('state-123');
+    expect(url.searchParams.get('redirect_uri')).toBe('https://app.example.com/api/google-calendar/callback');
+    expect(url.searchParams.get('scope')).toContain('https://www.googleapis.com/auth/calendar.events');
+  });
+
+  it('should exchange codes and refresh tokens', async () => {
+    const tokens = await client.exchangeCode('auth-code');
+    expect(tokens.refreshToken).toBeDefined();
+    expect(tokens.expiresAt.getTime()).toBeGreaterThan(Date.now());
+
+    const refreshed = await client.refreshAccessToken(tokens.refreshToken!);
+    expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+    expect(refreshed.refreshToken).toBeUndefined();
+
+    await expect(client.exchangeCode('wrong-code')).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('should list only calendars events can be added to', async () => {
+    const calendars = await client.listCalendars(accessToken);
+
+    expect(calendars).toEqual([
+      { id: 'primary-cal', summary: 'Maria', primary: true },
+      { id: 'family-cal', summary: 'Family', primary: false },
+    ]);
+  });
+
+  it('should only update an event whose etag still matches', async () => {
+    const created = await client.insertEvent(accessToken, 'family-cal', event);
+    const updated = await client.updateEvent(accessToken, 'family-cal', created.id, { ...event, summary: 'Moved' }, created.etag);
+    expect(updated.summary).toBe('Moved');
+    expect(updated.etag).not.toBe(created.etag);
+
+    const stale = client.updateEvent(accessToken, 'family-cal', created.id, event, created.etag);
+    await expect(stale).rejects.toMatchObject({ status: 412 });
+
+    await client.deleteEvent(accessToken, 'family-cal', created.id);
+    await expect(client.deleteEvent(accessToken, 'family-cal', created.id)).rejects.toMatchObject({ status: 410 });
+  });
+
+  it('should list only changed events once given a sync token', async () => {
+    const first = await client.insertEvent(accessToken, 'family-cal', event);
+    await client.insertEvent(accessToken, 'family-cal', event);
+    await client.insertEvent(accessToken, 'family-cal', event);
+
+    // Three events over two pages
+    const full = await client.listChangedEvents(accessToken, 'family-cal');
+    expect(full.events).toHaveLength(3);
+    expect(full.nextSyncToken).toBeDefined();
+
+    server.removeEvent('family-cal', first.id);
+    const changes = await client.listChangedEvents(accessToken, 'family-cal', full.nextSyncToken);
+    expect(changes.events).toEqual([expect.objectContaining({ id: first.id, status: 'cancelled' })]);
+  });
+
+  it('should fail with 410 when the sync token has expired', async () => {
+    const { nextSyncToken } = await client.listChangedEvents(accessToken, 'family-cal');
+    server.expireSyncTokens();
+
+    const error = await client.listChangedEvents(accessToken, 'family-cal', nextSyncToken).catch(e => e);
+
+    expect(isGoogleCalendarError(error, 410)).toBe(true);
+  });
+});
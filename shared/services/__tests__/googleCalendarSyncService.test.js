@@ -0,0 +1,334 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const googleCalendarSyncService_1 = require("../googleCalendarSyncService");
+const googleCalendarClient_1 = require("../googleCalendarClient");
+const appointmentService_1 = require("../appointmentService");
+const types_1 = require("../../types");
+const secretTokens_1 = require("../../utils/secretTokens");
+const encryption_1 = require("../../utils/encryption");
+const fakeGoogleCalendarServer_1 = require("../../__tests__/fakeGoogleCalendarServer");
+const testUtils_1 = require("../../__tests__/testUtils");
+(0, testUtils_1.mockConsole)();
+// In-memory Firestore covering the sync and appointment queries
+const createFakeDb = (collections) => {
+    let nextId = 1;
+    const docRef = (collection, id) => ({
+        id,
+        get: async () => {
+            // A snapshot, so later writes don't change what was read
+            const data = collections[collection]?.[id] && { ...collections[collection][id] };
+            return { exists: !!data, id, data: () => data && { ...data } };
+        },
+        set: async (data) => {
+            collections[collection] = { ...collections[collection], [id]: { ...data } };
+        },
+        update: async (updates) => {
+            Object.assign(collections[collection][id], updates);
+        },
+        delete: async () => {
+            delete collections[collection]?.[id];
+        },
+    });
+    const matches = (value, op, expected) => {
+        switch (op) {
+            case '>=': return value >= expected;
+            case '<=': return value <= expected;
+            case 'array-contains': return Array.isArray(value) && value.includes(expected);
+            default: return value === expected;
+        }
+    };
+    return {
+        collection: jest.fn((collection) => {
+            const filters = [];
+            let order;
+            const query = {
+                where: jest.fn((field, op, value) => {
+                    filters.push(data => matches(data[field], op, value));
+                    return query;
+                }),
+                orderBy: jest.fn((field) => {
+                    order = field;
+                    return query;
+                }),
+                get: jest.fn(async () => {
+                    const docs = Object.entries(collections[collection] || {})
+                        .filter(([, data]) => filters.every(filter => filter(data)))
+                        .sort(([, a], [, b]) => (order ? a[order] - b[order] : 0))
+                        .map(([id, data]) => ({ id, data: () => ({ ...data }) }));
+                    return { docs, empty: docs.length === 0 };
+                }),
+                doc: (id) => docRef(collection, id || `appointment-${nextId++}`),
+            };
+            return query;
+        }),
+    };
+};
+const TOKEN_KEY = Buffer.alloc(32, 1).toString('base64');
+describe('GoogleCalendarSyncService', () => {
+    let currentTime;
+    let collections;
+    let server;
+    let auditService;
+    let accessService;
+    let appointmentService;
+    let service;
+    const clock = { now: () => new Date(currentTime) };
+    const advance = (minutes) => {
+        currentTime = new Date(currentTime.getTime() + minutes * 60 * 1000);
+    };
+    const newAppointment = (overrides = {}) => ({
+        patientId: 'patient-1',
+        title: 'Cardiology follow-up',
+        description: 'Bring BP log',
+        dateTime: new Date('2024-03-12T15:00:00Z'),
+        duration: 30,
+        location: 'Heart Specialists Clinic',
+        provider: 'Dr. Smith',
+        status: 'scheduled',
+        ...overrides,
+    });
+    const createAppointment = async () => (await appointmentService.createAppointment(newAppointment(), 'patient-1')).data;
+    // Connects daughter-1's account and chooses the family calendar for patient-1
+    const connect = async () => {
+        const url = new URL((await service.getAuthUrl('daughter-1')).data);
+        await service.completeAuthorization(url.searchParams.get('state'), 'auth-code');
+        await service.updateSettings('daughter-1', { calendarId: 'family-cal', patientIds: ['patient-1'] });
+    };
+    const eventFor = (appointmentId) => {
+        const link = collections.googleCalendarEvents?.[`daughter-1_${appointmentId}`];
+        return link && server.events(link.calendarId).find(event => event.id === link.eventId);
+    };
+    beforeEach(async () => {
+        currentTime = new Date('2024-03-10T12:00:00Z');
+        collections = {};
+        server = new fakeGoogleCalendarServer_1.FakeGoogleCalendarServer({ now: clock.now });
+        server.addCalendar('primary-cal', 'Daughter', { primary: true });
+        server.addCalendar('family-cal', 'Family');
+        const baseUrl = await server.start();
+        auditService = { logGoogleCalendarChange: jest.fn(), logAppointmentChange: jest.fn() };
+        accessService = { can: jest.fn().mockResolvedValue(true) };
+        const db = createFakeDb(collections);
+        service = new googleCalendarSyncService_1.GoogleCalendarSyncService({
+            db,
+            client: new googleCalendarClient_1.HttpGoogleCalendarClient({
+                clientId: 'client-id',
+                clientSecret: 'client-secret',
+                redirectUri: 'https://app.example.com/api/google-calendar/callback',
+                apiBaseUrl: `${baseUrl}/calendar/v3`,
+                authUrl: `${baseUrl}/auth`,
+                tokenUrl: `${baseUrl}/token`,
+                revokeUrl: `${baseUrl}/revoke`,
+            }),
+            tokenEncryptionKey: TOKEN_KEY,
+            auditService,
+            accessService,
+            clock,
+        });
+        appointmentService = new appointmentService_1.AppointmentService({ db, clock, changeListener: service });
+    });
+    afterEach(async () => {
+        await server.stop();
+    });
+    describe('authorization', () => {
+        it('should keep tokens on the server and only accept a state once', async () => {
+            const url = new URL((await service.getAuthUrl('daughter-1')).data);
+            const state = url.searchParams.get('state');
+            const result = await service.completeAuthorization(state, 'auth-code');
+            expect(result.data).toEqual({ userId: 'daughter-1', calendarId: null, patientIds: [], connectedAt: currentTime });
+            const stored = collections.googleCalendarConnections['daughter-1'];
+            expect((0, encryption_1.decryptSecret)(stored.refreshToken, (0, encryption_1.parseEncryptionKey)(TOKEN_KEY))).toMatch(/^refresh-/);
+            expect(stored.refreshToken).not.toMatch(/refresh-/);
+            expect(stored.accessToken).not.toMatch(/access-/);
+            expect(collections.googleOAuthStates[(0, secretTokens_1.hashSecretToken)(state)]).toBeUndefined();
+            expect(auditService.logGoogleCalendarChange).toHaveBeenCalledWith('daughter-1', types_1.AuditAction.CONNECT_GOOGLE_CALENDAR, {
+                reconnected: false,
+            });
+            expect((await service.completeAuthorization(state, 'auth-code')).error).toBe('Authorization request not found');
+        });
+        it('should reject a state more than 10 minutes old', async () => {
+            const url = new URL((await service.getAuthUrl('daughter-1')).data);
+            advance(11);
+            const result = await service.completeAuthorization(url.searchParams.get('state'), 'auth-code');
+            expect(result.error).toBe('Authorization request expired');
+            expect(collections.googleCalendarConnections).toBeUndefined();
+        });
+        it('should report when Google Calendar is not configured', async () => {
+            const unconfigured = new googleCalendarSyncService_1.GoogleCalendarSyncService({ db: createFakeDb({}), accessService });
+            expect((await unconfigured.getAuthUrl('daughter-1')).error).toBe('Google Calendar is not configured');
+            await expect(unconfigured.appointmentChanged('patient-1')).resolves.toBeUndefined();
+        });
+        it('should stay off without a key to encrypt tokens with', async () => {
+            const keyless = new googleCalendarSyncService_1.GoogleCalendarSyncService({
+                db: createFakeDb({}),
+                client: new googleCalendarClient_1.HttpGoogleCalendarClient({ clientId: 'client-id', clientSecret: 'client-secret', redirectUri: 'https://app.example.com/cb' }),
+                accessService,
+            });
+            expect((await keyless.getAuthUrl('daughter-1')).error).toBe('Google Calendar is not configured');
+        });
+    });
+    describe('updateSettings', () => {
+        beforeEach(async () => {
+            const url = new URL((await service.getAuthUrl('daughter-1')).data);
+            await service.completeAuthorization(url.searchParams.get('state'), 'auth-code');
+        });
+        it('should only accept the user\'s writable calendars', async () => {
+            const result = await service.updateSettings('daughter-1', { calendarId: 'someone-elses-cal' });
+            expect(result.error).toBe('Calendar not found');
+        });
+        it('should only accept patients the user can see appointments for', async () => {
+            accessService.can.mockResolvedValue(false);
+            const result = await service.updateSettings('daughter-1', { patientIds: ['patient-2'] });
+            expect(result.error).toBe('Access denied');
+            expect(accessService.can).toHaveBeenCalledWith('daughter-1', 'patient-2', 'view_appointments');
+        });
+    });
+    describe('syncUser', () => {
+        beforeEach(connect);
+        it('should push open appointments as they change', async () => {
+            const created = (await appointmentService.createAppointment(newAppointment(), 'patient-1')).data;
+            await appointmentService.createAppointment(newAppointment({ dateTime: new Date('2024-01-01T15:00:00Z') }), 'patient-1');
+            // Created events are pushed straight away; the old appointment is outside the window
+            expect(server.events('family-cal')).toEqual([expect.objectContaining({
+                    summary: 'Cardiology follow-up',
+                    description: 'Bring BP log',
+                    location: 'Heart Specialists Clinic',
+                    start: { dateTime: '2024-03-12T15:00:00.000Z' },
+                    end: { dateTime: '2024-03-12T15:30:00.000Z' },
+                    status: 'tentative',
+                })]);
+            advance(5);
+            await appointmentService.updateStatus(created.id, 'confirmed', 'patient-1');
+            expect(eventFor(created.id)).toMatchObject({ status: 'confirmed' });
+            advance(5);
+            await appointmentService.updateStatus(created.id, 'cancelled', 'patient-1');
+            expect(server.events('family-cal')[0].status).toBe('cancelled');
+            expect(collections.googleCalendarEvents).toEqual({});
+        });
+        it('should pull edits made in Google without pushing them back', async () => {
+            const created = await createAppointment();
+            await service.syncUser('daughter-1');
+            const eventId = eventFor(created.id).id;
+            advance(5);
+            server.editEvent('family-cal', eventId, {
+                summary: 'Cardiology follow-up (moved)',
+                start: { dateTime: '2024-03-13T09:00:00.000Z' },
+                end: { dateTime: '2024-03-13T10:00:00.000Z' },
+            });
+            const requests = server.requests.length;
+            const result = await service.syncUser('daughter-1');
+            expect(result.data).toEqual({ pushed: 0, pulled: 1 });
+            expect((await appointmentService.getAppointmentById(created.id)).data).toMatchObject({
+                title: 'Cardiology follow-up (moved)',
+                dateTime: new Date('2024-03-13T09:00:00Z'),
+                duration: 60,
+            });
+            expect(server.requests.slice(requests).filter(request => request.startsWith('PUT'))).toEqual([]);
+            expect(collections.googleCalendarConnections['daughter-1'].lastSyncedAt).toEqual(currentTime);
+        });
+        it('should cancel an appointment whose event was deleted in Google', async () => {
+            const created = await createAppointment();
+            await service.syncUser('daughter-1');
+            server.removeEvent('family-cal', eventFor(created.id).id);
+            advance(5);
+            const result = await service.syncUser('daughter-1');
+            expect(result.data).toEqual({ pushed: 0, pulled: 1 });
+            expect((await appointmentService.getAppointmentById(created.id)).data.status).toBe('cancelled');
+            expect(collections.googleCalendarEvents).toEqual({});
+        });
+        it('should put back edits made in Google by users who can only view appointments', async () => {
+            const created = await createAppointment();
+            await service.syncUser('daughter-1');
+            accessService.can.mockImplementation(async (_user, _patient, permission) => permission === 'view_appointments');
+            advance(5);
+            server.editEvent('family-cal', eventFor(created.id).id, { location: 'Google location' });
+            const result = await service.syncUser('daughter-1');
+            expect(result.data).toEqual({ pushed: 0, pulled: 0 });
+            expect((await appointmentService.getAppointmentById(created.id)).data.location).toBe('Heart Specialists Clinic');
+            expect(eventFor(created.id).location).toBe('Heart Specialists Clinic');
+            expect(accessService.can).toHaveBeenCalledWith('daughter-1', 'patient-1', 'edit_appointments');
+        });
+        it('should re-create events deleted in Google by users who can only view appointments', async () => {
+            const created = await createAppointment();
+            await service.syncUser('daughter-1');
+            accessService.can.mockImplementation(async (_user, _patient, permission) => permission === 'view_appointments');
+            server.removeEvent('family-cal', eventFor(created.id).id);
+            advance(5);
+            const result = await service.syncUser('daughter-1');
+            expect(result.data).toEqual({ pushed: 1, pulled: 0 });
+            expect((await appointmentService.getAppointmentById(created.id)).data.status).toBe('scheduled');
+            expect(eventFor(created.id)).toMatchObject({ summary: 'Cardiology follow-up', status: 'tentative' });
+        });
+        it('should keep the later edit when an appointment changed on both sides', async () => {
+            const created = await createAppointment();
+            await service.syncUser('daughter-1');
+            const eventId = eventFor(created.id).id;
+            advance(5);
+            server.editEvent('family-cal', eventId, { location: 'Google location' });
+            advance(5);
+            await new appointmentService_1.AppointmentService({ db: createFakeDb(collections), clock })
+                .updateAppointment(created.id, { location: 'KinConnect location' }, 'patient-1');
+            await service.syncUser('daughter-1');
+            expect((await appointmentService.getAppointmentById(created.id)).data.location).toBe('KinConnect location');
+            expect(eventFor(created.id).location).toBe('KinConnect location');
+        });
+        it('should replace edits an appointment can\'t hold', async () => {
+            const created = await createAppointment();
+            await service.syncUser('daughter-1');
+            advance(5);
+            server.editEvent('family-cal', eventFor(created.id).id, { end: { dateTime: '2024-03-14T15:00:00.000Z' } });
+            await service.syncUser('daughter-1');
+            expect((await appointmentService.getAppointmentById(created.id)).data.duration).toBe(30);
+            expect(eventFor(created.id).end).toEqual({ dateTime: '2024-03-12T15:30:00.000Z' });
+        });
+        it('should remove events for patients the user can no longer see', async () => {
+            const created = await createAppointment();
+            await service.syncUser('daughter-1');
+            accessService.can.mockResolvedValue(false);
+            const result = await service.syncUser('daughter-1');
+            expect(result.data).toEqual({ pushed: 1, pulled: 0 });
+            expect(eventFor(created.id)).toBeUndefined();
+            expect(server.events('family-cal')[0].status).toBe('cancelled');
+        });
+        it('should move events when another calendar is chosen', async () => {
+            const created = await createAppointment();
+            await service.updateSettings('daughter-1', { calendarId: 'primary-cal' });
+            await service.syncUser('daughter-1');
+            expect(server.events('family-cal')[0].status).toBe('cancelled');
+            expect(server.events('primary-cal')).toEqual([expect.objectContaining({ summary: 'Cardiology follow-up' })]);
+            expect(collections.googleCalendarEvents[`daughter-1_${created.id}`].calendarId).toBe('primary-cal');
+        });
+        it('should refresh an expired access token', async () => {
+            await createAppointment();
+            const before = collections.googleCalendarConnections['daughter-1'].accessToken;
+            collections.googleCalendarConnections['daughter-1'].expiresAt = currentTime;
+            server.expireAccessTokens();
+            const result = await service.syncUser('daughter-1');
+            expect(result.success).toBe(true);
+            expect(collections.googleCalendarConnections['daughter-1'].accessToken).not.toBe(before);
+        });
+        it('should list every event again when the sync token has expired', async () => {
+            const created = await createAppointment();
+            await service.syncUser('daughter-1');
+            advance(5);
+            server.editEvent('family-cal', eventFor(created.id).id, { description: 'Fasting needed' });
+            server.expireSyncTokens();
+            const result = await service.syncUser('daughter-1');
+            expect(result.data).toEqual({ pushed: 0, pulled: 1 });
+            expect((await appointmentService.getAppointmentById(created.id)).data.description).toBe('Fasting needed');
+        });
+    });
+    describe('disconnect', () => {
+        it('should revoke the refresh token and forget synced events', async () => {
+            await connect();
+            await createAppointment();
+            const refreshToken = (0, encryption_1.decryptSecret)(collections.googleCalendarConnections['daughter-1'].refreshToken, (0, encryption_1.parseEncryptionKey)(TOKEN_KEY));
+            const result = await service.disconnect('daughter-1');
+            expect(result.success).toBe(true);
+            expect(server.revokedTokens).toEqual([refreshToken]);
+            expect(collections.googleCalendarConnections).toEqual({});
+            expect(collections.googleCalendarEvents).toEqual({});
+            // Events already in the calendar are left there
+            expect(server.events('family-cal')[0].status).toBe('tentative');
+        });
+    });
+});
@@ -0,0 +1,107 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const invitationService_1 = require("../invitationService");
+const types_1 = require("../../types");
+const testUtils_1 = require("../../__tests__/testUtils");
+(0, testUtils_1.mockConsole)();
+// In-memory Firestore covering the queries and transactions the sweeper runs
+const createFakeDb = (collections) => {
+    const docRef = (collection, id) => ({
+        id,
+        get: async () => ({
+            exists: !!collections[collection]?.[id],
+            id,
+            data: () => collections[collection]?.[id],
+        }),
+        update: async (updates) => {
+            Object.assign(collections[collection][id], updates);
+        },
+    });
+    const matches = (value, op, expected) => {
+        switch (op) {
+            case '<=': return value instanceof Date && value <= expected;
+            default: return value === expected;
+        }
+    };
+    return {
+        collection: jest.fn((collection) => {
+            const filters = [];
+            const query = {
+                where: jest.fn((field, op, value) => {
+                    filters.push(data => matches(data[field], op, value));
+                    return query;
+                }),
+                get: jest.fn(async () => {
+                    const docs = Object.entries(collections[collection] || {})
+                        .filter(([, data]) => filters.every(filter => filter(data)))
+                        .map(([id, data]) => ({ id, data: () => data }));
+                    return { docs, empty: docs.length === 0 };
+                }),
+                doc: (id) => docRef(collection, id),
+            };
+            return query;
+        }),
+        runTransaction: jest.fn((fn) => fn({
+            get: (ref) => ref.get(),
+            update: (ref, data) => ref.update(data),
+        })),
+    };
+};
+describe('InvitationService', () => {
+    const now = new Date('2024-03-10T12:00:00Z');
+    let collections;
+    let auditService;
+    let service;
+    const invitation = (status, expiresAt) => ({
+        inviterUid: 'owner',
+        patientEmail: 'dad@example.com',
+        status,
+        expiresAt: new Date(expiresAt),
+    });
+    beforeEach(() => {
+        collections = {
+            invitations: {
+                'past-due': invitation('pending', '2024-03-09T12:00:00Z'),
+                'still-open': invitation('pending', '2024-03-11T12:00:00Z'),
+                'already-accepted': invitation('accepted', '2024-03-01T12:00:00Z'),
+            },
+        };
+        auditService = { logInvitationChange: jest.fn() };
+        service = new invitationService_1.InvitationService({ db: createFakeDb(collections), auditService, clock: { now: () => now } });
+    });
+    describe('expireInvitations', () => {
+        it('should expire pending invitations past their expiry and audit each', async () => {
+            const result = await service.expireInvitations();
+            expect(result.success).toBe(true);
+            expect(result.data).toEqual({ due: 1, expired: 1 });
+            expect(collections.invitations['past-due']).toEqual(expect.objectContaining({ status: 'expired', expiredAt: now }));
+            expect(collections.invitations['still-open'].status).toBe('pending');
+            expect(collections.invitations['already-accepted'].status).toBe('accepted');
+            expect(auditService.logInvitationChange).toHaveBeenCalledWith('system', 'past-due', types_1.AuditAction.EXPIRE_INVITATION, { expiresAt: new Date('2024-03-09T12:00:00Z') });
+        });
+        it('should leave an invitation resent since the query alone', async () => {
+            const db = createFakeDb(collections);
+            db.runTransaction.mockImplementationOnce((fn) => {
+                collections.invitations['past-due'].expiresAt = new Date('2024-03-17T12:00:00Z');
+                return fn({
+                    get: (ref) => ref.get(),
+                    update: (ref, data) => ref.update(data),
+                });
+            });
+            service = new invitationService_1.InvitationService({ db, auditService, clock: { now: () => now } });
+            const result = await service.expireInvitations();
+            expect(result.data).toEqual({ due: 1, expired: 0 });
+            expect(collections.invitations['past-due'].status).toBe('pending');
+            expect(auditService.logInvitationChange).not.toHaveBeenCalled();
+        });
+        it('should report a failed query', async () => {
+            const db = createFakeDb(collections);
+            db.collection.mockImplementationOnce(() => {
+                throw new Error('Firestore unavailable');
+            });
+            service = new invitationService_1.InvitationService({ db, auditService });
+            const result = await service.expireInvitations();
+            expect(result).toEqual({ success: false, error: 'Failed to expire invitations' });
+        });
+    });
+});
@@ -0,0 +1,126 @@
+import { InvitationService } from '../invitationService';
+import { AuditService } from '../auditService';
+import { AuditAction } from '../../types';
+import { mockConsole } from '../../__tests__/testUtils';
+
+mockConsole();
+
+// In-memory Firestore covering the queries and transactions the sweeper runs
+const createFakeDb = (collections: Record<string, Record<string, any>>) => {
+  const docRef = (collection: string, id: string) => ({
+    id,
+    get: async () => ({
+      exists: !!collections[collection]?.[id],
+      id,
+      data: () => collections[collection]?.[id],
+    }),
+    update: async (updates: any) => {
+      Object.assign(collections[collection][id], updates);
+    },
+  });
+
+  const matches = (value: any, op: string, expected: any) => {
+    switch (op) {
+      case '<=': return value instanceof Date && value <= expected;
+      default: return value === expected;
+    }
+  };
+
+  return {
+    collection: jest.fn((collection: string) => {
+      const filters: Array<(data: any) => boolean> = [];
+      const query: any = {
+        where: jest.fn((field: string, op: string, value: any) => {
+          filters.push(data => matches(data[field], op, value));
+          return query;
+        }),
+        get: jest.fn(async () => {
+          const docs = Object.entries(collections[collection] || {})
+            .filter(([, data]) => filters.every(filter => filter(data)))
+            .map(([id, data]) => ({ id, data: () => data }));
+          return { docs, empty: docs.length === 0 };
+        }),
+        doc: (id: string) => docRef(collection, id),
+      };
+      return query;
+    }),
+    runTransaction: jest.fn((fn: any) => fn({
+      get: (ref: any) => ref.get(),
+      update: (ref: any, data: any) => ref.update(data),
+    })),
+  };
+};
+
+describe('InvitationService', () => {
+  const now = new Date('2024-03-10T12:00:00Z');
+  let collections: Record<string, Record<string, any>>;
+  let auditService: jest.Mocked<AuditService>;
+  let service: InvitationService;
+
+  const invitation = (status: string, expiresAt: string) => ({
+    inviterUid: 'owner',
+    patientEmail: 'dad@example.com',
+    status,
+    expiresAt: new Date(expiresAt),
+  });
+
+  beforeEach(() => {
+    collections = {
+      invitations: {
+        'past-due': invitation('pending', '2024-03-09T12:00:00Z'),
+        'still-open': invitation('pending', '2024-03-11T12:00:00Z'),
+        'already-accepted': invitation('accepted', '2024-03-01T12:00:00Z'),
+      },
+    };
+    auditService = { logInvitationChange: jest.fn() } as any;
+    service = new InvitationService({ db: createFakeDb(collections), auditService, clock: { now: () => now } });
+  });
+
+  describe('expireInvitations', () => {
+    it('should expire pending invitations past their expiry and audit each', async () => {
+      const result = await service.expireInvitations();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ due: 1, expired: 1 });
+      expect(collections.invitations['past-due']).toEqual(expect.objectContaining({ status: 'expired', expiredAt: now }));
+      expect(collections.invitations['still-open'].status).toBe('pending');
+      expect(collections.invitations['already-accepted'].status).toBe('accepted');
+      expect(auditService.logInvitationChange).toHaveBeenCalledWith(
+        'system',
+        'past-due',
+        AuditAction.EXPIRE_INVITATION,
+        { expiresAt: new Date('2024-03-09T12:00:00Z') }
+      );
+    });
+
+    it('should leave an invitation resent since the query alone', async () => {
+      const db = createFakeDb(collections);
+      db.runTransaction.mockImplementationOnce((fn: any) => {
+        collections.invitations['past-due'].expiresAt = new Date('2024-03-17T12:00:00Z');
+        return fn({
+          get: (ref: any) => ref.get(),
+          update: (ref: any, data: any) => ref.update(data),
+        });
+      });
+      service = new InvitationService({ db, auditService, clock: { now: () => now } });
+
+      const result = await service.expireInvitations();
+
+      expect(result.data).toEqual({ due: 1, expired: 0 });
+      expect(collections.invitations['past-due'].status).toBe('pending');
+      expect(auditService.logInvitationChange).not.toHaveBeenCalled();
+    });
+
+    it('should report a failed query', async () => {
+      const db = createFakeDb(collections);
+      db.collection.mockImplementationOnce(() => {
+        throw new Error('Firestore unavailable');
+      });
+      service = new InvitationService({ db, auditService });
+
+      const result = await service.expireInvitations();
+
+      expect(result).toEqual({ success: false, error: 'Failed to expire invitations' });
+    });
+  });
+});
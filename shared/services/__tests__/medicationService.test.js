@@ -0,0 +1,354 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const medicationService_1 = require("../medicationService");
+const testUtils_1 = require("../../__tests__/testUtils");
+(0, testUtils_1.mockConsole)();
+describe('MedicationService', () => {
+    let service;
+    let mockDb;
+    const baseMedication = {
+        prescribedDate: new Date('2024-01-01T00:00:00Z'),
+        startDate: new Date('2024-01-01T00:00:00Z'),
+    };
+    beforeEach(() => {
+        mockDb = (0, testUtils_1.createMockFirestoreDb)();
+        service = new medicationService_1.MedicationService({ db: mockDb });
+        jest.clearAllMocks();
+    });
+    describe('getExpectedDoseTimes', () => {
+        it('should return no doses when the medication has no schedule', () => {
+            const doses = service.getExpectedDoseTimes(baseMedication, new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'));
+            expect(doses).toEqual([]);
+        });
+        it('should return no doses for PRN schedules', () => {
+            const doses = service.getExpectedDoseTimes({ ...baseMedication, schedule: { type: 'prn' } }, new Date('2024-01-01T00:00:00Z'), new Date('2024-01-08T00:00:00Z'));
+            expect(doses).toEqual([]);
+        });
+        it('should expand fixed times for every day in range', () => {
+            const doses = service.getExpectedDoseTimes({ ...baseMedication, schedule: { type: 'fixed_times', times: ['20:00', '08:00'] } }, new Date('2024-01-01T00:00:00Z'), new Date('2024-01-03T00:00:00Z'));
+            expect(doses.map(d => d.toISOString())).toEqual([
+                '2024-01-01T08:00:00.000Z',
+                '2024-01-01T20:00:00.000Z',
+                '2024-01-02T08:00:00.000Z',
+                '2024-01-02T20:00:00.000Z',
+            ]);
+        });
+        it('should count interval doses from the first dose on the start date', () => {
+            const doses = service.getExpectedDoseTimes({ ...baseMedication, schedule: { type: 'interval', intervalHours: 8, firstDoseTime: '06:00' } }, new Date('2024-01-02T00:00:00Z'), new Date('2024-01-03T00:00:00Z'));
+            expect(doses.map(d => d.toISOString())).toEqual([
+                '2024-01-02T06:00:00.000Z',
+                '2024-01-02T14:00:00.000Z',
+                '2024-01-02T22:00:00.000Z',
+            ]);
+        });
+        it('should only include the listed weekdays for weekly schedules', () => {
+            // 2024-01-01 is a Monday
+            const doses = service.getExpectedDoseTimes({ ...baseMedication, schedule: { type: 'weekly', days: ['monday', 'thursday'], times: ['09:00'] } }, new Date('2024-01-01T00:00:00Z'), new Date('2024-01-08T00:00:00Z'));
+            expect(doses.map(d => d.toISOString())).toEqual([
+                '2024-01-01T09:00:00.000Z',
+                '2024-01-04T09:00:00.000Z',
+            ]);
+        });
+        it('should skip the off days of a cyclic schedule', () => {
+            const doses = service.getExpectedDoseTimes({ ...baseMedication, schedule: { type: 'cyclic', daysOn: 21, daysOff: 7, times: ['08:00'] } }, new Date('2024-01-20T00:00:00Z'), new Date('2024-01-31T00:00:00Z'));
+            // Days 1-21 on (Jan 1-21), days 22-28 off (Jan 22-28), next cycle starts Jan 29
+            expect(doses.map(d => d.toISOString())).toEqual([
+                '2024-01-20T08:00:00.000Z',
+                '2024-01-21T08:00:00.000Z',
+                '2024-01-29T08:00:00.000Z',
+                '2024-01-30T08:00:00.000Z',
+            ]);
+        });
+        it('should not expand doses outside the start and end dates', () => {
+            const doses = service.getExpectedDoseTimes({
+                prescribedDate: new Date('2024-01-01T00:00:00Z'),
+                startDate: new Date('2024-01-02T00:00:00Z'),
+                endDate: new Date('2024-01-03T00:00:00Z'),
+                schedule: { type: 'fixed_times', times: ['08:00'] },
+            }, new Date('2024-01-01T00:00:00Z'), new Date('2024-01-10T00:00:00Z'));
+            expect(doses.map(d => d.toISOString())).toEqual([
+                '2024-01-02T08:00:00.000Z',
+                '2024-01-03T08:00:00.000Z',
+            ]);
+        });
+    });
+    describe('updateMedication', () => {
+        const stored = {
+            patientId: 'user-123',
+            name: 'Lisinopril',
+            dosage: '5mg',
+            prescribedDate: new Date('2024-01-01T00:00:00Z'),
+            version: 2,
+        };
+        beforeEach(() => {
+            mockDb._mockDoc.get.mockResolvedValue({ exists: true, id: 'med-1', data: () => stored });
+        });
+        it('should record the changed fields as the next version', async () => {
+            const result = await service.updateMedication('med-1', { dosage: '10mg', name: 'Lisinopril', prescribedDate: new Date('2024-01-01T00:00:00Z') }, { uid: 'carer-1', name: 'Casey' });
+            expect(result.success).toBe(true);
+            expect(mockDb._mockDoc.set).toHaveBeenCalledWith({
+                medicationId: 'med-1',
+                patientId: 'user-123',
+                version: 3,
+                changedBy: 'carer-1',
+                changedByName: 'Casey',
+                changedAt: expect.any(Date),
+                changes: [{ field: 'dosage', before: '5mg', after: '10mg' }],
+            });
+            expect(mockDb._mockDoc.update).toHaveBeenCalledWith(expect.objectContaining({ dosage: '10mg', version: 3 }));
+        });
+        it('should not add a version when nothing changed', async () => {
+            await service.updateMedication('med-1', { dosage: '5mg' });
+            expect(mockDb._mockDoc.set).not.toHaveBeenCalled();
+            expect(mockDb._mockDoc.update).toHaveBeenCalledWith(expect.not.objectContaining({ version: expect.anything() }));
+        });
+        it('should return not found without writing history', async () => {
+            mockDb._mockDoc.get.mockResolvedValue({ exists: false });
+            const result = await service.updateMedication('missing', { dosage: '10mg' });
+            expect(result).toEqual({ success: false, error: 'Medication not found' });
+            expect(mockDb._mockDoc.set).not.toHaveBeenCalled();
+        });
+    });
+    describe('discontinueMedication', () => {
+        const medication = {
+            id: 'med-1',
+            patientId: 'user-123',
+            name: 'Lisinopril',
+            dosage: '10mg',
+            frequency: 'Once daily',
+            instructions: '',
+            prescribedBy: 'Dr. Smith',
+            isActive: true,
+            prescribedDate: new Date('2024-01-01T00:00:00Z'),
+            createdAt: new Date('2024-01-01T00:00:00Z'),
+            updatedAt: new Date('2024-01-01T00:00:00Z'),
+        };
+        it('should mark the medication inactive and switch off its reminders', async () => {
+            const now = new Date('2024-03-01T00:00:00Z');
+            const reminderRef = { update: jest.fn().mockResolvedValue(undefined) };
+            mockDb._mockDoc.get.mockResolvedValue({ exists: true, id: 'med-1', data: () => ({ ...medication, isActive: true }) });
+            mockDb._mockCollection.get.mockResolvedValueOnce({ docs: [{ ref: reminderRef }], empty: false });
+            const result = await service.discontinueMedication(medication, { reason: 'side_effect', notes: ' Persistent cough ' }, { uid: 'user-123' }, now);
+            expect(result.success).toBe(true);
+            expect(mockDb._mockDoc.update).toHaveBeenCalledWith(expect.objectContaining({
+                isActive: false,
+                endDate: now,
+                discontinuedAt: now,
+                discontinuedBy: 'user-123',
+                discontinueReason: 'side_effect',
+                discontinueNotes: 'Persistent cough',
+            }));
+            expect(mockDb._mockCollection.where).toHaveBeenCalledWith('medicationId', '==', 'med-1');
+            expect(reminderRef.update).toHaveBeenCalledWith({ isActive: false, nextNotifyAt: null, updatedAt: now });
+        });
+    });
+    describe('deleteMedication', () => {
+        it('should delete the medication with its logs, reminders and history', async () => {
+            const related = { ref: { delete: jest.fn().mockResolvedValue(undefined) } };
+            mockDb._mockCollection.get.mockResolvedValue({ docs: [related], empty: false });
+            const result = await service.deleteMedication('med-1');
+            expect(result.success).toBe(true);
+            expect(mockDb.collection).toHaveBeenCalledWith('medicationLogs');
+            expect(mockDb.collection).toHaveBeenCalledWith('medicationReminders');
+            expect(mockDb.collection).toHaveBeenCalledWith('medicationHistory');
+            expect(related.ref.delete).toHaveBeenCalledTimes(3);
+            expect(mockDb._mockDoc.delete).toHaveBeenCalled();
+        });
+    });
+    describe('getAdherenceReport', () => {
+        const snapshot = (docs) => ({
+            docs: docs.map(({ id, ...data }) => ({ id, data: () => data })),
+            empty: docs.length === 0
+        });
+        const medication = {
+            id: 'med-1',
+            patientId: 'user-123',
+            name: 'Lisinopril',
+            isActive: true,
+            prescribedDate: new Date('2024-01-01T00:00:00Z'),
+            startDate: new Date('2024-01-01T00:00:00Z'),
+            schedule: { type: 'fixed_times', times: ['08:00', '20:00'] },
+            createdAt: new Date('2024-01-01T00:00:00Z'),
+            updatedAt: new Date('2024-01-01T00:00:00Z'),
+        };
+        const log = (id, takenAt, medicationId = 'med-1', extra = {}) => ({
+            id,
+            medicationId,
+            patientId: 'user-123',
+            takenBy: 'user-123',
+            takenAt: new Date(takenAt),
+            createdAt: new Date(takenAt),
+            ...extra,
+        });
+        it('should classify on-time, late, missed and extra doses', async () => {
+            mockDb._mockCollection.get
+                .mockResolvedValueOnce(snapshot([medication]))
+                .mockResolvedValueOnce(snapshot([
+                log('log-1', '2024-01-01T08:10:00Z'), // on time
+                log('log-2', '2024-01-01T22:30:00Z'), // late
+                log('log-3', '2024-01-02T08:00:00Z'), // on time
+                log('log-4', '2024-01-02T14:00:00Z'), // extra
+            ]))
+                .mockResolvedValueOnce(snapshot([]));
+            const result = await service.getAdherenceReport('user-123', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-03T00:00:00Z'), { now: new Date('2024-01-05T00:00:00Z') });
+            expect(result.success).toBe(true);
+            expect(result.data).toEqual(expect.objectContaining({
+                expected: 4,
+                takenOnTime: 2,
+                takenLate: 1,
+                missed: 1,
+                pending: 0,
+                extra: 1,
+                proportionOfDaysCovered: 0.5,
+            }));
+        });
+        it('should count skipped, refused and partial doses separately from misses', async () => {
+            mockDb._mockCollection.get
+                .mockResolvedValueOnce(snapshot([medication]))
+                .mockResolvedValueOnce(snapshot([
+                log('log-1', '2024-01-01T08:00:00Z', 'med-1', { status: 'skipped', reasonCode: 'nausea' }),
+                log('log-2', '2024-01-01T20:05:00Z', 'med-1', { status: 'partial', amount: '5mg' }),
+                log('log-3', '2024-01-02T08:00:00Z', 'med-1', { status: 'refused', reasonCode: 'patient_choice' }),
+                log('log-4', '2024-01-02T20:00:00Z', 'med-1', { status: 'held', reasonCode: 'doctor_instruction' }),
+                log('log-5', '2024-01-02T23:00:00Z', 'med-1', { status: 'skipped', reasonCode: 'asleep' }), // extra, but not taken
+            ]))
+                .mockResolvedValueOnce(snapshot([]));
+            const result = await service.getAdherenceReport('user-123', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-03T00:00:00Z'), { now: new Date('2024-01-05T00:00:00Z') });
+            expect(result.data).toEqual(expect.objectContaining({
+                expected: 3, // The held dose is not expected
+                takenOnTime: 0,
+                takenLate: 0,
+                partial: 1,
+                skipped: 1,
+                refused: 1,
+                held: 1,
+                missed: 0,
+                extra: 0,
+                proportionOfDaysCovered: 0,
+            }));
+        });
+        it('should treat doses whose window is still open as pending', async () => {
+            mockDb._mockCollection.get
+                .mockResolvedValueOnce(snapshot([medication]))
+                .mockResolvedValueOnce(snapshot([log('log-1', '2024-01-01T08:00:00Z')]))
+                .mockResolvedValueOnce(snapshot([]));
+            const result = await service.getAdherenceReport('user-123', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'), { now: new Date('2024-01-01T21:00:00Z') });
+            expect(result.data).toEqual(expect.objectContaining({
+                expected: 1,
+                takenOnTime: 1,
+                missed: 0,
+                pending: 1,
+                proportionOfDaysCovered: 1,
+            }));
+        });
+        it('should fall back to reminder times when a medication has no schedule', async () => {
+            mockDb._mockCollection.get
+                .mockResolvedValueOnce(snapshot([{ ...medication, schedule: undefined }]))
+                .mockResolvedValueOnce(snapshot([]))
+                .mockResolvedValueOnce(snapshot([{
+                    id: 'reminder-1',
+                    medicationId: 'med-1',
+                    patientId: 'user-123',
+                    reminderTime: '09:00',
+                    days: ['monday'],
+                    isActive: true,
+                }]));
+            // 2024-01-01 is a Monday
+            const result = await service.getAdherenceReport('user-123', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-08T00:00:00Z'), { now: new Date('2024-01-10T00:00:00Z') });
+            expect(result.data).toEqual(expect.objectContaining({ expected: 1, missed: 1 }));
+        });
+        it('should report doses of unscheduled medications as as-needed', async () => {
+            mockDb._mockCollection.get
+                .mockResolvedValueOnce(snapshot([{ ...medication, schedule: { type: 'prn' } }]))
+                .mockResolvedValueOnce(snapshot([log('log-1', '2024-01-01T10:00:00Z')]))
+                .mockResolvedValueOnce(snapshot([]));
+            const result = await service.getAdherenceReport('user-123', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'));
+            expect(result.data.extra).toBe(0);
+            expect(result.data.medications[0]).toEqual(expect.objectContaining({
+                expected: 0,
+                asNeeded: 1,
+                proportionOfDaysCovered: null,
+            }));
+        });
+        it('should handle errors gracefully', async () => {
+            mockDb._mockCollection.get.mockRejectedValue(new Error('DB Error'));
+            const result = await service.getAdherenceReport('user-123', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'));
+            expect(result.success).toBe(false);
+            expect(result.error).toBe('Failed to calculate adherence');
+        });
+    });
+    describe('supply', () => {
+        const snapshot = (docs) => ({
+            docs: docs.map(({ id, ...data }) => ({ id, data: () => data })),
+            empty: docs.length === 0
+        });
+        const medication = {
+            id: 'med-1',
+            patientId: 'user-123',
+            name: 'Lisinopril',
+            dosage: '10mg',
+            frequency: 'Once daily',
+            instructions: '',
+            prescribedBy: 'Dr. Smith',
+            isActive: true,
+            prescribedDate: new Date('2024-01-01T00:00:00Z'),
+            startDate: new Date('2024-01-01T00:00:00Z'),
+            schedule: { type: 'fixed_times', times: ['08:00'] },
+            quantityDispensed: 30,
+            lastFillDate: new Date('2024-01-01T00:00:00Z'),
+            refillsRemaining: 2,
+            createdAt: new Date('2024-01-01T00:00:00Z'),
+            updatedAt: new Date('2024-01-01T00:00:00Z'),
+        };
+        const taken = (id, takenAt, extra = {}) => ({
+            id,
+            medicationId: 'med-1',
+            takenAt: new Date(takenAt),
+            status: 'taken',
+            ...extra,
+        });
+        it('should project the run-out date from the schedule and doses taken since the fill', async () => {
+            mockDb._mockCollection.get
+                .mockResolvedValueOnce(snapshot([
+                taken('log-1', '2024-01-01T08:00:00Z'),
+                taken('log-2', '2024-01-02T08:00:00Z'),
+                taken('log-3', '2024-01-03T08:00:00Z', { status: 'skipped', reasonCode: 'nausea' }),
+            ]))
+                .mockResolvedValueOnce(snapshot([]))
+                .mockResolvedValueOnce(snapshot([]));
+            const result = await service.getSupplyForecast(medication, new Date('2024-01-03T12:00:00Z'));
+            expect(result.success).toBe(true);
+            expect(result.data).toEqual(expect.objectContaining({
+                unitsUsed: 2,
+                onHand: 28,
+                basis: 'schedule',
+                dailyUsage: 1,
+                runOutDate: new Date('2024-02-01T08:00:00Z'),
+                daysRemaining: 28,
+            }));
+        });
+        it('should return no forecast until a fill has been recorded', async () => {
+            const result = await service.getSupplyForecast({ ...medication, quantityDispensed: undefined });
+            expect(result.success).toBe(true);
+            expect(result.data).toBeNull();
+            expect(mockDb._mockCollection.get).not.toHaveBeenCalled();
+        });
+        it('should carry over what is left and use up a refill', async () => {
+            mockDb._mockCollection.get.mockResolvedValueOnce(snapshot([
+                taken('log-1', '2024-01-01T08:00:00Z'),
+                taken('log-2', '2024-01-02T08:00:00Z'),
+            ]));
+            await service.recordRefill(medication, {
+                quantityDispensed: 30,
+                fillDate: new Date('2024-01-02T00:00:00Z'),
+            });
+            expect(mockDb._mockDoc.update).toHaveBeenCalledWith(expect.objectContaining({
+                quantityDispensed: 30,
+                quantityCarriedOver: 29,
+                lastFillDate: new Date('2024-01-02T00:00:00Z'),
+                lowSupplyAlertedAt: null,
+                refillsRemaining: 1,
+            }));
+        });
+    });
+});
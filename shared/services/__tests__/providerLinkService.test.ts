@@ -0,0 +1,143 @@
+import { ProviderLinkService } from '../providerLinkService';
+import { AuditService } from '../auditService';
+import { AuditAction, AuditResult } from '../../types';
+import { mockConsole } from '../../__tests__/testUtils';
+
+mockConsole();
+
+// In-memory Firestore covering the reads and writes provider links make
+const createFakeDb = (collections: Record<string, Record<string, any>>) => {
+  const docRef = (collection: string, id: string) => ({
+    id,
+    get: async () => ({
+      exists: !!collections[collection]?.[id],
+      id,
+      data: () => collections[collection]?.[id],
+    }),
+    set: async (data: any) => {
+      collections[collection] = { ...collections[collection], [id]: data };
+    },
+    delete: async () => {
+      delete collections[collection][id];
+    },
+  });
+
+  return {
+    collection: jest.fn((collection: string) => {
+      const filters: Array<(data: any) => boolean> = [];
+      const query: any = {
+        where: jest.fn((field: string, _op: string, value: any) => {
+          filters.push(data => data[field] === value);
+          return query;
+        }),
+        limit: jest.fn(() => query),
+        get: jest.fn(async () => {
+          const docs = Object.entries(collections[collection] || {})
+            .filter(([, data]) => filters.every(filter => filter(data)))
+            .map(([id, data]) => ({ id, data: () => data }));
+          return { docs, empty: docs.length === 0 };
+        }),
+        doc: (id: string) => docRef(collection, id),
+      };
+      return query;
+    }),
+  };
+};
+
+describe('ProviderLinkService', () => {
+  let collections: Record<string, Record<string, any>>;
+  let auditService: jest.Mocked<AuditService>;
+  let service: ProviderLinkService;
+
+  beforeEach(() => {
+    collections = {
+      users: {
+        'patient-1': { name: 'Dad', email: 'dad@example.com', userType: 'patient' },
+        'doctor-1': { name: 'Dr Lee', email: 'lee@clinic.example', userType: 'healthcare_provider' },
+        // Users can set their own userType, so it doesn't make them a provider
+        'daughter-1': { name: 'Ann', email: 'ann@example.com', userType: 'healthcare_provider' },
+      },
+      healthcare_providers: {
+        'doctor-1': { verifiedAt: new Date('2024-01-01T00:00:00Z') },
+      },
+      patient_access: {},
+    };
+    auditService = { logPatientAccess: jest.fn() } as any;
+    service = new ProviderLinkService({ db: createFakeDb(collections), auditService });
+  });
+
+  describe('linkProvider', () => {
+    it('should link a provider under the ID the Firestore rules check and audit it', async () => {
+      const result = await service.linkProvider('patient-1', ' Lee@Clinic.example ');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(expect.objectContaining({
+        id: 'doctor-1_patient-1',
+        providerName: 'Dr Lee',
+        patientName: 'Dad',
+      }));
+      expect(collections.patient_access['doctor-1_patient-1']).toEqual(expect.objectContaining({
+        providerId: 'doctor-1',
+        patientId: 'patient-1',
+      }));
+      expect(auditService.logPatientAccess).toHaveBeenCalledWith(
+        'patient-1',
+        'patient-1',
+        AuditAction.LINK_PROVIDER,
+        AuditResult.SUCCESS,
+        { providerId: 'doctor-1' }
+      );
+    });
+
+    it('should only link verified healthcare providers, once', async () => {
+      expect(await service.linkProvider('patient-1', 'nobody@example.com'))
+        .toEqual({ success: false, error: 'Provider not found' });
+      expect(await service.linkProvider('patient-1', 'ann@example.com'))
+        .toEqual({ success: false, error: 'User is not a healthcare provider' });
+
+      await service.linkProvider('patient-1', 'lee@clinic.example');
+      expect(await service.linkProvider('patient-1', 'lee@clinic.example'))
+        .toEqual({ success: false, error: 'Provider already linked' });
+    });
+  });
+
+  describe('unlinkProvider', () => {
+    beforeEach(async () => {
+      await service.linkProvider('patient-1', 'lee@clinic.example');
+      auditService.logPatientAccess.mockClear();
+    });
+
+    it('should delete the link and record which side revoked it', async () => {
+      const result = await service.unlinkProvider('doctor-1', 'patient-1', 'doctor-1');
+
+      expect(result.success).toBe(true);
+      expect(collections.patient_access['doctor-1_patient-1']).toBeUndefined();
+      expect(auditService.logPatientAccess).toHaveBeenCalledWith(
+        'doctor-1',
+        'patient-1',
+        AuditAction.UNLINK_PROVIDER,
+        AuditResult.SUCCESS,
+        { providerId: 'doctor-1', revokedByProvider: true }
+      );
+      expect(await service.findLink('doctor-1', 'patient-1')).toBeNull();
+    });
+
+    it('should report a link that does not exist', async () => {
+      const result = await service.unlinkProvider('doctor-1', 'patient-2', 'patient-2');
+
+      expect(result).toEqual({ success: false, error: 'Provider link not found' });
+    });
+  });
+
+  describe('getProvidersForPatient / getPatientsForProvider', () => {
+    it('should list links from either side', async () => {
+      await service.linkProvider('patient-1', 'lee@clinic.example');
+
+      const providers = await service.getProvidersForPatient('patient-1');
+      const patients = await service.getPatientsForProvider('doctor-1');
+
+      expect(providers.data!.map(link => link.providerId)).toEqual(['doctor-1']);
+      expect(patients.data!.map(link => link.patientId)).toEqual(['patient-1']);
+    });
+  });
+});
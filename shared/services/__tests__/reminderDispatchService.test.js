@@ -0,0 +1,175 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const reminderDispatchService_1 = require("../reminderDispatchService");
+const medicationService_1 = require("../medicationService");
+const testUtils_1 = require("../../__tests__/testUtils");
+(0, testUtils_1.mockConsole)();
+// Minimal in-memory Firestore covering the calls the dispatcher makes
+const createFakeDb = (collections) => {
+    const docRef = (collection, id) => ({
+        collection,
+        id,
+        get: jest.fn(async () => ({
+            exists: !!collections[collection]?.[id],
+            id,
+            data: () => collections[collection]?.[id],
+        })),
+    });
+    return {
+        collection: jest.fn((collection) => {
+            const filters = [];
+            const query = {
+                where: jest.fn((field, op, value) => {
+                    filters.push(data => (op === '<=' ? data[field] <= value : data[field] === value));
+                    return query;
+                }),
+                limit: jest.fn(() => query),
+                get: jest.fn(async () => {
+                    const docs = Object.entries(collections[collection] || {})
+                        .filter(([, data]) => filters.every(filter => filter(data)))
+                        .map(([id, data]) => ({ id, data: () => data }));
+                    return { docs, empty: docs.length === 0 };
+                }),
+                doc: (id) => docRef(collection, id),
+            };
+            return query;
+        }),
+        runTransaction: jest.fn(async (fn) => fn({
+            get: (ref) => ref.get(),
+            update: (ref, updates) => {
+                Object.assign(collections[ref.collection][ref.id], updates);
+            },
+        })),
+    };
+};
+describe('ReminderDispatchService', () => {
+    let collections;
+    let notifier;
+    let now;
+    const createService = (db = createFakeDb(collections)) => new reminderDispatchService_1.ReminderDispatchService({
+        db,
+        medicationService: new medicationService_1.MedicationService({ db }),
+        notifier,
+        clock: { now: () => now },
+    });
+    beforeEach(() => {
+        // 2024-01-01 is a Monday
+        now = new Date('2024-01-01T08:00:30Z');
+        notifier = { sendReminder: jest.fn().mockResolvedValue(undefined) };
+        collections = {
+            medicationReminders: {
+                'reminder-1': {
+                    medicationId: 'med-1',
+                    patientId: 'user-123',
+                    reminderTime: '08:00',
+                    days: ['monday', 'wednesday'],
+                    isActive: true,
+                    nextNotifyAt: new Date('2024-01-01T08:00:00Z'),
+                },
+            },
+            medications: {
+                'med-1': { name: 'Lisinopril', dosage: '10mg', instructions: 'Take with food', isActive: true },
+            },
+            users: {
+                'user-123': { email: 'patient@example.com', name: 'Pat' },
+            },
+            patients: {},
+        };
+    });
+    it('should send reminders that have come due', async () => {
+        const result = await createService().dispatchDueReminders();
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({ due: 1, sent: 1, skipped: 0, failed: 0 });
+        expect(notifier.sendReminder).toHaveBeenCalledWith({
+            to: 'patient@example.com',
+            name: 'Pat',
+            medicationName: 'Lisinopril',
+            dosage: '10mg',
+            time: '08:00',
+            instructions: 'Take with food',
+        });
+        expect(collections.medicationReminders['reminder-1'].lastNotified).toEqual(new Date('2024-01-01T08:00:00Z'));
+        // Advanced to Wednesday, the next selected day
+        expect(collections.medicationReminders['reminder-1'].nextNotifyAt).toEqual(new Date('2024-01-03T08:00:00Z'));
+    });
+    it('should not send reminders before they are due', async () => {
+        now = new Date('2024-01-01T07:59:00Z');
+        const result = await createService().dispatchDueReminders();
+        expect(result.data.due).toBe(0);
+        expect(notifier.sendReminder).not.toHaveBeenCalled();
+    });
+    it('should schedule the next reminder in the patient\'s timezone', async () => {
+        collections.patients['patient-1'] = { userId: 'user-123', timezone: 'America/Chicago' };
+        await createService().dispatchDueReminders();
+        // 08:00 on Monday in Chicago (UTC-6) is still to come
+        expect(collections.medicationReminders['reminder-1'].nextNotifyAt).toEqual(new Date('2024-01-01T14:00:00Z'));
+    });
+    it('should not send inactive reminders', async () => {
+        collections.medicationReminders['reminder-1'].isActive = false;
+        const result = await createService().dispatchDueReminders();
+        expect(result.data.due).toBe(0);
+        expect(notifier.sendReminder).not.toHaveBeenCalled();
+    });
+    it('should never send the same reminder twice when a run is retried', async () => {
+        const service = createService();
+        await service.dispatchDueReminders();
+        now = new Date('2024-01-01T08:02:00Z');
+        const retry = await service.dispatchDueReminders();
+        expect(retry.data.sent).toBe(0);
+        expect(notifier.sendReminder).toHaveBeenCalledTimes(1);
+    });
+    it('should not send when another run claims the reminder first', async () => {
+        const db = createFakeDb(collections);
+        const originalRunTransaction = db.runTransaction.getMockImplementation();
+        db.runTransaction.mockImplementationOnce(async (fn) => {
+            // A concurrent run claims the reminder between our query and our transaction
+            collections.medicationReminders['reminder-1'].nextNotifyAt = new Date('2024-01-03T08:00:00Z');
+            return originalRunTransaction(fn);
+        });
+        const service = createService(db);
+        const result = await service.dispatchDueReminders();
+        expect(result.data).toEqual({ due: 1, sent: 0, skipped: 1, failed: 0 });
+        expect(notifier.sendReminder).not.toHaveBeenCalled();
+    });
+    it('should pick up reminders missed by a late run within the lookback window', async () => {
+        now = new Date('2024-01-01T08:04:00Z');
+        const result = await createService().dispatchDueReminders();
+        expect(result.data.sent).toBe(1);
+    });
+    it('should skip reminders older than the lookback window but still reschedule them', async () => {
+        now = new Date('2024-01-01T08:06:00Z');
+        const result = await createService().dispatchDueReminders();
+        expect(result.data).toEqual({ due: 1, sent: 0, skipped: 1, failed: 0 });
+        expect(notifier.sendReminder).not.toHaveBeenCalled();
+        expect(collections.medicationReminders['reminder-1'].nextNotifyAt).toEqual(new Date('2024-01-03T08:00:00Z'));
+    });
+    it('should skip reminders for discontinued medications', async () => {
+        collections.medications['med-1'].isActive = false;
+        const result = await createService().dispatchDueReminders();
+        expect(result.data).toEqual({ due: 1, sent: 0, skipped: 1, failed: 0 });
+        expect(notifier.sendReminder).not.toHaveBeenCalled();
+    });
+    it('should count notifier errors as failures without retrying the slot', async () => {
+        notifier.sendReminder.mockRejectedValueOnce(new Error('Email service not configured'));
+        const service = createService();
+        const result = await service.dispatchDueReminders();
+        const retry = await service.dispatchDueReminders();
+        expect(result.data).toEqual({ due: 1, sent: 0, skipped: 0, failed: 1 });
+        expect(retry.data.due).toBe(0);
+        expect(notifier.sendReminder).toHaveBeenCalledTimes(1);
+    });
+    it('should track sent doses for missed-dose escalation', async () => {
+        collections.patients['patient-1'] = { userId: 'user-123', timezone: 'America/Chicago' };
+        const doseEscalationService = { trackDose: jest.fn().mockResolvedValue({ success: true }) };
+        const db = createFakeDb(collections);
+        const service = new reminderDispatchService_1.ReminderDispatchService({
+            db,
+            medicationService: new medicationService_1.MedicationService({ db }),
+            notifier,
+            doseEscalationService: doseEscalationService,
+            clock: { now: () => now },
+        });
+        await service.dispatchDueReminders();
+        expect(doseEscalationService.trackDose).toHaveBeenCalledWith(expect.objectContaining({ id: 'reminder-1' }), new Date('2024-01-01T08:00:00Z'), { medicationName: 'Lisinopril', patientName: 'Pat', timeZone: 'America/Chicago' });
+    });
+});
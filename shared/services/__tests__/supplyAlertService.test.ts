@@ -0,0 +1,188 @@
+import { SupplyAlertService, LowSupplyNotifier } from '../supplyAlertService';
+import { FamilyGroupService } from '../familyGroupService';
+import { MedicationService } from '../medicationService';
+import { mockConsole } from '../../__tests__/testUtils';
+
+mockConsole();
+
+// Minimal in-memory Firestore covering the calls the supply alert service makes
+const createFakeDb = (collections: Record<string, Record<string, any>>) => {
+  const docRef = (collection: string, id: string) => ({
+    id,
+    get: jest.fn(async () => ({
+      exists: !!collections[collection]?.[id],
+      id,
+      data: () => collections[collection]?.[id],
+    })),
+    update: jest.fn(async (updates: any) => {
+      Object.assign(collections[collection][id], updates);
+    }),
+  });
+
+  const matches = (value: any, op: string, expected: any) => {
+    switch (op) {
+      case '>=': return value instanceof Date && value >= expected;
+      default: return value === expected;
+    }
+  };
+
+  return {
+    collection: jest.fn((collection: string) => {
+      const filters: Array<(data: any) => boolean> = [];
+      const query: any = {
+        where: jest.fn((field: string, op: string, value: any) => {
+          filters.push(data => matches(data[field], op, value));
+          return query;
+        }),
+        limit: jest.fn(() => query),
+        get: jest.fn(async () => {
+          const docs = Object.entries(collections[collection] || {})
+            .filter(([, data]) => filters.every(filter => filter(data)))
+            .map(([id, data]) => ({ id, data: () => data }));
+          return { docs, empty: docs.length === 0 };
+        }),
+        doc: (id: string) => docRef(collection, id),
+      };
+      return query;
+    }),
+  };
+};
+
+describe('SupplyAlertService', () => {
+  let collections: Record<string, Record<string, any>>;
+  let notifier: jest.Mocked<LowSupplyNotifier>;
+  let now: Date;
+
+  const createService = () => {
+    const db = createFakeDb(collections);
+    return new SupplyAlertService({
+      db,
+      medicationService: new MedicationService({ db }),
+      familyGroupService: new FamilyGroupService({ db }),
+      notifier,
+      clock: { now: () => now },
+      thresholdDays: 7,
+    });
+  };
+
+  // 10 tablets filled on Jan 1, one a day, none logged yet
+  const medication = (overrides: Record<string, any> = {}) => ({
+    patientId: 'patient-1',
+    name: 'Lisinopril',
+    dosage: '10mg',
+    isActive: true,
+    prescribedDate: new Date('2024-01-01T00:00:00Z'),
+    schedule: { type: 'fixed_times', times: ['08:00'] },
+    quantityDispensed: 10,
+    lastFillDate: new Date('2024-01-01T00:00:00Z'),
+    pharmacy: 'Main St Pharmacy',
+    refillsRemaining: 1,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  const logsFor = (days: number) => Object.fromEntries(
+    Array.from({ length: days }, (_, i) => [`log-${i}`, {
+      medicationId: 'med-1',
+      status: 'taken',
+      takenAt: new Date(Date.UTC(2024, 0, 1 + i, 8)),
+    }])
+  );
+
+  beforeEach(() => {
+    now = new Date('2024-01-01T12:00:00Z');
+    notifier = { sendLowSupplyAlert: jest.fn().mockResolvedValue(undefined) };
+    collections = {
+      medications: { 'med-1': medication() },
+      medicationLogs: {},
+      medicationReminders: {},
+      patients: {},
+      users: {
+        'patient-1': { name: 'Pat', email: 'pat@example.com', familyGroupId: 'family-1' },
+      },
+      familyGroups: {
+        'family-1': {
+          members: [
+            { uid: 'patient-1', email: 'pat@example.com', name: 'Pat', role: 'family_member' },
+            { uid: 'carer-1', email: 'carer@example.com', name: 'Casey', role: 'primary_caregiver' },
+          ],
+        },
+      },
+    };
+  });
+
+  it('should not alert while there is enough supply', async () => {
+    collections.medicationLogs = logsFor(1);
+
+    const result = await createService().sendLowSupplyAlerts();
+
+    expect(result.data).toEqual({ checked: 1, alerted: 0, failed: 0 });
+    expect(notifier.sendLowSupplyAlert).not.toHaveBeenCalled();
+  });
+
+  it('should email the family once supply drops below the threshold', async () => {
+    collections.medicationLogs = logsFor(4);
+    now = new Date('2024-01-04T12:00:00Z');
+
+    const result = await createService().sendLowSupplyAlerts();
+
+    expect(result.data).toEqual({ checked: 1, alerted: 1, failed: 0 });
+    expect(notifier.sendLowSupplyAlert).toHaveBeenCalledTimes(2);
+    expect(notifier.sendLowSupplyAlert).toHaveBeenCalledWith({
+      to: 'carer@example.com',
+      recipientName: 'Casey',
+      patientName: 'Pat',
+      medicationName: 'Lisinopril',
+      daysRemaining: 6,
+      runOutDate: '2024-01-11',
+      pharmacy: 'Main St Pharmacy',
+      prescriptionNumber: undefined,
+      refillsRemaining: 1,
+    });
+    expect(collections.medications['med-1'].lowSupplyAlertedAt).toEqual(now);
+  });
+
+  it('should only alert once per fill', async () => {
+    collections.medicationLogs = logsFor(4);
+    now = new Date('2024-01-04T12:00:00Z');
+    const service = createService();
+
+    await service.sendLowSupplyAlerts();
+    now = new Date('2024-01-05T12:00:00Z');
+    const result = await service.sendLowSupplyAlerts();
+
+    expect(result.data).toEqual({ checked: 0, alerted: 0, failed: 0 });
+    expect(notifier.sendLowSupplyAlert).toHaveBeenCalledTimes(2);
+  });
+
+  it('should alert the patient directly when they are not in a family group', async () => {
+    collections.users['patient-1'].familyGroupId = undefined;
+    collections.medicationLogs = logsFor(4);
+    now = new Date('2024-01-04T12:00:00Z');
+
+    await createService().sendLowSupplyAlerts();
+
+    expect(notifier.sendLowSupplyAlert).toHaveBeenCalledTimes(1);
+    expect(notifier.sendLowSupplyAlert).toHaveBeenCalledWith(expect.objectContaining({ to: 'pat@example.com' }));
+  });
+
+  it('should skip medications whose supply is not tracked', async () => {
+    collections.medications['med-1'] = medication({ quantityDispensed: undefined });
+    collections.medications['med-2'] = medication({ isActive: false });
+
+    const result = await createService().sendLowSupplyAlerts();
+
+    expect(result.data).toEqual({ checked: 0, alerted: 0, failed: 0 });
+  });
+
+  it('should count a medication as failed when no email goes out', async () => {
+    notifier.sendLowSupplyAlert.mockRejectedValue(new Error('Email service not configured'));
+    collections.medicationLogs = logsFor(4);
+    now = new Date('2024-01-04T12:00:00Z');
+
+    const result = await createService().sendLowSupplyAlerts();
+
+    expect(result.data).toEqual({ checked: 1, alerted: 0, failed: 1 });
+  });
+});
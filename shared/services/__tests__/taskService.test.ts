@@ -0,0 +1,383 @@
+import { TaskService } from '../taskService';
+import { AuditService } from '../auditService';
+import { FamilyGroupService } from '../familyGroupService';
+import { MedicationService } from '../medicationService';
+import { AuditAction } from '../../types';
+import { mockConsole } from '../../__tests__/testUtils';
+
+mockConsole();
+
+// In-memory Firestore covering the task queries
+const createFakeDb = (collections: Record<string, Record<string, any>>) => {
+  let nextId = 1;
+
+  const docRef = (collection: string, id: string) => ({
+    id,
+    get: async () => ({
+      exists: !!collections[collection]?.[id],
+      id,
+      // A snapshot, so later writes don't change what was read
+      data: () => collections[collection]?.[id] && { ...collections[collection][id] },
+    }),
+    set: async (data: any) => {
+      collections[collection] = { ...collections[collection], [id]: data };
+    },
+    update: async (updates: any) => {
+      Object.assign(collections[collection][id], updates);
+    },
+    delete: async () => {
+      delete collections[collection][id];
+    },
+  });
+
+  const matches = (value: any, op: string, expected: any) => {
+    switch (op) {
+      case '>=': return value >= expected;
+      case '<=': return value <= expected;
+      case '<': return value < expected;
+      default: return value === expected;
+    }
+  };
+
+  return {
+    collection: jest.fn((collection: string) => {
+      const filters: Array<(data: any) => boolean> = [];
+      let order: string | undefined;
+      const query: any = {
+        where: jest.fn((field: string, op: string, value: any) => {
+          filters.push(data => matches(data[field], op, value));
+          return query;
+        }),
+        orderBy: jest.fn((field: string) => {
+          order = field;
+          return query;
+        }),
+        get: jest.fn(async () => {
+          const docs = Object.entries(collections[collection] || {})
+            .filter(([, data]) => filters.every(filter => filter(data)))
+            .sort(([, a], [, b]) => (order ? a[order] - b[order] : 0))
+            .map(([id, data]) => ({ id, data: () => data }));
+          return { docs, empty: docs.length === 0 };
+        }),
+        doc: (id?: string) => docRef(collection, id || `task-${nextId++}`),
+      };
+      return query;
+    }),
+  };
+};
+
+describe('TaskService', () => {
+  const now = new Date('2024-03-10T12:00:00Z');
+  let currentTime: Date;
+  let collections: Record<string, Record<string, any>>;
+  let auditService: jest.Mocked<AuditService>;
+  let service: TaskService;
+
+  const task = (overrides: object) => ({
+    patientId: 'patient-1',
+    title: 'Task',
+    description: '',
+    priority: 'medium',
+    status: 'pending',
+    dueDate: new Date('2024-03-12T12:00:00Z'),
+    createdBy: 'patient-1',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    collections = { tasks: {} };
+    auditService = { logTaskChange: jest.fn() } as any;
+    const familyGroupService = {
+      getMembersForUser: jest.fn().mockResolvedValue({
+        success: true,
+        data: [{ uid: 'patient-1' }, { uid: 'daughter-1' }],
+      }),
+    } as unknown as FamilyGroupService;
+    const medicationService = {
+      getPatientTimeZone: jest.fn().mockResolvedValue('UTC'),
+    } as unknown as MedicationService;
+    currentTime = now;
+    service = new TaskService({
+      db: createFakeDb(collections),
+      auditService,
+      familyGroupService,
+      medicationService,
+      clock: { now: () => currentTime },
+    });
+  });
+
+  describe('createTask', () => {
+    it('should create a task assigned to a family member and audit it', async () => {
+      const result = await service.createTask({
+        patientId: 'patient-1',
+        assignedTo: 'daughter-1',
+        title: 'Pick up prescription',
+        description: '',
+        priority: 'high',
+        status: 'pending',
+        dueDate: new Date('2024-03-12T17:00:00Z'),
+      }, 'patient-1');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(expect.objectContaining({
+        id: 'task-1',
+        assignedTo: 'daughter-1',
+        createdBy: 'patient-1',
+        createdAt: now,
+      }));
+      expect(auditService.logTaskChange).toHaveBeenCalledWith('patient-1', 'task-1', AuditAction.CREATE_TASK, {
+        patientId: 'patient-1',
+        assignedTo: 'daughter-1',
+      });
+    });
+
+    it('should not assign a task to someone outside the family group', async () => {
+      const result = await service.createTask({
+        patientId: 'patient-1',
+        assignedTo: 'stranger-1',
+        title: 'Pick up prescription',
+        description: '',
+        priority: 'high',
+        status: 'pending',
+        dueDate: new Date('2024-03-12T17:00:00Z'),
+      }, 'patient-1');
+
+      expect(result).toEqual({ success: false, error: "Assignee is not in the patient's family group" });
+      expect(collections.tasks).toEqual({});
+    });
+  });
+
+  describe('getTasksByPatientId', () => {
+    beforeEach(() => {
+      collections.tasks = {
+        later: task({ assignedTo: 'daughter-1', dueDate: new Date('2024-03-20T12:00:00Z') }),
+        soon: task({ assignedTo: 'daughter-1', dueDate: new Date('2024-03-11T12:00:00Z') }),
+        done: task({ status: 'completed', dueDate: new Date('2024-03-09T12:00:00Z') }),
+        otherPatient: task({ patientId: 'patient-2' }),
+      };
+    });
+
+    it('should list the patient\'s tasks soonest due first', async () => {
+      const result = await service.getTasksByPatientId('patient-1');
+
+      expect(result.data!.map(t => t.id)).toEqual(['done', 'soon', 'later']);
+    });
+
+    it('should filter by assignee, status and due date', async () => {
+      const byAssignee = await service.getTasksByPatientId('patient-1', { assignedTo: 'daughter-1', status: 'pending' });
+      const dueThisWeek = await service.getTasksByPatientId('patient-1', {
+        dueFrom: new Date('2024-03-10T00:00:00Z'),
+        dueTo: new Date('2024-03-17T00:00:00Z'),
+      });
+
+      expect(byAssignee.data!.map(t => t.id)).toEqual(['soon', 'later']);
+      expect(dueThisWeek.data!.map(t => t.id)).toEqual(['soon']);
+    });
+  });
+
+  describe('updateTask', () => {
+    beforeEach(() => {
+      collections.tasks = { 'task-9': task({ assignedTo: 'daughter-1' }) };
+    });
+
+    it('should record who completed a task and clear it when reopened', async () => {
+      const completed = await service.completeTask('task-9', 'daughter-1');
+
+      expect(completed.data).toEqual(expect.objectContaining({ status: 'completed', completedAt: now, completedBy: 'daughter-1' }));
+      expect(auditService.logTaskChange).toHaveBeenCalledWith('daughter-1', 'task-9', AuditAction.UPDATE_TASK, expect.objectContaining({
+        status: 'completed',
+        previousStatus: 'pending',
+      }));
+
+      const reopened = await service.updateTask('task-9', { status: 'in_progress' }, 'daughter-1');
+
+      expect(reopened.data!.completedAt).toBeUndefined();
+      expect(collections.tasks['task-9'].completedBy).toBeNull();
+    });
+
+    it('should unassign a task', async () => {
+      const result = await service.updateTask('task-9', { assignedTo: null }, 'patient-1');
+
+      expect(result.data!.assignedTo).toBeUndefined();
+    });
+
+    it('should return not found for a missing task', async () => {
+      const result = await service.updateTask('missing', { status: 'completed' }, 'patient-1');
+
+      expect(result).toEqual({ success: false, error: 'Task not found' });
+    });
+  });
+
+  describe('deleteTask', () => {
+    it('should delete the task and audit it', async () => {
+      collections.tasks = { 'task-9': task({ title: 'Call pharmacy' }) };
+
+      const result = await service.deleteTask('task-9', 'patient-1');
+
+      expect(result.success).toBe(true);
+      expect(collections.tasks['task-9']).toBeUndefined();
+      expect(auditService.logTaskChange).toHaveBeenCalledWith('patient-1', 'task-9', AuditAction.DELETE_TASK, {
+        patientId: 'patient-1',
+        title: 'Call pharmacy',
+      });
+    });
+  });
+
+  describe('recurring tasks', () => {
+    const createDailySeries = () => service.createSeries({
+      patientId: 'patient-1',
+      assignedTo: 'daughter-1',
+      title: 'Refill pill organizer',
+      description: '',
+      priority: 'medium',
+      recurrence: { type: 'daily' },
+      time: '09:00',
+      startDate: new Date('2024-03-01'),
+    }, 'patient-1');
+
+    // Instances of the series, soonest first
+    const instances = () => Object.entries(collections.tasks)
+      .filter(([, data]) => data.seriesId)
+      .sort(([, a], [, b]) => a.occurrenceDate - b.occurrenceDate);
+
+    it('should create the next 30 days of instances with the series', async () => {
+      const result = await createDailySeries();
+
+      expect(result.success).toBe(true);
+      expect(result.data!.generatedUntil).toEqual(new Date('2024-04-09T12:00:00Z'));
+      expect(instances()).toHaveLength(30);
+      expect(instances()[0]).toEqual([
+        `task-1_${new Date('2024-03-11T09:00:00Z').getTime()}`,
+        expect.objectContaining({
+          assignedTo: 'daughter-1',
+          status: 'pending',
+          dueDate: new Date('2024-03-11T09:00:00Z'),
+          seriesId: 'task-1',
+        }),
+      ]);
+      expect(auditService.logTaskChange).toHaveBeenCalledWith('patient-1', 'task-1', AuditAction.CREATE_TASK, {
+        patientId: 'patient-1',
+        recurrence: { type: 'daily' },
+        assignedTo: 'daughter-1',
+      });
+    });
+
+    it('should keep the series open when an instance is completed', async () => {
+      await createDailySeries();
+      const [firstId] = instances()[0];
+
+      await service.completeTask(firstId, 'daughter-1');
+
+      expect(instances().filter(([, data]) => data.status === 'pending')).toHaveLength(29);
+      expect(collections.taskSeries['task-1'].active).toBe(true);
+      expect(collections.tasks[firstId].detached).toBeUndefined();
+    });
+
+    it('should create new instances as time passes without repeating any', async () => {
+      await createDailySeries();
+      currentTime = new Date('2024-03-17T12:00:00Z');
+
+      const result = await service.generateRecurringTasks();
+      const again = await service.generateRecurringTasks();
+
+      expect(result.data).toEqual({ series: 1, created: 7 });
+      expect(again.data).toEqual({ series: 0, created: 0 });
+      expect(instances()).toHaveLength(37);
+    });
+
+    it('should stop once the series has ended', async () => {
+      await service.createSeries({
+        patientId: 'patient-1',
+        title: 'Blood pressure check',
+        description: '',
+        priority: 'medium',
+        recurrence: { type: 'weekly', days: ['monday'] },
+        time: '09:00',
+        startDate: new Date('2024-03-01'),
+        endDate: new Date('2024-03-18'),
+      }, 'patient-1');
+
+      expect(instances().map(([, data]) => data.dueDate)).toEqual([
+        new Date('2024-03-11T09:00:00Z'),
+        new Date('2024-03-18T09:00:00Z'),
+      ]);
+      expect(collections.taskSeries['task-1'].active).toBe(false);
+    });
+
+    it('should detach an instance edited on its own', async () => {
+      await createDailySeries();
+      const [[firstId], [secondId]] = instances();
+
+      await service.updateTask(firstId, { title: 'Refill and reorder' }, 'patient-1');
+      await service.updateTask(secondId, { status: 'in_progress' }, 'daughter-1');
+
+      expect(collections.tasks[firstId].detached).toBe(true);
+      expect(collections.tasks[secondId].detached).toBeUndefined();
+    });
+
+    it('should edit this and later instances but keep earlier and separately edited ones', async () => {
+      await createDailySeries();
+      const [[firstId], [secondId], [thirdId]] = instances();
+      await service.updateTask(thirdId, { title: 'Refill and reorder' }, 'patient-1');
+
+      const result = await service.updateFutureTasks(secondId, { assignedTo: 'patient-1' }, 'patient-1');
+
+      expect(result.data!.assignedTo).toBe('patient-1');
+      expect(collections.tasks[firstId].assignedTo).toBe('daughter-1');
+      expect(collections.tasks[secondId].assignedTo).toBe('patient-1');
+      expect(collections.tasks[thirdId]).toEqual(expect.objectContaining({ title: 'Refill and reorder', assignedTo: 'daughter-1' }));
+      expect(instances()).toHaveLength(30);
+      expect(auditService.logTaskChange).toHaveBeenCalledWith('patient-1', 'task-1', AuditAction.UPDATE_TASK, {
+        patientId: 'patient-1',
+        scope: 'future',
+        fromTaskId: secondId,
+        fields: ['assignedTo'],
+      });
+    });
+
+    it('should reschedule this and later instances when the time changes', async () => {
+      await createDailySeries();
+      const [[firstId], [secondId], [thirdId]] = instances();
+      await service.updateTask(thirdId, { title: 'Refill and reorder' }, 'patient-1');
+
+      await service.updateFutureTasks(secondId, { time: '18:00' }, 'patient-1');
+
+      const dueDates = instances().map(([, data]) => data.dueDate);
+      expect(dueDates.slice(0, 3)).toEqual([
+        new Date('2024-03-11T09:00:00Z'),
+        new Date('2024-03-12T18:00:00Z'),
+        new Date('2024-03-13T18:00:00Z'),
+      ]);
+      expect(collections.tasks[firstId]).toBeDefined();
+      expect(collections.tasks[thirdId]).toBeUndefined();
+      // April 9 at 18:00 is now past the 30 days
+      expect(instances()).toHaveLength(29);
+    });
+
+    it('should end the series at an instance', async () => {
+      await createDailySeries();
+      const [[firstId], [secondId]] = instances();
+
+      const result = await service.deleteFutureTasks(secondId, 'patient-1');
+      currentTime = new Date('2024-03-17T12:00:00Z');
+      await service.generateRecurringTasks();
+
+      expect(result.success).toBe(true);
+      expect(instances().map(([id]) => id)).toEqual([firstId]);
+      expect(collections.taskSeries['task-1']).toEqual(expect.objectContaining({
+        endDate: new Date('2024-03-11T00:00:00Z'),
+        active: false,
+      }));
+    });
+
+    it('should reject future edits to a one-off task', async () => {
+      collections.tasks = { 'task-9': task({}) };
+
+      const result = await service.updateFutureTasks('task-9', { title: 'Call pharmacy' }, 'patient-1');
+
+      expect(result).toEqual({ success: false, error: 'Task is not part of a recurring series' });
+    });
+  });
+});
@@ -0,0 +1,244 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.AccessGrantService = void 0;
+const types_1 = require("../types");
+const auditService_1 = require("./auditService");
+const familyGroupService_1 = require("./familyGroupService");
+const providerLinkService_1 = require("./providerLinkService");
+const clock_1 = require("../utils/clock");
+const accessGrants_1 = require("../utils/accessGrants");
+const DEFAULT_EMERGENCY_ACCESS_HOURS = 4;
+class AccessGrantService {
+    db;
+    auditService;
+    familyGroupService;
+    providerLinkService;
+    notifier;
+    clock;
+    emergencyAccessHours;
+    constructor(deps) {
+        this.db = deps.db;
+        this.auditService = deps.auditService || new auditService_1.AuditService({ db: deps.db });
+        this.familyGroupService = deps.familyGroupService || new familyGroupService_1.FamilyGroupService({ db: deps.db });
+        this.providerLinkService = deps.providerLinkService || new providerLinkService_1.ProviderLinkService({ db: deps.db, auditService: this.auditService });
+        this.notifier = deps.notifier;
+        this.clock = deps.clock || clock_1.systemClock;
+        this.emergencyAccessHours = deps.emergencyAccessHours ?? DEFAULT_EMERGENCY_ACCESS_HOURS;
+    }
+    /**
+     * Gives someone temporary access to a patient. The grant must already have
+     * been validated with `validateAccessGrant`.
+     * @param patientId - The patient's user uid
+     * @param grant - Who gets access, to what, and until when
+     * @param grantedBy - The uid of the patient or family member giving access
+     */
+    async createGrant(patientId, grant, grantedBy) {
+        try {
+            const data = {
+                patientId,
+                granteeId: grant.granteeId,
+                grantedBy,
+                permissions: grant.permissions,
+                ...(grant.reason ? { reason: grant.reason } : {}),
+                emergency: false,
+                createdAt: this.clock.now(),
+                expiresAt: new Date(grant.expiresAt),
+            };
+            const docRef = await this.db.collection('accessGrants').add(data);
+            await this.auditService.logPatientAccess(grantedBy, patientId, types_1.AuditAction.GRANT_ACCESS, types_1.AuditResult.SUCCESS, {
+                grantId: docRef.id,
+                granteeId: data.granteeId,
+                permissions: data.permissions,
+                expiresAt: data.expiresAt,
+            });
+            return {
+                success: true,
+                data: { id: docRef.id, ...data },
+                message: 'Access granted successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error creating access grant:', error);
+            return {
+                success: false,
+                error: 'Failed to grant access'
+            };
+        }
+    }
+    /**
+     * Emergency read access for a healthcare provider with no other access to
+     * the patient. It starts immediately, lasts a few hours, and everyone in the
+     * patient's family groups is told who took it and why.
+     * @param patientId - The patient's user uid
+     * @param userId - The uid of the provider taking access
+     * @param justification - Why access is needed; must already be validated
+     */
+    async breakGlass(patientId, userId, justification) {
+        try {
+            const [patientDoc, accessorDoc] = await Promise.all([
+                this.db.collection('users').doc(patientId).get(),
+                this.db.collection('users').doc(userId).get(),
+            ]);
+            if (!patientDoc.exists) {
+                return { success: false, error: 'Patient not found' };
+            }
+            const accessor = accessorDoc.exists ? accessorDoc.data() : {};
+            if (!(await this.providerLinkService.isHealthcareProvider(userId))) {
+                return { success: false, error: 'Only healthcare providers can take emergency access' };
+            }
+            const now = this.clock.now();
+            const data = {
+                patientId,
+                granteeId: userId,
+                grantedBy: userId,
+                permissions: accessGrants_1.EMERGENCY_PERMISSIONS,
+                emergency: true,
+                justification: justification.trim(),
+                createdAt: now,
+                expiresAt: new Date(now.getTime() + this.emergencyAccessHours * 60 * 60 * 1000),
+            };
+            const docRef = await this.db.collection('accessGrants').add(data);
+            const grant = { id: docRef.id, ...data };
+            await this.auditService.logBreakGlassAccess(userId, patientId, grant.justification, {
+                grantId: grant.id,
+                permissions: grant.permissions,
+                expiresAt: grant.expiresAt,
+            });
+            await this.notifyFamily(grant, patientDoc.data(), accessor);
+            return {
+                success: true,
+                data: grant,
+                message: 'Emergency access granted'
+            };
+        }
+        catch (error) {
+            console.error('Error granting emergency access:', error);
+            return {
+                success: false,
+                error: 'Failed to grant emergency access'
+            };
+        }
+    }
+    /**
+     * Ends a grant before it expires.
+     * @param patientId - The patient's user uid; grants for other patients aren't found
+     * @param grantId - The grant's ID
+     * @param revokedBy - The uid of the user revoking it
+     */
+    async revokeGrant(patientId, grantId, revokedBy) {
+        try {
+            const grantRef = this.db.collection('accessGrants').doc(grantId);
+            const grantDoc = await grantRef.get();
+            if (!grantDoc.exists || grantDoc.data().patientId !== patientId) {
+                return { success: false, error: 'Access grant not found' };
+            }
+            const grant = this.toGrant(grantDoc.id, grantDoc.data());
+            if (grant.revokedAt) {
+                return { success: true, data: grant, message: 'Access grant already revoked' };
+            }
+            const updates = { revokedAt: this.clock.now(), revokedBy };
+            await grantRef.update(updates);
+            await this.auditService.logPatientAccess(revokedBy, patientId, types_1.AuditAction.REVOKE_ACCESS_GRANT, types_1.AuditResult.SUCCESS, {
+                grantId,
+                granteeId: grant.granteeId,
+                emergency: grant.emergency,
+            });
+            return {
+                success: true,
+                data: { ...grant, ...updates },
+                message: 'Access grant revoked successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error revoking access grant:', error);
+            return {
+                success: false,
+                error: 'Failed to revoke access grant'
+            };
+        }
+    }
+    /**
+     * Gets every grant for a patient, newest first, including expired and
+     * revoked ones.
+     * @param patientId - The patient's user uid
+     */
+    async getGrantsForPatient(patientId) {
+        try {
+            const snapshot = await this.db.collection('accessGrants')
+                .where('patientId', '==', patientId)
+                .orderBy('createdAt', 'desc')
+                .get();
+            return {
+                success: true,
+                data: snapshot.docs.map((doc) => this.toGrant(doc.id, doc.data())),
+                message: 'Access grants retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting access grants:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve access grants'
+            };
+        }
+    }
+    /**
+     * Finds a grant in force that lets a user do something for a patient.
+     * @param granteeId - The user's uid
+     * @param patientId - The patient's user uid
+     * @param permission - What they want to do, or any access if left out
+     * @returns The grant, or null if there is none
+     */
+    async findActiveGrant(granteeId, patientId, permission) {
+        try {
+            const now = this.clock.now();
+            const snapshot = await this.db.collection('accessGrants')
+                .where('granteeId', '==', granteeId)
+                .where('patientId', '==', patientId)
+                .get();
+            return snapshot.docs
+                .map((doc) => this.toGrant(doc.id, doc.data()))
+                .find((grant) => (0, accessGrants_1.isGrantActive)(grant, now) && (!permission || grant.permissions.includes(permission))) || null;
+        }
+        catch (error) {
+            console.error('Error checking access grants:', error);
+            return null;
+        }
+    }
+    async notifyFamily(grant, patient, accessor) {
+        if (!this.notifier) {
+            return;
+        }
+        const members = await this.familyGroupService.getMembersForUser(grant.patientId);
+        // The patient's family groups, or just the patient when they aren't in one
+        const everyone = members.data && members.data.length > 0
+            ? members.data
+            : [{ uid: grant.patientId, email: patient.email, name: patient.name || '' }];
+        const recipients = everyone.filter(member => member.email && member.uid !== grant.granteeId);
+        for (const recipient of recipients) {
+            try {
+                await this.notifier.sendBreakGlassAlert({
+                    to: recipient.email,
+                    recipientName: recipient.name,
+                    patientName: patient.name || 'your family member',
+                    accessorName: accessor.name || accessor.email || 'Someone',
+                    justification: grant.justification,
+                    hours: this.emergencyAccessHours,
+                });
+            }
+            catch (error) {
+                console.error(`Error notifying ${recipient.uid} of emergency access:`, error);
+            }
+        }
+    }
+    toGrant(id, data) {
+        return {
+            id,
+            ...data,
+            createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : data.createdAt,
+            expiresAt: data.expiresAt?.toDate ? data.expiresAt.toDate() : data.expiresAt,
+            revokedAt: data.revokedAt?.toDate ? data.revokedAt.toDate() : data.revokedAt,
+        };
+    }
+}
+exports.AccessGrantService = AccessGrantService;
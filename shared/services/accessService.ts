@@ -1,26 +1,70 @@
 import { COLLECTIONS } from '../firebase';
 import { AuditService } from './auditService';
-import { AuditAction, AuditResult } from '../types';
+import { FamilyGroupService } from './familyGroupService';
+import { AccessGrantService, BreakGlassNotifier } from './accessGrantService';
+import { ProviderLinkService } from './providerLinkService';
+import { AuditAction, AuditResult, FamilyGroupMember, FamilyPermission } from '../types';
+import { getMemberPermissions } from '../utils/familyPermissions';
+import { getFamilyGroupIds } from '../utils/familyGroups';
+import { PROVIDER_PERMISSIONS } from '../utils/providerLinks';
 
 interface AccessServiceDeps {
   db: any;
   auditService?: AuditService;
+  familyGroupService?: FamilyGroupService;
+  accessGrantService?: AccessGrantService;
+  providerLinkService?: ProviderLinkService;
+}
+
+interface FamilyAccess {
+  granted: boolean;
+  reason?: string; // Why access was denied
+  sharedFamilyGroupIds?: string[];
+  targetUserUid?: string; // Set once the patient has been found
+}
+
+interface AccessServicesDeps {
+  db: any;
+  auditService: AuditService;
+  notifier?: BreakGlassNotifier;
+  emergencyAccessHours?: number;
+}
+
+export interface AccessServices {
+  accessService: AccessService;
+  accessGrantService: AccessGrantService;
+  providerLinkService: ProviderLinkService;
+}
+
+// Access from outside the family groups, as recorded in the audit log
+interface OtherAccess {
+  reason: 'Provider access' | 'Access grant' | 'Emergency access';
+  providerLinkId?: string;
+  grantId?: string;
 }
 
 export class AccessService {
   private db: any;
   private auditService?: AuditService;
+  private familyGroupService: FamilyGroupService;
+  private accessGrantService: AccessGrantService;
+  private providerLinkService: ProviderLinkService;
 
   constructor(deps: AccessServiceDeps) {
     this.db = deps.db;
     this.auditService = deps.auditService;
+    this.familyGroupService = deps.familyGroupService || new FamilyGroupService({ db: deps.db });
+    this.accessGrantService = deps.accessGrantService || new AccessGrantService({ db: deps.db, auditService: deps.auditService });
+    this.providerLinkService = deps.providerLinkService || new ProviderLinkService({ db: deps.db, auditService: deps.auditService });
   }
 
   /**
    * Checks if a user has access to a patient's data.
    * Access is granted if:
    * 1. The user IS the patient (userId === patientId)
-   * 2. The user is in the same family group as the patient
+   * 2. The user is in any of the patient's family groups
+   * 3. The user is a healthcare provider the patient has linked
+   * 4. The user holds an access grant for the patient that is in force
    */
   async canAccessPatient(userId: string, targetPatientId: string): Promise<boolean> {
     // If user is accessing their own data, grant access immediately
@@ -38,110 +82,237 @@ export class AccessService {
       return true;
     }
 
-    try {
-      // 1. Get the requesting user's familyGroupId
-      const userDoc = await this.db.collection(COLLECTIONS.USERS).doc(userId).get();
-      if (!userDoc.exists) {
-        // Log denied access - user not found
-        if (this.auditService) {
-          await this.auditService.logPatientAccessDenied(
-            userId,
-            targetPatientId,
-            'Requesting user not found'
-          );
-        }
-        return false;
+    const access = await this.resolveFamilyAccess(userId, targetPatientId);
+    const otherAccess = access.granted
+      ? null
+      : await this.findOtherAccess(userId, access.targetUserUid || targetPatientId);
+
+    // Log the access attempt result
+    if (this.auditService) {
+      if (access.granted) {
+        await this.auditService.logPatientAccess(
+          userId,
+          targetPatientId,
+          AuditAction.ACCESS_PATIENT,
+          AuditResult.SUCCESS,
+          { reason: 'Family group access', familyGroupIds: access.sharedFamilyGroupIds }
+        );
+      } else if (otherAccess) {
+        await this.auditService.logPatientAccess(
+          userId,
+          targetPatientId,
+          AuditAction.ACCESS_PATIENT,
+          AuditResult.SUCCESS,
+          otherAccess
+        );
+      } else {
+        await this.auditService.logPatientAccessDenied(userId, targetPatientId, access.reason!);
       }
-      
-      const userData = userDoc.data();
-      const userFamilyGroupId = userData?.familyGroupId;
+    }
+
+    return access.granted || !!otherAccess;
+  }
 
-      if (!userFamilyGroupId) {
-        // Log denied access - no family group
+  /**
+   * Checks if a user may do something for a patient.
+   * Granted if:
+   * 1. The user IS the patient, who may do everything
+   * 2. The user shares a family group with the patient and has the
+   *    permission there, either their own or by default for their role
+   * 3. The user is a healthcare provider the patient has linked, and the
+   *    permission is one providers have
+   * 4. The user holds an access grant for the patient, in force, that
+   *    includes the permission
+   * Denials are audited with the permission that was asked for.
+   */
+  async can(userId: string, targetPatientId: string, permission: FamilyPermission): Promise<boolean> {
+    if (userId === targetPatientId) {
+      if (this.auditService) {
+        await this.auditService.logPatientAccess(
+          userId,
+          targetPatientId,
+          AuditAction.ACCESS_PATIENT,
+          AuditResult.SUCCESS,
+          { reason: 'Self-access', isSelfAccess: true, permission }
+        );
+      }
+      return true;
+    }
+
+    const access = await this.resolveFamilyAccess(userId, targetPatientId);
+    let denial = access.reason!;
+
+    if (access.granted) {
+      // A caregiver may hold different permissions in each group they share with the patient
+      const memberships = await this.findMemberships(userId, access.sharedFamilyGroupIds!);
+
+      if (memberships.some(member => getMemberPermissions(member).includes(permission))) {
         if (this.auditService) {
-          await this.auditService.logPatientAccessDenied(
+          await this.auditService.logPatientAccess(
             userId,
             targetPatientId,
-            'User not in any family group'
+            AuditAction.ACCESS_PATIENT,
+            AuditResult.SUCCESS,
+            { reason: 'Family group access', permission, familyGroupIds: access.sharedFamilyGroupIds }
           );
         }
-        return false;
+        return true;
       }
 
-      // 2. Get the target patient's familyGroupId
+      denial = memberships.length > 0 ? `Missing permission: ${permission}` : 'User not found in family group members';
+    }
+
+    const otherAccess = await this.findOtherAccess(userId, access.targetUserUid || targetPatientId, permission);
+
+    if (this.auditService) {
+      if (otherAccess) {
+        await this.auditService.logPatientAccess(
+          userId,
+          targetPatientId,
+          AuditAction.ACCESS_PATIENT,
+          AuditResult.SUCCESS,
+          { ...otherAccess, permission }
+        );
+      } else {
+        await this.auditService.logPermissionDenied(userId, targetPatientId, permission, denial);
+      }
+    }
+
+    return !!otherAccess;
+  }
+
+  /**
+   * Gets the user's entries in the family groups they share with a patient,
+   * which hold what the user may do there.
+   * @param userId - The user's uid
+   * @param targetPatientId - The patient's user uid or patient profile ID
+   * @returns The entries, or an empty list if they share no group
+   */
+  async getSharedMemberships(userId: string, targetPatientId: string): Promise<FamilyGroupMember[]> {
+    const access = await this.resolveFamilyAccess(userId, targetPatientId);
+    return access.granted ? this.findMemberships(userId, access.sharedFamilyGroupIds!) : [];
+  }
+
+  /**
+   * Finds the user uid behind a patient ID. Routes take either a user uid or
+   * a patient profile ID, but access is looked up by uid.
+   * @param patientId - The patient's user uid or patient profile ID
+   * @returns The uid, or null if there is no such patient
+   */
+  async resolvePatientUid(patientId: string): Promise<string | null> {
+    const userDoc = await this.db.collection(COLLECTIONS.USERS).doc(patientId).get();
+    if (userDoc.exists) {
+      return patientId;
+    }
+
+    const patientDoc = await this.db.collection(COLLECTIONS.PATIENTS).doc(patientId).get();
+    return patientDoc.exists ? patientDoc.data()?.userId || null : null;
+  }
+
+  // The user's entries in the given family groups
+  private async findMemberships(userId: string, familyGroupIds: string[]): Promise<FamilyGroupMember[]> {
+    const groups = await this.familyGroupService.getGroupsForUser(userId);
+    return (groups.data || [])
+      .filter(group => familyGroupIds.includes(group.id))
+      .map(group => group.members.find(groupMember => groupMember.uid === userId))
+      .filter((member): member is FamilyGroupMember => !!member);
+  }
+
+  // A provider link or access grant letting the user at the patient's data, for the permission if given
+  private async findOtherAccess(
+    userId: string,
+    patientUid: string,
+    permission?: FamilyPermission
+  ): Promise<OtherAccess | null> {
+    if (!permission || PROVIDER_PERMISSIONS.includes(permission)) {
+      const link = await this.providerLinkService.findLink(userId, patientUid);
+      if (link) {
+        return { reason: 'Provider access', providerLinkId: link.id };
+      }
+    }
+
+    const grant = await this.accessGrantService.findActiveGrant(userId, patientUid, permission);
+    if (grant) {
+      return { reason: grant.emergency ? 'Emergency access' : 'Access grant', grantId: grant.id };
+    }
+
+    return null;
+  }
+
+  // Which family groups the user and the patient share, and why access is denied if none
+  private async resolveFamilyAccess(userId: string, targetPatientId: string): Promise<FamilyAccess> {
+    try {
+      // 1. Get the requesting user's family groups
+      const userDoc = await this.db.collection(COLLECTIONS.USERS).doc(userId).get();
+      if (!userDoc.exists) {
+        return { granted: false, reason: 'Requesting user not found' };
+      }
+
+      const userFamilyGroupIds = getFamilyGroupIds(userDoc.data());
+
+      if (userFamilyGroupIds.length === 0) {
+        return { granted: false, reason: 'User not in any family group' };
+      }
+
+      // 2. Get the target patient's family groups
       let targetUserUid = targetPatientId;
-      
+
       // Check if targetPatientId is a user ID or patient profile ID
       const targetUserDoc = await this.db.collection(COLLECTIONS.USERS).doc(targetPatientId).get();
-      
+
       if (!targetUserDoc.exists) {
          // Try finding patient by ID to get the userId
          const patientDoc = await this.db.collection(COLLECTIONS.PATIENTS).doc(targetPatientId).get();
          if (patientDoc.exists) {
              targetUserUid = patientDoc.data()?.userId;
          } else {
-             // Log denied access - target patient not found
-             if (this.auditService) {
-               await this.auditService.logPatientAccessDenied(
-                 userId,
-                 targetPatientId,
-                 'Target patient not found'
-               );
-             }
-             return false;
+             return { granted: false, reason: 'Target patient not found' };
          }
       }
 
       // Now we have the target user's UID (targetUserUid)
-      let targetFamilyGroupId;
+      let targetFamilyGroupIds: string[];
       if (targetUserDoc.exists) {
-          targetFamilyGroupId = targetUserDoc.data()?.familyGroupId;
+          targetFamilyGroupIds = getFamilyGroupIds(targetUserDoc.data());
       } else {
           const uDoc = await this.db.collection(COLLECTIONS.USERS).doc(targetUserUid).get();
-          targetFamilyGroupId = uDoc.data()?.familyGroupId;
+          targetFamilyGroupIds = getFamilyGroupIds(uDoc.data());
       }
 
-      const hasAccess = userFamilyGroupId === targetFamilyGroupId;
-
-      // Log the access attempt result
-      if (this.auditService) {
-        if (hasAccess) {
-          await this.auditService.logPatientAccess(
-            userId,
-            targetPatientId,
-            AuditAction.ACCESS_PATIENT,
-            AuditResult.SUCCESS,
-            {
-              reason: 'Family group access',
-              userFamilyGroupId,
-              targetFamilyGroupId
-            }
-          );
-        } else {
-          await this.auditService.logPatientAccessDenied(
-            userId,
-            targetPatientId,
-            'User and patient not in same family group'
-          );
-        }
+      const sharedFamilyGroupIds = userFamilyGroupIds.filter(id => targetFamilyGroupIds.includes(id));
+      if (sharedFamilyGroupIds.length === 0) {
+        return { granted: false, reason: 'User and patient not in same family group', targetUserUid };
       }
 
-      return hasAccess;
+      return { granted: true, sharedFamilyGroupIds, targetUserUid };
 
     } catch (error) {
       console.error('Error checking access:', error);
-      
-      // Log the error
-      if (this.auditService) {
-        await this.auditService.logPatientAccessDenied(
-          userId,
-          targetPatientId,
-          `Access check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-      
-      return false;
+      return {
+        granted: false,
+        reason: `Access check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
     }
   }
 }
 
+/**
+ * Builds the services that decide who can reach a patient, all writing to the
+ * same audit log so that denied access is recorded as well as granted access.
+ * @param deps - The database, audit log and break-glass settings
+ * @returns The access, access grant and provider link services
+ */
+export const createAccessServices = (deps: AccessServicesDeps): AccessServices => {
+  const { db, auditService } = deps;
+  const providerLinkService = new ProviderLinkService({ db, auditService });
+  const accessGrantService = new AccessGrantService({
+    db,
+    auditService,
+    providerLinkService,
+    notifier: deps.notifier,
+    emergencyAccessHours: deps.emergencyAccessHours,
+  });
+  const accessService = new AccessService({ db, auditService, accessGrantService, providerLinkService });
+
+  return { accessService, accessGrantService, providerLinkService };
+};
@@ -0,0 +1,274 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.AppointmentReminderService = exports.DEFAULT_REMINDER_OFFSETS = void 0;
+const firebase_1 = require("../firebase");
+const accessService_1 = require("./accessService");
+const appointmentService_1 = require("./appointmentService");
+const familyGroupService_1 = require("./familyGroupService");
+const medicationService_1 = require("./medicationService");
+const clock_1 = require("../utils/clock");
+const appointments_1 = require("../utils/appointments");
+const timezone_1 = require("../utils/timezone");
+const toDate = (value) => value ? (value.toDate ? value.toDate() : new Date(value)) : undefined;
+const REMINDER_SETTINGS_COLLECTION = 'appointmentReminderSettings';
+// A day and two hours before
+exports.DEFAULT_REMINDER_OFFSETS = [24 * 60, 2 * 60];
+class AppointmentReminderService {
+    db;
+    notifier;
+    auditService;
+    accessService;
+    appointmentService;
+    familyGroupService;
+    medicationService;
+    clock;
+    constructor(deps) {
+        this.db = deps.db;
+        this.notifier = deps.notifier;
+        this.auditService = deps.auditService;
+        this.accessService = deps.accessService || new accessService_1.AccessService({ db: deps.db, auditService: deps.auditService });
+        this.appointmentService = deps.appointmentService || new appointmentService_1.AppointmentService({ db: deps.db });
+        this.familyGroupService = deps.familyGroupService || new familyGroupService_1.FamilyGroupService({ db: deps.db });
+        this.medicationService = deps.medicationService || new medicationService_1.MedicationService({ db: deps.db });
+        this.clock = deps.clock || clock_1.systemClock;
+    }
+    // A patient's reminder settings, with the defaults if they were never changed
+    async getSettings(patientId) {
+        try {
+            const doc = await this.db.collection(REMINDER_SETTINGS_COLLECTION).doc(patientId).get();
+            return {
+                success: true,
+                data: this.toSettings(patientId, doc.exists ? doc.data() : {}),
+                message: 'Appointment reminder settings retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting appointment reminder settings:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve appointment reminder settings'
+            };
+        }
+    }
+    /**
+     * Changes when reminders are sent and whether the patient gets them.
+     * @param patientId - The patient's user uid
+     * @param updates - New offsets and/or patient setting, already validated
+     * @param updatedBy - The uid of the user making the change
+     */
+    async updateSettings(patientId, updates, updatedBy) {
+        try {
+            const changes = {};
+            if (updates.offsetsMinutes !== undefined) {
+                changes.offsetsMinutes = [...new Set(updates.offsetsMinutes)].sort((a, b) => b - a);
+            }
+            if (updates.notifyPatient !== undefined) {
+                changes.notifyPatient = updates.notifyPatient;
+            }
+            return await this.saveSettings(patientId, changes, updatedBy);
+        }
+        catch (error) {
+            console.error('Error updating appointment reminder settings:', error);
+            return {
+                success: false,
+                error: 'Failed to update appointment reminder settings'
+            };
+        }
+    }
+    /**
+     * Opts a user in or out of a patient's appointment reminders. Family
+     * members are added to the subscribers; the patient turns their own
+     * reminders on or off.
+     * @param patientId - The patient's user uid
+     * @param userId - The user opting in or out
+     * @param subscribed - Whether they want reminders
+     */
+    async setSubscription(patientId, userId, subscribed) {
+        try {
+            if (userId === patientId) {
+                return await this.saveSettings(patientId, { notifyPatient: subscribed }, userId);
+            }
+            if (subscribed && !(await this.isFamilyMember(patientId, userId))) {
+                return {
+                    success: false,
+                    error: 'Only family members can get appointment reminders'
+                };
+            }
+            const current = await this.getSettings(patientId);
+            if (!current.success) {
+                return current;
+            }
+            const others = current.data.subscriberIds.filter(id => id !== userId);
+            return await this.saveSettings(patientId, {
+                subscriberIds: subscribed ? [...others, userId] : others,
+            }, userId);
+        }
+        catch (error) {
+            console.error('Error updating appointment reminder subscription:', error);
+            return {
+                success: false,
+                error: 'Failed to update appointment reminder subscription'
+            };
+        }
+    }
+    /**
+     * Emails reminders for appointments that have reached one of their
+     * patient's reminder times. Each reminder is sent once per appointment
+     * time; reminders that came due together go out as one email.
+     */
+    async sendDueReminders() {
+        if (!this.notifier) {
+            return { success: false, error: 'Appointment reminders are not configured' };
+        }
+        try {
+            const now = this.clock.now();
+            const summary = { checked: 0, reminded: 0, failed: 0 };
+            const appointments = await this.appointmentService.getOpenAppointmentsBetween(now, new Date(now.getTime() + appointments_1.MAX_REMINDER_OFFSET_MINUTES * 60 * 1000));
+            if (!appointments.success) {
+                return { success: false, error: appointments.error };
+            }
+            const settingsByPatient = new Map();
+            for (const appointment of appointments.data) {
+                try {
+                    let settings = settingsByPatient.get(appointment.patientId);
+                    if (!settings) {
+                        const result = await this.getSettings(appointment.patientId);
+                        if (!result.success) {
+                            throw new Error(result.error);
+                        }
+                        settings = result.data;
+                        settingsByPatient.set(appointment.patientId, settings);
+                    }
+                    const sent = appointment.remindersSent || [];
+                    const due = settings.offsetsMinutes.filter(offset => !sent.includes(offset) && appointment.dateTime.getTime() - offset * 60 * 1000 <= now.getTime());
+                    if (due.length === 0) {
+                        continue;
+                    }
+                    summary.checked++;
+                    // Marked before sending so a retried run doesn't remind twice
+                    await this.db.collection(firebase_1.COLLECTIONS.APPOINTMENTS).doc(appointment.id).update({ remindersSent: [...sent, ...due] });
+                    if (await this.notifyRecipients(appointment, settings)) {
+                        summary.reminded++;
+                    }
+                    else {
+                        summary.failed++;
+                    }
+                }
+                catch (error) {
+                    console.error(`Error sending reminders for appointment ${appointment.id}:`, error);
+                    summary.failed++;
+                }
+            }
+            return {
+                success: true,
+                data: summary,
+                message: `Sent reminders for ${summary.reminded} of ${summary.checked} appointments`
+            };
+        }
+        catch (error) {
+            console.error('Error sending appointment reminders:', error);
+            return { success: false, error: 'Failed to send appointment reminders' };
+        }
+    }
+    // Resolves to true if anyone was reminded; nobody to remind counts as done
+    async notifyRecipients(appointment, settings) {
+        const [recipients, patientDoc, timeZone, medications] = await Promise.all([
+            this.getRecipients(appointment.patientId, settings),
+            this.db.collection(firebase_1.COLLECTIONS.USERS).doc(appointment.patientId).get(),
+            this.medicationService.getPatientTimeZone(appointment.patientId),
+            this.medicationService.getMedicationsByPatientId(appointment.patientId),
+        ]);
+        if (recipients.length === 0) {
+            return true;
+        }
+        const patient = patientDoc.exists ? patientDoc.data() : {};
+        const activeMedications = (medications.success ? medications.data : [])
+            .filter(medication => medication.isActive)
+            .map(medication => ({
+            name: medication.name,
+            dosage: medication.dosage,
+            ...(medication.instructions ? { instructions: medication.instructions } : {}),
+        }));
+        const when = `${(0, timezone_1.formatDateInZone)(appointment.dateTime, timeZone)} ${(0, timezone_1.formatTimeInZone)(appointment.dateTime, timeZone)} ` +
+            (0, timezone_1.getTimeZoneAbbreviation)(timeZone, appointment.dateTime);
+        let sent = 0;
+        for (const recipient of recipients) {
+            try {
+                const showMedications = recipient.uid === appointment.patientId ||
+                    (await this.accessService.can(recipient.uid, appointment.patientId, 'view_medications'));
+                await this.notifier.sendAppointmentReminder({
+                    to: recipient.email,
+                    recipientName: recipient.name,
+                    patientName: patient.name || 'Your family member',
+                    title: appointment.title,
+                    when,
+                    ...(appointment.description ? { description: appointment.description } : {}),
+                    ...(appointment.location ? { location: appointment.location } : {}),
+                    ...(appointment.provider ? { provider: appointment.provider } : {}),
+                    ...(appointment.notes ? { notes: appointment.notes } : {}),
+                    ...(showMedications ? { medications: activeMedications } : {}),
+                });
+                sent++;
+            }
+            catch (error) {
+                console.error(`Error reminding ${recipient.uid} of appointment ${appointment.id}:`, error);
+            }
+        }
+        return sent > 0;
+    }
+    // The patient if they want reminders, and subscribers who are still family and can see appointments
+    async getRecipients(patientId, settings) {
+        const recipients = [];
+        if (settings.notifyPatient) {
+            const userDoc = await this.db.collection(firebase_1.COLLECTIONS.USERS).doc(patientId).get();
+            const user = userDoc.exists ? userDoc.data() : undefined;
+            if (user?.email) {
+                recipients.push({ uid: patientId, email: user.email, name: user.name || '' });
+            }
+        }
+        if (settings.subscriberIds.length > 0) {
+            const members = await this.familyGroupService.getMembersForUser(patientId);
+            if (!members.success) {
+                throw new Error(members.error);
+            }
+            for (const member of members.data) {
+                if (member.uid !== patientId && member.email && settings.subscriberIds.includes(member.uid) &&
+                    (await this.accessService.can(member.uid, patientId, 'view_appointments'))) {
+                    recipients.push(member);
+                }
+            }
+        }
+        return recipients;
+    }
+    async isFamilyMember(patientId, userId) {
+        const members = await this.familyGroupService.getMembersForUser(patientId);
+        if (!members.success) {
+            throw new Error(members.error);
+        }
+        return members.data.some(member => member.uid === userId);
+    }
+    async saveSettings(patientId, changes, updatedBy) {
+        const docRef = this.db.collection(REMINDER_SETTINGS_COLLECTION).doc(patientId);
+        const doc = await docRef.get();
+        const data = { ...this.toSettings(patientId, doc.exists ? doc.data() : {}), ...changes, updatedAt: this.clock.now() };
+        await docRef.set(data);
+        if (this.auditService) {
+            await this.auditService.logAppointmentReminderChange(updatedBy, patientId, changes);
+        }
+        return {
+            success: true,
+            data: this.toSettings(patientId, data),
+            message: 'Appointment reminder settings updated successfully'
+        };
+    }
+    toSettings(patientId, data) {
+        return {
+            patientId,
+            offsetsMinutes: data.offsetsMinutes || exports.DEFAULT_REMINDER_OFFSETS,
+            notifyPatient: data.notifyPatient ?? true,
+            subscriberIds: data.subscriberIds || [],
+            ...(data.updatedAt ? { updatedAt: toDate(data.updatedAt) } : {}),
+        };
+    }
+}
+exports.AppointmentReminderService = AppointmentReminderService;
@@ -0,0 +1,361 @@
+import type {
+  ApiResponse,
+  Appointment,
+  AppointmentReminderSettings,
+  AppointmentReminderSettingsUpdate,
+  FamilyGroupMember
+} from '../types';
+import { COLLECTIONS } from '../firebase';
+import { AuditService } from './auditService';
+import { AccessService } from './accessService';
+import { AppointmentService } from './appointmentService';
+import { FamilyGroupService } from './familyGroupService';
+import { MedicationService } from './medicationService';
+import { Clock, systemClock } from '../utils/clock';
+import { MAX_REMINDER_OFFSET_MINUTES } from '../utils/appointments';
+import { formatDateInZone, formatTimeInZone, getTimeZoneAbbreviation } from '../utils/timezone';
+
+export interface ReminderMedication {
+  name: string;
+  dosage: string;
+  instructions?: string;
+}
+
+export interface AppointmentReminderNotification {
+  to: string;
+  recipientName: string;
+  patientName: string;
+  title: string;
+  when: string; // In the patient's timezone, e.g. "2024-03-12 10:00 CDT"
+  description?: string;
+  location?: string;
+  provider?: string;
+  notes?: string;
+  medications?: ReminderMedication[]; // Only for recipients who can see the patient's medications
+}
+
+export interface AppointmentReminderNotifier {
+  sendAppointmentReminder(notification: AppointmentReminderNotification): Promise<void>;
+}
+
+export interface AppointmentReminderRunSummary {
+  checked: number; // Appointments with a reminder due
+  reminded: number;
+  failed: number;
+}
+
+interface AppointmentReminderServiceDeps {
+  db: any; // Firestore instance
+  notifier?: AppointmentReminderNotifier; // Only needed to send reminders
+  auditService?: AuditService;
+  accessService?: AccessService;
+  appointmentService?: AppointmentService;
+  familyGroupService?: FamilyGroupService;
+  medicationService?: MedicationService;
+  clock?: Clock;
+}
+
+type Recipient = Pick<FamilyGroupMember, 'uid' | 'email' | 'name'>;
+
+const toDate = (value: any): Date | undefined =>
+  value ? (value.toDate ? value.toDate() : new Date(value)) : undefined;
+
+const REMINDER_SETTINGS_COLLECTION = 'appointmentReminderSettings';
+// A day and two hours before
+export const DEFAULT_REMINDER_OFFSETS = [24 * 60, 2 * 60];
+
+export class AppointmentReminderService {
+  private db: any;
+  private notifier?: AppointmentReminderNotifier;
+  private auditService?: AuditService;
+  private accessService: AccessService;
+  private appointmentService: AppointmentService;
+  private familyGroupService: FamilyGroupService;
+  private medicationService: MedicationService;
+  private clock: Clock;
+
+  constructor(deps: AppointmentReminderServiceDeps) {
+    this.db = deps.db;
+    this.notifier = deps.notifier;
+    this.auditService = deps.auditService;
+    this.accessService = deps.accessService || new AccessService({ db: deps.db, auditService: deps.auditService });
+    this.appointmentService = deps.appointmentService || new AppointmentService({ db: deps.db });
+    this.familyGroupService = deps.familyGroupService || new FamilyGroupService({ db: deps.db });
+    this.medicationService = deps.medicationService || new MedicationService({ db: deps.db });
+    this.clock = deps.clock || systemClock;
+  }
+
+  // A patient's reminder settings, with the defaults if they were never changed
+  async getSettings(patientId: string): Promise<ApiResponse<AppointmentReminderSettings>> {
+    try {
+      const doc = await this.db.collection(REMINDER_SETTINGS_COLLECTION).doc(patientId).get();
+
+      return {
+        success: true,
+        data: this.toSettings(patientId, doc.exists ? doc.data() : {}),
+        message: 'Appointment reminder settings retrieved successfully'
+      };
+    } catch (error) {
+      console.error('Error getting appointment reminder settings:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve appointment reminder settings'
+      };
+    }
+  }
+
+  /**
+   * Changes when reminders are sent and whether the patient gets them.
+   * @param patientId - The patient's user uid
+   * @param updates - New offsets and/or patient setting, already validated
+   * @param updatedBy - The uid of the user making the change
+   */
+  async updateSettings(
+    patientId: string,
+    updates: AppointmentReminderSettingsUpdate,
+    updatedBy: string
+  ): Promise<ApiResponse<AppointmentReminderSettings>> {
+    try {
+      const changes: Partial<AppointmentReminderSettings> = {};
+      if (updates.offsetsMinutes !== undefined) {
+        changes.offsetsMinutes = [...new Set(updates.offsetsMinutes)].sort((a, b) => b - a);
+      }
+      if (updates.notifyPatient !== undefined) {
+        changes.notifyPatient = updates.notifyPatient;
+      }
+
+      return await this.saveSettings(patientId, changes, updatedBy);
+    } catch (error) {
+      console.error('Error updating appointment reminder settings:', error);
+      return {
+        success: false,
+        error: 'Failed to update appointment reminder settings'
+      };
+    }
+  }
+
+  /**
+   * Opts a user in or out of a patient's appointment reminders. Family
+   * members are added to the subscribers; the patient turns their own
+   * reminders on or off.
+   * @param patientId - The patient's user uid
+   * @param userId - The user opting in or out
+   * @param subscribed - Whether they want reminders
+   */
+  async setSubscription(patientId: string, userId: string, subscribed: boolean): Promise<ApiResponse<AppointmentReminderSettings>> {
+    try {
+      if (userId === patientId) {
+        return await this.saveSettings(patientId, { notifyPatient: subscribed }, userId);
+      }
+
+      if (subscribed && !(await this.isFamilyMember(patientId, userId))) {
+        return {
+          success: false,
+          error: 'Only family members can get appointment reminders'
+        };
+      }
+
+      const current = await this.getSettings(patientId);
+      if (!current.success) {
+        return current;
+      }
+
+      const others = current.data!.subscriberIds.filter(id => id !== userId);
+      return await this.saveSettings(patientId, {
+        subscriberIds: subscribed ? [...others, userId] : others,
+      }, userId);
+    } catch (error) {
+      console.error('Error updating appointment reminder subscription:', error);
+      return {
+        success: false,
+        error: 'Failed to update appointment reminder subscription'
+      };
+    }
+  }
+
+  /**
+   * Emails reminders for appointments that have reached one of their
+   * patient's reminder times. Each reminder is sent once per appointment
+   * time; reminders that came due together go out as one email.
+   */
+  async sendDueReminders(): Promise<ApiResponse<AppointmentReminderRunSummary>> {
+    if (!this.notifier) {
+      return { success: false, error: 'Appointment reminders are not configured' };
+    }
+
+    try {
+      const now = this.clock.now();
+      const summary: AppointmentReminderRunSummary = { checked: 0, reminded: 0, failed: 0 };
+
+      const appointments = await this.appointmentService.getOpenAppointmentsBetween(
+        now,
+        new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * 60 * 1000)
+      );
+      if (!appointments.success) {
+        return { success: false, error: appointments.error };
+      }
+
+      const settingsByPatient = new Map<string, AppointmentReminderSettings>();
+      for (const appointment of appointments.data!) {
+        try {
+          let settings = settingsByPatient.get(appointment.patientId);
+          if (!settings) {
+            const result = await this.getSettings(appointment.patientId);
+            if (!result.success) {
+              throw new Error(result.error);
+            }
+            settings = result.data!;
+            settingsByPatient.set(appointment.patientId, settings);
+          }
+
+          const sent = appointment.remindersSent || [];
+          const due = settings.offsetsMinutes.filter(offset =>
+            !sent.includes(offset) && appointment.dateTime.getTime() - offset * 60 * 1000 <= now.getTime());
+          if (due.length === 0) {
+            continue;
+          }
+
+          summary.checked++;
+          // Marked before sending so a retried run doesn't remind twice
+          await this.db.collection(COLLECTIONS.APPOINTMENTS).doc(appointment.id).update({ remindersSent: [...sent, ...due] });
+
+          if (await this.notifyRecipients(appointment, settings)) {
+            summary.reminded++;
+          } else {
+            summary.failed++;
+          }
+        } catch (error) {
+          console.error(`Error sending reminders for appointment ${appointment.id}:`, error);
+          summary.failed++;
+        }
+      }
+
+      return {
+        success: true,
+        data: summary,
+        message: `Sent reminders for ${summary.reminded} of ${summary.checked} appointments`
+      };
+    } catch (error) {
+      console.error('Error sending appointment reminders:', error);
+      return { success: false, error: 'Failed to send appointment reminders' };
+    }
+  }
+
+  // Resolves to true if anyone was reminded; nobody to remind counts as done
+  private async notifyRecipients(appointment: Appointment, settings: AppointmentReminderSettings): Promise<boolean> {
+    const [recipients, patientDoc, timeZone, medications] = await Promise.all([
+      this.getRecipients(appointment.patientId, settings),
+      this.db.collection(COLLECTIONS.USERS).doc(appointment.patientId).get(),
+      this.medicationService.getPatientTimeZone(appointment.patientId),
+      this.medicationService.getMedicationsByPatientId(appointment.patientId),
+    ]);
+    if (recipients.length === 0) {
+      return true;
+    }
+
+    const patient = patientDoc.exists ? patientDoc.data() : {};
+    const activeMedications: ReminderMedication[] = (medications.success ? medications.data! : [])
+      .filter(medication => medication.isActive)
+      .map(medication => ({
+        name: medication.name,
+        dosage: medication.dosage,
+        ...(medication.instructions ? { instructions: medication.instructions } : {}),
+      }));
+    const when = `${formatDateInZone(appointment.dateTime, timeZone)} ${formatTimeInZone(appointment.dateTime, timeZone)} ` +
+      getTimeZoneAbbreviation(timeZone, appointment.dateTime);
+
+    let sent = 0;
+    for (const recipient of recipients) {
+      try {
+        const showMedications = recipient.uid === appointment.patientId ||
+          (await this.accessService.can(recipient.uid, appointment.patientId, 'view_medications'));
+
+        await this.notifier!.sendAppointmentReminder({
+          to: recipient.email,
+          recipientName: recipient.name,
+          patientName: patient.name || 'Your family member',
+          title: appointment.title,
+          when,
+          ...(appointment.description ? { description: appointment.description } : {}),
+          ...(appointment.location ? { location: appointment.location } : {}),
+          ...(appointment.provider ? { provider: appointment.provider } : {}),
+          ...(appointment.notes ? { notes: appointment.notes } : {}),
+          ...(showMedications ? { medications: activeMedications } : {}),
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Error reminding ${recipient.uid} of appointment ${appointment.id}:`, error);
+      }
+    }
+
+    return sent > 0;
+  }
+
+  // The patient if they want reminders, and subscribers who are still family and can see appointments
+  private async getRecipients(patientId: string, settings: AppointmentReminderSettings): Promise<Recipient[]> {
+    const recipients: Recipient[] = [];
+
+    if (settings.notifyPatient) {
+      const userDoc = await this.db.collection(COLLECTIONS.USERS).doc(patientId).get();
+      const user = userDoc.exists ? userDoc.data() : undefined;
+      if (user?.email) {
+        recipients.push({ uid: patientId, email: user.email, name: user.name || '' });
+      }
+    }
+
+    if (settings.subscriberIds.length > 0) {
+      const members = await this.familyGroupService.getMembersForUser(patientId);
+      if (!members.success) {
+        throw new Error(members.error);
+      }
+
+      for (const member of members.data!) {
+        if (member.uid !== patientId && member.email && settings.subscriberIds.includes(member.uid) &&
+            (await this.accessService.can(member.uid, patientId, 'view_appointments'))) {
+          recipients.push(member);
+        }
+      }
+    }
+
+    return recipients;
+  }
+
+  private async isFamilyMember(patientId: string, userId: string): Promise<boolean> {
+    const members = await this.familyGroupService.getMembersForUser(patientId);
+    if (!members.success) {
+      throw new Error(members.error);
+    }
+    return members.data!.some(member => member.uid === userId);
+  }
+
+  private async saveSettings(
+    patientId: string,
+    changes: Partial<AppointmentReminderSettings>,
+    updatedBy: string
+  ): Promise<ApiResponse<AppointmentReminderSettings>> {
+    const docRef = this.db.collection(REMINDER_SETTINGS_COLLECTION).doc(patientId);
+    const doc = await docRef.get();
+    const data = { ...this.toSettings(patientId, doc.exists ? doc.data() : {}), ...changes, updatedAt: this.clock.now() };
+    await docRef.set(data);
+
+    if (this.auditService) {
+      await this.auditService.logAppointmentReminderChange(updatedBy, patientId, changes);
+    }
+
+    return {
+      success: true,
+      data: this.toSettings(patientId, data),
+      message: 'Appointment reminder settings updated successfully'
+    };
+  }
+
+  private toSettings(patientId: string, data: any): AppointmentReminderSettings {
+    return {
+      patientId,
+      offsetsMinutes: data.offsetsMinutes || DEFAULT_REMINDER_OFFSETS,
+      notifyPatient: data.notifyPatient ?? true,
+      subscriberIds: data.subscriberIds || [],
+      ...(data.updatedAt ? { updatedAt: toDate(data.updatedAt) } : {}),
+    };
+  }
+}
@@ -0,0 +1,321 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.AppointmentService = void 0;
+const types_1 = require("../types");
+const firebase_1 = require("../firebase");
+const clock_1 = require("../utils/clock");
+const appointments_1 = require("../utils/appointments");
+const DEFAULT_UPCOMING_LIMIT = 10;
+// How long a write waits for the change listener, e.g. a Google Calendar sync
+const DEFAULT_CHANGE_LISTENER_TIMEOUT_MS = 10 * 1000;
+// Firestore returns Timestamps; tests hold plain Dates
+const toDate = (value) => value ? (value.toDate ? value.toDate() : new Date(value)) : undefined;
+class AppointmentService {
+    db;
+    auditService;
+    clock;
+    changeListener;
+    changeListenerTimeoutMs;
+    constructor(deps) {
+        this.db = deps.db;
+        this.auditService = deps.auditService;
+        this.clock = deps.clock || clock_1.systemClock;
+        this.changeListener = deps.changeListener;
+        this.changeListenerTimeoutMs = deps.changeListenerTimeoutMs ?? DEFAULT_CHANGE_LISTENER_TIMEOUT_MS;
+    }
+    // Get a patient's appointments in date order, optionally within a range
+    async getAppointmentsByPatientId(patientId, range = {}) {
+        try {
+            let query = this.db.collection(firebase_1.COLLECTIONS.APPOINTMENTS).where('patientId', '==', patientId);
+            if (range.from) {
+                query = query.where('dateTime', '>=', range.from);
+            }
+            if (range.to) {
+                query = query.where('dateTime', '<=', range.to);
+            }
+            const snapshot = await query.orderBy('dateTime', 'asc').get();
+            return {
+                success: true,
+                data: snapshot.docs.map((doc) => this.toAppointment(doc.id, doc.data())),
+                message: 'Appointments retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting appointments:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve appointments'
+            };
+        }
+    }
+    // Get a patient's next scheduled or confirmed appointments, soonest first
+    async getUpcomingAppointments(patientId, limit = DEFAULT_UPCOMING_LIMIT) {
+        try {
+            const snapshot = await this.db.collection(firebase_1.COLLECTIONS.APPOINTMENTS)
+                .where('patientId', '==', patientId)
+                .where('dateTime', '>=', this.clock.now())
+                .orderBy('dateTime', 'asc')
+                .get();
+            const appointments = snapshot.docs
+                .map((doc) => this.toAppointment(doc.id, doc.data()))
+                .filter((appointment) => (0, appointments_1.isAppointmentOpen)(appointment.status))
+                .slice(0, limit);
+            return {
+                success: true,
+                data: appointments,
+                message: 'Upcoming appointments retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting upcoming appointments:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve upcoming appointments'
+            };
+        }
+    }
+    // Scheduled and confirmed appointments of every patient between two instants, soonest first
+    async getOpenAppointmentsBetween(from, to) {
+        try {
+            const snapshot = await this.db.collection(firebase_1.COLLECTIONS.APPOINTMENTS)
+                .where('dateTime', '>=', from)
+                .where('dateTime', '<=', to)
+                .orderBy('dateTime', 'asc')
+                .get();
+            return {
+                success: true,
+                data: snapshot.docs
+                    .map((doc) => this.toAppointment(doc.id, doc.data()))
+                    .filter((appointment) => (0, appointments_1.isAppointmentOpen)(appointment.status)),
+                message: 'Appointments retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting appointments between dates:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve appointments'
+            };
+        }
+    }
+    // Get a specific appointment by ID
+    async getAppointmentById(appointmentId) {
+        try {
+            const doc = await this.db.collection(firebase_1.COLLECTIONS.APPOINTMENTS).doc(appointmentId).get();
+            if (!doc.exists) {
+                return {
+                    success: false,
+                    error: 'Appointment not found'
+                };
+            }
+            return {
+                success: true,
+                data: this.toAppointment(doc.id, doc.data()),
+                message: 'Appointment retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting appointment:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve appointment'
+            };
+        }
+    }
+    // Create an appointment for a patient
+    async createAppointment(appointmentData, createdBy) {
+        try {
+            const now = this.clock.now();
+            const data = {
+                ...appointmentData,
+                dateTime: new Date(appointmentData.dateTime),
+                createdBy,
+                createdAt: now,
+                updatedAt: now,
+            };
+            const docRef = this.db.collection(firebase_1.COLLECTIONS.APPOINTMENTS).doc();
+            await docRef.set(data);
+            if (this.auditService) {
+                await this.auditService.logAppointmentChange(createdBy, docRef.id, types_1.AuditAction.CREATE_APPOINTMENT, {
+                    patientId: data.patientId,
+                    dateTime: data.dateTime,
+                });
+            }
+            await this.notifyChange(data.patientId);
+            return {
+                success: true,
+                data: this.toAppointment(docRef.id, data),
+                message: 'Appointment created successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error creating appointment:', error);
+            return {
+                success: false,
+                error: 'Failed to create appointment'
+            };
+        }
+    }
+    // Edit an appointment's details. Completed and cancelled appointments can't be edited.
+    async updateAppointment(appointmentId, updates, updatedBy) {
+        try {
+            const docRef = this.db.collection(firebase_1.COLLECTIONS.APPOINTMENTS).doc(appointmentId);
+            const doc = await docRef.get();
+            if (!doc.exists) {
+                return {
+                    success: false,
+                    error: 'Appointment not found'
+                };
+            }
+            const current = doc.data();
+            if (!(0, appointments_1.isAppointmentOpen)(current.status)) {
+                return {
+                    success: false,
+                    error: `Cannot edit a ${current.status} appointment`
+                };
+            }
+            const parsedUpdates = { ...updates, updatedAt: this.clock.now() };
+            if (parsedUpdates.dateTime) {
+                parsedUpdates.dateTime = new Date(parsedUpdates.dateTime);
+                // A rescheduled appointment is reminded about again
+                if (parsedUpdates.dateTime.getTime() !== toDate(current.dateTime).getTime()) {
+                    parsedUpdates.remindersSent = [];
+                }
+            }
+            await docRef.update(parsedUpdates);
+            if (this.auditService) {
+                await this.auditService.logAppointmentChange(updatedBy, appointmentId, types_1.AuditAction.UPDATE_APPOINTMENT, {
+                    patientId: current.patientId,
+                    fields: Object.keys(updates),
+                });
+            }
+            await this.notifyChange(current.patientId);
+            return {
+                success: true,
+                data: this.toAppointment(appointmentId, { ...current, ...parsedUpdates }),
+                message: 'Appointment updated successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error updating appointment:', error);
+            return {
+                success: false,
+                error: 'Failed to update appointment'
+            };
+        }
+    }
+    /**
+     * Moves an appointment along scheduled -> confirmed -> completed, or
+     * cancels it before it is completed.
+     * @param appointmentId - The appointment
+     * @param status - The new status
+     * @param updatedBy - The uid of the user making the change
+     */
+    async updateStatus(appointmentId, status, updatedBy) {
+        try {
+            const docRef = this.db.collection(firebase_1.COLLECTIONS.APPOINTMENTS).doc(appointmentId);
+            const doc = await docRef.get();
+            if (!doc.exists) {
+                return {
+                    success: false,
+                    error: 'Appointment not found'
+                };
+            }
+            const current = doc.data();
+            if (!(0, appointments_1.canTransitionAppointment)(current.status, status)) {
+                return {
+                    success: false,
+                    error: `Cannot change a ${current.status} appointment to ${status}`
+                };
+            }
+            const updates = { status, updatedAt: this.clock.now() };
+            await docRef.update(updates);
+            if (this.auditService) {
+                await this.auditService.logAppointmentChange(updatedBy, appointmentId, types_1.AuditAction.UPDATE_APPOINTMENT, {
+                    patientId: current.patientId,
+                    status,
+                    previousStatus: current.status,
+                });
+            }
+            await this.notifyChange(current.patientId);
+            return {
+                success: true,
+                data: this.toAppointment(appointmentId, { ...current, ...updates }),
+                message: 'Appointment status updated successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error updating appointment status:', error);
+            return {
+                success: false,
+                error: 'Failed to update appointment status'
+            };
+        }
+    }
+    // Delete an appointment
+    async deleteAppointment(appointmentId, deletedBy) {
+        try {
+            const docRef = this.db.collection(firebase_1.COLLECTIONS.APPOINTMENTS).doc(appointmentId);
+            const doc = await docRef.get();
+            if (!doc.exists) {
+                return {
+                    success: false,
+                    error: 'Appointment not found'
+                };
+            }
+            const appointment = doc.data();
+            await docRef.delete();
+            if (this.auditService) {
+                await this.auditService.logAppointmentChange(deletedBy, appointmentId, types_1.AuditAction.DELETE_APPOINTMENT, {
+                    patientId: appointment.patientId,
+                    title: appointment.title,
+                    dateTime: toDate(appointment.dateTime),
+                });
+            }
+            await this.notifyChange(appointment.patientId);
+            return {
+                success: true,
+                message: 'Appointment deleted successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error deleting appointment:', error);
+            return {
+                success: false,
+                error: 'Failed to delete appointment'
+            };
+        }
+    }
+    // Waits for the listener so its work finishes before the response is sent,
+    // but no longer than the timeout; the scheduled sync picks up the rest. A
+    // failing listener doesn't undo the change it was told about.
+    async notifyChange(patientId) {
+        if (!this.changeListener) {
+            return;
+        }
+        let timer;
+        const timedOut = new Promise(resolve => {
+            timer = setTimeout(() => resolve(true), this.changeListenerTimeoutMs);
+        });
+        const notified = this.changeListener.appointmentChanged(patientId)
+            .then(() => false)
+            .catch(error => {
+            console.error('Error notifying appointment change:', error);
+            return false;
+        });
+        if (await Promise.race([notified, timedOut])) {
+            console.warn(`Appointment change listener took over ${this.changeListenerTimeoutMs}ms; leaving it to the scheduled sync`);
+        }
+        clearTimeout(timer);
+    }
+    toAppointment(id, data) {
+        return {
+            id,
+            ...data,
+            dateTime: toDate(data.dateTime),
+            createdAt: toDate(data.createdAt),
+            updatedAt: toDate(data.updatedAt),
+        };
+    }
+}
+exports.AppointmentService = AppointmentService;
@@ -104,6 +104,127 @@ class AuditService {
             metadata: { reason },
         });
     }
+    /**
+     * Log patient data access denied for want of a permission
+     */
+    async logPermissionDenied(userId, patientId, permission, reason) {
+        await this.log({
+            userId,
+            action: types_1.AuditAction.ACCESS_PATIENT_DENIED,
+            resource: `patient:${patientId}`,
+            resourceId: patientId,
+            result: types_1.AuditResult.DENIED,
+            errorMessage: reason,
+            metadata: { reason, permission },
+        });
+    }
+    /**
+     * Log changes to a family group's membership
+     */
+    async logFamilyGroupChange(userId, familyGroupId, action, metadata) {
+        await this.log({
+            userId,
+            action,
+            resource: `familyGroup:${familyGroupId}`,
+            resourceId: familyGroupId,
+            result: types_1.AuditResult.SUCCESS,
+            metadata,
+        });
+    }
+    /**
+     * Log emergency access to a patient. Listed with the security events so
+     * every use gets reviewed.
+     */
+    async logBreakGlassAccess(userId, patientId, justification, metadata, ipAddress, userAgent) {
+        await this.log({
+            userId,
+            action: types_1.AuditAction.BREAK_GLASS_ACCESS,
+            resource: `patient:${patientId}`,
+            resourceId: patientId,
+            result: types_1.AuditResult.SUCCESS,
+            ipAddress,
+            userAgent,
+            metadata: { ...metadata, justification, emergency: true },
+        });
+    }
+    /**
+     * Log changes to an invitation's status
+     */
+    async logInvitationChange(userId, invitationId, action, metadata) {
+        await this.log({
+            userId,
+            action,
+            resource: `invitation:${invitationId}`,
+            resourceId: invitationId,
+            result: types_1.AuditResult.SUCCESS,
+            metadata,
+        });
+    }
+    /**
+     * Log changes to a care task
+     */
+    async logTaskChange(userId, taskId, action, metadata) {
+        await this.log({
+            userId,
+            action,
+            resource: `task:${taskId}`,
+            resourceId: taskId,
+            result: types_1.AuditResult.SUCCESS,
+            metadata,
+        });
+    }
+    /**
+     * Log changes to an appointment
+     */
+    async logAppointmentChange(userId, appointmentId, action, metadata) {
+        await this.log({
+            userId,
+            action,
+            resource: `appointment:${appointmentId}`,
+            resourceId: appointmentId,
+            result: types_1.AuditResult.SUCCESS,
+            metadata,
+        });
+    }
+    /**
+     * Log changes to who is reminded of a patient's appointments
+     */
+    async logAppointmentReminderChange(userId, patientId, metadata) {
+        await this.log({
+            userId,
+            action: types_1.AuditAction.UPDATE_APPOINTMENT_REMINDERS,
+            resource: `appointmentReminders:${patientId}`,
+            resourceId: patientId,
+            result: types_1.AuditResult.SUCCESS,
+            metadata,
+        });
+    }
+    /**
+     * Log changes to a calendar feed
+     */
+    async logCalendarFeedChange(userId, feedId, action, metadata) {
+        await this.log({
+            userId,
+            action,
+            resource: `calendarFeed:${feedId}`,
+            resourceId: feedId,
+            result: types_1.AuditResult.SUCCESS,
+            metadata,
+        });
+    }
+    /**
+     * Log changes to a user's Google Calendar connection
+     */
+    async logGoogleCalendarChange(userId, action, metadata) {
+        await this.log({
+            userId,
+            action,
+            resource: `googleCalendar:${userId}`,
+            resourceId: userId,
+            result: types_1.AuditResult.SUCCESS,
+            metadata,
+        });
+    }
     /**
      * Log medication operations
      */
@@ -119,6 +240,19 @@ class AuditService {
             metadata,
         });
     }
+    /**
+     * Log missed-dose escalation steps
+     */
+    async logDoseEscalation(userId, escalationId, action, result, metadata) {
+        await this.log({
+            userId,
+            action,
+            resource: `doseEscalation:${escalationId}`,
+            resourceId: escalationId,
+            result,
+            metadata,
+        });
+    }
     /**
      * Log authorization check results
      */
@@ -276,6 +410,7 @@ class AuditService {
                 types_1.AuditAction.PERMISSION_DENIED,
                 types_1.AuditAction.INVALID_TOKEN,
                 types_1.AuditAction.ACCESS_PATIENT_DENIED,
+                types_1.AuditAction.BREAK_GLASS_ACCESS,
             ];
             const snapshot = await this.db
                 .collection(firebase_1.COLLECTIONS.AUDIT_LOGS)
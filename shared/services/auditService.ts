@@ -1,5 +1,5 @@
 import { COLLECTIONS } from '../firebase';
-import { AuditAction, AuditResult, NewAuditLog, AuditLog } from '../types';
+import { AuditAction, AuditResult, NewAuditLog, AuditLog, FamilyPermission } from '../types';
 
 interface AuditServiceDeps {
   db: any;
@@ -128,6 +128,181 @@ export class AuditService {
     });
   }
 
+  /**
+   * Log patient data access denied for want of a permission
+   */
+  async logPermissionDenied(
+    userId: string,
+    patientId: string,
+    permission: FamilyPermission,
+    reason: string
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action: AuditAction.ACCESS_PATIENT_DENIED,
+      resource: `patient:${patientId}`,
+      resourceId: patientId,
+      result: AuditResult.DENIED,
+      errorMessage: reason,
+      metadata: { reason, permission },
+    });
+  }
+
+  /**
+   * Log changes to a family group's membership
+   */
+  async logFamilyGroupChange(
+    userId: string,
+    familyGroupId: string,
+    action: AuditAction,
+    metadata?: any
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action,
+      resource: `familyGroup:${familyGroupId}`,
+      resourceId: familyGroupId,
+      result: AuditResult.SUCCESS,
+      metadata,
+    });
+  }
+
+  /**
+   * Log emergency access to a patient. Listed with the security events so
+   * every use gets reviewed.
+   */
+  async logBreakGlassAccess(
+    userId: string,
+    patientId: string,
+    justification: string,
+    metadata?: any,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action: AuditAction.BREAK_GLASS_ACCESS,
+      resource: `patient:${patientId}`,
+      resourceId: patientId,
+      result: AuditResult.SUCCESS,
+      ipAddress,
+      userAgent,
+      metadata: { ...metadata, justification, emergency: true },
+    });
+  }
+
+  /**
+   * Log changes to an invitation's status
+   */
+  async logInvitationChange(
+    userId: string,
+    invitationId: string,
+    action: AuditAction,
+    metadata?: any
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action,
+      resource: `invitation:${invitationId}`,
+      resourceId: invitationId,
+      result: AuditResult.SUCCESS,
+      metadata,
+    });
+  }
+
+  /**
+   * Log changes to a care task
+   */
+  async logTaskChange(
+    userId: string,
+    taskId: string,
+    action: AuditAction,
+    metadata?: any
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action,
+      resource: `task:${taskId}`,
+      resourceId: taskId,
+      result: AuditResult.SUCCESS,
+      metadata,
+    });
+  }
+
+  /**
+   * Log changes to an appointment
+   */
+  async logAppointmentChange(
+    userId: string,
+    appointmentId: string,
+    action: AuditAction,
+    metadata?: any
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action,
+      resource: `appointment:${appointmentId}`,
+      resourceId: appointmentId,
+      result: AuditResult.SUCCESS,
+      metadata,
+    });
+  }
+
+  /**
+   * Log changes to who is reminded of a patient's appointments
+   */
+  async logAppointmentReminderChange(
+    userId: string,
+    patientId: string,
+    metadata?: any
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action: AuditAction.UPDATE_APPOINTMENT_REMINDERS,
+      resource: `appointmentReminders:${patientId}`,
+      resourceId: patientId,
+      result: AuditResult.SUCCESS,
+      metadata,
+    });
+  }
+
+  /**
+   * Log changes to a calendar feed
+   */
+  async logCalendarFeedChange(
+    userId: string,
+    feedId: string,
+    action: AuditAction,
+    metadata?: any
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action,
+      resource: `calendarFeed:${feedId}`,
+      resourceId: feedId,
+      result: AuditResult.SUCCESS,
+      metadata,
+    });
+  }
+
+  /**
+   * Log changes to a user's Google Calendar connection
+   */
+  async logGoogleCalendarChange(
+    userId: string,
+    action: AuditAction,
+    metadata?: any
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action,
+      resource: `googleCalendar:${userId}`,
+      resourceId: userId,
+      result: AuditResult.SUCCESS,
+      metadata,
+    });
+  }
+
   /**
    * Log medication operations
    */
@@ -152,6 +327,26 @@ export class AuditService {
     });
   }
 
+  /**
+   * Log missed-dose escalation steps
+   */
+  async logDoseEscalation(
+    userId: string,
+    escalationId: string,
+    action: AuditAction,
+    result: AuditResult,
+    metadata?: any
+  ): Promise<void> {
+    await this.log({
+      userId,
+      action,
+      resource: `doseEscalation:${escalationId}`,
+      resourceId: escalationId,
+      result,
+      metadata,
+    });
+  }
+
   /**
    * Log authorization check results
    */
@@ -332,6 +527,7 @@ export class AuditService {
         AuditAction.PERMISSION_DENIED,
         AuditAction.INVALID_TOKEN,
         AuditAction.ACCESS_PATIENT_DENIED,
+        AuditAction.BREAK_GLASS_ACCESS,
       ];
 
       const snapshot = await this.db
@@ -0,0 +1,254 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.CalendarFeedService = void 0;
+const types_1 = require("../types");
+const accessService_1 = require("./accessService");
+const appointmentService_1 = require("./appointmentService");
+const medicationService_1 = require("./medicationService");
+const clock_1 = require("../utils/clock");
+const ics_1 = require("../utils/ics");
+const secretTokens_1 = require("../utils/secretTokens");
+const dosingSchedule_1 = require("../utils/dosingSchedule");
+const timezone_1 = require("../utils/timezone");
+const CALENDAR_FEEDS_COLLECTION = 'calendarFeeds';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Past appointments stay in the feed this long
+const PAST_APPOINTMENT_DAYS = 90;
+const REFRESH_MINUTES = 60;
+const REMINDER_EVENT_MINUTES = 15;
+const ICS_DAYS = {
+    sunday: 'SU', monday: 'MO', tuesday: 'TU', wednesday: 'WE', thursday: 'TH', friday: 'FR', saturday: 'SA'
+};
+const ICS_STATUS = {
+    scheduled: 'TENTATIVE',
+    confirmed: 'CONFIRMED',
+    completed: 'CONFIRMED',
+    cancelled: 'CANCELLED',
+};
+// Firestore returns Timestamps; tests hold plain Dates
+const toDate = (value) => value ? (value.toDate ? value.toDate() : new Date(value)) : undefined;
+class CalendarFeedService {
+    db;
+    auditService;
+    accessService;
+    appointmentService;
+    medicationService;
+    clock;
+    constructor(deps) {
+        this.db = deps.db;
+        this.auditService = deps.auditService;
+        this.accessService = deps.accessService || new accessService_1.AccessService({ db: deps.db, auditService: deps.auditService });
+        this.appointmentService = deps.appointmentService || new appointmentService_1.AppointmentService({ db: deps.db });
+        this.medicationService = deps.medicationService || new medicationService_1.MedicationService({ db: deps.db });
+        this.clock = deps.clock || clock_1.systemClock;
+    }
+    // A user's feeds for a patient
+    async getFeeds(userId, patientId) {
+        try {
+            const snapshot = await this.db.collection(CALENDAR_FEEDS_COLLECTION)
+                .where('userId', '==', userId)
+                .where('patientId', '==', patientId)
+                .get();
+            return {
+                success: true,
+                data: snapshot.docs.map((doc) => this.toFeed(doc.id, doc.data())),
+                message: 'Calendar feeds retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting calendar feeds:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve calendar feeds'
+            };
+        }
+    }
+    /**
+     * Creates a feed of a patient's calendar for a user. The caller checks the
+     * user can see the patient's appointments first.
+     * @param userId - The uid of the user subscribing
+     * @param patientId - The patient's user uid
+     * @param includeReminders - Whether to list medication reminder times too
+     */
+    async createFeed(userId, patientId, includeReminders) {
+        try {
+            const token = (0, secretTokens_1.generateSecretToken)();
+            const data = {
+                userId,
+                patientId,
+                includeReminders,
+                tokenHash: (0, secretTokens_1.hashSecretToken)(token),
+                createdAt: this.clock.now(),
+            };
+            const docRef = this.db.collection(CALENDAR_FEEDS_COLLECTION).doc();
+            await docRef.set(data);
+            if (this.auditService) {
+                await this.auditService.logCalendarFeedChange(userId, docRef.id, types_1.AuditAction.CREATE_CALENDAR_FEED, {
+                    patientId,
+                    includeReminders,
+                });
+            }
+            return {
+                success: true,
+                data: { feed: this.toFeed(docRef.id, data), token },
+                message: 'Calendar feed created successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error creating calendar feed:', error);
+            return {
+                success: false,
+                error: 'Failed to create calendar feed'
+            };
+        }
+    }
+    // Revoke one of the user's feeds; its URL stops working straight away
+    async revokeFeed(feedId, userId) {
+        try {
+            const docRef = this.db.collection(CALENDAR_FEEDS_COLLECTION).doc(feedId);
+            const doc = await docRef.get();
+            if (!doc.exists || doc.data().userId !== userId) {
+                return {
+                    success: false,
+                    error: 'Calendar feed not found'
+                };
+            }
+            const feed = doc.data();
+            await docRef.delete();
+            if (this.auditService) {
+                await this.auditService.logCalendarFeedChange(userId, feedId, types_1.AuditAction.REVOKE_CALENDAR_FEED, {
+                    patientId: feed.patientId,
+                });
+            }
+            return {
+                success: true,
+                message: 'Calendar feed revoked successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error revoking calendar feed:', error);
+            return {
+                success: false,
+                error: 'Failed to revoke calendar feed'
+            };
+        }
+    }
+    /**
+     * Renders the feed a token belongs to. The feed owner's access is checked
+     * on every fetch, so a feed stops showing data as soon as they lose access.
+     * @param token - The secret from the feed URL
+     * @returns The iCalendar document
+     */
+    async renderFeed(token) {
+        try {
+            const snapshot = await this.db.collection(CALENDAR_FEEDS_COLLECTION)
+                .where('tokenHash', '==', (0, secretTokens_1.hashSecretToken)(token))
+                .limit(1)
+                .get();
+            if (snapshot.empty) {
+                return {
+                    success: false,
+                    error: 'Calendar feed not found'
+                };
+            }
+            const doc = snapshot.docs[0];
+            const feed = this.toFeed(doc.id, doc.data());
+            if (!(await this.accessService.can(feed.userId, feed.patientId, 'view_appointments'))) {
+                return {
+                    success: false,
+                    error: 'Access denied'
+                };
+            }
+            const now = this.clock.now();
+            const timeZone = await this.medicationService.getPatientTimeZone(feed.patientId);
+            const appointments = await this.appointmentService.getAppointmentsByPatientId(feed.patientId, {
+                from: new Date(now.getTime() - PAST_APPOINTMENT_DAYS * MS_PER_DAY),
+            });
+            if (!appointments.success) {
+                return {
+                    success: false,
+                    error: 'Failed to render calendar feed'
+                };
+            }
+            const events = appointments.data.map(appointment => this.toAppointmentEvent(appointment));
+            // Reminder times show which medications are due, so they need medication access too
+            if (feed.includeReminders && (await this.accessService.can(feed.userId, feed.patientId, 'view_medications'))) {
+                events.push(...(await this.getReminderEvents(feed.patientId, timeZone)));
+            }
+            await this.db.collection(CALENDAR_FEEDS_COLLECTION).doc(doc.id).update({ lastAccessedAt: now });
+            return {
+                success: true,
+                data: (0, ics_1.buildIcsCalendar)({
+                    name: 'KinConnect care calendar',
+                    timeZone,
+                    refreshMinutes: REFRESH_MINUTES,
+                    events,
+                }),
+                message: 'Calendar feed rendered successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error rendering calendar feed:', error);
+            return {
+                success: false,
+                error: 'Failed to render calendar feed'
+            };
+        }
+    }
+    toAppointmentEvent(appointment) {
+        const details = [appointment.provider && `Provider: ${appointment.provider}`, appointment.description]
+            .filter(Boolean)
+            .join('\n');
+        return {
+            uid: `appointment-${appointment.id}@kinconnect`,
+            stamp: appointment.updatedAt,
+            start: appointment.dateTime,
+            end: new Date(appointment.dateTime.getTime() + appointment.duration * 60 * 1000),
+            summary: appointment.title,
+            description: details || undefined,
+            location: appointment.location || undefined,
+            status: ICS_STATUS[appointment.status],
+        };
+    }
+    // One weekly repeating event per active reminder of an active medication
+    async getReminderEvents(patientId, timeZone) {
+        const [medications, reminders] = await Promise.all([
+            this.medicationService.getMedicationsByPatientId(patientId),
+            this.medicationService.getMedicationRemindersByPatientId(patientId),
+        ]);
+        if (!medications.success || !reminders.success) {
+            return [];
+        }
+        const activeMedications = new Map(medications.data.filter(medication => medication.isActive).map(medication => [medication.id, medication]));
+        return reminders.data.flatMap((reminder) => {
+            const medication = activeMedications.get(reminder.medicationId);
+            // The first firing anchors the series, so it lands on one of the reminder's days
+            const first = medication && reminder.isActive
+                ? (0, dosingSchedule_1.getNextReminderTime)(reminder, new Date(toDate(reminder.createdAt).getTime() - 1), timeZone)
+                : null;
+            if (!medication || !first) {
+                return [];
+            }
+            const { year, month, day, hours, minutes } = (0, timezone_1.getZonedDateParts)(first, timeZone);
+            return [{
+                    uid: `reminder-${reminder.id}@kinconnect`,
+                    stamp: toDate(reminder.updatedAt),
+                    start: { year, month, day, hours, minutes, timeZone },
+                    durationMinutes: REMINDER_EVENT_MINUTES,
+                    rrule: `FREQ=WEEKLY;BYDAY=${reminder.days.map(d => ICS_DAYS[d]).join(',')}`,
+                    summary: `Take ${medication.name} ${medication.dosage}`.trim(),
+                    description: medication.instructions || undefined,
+                }];
+        });
+    }
+    toFeed(id, data) {
+        const { tokenHash, lastAccessedAt, ...rest } = data;
+        return {
+            id,
+            ...rest,
+            createdAt: toDate(data.createdAt),
+            ...(lastAccessedAt ? { lastAccessedAt: toDate(lastAccessedAt) } : {}),
+        };
+    }
+}
+exports.CalendarFeedService = CalendarFeedService;
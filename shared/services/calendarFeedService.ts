@@ -0,0 +1,294 @@
+import type { ApiResponse, Appointment, CalendarFeed, Medication, MedicationReminder } from '../types';
+import { AuditAction } from '../types';
+import { AuditService } from './auditService';
+import { AccessService } from './accessService';
+import { AppointmentService } from './appointmentService';
+import { MedicationService } from './medicationService';
+import { Clock, systemClock } from '../utils/clock';
+import { IcsEvent, IcsEventStatus, buildIcsCalendar } from '../utils/ics';
+import { generateSecretToken, hashSecretToken } from '../utils/secretTokens';
+import { getNextReminderTime } from '../utils/dosingSchedule';
+import { getZonedDateParts } from '../utils/timezone';
+
+interface CalendarFeedServiceDeps {
+  db: any; // Firestore instance
+  auditService?: AuditService;
+  accessService?: AccessService;
+  appointmentService?: AppointmentService;
+  medicationService?: MedicationService;
+  clock?: Clock;
+}
+
+export interface NewCalendarFeed {
+  feed: CalendarFeed;
+  token: string; // Only returned here; the feed URL is built from it
+}
+
+const CALENDAR_FEEDS_COLLECTION = 'calendarFeeds';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Past appointments stay in the feed this long
+const PAST_APPOINTMENT_DAYS = 90;
+const REFRESH_MINUTES = 60;
+const REMINDER_EVENT_MINUTES = 15;
+const ICS_DAYS: Record<string, string> = {
+  sunday: 'SU', monday: 'MO', tuesday: 'TU', wednesday: 'WE', thursday: 'TH', friday: 'FR', saturday: 'SA'
+};
+const ICS_STATUS: Record<Appointment['status'], IcsEventStatus> = {
+  scheduled: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+};
+
+// Firestore returns Timestamps; tests hold plain Dates
+const toDate = (value: any): Date | undefined =>
+  value ? (value.toDate ? value.toDate() : new Date(value)) : undefined;
+
+export class CalendarFeedService {
+  private db: any;
+  private auditService?: AuditService;
+  private accessService: AccessService;
+  private appointmentService: AppointmentService;
+  private medicationService: MedicationService;
+  private clock: Clock;
+
+  constructor(deps: CalendarFeedServiceDeps) {
+    this.db = deps.db;
+    this.auditService = deps.auditService;
+    this.accessService = deps.accessService || new AccessService({ db: deps.db, auditService: deps.auditService });
+    this.appointmentService = deps.appointmentService || new AppointmentService({ db: deps.db });
+    this.medicationService = deps.medicationService || new MedicationService({ db: deps.db });
+    this.clock = deps.clock || systemClock;
+  }
+
+  // A user's feeds for a patient
+  async getFeeds(userId: string, patientId: string): Promise<ApiResponse<CalendarFeed[]>> {
+    try {
+      const snapshot = await this.db.collection(CALENDAR_FEEDS_COLLECTION)
+        .where('userId', '==', userId)
+        .where('patientId', '==', patientId)
+        .get();
+
+      return {
+        success: true,
+        data: snapshot.docs.map((doc: any) => this.toFeed(doc.id, doc.data())),
+        message: 'Calendar feeds retrieved successfully'
+      };
+    } catch (error) {
+      console.error('Error getting calendar feeds:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve calendar feeds'
+      };
+    }
+  }
+
+  /**
+   * Creates a feed of a patient's calendar for a user. The caller checks the
+   * user can see the patient's appointments first.
+   * @param userId - The uid of the user subscribing
+   * @param patientId - The patient's user uid
+   * @param includeReminders - Whether to list medication reminder times too
+   */
+  async createFeed(userId: string, patientId: string, includeReminders: boolean): Promise<ApiResponse<NewCalendarFeed>> {
+    try {
+      const token = generateSecretToken();
+      const data = {
+        userId,
+        patientId,
+        includeReminders,
+        tokenHash: hashSecretToken(token),
+        createdAt: this.clock.now(),
+      };
+
+      const docRef = this.db.collection(CALENDAR_FEEDS_COLLECTION).doc();
+      await docRef.set(data);
+
+      if (this.auditService) {
+        await this.auditService.logCalendarFeedChange(userId, docRef.id, AuditAction.CREATE_CALENDAR_FEED, {
+          patientId,
+          includeReminders,
+        });
+      }
+
+      return {
+        success: true,
+        data: { feed: this.toFeed(docRef.id, data), token },
+        message: 'Calendar feed created successfully'
+      };
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      return {
+        success: false,
+        error: 'Failed to create calendar feed'
+      };
+    }
+  }
+
+  // Revoke one of the user's feeds; its URL stops working straight away
+  async revokeFeed(feedId: string, userId: string): Promise<ApiResponse<void>> {
+    try {
+      const docRef = this.db.collection(CALENDAR_FEEDS_COLLECTION).doc(feedId);
+      const doc = await docRef.get();
+
+      if (!doc.exists || doc.data().userId !== userId) {
+        return {
+          success: false,
+          error: 'Calendar feed not found'
+        };
+      }
+
+      const feed = doc.data();
+      await docRef.delete();
+
+      if (this.auditService) {
+        await this.auditService.logCalendarFeedChange(userId, feedId, AuditAction.REVOKE_CALENDAR_FEED, {
+          patientId: feed.patientId,
+        });
+      }
+
+      return {
+        success: true,
+        message: 'Calendar feed revoked successfully'
+      };
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      return {
+        success: false,
+        error: 'Failed to revoke calendar feed'
+      };
+    }
+  }
+
+  /**
+   * Renders the feed a token belongs to. The feed owner's access is checked
+   * on every fetch, so a feed stops showing data as soon as they lose access.
+   * @param token - The secret from the feed URL
+   * @returns The iCalendar document
+   */
+  async renderFeed(token: string): Promise<ApiResponse<string>> {
+    try {
+      const snapshot = await this.db.collection(CALENDAR_FEEDS_COLLECTION)
+        .where('tokenHash', '==', hashSecretToken(token))
+        .limit(1)
+        .get();
+
+      if (snapshot.empty) {
+        return {
+          success: false,
+          error: 'Calendar feed not found'
+        };
+      }
+
+      const doc = snapshot.docs[0];
+      const feed = this.toFeed(doc.id, doc.data());
+      if (!(await this.accessService.can(feed.userId, feed.patientId, 'view_appointments'))) {
+        return {
+          success: false,
+          error: 'Access denied'
+        };
+      }
+
+      const now = this.clock.now();
+      const timeZone = await this.medicationService.getPatientTimeZone(feed.patientId);
+      const appointments = await this.appointmentService.getAppointmentsByPatientId(feed.patientId, {
+        from: new Date(now.getTime() - PAST_APPOINTMENT_DAYS * MS_PER_DAY),
+      });
+      if (!appointments.success) {
+        return {
+          success: false,
+          error: 'Failed to render calendar feed'
+        };
+      }
+
+      const events = appointments.data!.map(appointment => this.toAppointmentEvent(appointment));
+      // Reminder times show which medications are due, so they need medication access too
+      if (feed.includeReminders && (await this.accessService.can(feed.userId, feed.patientId, 'view_medications'))) {
+        events.push(...(await this.getReminderEvents(feed.patientId, timeZone)));
+      }
+
+      await this.db.collection(CALENDAR_FEEDS_COLLECTION).doc(doc.id).update({ lastAccessedAt: now });
+
+      return {
+        success: true,
+        data: buildIcsCalendar({
+          name: 'KinConnect care calendar',
+          timeZone,
+          refreshMinutes: REFRESH_MINUTES,
+          events,
+        }),
+        message: 'Calendar feed rendered successfully'
+      };
+    } catch (error) {
+      console.error('Error rendering calendar feed:', error);
+      return {
+        success: false,
+        error: 'Failed to render calendar feed'
+      };
+    }
+  }
+
+  private toAppointmentEvent(appointment: Appointment): IcsEvent {
+    const details = [appointment.provider && `Provider: ${appointment.provider}`, appointment.description]
+      .filter(Boolean)
+      .join('\n');
+
+    return {
+      uid: `appointment-${appointment.id}@kinconnect`,
+      stamp: appointment.updatedAt,
+      start: appointment.dateTime,
+      end: new Date(appointment.dateTime.getTime() + appointment.duration * 60 * 1000),
+      summary: appointment.title,
+      description: details || undefined,
+      location: appointment.location || undefined,
+      status: ICS_STATUS[appointment.status],
+    };
+  }
+
+  // One weekly repeating event per active reminder of an active medication
+  private async getReminderEvents(patientId: string, timeZone: string): Promise<IcsEvent[]> {
+    const [medications, reminders] = await Promise.all([
+      this.medicationService.getMedicationsByPatientId(patientId),
+      this.medicationService.getMedicationRemindersByPatientId(patientId),
+    ]);
+    if (!medications.success || !reminders.success) {
+      return [];
+    }
+
+    const activeMedications = new Map<string, Medication>(
+      medications.data!.filter(medication => medication.isActive).map(medication => [medication.id, medication])
+    );
+
+    return reminders.data!.flatMap((reminder: MedicationReminder) => {
+      const medication = activeMedications.get(reminder.medicationId);
+      // The first firing anchors the series, so it lands on one of the reminder's days
+      const first = medication && reminder.isActive
+        ? getNextReminderTime(reminder, new Date(toDate(reminder.createdAt)!.getTime() - 1), timeZone)
+        : null;
+      if (!medication || !first) {
+        return [];
+      }
+
+      const { year, month, day, hours, minutes } = getZonedDateParts(first, timeZone);
+      return [{
+        uid: `reminder-${reminder.id}@kinconnect`,
+        stamp: toDate(reminder.updatedAt)!,
+        start: { year, month, day, hours, minutes, timeZone },
+        durationMinutes: REMINDER_EVENT_MINUTES,
+        rrule: `FREQ=WEEKLY;BYDAY=${reminder.days.map(d => ICS_DAYS[d]).join(',')}`,
+        summary: `Take ${medication.name} ${medication.dosage}`.trim(),
+        description: medication.instructions || undefined,
+      }];
+    });
+  }
+
+  private toFeed(id: string, data: any): CalendarFeed {
+    const { tokenHash, lastAccessedAt, ...rest } = data;
+    return {
+      id,
+      ...rest,
+      createdAt: toDate(data.createdAt)!,
+      ...(lastAccessedAt ? { lastAccessedAt: toDate(lastAccessedAt) } : {}),
+    };
+  }
+}
@@ -0,0 +1,457 @@
+import { AuditAction, AuditResult } from '../types';
+import type { ApiResponse, DoseEscalation, FamilyGroupMember, MedicationReminder } from '../types';
+import { AuditService } from './auditService';
+import { FamilyGroupService } from './familyGroupService';
+import { MedicationService } from './medicationService';
+import { Clock, systemClock } from '../utils/clock';
+import { formatTimeInZone, getTimeZoneAbbreviation } from '../utils/timezone';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+const DEFAULT_GRACE_MINUTES = 60;
+const DEFAULT_ESCALATION_INTERVAL_MINUTES = 30;
+
+// A log this many minutes before the scheduled time still counts as taking the
+// dose, matching the on-time window used for adherence
+const EARLY_LOG_MINUTES = 60;
+
+// Audit events raised by the scheduler rather than a signed-in user
+const SYSTEM_USER_ID = 'system';
+
+const OPEN_STATUSES = ['pending', 'escalated'];
+
+export interface MissedDoseNotification {
+  to: string;
+  caregiverName: string;
+  patientName: string;
+  medicationName: string;
+  dosage: string;
+  time: string;
+}
+
+export interface MissedDoseNotifier {
+  sendMissedDoseAlert(notification: MissedDoseNotification): Promise<void>;
+}
+
+export interface EscalationRunSummary {
+  due: number;
+  escalated: number;
+  resolved: number;
+  exhausted: number;
+  failed: number;
+}
+
+interface DoseEscalationServiceDeps {
+  db: any; // Firestore instance
+  medicationService: MedicationService;
+  auditService: AuditService;
+  familyGroupService: FamilyGroupService;
+  notifier: MissedDoseNotifier;
+  clock?: Clock;
+  graceMinutes?: number;
+  escalationIntervalMinutes?: number;
+}
+
+type EscalationStep =
+  | { kind: 'notify'; escalation: DoseEscalation; recipients: FamilyGroupMember[] }
+  | { kind: 'exhausted'; escalation: DoseEscalation }
+  | { kind: 'skipped' };
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  return value.toDate ? value.toDate() : new Date(value);
+};
+
+// Legacy groups call the inviter 'admin'; they were the de facto primary caregiver
+const isPrimaryCaregiver = (member: FamilyGroupMember): boolean =>
+  member.role === 'primary_caregiver' || member.role === 'admin';
+
+export class DoseEscalationService {
+  private db: any;
+  private medicationService: MedicationService;
+  private auditService: AuditService;
+  private familyGroupService: FamilyGroupService;
+  private notifier: MissedDoseNotifier;
+  private clock: Clock;
+  private graceMinutes: number;
+  private escalationIntervalMinutes: number;
+
+  constructor(deps: DoseEscalationServiceDeps) {
+    this.db = deps.db;
+    this.medicationService = deps.medicationService;
+    this.auditService = deps.auditService;
+    this.familyGroupService = deps.familyGroupService;
+    this.notifier = deps.notifier;
+    this.clock = deps.clock || systemClock;
+    this.graceMinutes = deps.graceMinutes ?? DEFAULT_GRACE_MINUTES;
+    this.escalationIntervalMinutes = deps.escalationIntervalMinutes ?? DEFAULT_ESCALATION_INTERVAL_MINUTES;
+  }
+
+  /**
+   * Starts watching a dose whose reminder has just gone out. If it has not
+   * been logged once the grace window passes, caregivers are notified.
+   * Keyed by reminder and time so tracking the same dose twice is harmless.
+   */
+  async trackDose(
+    reminder: MedicationReminder,
+    scheduledFor: Date,
+    details: { medicationName: string; patientName: string; timeZone: string }
+  ): Promise<ApiResponse<DoseEscalation>> {
+    try {
+      const now = this.clock.now();
+      const escalationData = {
+        patientId: reminder.patientId,
+        medicationId: reminder.medicationId,
+        reminderId: reminder.id,
+        medicationName: details.medicationName,
+        patientName: details.patientName,
+        timeZone: details.timeZone,
+        scheduledFor,
+        status: 'pending' as const,
+        level: 0,
+        notifiedMemberIds: [],
+        nextCheckAt: new Date(scheduledFor.getTime() + this.graceMinutes * MS_PER_MINUTE),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const id = `${reminder.id}_${scheduledFor.getTime()}`;
+      await this.db.collection('doseEscalations').doc(id).set(escalationData);
+
+      return {
+        success: true,
+        data: { id, ...escalationData },
+        message: 'Dose tracked for escalation'
+      };
+    } catch (error) {
+      console.error('Error tracking dose for escalation:', error);
+      return {
+        success: false,
+        error: 'Failed to track dose for escalation'
+      };
+    }
+  }
+
+  /**
+   * Moves every escalation whose `nextCheckAt` has passed one step along:
+   * resolved if the dose has since been logged, otherwise the next tier of
+   * caregivers is notified (primary caregivers first, then everyone else).
+   * Each step is claimed in a transaction so overlapping runs never repeat it.
+   */
+  async processDueEscalations(): Promise<ApiResponse<EscalationRunSummary>> {
+    try {
+      const now = this.clock.now();
+      const summary: EscalationRunSummary = { due: 0, escalated: 0, resolved: 0, exhausted: 0, failed: 0 };
+
+      const snapshot = await this.db.collection('doseEscalations')
+        .where('nextCheckAt', '<=', now)
+        .get();
+      summary.due = snapshot.docs.length;
+
+      for (const doc of snapshot.docs) {
+        try {
+          const escalation = this.toEscalation(doc.id, doc.data());
+
+          if (await this.isDoseLogged(escalation)) {
+            if (await this.resolveEscalation(escalation.id, now)) {
+              summary.resolved++;
+            }
+            continue;
+          }
+
+          const caregivers = await this.getCaregivers(escalation.patientId);
+          const step = await this.claimNextStep(escalation.id, caregivers, now);
+
+          if (step.kind === 'notify') {
+            await this.notifyCaregivers(step.escalation, step.recipients);
+            summary.escalated++;
+          } else if (step.kind === 'exhausted') {
+            await this.auditService.logDoseEscalation(
+              SYSTEM_USER_ID,
+              step.escalation.id,
+              AuditAction.ESCALATE_MISSED_DOSE,
+              AuditResult.FAILURE,
+              {
+                patientId: step.escalation.patientId,
+                medicationId: step.escalation.medicationId,
+                level: step.escalation.level,
+                reason: step.escalation.level === 0 ? 'No caregivers to notify' : 'No caregiver acknowledged',
+              }
+            );
+            summary.exhausted++;
+          }
+        } catch (error) {
+          console.error(`Error processing dose escalation ${doc.id}:`, error);
+          summary.failed++;
+        }
+      }
+
+      return {
+        success: true,
+        data: summary,
+        message: `Escalated ${summary.escalated} of ${summary.due} due escalations`
+      };
+    } catch (error) {
+      console.error('Error processing dose escalations:', error);
+      return {
+        success: false,
+        error: 'Failed to process dose escalations'
+      };
+    }
+  }
+
+  // Get a single escalation by ID
+  async getEscalationById(escalationId: string): Promise<ApiResponse<DoseEscalation>> {
+    try {
+      const doc = await this.db.collection('doseEscalations').doc(escalationId).get();
+
+      if (!doc.exists) {
+        return {
+          success: false,
+          error: 'Escalation not found'
+        };
+      }
+
+      return {
+        success: true,
+        data: this.toEscalation(doc.id, doc.data()),
+        message: 'Escalation retrieved successfully'
+      };
+    } catch (error) {
+      console.error('Error getting escalation:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve escalation'
+      };
+    }
+  }
+
+  // Get escalations a caregiver has been notified about that are still awaiting a response
+  async getOpenEscalationsForCaregiver(userId: string): Promise<ApiResponse<DoseEscalation[]>> {
+    try {
+      const snapshot = await this.db.collection('doseEscalations')
+        .where('notifiedMemberIds', 'array-contains', userId)
+        .where('status', '==', 'escalated')
+        .get();
+
+      const escalations = snapshot.docs
+        .map((doc: any) => this.toEscalation(doc.id, doc.data()))
+        .sort((a: DoseEscalation, b: DoseEscalation) => b.scheduledFor.getTime() - a.scheduledFor.getTime());
+
+      return {
+        success: true,
+        data: escalations,
+        message: 'Escalations retrieved successfully'
+      };
+    } catch (error) {
+      console.error('Error getting escalations:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve escalations'
+      };
+    }
+  }
+
+  // Stop escalating a missed dose because someone has responded
+  async acknowledgeEscalation(escalationId: string, userId: string): Promise<ApiResponse<DoseEscalation>> {
+    try {
+      const now = this.clock.now();
+      const escalationRef = this.db.collection('doseEscalations').doc(escalationId);
+
+      const escalation: DoseEscalation | null = await this.db.runTransaction(async (transaction: any) => {
+        const doc = await transaction.get(escalationRef);
+        if (!doc.exists || !OPEN_STATUSES.includes(doc.data().status)) {
+          return null;
+        }
+
+        const updates = {
+          status: 'acknowledged',
+          acknowledgedBy: userId,
+          acknowledgedAt: now,
+          nextCheckAt: null,
+          updatedAt: now,
+        };
+        transaction.update(escalationRef, updates);
+        return this.toEscalation(doc.id, { ...doc.data(), ...updates });
+      });
+
+      if (!escalation) {
+        return {
+          success: false,
+          error: 'Escalation is no longer open'
+        };
+      }
+
+      await this.auditService.logDoseEscalation(
+        userId,
+        escalationId,
+        AuditAction.ACKNOWLEDGE_MISSED_DOSE,
+        AuditResult.SUCCESS,
+        { patientId: escalation.patientId, medicationId: escalation.medicationId, level: escalation.level }
+      );
+
+      return {
+        success: true,
+        data: escalation,
+        message: 'Escalation acknowledged'
+      };
+    } catch (error) {
+      console.error('Error acknowledging escalation:', error);
+      return {
+        success: false,
+        error: 'Failed to acknowledge escalation'
+      };
+    }
+  }
+
+  // Any log counts, including skipped or refused doses: someone has dealt with it
+  private async isDoseLogged(escalation: DoseEscalation): Promise<boolean> {
+    const snapshot = await this.db.collection('medicationLogs')
+      .where('medicationId', '==', escalation.medicationId)
+      .where('takenAt', '>=', new Date(escalation.scheduledFor.getTime() - EARLY_LOG_MINUTES * MS_PER_MINUTE))
+      .limit(1)
+      .get();
+
+    return !snapshot.empty;
+  }
+
+  private async resolveEscalation(escalationId: string, now: Date): Promise<boolean> {
+    const escalationRef = this.db.collection('doseEscalations').doc(escalationId);
+
+    const escalation: DoseEscalation | null = await this.db.runTransaction(async (transaction: any) => {
+      const doc = await transaction.get(escalationRef);
+      if (!doc.exists || !OPEN_STATUSES.includes(doc.data().status)) {
+        return null;
+      }
+
+      const updates = { status: 'resolved', resolvedAt: now, nextCheckAt: null, updatedAt: now };
+      transaction.update(escalationRef, updates);
+      return this.toEscalation(doc.id, { ...doc.data(), ...updates });
+    });
+
+    if (!escalation) {
+      return false;
+    }
+
+    await this.auditService.logDoseEscalation(
+      SYSTEM_USER_ID,
+      escalationId,
+      AuditAction.RESOLVE_MISSED_DOSE,
+      AuditResult.SUCCESS,
+      { patientId: escalation.patientId, medicationId: escalation.medicationId, level: escalation.level }
+    );
+    return true;
+  }
+
+  // Everyone in the patient's family group other than the patient themselves
+  private async getCaregivers(patientId: string): Promise<FamilyGroupMember[]> {
+    const members = await this.familyGroupService.getMembersForUser(patientId);
+    if (!members.success) {
+      throw new Error(members.error);
+    }
+    return members.data!.filter(member => member.uid !== patientId);
+  }
+
+  // Advance the escalation by one tier, or close it out once every tier has
+  // been tried. Empty tiers are skipped, so a group with no primary caregiver
+  // goes straight to its other members.
+  private async claimNextStep(escalationId: string, caregivers: FamilyGroupMember[], now: Date): Promise<EscalationStep> {
+    const escalationRef = this.db.collection('doseEscalations').doc(escalationId);
+    const tiers = [
+      caregivers.filter(isPrimaryCaregiver),
+      caregivers.filter(member => !isPrimaryCaregiver(member)),
+    ].filter(tier => tier.length > 0);
+
+    return this.db.runTransaction(async (transaction: any) => {
+      const doc = await transaction.get(escalationRef);
+      if (!doc.exists) {
+        return { kind: 'skipped' };
+      }
+
+      const data = doc.data();
+      const nextCheckAt = toDate(data.nextCheckAt);
+      if (!OPEN_STATUSES.includes(data.status) || !nextCheckAt || nextCheckAt > now) {
+        return { kind: 'skipped' };
+      }
+
+      const notified: string[] = data.notifiedMemberIds || [];
+      const recipients = (tiers[data.level] || []).filter(member => !notified.includes(member.uid));
+
+      if (data.level >= tiers.length) {
+        const updates = { nextCheckAt: null, exhaustedAt: now, updatedAt: now };
+        transaction.update(escalationRef, updates);
+        return { kind: 'exhausted', escalation: this.toEscalation(doc.id, { ...data, ...updates }) };
+      }
+
+      const updates = {
+        status: 'escalated',
+        level: data.level + 1,
+        notifiedMemberIds: [...notified, ...recipients.map(member => member.uid)],
+        nextCheckAt: new Date(now.getTime() + this.escalationIntervalMinutes * MS_PER_MINUTE),
+        updatedAt: now,
+      };
+      transaction.update(escalationRef, updates);
+      return { kind: 'notify', escalation: this.toEscalation(doc.id, { ...data, ...updates }), recipients };
+    });
+  }
+
+  private async notifyCaregivers(escalation: DoseEscalation, recipients: FamilyGroupMember[]): Promise<void> {
+    const [medicationDoc, patientDoc, timeZone] = await Promise.all([
+      this.db.collection('medications').doc(escalation.medicationId).get(),
+      this.db.collection('users').doc(escalation.patientId).get(),
+      this.medicationService.getPatientTimeZone(escalation.patientId),
+    ]);
+
+    const medication = medicationDoc.exists ? medicationDoc.data() : {};
+    const patient = patientDoc.exists ? patientDoc.data() : {};
+    const time = `${formatTimeInZone(escalation.scheduledFor, timeZone)} ${getTimeZoneAbbreviation(timeZone, escalation.scheduledFor)}`;
+
+    const failedMemberIds: string[] = [];
+    for (const recipient of recipients) {
+      try {
+        await this.notifier.sendMissedDoseAlert({
+          to: recipient.email,
+          caregiverName: recipient.name,
+          patientName: patient.name || escalation.patientName,
+          medicationName: medication.name || escalation.medicationName,
+          dosage: medication.dosage || '',
+          time,
+        });
+      } catch (error) {
+        console.error(`Error notifying caregiver ${recipient.uid} of missed dose:`, error);
+        failedMemberIds.push(recipient.uid);
+      }
+    }
+
+    await this.auditService.logDoseEscalation(
+      SYSTEM_USER_ID,
+      escalation.id,
+      AuditAction.ESCALATE_MISSED_DOSE,
+      failedMemberIds.length < recipients.length ? AuditResult.SUCCESS : AuditResult.FAILURE,
+      {
+        patientId: escalation.patientId,
+        medicationId: escalation.medicationId,
+        level: escalation.level,
+        notifiedMemberIds: recipients.map(member => member.uid),
+        failedMemberIds,
+      }
+    );
+  }
+
+  private toEscalation(id: string, data: any): DoseEscalation {
+    return {
+      id,
+      ...data,
+      notifiedMemberIds: data.notifiedMemberIds || [],
+      scheduledFor: toDate(data.scheduledFor)!,
+      nextCheckAt: toDate(data.nextCheckAt) || null,
+      exhaustedAt: toDate(data.exhaustedAt),
+      acknowledgedAt: toDate(data.acknowledgedAt),
+      resolvedAt: toDate(data.resolvedAt),
+      createdAt: toDate(data.createdAt)!,
+      updatedAt: toDate(data.updatedAt)!,
+    };
+  }
+}
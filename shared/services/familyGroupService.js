@@ -0,0 +1,226 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.FamilyGroupService = void 0;
+const types_1 = require("../types");
+const familyPermissions_1 = require("../utils/familyPermissions");
+const familyGroups_1 = require("../utils/familyGroups");
+// Legacy roles are rewritten whenever a group's members are saved
+const normalizeMembers = (members) => members.map(member => ({ ...member, role: (0, familyPermissions_1.normalizeFamilyRole)(member.role) }));
+const toRecord = (doc) => {
+    const data = doc.data();
+    return { id: doc.id, name: data.name, createdBy: data.createdBy, members: data.members || [] };
+};
+// Firestore rejects undefined, so cleared permissions are left off the member
+const withUpdates = (member, updates) => {
+    const { permissions, ...rest } = member;
+    const updated = { ...rest, role: updates.role ?? (0, familyPermissions_1.normalizeFamilyRole)(member.role) };
+    const nextPermissions = updates.permissions === undefined ? permissions : updates.permissions;
+    if (nextPermissions) {
+        updated.permissions = nextPermissions;
+    }
+    return updated;
+};
+class FamilyGroupService {
+    db;
+    auditService;
+    constructor(deps) {
+        this.db = deps.db;
+        this.auditService = deps.auditService;
+    }
+    /**
+     * Gets a family group by ID.
+     * @param familyGroupId - The group's ID
+     * @returns The group, or null if it doesn't exist
+     */
+    async getGroupById(familyGroupId) {
+        try {
+            const groupDoc = await this.db.collection('familyGroups').doc(familyGroupId).get();
+            return { success: true, data: groupDoc.exists ? toRecord(groupDoc) : null };
+        }
+        catch (error) {
+            console.error('Error getting family group:', error);
+            return { success: false, error: 'Failed to retrieve family group' };
+        }
+    }
+    /**
+     * Gets every family group a user belongs to.
+     * @param userId - The user's uid
+     * @returns The groups, or an empty list if the user is not in any
+     */
+    async getGroupsForUser(userId) {
+        try {
+            const userDoc = await this.db.collection('users').doc(userId).get();
+            const familyGroupIds = (0, familyGroups_1.getFamilyGroupIds)(userDoc.exists ? userDoc.data() : undefined);
+            const groupDocs = await Promise.all(familyGroupIds.map(familyGroupId => this.db.collection('familyGroups').doc(familyGroupId).get()));
+            return { success: true, data: groupDocs.filter(doc => doc.exists).map(toRecord) };
+        }
+        catch (error) {
+            console.error('Error getting family groups:', error);
+            return { success: false, error: 'Failed to retrieve family groups' };
+        }
+    }
+    /**
+     * Gets the members of every family group a user belongs to, including the
+     * user themselves. Someone in more than one of the groups is listed once.
+     * @param userId - The user's uid
+     * @returns The members, or an empty list if the user is not in a group
+     */
+    async getMembersForUser(userId) {
+        const groups = await this.getGroupsForUser(userId);
+        if (!groups.success) {
+            return { success: false, error: 'Failed to retrieve family group members' };
+        }
+        const members = new Map();
+        for (const member of groups.data.flatMap(group => group.members)) {
+            if (!members.has(member.uid)) {
+                members.set(member.uid, member);
+            }
+        }
+        return { success: true, data: [...members.values()] };
+    }
+    /**
+     * Changes a member's role or permissions.
+     * @param familyGroupId - The group's ID
+     * @param memberId - The member's uid
+     * @param updates - The new role and/or permissions
+     * @param changedBy - The uid of the user making the change
+     * @returns The updated member
+     */
+    async updateMember(familyGroupId, memberId, updates, changedBy) {
+        try {
+            const groupRef = this.db.collection('familyGroups').doc(familyGroupId);
+            const result = await this.db.runTransaction(async (transaction) => {
+                const groupDoc = await transaction.get(groupRef);
+                const members = groupDoc.exists ? groupDoc.data().members || [] : [];
+                const before = members.find(member => member.uid === memberId);
+                if (!before) {
+                    return null;
+                }
+                const after = withUpdates(before, updates);
+                transaction.update(groupRef, {
+                    members: normalizeMembers(members.map(member => member.uid === memberId ? after : member)),
+                    updatedAt: new Date(),
+                });
+                return { before, after };
+            });
+            if (!result) {
+                return { success: false, error: 'Member not found' };
+            }
+            if (this.auditService) {
+                await this.auditService.logFamilyGroupChange(changedBy, familyGroupId, types_1.AuditAction.UPDATE_FAMILY_PERMISSIONS, {
+                    memberId,
+                    before: { role: result.before.role, permissions: result.before.permissions ?? null },
+                    after: { role: result.after.role, permissions: result.after.permissions ?? null },
+                });
+            }
+            return { success: true, data: result.after, message: 'Member updated successfully' };
+        }
+        catch (error) {
+            console.error('Error updating family member:', error);
+            return { success: false, error: 'Failed to update family member' };
+        }
+    }
+    /**
+     * Takes a member out of a group and removes the group from their profile.
+     * The group is deleted when its last member goes.
+     * @param familyGroupId - The group's ID
+     * @param memberId - The member's uid
+     * @param removedBy - The uid of the user removing them, or the member if they are leaving
+     */
+    async removeMember(familyGroupId, memberId, removedBy) {
+        try {
+            const groupRef = this.db.collection('familyGroups').doc(familyGroupId);
+            const userRef = this.db.collection('users').doc(memberId);
+            const removed = await this.db.runTransaction(async (transaction) => {
+                const groupDoc = await transaction.get(groupRef);
+                const userDoc = await transaction.get(userRef);
+                const members = groupDoc.exists ? groupDoc.data().members || [] : [];
+                const member = members.find(groupMember => groupMember.uid === memberId);
+                if (!member) {
+                    return null;
+                }
+                const remaining = members.filter(groupMember => groupMember.uid !== memberId);
+                if (remaining.length === 0) {
+                    transaction.delete(groupRef);
+                }
+                else {
+                    transaction.update(groupRef, { members: normalizeMembers(remaining), updatedAt: new Date() });
+                }
+                const user = userDoc.exists ? userDoc.data() : undefined;
+                if ((0, familyGroups_1.getFamilyGroupIds)(user).includes(familyGroupId)) {
+                    transaction.update(userRef, {
+                        familyGroupIds: (0, familyGroups_1.getFamilyGroupIds)(user).filter(id => id !== familyGroupId),
+                        ...(user.familyGroupId === familyGroupId ? { familyGroupId: null } : {}),
+                        updatedAt: new Date(),
+                    });
+                }
+                return member;
+            });
+            if (!removed) {
+                return { success: false, error: 'Member not found' };
+            }
+            if (this.auditService) {
+                await this.auditService.logFamilyGroupChange(removedBy, familyGroupId, types_1.AuditAction.REMOVE_FAMILY_MEMBER, {
+                    memberId,
+                    role: removed.role,
+                    left: removedBy === memberId,
+                });
+            }
+            return {
+                success: true,
+                message: removedBy === memberId ? 'Left family group successfully' : 'Member removed successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error removing family member:', error);
+            return { success: false, error: 'Failed to remove family member' };
+        }
+    }
+    /**
+     * Hands the primary caregiver role to another member. The previous primary
+     * caregiver stays on as a caregiver; the new one gets the role's full
+     * permissions.
+     * @param familyGroupId - The group's ID
+     * @param fromId - The current primary caregiver's uid
+     * @param toId - The new primary caregiver's uid
+     * @returns The group's members after the transfer
+     */
+    async transferPrimaryCaregiver(familyGroupId, fromId, toId) {
+        try {
+            const groupRef = this.db.collection('familyGroups').doc(familyGroupId);
+            const members = await this.db.runTransaction(async (transaction) => {
+                const groupDoc = await transaction.get(groupRef);
+                const current = groupDoc.exists ? groupDoc.data().members || [] : [];
+                if (!current.some(member => member.uid === fromId) || !current.some(member => member.uid === toId)) {
+                    return null;
+                }
+                const updated = normalizeMembers(current.map(member => {
+                    if (member.uid === fromId) {
+                        return withUpdates(member, { role: 'caregiver' });
+                    }
+                    if (member.uid === toId) {
+                        return withUpdates(member, { role: 'primary_caregiver', permissions: null });
+                    }
+                    return member;
+                }));
+                transaction.update(groupRef, { members: updated, updatedAt: new Date() });
+                return updated;
+            });
+            if (!members) {
+                return { success: false, error: 'Member not found' };
+            }
+            if (this.auditService) {
+                await this.auditService.logFamilyGroupChange(fromId, familyGroupId, types_1.AuditAction.UPDATE_FAMILY_PERMISSIONS, {
+                    transferredFrom: fromId,
+                    transferredTo: toId,
+                });
+            }
+            return { success: true, data: members, message: 'Primary caregiver role transferred successfully' };
+        }
+        catch (error) {
+            console.error('Error transferring primary caregiver role:', error);
+            return { success: false, error: 'Failed to transfer primary caregiver role' };
+        }
+    }
+}
+exports.FamilyGroupService = FamilyGroupService;
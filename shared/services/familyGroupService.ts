@@ -0,0 +1,263 @@
+import type { ApiResponse, FamilyGroupMember, FamilyGroupRecord, FamilyMemberUpdate } from '../types';
+import { AuditAction } from '../types';
+import { AuditService } from './auditService';
+import { normalizeFamilyRole } from '../utils/familyPermissions';
+import { getFamilyGroupIds } from '../utils/familyGroups';
+
+interface FamilyGroupServiceDeps {
+  db: any; // Firestore instance
+  auditService?: AuditService;
+}
+
+// Legacy roles are rewritten whenever a group's members are saved
+const normalizeMembers = (members: FamilyGroupMember[]): FamilyGroupMember[] =>
+  members.map(member => ({ ...member, role: normalizeFamilyRole(member.role) }));
+
+const toRecord = (doc: any): FamilyGroupRecord => {
+  const data = doc.data();
+  return { id: doc.id, name: data.name, createdBy: data.createdBy, members: data.members || [] };
+};
+
+// Firestore rejects undefined, so cleared permissions are left off the member
+const withUpdates = (member: FamilyGroupMember, updates: FamilyMemberUpdate): FamilyGroupMember => {
+  const { permissions, ...rest } = member;
+  const updated: FamilyGroupMember = { ...rest, role: updates.role ?? normalizeFamilyRole(member.role) };
+  const nextPermissions = updates.permissions === undefined ? permissions : updates.permissions;
+  if (nextPermissions) {
+    updated.permissions = nextPermissions;
+  }
+  return updated;
+};
+
+export class FamilyGroupService {
+  private db: any;
+  private auditService?: AuditService;
+
+  constructor(deps: FamilyGroupServiceDeps) {
+    this.db = deps.db;
+    this.auditService = deps.auditService;
+  }
+
+  /**
+   * Gets a family group by ID.
+   * @param familyGroupId - The group's ID
+   * @returns The group, or null if it doesn't exist
+   */
+  async getGroupById(familyGroupId: string): Promise<ApiResponse<FamilyGroupRecord | null>> {
+    try {
+      const groupDoc = await this.db.collection('familyGroups').doc(familyGroupId).get();
+      return { success: true, data: groupDoc.exists ? toRecord(groupDoc) : null };
+    } catch (error) {
+      console.error('Error getting family group:', error);
+      return { success: false, error: 'Failed to retrieve family group' };
+    }
+  }
+
+  /**
+   * Gets every family group a user belongs to.
+   * @param userId - The user's uid
+   * @returns The groups, or an empty list if the user is not in any
+   */
+  async getGroupsForUser(userId: string): Promise<ApiResponse<FamilyGroupRecord[]>> {
+    try {
+      const userDoc = await this.db.collection('users').doc(userId).get();
+      const familyGroupIds = getFamilyGroupIds(userDoc.exists ? userDoc.data() : undefined);
+
+      const groupDocs = await Promise.all(
+        familyGroupIds.map(familyGroupId => this.db.collection('familyGroups').doc(familyGroupId).get())
+      );
+
+      return { success: true, data: groupDocs.filter(doc => doc.exists).map(toRecord) };
+    } catch (error) {
+      console.error('Error getting family groups:', error);
+      return { success: false, error: 'Failed to retrieve family groups' };
+    }
+  }
+
+  /**
+   * Gets the members of every family group a user belongs to, including the
+   * user themselves. Someone in more than one of the groups is listed once.
+   * @param userId - The user's uid
+   * @returns The members, or an empty list if the user is not in a group
+   */
+  async getMembersForUser(userId: string): Promise<ApiResponse<FamilyGroupMember[]>> {
+    const groups = await this.getGroupsForUser(userId);
+    if (!groups.success) {
+      return { success: false, error: 'Failed to retrieve family group members' };
+    }
+
+    const members = new Map<string, FamilyGroupMember>();
+    for (const member of groups.data!.flatMap(group => group.members)) {
+      if (!members.has(member.uid)) {
+        members.set(member.uid, member);
+      }
+    }
+
+    return { success: true, data: [...members.values()] };
+  }
+
+  /**
+   * Changes a member's role or permissions.
+   * @param familyGroupId - The group's ID
+   * @param memberId - The member's uid
+   * @param updates - The new role and/or permissions
+   * @param changedBy - The uid of the user making the change
+   * @returns The updated member
+   */
+  async updateMember(
+    familyGroupId: string,
+    memberId: string,
+    updates: FamilyMemberUpdate,
+    changedBy: string
+  ): Promise<ApiResponse<FamilyGroupMember>> {
+    try {
+      const groupRef = this.db.collection('familyGroups').doc(familyGroupId);
+      const result = await this.db.runTransaction(async (transaction: any) => {
+        const groupDoc = await transaction.get(groupRef);
+        const members: FamilyGroupMember[] = groupDoc.exists ? groupDoc.data().members || [] : [];
+        const before = members.find(member => member.uid === memberId);
+        if (!before) {
+          return null;
+        }
+
+        const after = withUpdates(before, updates);
+        transaction.update(groupRef, {
+          members: normalizeMembers(members.map(member => member.uid === memberId ? after : member)),
+          updatedAt: new Date(),
+        });
+        return { before, after };
+      });
+
+      if (!result) {
+        return { success: false, error: 'Member not found' };
+      }
+
+      if (this.auditService) {
+        await this.auditService.logFamilyGroupChange(changedBy, familyGroupId, AuditAction.UPDATE_FAMILY_PERMISSIONS, {
+          memberId,
+          before: { role: result.before.role, permissions: result.before.permissions ?? null },
+          after: { role: result.after.role, permissions: result.after.permissions ?? null },
+        });
+      }
+
+      return { success: true, data: result.after, message: 'Member updated successfully' };
+    } catch (error) {
+      console.error('Error updating family member:', error);
+      return { success: false, error: 'Failed to update family member' };
+    }
+  }
+
+  /**
+   * Takes a member out of a group and removes the group from their profile.
+   * The group is deleted when its last member goes.
+   * @param familyGroupId - The group's ID
+   * @param memberId - The member's uid
+   * @param removedBy - The uid of the user removing them, or the member if they are leaving
+   */
+  async removeMember(familyGroupId: string, memberId: string, removedBy: string): Promise<ApiResponse<void>> {
+    try {
+      const groupRef = this.db.collection('familyGroups').doc(familyGroupId);
+      const userRef = this.db.collection('users').doc(memberId);
+      const removed = await this.db.runTransaction(async (transaction: any) => {
+        const groupDoc = await transaction.get(groupRef);
+        const userDoc = await transaction.get(userRef);
+        const members: FamilyGroupMember[] = groupDoc.exists ? groupDoc.data().members || [] : [];
+        const member = members.find(groupMember => groupMember.uid === memberId);
+        if (!member) {
+          return null;
+        }
+
+        const remaining = members.filter(groupMember => groupMember.uid !== memberId);
+        if (remaining.length === 0) {
+          transaction.delete(groupRef);
+        } else {
+          transaction.update(groupRef, { members: normalizeMembers(remaining), updatedAt: new Date() });
+        }
+
+        const user = userDoc.exists ? userDoc.data() : undefined;
+        if (getFamilyGroupIds(user).includes(familyGroupId)) {
+          transaction.update(userRef, {
+            familyGroupIds: getFamilyGroupIds(user).filter(id => id !== familyGroupId),
+            ...(user.familyGroupId === familyGroupId ? { familyGroupId: null } : {}),
+            updatedAt: new Date(),
+          });
+        }
+        return member;
+      });
+
+      if (!removed) {
+        return { success: false, error: 'Member not found' };
+      }
+
+      if (this.auditService) {
+        await this.auditService.logFamilyGroupChange(removedBy, familyGroupId, AuditAction.REMOVE_FAMILY_MEMBER, {
+          memberId,
+          role: removed.role,
+          left: removedBy === memberId,
+        });
+      }
+
+      return {
+        success: true,
+        message: removedBy === memberId ? 'Left family group successfully' : 'Member removed successfully'
+      };
+    } catch (error) {
+      console.error('Error removing family member:', error);
+      return { success: false, error: 'Failed to remove family member' };
+    }
+  }
+
+  /**
+   * Hands the primary caregiver role to another member. The previous primary
+   * caregiver stays on as a caregiver; the new one gets the role's full
+   * permissions.
+   * @param familyGroupId - The group's ID
+   * @param fromId - The current primary caregiver's uid
+   * @param toId - The new primary caregiver's uid
+   * @returns The group's members after the transfer
+   */
+  async transferPrimaryCaregiver(
+    familyGroupId: string,
+    fromId: string,
+    toId: string
+  ): Promise<ApiResponse<FamilyGroupMember[]>> {
+    try {
+      const groupRef = this.db.collection('familyGroups').doc(familyGroupId);
+      const members: FamilyGroupMember[] | null = await this.db.runTransaction(async (transaction: any) => {
+        const groupDoc = await transaction.get(groupRef);
+        const current: FamilyGroupMember[] = groupDoc.exists ? groupDoc.data().members || [] : [];
+        if (!current.some(member => member.uid === fromId) || !current.some(member => member.uid === toId)) {
+          return null;
+        }
+
+        const updated = normalizeMembers(current.map(member => {
+          if (member.uid === fromId) {
+            return withUpdates(member, { role: 'caregiver' });
+          }
+          if (member.uid === toId) {
+            return withUpdates(member, { role: 'primary_caregiver', permissions: null });
+          }
+          return member;
+        }));
+        transaction.update(groupRef, { members: updated, updatedAt: new Date() });
+        return updated;
+      });
+
+      if (!members) {
+        return { success: false, error: 'Member not found' };
+      }
+
+      if (this.auditService) {
+        await this.auditService.logFamilyGroupChange(fromId, familyGroupId, AuditAction.UPDATE_FAMILY_PERMISSIONS, {
+          transferredFrom: fromId,
+          transferredTo: toId,
+        });
+      }
+
+      return { success: true, data: members, message: 'Primary caregiver role transferred successfully' };
+    } catch (error) {
+      console.error('Error transferring primary caregiver role:', error);
+      return { success: false, error: 'Failed to transfer primary caregiver role' };
+    }
+  }
+}
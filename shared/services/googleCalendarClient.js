@@ -0,0 +1,164 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.createConfiguredGoogleCalendarClient = exports.HttpGoogleCalendarClient = exports.isGoogleCalendarError = void 0;
+const config_1 = require("../config");
+// Calendar access the sync needs: writing events and listing the user's calendars
+const SCOPES = [
+    'https://www.googleapis.com/auth/calendar.events',
+    'https://www.googleapis.com/auth/calendar.calendarlist.readonly',
+];
+const isGoogleCalendarError = (error, status) => error instanceof Error && typeof error.status === 'number' &&
+    (status === undefined || error.status === status);
+exports.isGoogleCalendarError = isGoogleCalendarError;
+const requestFailed = (status, message) => Object.assign(new Error(message), { status });
+class HttpGoogleCalendarClient {
+    clientId;
+    clientSecret;
+    redirectUri;
+    apiBaseUrl;
+    authUrl;
+    tokenUrl;
+    revokeUrl;
+    constructor(options) {
+        this.clientId = options.clientId;
+        this.clientSecret = options.clientSecret;
+        this.redirectUri = options.redirectUri;
+        this.apiBaseUrl = options.apiBaseUrl || 'https://www.googleapis.com/calendar/v3';
+        this.authUrl = options.authUrl || 'https://accounts.google.com/o/oauth2/v2/auth';
+        this.tokenUrl = options.tokenUrl || 'https://oauth2.googleapis.com/token';
+        this.revokeUrl = options.revokeUrl || 'https://oauth2.googleapis.com/revoke';
+    }
+    getAuthUrl(state) {
+        const params = new URLSearchParams({
+            client_id: this.clientId,
+            redirect_uri: this.redirectUri,
+            response_type: 'code',
+            scope: SCOPES.join(' '),
+            // Offline access and a fresh consent make Google return a refresh token
+            access_type: 'offline',
+            prompt: 'consent',
+            include_granted_scopes: 'true',
+            state,
+        });
+        return `${this.authUrl}?${params}`;
+    }
+    exchangeCode(code) {
+        return this.requestTokens({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: this.redirectUri,
+        });
+    }
+    refreshAccessToken(refreshToken) {
+        return this.requestTokens({
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken,
+        });
+    }
+    async revokeToken(token) {
+        const response = await fetch(this.revokeUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({ token }).toString(),
+        });
+        if (!response.ok) {
+            throw requestFailed(response.status, `Google token revocation failed: ${response.status}`);
+        }
+    }
+    async listCalendars(accessToken) {
+        const calendars = [];
+        let pageToken;
+        do {
+            const params = new URLSearchParams({ minAccessRole: 'writer' });
+            if (pageToken) {
+                params.set('pageToken', pageToken);
+            }
+            const page = await this.api(accessToken, 'GET', `/users/me/calendarList?${params}`);
+            for (const item of page.items || []) {
+                calendars.push({ id: item.id, summary: item.summaryOverride || item.summary || item.id, primary: !!item.primary });
+            }
+            pageToken = page.nextPageToken;
+        } while (pageToken);
+        return calendars;
+    }
+    insertEvent(accessToken, calendarId, event) {
+        return this.api(accessToken, 'POST', this.eventsPath(calendarId), event);
+    }
+    updateEvent(accessToken, calendarId, eventId, event, etag) {
+        return this.api(accessToken, 'PUT', `${this.eventsPath(calendarId)}/${encodeURIComponent(eventId)}`, event, etag ? { 'If-Match': etag } : {});
+    }
+    async deleteEvent(accessToken, calendarId, eventId) {
+        await this.api(accessToken, 'DELETE', `${this.eventsPath(calendarId)}/${encodeURIComponent(eventId)}`);
+    }
+    async listChangedEvents(accessToken, calendarId, syncToken) {
+        const events = [];
+        let pageToken;
+        let nextSyncToken;
+        do {
+            // Deleted events are only listed with showDeleted, and only the last page has the next sync token
+            const params = new URLSearchParams({ showDeleted: 'true', singleEvents: 'true', maxResults: '250' });
+            if (syncToken) {
+                params.set('syncToken', syncToken);
+            }
+            if (pageToken) {
+                params.set('pageToken', pageToken);
+            }
+            const page = await this.api(accessToken, 'GET', `${this.eventsPath(calendarId)}?${params}`);
+            events.push(...(page.items || []));
+            pageToken = page.nextPageToken;
+            nextSyncToken = page.nextSyncToken;
+        } while (pageToken);
+        return { events, nextSyncToken };
+    }
+    eventsPath(calendarId) {
+        return `/calendars/${encodeURIComponent(calendarId)}/events`;
+    }
+    async requestTokens(params) {
+        const response = await fetch(this.tokenUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                client_id: this.clientId,
+                client_secret: this.clientSecret,
+                ...params,
+            }).toString(),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw requestFailed(response.status, `Google token request failed: ${data.error || response.status}`);
+        }
+        return {
+            accessToken: data.access_token,
+            ...(data.refresh_token ? { refreshToken: data.refresh_token } : {}),
+            expiresAt: new Date(Date.now() + data.expires_in * 1000),
+        };
+    }
+    async api(accessToken, method, path, body, headers = {}) {
+        const response = await fetch(`${this.apiBaseUrl}${path}`, {
+            method,
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                ...(body ? { 'Content-Type': 'application/json' } : {}),
+                ...headers,
+            },
+            body: body ? JSON.stringify(body) : undefined,
+        });
+        if (!response.ok) {
+            throw requestFailed(response.status, `Google Calendar API error: ${response.status}`);
+        }
+        return response.status === 204 ? undefined : response.json();
+    }
+}
+exports.HttpGoogleCalendarClient = HttpGoogleCalendarClient;
+/**
+ * The client for the configured OAuth app, or undefined when Google
+ * Calendar sync isn't set up.
+ */
+const createConfiguredGoogleCalendarClient = () => config_1.config.GOOGLE_CLIENT_ID && config_1.config.GOOGLE_CLIENT_SECRET && config_1.config.GOOGLE_OAUTH_REDIRECT_URI
+    ? new HttpGoogleCalendarClient({
+        clientId: config_1.config.GOOGLE_CLIENT_ID,
+        clientSecret: config_1.config.GOOGLE_CLIENT_SECRET,
+        redirectUri: config_1.config.GOOGLE_OAUTH_REDIRECT_URI,
+    })
+    : undefined;
+exports.createConfiguredGoogleCalendarClient = createConfiguredGoogleCalendarClient;
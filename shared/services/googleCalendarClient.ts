@@ -0,0 +1,274 @@
+import { config } from '../config';
+import type { GoogleCalendarSummary } from '../types';
+
+// Calendar access the sync needs: writing events and listing the user's calendars
+const SCOPES = [
+  'https://www.googleapis.com/auth/calendar.events',
+  'https://www.googleapis.com/auth/calendar.calendarlist.readonly',
+];
+
+export interface GoogleTokens {
+  accessToken: string;
+  refreshToken?: string; // Only sent on the first authorization and on refresh rotation
+  expiresAt: Date;
+}
+
+export interface GoogleEventTime {
+  dateTime?: string; // RFC 3339; absent for all-day events
+  date?: string;
+}
+
+export interface GoogleCalendarEvent {
+  id: string;
+  etag: string;
+  status: 'confirmed' | 'tentative' | 'cancelled'; // Deleted events come back as cancelled
+  summary?: string;
+  description?: string;
+  location?: string;
+  start?: GoogleEventTime;
+  end?: GoogleEventTime;
+  updated: string;
+}
+
+export interface GoogleEventInput {
+  summary: string;
+  description?: string;
+  location?: string;
+  start: GoogleEventTime;
+  end: GoogleEventTime;
+  status?: 'confirmed' | 'tentative';
+}
+
+export interface GoogleEventChanges {
+  events: GoogleCalendarEvent[];
+  nextSyncToken?: string;
+}
+
+// Failed requests carry Google's HTTP status, e.g. 412 for a stale etag or 410 for an expired sync token
+export type GoogleCalendarError = Error & { status: number };
+
+export const isGoogleCalendarError = (error: unknown, status?: number): error is GoogleCalendarError =>
+  error instanceof Error && typeof (error as any).status === 'number' &&
+  (status === undefined || (error as any).status === status);
+
+/**
+ * The parts of Google's OAuth and Calendar APIs the sync uses. Tests run
+ * HttpGoogleCalendarClient against a local fake server.
+ */
+export interface GoogleCalendarClient {
+  getAuthUrl(state: string): string;
+  exchangeCode(code: string): Promise<GoogleTokens>;
+  refreshAccessToken(refreshToken: string): Promise<GoogleTokens>;
+  revokeToken(token: string): Promise<void>;
+  listCalendars(accessToken: string): Promise<GoogleCalendarSummary[]>;
+  insertEvent(accessToken: string, calendarId: string, event: GoogleEventInput): Promise<GoogleCalendarEvent>;
+  // Fails with 412 if the event's etag no longer matches
+  updateEvent(accessToken: string, calendarId: string, eventId: string, event: GoogleEventInput, etag?: string): Promise<GoogleCalendarEvent>;
+  deleteEvent(accessToken: string, calendarId: string, eventId: string): Promise<void>;
+  // Every event on the first call; only changed ones once given a sync token. Fails with 410 if the token has expired.
+  listChangedEvents(accessToken: string, calendarId: string, syncToken?: string): Promise<GoogleEventChanges>;
+}
+
+export interface HttpGoogleCalendarClientOptions {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  apiBaseUrl?: string;
+  authUrl?: string;
+  tokenUrl?: string;
+  revokeUrl?: string;
+}
+
+const requestFailed = (status: number, message: string): GoogleCalendarError =>
+  Object.assign(new Error(message), { status });
+
+export class HttpGoogleCalendarClient implements GoogleCalendarClient {
+  private clientId: string;
+  private clientSecret: string;
+  private redirectUri: string;
+  private apiBaseUrl: string;
+  private authUrl: string;
+  private tokenUrl: string;
+  private revokeUrl: string;
+
+  constructor(options: HttpGoogleCalendarClientOptions) {
+    this.clientId = options.clientId;
+    this.clientSecret = options.clientSecret;
+    this.redirectUri = options.redirectUri;
+    this.apiBaseUrl = options.apiBaseUrl || 'https://www.googleapis.com/calendar/v3';
+    this.authUrl = options.authUrl || 'https://accounts.google.com/o/oauth2/v2/auth';
+    this.tokenUrl = options.tokenUrl || 'https://oauth2.googleapis.com/token';
+    this.revokeUrl = options.revokeUrl || 'https://oauth2.googleapis.com/revoke';
+  }
+
+  getAuthUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: this.redirectUri,
+      response_type: 'code',
+      scope: SCOPES.join(' '),
+      // Offline access and a fresh consent make Google return a refresh token
+      access_type: 'offline',
+      prompt: 'consent',
+      include_granted_scopes: 'true',
+      state,
+    });
+    return `${this.authUrl}?${params}`;
+  }
+
+  exchangeCode(code: string): Promise<GoogleTokens> {
+    return this.requestTokens({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectUri,
+    });
+  }
+
+  refreshAccessToken(refreshToken: string): Promise<GoogleTokens> {
+    return this.requestTokens({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+  }
+
+  async revokeToken(token: string): Promise<void> {
+    const response = await fetch(this.revokeUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ token }).toString(),
+    });
+    if (!response.ok) {
+      throw requestFailed(response.status, `Google token revocation failed: ${response.status}`);
+    }
+  }
+
+  async listCalendars(accessToken: string): Promise<GoogleCalendarSummary[]> {
+    const calendars: GoogleCalendarSummary[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ minAccessRole: 'writer' });
+      if (pageToken) {
+        params.set('pageToken', pageToken);
+      }
+      const page = await this.api(accessToken, 'GET', `/users/me/calendarList?${params}`);
+      for (const item of page.items || []) {
+        calendars.push({ id: item.id, summary: item.summaryOverride || item.summary || item.id, primary: !!item.primary });
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return calendars;
+  }
+
+  insertEvent(accessToken: string, calendarId: string, event: GoogleEventInput): Promise<GoogleCalendarEvent> {
+    return this.api(accessToken, 'POST', this.eventsPath(calendarId), event);
+  }
+
+  updateEvent(
+    accessToken: string,
+    calendarId: string,
+    eventId: string,
+    event: GoogleEventInput,
+    etag?: string
+  ): Promise<GoogleCalendarEvent> {
+    return this.api(
+      accessToken,
+      'PUT',
+      `${this.eventsPath(calendarId)}/${encodeURIComponent(eventId)}`,
+      event,
+      etag ? { 'If-Match': etag } : {}
+    );
+  }
+
+  async deleteEvent(accessToken: string, calendarId: string, eventId: string): Promise<void> {
+    await this.api(accessToken, 'DELETE', `${this.eventsPath(calendarId)}/${encodeURIComponent(eventId)}`);
+  }
+
+  async listChangedEvents(accessToken: string, calendarId: string, syncToken?: string): Promise<GoogleEventChanges> {
+    const events: GoogleCalendarEvent[] = [];
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+
+    do {
+      // Deleted events are only listed with showDeleted, and only the last page has the next sync token
+      const params = new URLSearchParams({ showDeleted: 'true', singleEvents: 'true', maxResults: '250' });
+      if (syncToken) {
+        params.set('syncToken', syncToken);
+      }
+      if (pageToken) {
+        params.set('pageToken', pageToken);
+      }
+      const page = await this.api(accessToken, 'GET', `${this.eventsPath(calendarId)}?${params}`);
+      events.push(...(page.items || []));
+      pageToken = page.nextPageToken;
+      nextSyncToken = page.nextSyncToken;
+    } while (pageToken);
+
+    return { events, nextSyncToken };
+  }
+
+  private eventsPath(calendarId: string): string {
+    return `/calendars/${encodeURIComponent(calendarId)}/events`;
+  }
+
+  private async requestTokens(params: Record<string, string>): Promise<GoogleTokens> {
+    const response = await fetch(this.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        ...params,
+      }).toString(),
+    });
+
+    const data = await response.json().catch(() => ({})) as any;
+    if (!response.ok) {
+      throw requestFailed(response.status, `Google token request failed: ${data.error || response.status}`);
+    }
+
+    return {
+      accessToken: data.access_token,
+      ...(data.refresh_token ? { refreshToken: data.refresh_token } : {}),
+      expiresAt: new Date(Date.now() + data.expires_in * 1000),
+    };
+  }
+
+  private async api(
+    accessToken: string,
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<any> {
+    const response = await fetch(`${this.apiBaseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+        ...headers,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      throw requestFailed(response.status, `Google Calendar API error: ${response.status}`);
+    }
+
+    return response.status === 204 ? undefined : response.json();
+  }
+}
+
+/**
+ * The client for the configured OAuth app, or undefined when Google
+ * Calendar sync isn't set up.
+ */
+export const createConfiguredGoogleCalendarClient = (): GoogleCalendarClient | undefined =>
+  config.GOOGLE_CLIENT_ID && config.GOOGLE_CLIENT_SECRET && config.GOOGLE_OAUTH_REDIRECT_URI
+    ? new HttpGoogleCalendarClient({
+        clientId: config.GOOGLE_CLIENT_ID,
+        clientSecret: config.GOOGLE_CLIENT_SECRET,
+        redirectUri: config.GOOGLE_OAUTH_REDIRECT_URI,
+      })
+    : undefined;
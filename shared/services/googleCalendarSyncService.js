@@ -0,0 +1,693 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.GoogleCalendarSyncService = void 0;
+const types_1 = require("../types");
+const accessService_1 = require("./accessService");
+const appointmentService_1 = require("./appointmentService");
+const googleCalendarClient_1 = require("./googleCalendarClient");
+const clock_1 = require("../utils/clock");
+const appointments_1 = require("../utils/appointments");
+const secretTokens_1 = require("../utils/secretTokens");
+const encryption_1 = require("../utils/encryption");
+const CONNECTIONS_COLLECTION = 'googleCalendarConnections';
+const EVENT_LINKS_COLLECTION = 'googleCalendarEvents';
+const OAUTH_STATES_COLLECTION = 'googleOAuthStates';
+const OAUTH_STATE_MINUTES = 10;
+// Refresh access tokens this close to expiry
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Appointments older than this aren't pushed
+const PAST_APPOINTMENT_DAYS = 30;
+const NOT_CONFIGURED = 'Google Calendar is not configured';
+const NOT_CONNECTED = 'Google Calendar is not connected';
+// Firestore returns Timestamps; tests hold plain Dates
+const toDate = (value) => value ? (value.toDate ? value.toDate() : new Date(value)) : undefined;
+/**
+ * Two-way sync between patients' appointments and a Google calendar chosen
+ * by each connected user. Changes are matched up by event ID, and etags show
+ * which events changed in Google since the last sync.
+ */
+class GoogleCalendarSyncService {
+    db;
+    client;
+    auditService;
+    accessService;
+    appointmentService;
+    clock;
+    tokenKey;
+    constructor(deps) {
+        this.db = deps.db;
+        // Tokens are only ever stored encrypted, so without a key Google Calendar stays off
+        this.tokenKey = deps.tokenEncryptionKey ? (0, encryption_1.parseEncryptionKey)(deps.tokenEncryptionKey) : undefined;
+        this.client = this.tokenKey ? deps.client : undefined;
+        this.auditService = deps.auditService;
+        this.accessService = deps.accessService || new accessService_1.AccessService({ db: deps.db, auditService: deps.auditService });
+        this.clock = deps.clock || clock_1.systemClock;
+        // Its own instance with no change listener, so edits pulled from Google don't set off another sync
+        this.appointmentService = new appointmentService_1.AppointmentService({ db: deps.db, auditService: deps.auditService, clock: this.clock });
+    }
+    // The Google consent page URL that starts connecting the user's calendar
+    async getAuthUrl(userId) {
+        if (!this.client) {
+            return { success: false, error: NOT_CONFIGURED };
+        }
+        try {
+            const state = (0, secretTokens_1.generateSecretToken)();
+            await this.db.collection(OAUTH_STATES_COLLECTION).doc((0, secretTokens_1.hashSecretToken)(state)).set({
+                userId,
+                createdAt: this.clock.now(),
+            });
+            return {
+                success: true,
+                data: this.client.getAuthUrl(state),
+                message: 'Authorization URL created successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error creating Google authorization URL:', error);
+            return {
+                success: false,
+                error: 'Failed to start Google Calendar connection'
+            };
+        }
+    }
+    /**
+     * Finishes connecting a calendar once Google redirects back. Tokens are
+     * kept on the server; reconnecting keeps the chosen calendar and patients.
+     * @param state - The state sent with the consent page URL
+     * @param code - The authorization code from Google
+     */
+    async completeAuthorization(state, code) {
+        if (!this.client) {
+            return { success: false, error: NOT_CONFIGURED };
+        }
+        try {
+            const stateRef = this.db.collection(OAUTH_STATES_COLLECTION).doc((0, secretTokens_1.hashSecretToken)(state));
+            const stateDoc = await stateRef.get();
+            if (!stateDoc.exists) {
+                return {
+                    success: false,
+                    error: 'Authorization request not found'
+                };
+            }
+            // Each state can only be used once
+            const { userId, createdAt } = stateDoc.data();
+            await stateRef.delete();
+            const now = this.clock.now();
+            if (now.getTime() - toDate(createdAt).getTime() > OAUTH_STATE_MINUTES * 60 * 1000) {
+                return {
+                    success: false,
+                    error: 'Authorization request expired'
+                };
+            }
+            const tokens = await this.client.exchangeCode(code);
+            const connectionRef = this.db.collection(CONNECTIONS_COLLECTION).doc(userId);
+            const existing = await connectionRef.get();
+            const refreshToken = tokens.refreshToken
+                ? this.encryptToken(tokens.refreshToken)
+                : (existing.exists ? existing.data().refreshToken : undefined);
+            if (!refreshToken) {
+                return {
+                    success: false,
+                    error: 'Google did not grant offline access'
+                };
+            }
+            const data = {
+                userId,
+                calendarId: null,
+                patientIds: [],
+                syncToken: null,
+                ...(existing.exists ? existing.data() : {}),
+                accessToken: this.encryptToken(tokens.accessToken),
+                refreshToken,
+                expiresAt: tokens.expiresAt,
+                connectedAt: now,
+            };
+            await connectionRef.set(data);
+            if (this.auditService) {
+                await this.auditService.logGoogleCalendarChange(userId, types_1.AuditAction.CONNECT_GOOGLE_CALENDAR, {
+                    reconnected: existing.exists,
+                });
+            }
+            return {
+                success: true,
+                data: this.toConnection(data),
+                message: 'Google Calendar connected successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error completing Google authorization:', error);
+            return {
+                success: false,
+                error: 'Failed to connect Google Calendar'
+            };
+        }
+    }
+    // The user's connection, or null if they haven't connected a calendar
+    async getConnection(userId) {
+        try {
+            const doc = await this.db.collection(CONNECTIONS_COLLECTION).doc(userId).get();
+            return {
+                success: true,
+                data: doc.exists ? this.toConnection(doc.data()) : null,
+                message: 'Google Calendar connection retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting Google Calendar connection:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve Google Calendar connection'
+            };
+        }
+    }
+    // The connected user's calendars that appointments can be written to
+    async listCalendars(userId) {
+        if (!this.client) {
+            return { success: false, error: NOT_CONFIGURED };
+        }
+        try {
+            const connectionRef = this.db.collection(CONNECTIONS_COLLECTION).doc(userId);
+            const doc = await connectionRef.get();
+            if (!doc.exists) {
+                return { success: false, error: NOT_CONNECTED };
+            }
+            const accessToken = await this.getAccessToken(connectionRef, doc.data());
+            return {
+                success: true,
+                data: await this.client.listCalendars(accessToken),
+                message: 'Calendars retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error listing Google calendars:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve calendars'
+            };
+        }
+    }
+    /**
+     * Chooses the calendar to sync to and whose appointments go there. Moving
+     * to another calendar moves the events on the next sync.
+     * @param userId - The connected user
+     * @param settings - The calendar ID and/or patient uids to change
+     */
+    async updateSettings(userId, settings) {
+        if (!this.client) {
+            return { success: false, error: NOT_CONFIGURED };
+        }
+        try {
+            const connectionRef = this.db.collection(CONNECTIONS_COLLECTION).doc(userId);
+            const doc = await connectionRef.get();
+            if (!doc.exists) {
+                return { success: false, error: NOT_CONNECTED };
+            }
+            const current = doc.data();
+            const updates = {};
+            if (settings.calendarId !== undefined && settings.calendarId !== current.calendarId) {
+                const calendars = await this.client.listCalendars(await this.getAccessToken(connectionRef, current));
+                if (!calendars.some(calendar => calendar.id === settings.calendarId)) {
+                    return {
+                        success: false,
+                        error: 'Calendar not found'
+                    };
+                }
+                updates.calendarId = settings.calendarId;
+                // Sync tokens belong to a calendar
+                updates.syncToken = null;
+            }
+            if (settings.patientIds !== undefined) {
+                const patientIds = [...new Set(settings.patientIds)];
+                for (const patientId of patientIds) {
+                    if (!(await this.accessService.can(userId, patientId, 'view_appointments'))) {
+                        return {
+                            success: false,
+                            error: 'Access denied'
+                        };
+                    }
+                }
+                updates.patientIds = patientIds;
+            }
+            await connectionRef.update(updates);
+            if (this.auditService) {
+                await this.auditService.logGoogleCalendarChange(userId, types_1.AuditAction.UPDATE_GOOGLE_CALENDAR, {
+                    calendarId: updates.calendarId ?? current.calendarId,
+                    patientIds: updates.patientIds ?? current.patientIds,
+                });
+            }
+            return {
+                success: true,
+                data: this.toConnection({ ...current, ...updates }),
+                message: 'Google Calendar settings updated successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error updating Google Calendar settings:', error);
+            return {
+                success: false,
+                error: 'Failed to update Google Calendar settings'
+            };
+        }
+    }
+    // Stop syncing and revoke the tokens. Events already in the calendar are left there.
+    async disconnect(userId) {
+        try {
+            const connectionRef = this.db.collection(CONNECTIONS_COLLECTION).doc(userId);
+            const doc = await connectionRef.get();
+            if (!doc.exists) {
+                return { success: false, error: NOT_CONNECTED };
+            }
+            if (this.client) {
+                try {
+                    await this.client.revokeToken(this.decryptToken(doc.data().refreshToken));
+                }
+                catch (error) {
+                    // The user may already have removed access from their Google account
+                    console.error('Error revoking Google token:', error);
+                }
+            }
+            const links = await this.db.collection(EVENT_LINKS_COLLECTION).where('userId', '==', userId).get();
+            for (const link of links.docs) {
+                await this.db.collection(EVENT_LINKS_COLLECTION).doc(link.id).delete();
+            }
+            await connectionRef.delete();
+            if (this.auditService) {
+                await this.auditService.logGoogleCalendarChange(userId, types_1.AuditAction.DISCONNECT_GOOGLE_CALENDAR);
+            }
+            return {
+                success: true,
+                message: 'Google Calendar disconnected successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error disconnecting Google Calendar:', error);
+            return {
+                success: false,
+                error: 'Failed to disconnect Google Calendar'
+            };
+        }
+    }
+    /**
+     * Syncs one user's calendar. Edits made in Google are pulled first, then
+     * appointment changes are pushed. When an appointment changed on both
+     * sides since the last sync, the later change wins. Users who can only
+     * view a patient's appointments get push-only sync for that patient.
+     * @param userId - The connected user
+     * @returns How many changes went each way
+     */
+    async syncUser(userId) {
+        if (!this.client) {
+            return { success: false, error: NOT_CONFIGURED };
+        }
+        try {
+            const connectionRef = this.db.collection(CONNECTIONS_COLLECTION).doc(userId);
+            const doc = await connectionRef.get();
+            if (!doc.exists) {
+                return { success: false, error: NOT_CONNECTED };
+            }
+            const connection = doc.data();
+            if (!connection.calendarId) {
+                return {
+                    success: true,
+                    data: { pushed: 0, pulled: 0 },
+                    message: 'No calendar chosen yet'
+                };
+            }
+            const accessToken = await this.getAccessToken(connectionRef, connection);
+            const links = await this.getEventLinks(userId);
+            // Patients the user has since lost access to are dropped from the calendar
+            const patientIds = [];
+            const editablePatientIds = new Set();
+            for (const patientId of connection.patientIds || []) {
+                if (await this.accessService.can(userId, patientId, 'view_appointments')) {
+                    patientIds.push(patientId);
+                    if (await this.accessService.can(userId, patientId, 'edit_appointments')) {
+                        editablePatientIds.add(patientId);
+                    }
+                }
+            }
+            const { pulled, syncToken } = await this.pullChanges(userId, connection, accessToken, links, patientIds, editablePatientIds);
+            const pushed = await this.pushChanges(userId, connection.calendarId, accessToken, links, patientIds);
+            await connectionRef.update({ syncToken, lastSyncedAt: this.clock.now() });
+            return {
+                success: true,
+                data: { pushed, pulled },
+                message: 'Google Calendar synced successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error syncing Google Calendar:', error);
+            return {
+                success: false,
+                error: 'Failed to sync Google Calendar'
+            };
+        }
+    }
+    // Sync every user whose calendar includes the patient
+    async syncPatient(patientId) {
+        try {
+            const snapshot = await this.db.collection(CONNECTIONS_COLLECTION)
+                .where('patientIds', 'array-contains', patientId)
+                .get();
+            return {
+                success: true,
+                data: await this.syncUsers(snapshot.docs.map((doc) => doc.id)),
+                message: 'Google Calendars synced successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error syncing Google Calendars for patient:', error);
+            return {
+                success: false,
+                error: 'Failed to sync Google Calendars'
+            };
+        }
+    }
+    // Sync every connected calendar; run on a schedule to pick up edits made in Google
+    async syncAll() {
+        if (!this.client) {
+            return { success: false, error: NOT_CONFIGURED };
+        }
+        try {
+            const snapshot = await this.db.collection(CONNECTIONS_COLLECTION).get();
+            const userIds = snapshot.docs
+                .filter((doc) => doc.data().calendarId)
+                .map((doc) => doc.id);
+            const run = await this.syncUsers(userIds);
+            return {
+                success: true,
+                data: run,
+                message: `Synced ${run.synced} Google Calendars, ${run.failed} failed`
+            };
+        }
+        catch (error) {
+            console.error('Error syncing Google Calendars:', error);
+            return {
+                success: false,
+                error: 'Failed to sync Google Calendars'
+            };
+        }
+    }
+    async appointmentChanged(patientId) {
+        if (!this.client) {
+            return;
+        }
+        const result = await this.syncPatient(patientId);
+        if (result.success && result.data.failed > 0) {
+            console.error(`Google Calendar sync failed for ${result.data.failed} users after an appointment change`);
+        }
+    }
+    async syncUsers(userIds) {
+        const run = { synced: 0, failed: 0 };
+        for (const userId of userIds) {
+            const result = await this.syncUser(userId);
+            if (result.success) {
+                run.synced++;
+            }
+            else {
+                run.failed++;
+            }
+        }
+        return run;
+    }
+    // Applies edits made in Google to the appointments they came from
+    async pullChanges(userId, connection, accessToken, links, patientIds, editablePatientIds) {
+        let changes;
+        try {
+            changes = await this.client.listChangedEvents(accessToken, connection.calendarId, connection.syncToken || undefined);
+        }
+        catch (error) {
+            // An expired sync token means listing every event again
+            if (!(0, googleCalendarClient_1.isGoogleCalendarError)(error, 410)) {
+                throw error;
+            }
+            changes = await this.client.listChangedEvents(accessToken, connection.calendarId);
+        }
+        const linksByEventId = new Map();
+        for (const link of links.values()) {
+            if (link.calendarId === connection.calendarId) {
+                linksByEventId.set(link.eventId, link);
+            }
+        }
+        let pulled = 0;
+        for (const event of changes.events) {
+            const link = linksByEventId.get(event.id);
+            // Skip events we didn't create, and our own writes
+            if (!link || link.etag === event.etag || !patientIds.includes(link.patientId)) {
+                continue;
+            }
+            const canEdit = editablePatientIds.has(link.patientId);
+            if (await this.applyEventChange(userId, accessToken, event, link, links, canEdit)) {
+                pulled++;
+            }
+        }
+        return { pulled, syncToken: changes.nextSyncToken || null };
+    }
+    async applyEventChange(userId, accessToken, event, link, links, canEdit) {
+        const linkRef = this.db.collection(EVENT_LINKS_COLLECTION).doc(link.id);
+        const appointment = await this.appointmentService.getAppointmentById(link.appointmentId);
+        if (!appointment.success) {
+            // Deleted here; the push removes the event
+            return false;
+        }
+        const current = appointment.data;
+        if (!canEdit) {
+            // Without edit_appointments Google's copy is put back as the appointment is:
+            // dropping the link lets the push re-create a deleted event
+            if (event.status === 'cancelled') {
+                await linkRef.delete();
+                links.delete(link.appointmentId);
+                return false;
+            }
+            link.etag = event.etag;
+            if ((0, appointments_1.isAppointmentOpen)(current.status)) {
+                await this.updateEvent(accessToken, current, link, links);
+            }
+            else {
+                await linkRef.update({ etag: event.etag });
+            }
+            return false;
+        }
+        if (event.status === 'cancelled') {
+            // Deleted in Google: cancel the appointment if it still can be
+            await linkRef.delete();
+            links.delete(link.appointmentId);
+            if (!(0, appointments_1.canTransitionAppointment)(current.status, 'cancelled')) {
+                return false;
+            }
+            const result = await this.appointmentService.updateStatus(current.id, 'cancelled', userId);
+            return result.success;
+        }
+        // Changed on both sides: keep ours if it's later, and let the push overwrite Google's copy
+        if (current.updatedAt > link.syncedAt && current.updatedAt >= new Date(event.updated)) {
+            await linkRef.update({ etag: event.etag });
+            link.etag = event.etag;
+            return false;
+        }
+        const updates = this.toAppointmentUpdate(event, current);
+        if ((0, appointments_1.isAppointmentOpen)(current.status) && (0, appointments_1.validateAppointment)(updates, false)) {
+            // Edits an appointment can't hold are replaced with the appointment as it is
+            link.etag = event.etag;
+            await this.updateEvent(accessToken, current, link, links);
+            return false;
+        }
+        let applied = false;
+        if ((0, appointments_1.isAppointmentOpen)(current.status) && Object.keys(updates).length > 0) {
+            const result = await this.appointmentService.updateAppointment(current.id, updates, userId);
+            applied = result.success;
+        }
+        // Recorded even when nothing was applied, so the same edit isn't looked at again
+        const syncedAt = this.clock.now();
+        await linkRef.update({ etag: event.etag, syncedAt });
+        link.etag = event.etag;
+        link.syncedAt = syncedAt;
+        return applied;
+    }
+    // Creates, updates and removes events to match the synced patients' appointments
+    async pushChanges(userId, calendarId, accessToken, links, patientIds) {
+        const from = new Date(this.clock.now().getTime() - PAST_APPOINTMENT_DAYS * MS_PER_DAY);
+        const seen = new Set();
+        let pushed = 0;
+        for (const patientId of patientIds) {
+            const appointments = await this.appointmentService.getAppointmentsByPatientId(patientId, { from });
+            if (!appointments.success) {
+                throw new Error(appointments.error);
+            }
+            for (const appointment of appointments.data) {
+                seen.add(appointment.id);
+                const link = links.get(appointment.id);
+                if (appointment.status === 'cancelled') {
+                    if (link) {
+                        await this.removeEvent(accessToken, link, links);
+                        pushed++;
+                    }
+                    continue;
+                }
+                // Events of completed appointments are left as they were
+                if (!(0, appointments_1.isAppointmentOpen)(appointment.status)) {
+                    continue;
+                }
+                if (link && link.calendarId === calendarId) {
+                    if (appointment.updatedAt > link.syncedAt && (await this.updateEvent(accessToken, appointment, link, links))) {
+                        pushed++;
+                    }
+                    continue;
+                }
+                // Not synced yet, or still in the calendar used before
+                if (link) {
+                    await this.removeEvent(accessToken, link, links);
+                }
+                await this.insertEvent(userId, calendarId, accessToken, appointment, links);
+                pushed++;
+            }
+        }
+        // Events whose appointment was deleted or cancelled before the window, or whose patient is no longer synced
+        for (const link of [...links.values()]) {
+            if (seen.has(link.appointmentId)) {
+                continue;
+            }
+            let keep = patientIds.includes(link.patientId) && link.calendarId === calendarId;
+            if (keep) {
+                const appointment = await this.appointmentService.getAppointmentById(link.appointmentId);
+                if (!appointment.success && appointment.error !== 'Appointment not found') {
+                    throw new Error(appointment.error);
+                }
+                keep = appointment.success && appointment.data.status !== 'cancelled';
+            }
+            if (!keep) {
+                await this.removeEvent(accessToken, link, links);
+                pushed++;
+            }
+        }
+        return pushed;
+    }
+    async insertEvent(userId, calendarId, accessToken, appointment, links) {
+        const event = await this.client.insertEvent(accessToken, calendarId, this.toEventInput(appointment));
+        const link = {
+            id: `${userId}_${appointment.id}`,
+            userId,
+            patientId: appointment.patientId,
+            appointmentId: appointment.id,
+            calendarId,
+            eventId: event.id,
+            etag: event.etag,
+            syncedAt: this.clock.now(),
+        };
+        const { id, ...data } = link;
+        await this.db.collection(EVENT_LINKS_COLLECTION).doc(id).set(data);
+        links.set(appointment.id, link);
+    }
+    // Returns false when the event changed in Google since it was last read; the next pull picks that up
+    async updateEvent(accessToken, appointment, link, links) {
+        try {
+            const event = await this.client.updateEvent(accessToken, link.calendarId, link.eventId, this.toEventInput(appointment), link.etag);
+            const syncedAt = this.clock.now();
+            await this.db.collection(EVENT_LINKS_COLLECTION).doc(link.id).update({ etag: event.etag, syncedAt });
+            link.etag = event.etag;
+            link.syncedAt = syncedAt;
+            return true;
+        }
+        catch (error) {
+            if ((0, googleCalendarClient_1.isGoogleCalendarError)(error, 412)) {
+                return false;
+            }
+            // Removed from Google without us seeing it; put it back
+            if ((0, googleCalendarClient_1.isGoogleCalendarError)(error, 404) || (0, googleCalendarClient_1.isGoogleCalendarError)(error, 410)) {
+                await this.db.collection(EVENT_LINKS_COLLECTION).doc(link.id).delete();
+                links.delete(link.appointmentId);
+                await this.insertEvent(link.userId, link.calendarId, accessToken, appointment, links);
+                return true;
+            }
+            throw error;
+        }
+    }
+    async removeEvent(accessToken, link, links) {
+        try {
+            await this.client.deleteEvent(accessToken, link.calendarId, link.eventId);
+        }
+        catch (error) {
+            // Already deleted in Google
+            if (!(0, googleCalendarClient_1.isGoogleCalendarError)(error, 404) && !(0, googleCalendarClient_1.isGoogleCalendarError)(error, 410)) {
+                throw error;
+            }
+        }
+        await this.db.collection(EVENT_LINKS_COLLECTION).doc(link.id).delete();
+        links.delete(link.appointmentId);
+    }
+    // A valid access token, refreshing it when it's about to expire
+    async getAccessToken(connectionRef, connection) {
+        if (toDate(connection.expiresAt).getTime() - TOKEN_REFRESH_MARGIN_MS > this.clock.now().getTime()) {
+            return this.decryptToken(connection.accessToken);
+        }
+        const tokens = await this.client.refreshAccessToken(this.decryptToken(connection.refreshToken));
+        const updates = {
+            accessToken: this.encryptToken(tokens.accessToken),
+            expiresAt: tokens.expiresAt,
+            ...(tokens.refreshToken ? { refreshToken: this.encryptToken(tokens.refreshToken) } : {}),
+        };
+        await connectionRef.update(updates);
+        Object.assign(connection, updates);
+        return tokens.accessToken;
+    }
+    // OAuth tokens are encrypted at rest; only this service holds the key
+    encryptToken(token) {
+        return (0, encryption_1.encryptSecret)(token, this.tokenKey);
+    }
+    decryptToken(stored) {
+        return (0, encryption_1.decryptSecret)(stored, this.tokenKey);
+    }
+    // The user's event links keyed by appointment ID
+    async getEventLinks(userId) {
+        const snapshot = await this.db.collection(EVENT_LINKS_COLLECTION).where('userId', '==', userId).get();
+        return new Map(snapshot.docs.map((doc) => {
+            const data = doc.data();
+            return [data.appointmentId, { id: doc.id, ...data, syncedAt: toDate(data.syncedAt) }];
+        }));
+    }
+    toEventInput(appointment) {
+        return {
+            summary: appointment.title,
+            ...(appointment.description ? { description: appointment.description } : {}),
+            ...(appointment.location ? { location: appointment.location } : {}),
+            start: { dateTime: appointment.dateTime.toISOString() },
+            end: { dateTime: new Date(appointment.dateTime.getTime() + appointment.duration * 60 * 1000).toISOString() },
+            status: appointment.status === 'confirmed' ? 'confirmed' : 'tentative',
+        };
+    }
+    // The fields an edit in Google changed; all-day times are ignored
+    toAppointmentUpdate(event, appointment) {
+        const updates = {};
+        const title = (event.summary || '').trim();
+        if (title && title !== appointment.title) {
+            updates.title = title;
+        }
+        if ((event.description || '') !== (appointment.description || '')) {
+            updates.description = event.description || '';
+        }
+        if ((event.location || '') !== (appointment.location || '')) {
+            updates.location = event.location || '';
+        }
+        if (event.start?.dateTime && event.end?.dateTime) {
+            const start = new Date(event.start.dateTime);
+            const duration = Math.round((new Date(event.end.dateTime).getTime() - start.getTime()) / (60 * 1000));
+            if (start.getTime() !== appointment.dateTime.getTime()) {
+                updates.dateTime = start;
+            }
+            if (duration !== appointment.duration) {
+                updates.duration = duration;
+            }
+        }
+        return updates;
+    }
+    toConnection(data) {
+        return {
+            userId: data.userId,
+            calendarId: data.calendarId || null,
+            patientIds: data.patientIds || [],
+            connectedAt: toDate(data.connectedAt),
+            ...(data.lastSyncedAt ? { lastSyncedAt: toDate(data.lastSyncedAt) } : {}),
+        };
+    }
+}
+exports.GoogleCalendarSyncService = GoogleCalendarSyncService;
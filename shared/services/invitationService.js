@@ -0,0 +1,68 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.InvitationService = void 0;
+const types_1 = require("../types");
+const clock_1 = require("../utils/clock");
+const SYSTEM_USER_ID = 'system';
+// Firestore returns Timestamps; tests hold plain Dates
+const toDate = (value) => value?.toDate ? value.toDate() : new Date(value);
+class InvitationService {
+    db;
+    auditService;
+    clock;
+    constructor(deps) {
+        this.db = deps.db;
+        this.auditService = deps.auditService;
+        this.clock = deps.clock || clock_1.systemClock;
+    }
+    /**
+     * Marks pending invitations past their `expiresAt` as expired. Each one is
+     * re-read in a transaction so an invitation accepted, declined or resent
+     * since the query keeps its new status.
+     */
+    async expireInvitations() {
+        try {
+            const now = this.clock.now();
+            const summary = { due: 0, expired: 0 };
+            const snapshot = await this.db.collection('invitations')
+                .where('status', '==', 'pending')
+                .where('expiresAt', '<=', now)
+                .get();
+            summary.due = snapshot.docs.length;
+            for (const doc of snapshot.docs) {
+                const invitationRef = this.db.collection('invitations').doc(doc.id);
+                const expired = await this.db.runTransaction(async (transaction) => {
+                    const current = await transaction.get(invitationRef);
+                    const data = current.exists ? current.data() : undefined;
+                    if (data?.status !== 'pending' || toDate(data.expiresAt) > now) {
+                        return false;
+                    }
+                    transaction.update(invitationRef, { status: 'expired', expiredAt: now });
+                    return true;
+                });
+                if (!expired) {
+                    continue;
+                }
+                summary.expired++;
+                if (this.auditService) {
+                    await this.auditService.logInvitationChange(SYSTEM_USER_ID, doc.id, types_1.AuditAction.EXPIRE_INVITATION, {
+                        expiresAt: toDate(doc.data().expiresAt),
+                    });
+                }
+            }
+            return {
+                success: true,
+                data: summary,
+                message: `Expired ${summary.expired} invitations`
+            };
+        }
+        catch (error) {
+            console.error('Error expiring invitations:', error);
+            return {
+                success: false,
+                error: 'Failed to expire invitations'
+            };
+        }
+    }
+}
+exports.InvitationService = InvitationService;
@@ -0,0 +1,87 @@
+import type { ApiResponse } from '../types';
+import { AuditAction } from '../types';
+import { AuditService } from './auditService';
+import { Clock, systemClock } from '../utils/clock';
+
+const SYSTEM_USER_ID = 'system';
+
+// Firestore returns Timestamps; tests hold plain Dates
+const toDate = (value: any): Date => value?.toDate ? value.toDate() : new Date(value);
+
+export interface InvitationExpirySummary {
+  due: number;
+  expired: number;
+}
+
+interface InvitationServiceDeps {
+  db: any; // Firestore instance
+  auditService?: AuditService;
+  clock?: Clock;
+}
+
+export class InvitationService {
+  private db: any;
+  private auditService?: AuditService;
+  private clock: Clock;
+
+  constructor(deps: InvitationServiceDeps) {
+    this.db = deps.db;
+    this.auditService = deps.auditService;
+    this.clock = deps.clock || systemClock;
+  }
+
+  /**
+   * Marks pending invitations past their `expiresAt` as expired. Each one is
+   * re-read in a transaction so an invitation accepted, declined or resent
+   * since the query keeps its new status.
+   */
+  async expireInvitations(): Promise<ApiResponse<InvitationExpirySummary>> {
+    try {
+      const now = this.clock.now();
+      const summary: InvitationExpirySummary = { due: 0, expired: 0 };
+
+      const snapshot = await this.db.collection('invitations')
+        .where('status', '==', 'pending')
+        .where('expiresAt', '<=', now)
+        .get();
+      summary.due = snapshot.docs.length;
+
+      for (const doc of snapshot.docs) {
+        const invitationRef = this.db.collection('invitations').doc(doc.id);
+        const expired = await this.db.runTransaction(async (transaction: any) => {
+          const current = await transaction.get(invitationRef);
+          const data = current.exists ? current.data() : undefined;
+          if (data?.status !== 'pending' || toDate(data.expiresAt) > now) {
+            return false;
+          }
+
+          transaction.update(invitationRef, { status: 'expired', expiredAt: now });
+          return true;
+        });
+
+        if (!expired) {
+          continue;
+        }
+
+        summary.expired++;
+        if (this.auditService) {
+          await this.auditService.logInvitationChange(SYSTEM_USER_ID, doc.id, AuditAction.EXPIRE_INVITATION, {
+            expiresAt: toDate(doc.data().expiresAt),
+          });
+        }
+      }
+
+      return {
+        success: true,
+        data: summary,
+        message: `Expired ${summary.expired} invitations`
+      };
+    } catch (error) {
+      console.error('Error expiring invitations:', error);
+      return {
+        success: false,
+        error: 'Failed to expire invitations'
+      };
+    }
+  }
+}
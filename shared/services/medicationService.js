@@ -1,10 +1,30 @@
 "use strict";
 Object.defineProperty(exports, "__esModule", { value: true });
 exports.MedicationService = void 0;
+const types_1 = require("../types");
+const dosingSchedule_1 = require("../utils/dosingSchedule");
+const timezone_1 = require("../utils/timezone");
+const medicationLog_1 = require("../utils/medicationLog");
+const dailyDoseLimit_1 = require("../utils/dailyDoseLimit");
+const supplyForecast_1 = require("../utils/supplyForecast");
+const medicationHistory_1 = require("../utils/medicationHistory");
+// A dose logged within this many minutes of its expected time counts as on time
+const ON_TIME_WINDOW_MINUTES = 60;
+// A dose logged later than the on-time window but within this many minutes counts as late
+const LATE_WINDOW_MINUTES = 240;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Recorded as the author of changes made by scheduled jobs
+const SYSTEM_USER_ID = 'system';
+// How far ahead scheduled doses are walked when forecasting supply
+const SUPPLY_FORECAST_DAYS = 90;
+// Window of logged use averaged for medications without expected doses
+const RECENT_USE_DAYS = 30;
 class MedicationService {
     db;
+    auditService;
     constructor(deps) {
         this.db = deps.db;
+        this.auditService = deps.auditService;
     }
     // Get all medications for a patient
     async getMedicationsByPatientId(patientId) {
@@ -20,6 +40,9 @@ class MedicationService {
                     prescribedDate: data.prescribedDate?.toDate ? data.prescribedDate.toDate() : new Date(data.prescribedDate),
                     startDate: data.startDate?.toDate ? data.startDate.toDate() : (data.startDate ? new Date(data.startDate) : undefined),
                     endDate: data.endDate?.toDate ? data.endDate.toDate() : (data.endDate ? new Date(data.endDate) : undefined),
+                    lastFillDate: data.lastFillDate?.toDate ? data.lastFillDate.toDate() : (data.lastFillDate ? new Date(data.lastFillDate) : undefined),
+                    lowSupplyAlertedAt: data.lowSupplyAlertedAt?.toDate ? data.lowSupplyAlertedAt.toDate() : (data.lowSupplyAlertedAt ? new Date(data.lowSupplyAlertedAt) : undefined),
+                    discontinuedAt: data.discontinuedAt?.toDate ? data.discontinuedAt.toDate() : (data.discontinuedAt ? new Date(data.discontinuedAt) : undefined),
                     createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                     updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
                 };
@@ -55,6 +78,9 @@ class MedicationService {
                 prescribedDate: data.prescribedDate?.toDate ? data.prescribedDate.toDate() : new Date(data.prescribedDate),
                 startDate: data.startDate?.toDate ? data.startDate.toDate() : (data.startDate ? new Date(data.startDate) : undefined),
                 endDate: data.endDate?.toDate ? data.endDate.toDate() : (data.endDate ? new Date(data.endDate) : undefined),
+                lastFillDate: data.lastFillDate?.toDate ? data.lastFillDate.toDate() : (data.lastFillDate ? new Date(data.lastFillDate) : undefined),
+                lowSupplyAlertedAt: data.lowSupplyAlertedAt?.toDate ? data.lowSupplyAlertedAt.toDate() : (data.lowSupplyAlertedAt ? new Date(data.lowSupplyAlertedAt) : undefined),
+                discontinuedAt: data.discontinuedAt?.toDate ? data.discontinuedAt.toDate() : (data.discontinuedAt ? new Date(data.discontinuedAt) : undefined),
                 createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                 updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
             };
@@ -81,6 +107,7 @@ class MedicationService {
                 prescribedDate: new Date(medicationData.prescribedDate),
                 startDate: medicationData.startDate ? new Date(medicationData.startDate) : undefined,
                 endDate: medicationData.endDate ? new Date(medicationData.endDate) : undefined,
+                lastFillDate: medicationData.lastFillDate ? new Date(medicationData.lastFillDate) : undefined,
                 createdAt: new Date(),
                 updatedAt: new Date(),
             };
@@ -105,17 +132,11 @@ class MedicationService {
             };
         }
     }
-    // Update an existing medication
-    async updateMedication(medicationId, updates) {
+    // Update an existing medication. Each update that changes something is recorded
+    // as the next version in the medication's history, with the fields before and after.
+    async updateMedication(medicationId, updates, changedBy) {
         try {
             const docRef = this.db.collection('medications').doc(medicationId);
-            const doc = await docRef.get();
-            if (!doc.exists) {
-                return {
-                    success: false,
-                    error: 'Medication not found'
-                };
-            }
             // Parse any date fields in updates
             const parsedUpdates = { ...updates };
             if (parsedUpdates.prescribedDate) {
@@ -127,8 +148,42 @@ class MedicationService {
             if (parsedUpdates.endDate) {
                 parsedUpdates.endDate = new Date(parsedUpdates.endDate);
             }
+            if (parsedUpdates.lastFillDate) {
+                parsedUpdates.lastFillDate = new Date(parsedUpdates.lastFillDate);
+            }
             parsedUpdates.updatedAt = new Date();
-            await docRef.update(parsedUpdates);
+            const historyRef = this.db.collection('medicationHistory').doc();
+            const found = await this.db.runTransaction(async (transaction) => {
+                const doc = await transaction.get(docRef);
+                if (!doc.exists) {
+                    return false;
+                }
+                const current = doc.data();
+                const changes = (0, medicationHistory_1.diffMedication)(current, parsedUpdates);
+                if (changes.length > 0) {
+                    parsedUpdates.version = (current.version || 1) + 1;
+                    const entry = {
+                        medicationId,
+                        patientId: current.patientId,
+                        version: parsedUpdates.version,
+                        changedBy: changedBy?.uid || SYSTEM_USER_ID,
+                        changedAt: parsedUpdates.updatedAt,
+                        changes,
+                    };
+                    if (changedBy?.name) {
+                        entry.changedByName = changedBy.name;
+                    }
+                    transaction.set(historyRef, entry);
+                }
+                transaction.update(docRef, parsedUpdates);
+                return true;
+            });
+            if (!found) {
+                return {
+                    success: false,
+                    error: 'Medication not found'
+                };
+            }
             // Fetch the updated document to return it
             const updatedDoc = await docRef.get();
             const data = updatedDoc.data();
@@ -138,6 +193,9 @@ class MedicationService {
                 prescribedDate: data.prescribedDate?.toDate ? data.prescribedDate.toDate() : new Date(data.prescribedDate),
                 startDate: data.startDate?.toDate ? data.startDate.toDate() : (data.startDate ? new Date(data.startDate) : undefined),
                 endDate: data.endDate?.toDate ? data.endDate.toDate() : (data.endDate ? new Date(data.endDate) : undefined),
+                lastFillDate: data.lastFillDate?.toDate ? data.lastFillDate.toDate() : (data.lastFillDate ? new Date(data.lastFillDate) : undefined),
+                lowSupplyAlertedAt: data.lowSupplyAlertedAt?.toDate ? data.lowSupplyAlertedAt.toDate() : (data.lowSupplyAlertedAt ? new Date(data.lowSupplyAlertedAt) : undefined),
+                discontinuedAt: data.discontinuedAt?.toDate ? data.discontinuedAt.toDate() : (data.discontinuedAt ? new Date(data.discontinuedAt) : undefined),
                 createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                 updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
             };
@@ -155,7 +213,73 @@ class MedicationService {
             };
         }
     }
-    // Delete a medication
+    // Get a medication's change history, newest first
+    async getMedicationHistory(medicationId) {
+        try {
+            const snapshot = await this.db.collection('medicationHistory')
+                .where('medicationId', '==', medicationId)
+                .orderBy('version', 'desc')
+                .get();
+            const history = snapshot.docs.map((doc) => {
+                const data = doc.data();
+                return {
+                    id: doc.id,
+                    ...data,
+                    changedAt: data.changedAt?.toDate ? data.changedAt.toDate() : new Date(data.changedAt),
+                };
+            });
+            return {
+                success: true,
+                data: history,
+                message: 'Medication history retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting medication history:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve medication history'
+            };
+        }
+    }
+    // Stop a medication without losing its record. It is marked inactive with an
+    // end date and the reason, and its reminders are switched off.
+    async discontinueMedication(medication, discontinuation, discontinuedBy, now = new Date()) {
+        try {
+            const updates = {
+                isActive: false,
+                endDate: discontinuation.endDate ? new Date(discontinuation.endDate) : now,
+                discontinuedAt: now,
+                discontinuedBy: discontinuedBy.uid,
+                discontinueReason: discontinuation.reason,
+            };
+            if (discontinuation.notes?.trim()) {
+                updates.discontinueNotes = discontinuation.notes.trim();
+            }
+            const result = await this.updateMedication(medication.id, updates, discontinuedBy);
+            if (!result.success) {
+                return result;
+            }
+            const reminders = await this.db.collection('medicationReminders')
+                .where('medicationId', '==', medication.id)
+                .where('isActive', '==', true)
+                .get();
+            await Promise.all(reminders.docs.map((doc) => doc.ref.update({ isActive: false, nextNotifyAt: null, updatedAt: now })));
+            return {
+                success: true,
+                data: result.data,
+                message: 'Medication discontinued successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error discontinuing medication:', error);
+            return {
+                success: false,
+                error: 'Failed to discontinue medication'
+            };
+        }
+    }
+    // Delete a medication added in error, along with its logs, reminders and history
     async deleteMedication(medicationId) {
         try {
             const docRef = this.db.collection('medications').doc(medicationId);
@@ -166,6 +290,8 @@ class MedicationService {
                     error: 'Medication not found'
                 };
             }
+            const related = await Promise.all(['medicationLogs', 'medicationReminders', 'medicationHistory'].map(collection => this.db.collection(collection).where('medicationId', '==', medicationId).get()));
+            await Promise.all(related.flatMap((snapshot) => snapshot.docs.map((relatedDoc) => relatedDoc.ref.delete())));
             await docRef.delete();
             return {
                 success: true,
@@ -193,6 +319,7 @@ class MedicationService {
                     id: doc.id,
                     ...data,
                     takenAt: data.takenAt?.toDate ? data.takenAt.toDate() : new Date(data.takenAt),
+                    status: data.status || 'taken',
                     createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                 };
             });
@@ -223,6 +350,7 @@ class MedicationService {
                     id: doc.id,
                     ...data,
                     takenAt: data.takenAt?.toDate ? data.takenAt.toDate() : new Date(data.takenAt),
+                    status: data.status || 'taken',
                     createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                 };
             });
@@ -255,6 +383,7 @@ class MedicationService {
                 id: doc.id,
                 ...data,
                 takenAt: data.takenAt?.toDate ? data.takenAt.toDate() : new Date(data.takenAt),
+                status: data.status || 'taken',
                 createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
             };
             return {
@@ -285,6 +414,7 @@ class MedicationService {
             const parsedLogData = {
                 ...logData,
                 takenAt: new Date(logData.takenAt),
+                status: logData.status || 'taken',
                 createdAt: new Date(),
             };
             const docRef = this.db.collection('medicationLogs').doc();
@@ -307,6 +437,48 @@ class MedicationService {
             };
         }
     }
+    // Check a new dose against the medication's maximum daily dose, counting doses
+    // taken in the 24 hours up to it. Resolves to null when there is no usable limit.
+    async checkDailyDoseLimit(medication, logData, excludeLogId // The log being edited, which is counted as logData instead
+    ) {
+        try {
+            if (!medication.maxDailyDose) {
+                return { success: true, data: null };
+            }
+            const takenAt = new Date(logData.takenAt);
+            const snapshot = await this.db.collection('medicationLogs')
+                .where('medicationId', '==', medication.id)
+                .where('takenAt', '>', new Date(takenAt.getTime() - 24 * 60 * 60 * 1000))
+                .where('takenAt', '<=', takenAt)
+                .get();
+            const recentLogs = snapshot.docs
+                .filter((doc) => doc.id !== excludeLogId)
+                .map((doc) => doc.data());
+            return {
+                success: true,
+                data: (0, dailyDoseLimit_1.checkDailyDoseLimit)(medication, recentLogs, logData),
+            };
+        }
+        catch (error) {
+            console.error('Error checking daily dose limit:', error);
+            return {
+                success: false,
+                error: 'Failed to check daily dose limit'
+            };
+        }
+    }
+    // Audit a dose that was logged over the maximum daily dose
+    async recordDoseLimitOverride(userId, log, check) {
+        if (!this.auditService) {
+            return;
+        }
+        await this.auditService.logMedicationOperation(userId, log.medicationId, types_1.AuditAction.OVERRIDE_MAX_DAILY_DOSE, types_1.AuditResult.SUCCESS, {
+            logId: log.id,
+            patientId: log.patientId,
+            overrideReason: log.overrideReason,
+            ...check,
+        });
+    }
     // Update a medication log entry
     async updateMedicationLog(logId, updates) {
         try {
@@ -322,6 +494,10 @@ class MedicationService {
             if (parsedUpdates.takenAt) {
                 parsedUpdates.takenAt = new Date(parsedUpdates.takenAt);
             }
+            // An amount only makes sense for partial doses
+            if (parsedUpdates.status && parsedUpdates.status !== 'partial') {
+                parsedUpdates.amount = null;
+            }
             await docRef.update(parsedUpdates);
             const updatedDoc = await docRef.get();
             const data = updatedDoc.data();
@@ -329,6 +505,7 @@ class MedicationService {
                 id: updatedDoc.id,
                 ...data,
                 takenAt: data.takenAt?.toDate ? data.takenAt.toDate() : new Date(data.takenAt),
+                status: data.status || 'taken',
                 createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
             };
             return {
@@ -387,6 +564,9 @@ class MedicationService {
                     prescribedDate: data.prescribedDate?.toDate ? data.prescribedDate.toDate() : new Date(data.prescribedDate),
                     startDate: data.startDate?.toDate ? data.startDate.toDate() : (data.startDate ? new Date(data.startDate) : undefined),
                     endDate: data.endDate?.toDate ? data.endDate.toDate() : (data.endDate ? new Date(data.endDate) : undefined),
+                    lastFillDate: data.lastFillDate?.toDate ? data.lastFillDate.toDate() : (data.lastFillDate ? new Date(data.lastFillDate) : undefined),
+                    lowSupplyAlertedAt: data.lowSupplyAlertedAt?.toDate ? data.lowSupplyAlertedAt.toDate() : (data.lowSupplyAlertedAt ? new Date(data.lowSupplyAlertedAt) : undefined),
+                    discontinuedAt: data.discontinuedAt?.toDate ? data.discontinuedAt.toDate() : (data.discontinuedAt ? new Date(data.discontinuedAt) : undefined),
                     createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                     updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
                 };
@@ -423,6 +603,9 @@ class MedicationService {
                     prescribedDate: data.prescribedDate?.toDate ? data.prescribedDate.toDate() : new Date(data.prescribedDate),
                     startDate: data.startDate?.toDate ? data.startDate.toDate() : (data.startDate ? new Date(data.startDate) : undefined),
                     endDate: data.endDate?.toDate ? data.endDate.toDate() : (data.endDate ? new Date(data.endDate) : undefined),
+                    lastFillDate: data.lastFillDate?.toDate ? data.lastFillDate.toDate() : (data.lastFillDate ? new Date(data.lastFillDate) : undefined),
+                    lowSupplyAlertedAt: data.lowSupplyAlertedAt?.toDate ? data.lowSupplyAlertedAt.toDate() : (data.lowSupplyAlertedAt ? new Date(data.lowSupplyAlertedAt) : undefined),
+                    discontinuedAt: data.discontinuedAt?.toDate ? data.discontinuedAt.toDate() : (data.discontinuedAt ? new Date(data.discontinuedAt) : undefined),
                     createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                     updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
                 };
@@ -441,6 +624,386 @@ class MedicationService {
             };
         }
     }
+    // Get discontinued and other inactive medications
+    async getInactiveMedicationsByPatientId(patientId) {
+        try {
+            const snapshot = await this.db.collection('medications')
+                .where('patientId', '==', patientId)
+                .where('isActive', '==', false)
+                .get();
+            const medications = snapshot.docs.map((doc) => {
+                const data = doc.data();
+                return {
+                    id: doc.id,
+                    ...data,
+                    prescribedDate: data.prescribedDate?.toDate ? data.prescribedDate.toDate() : new Date(data.prescribedDate),
+                    startDate: data.startDate?.toDate ? data.startDate.toDate() : (data.startDate ? new Date(data.startDate) : undefined),
+                    endDate: data.endDate?.toDate ? data.endDate.toDate() : (data.endDate ? new Date(data.endDate) : undefined),
+                    lastFillDate: data.lastFillDate?.toDate ? data.lastFillDate.toDate() : (data.lastFillDate ? new Date(data.lastFillDate) : undefined),
+                    lowSupplyAlertedAt: data.lowSupplyAlertedAt?.toDate ? data.lowSupplyAlertedAt.toDate() : (data.lowSupplyAlertedAt ? new Date(data.lowSupplyAlertedAt) : undefined),
+                    discontinuedAt: data.discontinuedAt?.toDate ? data.discontinuedAt.toDate() : (data.discontinuedAt ? new Date(data.discontinuedAt) : undefined),
+                    createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+                    updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
+                };
+            });
+            return {
+                success: true,
+                data: medications,
+                message: 'Inactive medications retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting inactive medications:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve inactive medications'
+            };
+        }
+    }
+    // Get the timezone medication times are in for a patient, falling back to UTC
+    async getPatientTimeZone(patientId) {
+        try {
+            const snapshot = await this.db.collection('patients')
+                .where('userId', '==', patientId)
+                .limit(1)
+                .get();
+            const timezone = snapshot.empty ? undefined : snapshot.docs[0].data().timezone;
+            return (0, timezone_1.isValidTimeZone)(timezone) ? timezone : timezone_1.DEFAULT_TIME_ZONE;
+        }
+        catch (error) {
+            console.error('Error getting patient timezone:', error);
+            return timezone_1.DEFAULT_TIME_ZONE;
+        }
+    }
+    // Expand a medication's dosing schedule into the instants a dose is expected within [from, to).
+    // Medications without a structured schedule (or PRN ones) have no expected doses.
+    getExpectedDoseTimes(medication, from, to, timeZone = timezone_1.DEFAULT_TIME_ZONE) {
+        if (!medication.schedule) {
+            return [];
+        }
+        return (0, dosingSchedule_1.expandDosingSchedule)(medication.schedule, {
+            from,
+            to,
+            startDate: medication.startDate || medication.prescribedDate,
+            endDate: medication.endDate,
+            timeZone,
+        });
+    }
+    // Build an adherence report by matching logged doses against expected dose times
+    async getAdherenceReport(patientId, from, to, options = {}) {
+        try {
+            const [medicationsResult, logsResult, remindersResult, timeZone] = await Promise.all([
+                this.getMedicationsByPatientId(patientId),
+                this.getMedicationLogsByPatientId(patientId),
+                this.getMedicationRemindersByPatientId(patientId),
+                this.getPatientTimeZone(patientId),
+            ]);
+            if (!medicationsResult.success || !logsResult.success || !remindersResult.success) {
+                return {
+                    success: false,
+                    error: 'Failed to calculate adherence'
+                };
+            }
+            const now = options.now || new Date();
+            const medications = (medicationsResult.data || []).filter(med => !options.medicationId || med.id === options.medicationId);
+            const breakdown = medications.map(medication => {
+                const reminders = (remindersResult.data || []).filter(reminder => reminder.medicationId === medication.id && reminder.isActive);
+                const logs = (logsResult.data || []).filter(log => log.medicationId === medication.id && log.takenAt >= from && log.takenAt < to);
+                const expected = this.getExpectedDosesForAdherence(medication, reminders, from, to, timeZone);
+                if (expected.length === 0) {
+                    return {
+                        medicationId: medication.id,
+                        medicationName: medication.name,
+                        ...this.emptyAdherenceCounts(),
+                        asNeeded: logs.filter(medicationLog_1.isDoseTaken).length,
+                    };
+                }
+                return {
+                    medicationId: medication.id,
+                    medicationName: medication.name,
+                    ...this.scoreDoses(expected, logs, now, timeZone),
+                    asNeeded: 0,
+                };
+            });
+            const totals = this.sumAdherenceCounts(breakdown);
+            return {
+                success: true,
+                data: {
+                    patientId,
+                    from,
+                    to,
+                    timeZone,
+                    ...totals,
+                    medications: breakdown,
+                },
+                message: 'Adherence calculated successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error calculating adherence:', error);
+            return {
+                success: false,
+                error: 'Failed to calculate adherence'
+            };
+        }
+    }
+    // The schedule is the source of truth; fall back to reminder times for medications without one
+    getExpectedDosesForAdherence(medication, reminders, from, to, timeZone) {
+        if (medication.schedule) {
+            return this.getExpectedDoseTimes(medication, from, to, timeZone);
+        }
+        const doses = reminders.flatMap(reminder => this.getExpectedDoseTimes({
+            ...medication,
+            schedule: { type: 'weekly', days: reminder.days, times: [reminder.reminderTime] },
+        }, from, to, timeZone));
+        return doses.sort((a, b) => a.getTime() - b.getTime());
+    }
+    // Greedily pair each expected dose with the closest unmatched log inside its window.
+    // A dose logged as skipped, refused or partial is recorded as such rather than
+    // missed; a held dose is left out of the expected count altogether. Days covered
+    // are counted on the patient's local calendar.
+    scoreDoses(expected, logs, now, timeZone) {
+        const onTimeMs = ON_TIME_WINDOW_MINUTES * 60 * 1000;
+        const lateMs = LATE_WINDOW_MINUTES * 60 * 1000;
+        const unmatched = [...logs].sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime());
+        const counts = this.emptyAdherenceCounts();
+        const days = new Map();
+        for (const dose of expected) {
+            const doseTime = dose.getTime();
+            let bestIndex = -1;
+            for (let i = 0; i < unmatched.length; i++) {
+                const offset = unmatched[i].takenAt.getTime() - doseTime;
+                if (offset < -onTimeMs || offset > lateMs) {
+                    continue;
+                }
+                if (bestIndex === -1 || Math.abs(offset) < Math.abs(unmatched[bestIndex].takenAt.getTime() - doseTime)) {
+                    bestIndex = i;
+                }
+            }
+            const dayKey = (0, timezone_1.formatDateInZone)(dose, timeZone);
+            if (bestIndex !== -1) {
+                const [log] = unmatched.splice(bestIndex, 1);
+                const status = (0, medicationLog_1.getLogStatus)(log);
+                if (status === 'held') {
+                    counts.held++;
+                    continue;
+                }
+                if (status === 'taken') {
+                    const offset = log.takenAt.getTime() - doseTime;
+                    if (offset <= onTimeMs) {
+                        counts.takenOnTime++;
+                    }
+                    else {
+                        counts.takenLate++;
+                    }
+                }
+                else {
+                    counts[status]++;
+                }
+                counts.expected++;
+                days.set(dayKey, (days.get(dayKey) ?? true) && status === 'taken');
+            }
+            else if (doseTime + lateMs < now.getTime()) {
+                counts.missed++;
+                counts.expected++;
+                days.set(dayKey, false);
+            }
+            else {
+                counts.pending++;
+            }
+        }
+        counts.extra = unmatched.filter(medicationLog_1.isDoseTaken).length;
+        const coveredDays = Array.from(days.values()).filter(Boolean).length;
+        counts.proportionOfDaysCovered = days.size > 0 ? coveredDays / days.size : null;
+        return counts;
+    }
+    emptyAdherenceCounts() {
+        return {
+            expected: 0,
+            takenOnTime: 0,
+            takenLate: 0,
+            partial: 0,
+            skipped: 0,
+            refused: 0,
+            held: 0,
+            missed: 0,
+            pending: 0,
+            extra: 0,
+            proportionOfDaysCovered: null,
+        };
+    }
+    // Totals across medications; days covered is weighted by each medication's expected doses
+    sumAdherenceCounts(breakdown) {
+        const totals = this.emptyAdherenceCounts();
+        let weightedCoverage = 0;
+        let coverageWeight = 0;
+        for (const medication of breakdown) {
+            totals.expected += medication.expected;
+            totals.takenOnTime += medication.takenOnTime;
+            totals.takenLate += medication.takenLate;
+            totals.partial += medication.partial;
+            totals.skipped += medication.skipped;
+            totals.refused += medication.refused;
+            totals.held += medication.held;
+            totals.missed += medication.missed;
+            totals.pending += medication.pending;
+            totals.extra += medication.extra;
+            if (medication.proportionOfDaysCovered !== null) {
+                weightedCoverage += medication.proportionOfDaysCovered * medication.expected;
+                coverageWeight += medication.expected;
+            }
+        }
+        totals.proportionOfDaysCovered = coverageWeight > 0 ? weightedCoverage / coverageWeight : null;
+        return totals;
+    }
+    // Supply Methods
+    // Get active medications with a recorded fill, for the low-supply job
+    async getMedicationsWithTrackedSupply() {
+        try {
+            const snapshot = await this.db.collection('medications')
+                .where('isActive', '==', true)
+                .get();
+            const medications = snapshot.docs
+                .map((doc) => {
+                const data = doc.data();
+                return {
+                    id: doc.id,
+                    ...data,
+                    prescribedDate: data.prescribedDate?.toDate ? data.prescribedDate.toDate() : new Date(data.prescribedDate),
+                    startDate: data.startDate?.toDate ? data.startDate.toDate() : (data.startDate ? new Date(data.startDate) : undefined),
+                    endDate: data.endDate?.toDate ? data.endDate.toDate() : (data.endDate ? new Date(data.endDate) : undefined),
+                    lastFillDate: data.lastFillDate?.toDate ? data.lastFillDate.toDate() : (data.lastFillDate ? new Date(data.lastFillDate) : undefined),
+                    lowSupplyAlertedAt: data.lowSupplyAlertedAt?.toDate ? data.lowSupplyAlertedAt.toDate() : (data.lowSupplyAlertedAt ? new Date(data.lowSupplyAlertedAt) : undefined),
+                    discontinuedAt: data.discontinuedAt?.toDate ? data.discontinuedAt.toDate() : (data.discontinuedAt ? new Date(data.discontinuedAt) : undefined),
+                    createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+                    updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
+                };
+            })
+                .filter((medication) => medication.quantityDispensed != null && medication.lastFillDate);
+            return {
+                success: true,
+                data: medications,
+                message: 'Medications retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting medications with tracked supply:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve medications'
+            };
+        }
+    }
+    // Forecast when a medication's supply runs out. On-hand supply is worked out
+    // from the last fill less the doses logged since, so editing or deleting a log
+    // is reflected straight away. Resolves to null when no fill has been recorded.
+    async getSupplyForecast(medication, now = new Date()) {
+        try {
+            if (medication.quantityDispensed == null || !medication.lastFillDate) {
+                return {
+                    success: true,
+                    data: null,
+                    message: 'Supply is not tracked for this medication'
+                };
+            }
+            const lastFillDate = new Date(medication.lastFillDate);
+            const [logs, remindersResult, timeZone] = await Promise.all([
+                this.getLogsTakenSince(medication.id, lastFillDate),
+                this.getMedicationRemindersByMedicationId(medication.id),
+                this.getPatientTimeZone(medication.patientId),
+            ]);
+            if (!remindersResult.success) {
+                return {
+                    success: false,
+                    error: 'Failed to forecast supply'
+                };
+            }
+            const unitsUsed = this.sumUnitsUsed(medication, logs, lastFillDate, now);
+            const onHand = Math.max(0, medication.quantityDispensed + (medication.quantityCarriedOver || 0) - unitsUsed);
+            const reminders = (remindersResult.data || []).filter(reminder => reminder.isActive);
+            const upcomingDoses = this.getExpectedDosesForAdherence(medication, reminders, now, new Date(now.getTime() + SUPPLY_FORECAST_DAYS * MS_PER_DAY), timeZone);
+            const recentFrom = new Date(Math.max(lastFillDate.getTime(), now.getTime() - RECENT_USE_DAYS * MS_PER_DAY));
+            const recentDays = Math.max(1, (now.getTime() - recentFrom.getTime()) / MS_PER_DAY);
+            return {
+                success: true,
+                data: {
+                    medicationId: medication.id,
+                    lastFillDate,
+                    quantityDispensed: medication.quantityDispensed,
+                    unitsUsed,
+                    onHand,
+                    refillsRemaining: medication.refillsRemaining,
+                    ...(0, supplyForecast_1.projectSupply)({
+                        onHand,
+                        unitsPerDose: medication.unitsPerDose ?? 1,
+                        upcomingDoses,
+                        horizonDays: SUPPLY_FORECAST_DAYS,
+                        recentDailyUsage: this.sumUnitsUsed(medication, logs, recentFrom, now) / recentDays,
+                        now,
+                    }),
+                },
+                message: 'Supply forecast calculated successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error forecasting supply:', error);
+            return {
+                success: false,
+                error: 'Failed to forecast supply'
+            };
+        }
+    }
+    // Record a refill. Whatever was left of the previous fill on the fill date is
+    // carried over, and one refill is used up from the prescription.
+    async recordRefill(medication, refill, changedBy, now = new Date()) {
+        try {
+            const fillDate = refill.fillDate ? new Date(refill.fillDate) : now;
+            let quantityCarriedOver = 0;
+            if (medication.quantityDispensed != null && medication.lastFillDate) {
+                const lastFillDate = new Date(medication.lastFillDate);
+                const logs = await this.getLogsTakenSince(medication.id, lastFillDate);
+                const unitsUsed = this.sumUnitsUsed(medication, logs, lastFillDate, new Date(fillDate.getTime() - 1));
+                quantityCarriedOver = Math.max(0, medication.quantityDispensed + (medication.quantityCarriedOver || 0) - unitsUsed);
+            }
+            const updates = {
+                quantityDispensed: refill.quantityDispensed,
+                quantityCarriedOver,
+                lastFillDate: fillDate,
+                lowSupplyAlertedAt: null,
+            };
+            if (medication.refillsRemaining && medication.refillsRemaining > 0) {
+                updates.refillsRemaining = medication.refillsRemaining - 1;
+            }
+            return await this.updateMedication(medication.id, updates, changedBy);
+        }
+        catch (error) {
+            console.error('Error recording refill:', error);
+            return {
+                success: false,
+                error: 'Failed to record refill'
+            };
+        }
+    }
+    async getLogsTakenSince(medicationId, from) {
+        const snapshot = await this.db.collection('medicationLogs')
+            .where('medicationId', '==', medicationId)
+            .where('takenAt', '>=', from)
+            .get();
+        return snapshot.docs.map((doc) => {
+            const data = doc.data();
+            return {
+                id: doc.id,
+                ...data,
+                takenAt: data.takenAt?.toDate ? data.takenAt.toDate() : new Date(data.takenAt),
+            };
+        });
+    }
+    // Units used by the doses logged within [from, to]
+    sumUnitsUsed(medication, logs, from, to) {
+        return logs
+            .filter(log => log.takenAt >= from && log.takenAt <= to)
+            .reduce((total, log) => total + (0, supplyForecast_1.getUnitsUsed)(medication, log), 0);
+    }
     // Medication Reminder Methods
     async getMedicationRemindersByPatientId(patientId) {
         try {
@@ -452,6 +1015,8 @@ class MedicationService {
                 return {
                     id: doc.id,
                     ...data,
+                    lastNotified: data.lastNotified?.toDate ? data.lastNotified.toDate() : (data.lastNotified ? new Date(data.lastNotified) : undefined),
+                    nextNotifyAt: data.nextNotifyAt?.toDate ? data.nextNotifyAt.toDate() : (data.nextNotifyAt ? new Date(data.nextNotifyAt) : undefined),
                     createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                     updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
                 };
@@ -480,6 +1045,8 @@ class MedicationService {
                 return {
                     id: doc.id,
                     ...data,
+                    lastNotified: data.lastNotified?.toDate ? data.lastNotified.toDate() : (data.lastNotified ? new Date(data.lastNotified) : undefined),
+                    nextNotifyAt: data.nextNotifyAt?.toDate ? data.nextNotifyAt.toDate() : (data.nextNotifyAt ? new Date(data.nextNotifyAt) : undefined),
                     createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                     updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
                 };
@@ -511,6 +1078,8 @@ class MedicationService {
             const reminder = {
                 id: doc.id,
                 ...data,
+                lastNotified: data.lastNotified?.toDate ? data.lastNotified.toDate() : (data.lastNotified ? new Date(data.lastNotified) : undefined),
+                nextNotifyAt: data.nextNotifyAt?.toDate ? data.nextNotifyAt.toDate() : (data.nextNotifyAt ? new Date(data.nextNotifyAt) : undefined),
                 createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                 updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
             };
@@ -539,8 +1108,10 @@ class MedicationService {
                 };
             }
             const docRef = this.db.collection('medicationReminders').doc();
+            const timeZone = await this.getPatientTimeZone(reminderData.patientId);
             const parsedData = {
                 ...reminderData,
+                nextNotifyAt: reminderData.isActive ? (0, dosingSchedule_1.getNextReminderTime)(reminderData, new Date(), timeZone) : null,
                 createdAt: new Date(),
                 updatedAt: new Date(),
             };
@@ -573,8 +1144,13 @@ class MedicationService {
                     error: 'Reminder not found'
                 };
             }
+            // lastNotified and nextNotifyAt belong to the dispatcher; recompute the next firing from the merged reminder
+            const { lastNotified, nextNotifyAt, ...allowedUpdates } = updates;
+            const merged = { ...doc.data(), ...allowedUpdates };
+            const timeZone = await this.getPatientTimeZone(merged.patientId);
             const parsedUpdates = {
-                ...updates,
+                ...allowedUpdates,
+                nextNotifyAt: merged.isActive ? (0, dosingSchedule_1.getNextReminderTime)(merged, new Date(), timeZone) : null,
                 updatedAt: new Date()
             };
             await docRef.update(parsedUpdates);
@@ -583,6 +1159,8 @@ class MedicationService {
             const updatedReminder = {
                 id: updatedDoc.id,
                 ...data,
+                lastNotified: data.lastNotified?.toDate ? data.lastNotified.toDate() : (data.lastNotified ? new Date(data.lastNotified) : undefined),
+                nextNotifyAt: data.nextNotifyAt?.toDate ? data.nextNotifyAt.toDate() : (data.nextNotifyAt ? new Date(data.nextNotifyAt) : undefined),
                 createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
                 updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(data.updatedAt),
             };
@@ -600,6 +1178,32 @@ class MedicationService {
             };
         }
     }
+    // Recompute when each of a patient's active reminders next fires, e.g. after their timezone changes
+    async rescheduleRemindersForPatient(patientId) {
+        try {
+            const [snapshot, timeZone] = await Promise.all([
+                this.db.collection('medicationReminders')
+                    .where('patientId', '==', patientId)
+                    .where('isActive', '==', true)
+                    .get(),
+                this.getPatientTimeZone(patientId),
+            ]);
+            const now = new Date();
+            await Promise.all(snapshot.docs.map((doc) => doc.ref.update({ nextNotifyAt: (0, dosingSchedule_1.getNextReminderTime)(doc.data(), now, timeZone) })));
+            return {
+                success: true,
+                data: snapshot.docs.length,
+                message: 'Reminders rescheduled successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error rescheduling reminders:', error);
+            return {
+                success: false,
+                error: 'Failed to reschedule reminders'
+            };
+        }
+    }
     async deleteMedicationReminder(reminderId) {
         try {
             const docRef = this.db.collection('medicationReminders').doc(reminderId);
@@ -0,0 +1,173 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.ProviderLinkService = void 0;
+const types_1 = require("../types");
+const firebase_1 = require("../firebase");
+const providerLinks_1 = require("../utils/providerLinks");
+class ProviderLinkService {
+    db;
+    auditService;
+    constructor(deps) {
+        this.db = deps.db;
+        this.auditService = deps.auditService;
+    }
+    /**
+     * Checks if a user is a verified healthcare provider. Providers are
+     * recorded in healthcare_providers once verified, which only the server can
+     * write; the userType on a user's own profile doesn't count.
+     * @param userId - The user's uid
+     */
+    async isHealthcareProvider(userId) {
+        const providerDoc = await this.db.collection(firebase_1.COLLECTIONS.HEALTHCARE_PROVIDERS).doc(userId).get();
+        return providerDoc.exists;
+    }
+    /**
+     * Links a healthcare provider to a patient, giving them access to the
+     * patient's care. Only the patient approves providers.
+     * @param patientId - The patient's user uid
+     * @param providerEmail - The email the provider signed up with
+     */
+    async linkProvider(patientId, providerEmail) {
+        try {
+            const providerSnapshot = await this.db.collection(firebase_1.COLLECTIONS.USERS)
+                .where('email', '==', providerEmail.trim().toLowerCase())
+                .limit(1)
+                .get();
+            if (providerSnapshot.empty) {
+                return { success: false, error: 'Provider not found' };
+            }
+            const providerDoc = providerSnapshot.docs[0];
+            const provider = providerDoc.data();
+            if (!(await this.isHealthcareProvider(providerDoc.id))) {
+                return { success: false, error: 'User is not a healthcare provider' };
+            }
+            const linkId = (0, providerLinks_1.getProviderLinkId)(providerDoc.id, patientId);
+            const linkRef = this.db.collection(firebase_1.COLLECTIONS.PATIENT_ACCESS).doc(linkId);
+            const existing = await linkRef.get();
+            if (existing.exists) {
+                return { success: false, error: 'Provider already linked' };
+            }
+            const patientDoc = await this.db.collection(firebase_1.COLLECTIONS.USERS).doc(patientId).get();
+            const data = {
+                providerId: providerDoc.id,
+                patientId,
+                providerName: provider.name || '',
+                providerEmail: provider.email,
+                patientName: patientDoc.exists ? patientDoc.data().name || '' : '',
+                approvedAt: new Date(),
+            };
+            await linkRef.set(data);
+            if (this.auditService) {
+                await this.auditService.logPatientAccess(patientId, patientId, types_1.AuditAction.LINK_PROVIDER, types_1.AuditResult.SUCCESS, {
+                    providerId: data.providerId,
+                });
+            }
+            return {
+                success: true,
+                data: { id: linkId, ...data },
+                message: 'Provider linked successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error linking provider:', error);
+            return {
+                success: false,
+                error: 'Failed to link provider'
+            };
+        }
+    }
+    /**
+     * Gets the providers linked to a patient.
+     * @param patientId - The patient's user uid
+     */
+    async getProvidersForPatient(patientId) {
+        return this.getLinks('patientId', patientId);
+    }
+    /**
+     * Gets the patients a provider is linked to.
+     * @param providerId - The provider's uid
+     */
+    async getPatientsForProvider(providerId) {
+        return this.getLinks('providerId', providerId);
+    }
+    /**
+     * Removes a provider's access to a patient. Either of them may do this.
+     * @param providerId - The provider's uid
+     * @param patientId - The patient's user uid
+     * @param revokedBy - The uid of the provider or patient revoking the link
+     */
+    async unlinkProvider(providerId, patientId, revokedBy) {
+        try {
+            const linkRef = this.db.collection(firebase_1.COLLECTIONS.PATIENT_ACCESS).doc((0, providerLinks_1.getProviderLinkId)(providerId, patientId));
+            const linkDoc = await linkRef.get();
+            if (!linkDoc.exists) {
+                return { success: false, error: 'Provider link not found' };
+            }
+            // Deleted rather than flagged: the Firestore rules only check that it exists
+            await linkRef.delete();
+            if (this.auditService) {
+                await this.auditService.logPatientAccess(revokedBy, patientId, types_1.AuditAction.UNLINK_PROVIDER, types_1.AuditResult.SUCCESS, {
+                    providerId,
+                    revokedByProvider: revokedBy === providerId,
+                });
+            }
+            return {
+                success: true,
+                message: 'Provider link revoked successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error unlinking provider:', error);
+            return {
+                success: false,
+                error: 'Failed to revoke provider link'
+            };
+        }
+    }
+    /**
+     * Finds the link giving a provider access to a patient.
+     * @param providerId - The user's uid
+     * @param patientId - The patient's user uid
+     * @returns The link, or null if there is none
+     */
+    async findLink(providerId, patientId) {
+        try {
+            const snapshot = await this.db.collection(firebase_1.COLLECTIONS.PATIENT_ACCESS)
+                .where('providerId', '==', providerId)
+                .where('patientId', '==', patientId)
+                .get();
+            return snapshot.empty ? null : this.toLink(snapshot.docs[0].id, snapshot.docs[0].data());
+        }
+        catch (error) {
+            console.error('Error checking provider links:', error);
+            return null;
+        }
+    }
+    async getLinks(field, uid) {
+        try {
+            const snapshot = await this.db.collection(firebase_1.COLLECTIONS.PATIENT_ACCESS)
+                .where(field, '==', uid)
+                .get();
+            return {
+                success: true,
+                data: snapshot.docs.map((doc) => this.toLink(doc.id, doc.data())),
+                message: 'Provider links retrieved successfully'
+            };
+        }
+        catch (error) {
+            console.error('Error getting provider links:', error);
+            return {
+                success: false,
+                error: 'Failed to retrieve provider links'
+            };
+        }
+    }
+    toLink(id, data) {
+        return {
+            id,
+            ...data,
+            approvedAt: data.approvedAt?.toDate ? data.approvedAt.toDate() : data.approvedAt,
+        };
+    }
+}
+exports.ProviderLinkService = ProviderLinkService;
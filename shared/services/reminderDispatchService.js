@@ -0,0 +1,141 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.ReminderDispatchService = void 0;
+const dosingSchedule_1 = require("../utils/dosingSchedule");
+const clock_1 = require("../utils/clock");
+const MS_PER_MINUTE = 60 * 1000;
+// Reminders that came due within this many minutes are still sent, so a late
+// or retried scheduler invocation delivers them; older ones are skipped
+const DEFAULT_LOOKBACK_MINUTES = 5;
+const toDate = (value) => {
+    if (!value) {
+        return undefined;
+    }
+    return value.toDate ? value.toDate() : new Date(value);
+};
+class ReminderDispatchService {
+    db;
+    medicationService;
+    notifier;
+    doseEscalationService;
+    clock;
+    lookbackMinutes;
+    constructor(deps) {
+        this.db = deps.db;
+        this.medicationService = deps.medicationService;
+        this.notifier = deps.notifier;
+        this.doseEscalationService = deps.doseEscalationService;
+        this.clock = deps.clock || clock_1.systemClock;
+        this.lookbackMinutes = deps.lookbackMinutes ?? DEFAULT_LOOKBACK_MINUTES;
+    }
+    /**
+     * Sends every active reminder whose `nextNotifyAt` has passed. Each reminder
+     * is claimed by advancing `nextNotifyAt` to its following occurrence (in the
+     * patient's timezone) before the notification goes out, so overlapping or
+     * retried runs never send the same reminder twice.
+     */
+    async dispatchDueReminders() {
+        try {
+            const now = this.clock.now();
+            const summary = { due: 0, sent: 0, skipped: 0, failed: 0 };
+            const timeZones = new Map();
+            const snapshot = await this.db.collection('medicationReminders')
+                .where('isActive', '==', true)
+                .where('nextNotifyAt', '<=', now)
+                .get();
+            summary.due = snapshot.docs.length;
+            for (const doc of snapshot.docs) {
+                const patientId = doc.data().patientId;
+                if (!timeZones.has(patientId)) {
+                    timeZones.set(patientId, this.medicationService.getPatientTimeZone(patientId));
+                }
+                try {
+                    const timeZone = await timeZones.get(patientId);
+                    const reminder = await this.claimReminder(doc.id, now, timeZone);
+                    if (!reminder) {
+                        summary.skipped++;
+                        continue;
+                    }
+                    const notification = await this.buildNotification(reminder);
+                    if (!notification) {
+                        summary.skipped++;
+                        continue;
+                    }
+                    // Tracked before sending so a dose still escalates if the email fails
+                    if (this.doseEscalationService) {
+                        await this.doseEscalationService.trackDose(reminder, reminder.lastNotified, {
+                            medicationName: notification.medicationName,
+                            patientName: notification.name,
+                            timeZone,
+                        });
+                    }
+                    await this.notifier.sendReminder(notification);
+                    summary.sent++;
+                }
+                catch (error) {
+                    console.error(`Error sending reminder ${doc.id}:`, error);
+                    summary.failed++;
+                }
+            }
+            return {
+                success: true,
+                data: summary,
+                message: `Sent ${summary.sent} of ${summary.due} due reminders`
+            };
+        }
+        catch (error) {
+            console.error('Error dispatching reminders:', error);
+            return {
+                success: false,
+                error: 'Failed to dispatch reminders'
+            };
+        }
+    }
+    // Atomically advance the reminder to its next occurrence. Returns the reminder
+    // if it should be sent now, or null if another run already claimed it or it is
+    // too old to be worth sending.
+    async claimReminder(reminderId, now, timeZone) {
+        const reminderRef = this.db.collection('medicationReminders').doc(reminderId);
+        return this.db.runTransaction(async (transaction) => {
+            const doc = await transaction.get(reminderRef);
+            if (!doc.exists) {
+                return null;
+            }
+            const data = doc.data();
+            const dueAt = toDate(data.nextNotifyAt);
+            if (!data.isActive || !dueAt || dueAt > now) {
+                return null;
+            }
+            const nextNotifyAt = (0, dosingSchedule_1.getNextReminderTime)(data, now, timeZone);
+            if (dueAt.getTime() < now.getTime() - this.lookbackMinutes * MS_PER_MINUTE) {
+                transaction.update(reminderRef, { nextNotifyAt });
+                return null;
+            }
+            transaction.update(reminderRef, { nextNotifyAt, lastNotified: dueAt });
+            return { id: doc.id, ...data, lastNotified: dueAt, nextNotifyAt };
+        });
+    }
+    async buildNotification(reminder) {
+        const [medicationDoc, userDoc] = await Promise.all([
+            this.db.collection('medications').doc(reminder.medicationId).get(),
+            this.db.collection('users').doc(reminder.patientId).get(),
+        ]);
+        if (!medicationDoc.exists || !userDoc.exists) {
+            return null;
+        }
+        const medication = medicationDoc.data();
+        const user = userDoc.data();
+        if (medication.isActive === false || !user.email) {
+            return null;
+        }
+        return {
+            to: user.email,
+            name: user.name,
+            medicationName: medication.name,
+            dosage: medication.dosage,
+            time: reminder.reminderTime,
+            instructions: medication.instructions,
+        };
+    }
+}
+exports.ReminderDispatchService = ReminderDispatchService;
@@ -0,0 +1,189 @@
+import type { ApiResponse, MedicationReminder } from '../types';
+import { MedicationService } from './medicationService';
+import { DoseEscalationService } from './doseEscalationService';
+import { getNextReminderTime } from '../utils/dosingSchedule';
+import { Clock, systemClock } from '../utils/clock';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// Reminders that came due within this many minutes are still sent, so a late
+// or retried scheduler invocation delivers them; older ones are skipped
+const DEFAULT_LOOKBACK_MINUTES = 5;
+
+export interface ReminderNotification {
+  to: string;
+  name: string;
+  medicationName: string;
+  dosage: string;
+  time: string;
+  instructions?: string;
+}
+
+export interface ReminderNotifier {
+  sendReminder(notification: ReminderNotification): Promise<void>;
+}
+
+export interface ReminderDispatchSummary {
+  due: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+interface ReminderDispatchServiceDeps {
+  db: any; // Firestore instance
+  medicationService: MedicationService;
+  notifier: ReminderNotifier;
+  doseEscalationService?: DoseEscalationService;
+  clock?: Clock;
+  lookbackMinutes?: number;
+}
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  return value.toDate ? value.toDate() : new Date(value);
+};
+
+export class ReminderDispatchService {
+  private db: any;
+  private medicationService: MedicationService;
+  private notifier: ReminderNotifier;
+  private doseEscalationService?: DoseEscalationService;
+  private clock: Clock;
+  private lookbackMinutes: number;
+
+  constructor(deps: ReminderDispatchServiceDeps) {
+    this.db = deps.db;
+    this.medicationService = deps.medicationService;
+    this.notifier = deps.notifier;
+    this.doseEscalationService = deps.doseEscalationService;
+    this.clock = deps.clock || systemClock;
+    this.lookbackMinutes = deps.lookbackMinutes ?? DEFAULT_LOOKBACK_MINUTES;
+  }
+
+  /**
+   * Sends every active reminder whose `nextNotifyAt` has passed. Each reminder
+   * is claimed by advancing `nextNotifyAt` to its following occurrence (in the
+   * patient's timezone) before the notification goes out, so overlapping or
+   * retried runs never send the same reminder twice.
+   */
+  async dispatchDueReminders(): Promise<ApiResponse<ReminderDispatchSummary>> {
+    try {
+      const now = this.clock.now();
+      const summary: ReminderDispatchSummary = { due: 0, sent: 0, skipped: 0, failed: 0 };
+      const timeZones = new Map<string, Promise<string>>();
+
+      const snapshot = await this.db.collection('medicationReminders')
+        .where('isActive', '==', true)
+        .where('nextNotifyAt', '<=', now)
+        .get();
+      summary.due = snapshot.docs.length;
+
+      for (const doc of snapshot.docs) {
+        const patientId = doc.data().patientId;
+        if (!timeZones.has(patientId)) {
+          timeZones.set(patientId, this.medicationService.getPatientTimeZone(patientId));
+        }
+
+        try {
+          const timeZone = await timeZones.get(patientId)!;
+          const reminder = await this.claimReminder(doc.id, now, timeZone);
+          if (!reminder) {
+            summary.skipped++;
+            continue;
+          }
+
+          const notification = await this.buildNotification(reminder);
+          if (!notification) {
+            summary.skipped++;
+            continue;
+          }
+
+          // Tracked before sending so a dose still escalates if the email fails
+          if (this.doseEscalationService) {
+            await this.doseEscalationService.trackDose(reminder, reminder.lastNotified!, {
+              medicationName: notification.medicationName,
+              patientName: notification.name,
+              timeZone,
+            });
+          }
+
+          await this.notifier.sendReminder(notification);
+          summary.sent++;
+        } catch (error) {
+          console.error(`Error sending reminder ${doc.id}:`, error);
+          summary.failed++;
+        }
+      }
+
+      return {
+        success: true,
+        data: summary,
+        message: `Sent ${summary.sent} of ${summary.due} due reminders`
+      };
+    } catch (error) {
+      console.error('Error dispatching reminders:', error);
+      return {
+        success: false,
+        error: 'Failed to dispatch reminders'
+      };
+    }
+  }
+
+  // Atomically advance the reminder to its next occurrence. Returns the reminder
+  // if it should be sent now, or null if another run already claimed it or it is
+  // too old to be worth sending.
+  private async claimReminder(reminderId: string, now: Date, timeZone: string): Promise<MedicationReminder | null> {
+    const reminderRef = this.db.collection('medicationReminders').doc(reminderId);
+
+    return this.db.runTransaction(async (transaction: any) => {
+      const doc = await transaction.get(reminderRef);
+      if (!doc.exists) {
+        return null;
+      }
+
+      const data = doc.data();
+      const dueAt = toDate(data.nextNotifyAt);
+      if (!data.isActive || !dueAt || dueAt > now) {
+        return null;
+      }
+
+      const nextNotifyAt = getNextReminderTime(data, now, timeZone);
+      if (dueAt.getTime() < now.getTime() - this.lookbackMinutes * MS_PER_MINUTE) {
+        transaction.update(reminderRef, { nextNotifyAt });
+        return null;
+      }
+
+      transaction.update(reminderRef, { nextNotifyAt, lastNotified: dueAt });
+      return { id: doc.id, ...data, lastNotified: dueAt, nextNotifyAt } as MedicationReminder;
+    });
+  }
+
+  private async buildNotification(reminder: MedicationReminder): Promise<ReminderNotification | null> {
+    const [medicationDoc, userDoc] = await Promise.all([
+      this.db.collection('medications').doc(reminder.medicationId).get(),
+      this.db.collection('users').doc(reminder.patientId).get(),
+    ]);
+
+    if (!medicationDoc.exists || !userDoc.exists) {
+      return null;
+    }
+
+    const medication = medicationDoc.data();
+    const user = userDoc.data();
+    if (medication.isActive === false || !user.email) {
+      return null;
+    }
+
+    return {
+      to: user.email,
+      name: user.name,
+      medicationName: medication.name,
+      dosage: medication.dosage,
+      time: reminder.reminderTime,
+      instructions: medication.instructions,
+    };
+  }
+}
@@ -0,0 +1,118 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.SupplyAlertService = void 0;
+const clock_1 = require("../utils/clock");
+const timezone_1 = require("../utils/timezone");
+const DEFAULT_THRESHOLD_DAYS = 7;
+class SupplyAlertService {
+    db;
+    medicationService;
+    familyGroupService;
+    notifier;
+    clock;
+    thresholdDays;
+    constructor(deps) {
+        this.db = deps.db;
+        this.medicationService = deps.medicationService;
+        this.familyGroupService = deps.familyGroupService;
+        this.notifier = deps.notifier;
+        this.clock = deps.clock || clock_1.systemClock;
+        this.thresholdDays = deps.thresholdDays ?? DEFAULT_THRESHOLD_DAYS;
+    }
+    /**
+     * Emails the patient and their family about each medication that will run out
+     * within the threshold. Each fill is alerted on once; recording a refill
+     * starts over.
+     */
+    async sendLowSupplyAlerts() {
+        try {
+            const now = this.clock.now();
+            const summary = { checked: 0, alerted: 0, failed: 0 };
+            const medications = await this.medicationService.getMedicationsWithTrackedSupply();
+            if (!medications.success) {
+                return { success: false, error: medications.error };
+            }
+            for (const medication of medications.data || []) {
+                if (medication.lowSupplyAlertedAt && medication.lowSupplyAlertedAt >= medication.lastFillDate) {
+                    continue;
+                }
+                summary.checked++;
+                try {
+                    const forecast = await this.medicationService.getSupplyForecast(medication, now);
+                    if (!forecast.success) {
+                        throw new Error(forecast.error);
+                    }
+                    const { daysRemaining, runOutDate } = forecast.data || {};
+                    if (daysRemaining === null || daysRemaining === undefined || daysRemaining >= this.thresholdDays) {
+                        continue;
+                    }
+                    // Marked before sending so a retried run doesn't alert twice
+                    await this.db.collection('medications').doc(medication.id).update({ lowSupplyAlertedAt: now });
+                    if (await this.notifyFamily(medication, forecast.data, runOutDate)) {
+                        summary.alerted++;
+                    }
+                    else {
+                        summary.failed++;
+                    }
+                }
+                catch (error) {
+                    console.error(`Error checking supply of medication ${medication.id}:`, error);
+                    summary.failed++;
+                }
+            }
+            return {
+                success: true,
+                data: summary,
+                message: `Checked ${summary.checked} medications, sent ${summary.alerted} low supply alerts`
+            };
+        }
+        catch (error) {
+            console.error('Error sending low supply alerts:', error);
+            return { success: false, error: 'Failed to send low supply alerts' };
+        }
+    }
+    // Resolves to true if anyone was told
+    async notifyFamily(medication, forecast, runOutDate) {
+        const [recipients, patientDoc, timeZone] = await Promise.all([
+            this.getRecipients(medication.patientId),
+            this.db.collection('users').doc(medication.patientId).get(),
+            this.medicationService.getPatientTimeZone(medication.patientId),
+        ]);
+        const patient = patientDoc.exists ? patientDoc.data() : {};
+        let sent = 0;
+        for (const recipient of recipients) {
+            try {
+                await this.notifier.sendLowSupplyAlert({
+                    to: recipient.email,
+                    recipientName: recipient.name,
+                    patientName: patient.name || 'Your family member',
+                    medicationName: medication.name,
+                    daysRemaining: forecast.daysRemaining,
+                    runOutDate: (0, timezone_1.formatDateInZone)(runOutDate, timeZone),
+                    pharmacy: medication.pharmacy,
+                    prescriptionNumber: medication.prescriptionNumber,
+                    refillsRemaining: medication.refillsRemaining,
+                });
+                sent++;
+            }
+            catch (error) {
+                console.error(`Error notifying ${recipient.uid} of low supply:`, error);
+            }
+        }
+        return sent > 0;
+    }
+    // The patient's family group, or just the patient when they aren't in one
+    async getRecipients(patientId) {
+        const members = await this.familyGroupService.getMembersForUser(patientId);
+        if (!members.success) {
+            throw new Error(members.error);
+        }
+        if (members.data.length > 0) {
+            return members.data.filter(member => member.email);
+        }
+        const userDoc = await this.db.collection('users').doc(patientId).get();
+        const user = userDoc.exists ? userDoc.data() : undefined;
+        return user?.email ? [{ uid: patientId, email: user.email, name: user.name || '' }] : [];
+    }
+}
+exports.SupplyAlertService = SupplyAlertService;
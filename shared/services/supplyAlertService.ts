@@ -0,0 +1,163 @@
+import type { ApiResponse, FamilyGroupMember, Medication, SupplyForecast } from '../types';
+import { FamilyGroupService } from './familyGroupService';
+import { MedicationService } from './medicationService';
+import { Clock, systemClock } from '../utils/clock';
+import { formatDateInZone } from '../utils/timezone';
+
+const DEFAULT_THRESHOLD_DAYS = 7;
+
+export interface LowSupplyNotification {
+  to: string;
+  recipientName: string;
+  patientName: string;
+  medicationName: string;
+  daysRemaining: number;
+  runOutDate: string;
+  pharmacy?: string;
+  prescriptionNumber?: string;
+  refillsRemaining?: number;
+}
+
+export interface LowSupplyNotifier {
+  sendLowSupplyAlert(notification: LowSupplyNotification): Promise<void>;
+}
+
+export interface LowSupplyRunSummary {
+  checked: number;
+  alerted: number;
+  failed: number;
+}
+
+interface SupplyAlertServiceDeps {
+  db: any; // Firestore instance
+  medicationService: MedicationService;
+  familyGroupService: FamilyGroupService;
+  notifier: LowSupplyNotifier;
+  clock?: Clock;
+  thresholdDays?: number;
+}
+
+type Recipient = Pick<FamilyGroupMember, 'uid' | 'email' | 'name'>;
+
+export class SupplyAlertService {
+  private db: any;
+  private medicationService: MedicationService;
+  private familyGroupService: FamilyGroupService;
+  private notifier: LowSupplyNotifier;
+  private clock: Clock;
+  private thresholdDays: number;
+
+  constructor(deps: SupplyAlertServiceDeps) {
+    this.db = deps.db;
+    this.medicationService = deps.medicationService;
+    this.familyGroupService = deps.familyGroupService;
+    this.notifier = deps.notifier;
+    this.clock = deps.clock || systemClock;
+    this.thresholdDays = deps.thresholdDays ?? DEFAULT_THRESHOLD_DAYS;
+  }
+
+  /**
+   * Emails the patient and their family about each medication that will run out
+   * within the threshold. Each fill is alerted on once; recording a refill
+   * starts over.
+   */
+  async sendLowSupplyAlerts(): Promise<ApiResponse<LowSupplyRunSummary>> {
+    try {
+      const now = this.clock.now();
+      const summary: LowSupplyRunSummary = { checked: 0, alerted: 0, failed: 0 };
+
+      const medications = await this.medicationService.getMedicationsWithTrackedSupply();
+      if (!medications.success) {
+        return { success: false, error: medications.error };
+      }
+
+      for (const medication of medications.data || []) {
+        if (medication.lowSupplyAlertedAt && medication.lowSupplyAlertedAt >= medication.lastFillDate!) {
+          continue;
+        }
+
+        summary.checked++;
+        try {
+          const forecast = await this.medicationService.getSupplyForecast(medication, now);
+          if (!forecast.success) {
+            throw new Error(forecast.error);
+          }
+
+          const { daysRemaining, runOutDate } = forecast.data || {};
+          if (daysRemaining === null || daysRemaining === undefined || daysRemaining >= this.thresholdDays) {
+            continue;
+          }
+
+          // Marked before sending so a retried run doesn't alert twice
+          await this.db.collection('medications').doc(medication.id).update({ lowSupplyAlertedAt: now });
+
+          if (await this.notifyFamily(medication, forecast.data!, runOutDate!)) {
+            summary.alerted++;
+          } else {
+            summary.failed++;
+          }
+        } catch (error) {
+          console.error(`Error checking supply of medication ${medication.id}:`, error);
+          summary.failed++;
+        }
+      }
+
+      return {
+        success: true,
+        data: summary,
+        message: `Checked ${summary.checked} medications, sent ${summary.alerted} low supply alerts`
+      };
+    } catch (error) {
+      console.error('Error sending low supply alerts:', error);
+      return { success: false, error: 'Failed to send low supply alerts' };
+    }
+  }
+
+  // Resolves to true if anyone was told
+  private async notifyFamily(medication: Medication, forecast: SupplyForecast, runOutDate: Date): Promise<boolean> {
+    const [recipients, patientDoc, timeZone] = await Promise.all([
+      this.getRecipients(medication.patientId),
+      this.db.collection('users').doc(medication.patientId).get(),
+      this.medicationService.getPatientTimeZone(medication.patientId),
+    ]);
+
+    const patient = patientDoc.exists ? patientDoc.data() : {};
+    let sent = 0;
+    for (const recipient of recipients) {
+      try {
+        await this.notifier.sendLowSupplyAlert({
+          to: recipient.email,
+          recipientName: recipient.name,
+          patientName: patient.name || 'Your family member',
+          medicationName: medication.name,
+          daysRemaining: forecast.daysRemaining!,
+          runOutDate: formatDateInZone(runOutDate, timeZone),
+          pharmacy: medication.pharmacy,
+          prescriptionNumber: medication.prescriptionNumber,
+          refillsRemaining: medication.refillsRemaining,
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Error notifying ${recipient.uid} of low supply:`, error);
+      }
+    }
+
+    return sent > 0;
+  }
+
+  // The patient's family group, or just the patient when they aren't in one
+  private async getRecipients(patientId: string): Promise<Recipient[]> {
+    const members = await this.familyGroupService.getMembersForUser(patientId);
+    if (!members.success) {
+      throw new Error(members.error);
+    }
+
+    if (members.data!.length > 0) {
+      return members.data!.filter(member => member.email);
+    }
+
+    const userDoc = await this.db.collection('users').doc(patientId).get();
+    const user = userDoc.exists ? userDoc.data() : undefined;
+    return user?.email ? [{ uid: patientId, email: user.email, name: user.name || '' }] : [];
+  }
+}
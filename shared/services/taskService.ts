@@ -0,0 +1,609 @@
+import type {
+  ApiResponse,
+  NewTask,
+  NewTaskSeries,
+  Task,
+  TaskFilters,
+  TaskSeries,
+  TaskSeriesUpdate,
+  TaskUpdate
+} from '../types';
+import { AuditAction } from '../types';
+import { COLLECTIONS } from '../firebase';
+import { AuditService } from './auditService';
+import { FamilyGroupService } from './familyGroupService';
+import { MedicationService } from './medicationService';
+import { Clock, systemClock } from '../utils/clock';
+import { expandTaskRecurrence } from '../utils/taskRecurrence';
+import { getZonedDateParts } from '../utils/timezone';
+
+interface TaskServiceDeps {
+  db: any; // Firestore instance
+  auditService?: AuditService;
+  familyGroupService?: FamilyGroupService;
+  medicationService?: MedicationService; // For the patient's timezone
+  clock?: Clock;
+}
+
+export interface RecurringTaskSummary {
+  series: number;
+  created: number;
+}
+
+const ASSIGNEE_NOT_IN_FAMILY = "Assignee is not in the patient's family group";
+const TASK_SERIES_COLLECTION = 'taskSeries';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// How far ahead instances of recurring tasks are created
+const RECURRING_TASK_HORIZON_DAYS = 30;
+// Fields that make an instance differ from its series when edited on their own
+const SERIES_FIELDS = ['assignedTo', 'title', 'description', 'priority', 'dueDate'];
+
+// Firestore returns Timestamps; tests hold plain Dates
+const toDate = (value: any): Date | undefined =>
+  value ? (value.toDate ? value.toDate() : new Date(value)) : undefined;
+
+export class TaskService {
+  private db: any;
+  private auditService?: AuditService;
+  private familyGroupService: FamilyGroupService;
+  private medicationService: MedicationService;
+  private clock: Clock;
+
+  constructor(deps: TaskServiceDeps) {
+    this.db = deps.db;
+    this.auditService = deps.auditService;
+    this.familyGroupService = deps.familyGroupService || new FamilyGroupService({ db: deps.db });
+    this.medicationService = deps.medicationService || new MedicationService({ db: deps.db });
+    this.clock = deps.clock || systemClock;
+  }
+
+  // Get a patient's tasks, soonest due first
+  async getTasksByPatientId(patientId: string, filters: TaskFilters = {}): Promise<ApiResponse<Task[]>> {
+    try {
+      let query = this.db.collection(COLLECTIONS.TASKS).where('patientId', '==', patientId);
+      if (filters.assignedTo) {
+        query = query.where('assignedTo', '==', filters.assignedTo);
+      }
+      if (filters.status) {
+        query = query.where('status', '==', filters.status);
+      }
+      if (filters.dueFrom) {
+        query = query.where('dueDate', '>=', filters.dueFrom);
+      }
+      if (filters.dueTo) {
+        query = query.where('dueDate', '<=', filters.dueTo);
+      }
+
+      const snapshot = await query.orderBy('dueDate', 'asc').get();
+
+      return {
+        success: true,
+        data: snapshot.docs.map((doc: any) => this.toTask(doc.id, doc.data())),
+        message: 'Tasks retrieved successfully'
+      };
+    } catch (error) {
+      console.error('Error getting tasks:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve tasks'
+      };
+    }
+  }
+
+  // Get a specific task by ID
+  async getTaskById(taskId: string): Promise<ApiResponse<Task>> {
+    try {
+      const doc = await this.db.collection(COLLECTIONS.TASKS).doc(taskId).get();
+
+      if (!doc.exists) {
+        return {
+          success: false,
+          error: 'Task not found'
+        };
+      }
+
+      return {
+        success: true,
+        data: this.toTask(doc.id, doc.data()),
+        message: 'Task retrieved successfully'
+      };
+    } catch (error) {
+      console.error('Error getting task:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve task'
+      };
+    }
+  }
+
+  // Create a task for a patient, optionally assigned to someone in their family group
+  async createTask(taskData: NewTask, createdBy: string): Promise<ApiResponse<Task>> {
+    try {
+      if (taskData.assignedTo && !(await this.isAssignable(taskData.patientId, taskData.assignedTo))) {
+        return {
+          success: false,
+          error: ASSIGNEE_NOT_IN_FAMILY
+        };
+      }
+
+      const now = this.clock.now();
+      const { assignedTo, ...rest } = taskData;
+      const data: any = {
+        ...rest,
+        ...(assignedTo ? { assignedTo } : {}),
+        dueDate: new Date(taskData.dueDate),
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      };
+      if (data.status === 'completed') {
+        data.completedAt = now;
+        data.completedBy = createdBy;
+      }
+
+      const docRef = this.db.collection(COLLECTIONS.TASKS).doc();
+      await docRef.set(data);
+
+      if (this.auditService) {
+        await this.auditService.logTaskChange(createdBy, docRef.id, AuditAction.CREATE_TASK, {
+          patientId: data.patientId,
+          assignedTo: assignedTo || null,
+        });
+      }
+
+      return {
+        success: true,
+        data: this.toTask(docRef.id, data),
+        message: 'Task created successfully'
+      };
+    } catch (error) {
+      console.error('Error creating task:', error);
+      return {
+        success: false,
+        error: 'Failed to create task'
+      };
+    }
+  }
+
+  // Update a task. Completing it records when and by whom; reopening it clears that.
+  // Editing an instance of a recurring task detaches it from the series.
+  async updateTask(taskId: string, updates: TaskUpdate, updatedBy: string): Promise<ApiResponse<Task>> {
+    try {
+      const docRef = this.db.collection(COLLECTIONS.TASKS).doc(taskId);
+      const doc = await docRef.get();
+
+      if (!doc.exists) {
+        return {
+          success: false,
+          error: 'Task not found'
+        };
+      }
+
+      const current = doc.data();
+      if (updates.assignedTo && !(await this.isAssignable(current.patientId, updates.assignedTo))) {
+        return {
+          success: false,
+          error: ASSIGNEE_NOT_IN_FAMILY
+        };
+      }
+
+      const now = this.clock.now();
+      const parsedUpdates: any = { ...updates, updatedAt: now };
+      if (parsedUpdates.dueDate) {
+        parsedUpdates.dueDate = new Date(parsedUpdates.dueDate);
+      }
+      if (updates.status === 'completed' && current.status !== 'completed') {
+        parsedUpdates.completedAt = now;
+        parsedUpdates.completedBy = updatedBy;
+      } else if (updates.status && updates.status !== 'completed' && current.status === 'completed') {
+        parsedUpdates.completedAt = null;
+        parsedUpdates.completedBy = null;
+      }
+      if (current.seriesId && Object.keys(updates).some(field => SERIES_FIELDS.includes(field))) {
+        parsedUpdates.detached = true;
+      }
+
+      await docRef.update(parsedUpdates);
+
+      if (this.auditService) {
+        await this.auditService.logTaskChange(updatedBy, taskId, AuditAction.UPDATE_TASK, {
+          patientId: current.patientId,
+          fields: Object.keys(updates),
+          ...(updates.status ? { status: updates.status, previousStatus: current.status } : {}),
+          ...(updates.assignedTo !== undefined ? { assignedTo: updates.assignedTo } : {}),
+        });
+      }
+
+      return {
+        success: true,
+        data: this.toTask(taskId, { ...current, ...parsedUpdates }),
+        message: 'Task updated successfully'
+      };
+    } catch (error) {
+      console.error('Error updating task:', error);
+      return {
+        success: false,
+        error: 'Failed to update task'
+      };
+    }
+  }
+
+  // Mark a task done
+  async completeTask(taskId: string, completedBy: string): Promise<ApiResponse<Task>> {
+    return this.updateTask(taskId, { status: 'completed' }, completedBy);
+  }
+
+  // Delete a task
+  async deleteTask(taskId: string, deletedBy: string): Promise<ApiResponse<void>> {
+    try {
+      const docRef = this.db.collection(COLLECTIONS.TASKS).doc(taskId);
+      const doc = await docRef.get();
+
+      if (!doc.exists) {
+        return {
+          success: false,
+          error: 'Task not found'
+        };
+      }
+
+      const task = doc.data();
+      await docRef.delete();
+
+      if (this.auditService) {
+        await this.auditService.logTaskChange(deletedBy, taskId, AuditAction.DELETE_TASK, {
+          patientId: task.patientId,
+          title: task.title,
+        });
+      }
+
+      return {
+        success: true,
+        message: 'Task deleted successfully'
+      };
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      return {
+        success: false,
+        error: 'Failed to delete task'
+      };
+    }
+  }
+
+  // Get a patient's recurring tasks
+  async getSeriesByPatientId(patientId: string): Promise<ApiResponse<TaskSeries[]>> {
+    try {
+      const snapshot = await this.db.collection(TASK_SERIES_COLLECTION)
+        .where('patientId', '==', patientId)
+        .get();
+
+      return {
+        success: true,
+        data: snapshot.docs.map((doc: any) => this.toSeries(doc.id, doc.data())),
+        message: 'Recurring tasks retrieved successfully'
+      };
+    } catch (error) {
+      console.error('Error getting recurring tasks:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve recurring tasks'
+      };
+    }
+  }
+
+  // Create a recurring task and its instances for the next few weeks
+  async createSeries(seriesData: NewTaskSeries, createdBy: string): Promise<ApiResponse<TaskSeries>> {
+    try {
+      if (seriesData.assignedTo && !(await this.isAssignable(seriesData.patientId, seriesData.assignedTo))) {
+        return {
+          success: false,
+          error: ASSIGNEE_NOT_IN_FAMILY
+        };
+      }
+
+      const now = this.clock.now();
+      const { assignedTo, endDate, ...rest } = seriesData;
+      const data: any = {
+        ...rest,
+        ...(assignedTo ? { assignedTo } : {}),
+        startDate: new Date(seriesData.startDate),
+        ...(endDate ? { endDate: new Date(endDate) } : {}),
+        active: true,
+        generatedUntil: now,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const docRef = this.db.collection(TASK_SERIES_COLLECTION).doc();
+      await docRef.set(data);
+      const { series } = await this.generateInstances(this.toSeries(docRef.id, data));
+
+      if (this.auditService) {
+        await this.auditService.logTaskChange(createdBy, docRef.id, AuditAction.CREATE_TASK, {
+          patientId: data.patientId,
+          recurrence: data.recurrence,
+          assignedTo: assignedTo || null,
+        });
+      }
+
+      return {
+        success: true,
+        data: series,
+        message: 'Recurring task created successfully'
+      };
+    } catch (error) {
+      console.error('Error creating recurring task:', error);
+      return {
+        success: false,
+        error: 'Failed to create recurring task'
+      };
+    }
+  }
+
+  /**
+   * Changes a recurring task from one instance onwards. Pending instances from
+   * that one on are replaced with new ones; earlier, started and completed
+   * instances are kept as they are. Instances edited on their own are kept
+   * too, unless the schedule itself changes.
+   * @param taskId - The instance the change starts from
+   * @param updates - The series fields to change
+   * @param updatedBy - The uid of the user making the change
+   */
+  async updateFutureTasks(taskId: string, updates: TaskSeriesUpdate, updatedBy: string): Promise<ApiResponse<TaskSeries>> {
+    try {
+      const found = await this.getInstanceWithSeries(taskId);
+      if ('error' in found) {
+        return { success: false, error: found.error };
+      }
+
+      const { task, series } = found;
+      if (updates.assignedTo && !(await this.isAssignable(series.patientId, updates.assignedTo))) {
+        return {
+          success: false,
+          error: ASSIGNEE_NOT_IN_FAMILY
+        };
+      }
+
+      const from = task.occurrenceDate!;
+      const seriesUpdates: any = { ...updates, active: true, generatedUntil: from, updatedAt: this.clock.now() };
+      if (updates.endDate) {
+        seriesUpdates.endDate = new Date(updates.endDate);
+      }
+      if (updates.recurrence) {
+        // The new rule counts from this instance's day
+        seriesUpdates.startDate = await this.getOccurrenceDay(series.patientId, from);
+      }
+
+      await this.db.collection(TASK_SERIES_COLLECTION).doc(series.id).update(seriesUpdates);
+      const rescheduled = updates.recurrence !== undefined || updates.time !== undefined;
+      await this.removePendingInstances(series.id, from, task.id, rescheduled);
+      const { series: updated } = await this.generateInstances(this.toSeries(series.id, { ...series, ...seriesUpdates }));
+
+      if (this.auditService) {
+        await this.auditService.logTaskChange(updatedBy, series.id, AuditAction.UPDATE_TASK, {
+          patientId: series.patientId,
+          scope: 'future',
+          fromTaskId: taskId,
+          fields: Object.keys(updates),
+        });
+      }
+
+      return {
+        success: true,
+        data: updated,
+        message: 'Recurring task updated successfully'
+      };
+    } catch (error) {
+      console.error('Error updating recurring task:', error);
+      return {
+        success: false,
+        error: 'Failed to update recurring task'
+      };
+    }
+  }
+
+  // End a recurring task at one instance, deleting that and every later pending instance
+  async deleteFutureTasks(taskId: string, deletedBy: string): Promise<ApiResponse<void>> {
+    try {
+      const found = await this.getInstanceWithSeries(taskId);
+      if ('error' in found) {
+        return { success: false, error: found.error };
+      }
+
+      const { task, series } = found;
+      const from = task.occurrenceDate!;
+      const lastDay = new Date((await this.getOccurrenceDay(series.patientId, from)).getTime() - MS_PER_DAY);
+
+      await this.db.collection(TASK_SERIES_COLLECTION).doc(series.id).update({
+        endDate: lastDay,
+        active: false,
+        updatedAt: this.clock.now(),
+      });
+      await this.removePendingInstances(series.id, from, task.id, true);
+
+      if (this.auditService) {
+        await this.auditService.logTaskChange(deletedBy, series.id, AuditAction.DELETE_TASK, {
+          patientId: series.patientId,
+          scope: 'future',
+          fromTaskId: taskId,
+        });
+      }
+
+      return {
+        success: true,
+        message: 'Recurring task ended successfully'
+      };
+    } catch (error) {
+      console.error('Error ending recurring task:', error);
+      return {
+        success: false,
+        error: 'Failed to end recurring task'
+      };
+    }
+  }
+
+  // Create instances of every recurring task whose next few weeks aren't covered yet
+  async generateRecurringTasks(): Promise<ApiResponse<RecurringTaskSummary>> {
+    try {
+      const horizon = new Date(this.clock.now().getTime() + RECURRING_TASK_HORIZON_DAYS * MS_PER_DAY);
+      const snapshot = await this.db.collection(TASK_SERIES_COLLECTION)
+        .where('active', '==', true)
+        .where('generatedUntil', '<', horizon)
+        .get();
+
+      const summary: RecurringTaskSummary = { series: snapshot.docs.length, created: 0 };
+      for (const doc of snapshot.docs) {
+        const { created } = await this.generateInstances(this.toSeries(doc.id, doc.data()));
+        summary.created += created;
+      }
+
+      return {
+        success: true,
+        data: summary,
+        message: `Created ${summary.created} recurring task instances`
+      };
+    } catch (error) {
+      console.error('Error generating recurring tasks:', error);
+      return {
+        success: false,
+        error: 'Failed to generate recurring tasks'
+      };
+    }
+  }
+
+  // Creates the series' instances up to the horizon, skipping any that already exist
+  private async generateInstances(series: TaskSeries): Promise<{ series: TaskSeries; created: number }> {
+    const now = this.clock.now();
+    const until = new Date(now.getTime() + RECURRING_TASK_HORIZON_DAYS * MS_PER_DAY);
+    const timeZone = await this.medicationService.getPatientTimeZone(series.patientId);
+
+    const occurrences = expandTaskRecurrence(series.recurrence, {
+      from: series.generatedUntil,
+      to: until,
+      startDate: series.startDate,
+      endDate: series.endDate,
+      time: series.time,
+      timeZone,
+    });
+
+    const existing = await this.db.collection(COLLECTIONS.TASKS).where('seriesId', '==', series.id).get();
+    const existingIds = new Set(existing.docs.map((doc: any) => doc.id));
+    let created = 0;
+
+    for (const occurrence of occurrences) {
+      // One ID per occurrence, so an instance is never created twice
+      const instanceId = `${series.id}_${occurrence.getTime()}`;
+      if (existingIds.has(instanceId)) {
+        continue;
+      }
+
+      await this.db.collection(COLLECTIONS.TASKS).doc(instanceId).set({
+        patientId: series.patientId,
+        ...(series.assignedTo ? { assignedTo: series.assignedTo } : {}),
+        title: series.title,
+        description: series.description,
+        priority: series.priority,
+        status: 'pending',
+        dueDate: occurrence,
+        occurrenceDate: occurrence,
+        seriesId: series.id,
+        createdBy: series.createdBy,
+        createdAt: now,
+        updatedAt: now,
+      });
+      created++;
+    }
+
+    // Two days past the end date covers its last instance in any timezone
+    const active = !series.endDate || until.getTime() < series.endDate.getTime() + 2 * MS_PER_DAY;
+    await this.db.collection(TASK_SERIES_COLLECTION).doc(series.id).update({ generatedUntil: until, active });
+
+    return { series: { ...series, generatedUntil: until, active }, created };
+  }
+
+  // Deletes the series' pending instances from an occurrence on. Instances
+  // edited on their own are kept unless `includeDetached` is set, apart from
+  // the one the change was made from.
+  private async removePendingInstances(
+    seriesId: string,
+    from: Date,
+    fromTaskId: string,
+    includeDetached = false
+  ): Promise<void> {
+    const snapshot = await this.db.collection(COLLECTIONS.TASKS).where('seriesId', '==', seriesId).get();
+    const stale = snapshot.docs.filter((doc: any) => {
+      const data = doc.data();
+      return data.status === 'pending' &&
+        toDate(data.occurrenceDate)! >= from &&
+        (!data.detached || includeDetached || doc.id === fromTaskId);
+    });
+
+    await Promise.all(stale.map((doc: any) => this.db.collection(COLLECTIONS.TASKS).doc(doc.id).delete()));
+  }
+
+  private async getInstanceWithSeries(taskId: string): Promise<{ task: Task; series: TaskSeries } | { error: string }> {
+    const taskDoc = await this.db.collection(COLLECTIONS.TASKS).doc(taskId).get();
+    if (!taskDoc.exists) {
+      return { error: 'Task not found' };
+    }
+
+    const task = this.toTask(taskDoc.id, taskDoc.data());
+    if (!task.seriesId) {
+      return { error: 'Task is not part of a recurring series' };
+    }
+
+    const seriesDoc = await this.db.collection(TASK_SERIES_COLLECTION).doc(task.seriesId).get();
+    if (!seriesDoc.exists) {
+      return { error: 'Recurring task not found' };
+    }
+
+    return { task, series: this.toSeries(seriesDoc.id, seriesDoc.data()) };
+  }
+
+  // The calendar day an instance falls on in the patient's timezone, as a UTC midnight like other series dates
+  private async getOccurrenceDay(patientId: string, occurrence: Date): Promise<Date> {
+    const timeZone = await this.medicationService.getPatientTimeZone(patientId);
+    const { year, month, day } = getZonedDateParts(occurrence, timeZone);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  // Tasks go to the patient or someone in one of their family groups
+  private async isAssignable(patientId: string, uid: string): Promise<boolean> {
+    if (uid === patientId) {
+      return true;
+    }
+
+    const members = await this.familyGroupService.getMembersForUser(patientId);
+    return (members.data || []).some(member => member.uid === uid);
+  }
+
+  // Cleared fields are stored as null and left off the task
+  private toTask(id: string, data: any): Task {
+    const { assignedTo, completedAt, completedBy, occurrenceDate, ...rest } = data;
+    return {
+      id,
+      ...rest,
+      ...(assignedTo ? { assignedTo } : {}),
+      ...(completedAt ? { completedAt: toDate(completedAt) } : {}),
+      ...(completedBy ? { completedBy } : {}),
+      ...(occurrenceDate ? { occurrenceDate: toDate(occurrenceDate) } : {}),
+      dueDate: toDate(data.dueDate)!,
+      createdAt: toDate(data.createdAt)!,
+      updatedAt: toDate(data.updatedAt)!,
+    };
+  }
+
+  private toSeries(id: string, data: any): TaskSeries {
+    const { assignedTo, endDate, ...rest } = data;
+    return {
+      ...rest,
+      id,
+      ...(assignedTo ? { assignedTo } : {}),
+      ...(endDate ? { endDate: toDate(endDate) } : {}),
+      startDate: toDate(data.startDate)!,
+      generatedUntil: toDate(data.generatedUntil)!,
+      createdAt: toDate(data.createdAt)!,
+      updatedAt: toDate(data.updatedAt)!,
+    };
+  }
+}
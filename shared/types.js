@@ -21,6 +21,10 @@ var AuditAction;
     AuditAction["VIEW_MEDICATIONS"] = "VIEW_MEDICATIONS";
     AuditAction["MODIFY_MEDICATION"] = "MODIFY_MEDICATION";
     AuditAction["LOG_MEDICATION_TAKEN"] = "LOG_MEDICATION_TAKEN";
+    AuditAction["OVERRIDE_MAX_DAILY_DOSE"] = "OVERRIDE_MAX_DAILY_DOSE";
+    AuditAction["ESCALATE_MISSED_DOSE"] = "ESCALATE_MISSED_DOSE";
+    AuditAction["ACKNOWLEDGE_MISSED_DOSE"] = "ACKNOWLEDGE_MISSED_DOSE";
+    AuditAction["RESOLVE_MISSED_DOSE"] = "RESOLVE_MISSED_DOSE";
     // Patient data events
     AuditAction["CREATE_PATIENT"] = "CREATE_PATIENT";
     AuditAction["UPDATE_PATIENT"] = "UPDATE_PATIENT";
@@ -34,10 +38,28 @@ var AuditAction;
     AuditAction["CREATE_INVITATION"] = "CREATE_INVITATION";
     AuditAction["ACCEPT_INVITATION"] = "ACCEPT_INVITATION";
     AuditAction["REJECT_INVITATION"] = "REJECT_INVITATION";
+    AuditAction["REVOKE_INVITATION"] = "REVOKE_INVITATION";
+    AuditAction["RESEND_INVITATION"] = "RESEND_INVITATION";
+    AuditAction["EXPIRE_INVITATION"] = "EXPIRE_INVITATION";
+    // Access grant events
+    AuditAction["GRANT_ACCESS"] = "GRANT_ACCESS";
+    AuditAction["REVOKE_ACCESS_GRANT"] = "REVOKE_ACCESS_GRANT";
+    AuditAction["BREAK_GLASS_ACCESS"] = "BREAK_GLASS_ACCESS";
+    // Provider link events
+    AuditAction["LINK_PROVIDER"] = "LINK_PROVIDER";
+    AuditAction["UNLINK_PROVIDER"] = "UNLINK_PROVIDER";
     // Appointment events
     AuditAction["CREATE_APPOINTMENT"] = "CREATE_APPOINTMENT";
     AuditAction["UPDATE_APPOINTMENT"] = "UPDATE_APPOINTMENT";
     AuditAction["DELETE_APPOINTMENT"] = "DELETE_APPOINTMENT";
+    AuditAction["UPDATE_APPOINTMENT_REMINDERS"] = "UPDATE_APPOINTMENT_REMINDERS";
+    // Calendar feed events
+    AuditAction["CREATE_CALENDAR_FEED"] = "CREATE_CALENDAR_FEED";
+    AuditAction["REVOKE_CALENDAR_FEED"] = "REVOKE_CALENDAR_FEED";
+    // Google Calendar events
+    AuditAction["CONNECT_GOOGLE_CALENDAR"] = "CONNECT_GOOGLE_CALENDAR";
+    AuditAction["UPDATE_GOOGLE_CALENDAR"] = "UPDATE_GOOGLE_CALENDAR";
+    AuditAction["DISCONNECT_GOOGLE_CALENDAR"] = "DISCONNECT_GOOGLE_CALENDAR";
     // Visit record events
     AuditAction["CREATE_VISIT_RECORD"] = "CREATE_VISIT_RECORD";
     AuditAction["UPDATE_VISIT_RECORD"] = "UPDATE_VISIT_RECORD";
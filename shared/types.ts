@@ -5,7 +5,8 @@ export interface User {
   name: string;
   profilePicture?: string;
   userType: 'patient' | 'family_member' | 'caregiver' | 'healthcare_provider';
-  familyGroupId?: string;
+  familyGroupIds?: string[];
+  familyGroupId?: string; // Before users could belong to more than one group
   createdAt: Date;
   updatedAt: Date;
 }
@@ -28,6 +29,7 @@ export interface Patient {
   emergencyContact?: string;
   medicalConditions?: string[];
   allergies?: string[];
+  timezone?: string; // IANA name, e.g. "America/Chicago"; medication times are in this zone
   createdAt: Date;
   updatedAt: Date;
 }
@@ -41,25 +43,176 @@ export interface NewPatient {
   emergencyContact?: string;
   medicalConditions?: string[];
   allergies?: string[];
+  timezone?: string;
 }
 
 // Family Group types
+export type FamilyMemberRole = 'primary_caregiver' | 'family_member' | 'caregiver';
+
+// What a family member may do for the patients in their group
+export type FamilyPermission =
+  | 'view_profile'
+  | 'view_medications'
+  | 'edit_medications'
+  | 'log_doses'
+  | 'view_appointments'
+  | 'edit_appointments'
+  | 'view_tasks'
+  | 'manage_tasks'
+  | 'manage_members'
+  | 'view_audit';
+
 export interface FamilyGroup {
   id: string;
   patientId: string;
   memberId: string;
-  role: 'primary_caregiver' | 'family_member' | 'caregiver';
-  permissions: string[];
+  role: FamilyMemberRole;
+  permissions: FamilyPermission[];
   createdAt: Date;
 }
 
 export interface NewFamilyGroup {
   patientId: string;
   memberId: string;
-  role: 'primary_caregiver' | 'family_member' | 'caregiver';
-  permissions: string[];
+  role: FamilyMemberRole;
+  permissions: FamilyPermission[];
+}
+
+// A member as stored on a familyGroups document. Groups created before member
+// roles were introduced use 'admin' for the inviter and 'member' for everyone else.
+// Members without permissions get the defaults for their role.
+export interface FamilyGroupMember {
+  uid: string;
+  email: string;
+  name: string;
+  role: FamilyMemberRole | 'admin' | 'member';
+  permissions?: FamilyPermission[];
+  joinedAt: Date;
+}
+
+// A familyGroups document
+export interface FamilyGroupRecord {
+  id: string;
+  name?: string;
+  createdBy?: string;
+  members: FamilyGroupMember[];
+}
+
+// A change to a member's role or permissions. A null permissions list goes
+// back to the defaults for the role.
+export interface FamilyMemberUpdate {
+  role?: FamilyMemberRole;
+  permissions?: FamilyPermission[] | null;
+}
+
+// Invitations start pending and end in exactly one of the other states;
+// an expired invitation can be resent, which makes it pending again
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+
+export interface Invitation {
+  id: string;
+  familyGroupId?: string; // The group the invitee joins; older invitations go to the inviter's current group
+  inviterUid: string;
+  inviterName: string;
+  inviterEmail: string;
+  patientEmail: string;
+  patientName: string;
+  message: string;
+  role: FamilyMemberRole; // The role the invitee joins with
+  permissions: FamilyPermission[] | null; // null gives the role's defaults
+  allowAnyEmail: boolean; // Whether someone signed in with another email may accept
+  status: InvitationStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  acceptedBy?: string;
+  acceptedAt?: Date;
+  declinedAt?: Date;
+  revokedAt?: Date;
+  resentAt?: Date;
+}
+
+// Temporary access to a patient for someone outside their family groups.
+// Emergency (break-glass) grants are taken by the accessor themselves and
+// need a justification; other grants are given by the patient or a member
+// who can manage the family group.
+export interface AccessGrant {
+  id: string;
+  patientId: string; // The patient's user uid
+  granteeId: string;
+  grantedBy: string;
+  permissions: FamilyPermission[];
+  reason?: string;
+  emergency: boolean;
+  justification?: string; // Required for emergency grants
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
+}
+
+export interface NewAccessGrant {
+  granteeId: string;
+  permissions: FamilyPermission[];
+  expiresAt: Date;
+  reason?: string;
+}
+
+// A healthcare provider the patient has approved. Stored in patient_access
+// under `${providerId}_${patientId}`, the ID the Firestore rules look up;
+// the document is deleted when either side revokes the link.
+export interface ProviderLink {
+  id: string;
+  providerId: string;
+  patientId: string; // The patient's user uid
+  providerName: string;
+  providerEmail: string;
+  patientName: string;
+  approvedAt: Date;
+}
+
+// Dosing schedule types
+export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// Doses at the same clock times every day
+export interface FixedTimesSchedule {
+  type: 'fixed_times';
+  times: string[]; // HH:MM format
+}
+
+// A dose every N hours, counted from firstDoseTime on the medication's start date
+export interface IntervalSchedule {
+  type: 'interval';
+  intervalHours: number;
+  firstDoseTime: string; // HH:MM format
+}
+
+// Doses at the given times on specific weekdays only
+export interface WeeklySchedule {
+  type: 'weekly';
+  days: DayOfWeek[];
+  times: string[]; // HH:MM format
+}
+
+// Repeating on/off cycles (e.g. 21 days on, 7 days off), starting on the medication's start date
+export interface CyclicSchedule {
+  type: 'cyclic';
+  daysOn: number;
+  daysOff: number;
+  times: string[]; // HH:MM format
+}
+
+// "As needed" - no doses are ever expected
+export interface PrnSchedule {
+  type: 'prn';
 }
 
+export type DosingSchedule =
+  | FixedTimesSchedule
+  | IntervalSchedule
+  | WeeklySchedule
+  | CyclicSchedule
+  | PrnSchedule;
+
 // Medication types
 export interface Medication {
   id: string;
@@ -72,7 +225,8 @@ export interface Medication {
   dosage: string;
   strength?: string;
   dosageForm?: string; // tablet, capsule, liquid, etc.
-  frequency: string;
+  frequency: string; // Human-readable label; schedule is the source of truth for due times
+  schedule?: DosingSchedule;
   route?: string; // oral, topical, injection, etc.
   instructions: string;
   prescribedBy: string;
@@ -87,6 +241,16 @@ export interface Medication {
   pharmacy?: string;
   prescriptionNumber?: string;
   refillsRemaining?: number;
+  quantityDispensed?: number; // Units (tablets, ml, ...) handed over at the last fill
+  quantityCarriedOver?: number; // Left over from the previous fill when the last one was recorded
+  lastFillDate?: Date;
+  unitsPerDose?: number; // Units used by one dose; defaults to 1
+  lowSupplyAlertedAt?: Date; // When the family was last told this fill is running low
+  version?: number; // Bumped on every recorded change; absent until the first one
+  discontinuedAt?: Date;
+  discontinuedBy?: string; // uid of whoever discontinued it
+  discontinueReason?: DiscontinueReason;
+  discontinueNotes?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -102,6 +266,7 @@ export interface NewMedication {
   strength?: string;
   dosageForm?: string;
   frequency: string;
+  schedule?: DosingSchedule;
   route?: string;
   instructions: string;
   prescribedBy: string;
@@ -116,6 +281,60 @@ export interface NewMedication {
   pharmacy?: string;
   prescriptionNumber?: string;
   refillsRemaining?: number;
+  quantityDispensed?: number;
+  lastFillDate?: Date;
+  unitsPerDose?: number;
+}
+
+// Why a medication was stopped
+export type DiscontinueReason = 'side_effect' | 'ineffective' | 'completed_course' | 'doctor_changed';
+
+export interface NewDiscontinuation {
+  reason: DiscontinueReason;
+  endDate?: Date; // Last day taken; defaults to now
+  notes?: string;
+}
+
+// Medication history types
+export interface MedicationFieldChange {
+  field: string;
+  before: unknown; // Dates are ISO strings; null when the field was not set
+  after: unknown;
+}
+
+export interface MedicationHistoryEntry {
+  id: string;
+  medicationId: string;
+  patientId: string;
+  version: number; // The medication's version after this change; the original is version 1
+  changedBy: string; // uid, or 'system' for changes made by scheduled jobs
+  changedByName?: string;
+  changedAt: Date;
+  changes: MedicationFieldChange[];
+}
+
+export interface MedicationChangeActor {
+  uid: string;
+  name?: string;
+}
+
+// Supply types
+export interface SupplyForecast {
+  medicationId: string;
+  lastFillDate: Date;
+  quantityDispensed: number;
+  unitsUsed: number; // Taken since the last fill
+  onHand: number;
+  dailyUsage: number; // Units per day, from the schedule or recent use
+  basis: 'schedule' | 'recent_use';
+  runOutDate: Date | null; // null when nothing is being used or supply outlasts the forecast
+  daysRemaining: number | null;
+  refillsRemaining?: number;
+}
+
+export interface NewRefill {
+  quantityDispensed: number;
+  fillDate?: Date; // Defaults to now
 }
 
 // Drug search and RxNorm types
@@ -139,10 +358,11 @@ export interface MedicationReminder {
   id: string;
   medicationId: string;
   patientId: string;
-  reminderTime: string; // HH:MM format
-  days: ('monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday')[];
+  reminderTime: string; // HH:MM format, in the patient's timezone
+  days: DayOfWeek[];
   isActive: boolean;
   lastNotified?: Date;
+  nextNotifyAt?: Date | null; // Next instant the reminder fires; maintained by the service
   createdAt: Date;
   updatedAt: Date;
 }
@@ -151,17 +371,35 @@ export interface NewMedicationReminder {
   medicationId: string;
   patientId: string;
   reminderTime: string;
-  days: ('monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday')[];
+  days: DayOfWeek[];
   isActive: boolean;
 }
 
 // Medication Log types
+// taken: the full dose; partial: only some of it (see amount); skipped, refused and
+// held: not taken, for the reason given by reasonCode
+export type MedicationLogStatus = 'taken' | 'partial' | 'skipped' | 'refused' | 'held';
+
+export type MedicationLogReasonCode =
+  | 'nausea'
+  | 'side_effects'
+  | 'feeling_unwell'
+  | 'asleep'
+  | 'unavailable' // Ran out, or away from the medication
+  | 'doctor_instruction'
+  | 'patient_choice'
+  | 'other';
+
 export interface MedicationLog {
   id: string;
   medicationId: string;
   patientId: string;
-  takenAt: Date;
+  takenAt: Date; // For doses that were not taken, the time of the dose this entry is about
   takenBy: string;
+  status: MedicationLogStatus; // Logs written before statuses existed read as 'taken'
+  reasonCode?: MedicationLogReasonCode;
+  amount?: string; // What was actually taken, for partial doses, e.g. "5mg" or "half a tablet"
+  overrideReason?: string; // Why the dose was logged despite exceeding maxDailyDose
   notes?: string;
   createdAt: Date;
 }
@@ -171,35 +409,215 @@ export interface NewMedicationLog {
   patientId: string;
   takenAt: Date;
   takenBy: string;
+  status?: MedicationLogStatus; // Defaults to 'taken'
+  reasonCode?: MedicationLogReasonCode;
+  amount?: string;
+  overrideReason?: string;
   notes?: string;
 }
 
+// Maximum daily dose types
+// Amounts are compared in a common unit: masses in mg, volumes in ml, or a count of doses/tablets
+export type DoseUnit = 'mg' | 'ml' | 'unit' | 'count';
+
+export interface DoseQuantity {
+  value: number;
+  unit: DoseUnit;
+}
+
+export interface DailyDoseCheck {
+  limit: number; // maxDailyDose, in unit
+  unit: DoseUnit;
+  taken: number; // Already taken in the 24 hours up to the new dose
+  requested: number; // The new dose
+  exceeded: boolean;
+}
+
+export interface DoseLimitWarning {
+  code: 'MAX_DAILY_DOSE_REACHED' | 'MAX_DAILY_DOSE_OVERRIDDEN';
+  message: string;
+  check: DailyDoseCheck;
+}
+
+// Adherence types
+export interface AdherenceCounts {
+  expected: number; // Scheduled doses whose window has closed, other than held doses
+  takenOnTime: number;
+  takenLate: number;
+  partial: number; // Logged as partially taken
+  skipped: number; // Logged as skipped, with a reason
+  refused: number;
+  held: number; // Held on instruction; not counted as expected
+  missed: number; // Nothing logged at all
+  pending: number; // Scheduled doses whose window is still open
+  extra: number; // Logged doses that did not match any scheduled dose
+  proportionOfDaysCovered: number | null; // Share of scheduled days on which every dose was taken
+}
+
+export interface MedicationAdherence extends AdherenceCounts {
+  medicationId: string;
+  medicationName: string;
+  asNeeded: number; // Doses logged for medications without expected doses (e.g. PRN)
+}
+
+export interface AdherenceReport extends AdherenceCounts {
+  patientId: string;
+  from: Date;
+  to: Date;
+  timeZone: string; // Zone used to group doses into days
+  medications?: MedicationAdherence[];
+}
+
+// Missed-dose escalation types
+// pending: waiting out the grace window; escalated: caregivers have been notified;
+// acknowledged: a caregiver has responded; resolved: the dose was logged
+export type DoseEscalationStatus = 'pending' | 'escalated' | 'acknowledged' | 'resolved';
+
+export interface DoseEscalation {
+  id: string;
+  patientId: string;
+  medicationId: string;
+  reminderId: string;
+  medicationName: string; // Copied so caregivers can see it without access to the medication
+  patientName: string;
+  timeZone?: string; // The patient's, for showing scheduledFor; missing on escalations tracked before it was copied
+  scheduledFor: Date; // When the reminder for this dose went out
+  status: DoseEscalationStatus;
+  level: number; // Caregiver tiers notified so far: 1 = primary caregivers, 2 = everyone else
+  notifiedMemberIds: string[];
+  nextCheckAt: Date | null; // null once there is nothing left to do
+  exhaustedAt?: Date; // Set when every tier was notified and nobody acknowledged
+  acknowledgedBy?: string;
+  acknowledgedAt?: Date;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Task types
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
+
 export interface Task {
   id: string;
-  patientId: string;
-  assignedTo: string;
+  patientId: string; // The patient's user uid
+  assignedTo?: string; // Left off until someone takes the task
   title: string;
   description: string;
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+  priority: TaskPriority;
+  status: TaskStatus;
   dueDate: Date;
+  createdBy: string;
   completedAt?: Date;
+  completedBy?: string;
+  seriesId?: string; // Set on instances of a recurring task
+  occurrenceDate?: Date; // When the series scheduled this instance, even if dueDate has moved
+  detached?: boolean; // Edited on its own, so later changes to the series leave it alone
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface NewTask {
   patientId: string;
-  assignedTo: string;
+  assignedTo?: string;
   title: string;
   description: string;
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+  priority: TaskPriority;
+  status: TaskStatus;
   dueDate: Date;
 }
 
+export interface TaskUpdate {
+  assignedTo?: string | null; // null unassigns the task
+  title?: string;
+  description?: string;
+  priority?: TaskPriority;
+  status?: TaskStatus;
+  dueDate?: Date;
+}
+
+// Recurring tasks. Every rule is counted in days from the series' start date,
+// with instances due at the series' time of day in the patient's timezone.
+export interface DailyRecurrence {
+  type: 'daily';
+}
+
+export interface WeeklyRecurrence {
+  type: 'weekly';
+  days: DayOfWeek[];
+}
+
+export interface EveryNDaysRecurrence {
+  type: 'every_n_days';
+  intervalDays: number;
+}
+
+// Days 29-31 fall on the last day of shorter months
+export interface MonthlyRecurrence {
+  type: 'monthly';
+  dayOfMonth: number;
+}
+
+export type TaskRecurrence =
+  | DailyRecurrence
+  | WeeklyRecurrence
+  | EveryNDaysRecurrence
+  | MonthlyRecurrence;
+
+export interface TaskSeries {
+  id: string;
+  patientId: string; // The patient's user uid
+  assignedTo?: string;
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  recurrence: TaskRecurrence;
+  time: string; // HH:MM format
+  startDate: Date;
+  endDate?: Date; // Last day with an instance (inclusive)
+  active: boolean; // False once every instance has been created
+  generatedUntil: Date; // Instances exist for occurrences before this
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewTaskSeries {
+  patientId: string;
+  assignedTo?: string;
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  recurrence: TaskRecurrence;
+  time: string;
+  startDate: Date;
+  endDate?: Date;
+}
+
+export interface TaskSeriesUpdate {
+  assignedTo?: string | null;
+  title?: string;
+  description?: string;
+  priority?: TaskPriority;
+  recurrence?: TaskRecurrence;
+  time?: string;
+  endDate?: Date | null;
+}
+
+// Which instances an edit to a recurring task applies to
+export type TaskEditScope = 'this' | 'future';
+
+export interface TaskFilters {
+  assignedTo?: string;
+  status?: TaskStatus;
+  dueFrom?: Date; // Inclusive
+  dueTo?: Date; // Inclusive
+}
+
 // Appointment types
+// Appointments move scheduled -> confirmed -> completed, and can be cancelled until completed
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'cancelled' | 'completed';
+
 export interface Appointment {
   id: string;
   patientId: string;
@@ -209,8 +627,10 @@ export interface Appointment {
   duration: number; // in minutes
   location: string;
   provider: string;
-  status: 'scheduled' | 'confirmed' | 'cancelled' | 'completed';
+  status: AppointmentStatus;
   notes?: string;
+  remindersSent?: number[]; // Reminder offsets already sent for the current dateTime; cleared on reschedule
+  createdBy: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -223,10 +643,72 @@ export interface NewAppointment {
   duration: number;
   location: string;
   provider: string;
-  status: 'scheduled' | 'confirmed' | 'cancelled' | 'completed';
+  status: AppointmentStatus;
+  notes?: string;
+}
+
+// Status changes go through AppointmentService.updateStatus
+export interface AppointmentUpdate {
+  title?: string;
+  description?: string;
+  dateTime?: Date;
+  duration?: number;
+  location?: string;
+  provider?: string;
   notes?: string;
 }
 
+// Who is emailed before a patient's appointments, and when
+export interface AppointmentReminderSettings {
+  patientId: string;
+  offsetsMinutes: number[]; // Minutes before the appointment, e.g. [1440, 120] for a day and two hours before
+  notifyPatient: boolean;
+  subscriberIds: string[]; // Family members who opted in
+  updatedAt?: Date;
+}
+
+export interface AppointmentReminderSettingsUpdate {
+  offsetsMinutes?: number[];
+  notifyPatient?: boolean;
+}
+
+// A subscribable iCalendar feed of one patient's appointments, for one user.
+// The feed URL holds a secret token; only its hash is stored.
+export interface CalendarFeed {
+  id: string;
+  userId: string; // Whose access the feed is checked against
+  patientId: string;
+  includeReminders: boolean; // Also list medication reminder times
+  createdAt: Date;
+  lastAccessedAt?: Date;
+}
+
+// A user's link to their Google Calendar. OAuth tokens stay on the server and
+// are never part of this shape.
+export interface GoogleCalendarConnection {
+  userId: string;
+  calendarId: string | null; // The calendar appointments go to; null until one is chosen
+  patientIds: string[]; // Patients whose appointments are synced
+  connectedAt: Date;
+  lastSyncedAt?: Date;
+}
+
+export interface GoogleCalendarSummary {
+  id: string;
+  summary: string;
+  primary: boolean;
+}
+
+export interface GoogleCalendarSettings {
+  calendarId?: string;
+  patientIds?: string[];
+}
+
+export interface CalendarSyncSummary {
+  pushed: number; // Appointments created, changed or removed in Google Calendar
+  pulled: number; // Appointments changed from edits made in Google Calendar
+}
+
 // Visit Record types
 export interface VisitRecord {
   id: string;
@@ -292,6 +774,10 @@ export enum AuditAction {
   VIEW_MEDICATIONS = 'VIEW_MEDICATIONS',
   MODIFY_MEDICATION = 'MODIFY_MEDICATION',
   LOG_MEDICATION_TAKEN = 'LOG_MEDICATION_TAKEN',
+  OVERRIDE_MAX_DAILY_DOSE = 'OVERRIDE_MAX_DAILY_DOSE',
+  ESCALATE_MISSED_DOSE = 'ESCALATE_MISSED_DOSE',
+  ACKNOWLEDGE_MISSED_DOSE = 'ACKNOWLEDGE_MISSED_DOSE',
+  RESOLVE_MISSED_DOSE = 'RESOLVE_MISSED_DOSE',
   
   // Patient data events
   CREATE_PATIENT = 'CREATE_PATIENT',
@@ -308,11 +794,33 @@ export enum AuditAction {
   CREATE_INVITATION = 'CREATE_INVITATION',
   ACCEPT_INVITATION = 'ACCEPT_INVITATION',
   REJECT_INVITATION = 'REJECT_INVITATION',
+  REVOKE_INVITATION = 'REVOKE_INVITATION',
+  RESEND_INVITATION = 'RESEND_INVITATION',
+  EXPIRE_INVITATION = 'EXPIRE_INVITATION',
+  
+  // Access grant events
+  GRANT_ACCESS = 'GRANT_ACCESS',
+  REVOKE_ACCESS_GRANT = 'REVOKE_ACCESS_GRANT',
+  BREAK_GLASS_ACCESS = 'BREAK_GLASS_ACCESS',
+  
+  // Provider link events
+  LINK_PROVIDER = 'LINK_PROVIDER',
+  UNLINK_PROVIDER = 'UNLINK_PROVIDER',
   
   // Appointment events
   CREATE_APPOINTMENT = 'CREATE_APPOINTMENT',
   UPDATE_APPOINTMENT = 'UPDATE_APPOINTMENT',
   DELETE_APPOINTMENT = 'DELETE_APPOINTMENT',
+  UPDATE_APPOINTMENT_REMINDERS = 'UPDATE_APPOINTMENT_REMINDERS',
+  
+  // Calendar feed events
+  CREATE_CALENDAR_FEED = 'CREATE_CALENDAR_FEED',
+  REVOKE_CALENDAR_FEED = 'REVOKE_CALENDAR_FEED',
+  
+  // Google Calendar events
+  CONNECT_GOOGLE_CALENDAR = 'CONNECT_GOOGLE_CALENDAR',
+  UPDATE_GOOGLE_CALENDAR = 'UPDATE_GOOGLE_CALENDAR',
+  DISCONNECT_GOOGLE_CALENDAR = 'DISCONNECT_GOOGLE_CALENDAR',
   
   // Visit record events
   CREATE_VISIT_RECORD = 'CREATE_VISIT_RECORD',
@@ -0,0 +1,51 @@
+import { isGrantActive, validateAccessGrant, validateJustification } from '../accessGrants';
+
+describe('access grant utils', () => {
+  const now = new Date('2024-03-10T12:00:00Z');
+  const grant = {
+    granteeId: 'neighbour-1',
+    permissions: ['view_medications', 'log_doses'],
+    expiresAt: '2024-03-17T12:00:00Z',
+  };
+
+  describe('validateAccessGrant', () => {
+    it('should accept a grantee, permissions and an expiry within the limit', () => {
+      expect(validateAccessGrant(grant, 'patient-1', now)).toBeNull();
+      expect(validateAccessGrant({ ...grant, reason: 'Away for a week' }, 'patient-1', now)).toBeNull();
+    });
+
+    it('should require a grantee other than the patient', () => {
+      expect(validateAccessGrant({ ...grant, granteeId: undefined }, 'patient-1', now)).toMatch(/granteeId is required/);
+      expect(validateAccessGrant({ ...grant, granteeId: 'patient-1' }, 'patient-1', now)).toMatch(/own data/);
+    });
+
+    it('should require known permissions, excluding managing members', () => {
+      expect(validateAccessGrant({ ...grant, permissions: [] }, 'patient-1', now)).toMatch(/at least one/);
+      expect(validateAccessGrant({ ...grant, permissions: ['fly'] }, 'patient-1', now)).not.toBeNull();
+      expect(validateAccessGrant({ ...grant, permissions: ['manage_members'] }, 'patient-1', now)).toMatch(/can't be granted/);
+    });
+
+    it('should require an expiry in the future and at most 30 days away', () => {
+      expect(validateAccessGrant({ ...grant, expiresAt: undefined }, 'patient-1', now)).toMatch(/valid date/);
+      expect(validateAccessGrant({ ...grant, expiresAt: 'soon' }, 'patient-1', now)).toMatch(/valid date/);
+      expect(validateAccessGrant({ ...grant, expiresAt: '2024-03-10T11:00:00Z' }, 'patient-1', now)).toMatch(/future/);
+      expect(validateAccessGrant({ ...grant, expiresAt: '2024-04-10T12:00:00Z' }, 'patient-1', now)).toMatch(/at most 30 days/);
+    });
+  });
+
+  describe('validateJustification', () => {
+    it('should require a justification of at least 10 characters', () => {
+      expect(validateJustification('Found unconscious, paramedics need med list')).toBeNull();
+      expect(validateJustification('   help    ')).toMatch(/at least 10 characters/);
+      expect(validateJustification(undefined)).toMatch(/at least 10 characters/);
+    });
+  });
+
+  describe('isGrantActive', () => {
+    it('should only count grants that are unexpired and not revoked', () => {
+      expect(isGrantActive({ expiresAt: new Date('2024-03-10T13:00:00Z') }, now)).toBe(true);
+      expect(isGrantActive({ expiresAt: new Date('2024-03-10T11:00:00Z') }, now)).toBe(false);
+      expect(isGrantActive({ expiresAt: new Date('2024-03-10T13:00:00Z'), revokedAt: now }, now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const appointments_1 = require("../appointments");
+describe('appointment utils', () => {
+    describe('canTransitionAppointment', () => {
+        it('should move scheduled to confirmed to completed', () => {
+            expect((0, appointments_1.canTransitionAppointment)('scheduled', 'confirmed')).toBe(true);
+            expect((0, appointments_1.canTransitionAppointment)('confirmed', 'completed')).toBe(true);
+            expect((0, appointments_1.canTransitionAppointment)('scheduled', 'completed')).toBe(false);
+        });
+        it('should allow cancelling until the appointment is completed', () => {
+            expect((0, appointments_1.canTransitionAppointment)('scheduled', 'cancelled')).toBe(true);
+            expect((0, appointments_1.canTransitionAppointment)('confirmed', 'cancelled')).toBe(true);
+            expect((0, appointments_1.canTransitionAppointment)('completed', 'cancelled')).toBe(false);
+            expect((0, appointments_1.canTransitionAppointment)('cancelled', 'scheduled')).toBe(false);
+        });
+    });
+    describe('validateAppointment', () => {
+        const appointment = { title: 'Annual checkup', dateTime: '2024-03-15T14:00:00Z' };
+        it('should require a title and date when creating', () => {
+            expect((0, appointments_1.validateAppointment)(appointment, true)).toBeNull();
+            expect((0, appointments_1.validateAppointment)({ ...appointment, title: ' ' }, true)).toMatch(/title is required/);
+            expect((0, appointments_1.validateAppointment)({ title: 'Annual checkup' }, true)).toMatch(/dateTime must be a valid date/);
+        });
+        it('should only check the fields given when updating', () => {
+            expect((0, appointments_1.validateAppointment)({ location: 'Clinic' }, false)).toBeNull();
+            expect((0, appointments_1.validateAppointment)({ duration: 0 }, false)).toMatch(/duration/);
+            expect((0, appointments_1.validateAppointment)({ duration: 45.5 }, false)).toMatch(/duration/);
+            expect((0, appointments_1.validateAppointment)({ provider: 42 }, false)).toMatch(/provider must be a string/);
+        });
+    });
+    describe('parseAppointmentRange', () => {
+        it('should read a date range', () => {
+            expect((0, appointments_1.parseAppointmentRange)({ from: '2024-03-01', to: '2024-03-31' })).toEqual({
+                range: { from: new Date('2024-03-01'), to: new Date('2024-03-31') },
+            });
+            expect((0, appointments_1.parseAppointmentRange)({})).toEqual({ range: {} });
+        });
+        it('should reject bad dates and backwards ranges', () => {
+            expect((0, appointments_1.parseAppointmentRange)({ to: 'soon' }).error).toMatch(/to must be a valid date/);
+            expect((0, appointments_1.parseAppointmentRange)({ from: '2024-03-31', to: '2024-03-01' }).error).toMatch(/must not be after/);
+        });
+    });
+    describe('validateReminderSettings', () => {
+        it('should accept up to five reminders between 15 minutes and a week before', () => {
+            expect((0, appointments_1.validateReminderSettings)({ offsetsMinutes: [10080, 1440, 15], notifyPatient: false })).toBeNull();
+            expect((0, appointments_1.validateReminderSettings)({ offsetsMinutes: [] })).toBeNull();
+            expect((0, appointments_1.validateReminderSettings)({})).toBeNull();
+        });
+        it('should reject other reminder times', () => {
+            expect((0, appointments_1.validateReminderSettings)({ offsetsMinutes: [10] })).toMatch(/between 15 and 10080/);
+            expect((0, appointments_1.validateReminderSettings)({ offsetsMinutes: [10081] })).toMatch(/between 15 and 10080/);
+            expect((0, appointments_1.validateReminderSettings)({ offsetsMinutes: [90.5] })).toMatch(/whole numbers/);
+            expect((0, appointments_1.validateReminderSettings)({ offsetsMinutes: [15, 30, 60, 120, 240, 480] })).toMatch(/at most 5/);
+            expect((0, appointments_1.validateReminderSettings)({ offsetsMinutes: '1440' })).toMatch(/must be a list/);
+            expect((0, appointments_1.validateReminderSettings)({ notifyPatient: 'yes' })).toMatch(/notifyPatient must be true or false/);
+        });
+    });
+});
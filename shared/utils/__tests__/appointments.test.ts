@@ -0,0 +1,66 @@
+import { canTransitionAppointment, parseAppointmentRange, validateAppointment, validateReminderSettings } from '../appointments';
+
+describe('appointment utils', () => {
+  describe('canTransitionAppointment', () => {
+    it('should move scheduled to confirmed to completed', () => {
+      expect(canTransitionAppointment('scheduled', 'confirmed')).toBe(true);
+      expect(canTransitionAppointment('confirmed', 'completed')).toBe(true);
+      expect(canTransitionAppointment('scheduled', 'completed')).toBe(false);
+    });
+
+    it('should allow cancelling until the appointment is completed', () => {
+      expect(canTransitionAppointment('scheduled', 'cancelled')).toBe(true);
+      expect(canTransitionAppointment('confirmed', 'cancelled')).toBe(true);
+      expect(canTransitionAppointment('completed', 'cancelled')).toBe(false);
+      expect(canTransitionAppointment('cancelled', 'scheduled')).toBe(false);
+    });
+  });
+
+  describe('validateAppointment', () => {
+    const appointment = { title: 'Annual checkup', dateTime: '2024-03-15T14:00:00Z' };
+
+    it('should require a title and date when creating', () => {
+      expect(validateAppointment(appointment, true)).toBeNull();
+      expect(validateAppointment({ ...appointment, title: ' ' }, true)).toMatch(/title is required/);
+      expect(validateAppointment({ title: 'Annual checkup' }, true)).toMatch(/dateTime must be a valid date/);
+    });
+
+    it('should only check the fields given when updating', () => {
+      expect(validateAppointment({ location: 'Clinic' }, false)).toBeNull();
+      expect(validateAppointment({ duration: 0 }, false)).toMatch(/duration/);
+      expect(validateAppointment({ duration: 45.5 }, false)).toMatch(/duration/);
+      expect(validateAppointment({ provider: 42 }, false)).toMatch(/provider must be a string/);
+    });
+  });
+
+  describe('parseAppointmentRange', () => {
+    it('should read a date range', () => {
+      expect(parseAppointmentRange({ from: '2024-03-01', to: '2024-03-31' })).toEqual({
+        range: { from: new Date('2024-03-01'), to: new Date('2024-03-31') },
+      });
+      expect(parseAppointmentRange({})).toEqual({ range: {} });
+    });
+
+    it('should reject bad dates and backwards ranges', () => {
+      expect(parseAppointmentRange({ to: 'soon' }).error).toMatch(/to must be a valid date/);
+      expect(parseAppointmentRange({ from: '2024-03-31', to: '2024-03-01' }).error).toMatch(/must not be after/);
+    });
+  });
+
+  describe('validateReminderSettings', () => {
+    it('should accept up to five reminders between 15 minutes and a week before', () => {
+      expect(validateReminderSettings({ offsetsMinutes: [10080, 1440, 15], notifyPatient: false })).toBeNull();
+      expect(validateReminderSettings({ offsetsMinutes: [] })).toBeNull();
+      expect(validateReminderSettings({})).toBeNull();
+    });
+
+    it('should reject other reminder times', () => {
+      expect(validateReminderSettings({ offsetsMinutes: [10] })).toMatch(/between 15 and 10080/);
+      expect(validateReminderSettings({ offsetsMinutes: [10081] })).toMatch(/between 15 and 10080/);
+      expect(validateReminderSettings({ offsetsMinutes: [90.5] })).toMatch(/whole numbers/);
+      expect(validateReminderSettings({ offsetsMinutes: [15, 30, 60, 120, 240, 480] })).toMatch(/at most 5/);
+      expect(validateReminderSettings({ offsetsMinutes: '1440' })).toMatch(/must be a list/);
+      expect(validateReminderSettings({ notifyPatient: 'yes' })).toMatch(/notifyPatient must be true or false/);
+    });
+  });
+});
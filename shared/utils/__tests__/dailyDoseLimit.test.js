@@ -0,0 +1,45 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const dailyDoseLimit_1 = require("../dailyDoseLimit");
+describe('daily dose limit utils', () => {
+    describe('parseDoseQuantity', () => {
+        it('should convert masses to mg', () => {
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)('500mg')).toEqual({ value: 500, unit: 'mg' });
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)('4 g per day')).toEqual({ value: 4000, unit: 'mg' });
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)('250 mcg')).toEqual({ value: 0.25, unit: 'mg' });
+        });
+        it('should read counts and volumes', () => {
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)('4 tablets')).toEqual({ value: 4, unit: 'count' });
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)('6 doses/day')).toEqual({ value: 6, unit: 'count' });
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)('3')).toEqual({ value: 3, unit: 'count' });
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)('20 mL')).toEqual({ value: 20, unit: 'ml' });
+        });
+        it('should return null for text it cannot read', () => {
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)('as directed')).toBeNull();
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)('2 scoops')).toBeNull();
+            expect((0, dailyDoseLimit_1.parseDoseQuantity)(undefined)).toBeNull();
+        });
+    });
+    describe('checkDailyDoseLimit', () => {
+        const taken = { status: 'taken' };
+        it('should flag the dose that goes over a count limit', () => {
+            const medication = { dosage: '500mg', maxDailyDose: '4 doses' };
+            expect((0, dailyDoseLimit_1.checkDailyDoseLimit)(medication, [taken, taken], taken)).toEqual(expect.objectContaining({ taken: 2, requested: 1, exceeded: false }));
+            expect((0, dailyDoseLimit_1.checkDailyDoseLimit)(medication, [taken, taken, taken, taken], taken)).toEqual(expect.objectContaining({ limit: 4, unit: 'count', taken: 4, exceeded: true }));
+        });
+        it('should compare amounts when the limit is an amount', () => {
+            const medication = { dosage: '1000mg', maxDailyDose: '4g' };
+            expect((0, dailyDoseLimit_1.checkDailyDoseLimit)(medication, [taken, taken, taken], taken)).toEqual(expect.objectContaining({ limit: 4000, unit: 'mg', taken: 3000, requested: 1000, exceeded: false }));
+            expect((0, dailyDoseLimit_1.checkDailyDoseLimit)(medication, [taken, taken, taken, taken], taken).exceeded).toBe(true);
+        });
+        it('should count the recorded amount of partial doses and ignore doses not taken', () => {
+            const medication = { dosage: '1000mg', maxDailyDose: '3000mg' };
+            const logs = [taken, taken, { status: 'partial', amount: '500mg' }, { status: 'skipped' }];
+            expect((0, dailyDoseLimit_1.checkDailyDoseLimit)(medication, logs, { status: 'partial', amount: '500mg' })).toEqual(expect.objectContaining({ taken: 2500, requested: 500, exceeded: false }));
+        });
+        it('should not enforce limits it cannot compare against the dosage', () => {
+            expect((0, dailyDoseLimit_1.checkDailyDoseLimit)({ dosage: 'one tablet', maxDailyDose: '4000mg' }, [], taken)).toBeNull();
+            expect((0, dailyDoseLimit_1.checkDailyDoseLimit)({ dosage: '500mg', maxDailyDose: undefined }, [], taken)).toBeNull();
+        });
+    });
+});
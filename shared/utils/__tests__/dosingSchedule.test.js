@@ -0,0 +1,21 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const dosingSchedule_1 = require("../dosingSchedule");
+describe('dosing schedule utils', () => {
+    describe('validateDosingSchedule', () => {
+        const interval = (intervalHours) => ({ type: 'interval', intervalHours, firstDoseTime: '06:00' });
+        it('should accept intervals of whole minutes from 15 minutes to a week', () => {
+            expect((0, dosingSchedule_1.validateDosingSchedule)(interval(8))).toBeNull();
+            expect((0, dosingSchedule_1.validateDosingSchedule)(interval(0.25))).toBeNull();
+            expect((0, dosingSchedule_1.validateDosingSchedule)(interval(1.1))).toBeNull();
+            expect((0, dosingSchedule_1.validateDosingSchedule)(interval(168))).toBeNull();
+        });
+        it('should reject intervals that would expand into too many doses', () => {
+            expect((0, dosingSchedule_1.validateDosingSchedule)(interval(0.001))).toMatch(/intervalHours/);
+            expect((0, dosingSchedule_1.validateDosingSchedule)(interval(0.2))).toMatch(/intervalHours/);
+            expect((0, dosingSchedule_1.validateDosingSchedule)(interval(1.0001))).toMatch(/whole number of minutes/);
+            expect((0, dosingSchedule_1.validateDosingSchedule)(interval(169))).toMatch(/intervalHours/);
+            expect((0, dosingSchedule_1.validateDosingSchedule)(interval('8'))).toMatch(/intervalHours/);
+        });
+    });
+});
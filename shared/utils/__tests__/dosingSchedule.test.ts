@@ -0,0 +1,22 @@
+import { validateDosingSchedule } from '../dosingSchedule';
+
+describe('dosing schedule utils', () => {
+  describe('validateDosingSchedule', () => {
+    const interval = (intervalHours: unknown) => ({ type: 'interval', intervalHours, firstDoseTime: '06:00' });
+
+    it('should accept intervals of whole minutes from 15 minutes to a week', () => {
+      expect(validateDosingSchedule(interval(8))).toBeNull();
+      expect(validateDosingSchedule(interval(0.25))).toBeNull();
+      expect(validateDosingSchedule(interval(1.1))).toBeNull();
+      expect(validateDosingSchedule(interval(168))).toBeNull();
+    });
+
+    it('should reject intervals that would expand into too many doses', () => {
+      expect(validateDosingSchedule(interval(0.001))).toMatch(/intervalHours/);
+      expect(validateDosingSchedule(interval(0.2))).toMatch(/intervalHours/);
+      expect(validateDosingSchedule(interval(1.0001))).toMatch(/whole number of minutes/);
+      expect(validateDosingSchedule(interval(169))).toMatch(/intervalHours/);
+      expect(validateDosingSchedule(interval('8'))).toMatch(/intervalHours/);
+    });
+  });
+});
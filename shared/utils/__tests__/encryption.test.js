@@ -0,0 +1,24 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const encryption_1 = require("../encryption");
+describe('encryption utils', () => {
+    const key = (0, encryption_1.parseEncryptionKey)(Buffer.alloc(32, 7).toString('base64'));
+    it('should decrypt what it encrypted without storing the secret', () => {
+        const stored = (0, encryption_1.encryptSecret)('refresh-token-1', key);
+        expect(stored).not.toContain('refresh-token-1');
+        expect(stored).not.toBe((0, encryption_1.encryptSecret)('refresh-token-1', key));
+        expect((0, encryption_1.decryptSecret)(stored, key)).toBe('refresh-token-1');
+    });
+    it('should reject a changed value or the wrong key', () => {
+        const stored = (0, encryption_1.encryptSecret)('refresh-token-1', key);
+        const otherKey = (0, encryption_1.parseEncryptionKey)(Buffer.alloc(32, 8).toString('base64'));
+        const [version, iv, tag, ciphertext] = stored.split(':');
+        const changed = [version, iv, tag, `${ciphertext[0] === 'A' ? 'B' : 'A'}${ciphertext.slice(1)}`].join(':');
+        expect(() => (0, encryption_1.decryptSecret)(stored, otherKey)).toThrow();
+        expect(() => (0, encryption_1.decryptSecret)(changed, key)).toThrow();
+        expect(() => (0, encryption_1.decryptSecret)('refresh-token-1', key)).toThrow('Not an encrypted secret');
+    });
+    it('should only accept 32-byte keys', () => {
+        expect(() => (0, encryption_1.parseEncryptionKey)(Buffer.alloc(16).toString('base64'))).toThrow('Encryption key must be 32 bytes, base64 encoded');
+    });
+});
@@ -0,0 +1,28 @@
+import { decryptSecret, encryptSecret, parseEncryptionKey } from '../encryption';
+
+describe('encryption utils', () => {
+  const key = parseEncryptionKey(Buffer.alloc(32, 7).toString('base64'));
+
+  it('should decrypt what it encrypted without storing the secret', () => {
+    const stored = encryptSecret('refresh-token-1', key);
+
+    expect(stored).not.toContain('refresh-token-1');
+    expect(stored).not.toBe(encryptSecret('refresh-token-1', key));
+    expect(decryptSecret(stored, key)).toBe('refresh-token-1');
+  });
+
+  it('should reject a changed value or the wrong key', () => {
+    const stored = encryptSecret('refresh-token-1', key);
+    const otherKey = parseEncryptionKey(Buffer.alloc(32, 8).toString('base64'));
+    const [version, iv, tag, ciphertext] = stored.split(':');
+    const changed = [version, iv, tag, `${ciphertext[0] === 'A' ? 'B' : 'A'}${ciphertext.slice(1)}`].join(':');
+
+    expect(() => decryptSecret(stored, otherKey)).toThrow();
+    expect(() => decryptSecret(changed, key)).toThrow();
+    expect(() => decryptSecret('refresh-token-1', key)).toThrow('Not an encrypted secret');
+  });
+
+  it('should only accept 32-byte keys', () => {
+    expect(() => parseEncryptionKey(Buffer.alloc(16).toString('base64'))).toThrow('Encryption key must be 32 bytes, base64 encoded');
+  });
+});
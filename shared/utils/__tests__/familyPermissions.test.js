@@ -0,0 +1,52 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const familyPermissions_1 = require("../familyPermissions");
+describe('family permission utils', () => {
+    describe('normalizeFamilyRole', () => {
+        it('should map legacy roles onto current ones', () => {
+            expect((0, familyPermissions_1.normalizeFamilyRole)('admin')).toBe('primary_caregiver');
+            expect((0, familyPermissions_1.normalizeFamilyRole)('member')).toBe('family_member');
+            expect((0, familyPermissions_1.normalizeFamilyRole)('caregiver')).toBe('caregiver');
+        });
+    });
+    describe('getMemberPermissions', () => {
+        it('should give each role its defaults', () => {
+            expect((0, familyPermissions_1.getMemberPermissions)({ role: 'primary_caregiver' })).toContain('manage_members');
+            expect((0, familyPermissions_1.getMemberPermissions)({ role: 'caregiver' })).toContain('edit_medications');
+            expect((0, familyPermissions_1.getMemberPermissions)({ role: 'caregiver' })).toContain('edit_appointments');
+            expect((0, familyPermissions_1.getMemberPermissions)({ role: 'caregiver' })).not.toContain('manage_members');
+            expect((0, familyPermissions_1.getMemberPermissions)({ role: 'family_member' })).toEqual(['view_profile', 'view_medications', 'log_doses', 'view_appointments', 'view_tasks', 'manage_tasks']);
+        });
+        it('should prefer the member\'s own permissions, even when empty', () => {
+            expect((0, familyPermissions_1.getMemberPermissions)({ role: 'primary_caregiver', permissions: ['view_profile'] })).toEqual(['view_profile']);
+            expect((0, familyPermissions_1.getMemberPermissions)({ role: 'primary_caregiver', permissions: [] })).toEqual([]);
+        });
+    });
+    describe('getPermissionsNotHeld', () => {
+        it('should list the permissions none of the member\'s entries hold', () => {
+            const members = [{ role: 'family_member' }, { role: 'caregiver', permissions: ['view_audit'] }];
+            expect((0, familyPermissions_1.getPermissionsNotHeld)(members, ['view_profile', 'view_audit', 'edit_medications'])).toEqual(['edit_medications']);
+        });
+        it('should let the primary caregiver hand on anything', () => {
+            expect((0, familyPermissions_1.getPermissionsNotHeld)([{ role: 'admin' }], ['manage_members', 'view_audit'])).toEqual([]);
+        });
+    });
+    describe('labels', () => {
+        it('should describe every permission', () => {
+            expect(Object.keys(familyPermissions_1.FAMILY_PERMISSION_LABELS).sort()).toEqual([...familyPermissions_1.FAMILY_PERMISSIONS].sort());
+        });
+        it('should not offer the primary caregiver role directly', () => {
+            expect(familyPermissions_1.ASSIGNABLE_ROLES).not.toContain('primary_caregiver');
+        });
+    });
+    describe('validatePermissions', () => {
+        it('should accept known permissions', () => {
+            expect((0, familyPermissions_1.validatePermissions)(['view_medications', 'log_doses'])).toBeNull();
+            expect((0, familyPermissions_1.validatePermissions)([])).toBeNull();
+        });
+        it('should reject anything else', () => {
+            expect((0, familyPermissions_1.validatePermissions)('view_medications')).toMatch(/must be an array/);
+            expect((0, familyPermissions_1.validatePermissions)(['view_medications', 'fly'])).toMatch(/Unknown permission: fly/);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import {
+  ASSIGNABLE_ROLES,
+  FAMILY_PERMISSIONS,
+  FAMILY_PERMISSION_LABELS,
+  getMemberPermissions,
+  getPermissionsNotHeld,
+  normalizeFamilyRole,
+  validatePermissions,
+} from '../familyPermissions';
+
+describe('family permission utils', () => {
+  describe('normalizeFamilyRole', () => {
+    it('should map legacy roles onto current ones', () => {
+      expect(normalizeFamilyRole('admin')).toBe('primary_caregiver');
+      expect(normalizeFamilyRole('member')).toBe('family_member');
+      expect(normalizeFamilyRole('caregiver')).toBe('caregiver');
+    });
+  });
+
+  describe('getMemberPermissions', () => {
+    it('should give each role its defaults', () => {
+      expect(getMemberPermissions({ role: 'primary_caregiver' })).toContain('manage_members');
+      expect(getMemberPermissions({ role: 'caregiver' })).toContain('edit_medications');
+      expect(getMemberPermissions({ role: 'caregiver' })).toContain('edit_appointments');
+      expect(getMemberPermissions({ role: 'caregiver' })).not.toContain('manage_members');
+      expect(getMemberPermissions({ role: 'family_member' })).toEqual(
+        ['view_profile', 'view_medications', 'log_doses', 'view_appointments', 'view_tasks', 'manage_tasks']
+      );
+    });
+
+    it('should prefer the member\'s own permissions, even when empty', () => {
+      expect(getMemberPermissions({ role: 'primary_caregiver', permissions: ['view_profile'] })).toEqual(['view_profile']);
+      expect(getMemberPermissions({ role: 'primary_caregiver', permissions: [] })).toEqual([]);
+    });
+  });
+
+  describe('getPermissionsNotHeld', () => {
+    it('should list the permissions none of the member\'s entries hold', () => {
+      const members = [{ role: 'family_member' as const }, { role: 'caregiver' as const, permissions: ['view_audit' as const] }];
+
+      expect(getPermissionsNotHeld(members, ['view_profile', 'view_audit', 'edit_medications'])).toEqual(['edit_medications']);
+    });
+
+    it('should let the primary caregiver hand on anything', () => {
+      expect(getPermissionsNotHeld([{ role: 'admin' }], ['manage_members', 'view_audit'])).toEqual([]);
+    });
+  });
+
+  describe('labels', () => {
+    it('should describe every permission', () => {
+      expect(Object.keys(FAMILY_PERMISSION_LABELS).sort()).toEqual([...FAMILY_PERMISSIONS].sort());
+    });
+
+    it('should not offer the primary caregiver role directly', () => {
+      expect(ASSIGNABLE_ROLES).not.toContain('primary_caregiver');
+    });
+  });
+
+  describe('validatePermissions', () => {
+    it('should accept known permissions', () => {
+      expect(validatePermissions(['view_medications', 'log_doses'])).toBeNull();
+      expect(validatePermissions([])).toBeNull();
+    });
+
+    it('should reject anything else', () => {
+      expect(validatePermissions('view_medications')).toMatch(/must be an array/);
+      expect(validatePermissions(['view_medications', 'fly'])).toMatch(/Unknown permission: fly/);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const ics_1 = require("../ics");
+describe('ics utils', () => {
+    it('should escape commas, semicolons, backslashes and newlines', () => {
+        expect((0, ics_1.escapeIcsText)('Dr. Smith, Cardiology; Room 4\\B\nBring insurance card'))
+            .toBe('Dr. Smith\\, Cardiology\\; Room 4\\\\B\\nBring insurance card');
+    });
+    it('should format instants in UTC', () => {
+        expect((0, ics_1.formatIcsDateTime)(new Date('2024-03-05T09:07:03Z'))).toBe('20240305T090703Z');
+    });
+    it('should fold long lines at 75 octets without splitting characters', () => {
+        const folded = (0, ics_1.foldIcsLine)(`DESCRIPTION:${'é'.repeat(60)}`);
+        const lines = folded.split('\r\n');
+        expect(lines.length).toBeGreaterThan(1);
+        expect(lines.every(line => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+        expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+        expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+    });
+    it('should render one-off and repeating events', () => {
+        const calendar = (0, ics_1.buildIcsCalendar)({
+            name: 'Care calendar',
+            timeZone: 'America/Chicago',
+            refreshMinutes: 60,
+            events: [
+                {
+                    uid: 'appointment-1@kinconnect',
+                    stamp: new Date('2024-03-01T00:00:00Z'),
+                    start: new Date('2024-03-12T15:00:00Z'),
+                    end: new Date('2024-03-12T15:30:00Z'),
+                    summary: 'Cardiology follow-up',
+                    location: 'Heart Specialists Clinic',
+                    status: 'CONFIRMED',
+                },
+                {
+                    uid: 'reminder-1@kinconnect',
+                    stamp: new Date('2024-03-01T00:00:00Z'),
+                    start: { year: 2024, month: 3, day: 4, hours: 8, minutes: 0, timeZone: 'America/Chicago' },
+                    durationMinutes: 15,
+                    rrule: 'FREQ=WEEKLY;BYDAY=MO,TH',
+                    summary: 'Take Lisinopril 10mg',
+                },
+            ],
+        });
+        expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+        expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(calendar).toContain('X-WR-TIMEZONE:America/Chicago\r\nREFRESH-INTERVAL;VALUE=DURATION:PT60M');
+        expect(calendar).toContain([
+            'BEGIN:VEVENT',
+            'UID:appointment-1@kinconnect',
+            'DTSTAMP:20240301T000000Z',
+            'DTSTART:20240312T150000Z',
+            'DTEND:20240312T153000Z',
+            'SUMMARY:Cardiology follow-up',
+            'LOCATION:Heart Specialists Clinic',
+            'STATUS:CONFIRMED',
+            'END:VEVENT',
+        ].join('\r\n'));
+        expect(calendar).toContain('DTSTART;TZID=America/Chicago:20240304T080000\r\nDURATION:PT15M\r\nRRULE:FREQ=WEEKLY;BYDAY=MO,TH');
+    });
+    it('should describe the timezones of events given in local time', () => {
+        const localEvent = (timeZone) => ({
+            uid: `reminder-${timeZone}@kinconnect`,
+            stamp: new Date('2024-03-01T00:00:00Z'),
+            start: { year: 2024, month: 3, day: 4, hours: 8, minutes: 0, timeZone },
+            durationMinutes: 15,
+            rrule: 'FREQ=WEEKLY;BYDAY=MO',
+            summary: 'Take Lisinopril 10mg',
+        });
+        const calendar = (0, ics_1.buildIcsCalendar)({
+            name: 'Care calendar',
+            events: [localEvent('America/Chicago'), localEvent('America/Chicago'), localEvent('Asia/Kolkata'), localEvent('UTC')],
+        });
+        expect(calendar.match(/BEGIN:VTIMEZONE/g)).toHaveLength(2);
+        expect(calendar).toContain([
+            'BEGIN:VTIMEZONE',
+            'TZID:America/Chicago',
+            'BEGIN:DAYLIGHT',
+            'DTSTART:20230312T020000',
+            'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+            'TZOFFSETFROM:-0600',
+            'TZOFFSETTO:-0500',
+            'END:DAYLIGHT',
+            'BEGIN:STANDARD',
+            'DTSTART:20231105T020000',
+            'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+            'TZOFFSETFROM:-0500',
+            'TZOFFSETTO:-0600',
+            'END:STANDARD',
+            'END:VTIMEZONE',
+        ].join('\r\n'));
+        expect(calendar).toContain([
+            'BEGIN:VTIMEZONE',
+            'TZID:Asia/Kolkata',
+            'BEGIN:STANDARD',
+            'DTSTART:19700101T000000',
+            'TZOFFSETFROM:+0530',
+            'TZOFFSETTO:+0530',
+            'END:STANDARD',
+            'END:VTIMEZONE',
+        ].join('\r\n'));
+        expect(calendar.indexOf('END:VTIMEZONE')).toBeLessThan(calendar.indexOf('BEGIN:VEVENT'));
+    });
+});
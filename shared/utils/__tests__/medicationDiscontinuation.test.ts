@@ -0,0 +1,34 @@
+import { isWithinHardDeleteWindow, validateDiscontinuation } from '../medicationDiscontinuation';
+
+describe('medication discontinuation utils', () => {
+  const medication = {
+    prescribedDate: new Date('2024-01-01T00:00:00Z'),
+    startDate: new Date('2024-01-05T00:00:00Z'),
+  };
+
+  describe('validateDiscontinuation', () => {
+    it('should accept a known reason with an optional end date and notes', () => {
+      expect(validateDiscontinuation({ reason: 'side_effect' }, medication)).toBeNull();
+      expect(validateDiscontinuation({ reason: 'completed_course', endDate: '2024-01-10', notes: 'Course done' }, medication)).toBeNull();
+    });
+
+    it('should require a known reason', () => {
+      expect(validateDiscontinuation({}, medication)).toMatch(/reason must be one of/);
+      expect(validateDiscontinuation({ reason: 'bored' }, medication)).toMatch(/reason must be one of/);
+    });
+
+    it('should reject end dates that are invalid or before the start date', () => {
+      expect(validateDiscontinuation({ reason: 'ineffective', endDate: 'later' }, medication)).toMatch(/valid date/);
+      expect(validateDiscontinuation({ reason: 'ineffective', endDate: '2024-01-03' }, medication)).toMatch(/before/);
+    });
+  });
+
+  describe('isWithinHardDeleteWindow', () => {
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+
+    it('should allow deleting for 24 hours after the medication was added', () => {
+      expect(isWithinHardDeleteWindow({ createdAt }, new Date('2024-01-01T23:59:00Z'))).toBe(true);
+      expect(isWithinHardDeleteWindow({ createdAt }, new Date('2024-01-02T00:01:00Z'))).toBe(false);
+    });
+  });
+});
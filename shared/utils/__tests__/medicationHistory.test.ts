@@ -0,0 +1,42 @@
+import { diffMedication } from '../medicationHistory';
+
+describe('medication history utils', () => {
+  describe('diffMedication', () => {
+    it('should list only the fields that changed', () => {
+      const changes = diffMedication(
+        { dosage: '5mg', frequency: 'Once daily', refillsRemaining: 2 },
+        { dosage: '10mg', frequency: 'Once daily', refillsRemaining: 1 }
+      );
+
+      expect(changes).toEqual([
+        { field: 'dosage', before: '5mg', after: '10mg' },
+        { field: 'refillsRemaining', before: 2, after: 1 },
+      ]);
+    });
+
+    it('should compare dates and Firestore timestamps by instant', () => {
+      const stored = { toDate: () => new Date('2024-01-01T00:00:00Z') };
+
+      expect(diffMedication({ startDate: stored }, { startDate: new Date('2024-01-01T00:00:00Z') })).toEqual([]);
+      expect(diffMedication({ startDate: stored }, { startDate: new Date('2024-02-01T00:00:00Z') })).toEqual([
+        { field: 'startDate', before: '2024-01-01T00:00:00.000Z', after: '2024-02-01T00:00:00.000Z' },
+      ]);
+    });
+
+    it('should compare schedules by value regardless of key order', () => {
+      const before = { schedule: { type: 'fixed_times', times: ['08:00'] } };
+
+      expect(diffMedication(before, { schedule: { times: ['08:00'], type: 'fixed_times' } })).toEqual([]);
+      expect(diffMedication(before, { schedule: { type: 'fixed_times', times: ['08:00', '20:00'] } })).toHaveLength(1);
+    });
+
+    it('should record fields being set or cleared as null on the missing side', () => {
+      expect(diffMedication({}, { pharmacy: 'CVS' })).toEqual([{ field: 'pharmacy', before: null, after: 'CVS' }]);
+      expect(diffMedication({ notes: 'old' }, { notes: null })).toEqual([{ field: 'notes', before: 'old', after: null }]);
+    });
+
+    it('should ignore bookkeeping fields', () => {
+      expect(diffMedication({ version: 1 }, { updatedAt: new Date(), version: 2, lowSupplyAlertedAt: new Date() })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const medicationLog_1 = require("../medicationLog");
+describe('medication log utils', () => {
+    describe('validateMedicationLogStatus', () => {
+        it('should accept logs without a status as taken', () => {
+            expect((0, medicationLog_1.validateMedicationLogStatus)({})).toBeNull();
+        });
+        it('should accept not-taken statuses with a reason code', () => {
+            expect((0, medicationLog_1.validateMedicationLogStatus)({ status: 'skipped', reasonCode: 'nausea' })).toBeNull();
+            expect((0, medicationLog_1.validateMedicationLogStatus)({ status: 'held', reasonCode: 'doctor_instruction' })).toBeNull();
+        });
+        it('should require a reason code when the dose was not taken', () => {
+            expect((0, medicationLog_1.validateMedicationLogStatus)({ status: 'refused' })).toBe('reasonCode is required when status is refused');
+        });
+        it('should reject unknown statuses and reason codes', () => {
+            expect((0, medicationLog_1.validateMedicationLogStatus)({ status: 'forgotten' })).toMatch(/^status must be one of/);
+            expect((0, medicationLog_1.validateMedicationLogStatus)({ status: 'skipped', reasonCode: 'bored' })).toMatch(/^reasonCode must be one of/);
+        });
+        it('should only accept an amount for partial doses', () => {
+            expect((0, medicationLog_1.validateMedicationLogStatus)({ status: 'partial', amount: 'half a tablet' })).toBeNull();
+            expect((0, medicationLog_1.validateMedicationLogStatus)({ status: 'taken', amount: '5mg' })).toBe('amount can only be recorded for partial doses');
+            expect((0, medicationLog_1.validateMedicationLogStatus)({ status: 'partial', amount: ' ' })).toBe('amount must be a non-empty string');
+        });
+    });
+    describe('isDoseTaken', () => {
+        it('should count full and partial doses, including logs from before statuses existed', () => {
+            expect((0, medicationLog_1.isDoseTaken)({ status: 'partial' })).toBe(true);
+            expect((0, medicationLog_1.isDoseTaken)({})).toBe(true);
+            expect((0, medicationLog_1.getLogStatus)({})).toBe('taken');
+            expect((0, medicationLog_1.isDoseTaken)({ status: 'skipped' })).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,38 @@
+import { getLogStatus, isDoseTaken, validateMedicationLogStatus } from '../medicationLog';
+
+describe('medication log utils', () => {
+  describe('validateMedicationLogStatus', () => {
+    it('should accept logs without a status as taken', () => {
+      expect(validateMedicationLogStatus({})).toBeNull();
+    });
+
+    it('should accept not-taken statuses with a reason code', () => {
+      expect(validateMedicationLogStatus({ status: 'skipped', reasonCode: 'nausea' })).toBeNull();
+      expect(validateMedicationLogStatus({ status: 'held', reasonCode: 'doctor_instruction' })).toBeNull();
+    });
+
+    it('should require a reason code when the dose was not taken', () => {
+      expect(validateMedicationLogStatus({ status: 'refused' })).toBe('reasonCode is required when status is refused');
+    });
+
+    it('should reject unknown statuses and reason codes', () => {
+      expect(validateMedicationLogStatus({ status: 'forgotten' })).toMatch(/^status must be one of/);
+      expect(validateMedicationLogStatus({ status: 'skipped', reasonCode: 'bored' })).toMatch(/^reasonCode must be one of/);
+    });
+
+    it('should only accept an amount for partial doses', () => {
+      expect(validateMedicationLogStatus({ status: 'partial', amount: 'half a tablet' })).toBeNull();
+      expect(validateMedicationLogStatus({ status: 'taken', amount: '5mg' })).toBe('amount can only be recorded for partial doses');
+      expect(validateMedicationLogStatus({ status: 'partial', amount: ' ' })).toBe('amount must be a non-empty string');
+    });
+  });
+
+  describe('isDoseTaken', () => {
+    it('should count full and partial doses, including logs from before statuses existed', () => {
+      expect(isDoseTaken({ status: 'partial' })).toBe(true);
+      expect(isDoseTaken({} as any)).toBe(true);
+      expect(getLogStatus({} as any)).toBe('taken');
+      expect(isDoseTaken({ status: 'skipped' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const secretTokens_1 = require("../secretTokens");
+describe('secret token utils', () => {
+    describe('generateSecretToken', () => {
+        it('should create a different URL-safe token each time', () => {
+            const first = (0, secretTokens_1.generateSecretToken)();
+            const second = (0, secretTokens_1.generateSecretToken)();
+            expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+            expect(second).not.toBe(first);
+        });
+    });
+    describe('hashSecretToken', () => {
+        it('should hash the same token the same way', () => {
+            const token = (0, secretTokens_1.generateSecretToken)();
+            expect((0, secretTokens_1.hashSecretToken)(token)).toBe((0, secretTokens_1.hashSecretToken)(token));
+            expect((0, secretTokens_1.hashSecretToken)(token)).toMatch(/^[0-9a-f]{64}$/);
+            expect((0, secretTokens_1.hashSecretToken)(token)).not.toContain(token);
+        });
+        it('should hash different tokens differently', () => {
+            expect((0, secretTokens_1.hashSecretToken)('abc')).not.toBe((0, secretTokens_1.hashSecretToken)('abd'));
+        });
+    });
+});
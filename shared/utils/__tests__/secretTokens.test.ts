@@ -0,0 +1,27 @@
+import { generateSecretToken, hashSecretToken } from '../secretTokens';
+
+describe('secret token utils', () => {
+  describe('generateSecretToken', () => {
+    it('should create a different URL-safe token each time', () => {
+      const first = generateSecretToken();
+      const second = generateSecretToken();
+
+      expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(second).not.toBe(first);
+    });
+  });
+
+  describe('hashSecretToken', () => {
+    it('should hash the same token the same way', () => {
+      const token = generateSecretToken();
+
+      expect(hashSecretToken(token)).toBe(hashSecretToken(token));
+      expect(hashSecretToken(token)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashSecretToken(token)).not.toContain(token);
+    });
+
+    it('should hash different tokens differently', () => {
+      expect(hashSecretToken('abc')).not.toBe(hashSecretToken('abd'));
+    });
+  });
+});
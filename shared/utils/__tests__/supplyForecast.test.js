@@ -0,0 +1,92 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const supplyForecast_1 = require("../supplyForecast");
+describe('supply forecast utils', () => {
+    describe('getUnitsUsed', () => {
+        const medication = { dosage: '500mg', unitsPerDose: 2 };
+        it('should use unitsPerDose for each dose taken', () => {
+            expect((0, supplyForecast_1.getUnitsUsed)(medication, { status: 'taken' })).toBe(2);
+            expect((0, supplyForecast_1.getUnitsUsed)({ dosage: '500mg' }, {})).toBe(1);
+        });
+        it('should not use any supply for doses that were not taken', () => {
+            expect((0, supplyForecast_1.getUnitsUsed)(medication, { status: 'skipped' })).toBe(0);
+            expect((0, supplyForecast_1.getUnitsUsed)(medication, { status: 'held' })).toBe(0);
+        });
+        it('should use a share of the dose for partial doses it can read', () => {
+            expect((0, supplyForecast_1.getUnitsUsed)(medication, { status: 'partial', amount: '250mg' })).toBe(1);
+            expect((0, supplyForecast_1.getUnitsUsed)(medication, { status: 'partial', amount: 'half' })).toBe(2);
+        });
+    });
+    describe('projectSupply', () => {
+        const now = new Date('2024-01-01T00:00:00Z');
+        const daily = (days) => Array.from({ length: days }, (_, i) => new Date(Date.UTC(2024, 0, 1 + i, 8)));
+        it('should run out at the first scheduled dose that cannot be covered', () => {
+            const forecast = (0, supplyForecast_1.projectSupply)({
+                onHand: 5,
+                unitsPerDose: 1,
+                upcomingDoses: daily(30),
+                horizonDays: 30,
+                recentDailyUsage: 0,
+                now,
+            });
+            expect(forecast).toEqual({
+                dailyUsage: 1,
+                basis: 'schedule',
+                runOutDate: new Date('2024-01-06T08:00:00Z'),
+                daysRemaining: 5,
+            });
+        });
+        it('should not run out within the horizon when supply outlasts it', () => {
+            const forecast = (0, supplyForecast_1.projectSupply)({
+                onHand: 60,
+                unitsPerDose: 1,
+                upcomingDoses: daily(30),
+                horizonDays: 30,
+                recentDailyUsage: 0,
+                now,
+            });
+            expect(forecast.runOutDate).toBeNull();
+            expect(forecast.daysRemaining).toBeNull();
+        });
+        it('should fall back to recent use without scheduled doses', () => {
+            const forecast = (0, supplyForecast_1.projectSupply)({
+                onHand: 10,
+                unitsPerDose: 1,
+                upcomingDoses: [],
+                horizonDays: 30,
+                recentDailyUsage: 2,
+                now,
+            });
+            expect(forecast).toEqual({
+                dailyUsage: 2,
+                basis: 'recent_use',
+                runOutDate: new Date('2024-01-06T00:00:00Z'),
+                daysRemaining: 5,
+            });
+            expect((0, supplyForecast_1.projectSupply)({ onHand: 10, unitsPerDose: 1, upcomingDoses: [], horizonDays: 30, recentDailyUsage: 0, now }).runOutDate).toBeNull();
+        });
+    });
+    describe('validateRefill', () => {
+        const now = new Date('2024-02-01T00:00:00Z');
+        it('should accept a positive quantity and a past fill date', () => {
+            expect((0, supplyForecast_1.validateRefill)({ quantityDispensed: 30 }, undefined, now)).toBeNull();
+            expect((0, supplyForecast_1.validateRefill)({ quantityDispensed: 30, fillDate: '2024-01-15' }, new Date('2024-01-01'), now)).toBeNull();
+        });
+        it('should reject bad quantities and fill dates', () => {
+            expect((0, supplyForecast_1.validateRefill)({ quantityDispensed: 0 }, undefined, now)).toMatch(/quantityDispensed/);
+            expect((0, supplyForecast_1.validateRefill)({ quantityDispensed: '30' }, undefined, now)).toMatch(/quantityDispensed/);
+            expect((0, supplyForecast_1.validateRefill)({ quantityDispensed: 30, fillDate: 'soon' }, undefined, now)).toMatch(/valid date/);
+            expect((0, supplyForecast_1.validateRefill)({ quantityDispensed: 30, fillDate: '2024-03-01' }, undefined, now)).toMatch(/future/);
+            expect((0, supplyForecast_1.validateRefill)({ quantityDispensed: 30, fillDate: '2023-12-01' }, new Date('2024-01-01'), now)).toMatch(/last fill/);
+        });
+    });
+    describe('validateSupplyFields', () => {
+        it('should check quantities and the fill date when present', () => {
+            expect((0, supplyForecast_1.validateSupplyFields)({})).toBeNull();
+            expect((0, supplyForecast_1.validateSupplyFields)({ quantityDispensed: 0, unitsPerDose: 0.5, lastFillDate: '2024-01-01' })).toBeNull();
+            expect((0, supplyForecast_1.validateSupplyFields)({ quantityDispensed: -1 })).toMatch(/quantityDispensed/);
+            expect((0, supplyForecast_1.validateSupplyFields)({ unitsPerDose: 0 })).toMatch(/unitsPerDose/);
+            expect((0, supplyForecast_1.validateSupplyFields)({ lastFillDate: 'yesterday' })).toMatch(/lastFillDate/);
+        });
+    });
+});
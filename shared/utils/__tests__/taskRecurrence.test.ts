@@ -0,0 +1,93 @@
+import { expandTaskRecurrence, validateTaskRecurrence, validateTaskSeries } from '../taskRecurrence';
+
+describe('task recurrence utils', () => {
+  describe('validateTaskRecurrence', () => {
+    it('should accept each kind of rule', () => {
+      expect(validateTaskRecurrence({ type: 'daily' })).toBeNull();
+      expect(validateTaskRecurrence({ type: 'weekly', days: ['monday', 'thursday'] })).toBeNull();
+      expect(validateTaskRecurrence({ type: 'every_n_days', intervalDays: 3 })).toBeNull();
+      expect(validateTaskRecurrence({ type: 'monthly', dayOfMonth: 31 })).toBeNull();
+    });
+
+    it('should reject incomplete rules', () => {
+      expect(validateTaskRecurrence(undefined)).toMatch(/must be an object/);
+      expect(validateTaskRecurrence({ type: 'yearly' })).toMatch(/type must be one of/);
+      expect(validateTaskRecurrence({ type: 'weekly', days: ['someday'] })).toMatch(/at least one valid day/);
+      expect(validateTaskRecurrence({ type: 'every_n_days', intervalDays: 0 })).toMatch(/intervalDays/);
+      expect(validateTaskRecurrence({ type: 'monthly', dayOfMonth: 32 })).toMatch(/dayOfMonth/);
+    });
+  });
+
+  describe('validateTaskSeries', () => {
+    const series = {
+      title: 'Refill pill organizer',
+      recurrence: { type: 'daily' },
+      time: '18:00',
+      startDate: '2024-03-01',
+    };
+
+    it('should require a title, rule, time and start date when creating', () => {
+      expect(validateTaskSeries(series, true)).toBeNull();
+      expect(validateTaskSeries({ ...series, time: '6pm' }, true)).toMatch(/HH:MM/);
+      expect(validateTaskSeries({ ...series, startDate: undefined }, true)).toMatch(/startDate/);
+      expect(validateTaskSeries({ ...series, endDate: '2024-02-01' }, true)).toMatch(/must not be before startDate/);
+    });
+
+    it('should only check the fields given when editing', () => {
+      expect(validateTaskSeries({ time: '19:30', endDate: null }, false)).toBeNull();
+      expect(validateTaskSeries({ recurrence: { type: 'weekly', days: [] } }, false)).toMatch(/at least one valid day/);
+      expect(validateTaskSeries({ priority: 'asap' }, false)).toMatch(/priority must be one of/);
+    });
+  });
+
+  describe('expandTaskRecurrence', () => {
+    const window = {
+      from: new Date('2024-03-01T00:00:00Z'),
+      to: new Date('2024-03-08T00:00:00Z'),
+      startDate: new Date('2024-03-01'),
+      time: '09:00',
+    };
+
+    it('should expand daily, weekly and every-N-days rules', () => {
+      expect(expandTaskRecurrence({ type: 'daily' }, window)).toHaveLength(7);
+      expect(expandTaskRecurrence({ type: 'weekly', days: ['monday', 'thursday'] }, window)).toEqual([
+        new Date('2024-03-04T09:00:00Z'),
+        new Date('2024-03-07T09:00:00Z'),
+      ]);
+      expect(expandTaskRecurrence({ type: 'every_n_days', intervalDays: 3 }, window)).toEqual([
+        new Date('2024-03-01T09:00:00Z'),
+        new Date('2024-03-04T09:00:00Z'),
+        new Date('2024-03-07T09:00:00Z'),
+      ]);
+    });
+
+    it('should fall on the last day of shorter months', () => {
+      const occurrences = expandTaskRecurrence({ type: 'monthly', dayOfMonth: 31 }, {
+        ...window,
+        from: new Date('2024-01-15T00:00:00Z'),
+        to: new Date('2024-05-01T00:00:00Z'),
+        startDate: new Date('2024-01-01'),
+      });
+
+      expect(occurrences).toEqual([
+        new Date('2024-01-31T09:00:00Z'),
+        new Date('2024-02-29T09:00:00Z'),
+        new Date('2024-03-31T09:00:00Z'),
+        new Date('2024-04-30T09:00:00Z'),
+      ]);
+    });
+
+    it('should use the time of day in the patient\'s timezone and stop after the end date', () => {
+      const occurrences = expandTaskRecurrence({ type: 'daily' }, {
+        ...window,
+        endDate: new Date('2024-03-02'),
+        timeZone: 'America/Chicago',
+      });
+
+      expect(occurrences).toEqual([
+        new Date('2024-03-01T15:00:00Z'),
+        new Date('2024-03-02T15:00:00Z'),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+const tasks_1 = require("../tasks");
+describe('task utils', () => {
+    describe('validateTask', () => {
+        const task = { title: 'Pick up prescription', dueDate: '2024-03-12T17:00:00Z' };
+        it('should require a title and due date when creating', () => {
+            expect((0, tasks_1.validateTask)(task, true)).toBeNull();
+            expect((0, tasks_1.validateTask)({ ...task, title: '  ' }, true)).toMatch(/title is required/);
+            expect((0, tasks_1.validateTask)({ title: 'Call pharmacy' }, true)).toMatch(/dueDate must be a valid date/);
+        });
+        it('should only check the fields given when updating', () => {
+            expect((0, tasks_1.validateTask)({ status: 'in_progress' }, false)).toBeNull();
+            expect((0, tasks_1.validateTask)({ assignedTo: null }, false)).toBeNull();
+            expect((0, tasks_1.validateTask)({ status: 'done' }, false)).toMatch(/status must be one of/);
+            expect((0, tasks_1.validateTask)({ priority: 'asap' }, false)).toMatch(/priority must be one of/);
+            expect((0, tasks_1.validateTask)({ dueDate: 'tomorrow' }, false)).toMatch(/dueDate/);
+            expect((0, tasks_1.validateTask)({ assignedTo: '' }, false)).toMatch(/assignedTo/);
+        });
+    });
+    describe('parseTaskFilters', () => {
+        it('should read assignee, status and a due date range', () => {
+            expect((0, tasks_1.parseTaskFilters)({ assignedTo: 'user-1', status: 'pending', dueFrom: '2024-03-01', dueTo: '2024-03-31' })).toEqual({
+                filters: {
+                    assignedTo: 'user-1',
+                    status: 'pending',
+                    dueFrom: new Date('2024-03-01'),
+                    dueTo: new Date('2024-03-31'),
+                },
+            });
+            expect((0, tasks_1.parseTaskFilters)({})).toEqual({ filters: {} });
+        });
+        it('should reject unknown statuses, bad dates and backwards ranges', () => {
+            expect((0, tasks_1.parseTaskFilters)({ status: 'done' }).error).toMatch(/status must be one of/);
+            expect((0, tasks_1.parseTaskFilters)({ dueTo: 'soon' }).error).toMatch(/dueTo must be a valid date/);
+            expect((0, tasks_1.parseTaskFilters)({ dueFrom: '2024-03-31', dueTo: '2024-03-01' }).error).toMatch(/must not be after/);
+        });
+    });
+});
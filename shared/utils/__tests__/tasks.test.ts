@@ -0,0 +1,42 @@
+import { parseTaskFilters, validateTask } from '../tasks';
+
+describe('task utils', () => {
+  describe('validateTask', () => {
+    const task = { title: 'Pick up prescription', dueDate: '2024-03-12T17:00:00Z' };
+
+    it('should require a title and due date when creating', () => {
+      expect(validateTask(task, true)).toBeNull();
+      expect(validateTask({ ...task, title: '  ' }, true)).toMatch(/title is required/);
+      expect(validateTask({ title: 'Call pharmacy' }, true)).toMatch(/dueDate must be a valid date/);
+    });
+
+    it('should only check the fields given when updating', () => {
+      expect(validateTask({ status: 'in_progress' }, false)).toBeNull();
+      expect(validateTask({ assignedTo: null }, false)).toBeNull();
+      expect(validateTask({ status: 'done' }, false)).toMatch(/status must be one of/);
+      expect(validateTask({ priority: 'asap' }, false)).toMatch(/priority must be one of/);
+      expect(validateTask({ dueDate: 'tomorrow' }, false)).toMatch(/dueDate/);
+      expect(validateTask({ assignedTo: '' }, false)).toMatch(/assignedTo/);
+    });
+  });
+
+  describe('parseTaskFilters', () => {
+    it('should read assignee, status and a due date range', () => {
+      expect(parseTaskFilters({ assignedTo: 'user-1', status: 'pending', dueFrom: '2024-03-01', dueTo: '2024-03-31' })).toEqual({
+        filters: {
+          assignedTo: 'user-1',
+          status: 'pending',
+          dueFrom: new Date('2024-03-01'),
+          dueTo: new Date('2024-03-31'),
+        },
+      });
+      expect(parseTaskFilters({})).toEqual({ filters: {} });
+    });
+
+    it('should reject unknown statuses, bad dates and backwards ranges', () => {
+      expect(parseTaskFilters({ status: 'done' }).error).toMatch(/status must be one of/);
+      expect(parseTaskFilters({ dueTo: 'soon' }).error).toMatch(/dueTo must be a valid date/);
+      expect(parseTaskFilters({ dueFrom: '2024-03-31', dueTo: '2024-03-01' }).error).toMatch(/must not be after/);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  formatDateInZone,
+  formatTimeInZone,
+  getTimeZoneTransitions,
+  getZonedDateParts,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from '../timezone';
+import { expandDosingSchedule, getNextReminderTime } from '../dosingSchedule';
+
+describe('timezone utils', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA timezone names', () => {
+      expect(isValidTimeZone('America/Chicago')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+    });
+
+    it('should reject unknown or non-string values', () => {
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(isValidTimeZone('')).toBe(false);
+      expect(isValidTimeZone(undefined)).toBe(false);
+    });
+  });
+
+  describe('getZonedDateParts', () => {
+    it('should return the wall-clock date and time in the zone', () => {
+      // 03:30 UTC on Jan 2 is still Jan 1 in Los Angeles
+      expect(getZonedDateParts(new Date('2024-01-02T03:30:00Z'), 'America/Los_Angeles')).toEqual({
+        year: 2024,
+        month: 1,
+        day: 1,
+        hours: 19,
+        minutes: 30,
+        weekday: 1,
+      });
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should apply standard and daylight offsets', () => {
+      expect(zonedTimeToUtc(2024, 1, 15, '08:00', 'America/New_York').toISOString()).toBe('2024-01-15T13:00:00.000Z');
+      expect(zonedTimeToUtc(2024, 7, 15, '08:00', 'America/New_York').toISOString()).toBe('2024-07-15T12:00:00.000Z');
+    });
+
+    it('should move times skipped by spring-forward past the change', () => {
+      // Clocks jump from 02:00 to 03:00 on 2024-03-10
+      expect(zonedTimeToUtc(2024, 3, 10, '02:30', 'America/New_York').toISOString()).toBe('2024-03-10T07:30:00.000Z');
+      expect(formatTimeInZone(new Date('2024-03-10T07:30:00Z'), 'America/New_York')).toBe('03:30');
+    });
+
+    it('should use the first occurrence of times repeated by fall-back', () => {
+      // 01:30 happens twice on 2024-11-03: first in EDT (UTC-4), then in EST (UTC-5)
+      expect(zonedTimeToUtc(2024, 11, 3, '01:30', 'America/New_York').toISOString()).toBe('2024-11-03T05:30:00.000Z');
+      expect(zonedTimeToUtc(2024, 10, 27, '01:30', 'Europe/London').toISOString()).toBe('2024-10-27T00:30:00.000Z');
+    });
+  });
+
+  describe('getTimeZoneTransitions', () => {
+    it('should find each DST change to the minute', () => {
+      expect(getTimeZoneTransitions('America/Chicago', 2024)).toEqual([
+        { at: new Date('2024-03-10T08:00:00Z'), offsetFromMinutes: -360, offsetToMinutes: -300 },
+        { at: new Date('2024-11-03T07:00:00Z'), offsetFromMinutes: -300, offsetToMinutes: -360 },
+      ]);
+    });
+
+    it('should find none for zones without DST', () => {
+      expect(getTimeZoneTransitions('Asia/Kolkata', 2024)).toEqual([]);
+    });
+  });
+
+  describe('formatDateInZone', () => {
+    it('should format the local calendar date', () => {
+      expect(formatDateInZone(new Date('2024-01-02T03:30:00Z'), 'America/Los_Angeles')).toBe('2024-01-01');
+      expect(formatDateInZone(new Date('2024-01-02T03:30:00Z'), 'UTC')).toBe('2024-01-02');
+    });
+  });
+
+  describe('dose times across DST', () => {
+    it('should keep fixed times at the same local time across a DST change', () => {
+      const doses = expandDosingSchedule(
+        { type: 'fixed_times', times: ['08:00'] },
+        {
+          from: new Date('2024-03-09T00:00:00Z'),
+          to: new Date('2024-03-12T00:00:00Z'),
+          timeZone: 'America/Chicago',
+        }
+      );
+
+      expect(doses.map(d => d.toISOString())).toEqual([
+        '2024-03-09T14:00:00.000Z', // CST
+        '2024-03-10T13:00:00.000Z', // CDT from here on
+        '2024-03-11T13:00:00.000Z',
+      ]);
+    });
+
+    it('should use the local day for weekly schedules', () => {
+      // Monday 20:00 in Los Angeles is Tuesday 04:00 UTC
+      const doses = expandDosingSchedule(
+        { type: 'weekly', days: ['monday'], times: ['20:00'] },
+        {
+          from: new Date('2024-01-01T00:00:00Z'),
+          to: new Date('2024-01-08T00:00:00Z'),
+          timeZone: 'America/Los_Angeles',
+        }
+      );
+
+      expect(doses.map(d => d.toISOString())).toEqual(['2024-01-02T04:00:00.000Z']);
+    });
+
+    it('should find the next reminder time in the patient\'s zone', () => {
+      const next = getNextReminderTime(
+        { reminderTime: '07:00', days: ['sunday', 'monday'] },
+        new Date('2024-03-09T20:00:00Z'), // Saturday
+        'America/New_York'
+      );
+
+      // Sunday 07:00, after clocks sprang forward overnight
+      expect(next?.toISOString()).toBe('2024-03-10T11:00:00.000Z');
+    });
+
+    it('should return null for reminders with no days selected', () => {
+      expect(getNextReminderTime({ reminderTime: '07:00', days: [] }, new Date(), 'UTC')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.isGrantActive = exports.validateJustification = exports.validateAccessGrant = exports.MIN_JUSTIFICATION_LENGTH = exports.EMERGENCY_PERMISSIONS = exports.MAX_GRANT_DAYS = void 0;
+const familyPermissions_1 = require("./familyPermissions");
+// Grants are for a visit or a short stay, not standing access; that's what
+// family membership is for
+exports.MAX_GRANT_DAYS = 30;
+// What emergency access can see: enough to treat the patient, nothing to change
+// (so no edit_* permissions)
+exports.EMERGENCY_PERMISSIONS = ['view_profile', 'view_medications', 'view_appointments'];
+exports.MIN_JUSTIFICATION_LENGTH = 10;
+// Only the patient's data can be shared; running the family group can't
+const NON_GRANTABLE_PERMISSIONS = ['manage_members'];
+/**
+ * Checks a request to give someone temporary access to a patient.
+ * @param grant - The request body
+ * @param patientId - The patient's user uid
+ * @param now - Current time
+ * @returns An error message, or null if valid
+ */
+const validateAccessGrant = (grant, patientId, now) => {
+    if (typeof grant.granteeId !== 'string' || !grant.granteeId) {
+        return 'granteeId is required';
+    }
+    if (grant.granteeId === patientId) {
+        return 'A patient already has access to their own data';
+    }
+    const permissionsError = (0, familyPermissions_1.validatePermissions)(grant.permissions);
+    if (permissionsError) {
+        return permissionsError;
+    }
+    const permissions = grant.permissions;
+    if (permissions.length === 0) {
+        return 'permissions must include at least one permission';
+    }
+    const notGrantable = permissions.find(permission => NON_GRANTABLE_PERMISSIONS.includes(permission));
+    if (notGrantable) {
+        return `${notGrantable} can't be granted temporarily`;
+    }
+    const expiresAt = new Date(grant.expiresAt);
+    if (grant.expiresAt === undefined || isNaN(expiresAt.getTime())) {
+        return 'expiresAt must be a valid date';
+    }
+    if (expiresAt <= now) {
+        return 'expiresAt must be in the future';
+    }
+    if (expiresAt.getTime() - now.getTime() > exports.MAX_GRANT_DAYS * 24 * 60 * 60 * 1000) {
+        return `Access can be granted for at most ${exports.MAX_GRANT_DAYS} days`;
+    }
+    if (grant.reason !== undefined && typeof grant.reason !== 'string') {
+        return 'reason must be a string';
+    }
+    return null;
+};
+exports.validateAccessGrant = validateAccessGrant;
+/**
+ * Checks the justification given for emergency access.
+ * @param justification - The request body's justification
+ * @returns An error message, or null if valid
+ */
+const validateJustification = (justification) => {
+    if (typeof justification !== 'string' || justification.trim().length < exports.MIN_JUSTIFICATION_LENGTH) {
+        return `A justification of at least ${exports.MIN_JUSTIFICATION_LENGTH} characters is required for emergency access`;
+    }
+    return null;
+};
+exports.validateJustification = validateJustification;
+/**
+ * Whether a grant is in force: not revoked and not yet expired.
+ * @param grant - The grant
+ * @param now - Current time
+ */
+const isGrantActive = (grant, now) => !grant.revokedAt && new Date(grant.expiresAt) > now;
+exports.isGrantActive = isGrantActive;
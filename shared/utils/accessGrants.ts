@@ -0,0 +1,91 @@
+import type { AccessGrant, FamilyPermission } from '../types';
+import { validatePermissions } from './familyPermissions';
+
+// Grants are for a visit or a short stay, not standing access; that's what
+// family membership is for
+export const MAX_GRANT_DAYS = 30;
+
+// What emergency access can see: enough to treat the patient, nothing to change
+// (so no edit_* permissions)
+export const EMERGENCY_PERMISSIONS: FamilyPermission[] = ['view_profile', 'view_medications', 'view_appointments'];
+
+export const MIN_JUSTIFICATION_LENGTH = 10;
+
+// Only the patient's data can be shared; running the family group can't
+const NON_GRANTABLE_PERMISSIONS: FamilyPermission[] = ['manage_members'];
+
+/**
+ * Checks a request to give someone temporary access to a patient.
+ * @param grant - The request body
+ * @param patientId - The patient's user uid
+ * @param now - Current time
+ * @returns An error message, or null if valid
+ */
+export const validateAccessGrant = (
+  grant: { granteeId?: unknown; permissions?: unknown; expiresAt?: unknown; reason?: unknown },
+  patientId: string,
+  now: Date
+): string | null => {
+  if (typeof grant.granteeId !== 'string' || !grant.granteeId) {
+    return 'granteeId is required';
+  }
+
+  if (grant.granteeId === patientId) {
+    return 'A patient already has access to their own data';
+  }
+
+  const permissionsError = validatePermissions(grant.permissions);
+  if (permissionsError) {
+    return permissionsError;
+  }
+
+  const permissions = grant.permissions as FamilyPermission[];
+  if (permissions.length === 0) {
+    return 'permissions must include at least one permission';
+  }
+
+  const notGrantable = permissions.find(permission => NON_GRANTABLE_PERMISSIONS.includes(permission));
+  if (notGrantable) {
+    return `${notGrantable} can't be granted temporarily`;
+  }
+
+  const expiresAt = new Date(grant.expiresAt as string);
+  if (grant.expiresAt === undefined || isNaN(expiresAt.getTime())) {
+    return 'expiresAt must be a valid date';
+  }
+
+  if (expiresAt <= now) {
+    return 'expiresAt must be in the future';
+  }
+
+  if (expiresAt.getTime() - now.getTime() > MAX_GRANT_DAYS * 24 * 60 * 60 * 1000) {
+    return `Access can be granted for at most ${MAX_GRANT_DAYS} days`;
+  }
+
+  if (grant.reason !== undefined && typeof grant.reason !== 'string') {
+    return 'reason must be a string';
+  }
+
+  return null;
+};
+
+/**
+ * Checks the justification given for emergency access.
+ * @param justification - The request body's justification
+ * @returns An error message, or null if valid
+ */
+export const validateJustification = (justification: unknown): string | null => {
+  if (typeof justification !== 'string' || justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+    return `A justification of at least ${MIN_JUSTIFICATION_LENGTH} characters is required for emergency access`;
+  }
+
+  return null;
+};
+
+/**
+ * Whether a grant is in force: not revoked and not yet expired.
+ * @param grant - The grant
+ * @param now - Current time
+ */
+export const isGrantActive = (grant: Pick<AccessGrant, 'expiresAt' | 'revokedAt'>, now: Date): boolean =>
+  !grant.revokedAt && new Date(grant.expiresAt) > now;
@@ -0,0 +1,104 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.validateReminderSettings = exports.parseAppointmentRange = exports.validateAppointment = exports.isAppointmentOpen = exports.canTransitionAppointment = exports.MAX_REMINDER_OFFSET_MINUTES = exports.MIN_REMINDER_OFFSET_MINUTES = exports.APPOINTMENT_STATUSES = void 0;
+exports.APPOINTMENT_STATUSES = ['scheduled', 'confirmed', 'completed', 'cancelled'];
+// Completed and cancelled appointments are final
+const APPOINTMENT_TRANSITIONS = {
+    scheduled: ['confirmed', 'cancelled'],
+    confirmed: ['completed', 'cancelled'],
+    completed: [],
+    cancelled: [],
+};
+const MAX_TITLE_LENGTH = 200;
+const MAX_DURATION_MINUTES = 24 * 60;
+// Reminders go out 15 minutes to 7 days before, at most 5 per appointment
+exports.MIN_REMINDER_OFFSET_MINUTES = 15;
+exports.MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+const MAX_REMINDERS = 5;
+const isValidDate = (value) => (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+/**
+ * Whether an appointment can move from one status to another.
+ * @param from - The appointment's current status
+ * @param to - The requested status
+ */
+const canTransitionAppointment = (from, to) => APPOINTMENT_TRANSITIONS[from]?.includes(to) ?? false;
+exports.canTransitionAppointment = canTransitionAppointment;
+/**
+ * Whether an appointment's details can still be edited.
+ * @param status - The appointment's current status
+ */
+const isAppointmentOpen = (status) => APPOINTMENT_TRANSITIONS[status].length > 0;
+exports.isAppointmentOpen = isAppointmentOpen;
+/**
+ * Checks the fields of an appointment being created or updated. Only the
+ * fields present are checked unless `requireAll` is set.
+ * @param appointment - The request body
+ * @param requireAll - Whether title and dateTime must be given, as when creating
+ * @returns An error message, or null if valid
+ */
+const validateAppointment = (appointment, requireAll) => {
+    if (appointment.title !== undefined || requireAll) {
+        if (typeof appointment.title !== 'string' || !appointment.title.trim()) {
+            return 'title is required';
+        }
+        if (appointment.title.length > MAX_TITLE_LENGTH) {
+            return `title must be at most ${MAX_TITLE_LENGTH} characters`;
+        }
+    }
+    if ((appointment.dateTime !== undefined || requireAll) && !isValidDate(appointment.dateTime)) {
+        return 'dateTime must be a valid date';
+    }
+    if (appointment.duration !== undefined &&
+        (!Number.isInteger(appointment.duration) || appointment.duration < 1 || appointment.duration > MAX_DURATION_MINUTES)) {
+        return `duration must be a whole number of minutes between 1 and ${MAX_DURATION_MINUTES}`;
+    }
+    for (const field of ['description', 'location', 'provider', 'notes']) {
+        if (appointment[field] !== undefined && typeof appointment[field] !== 'string') {
+            return `${field} must be a string`;
+        }
+    }
+    return null;
+};
+exports.validateAppointment = validateAppointment;
+/**
+ * Reads an appointment date range from a query string.
+ * @param query - The request query
+ * @returns The range, or an error message
+ */
+const parseAppointmentRange = (query) => {
+    const range = {};
+    for (const field of ['from', 'to']) {
+        if (query[field] !== undefined) {
+            if (!isValidDate(query[field])) {
+                return { error: `${field} must be a valid date` };
+            }
+            range[field] = new Date(query[field]);
+        }
+    }
+    if (range.from && range.to && range.from > range.to) {
+        return { error: 'from must not be after to' };
+    }
+    return { range };
+};
+exports.parseAppointmentRange = parseAppointmentRange;
+/**
+ * Checks a change to a patient's appointment reminder settings.
+ * @param settings - The request body
+ * @returns An error message, or null if valid
+ */
+const validateReminderSettings = (settings) => {
+    if (settings.offsetsMinutes !== undefined) {
+        const offsets = settings.offsetsMinutes;
+        if (!Array.isArray(offsets) || offsets.length > MAX_REMINDERS) {
+            return `offsetsMinutes must be a list of at most ${MAX_REMINDERS} reminder times`;
+        }
+        if (!offsets.every(offset => Number.isInteger(offset) && offset >= exports.MIN_REMINDER_OFFSET_MINUTES && offset <= exports.MAX_REMINDER_OFFSET_MINUTES)) {
+            return `offsetsMinutes must be whole numbers of minutes between ${exports.MIN_REMINDER_OFFSET_MINUTES} and ${exports.MAX_REMINDER_OFFSET_MINUTES}`;
+        }
+    }
+    if (settings.notifyPatient !== undefined && typeof settings.notifyPatient !== 'boolean') {
+        return 'notifyPatient must be true or false';
+    }
+    return null;
+};
+exports.validateReminderSettings = validateReminderSettings;
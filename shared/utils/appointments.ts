@@ -0,0 +1,135 @@
+import type { AppointmentStatus } from '../types';
+
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = ['scheduled', 'confirmed', 'completed', 'cancelled'];
+
+// Completed and cancelled appointments are final
+const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  scheduled: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DURATION_MINUTES = 24 * 60;
+
+// Reminders go out 15 minutes to 7 days before, at most 5 per appointment
+export const MIN_REMINDER_OFFSET_MINUTES = 15;
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+const MAX_REMINDERS = 5;
+
+const isValidDate = (value: unknown): boolean =>
+  (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+
+/**
+ * Whether an appointment can move from one status to another.
+ * @param from - The appointment's current status
+ * @param to - The requested status
+ */
+export const canTransitionAppointment = (from: AppointmentStatus, to: AppointmentStatus): boolean =>
+  APPOINTMENT_TRANSITIONS[from]?.includes(to) ?? false;
+
+/**
+ * Whether an appointment's details can still be edited.
+ * @param status - The appointment's current status
+ */
+export const isAppointmentOpen = (status: AppointmentStatus): boolean =>
+  APPOINTMENT_TRANSITIONS[status].length > 0;
+
+/**
+ * Checks the fields of an appointment being created or updated. Only the
+ * fields present are checked unless `requireAll` is set.
+ * @param appointment - The request body
+ * @param requireAll - Whether title and dateTime must be given, as when creating
+ * @returns An error message, or null if valid
+ */
+export const validateAppointment = (
+  appointment: {
+    title?: unknown;
+    description?: unknown;
+    dateTime?: unknown;
+    duration?: unknown;
+    location?: unknown;
+    provider?: unknown;
+    notes?: unknown;
+  },
+  requireAll: boolean
+): string | null => {
+  if (appointment.title !== undefined || requireAll) {
+    if (typeof appointment.title !== 'string' || !appointment.title.trim()) {
+      return 'title is required';
+    }
+    if (appointment.title.length > MAX_TITLE_LENGTH) {
+      return `title must be at most ${MAX_TITLE_LENGTH} characters`;
+    }
+  }
+
+  if ((appointment.dateTime !== undefined || requireAll) && !isValidDate(appointment.dateTime)) {
+    return 'dateTime must be a valid date';
+  }
+
+  if (appointment.duration !== undefined &&
+      (!Number.isInteger(appointment.duration) || (appointment.duration as number) < 1 || (appointment.duration as number) > MAX_DURATION_MINUTES)) {
+    return `duration must be a whole number of minutes between 1 and ${MAX_DURATION_MINUTES}`;
+  }
+
+  for (const field of ['description', 'location', 'provider', 'notes'] as const) {
+    if (appointment[field] !== undefined && typeof appointment[field] !== 'string') {
+      return `${field} must be a string`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Reads an appointment date range from a query string.
+ * @param query - The request query
+ * @returns The range, or an error message
+ */
+export const parseAppointmentRange = (
+  query: { from?: unknown; to?: unknown }
+): { range?: { from?: Date; to?: Date }; error?: string } => {
+  const range: { from?: Date; to?: Date } = {};
+
+  for (const field of ['from', 'to'] as const) {
+    if (query[field] !== undefined) {
+      if (!isValidDate(query[field])) {
+        return { error: `${field} must be a valid date` };
+      }
+      range[field] = new Date(query[field] as string);
+    }
+  }
+
+  if (range.from && range.to && range.from > range.to) {
+    return { error: 'from must not be after to' };
+  }
+
+  return { range };
+};
+
+/**
+ * Checks a change to a patient's appointment reminder settings.
+ * @param settings - The request body
+ * @returns An error message, or null if valid
+ */
+export const validateReminderSettings = (
+  settings: { offsetsMinutes?: unknown; notifyPatient?: unknown }
+): string | null => {
+  if (settings.offsetsMinutes !== undefined) {
+    const offsets = settings.offsetsMinutes;
+    if (!Array.isArray(offsets) || offsets.length > MAX_REMINDERS) {
+      return `offsetsMinutes must be a list of at most ${MAX_REMINDERS} reminder times`;
+    }
+    if (!offsets.every(offset =>
+      Number.isInteger(offset) && offset >= MIN_REMINDER_OFFSET_MINUTES && offset <= MAX_REMINDER_OFFSET_MINUTES)) {
+      return `offsetsMinutes must be whole numbers of minutes between ${MIN_REMINDER_OFFSET_MINUTES} and ${MAX_REMINDER_OFFSET_MINUTES}`;
+    }
+  }
+
+  if (settings.notifyPatient !== undefined && typeof settings.notifyPatient !== 'boolean') {
+    return 'notifyPatient must be true or false';
+  }
+
+  return null;
+};
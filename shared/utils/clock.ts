@@ -0,0 +1,11 @@
+/**
+ * Source of the current time. Scheduled jobs take a clock instead of calling
+ * `new Date()` directly so tests can run them at a fixed instant.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
@@ -0,0 +1,112 @@
+import type { DailyDoseCheck, DoseQuantity, DoseUnit, Medication, MedicationLogStatus } from '../types';
+import { isDoseTaken } from './medicationLog';
+
+// Unit words and how much of the base unit each is worth
+const UNITS: Record<string, { unit: DoseUnit; factor: number }> = {
+  mcg: { unit: 'mg', factor: 0.001 },
+  ug: { unit: 'mg', factor: 0.001 },
+  'µg': { unit: 'mg', factor: 0.001 },
+  mg: { unit: 'mg', factor: 1 },
+  g: { unit: 'mg', factor: 1000 },
+  gram: { unit: 'mg', factor: 1000 },
+  ml: { unit: 'ml', factor: 1 },
+  l: { unit: 'ml', factor: 1000 },
+  unit: { unit: 'unit', factor: 1 },
+  iu: { unit: 'unit', factor: 1 },
+  tablet: { unit: 'count', factor: 1 },
+  tab: { unit: 'count', factor: 1 },
+  capsule: { unit: 'count', factor: 1 },
+  cap: { unit: 'count', factor: 1 },
+  pill: { unit: 'count', factor: 1 },
+  dose: { unit: 'count', factor: 1 },
+  time: { unit: 'count', factor: 1 },
+  puff: { unit: 'count', factor: 1 },
+  spray: { unit: 'count', factor: 1 },
+  drop: { unit: 'count', factor: 1 },
+  patch: { unit: 'count', factor: 1 },
+};
+
+type LoggedDose = { status?: MedicationLogStatus; amount?: string };
+
+const QUANTITY_PATTERN = /(\d+(?:\.\d+)?)\s*([a-zµ]+)?/i;
+
+/**
+ * Reads the first quantity out of free text such as "500mg", "4 tablets per day"
+ * or "20 mL". Masses are converted to mg; a bare number is a count of doses.
+ * @param text - Dosage or maximum daily dose as entered
+ * @returns The quantity, or null if there is no number or the unit is unknown
+ */
+export const parseDoseQuantity = (text?: string | null): DoseQuantity | null => {
+  const match = text ? QUANTITY_PATTERN.exec(text) : null;
+  if (!match) {
+    return null;
+  }
+
+  const value = Number(match[1]);
+  const word = match[2]?.toLowerCase();
+  if (!word) {
+    return { value, unit: 'count' };
+  }
+
+  // Accept plurals: "tablets", "doses", "patches", "grams"
+  const singular = [word, word.replace(/es$/, ''), word.replace(/s$/, '')].find(candidate => UNITS[candidate]);
+  if (!singular) {
+    return null;
+  }
+
+  const { unit, factor } = UNITS[singular];
+  return { value: value * factor, unit };
+};
+
+/**
+ * Works out whether one more dose would go over a medication's maximum daily dose.
+ * A limit given as a count ("4 tablets") counts each dose as one, or as the number
+ * in the dosage when that is also a count ("2 tablets"). A limit given as an amount
+ * ("4000mg") needs a dosage in the same kind of unit. Partial doses count their
+ * recorded amount where it can be read.
+ * @param medication - The medication's dosage and maxDailyDose
+ * @param recentLogs - Logs from the 24 hours up to the new dose
+ * @param newLog - The dose about to be logged
+ * @returns The check, or null when there is no limit or it can't be applied
+ */
+export const checkDailyDoseLimit = (
+  medication: Pick<Medication, 'dosage' | 'maxDailyDose'>,
+  recentLogs: LoggedDose[],
+  newLog: LoggedDose
+): DailyDoseCheck | null => {
+  const limit = parseDoseQuantity(medication.maxDailyDose);
+  if (!limit || limit.value <= 0) {
+    return null;
+  }
+
+  const dosage = parseDoseQuantity(medication.dosage);
+  let perDose: number;
+  if (dosage && dosage.unit === limit.unit) {
+    perDose = dosage.value;
+  } else if (limit.unit === 'count') {
+    perDose = 1;
+  } else {
+    return null;
+  }
+
+  const amountOf = (log: LoggedDose): number => {
+    if (log.status === 'partial') {
+      const amount = parseDoseQuantity(log.amount);
+      if (amount && amount.unit === limit.unit) {
+        return amount.value;
+      }
+    }
+    return perDose;
+  };
+
+  const taken = recentLogs.filter(isDoseTaken).reduce((total, log) => total + amountOf(log), 0);
+  const requested = amountOf(newLog);
+
+  return {
+    limit: limit.value,
+    unit: limit.unit,
+    taken,
+    requested,
+    exceeded: taken + requested > limit.value,
+  };
+};
@@ -0,0 +1,181 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.describeDosingSchedule = exports.getNextReminderTime = exports.expandDosingSchedule = exports.validateDosingSchedule = exports.DAYS_OF_WEEK = exports.TIME_PATTERN = void 0;
+const timezone_1 = require("./timezone");
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+exports.TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+// Interval schedules are whole minutes, at least 15 apart, so expanding a window stays cheap
+const MIN_INTERVAL_MINUTES = 15;
+const MAX_INTERVAL_HOURS = 168;
+// Indexed to match Date.prototype.getUTCDay()
+exports.DAYS_OF_WEEK = [
+    'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+// Calendar days are keyed by the UTC midnight of that date, so day arithmetic
+// and weekday lookups stay in whole days regardless of DST
+const startOfUtcDay = (date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+const calendarDayInZone = (instant, timeZone) => {
+    const { year, month, day } = (0, timezone_1.getZonedDateParts)(new Date(instant), timeZone);
+    return Date.UTC(year, month - 1, day);
+};
+const timeOnDay = (day, time, timeZone) => {
+    const date = new Date(day);
+    return (0, timezone_1.zonedTimeToUtc)(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), time, timeZone).getTime();
+};
+// Whole minutes, allowing for float error (1.1 hours is 66.00000000000001 minutes)
+const isValidIntervalHours = (hours) => {
+    if (typeof hours !== 'number') {
+        return false;
+    }
+    const minutes = hours * 60;
+    return Math.abs(minutes - Math.round(minutes)) < 1e-9 && minutes >= MIN_INTERVAL_MINUTES && hours <= MAX_INTERVAL_HOURS;
+};
+/**
+ * Validates a dosing schedule received from a client.
+ * @param schedule - The candidate schedule
+ * @returns An error message, or null when the schedule is valid
+ */
+const validateDosingSchedule = (schedule) => {
+    if (!schedule || typeof schedule !== 'object') {
+        return 'Schedule must be an object';
+    }
+    const validateTimes = (times) => {
+        if (!Array.isArray(times) || times.length === 0) {
+            return 'Schedule times must be a non-empty array';
+        }
+        if (!times.every((time) => typeof time === 'string' && exports.TIME_PATTERN.test(time))) {
+            return 'Schedule times must use HH:MM format';
+        }
+        return null;
+    };
+    switch (schedule.type) {
+        case 'prn':
+            return null;
+        case 'fixed_times':
+            return validateTimes(schedule.times);
+        case 'interval':
+            if (!isValidIntervalHours(schedule.intervalHours)) {
+                return `intervalHours must be a whole number of minutes between ${MIN_INTERVAL_MINUTES / 60} and ${MAX_INTERVAL_HOURS} hours`;
+            }
+            if (typeof schedule.firstDoseTime !== 'string' || !exports.TIME_PATTERN.test(schedule.firstDoseTime)) {
+                return 'firstDoseTime must use HH:MM format';
+            }
+            return null;
+        case 'weekly':
+            if (!Array.isArray(schedule.days) || schedule.days.length === 0 ||
+                !schedule.days.every((day) => exports.DAYS_OF_WEEK.includes(day))) {
+                return 'Weekly schedules need at least one valid day';
+            }
+            return validateTimes(schedule.times);
+        case 'cyclic':
+            if (!Number.isInteger(schedule.daysOn) || schedule.daysOn < 1) {
+                return 'daysOn must be a positive integer';
+            }
+            if (!Number.isInteger(schedule.daysOff) || schedule.daysOff < 0) {
+                return 'daysOff must be a non-negative integer';
+            }
+            return validateTimes(schedule.times);
+        default:
+            return 'Unknown schedule type';
+    }
+};
+exports.validateDosingSchedule = validateDosingSchedule;
+/**
+ * Expands a dosing schedule into the concrete instants a dose is expected.
+ * Clock times are wall-clock times in the window's timezone, so a dose at
+ * 08:00 stays at 08:00 local time across DST changes. Interval schedules
+ * step in elapsed hours from the first dose.
+ * @param schedule - The medication's dosing schedule
+ * @param window - The range to expand ([from, to)) and the medication's active dates
+ * @returns Expected dose times in ascending order
+ */
+const expandDosingSchedule = (schedule, window) => {
+    if (schedule.type === 'prn') {
+        return [];
+    }
+    const timeZone = window.timeZone || timezone_1.DEFAULT_TIME_ZONE;
+    let lowerBound = window.from.getTime();
+    let upperBound = window.to.getTime();
+    if (window.startDate) {
+        lowerBound = Math.max(lowerBound, timeOnDay(startOfUtcDay(window.startDate), '00:00', timeZone));
+    }
+    if (window.endDate) {
+        upperBound = Math.min(upperBound, timeOnDay(startOfUtcDay(window.endDate) + MS_PER_DAY, '00:00', timeZone));
+    }
+    if (lowerBound >= upperBound) {
+        return [];
+    }
+    const anchorDay = window.startDate
+        ? startOfUtcDay(window.startDate)
+        : calendarDayInZone(window.from.getTime(), timeZone);
+    const doses = [];
+    if (schedule.type === 'interval') {
+        const step = schedule.intervalHours * MS_PER_HOUR;
+        const anchor = timeOnDay(anchorDay, schedule.firstDoseTime, timeZone);
+        const firstIndex = Math.max(0, Math.ceil((lowerBound - anchor) / step));
+        for (let dose = anchor + firstIndex * step; dose < upperBound; dose += step) {
+            doses.push(dose);
+        }
+    }
+    else {
+        const lastDay = calendarDayInZone(upperBound - 1, timeZone);
+        for (let day = calendarDayInZone(lowerBound, timeZone); day <= lastDay; day += MS_PER_DAY) {
+            if (schedule.type === 'weekly' && !schedule.days.includes(exports.DAYS_OF_WEEK[new Date(day).getUTCDay()])) {
+                continue;
+            }
+            if (schedule.type === 'cyclic') {
+                const cycleLength = schedule.daysOn + schedule.daysOff;
+                const dayInCycle = Math.round((day - anchorDay) / MS_PER_DAY) % cycleLength;
+                if (dayInCycle < 0 || dayInCycle >= schedule.daysOn) {
+                    continue;
+                }
+            }
+            for (const time of schedule.times) {
+                const dose = timeOnDay(day, time, timeZone);
+                if (dose >= lowerBound && dose < upperBound) {
+                    doses.push(dose);
+                }
+            }
+        }
+    }
+    return Array.from(new Set(doses))
+        .sort((a, b) => a - b)
+        .map(dose => new Date(dose));
+};
+exports.expandDosingSchedule = expandDosingSchedule;
+/**
+ * Finds the next time a reminder should fire.
+ * @param reminder - The reminder's local time and days
+ * @param after - Only times strictly after this instant are considered
+ * @param timeZone - Zone the reminder time is in (defaults to UTC)
+ * @returns The next firing time, or null if the reminder has no days selected
+ */
+const getNextReminderTime = (reminder, after, timeZone) => {
+    if (!reminder.days || reminder.days.length === 0) {
+        return null;
+    }
+    const [next] = (0, exports.expandDosingSchedule)({ type: 'weekly', days: reminder.days, times: [reminder.reminderTime] }, { from: new Date(after.getTime() + 1), to: new Date(after.getTime() + 8 * MS_PER_DAY), timeZone });
+    return next || null;
+};
+exports.getNextReminderTime = getNextReminderTime;
+/**
+ * Produces a short human-readable summary of a dosing schedule.
+ * @param schedule - The dosing schedule to describe
+ * @returns e.g. "Daily at 08:00, 20:00"
+ */
+const describeDosingSchedule = (schedule) => {
+    switch (schedule.type) {
+        case 'prn':
+            return 'As needed';
+        case 'fixed_times':
+            return `Daily at ${schedule.times.join(', ')}`;
+        case 'interval':
+            return `Every ${schedule.intervalHours} hours from ${schedule.firstDoseTime}`;
+        case 'weekly':
+            return `${schedule.days.map(day => day.slice(0, 3)).join(', ')} at ${schedule.times.join(', ')}`;
+        case 'cyclic':
+            return `${schedule.daysOn} days on, ${schedule.daysOff} days off at ${schedule.times.join(', ')}`;
+    }
+};
+exports.describeDosingSchedule = describeDosingSchedule;
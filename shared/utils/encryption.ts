@@ -0,0 +1,50 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const VERSION = 'v1';
+
+/**
+ * Reads an encryption key from configuration.
+ * @param key - 32 random bytes, base64 encoded (e.g. `openssl rand -base64 32`)
+ * @throws When the key isn't 32 bytes
+ */
+export const parseEncryptionKey = (key: string): Buffer => {
+  const bytes = Buffer.from(key, 'base64');
+  if (bytes.length !== KEY_BYTES) {
+    throw new Error(`Encryption key must be ${KEY_BYTES} bytes, base64 encoded`);
+  }
+  return bytes;
+};
+
+/**
+ * Encrypts a secret, such as an OAuth token, before it is stored.
+ * @param plaintext - The secret
+ * @param key - From `parseEncryptionKey`
+ * @returns Version, IV, auth tag and ciphertext, joined with colons
+ */
+export const encryptSecret = (plaintext: string, key: Buffer): string => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join(':');
+};
+
+/**
+ * Decrypts a secret stored by `encryptSecret`.
+ * @param value - The stored value
+ * @param key - The key it was encrypted with
+ * @throws When the value was changed or the key is wrong
+ */
+export const decryptSecret = (value: string, key: Buffer): string => {
+  const [version, iv, tag, ciphertext] = value.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Not an encrypted secret');
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+};
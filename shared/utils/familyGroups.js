@@ -0,0 +1,16 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.getFamilyGroupIds = void 0;
+/**
+ * The family groups a user belongs to. Users saved before multiple memberships
+ * have a single familyGroupId, which is included.
+ * @param user - The user document's data, if it exists
+ */
+const getFamilyGroupIds = (user) => {
+    const ids = [...(user?.familyGroupIds || [])];
+    if (user?.familyGroupId && !ids.includes(user.familyGroupId)) {
+        ids.push(user.familyGroupId);
+    }
+    return ids;
+};
+exports.getFamilyGroupIds = getFamilyGroupIds;
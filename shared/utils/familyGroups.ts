@@ -0,0 +1,14 @@
+import type { User } from '../types';
+
+/**
+ * The family groups a user belongs to. Users saved before multiple memberships
+ * have a single familyGroupId, which is included.
+ * @param user - The user document's data, if it exists
+ */
+export const getFamilyGroupIds = (user?: Pick<User, 'familyGroupId' | 'familyGroupIds'> | null): string[] => {
+  const ids = [...(user?.familyGroupIds || [])];
+  if (user?.familyGroupId && !ids.includes(user.familyGroupId)) {
+    ids.push(user.familyGroupId);
+  }
+  return ids;
+};
@@ -0,0 +1,96 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.validatePermissions = exports.getPermissionsNotHeld = exports.getMemberPermissions = exports.normalizeFamilyRole = exports.ROLE_PERMISSIONS = exports.ASSIGNABLE_ROLES = exports.FAMILY_ROLE_LABELS = exports.FAMILY_PERMISSION_LABELS = exports.FAMILY_PERMISSIONS = void 0;
+exports.FAMILY_PERMISSIONS = [
+    'view_profile',
+    'view_medications',
+    'edit_medications',
+    'log_doses',
+    'view_appointments',
+    'edit_appointments',
+    'view_tasks',
+    'manage_tasks',
+    'manage_members',
+    'view_audit',
+];
+// How each permission is described to people choosing them
+exports.FAMILY_PERMISSION_LABELS = {
+    view_profile: "View the patient's profile",
+    view_medications: 'View medications, logs and reminders',
+    edit_medications: 'Change medications and reminders',
+    log_doses: 'Log doses',
+    view_appointments: 'View appointments',
+    edit_appointments: 'Schedule and change appointments',
+    view_tasks: 'View care tasks',
+    manage_tasks: 'Create, update and complete care tasks',
+    manage_members: 'Manage the family group',
+    view_audit: "View the patient's audit log",
+};
+exports.FAMILY_ROLE_LABELS = {
+    primary_caregiver: 'Primary caregiver',
+    caregiver: 'Caregiver',
+    family_member: 'Family member',
+};
+// Roles that can be given directly; the primary caregiver role is handed over by transfer
+exports.ASSIGNABLE_ROLES = ['caregiver', 'family_member'];
+// What each role may do when a member has no permissions of their own
+exports.ROLE_PERMISSIONS = {
+    primary_caregiver: exports.FAMILY_PERMISSIONS,
+    caregiver: ['view_profile', 'view_medications', 'edit_medications', 'log_doses', 'view_appointments', 'edit_appointments',
+        'view_tasks', 'manage_tasks'],
+    family_member: ['view_profile', 'view_medications', 'log_doses', 'view_appointments', 'view_tasks', 'manage_tasks'],
+};
+/**
+ * Maps the roles used before member roles were introduced onto current ones.
+ * Legacy groups call the inviter 'admin'; they were the de facto primary caregiver.
+ * @param role - The role as stored on the member
+ */
+const normalizeFamilyRole = (role) => {
+    if (role === 'admin') {
+        return 'primary_caregiver';
+    }
+    if (role === 'member') {
+        return 'family_member';
+    }
+    return role;
+};
+exports.normalizeFamilyRole = normalizeFamilyRole;
+/**
+ * What a family member may do: their own permissions if set, otherwise the
+ * defaults for their role.
+ * @param member - The member's role and permissions
+ */
+const getMemberPermissions = (member) => Array.isArray(member.permissions)
+    ? member.permissions
+    : exports.ROLE_PERMISSIONS[(0, exports.normalizeFamilyRole)(member.role)] || [];
+exports.getMemberPermissions = getMemberPermissions;
+/**
+ * Which permissions a member can't hand on to someone else. The primary
+ * caregiver can hand on anything; everyone else only what they hold.
+ * @param members - The member's entries in the family groups concerned
+ * @param permissions - The permissions being handed on
+ * @returns The permissions the member doesn't hold, or an empty list
+ */
+const getPermissionsNotHeld = (members, permissions) => {
+    if (members.some(member => (0, exports.normalizeFamilyRole)(member.role) === 'primary_caregiver')) {
+        return [];
+    }
+    return permissions.filter(permission => !members.some(member => (0, exports.getMemberPermissions)(member).includes(permission)));
+};
+exports.getPermissionsNotHeld = getPermissionsNotHeld;
+/**
+ * Checks a list of permissions before it is stored on a member.
+ * @param permissions - The request body's permissions
+ * @returns An error message, or null if valid
+ */
+const validatePermissions = (permissions) => {
+    if (!Array.isArray(permissions)) {
+        return 'permissions must be an array';
+    }
+    const unknown = permissions.find(permission => !exports.FAMILY_PERMISSIONS.includes(permission));
+    if (unknown !== undefined) {
+        return `Unknown permission: ${unknown}. Must be one of: ${exports.FAMILY_PERMISSIONS.join(', ')}`;
+    }
+    return null;
+};
+exports.validatePermissions = validatePermissions;
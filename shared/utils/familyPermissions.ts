@@ -0,0 +1,107 @@
+import type { FamilyGroupMember, FamilyMemberRole, FamilyPermission } from '../types';
+
+export const FAMILY_PERMISSIONS: FamilyPermission[] = [
+  'view_profile',
+  'view_medications',
+  'edit_medications',
+  'log_doses',
+  'view_appointments',
+  'edit_appointments',
+  'view_tasks',
+  'manage_tasks',
+  'manage_members',
+  'view_audit',
+];
+
+// How each permission is described to people choosing them
+export const FAMILY_PERMISSION_LABELS: Record<FamilyPermission, string> = {
+  view_profile: "View the patient's profile",
+  view_medications: 'View medications, logs and reminders',
+  edit_medications: 'Change medications and reminders',
+  log_doses: 'Log doses',
+  view_appointments: 'View appointments',
+  edit_appointments: 'Schedule and change appointments',
+  view_tasks: 'View care tasks',
+  manage_tasks: 'Create, update and complete care tasks',
+  manage_members: 'Manage the family group',
+  view_audit: "View the patient's audit log",
+};
+
+export const FAMILY_ROLE_LABELS: Record<FamilyMemberRole, string> = {
+  primary_caregiver: 'Primary caregiver',
+  caregiver: 'Caregiver',
+  family_member: 'Family member',
+};
+
+// Roles that can be given directly; the primary caregiver role is handed over by transfer
+export const ASSIGNABLE_ROLES: FamilyMemberRole[] = ['caregiver', 'family_member'];
+
+// What each role may do when a member has no permissions of their own
+export const ROLE_PERMISSIONS: Record<FamilyMemberRole, FamilyPermission[]> = {
+  primary_caregiver: FAMILY_PERMISSIONS,
+  caregiver: ['view_profile', 'view_medications', 'edit_medications', 'log_doses', 'view_appointments', 'edit_appointments',
+    'view_tasks', 'manage_tasks'],
+  family_member: ['view_profile', 'view_medications', 'log_doses', 'view_appointments', 'view_tasks', 'manage_tasks'],
+};
+
+/**
+ * Maps the roles used before member roles were introduced onto current ones.
+ * Legacy groups call the inviter 'admin'; they were the de facto primary caregiver.
+ * @param role - The role as stored on the member
+ */
+export const normalizeFamilyRole = (role: FamilyGroupMember['role']): FamilyMemberRole => {
+  if (role === 'admin') {
+    return 'primary_caregiver';
+  }
+  if (role === 'member') {
+    return 'family_member';
+  }
+  return role;
+};
+
+/**
+ * What a family member may do: their own permissions if set, otherwise the
+ * defaults for their role.
+ * @param member - The member's role and permissions
+ */
+export const getMemberPermissions = (
+  member: Pick<FamilyGroupMember, 'role' | 'permissions'>
+): FamilyPermission[] =>
+  Array.isArray(member.permissions)
+    ? member.permissions
+    : ROLE_PERMISSIONS[normalizeFamilyRole(member.role)] || [];
+
+/**
+ * Which permissions a member can't hand on to someone else. The primary
+ * caregiver can hand on anything; everyone else only what they hold.
+ * @param members - The member's entries in the family groups concerned
+ * @param permissions - The permissions being handed on
+ * @returns The permissions the member doesn't hold, or an empty list
+ */
+export const getPermissionsNotHeld = (
+  members: Pick<FamilyGroupMember, 'role' | 'permissions'>[],
+  permissions: FamilyPermission[]
+): FamilyPermission[] => {
+  if (members.some(member => normalizeFamilyRole(member.role) === 'primary_caregiver')) {
+    return [];
+  }
+  return permissions.filter(permission => !members.some(member => getMemberPermissions(member).includes(permission)));
+};
+
+/**
+ * Checks a list of permissions before it is stored on a member.
+ * @param permissions - The request body's permissions
+ * @returns An error message, or null if valid
+ */
+export const validatePermissions = (permissions: unknown): string | null => {
+  if (!Array.isArray(permissions)) {
+    return 'permissions must be an array';
+  }
+
+  const unknown = permissions.find(permission => !FAMILY_PERMISSIONS.includes(permission));
+  if (unknown !== undefined) {
+    return `Unknown permission: ${unknown}. Must be one of: ${FAMILY_PERMISSIONS.join(', ')}`;
+  }
+
+  return null;
+};
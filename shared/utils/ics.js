@@ -0,0 +1,165 @@
+"use strict";
+// iCalendar (RFC 5545) output for calendar feeds
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.buildIcsCalendar = exports.foldIcsLine = exports.formatIcsDateTime = exports.escapeIcsText = void 0;
+const timezone_1 = require("./timezone");
+const MAX_LINE_OCTETS = 75;
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const pad = (value, length = 2) => String(value).padStart(length, '0');
+/**
+ * Escapes text for a TEXT property value.
+ * @param value - Free text, possibly with commas, semicolons or newlines
+ */
+const escapeIcsText = (value) => value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+exports.escapeIcsText = escapeIcsText;
+/**
+ * Formats an instant as a UTC DATE-TIME, e.g. 20240310T150000Z.
+ * @param date - The instant
+ */
+const formatIcsDateTime = (date) => `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+exports.formatIcsDateTime = formatIcsDateTime;
+/**
+ * Splits a content line so no line is longer than 75 octets; continuation
+ * lines start with a space.
+ * @param line - An unfolded content line
+ */
+const foldIcsLine = (line) => {
+    const lines = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        // Continuation lines lose one octet to the leading space
+        const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            lines.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    lines.push(current);
+    return lines.join('\r\n ');
+};
+exports.foldIcsLine = foldIcsLine;
+const formatLocalTime = ({ year, month, day, hours, minutes }) => `${year}${pad(month)}${pad(day)}T${pad(hours)}${pad(minutes)}00`;
+const formatStart = (start) => {
+    if (start instanceof Date) {
+        return `DTSTART:${(0, exports.formatIcsDateTime)(start)}`;
+    }
+    const value = formatLocalTime(start);
+    return start.timeZone === 'UTC' ? `DTSTART:${value}Z` : `DTSTART;TZID=${start.timeZone}:${value}`;
+};
+// e.g. -0500
+const formatUtcOffset = (minutes) => `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+/**
+ * Describes a timezone for events given in its local time. Its offset
+ * changes in one year are repeated yearly, as DST rules are: the change on
+ * Sunday the 10th of March 2024 becomes the second Sunday of every March, and
+ * one in the last week of a month its last Sunday.
+ * @param timeZone - IANA timezone name, used as the TZID
+ * @param firstYear - The year the earliest event starts in
+ */
+const formatTimeZone = (timeZone, firstYear) => {
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+    // Rules start the year before, so they also cover events early in the
+    // first year, e.g. January in Sydney, before that year's first change
+    const year = firstYear - 1;
+    const transitions = (0, timezone_1.getTimeZoneTransitions)(timeZone, year);
+    if (transitions.length === 0) {
+        const offset = formatUtcOffset((0, timezone_1.getTimeZoneOffsetMinutes)(new Date(Date.UTC(year, 0, 1)), timeZone));
+        lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+    }
+    for (const transition of transitions) {
+        // The wall-clock time the change happens at, still on the old offset
+        const local = new Date(transition.at.getTime() + transition.offsetFromMinutes * 60 * 1000);
+        const month = local.getUTCMonth() + 1;
+        const day = local.getUTCDate();
+        const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+        const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+        const kind = transition.offsetToMinutes > transition.offsetFromMinutes ? 'DAYLIGHT' : 'STANDARD';
+        lines.push(`BEGIN:${kind}`, `DTSTART:${formatLocalTime({
+            year: local.getUTCFullYear(),
+            month,
+            day,
+            hours: local.getUTCHours(),
+            minutes: local.getUTCMinutes(),
+        })}`, `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${week}${ICS_WEEKDAYS[local.getUTCDay()]}`, `TZOFFSETFROM:${formatUtcOffset(transition.offsetFromMinutes)}`, `TZOFFSETTO:${formatUtcOffset(transition.offsetToMinutes)}`, `END:${kind}`);
+    }
+    lines.push('END:VTIMEZONE');
+    return lines;
+};
+const formatEvent = (event) => {
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${(0, exports.formatIcsDateTime)(event.stamp)}`,
+        formatStart(event.start),
+    ];
+    if (event.end) {
+        lines.push(`DTEND:${(0, exports.formatIcsDateTime)(event.end)}`);
+    }
+    else if (event.durationMinutes) {
+        lines.push(`DURATION:PT${event.durationMinutes}M`);
+    }
+    if (event.rrule) {
+        lines.push(`RRULE:${event.rrule}`);
+    }
+    lines.push(`SUMMARY:${(0, exports.escapeIcsText)(event.summary)}`);
+    if (event.description) {
+        lines.push(`DESCRIPTION:${(0, exports.escapeIcsText)(event.description)}`);
+    }
+    if (event.location) {
+        lines.push(`LOCATION:${(0, exports.escapeIcsText)(event.location)}`);
+    }
+    if (event.status) {
+        lines.push(`STATUS:${event.status}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+};
+/**
+ * Renders a calendar as an iCalendar document. Events in a zone's local time
+ * get a VTIMEZONE for it, so clients don't have to know the zone's name.
+ * @param calendar - The calendar's name, timezone and events
+ * @returns The document, with CRLF line endings and folded lines
+ */
+const buildIcsCalendar = (calendar) => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//KinConnect//Care Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${(0, exports.escapeIcsText)(calendar.name)}`,
+    ];
+    if (calendar.timeZone) {
+        lines.push(`X-WR-TIMEZONE:${calendar.timeZone}`);
+    }
+    if (calendar.refreshMinutes) {
+        lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`);
+        lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`);
+    }
+    // The earliest year each zone is needed from
+    const zones = new Map();
+    for (const { start } of calendar.events) {
+        if (!(start instanceof Date) && start.timeZone !== 'UTC') {
+            zones.set(start.timeZone, Math.min(start.year, zones.get(start.timeZone) ?? start.year));
+        }
+    }
+    for (const [timeZone, year] of zones) {
+        lines.push(...formatTimeZone(timeZone, year));
+    }
+    for (const event of calendar.events) {
+        lines.push(...formatEvent(event));
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(exports.foldIcsLine).join('\r\n') + '\r\n';
+};
+exports.buildIcsCalendar = buildIcsCalendar;
@@ -0,0 +1,226 @@
+// iCalendar (RFC 5545) output for calendar feeds
+
+import { getTimeZoneOffsetMinutes, getTimeZoneTransitions } from './timezone';
+
+const MAX_LINE_OCTETS = 75;
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export type IcsEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+// A wall-clock time in a named zone, for events that repeat at the same local time
+export interface IcsLocalTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  timeZone: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  stamp: Date; // When the event last changed
+  start: Date | IcsLocalTime;
+  end?: Date;
+  durationMinutes?: number; // Used when there is no end
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: IcsEventStatus;
+  rrule?: string; // e.g. "FREQ=WEEKLY;BYDAY=MO,TH"
+}
+
+export interface IcsCalendar {
+  name: string;
+  timeZone?: string;
+  refreshMinutes?: number; // How often clients should poll the feed
+  events: IcsEvent[];
+}
+
+const pad = (value: number, length: number = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Escapes text for a TEXT property value.
+ * @param value - Free text, possibly with commas, semicolons or newlines
+ */
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Formats an instant as a UTC DATE-TIME, e.g. 20240310T150000Z.
+ * @param date - The instant
+ */
+export const formatIcsDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/**
+ * Splits a content line so no line is longer than 75 octets; continuation
+ * lines start with a space.
+ * @param line - An unfolded content line
+ */
+export const foldIcsLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+};
+
+const formatLocalTime = ({ year, month, day, hours, minutes }: Omit<IcsLocalTime, 'timeZone'>): string =>
+  `${year}${pad(month)}${pad(day)}T${pad(hours)}${pad(minutes)}00`;
+
+const formatStart = (start: Date | IcsLocalTime): string => {
+  if (start instanceof Date) {
+    return `DTSTART:${formatIcsDateTime(start)}`;
+  }
+  const value = formatLocalTime(start);
+  return start.timeZone === 'UTC' ? `DTSTART:${value}Z` : `DTSTART;TZID=${start.timeZone}:${value}`;
+};
+
+// e.g. -0500
+const formatUtcOffset = (minutes: number): string =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+/**
+ * Describes a timezone for events given in its local time. Its offset
+ * changes in one year are repeated yearly, as DST rules are: the change on
+ * Sunday the 10th of March 2024 becomes the second Sunday of every March, and
+ * one in the last week of a month its last Sunday.
+ * @param timeZone - IANA timezone name, used as the TZID
+ * @param firstYear - The year the earliest event starts in
+ */
+const formatTimeZone = (timeZone: string, firstYear: number): string[] => {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  // Rules start the year before, so they also cover events early in the
+  // first year, e.g. January in Sydney, before that year's first change
+  const year = firstYear - 1;
+  const transitions = getTimeZoneTransitions(timeZone, year);
+
+  if (transitions.length === 0) {
+    const offset = formatUtcOffset(getTimeZoneOffsetMinutes(new Date(Date.UTC(year, 0, 1)), timeZone));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+
+  for (const transition of transitions) {
+    // The wall-clock time the change happens at, still on the old offset
+    const local = new Date(transition.at.getTime() + transition.offsetFromMinutes * 60 * 1000);
+    const month = local.getUTCMonth() + 1;
+    const day = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const kind = transition.offsetToMinutes > transition.offsetFromMinutes ? 'DAYLIGHT' : 'STANDARD';
+
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatLocalTime({
+        year: local.getUTCFullYear(),
+        month,
+        day,
+        hours: local.getUTCHours(),
+        minutes: local.getUTCMinutes(),
+      })}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${week}${ICS_WEEKDAYS[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatUtcOffset(transition.offsetFromMinutes)}`,
+      `TZOFFSETTO:${formatUtcOffset(transition.offsetToMinutes)}`,
+      `END:${kind}`
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+const formatEvent = (event: IcsEvent): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDateTime(event.stamp)}`,
+    formatStart(event.start),
+  ];
+
+  if (event.end) {
+    lines.push(`DTEND:${formatIcsDateTime(event.end)}`);
+  } else if (event.durationMinutes) {
+    lines.push(`DURATION:PT${event.durationMinutes}M`);
+  }
+  if (event.rrule) {
+    lines.push(`RRULE:${event.rrule}`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  }
+  if (event.status) {
+    lines.push(`STATUS:${event.status}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Renders a calendar as an iCalendar document. Events in a zone's local time
+ * get a VTIMEZONE for it, so clients don't have to know the zone's name.
+ * @param calendar - The calendar's name, timezone and events
+ * @returns The document, with CRLF line endings and folded lines
+ */
+export const buildIcsCalendar = (calendar: IcsCalendar): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//KinConnect//Care Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+  ];
+
+  if (calendar.timeZone) {
+    lines.push(`X-WR-TIMEZONE:${calendar.timeZone}`);
+  }
+  if (calendar.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`);
+  }
+
+  // The earliest year each zone is needed from
+  const zones = new Map<string, number>();
+  for (const { start } of calendar.events) {
+    if (!(start instanceof Date) && start.timeZone !== 'UTC') {
+      zones.set(start.timeZone, Math.min(start.year, zones.get(start.timeZone) ?? start.year));
+    }
+  }
+  for (const [timeZone, year] of zones) {
+    lines.push(...formatTimeZone(timeZone, year));
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...formatEvent(event));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,40 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.isWithinHardDeleteWindow = exports.validateDiscontinuation = exports.HARD_DELETE_WINDOW_HOURS = exports.DISCONTINUE_REASONS = void 0;
+exports.DISCONTINUE_REASONS = ['side_effect', 'ineffective', 'completed_course', 'doctor_changed'];
+// Medications can only be deleted outright this soon after being added, to
+// undo mistakes; after that they are discontinued so their history is kept
+exports.HARD_DELETE_WINDOW_HOURS = 24;
+/**
+ * Checks a request to discontinue a medication.
+ * @param discontinuation - The request body
+ * @param medication - The medication being discontinued
+ * @returns An error message, or null if valid
+ */
+const validateDiscontinuation = (discontinuation, medication) => {
+    if (!exports.DISCONTINUE_REASONS.includes(discontinuation.reason)) {
+        return `reason must be one of: ${exports.DISCONTINUE_REASONS.join(', ')}`;
+    }
+    if (discontinuation.endDate !== undefined) {
+        const endDate = new Date(discontinuation.endDate);
+        if (isNaN(endDate.getTime())) {
+            return 'endDate must be a valid date';
+        }
+        const startDate = medication.startDate || medication.prescribedDate;
+        if (startDate && endDate < new Date(startDate)) {
+            return 'endDate cannot be before the medication was started';
+        }
+    }
+    if (discontinuation.notes !== undefined && typeof discontinuation.notes !== 'string') {
+        return 'notes must be a string';
+    }
+    return null;
+};
+exports.validateDiscontinuation = validateDiscontinuation;
+/**
+ * Whether a medication is recent enough to be deleted rather than discontinued.
+ * @param medication - The medication's creation time
+ * @param now - Current time
+ */
+const isWithinHardDeleteWindow = (medication, now) => now.getTime() - new Date(medication.createdAt).getTime() <= exports.HARD_DELETE_WINDOW_HOURS * 60 * 60 * 1000;
+exports.isWithinHardDeleteWindow = isWithinHardDeleteWindow;
@@ -0,0 +1,47 @@
+import type { DiscontinueReason, Medication } from '../types';
+
+export const DISCONTINUE_REASONS: DiscontinueReason[] = ['side_effect', 'ineffective', 'completed_course', 'doctor_changed'];
+
+// Medications can only be deleted outright this soon after being added, to
+// undo mistakes; after that they are discontinued so their history is kept
+export const HARD_DELETE_WINDOW_HOURS = 24;
+
+/**
+ * Checks a request to discontinue a medication.
+ * @param discontinuation - The request body
+ * @param medication - The medication being discontinued
+ * @returns An error message, or null if valid
+ */
+export const validateDiscontinuation = (
+  discontinuation: { reason?: unknown; endDate?: unknown; notes?: unknown },
+  medication: Pick<Medication, 'prescribedDate' | 'startDate'>
+): string | null => {
+  if (!DISCONTINUE_REASONS.includes(discontinuation.reason as DiscontinueReason)) {
+    return `reason must be one of: ${DISCONTINUE_REASONS.join(', ')}`;
+  }
+
+  if (discontinuation.endDate !== undefined) {
+    const endDate = new Date(discontinuation.endDate as string);
+    if (isNaN(endDate.getTime())) {
+      return 'endDate must be a valid date';
+    }
+    const startDate = medication.startDate || medication.prescribedDate;
+    if (startDate && endDate < new Date(startDate)) {
+      return 'endDate cannot be before the medication was started';
+    }
+  }
+
+  if (discontinuation.notes !== undefined && typeof discontinuation.notes !== 'string') {
+    return 'notes must be a string';
+  }
+
+  return null;
+};
+
+/**
+ * Whether a medication is recent enough to be deleted rather than discontinued.
+ * @param medication - The medication's creation time
+ * @param now - Current time
+ */
+export const isWithinHardDeleteWindow = (medication: Pick<Medication, 'createdAt'>, now: Date): boolean =>
+  now.getTime() - new Date(medication.createdAt).getTime() <= HARD_DELETE_WINDOW_HOURS * 60 * 60 * 1000;
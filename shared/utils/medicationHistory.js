@@ -0,0 +1,56 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.diffMedication = void 0;
+// Bookkeeping fields that change without the medication itself changing
+const UNTRACKED_FIELDS = ['id', 'createdAt', 'updatedAt', 'version', 'lowSupplyAlertedAt'];
+// Dates and Firestore Timestamps become ISO strings; missing values become null
+const toHistoryValue = (value) => {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (value?.toDate) {
+        return value.toDate().toISOString();
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+        return value.map(toHistoryValue);
+    }
+    if (typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value)
+            .filter(([, entry]) => entry !== undefined)
+            .map(([key, entry]) => [key, toHistoryValue(entry)]));
+    }
+    return value;
+};
+const isEqual = (a, b) => {
+    if (a === b) {
+        return true;
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    return aKeys.length === bKeys.length &&
+        aKeys.every(key => isEqual(a[key], b[key]));
+};
+/**
+ * Lists the fields an update actually changes, with their values before and after.
+ * @param before - The stored medication document
+ * @param updates - The fields being written
+ * @returns One entry per changed field, in the order they appear in updates
+ */
+const diffMedication = (before, updates) => Object.keys(updates)
+    .filter(field => !UNTRACKED_FIELDS.includes(field))
+    .map(field => ({
+    field,
+    before: toHistoryValue(before[field]),
+    after: toHistoryValue(updates[field]),
+}))
+    .filter(change => !isEqual(change.before, change.after));
+exports.diffMedication = diffMedication;
@@ -0,0 +1,64 @@
+import type { MedicationFieldChange } from '../types';
+
+// Bookkeeping fields that change without the medication itself changing
+const UNTRACKED_FIELDS = ['id', 'createdAt', 'updatedAt', 'version', 'lowSupplyAlertedAt'];
+
+// Dates and Firestore Timestamps become ISO strings; missing values become null
+const toHistoryValue = (value: any): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value?.toDate) {
+    return value.toDate().toISOString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toHistoryValue);
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, toHistoryValue(entry)])
+    );
+  }
+  return value;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+};
+
+/**
+ * Lists the fields an update actually changes, with their values before and after.
+ * @param before - The stored medication document
+ * @param updates - The fields being written
+ * @returns One entry per changed field, in the order they appear in updates
+ */
+export const diffMedication = (
+  before: Record<string, any>,
+  updates: Record<string, any>
+): MedicationFieldChange[] =>
+  Object.keys(updates)
+    .filter(field => !UNTRACKED_FIELDS.includes(field))
+    .map(field => ({
+      field,
+      before: toHistoryValue(before[field]),
+      after: toHistoryValue(updates[field]),
+    }))
+    .filter(change => !isEqual(change.before, change.after));
@@ -0,0 +1,56 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.validateMedicationLogStatus = exports.isDoseTaken = exports.getLogStatus = exports.MEDICATION_LOG_REASON_CODES = exports.MEDICATION_LOG_STATUSES = void 0;
+exports.MEDICATION_LOG_STATUSES = ['taken', 'partial', 'skipped', 'refused', 'held'];
+exports.MEDICATION_LOG_REASON_CODES = [
+    'nausea',
+    'side_effects',
+    'feeling_unwell',
+    'asleep',
+    'unavailable',
+    'doctor_instruction',
+    'patient_choice',
+    'other',
+];
+/**
+ * Status of a log, treating logs written before statuses existed as taken.
+ * @param log - The medication log
+ */
+const getLogStatus = (log) => log.status || 'taken';
+exports.getLogStatus = getLogStatus;
+/**
+ * Whether any of the medication was actually taken.
+ * @param log - The medication log
+ */
+const isDoseTaken = (log) => {
+    const status = (0, exports.getLogStatus)(log);
+    return status === 'taken' || status === 'partial';
+};
+exports.isDoseTaken = isDoseTaken;
+/**
+ * Checks the status, reason code and amount of a log entry.
+ * @param log - The log, or the log with pending updates applied
+ * @returns An error message, or null if valid
+ */
+const validateMedicationLogStatus = (log) => {
+    const status = log.status ?? 'taken';
+    if (!exports.MEDICATION_LOG_STATUSES.includes(status)) {
+        return `status must be one of: ${exports.MEDICATION_LOG_STATUSES.join(', ')}`;
+    }
+    if (log.reasonCode !== undefined && !exports.MEDICATION_LOG_REASON_CODES.includes(log.reasonCode)) {
+        return `reasonCode must be one of: ${exports.MEDICATION_LOG_REASON_CODES.join(', ')}`;
+    }
+    if (status !== 'taken' && status !== 'partial' && log.reasonCode === undefined) {
+        return `reasonCode is required when status is ${status}`;
+    }
+    if (log.amount !== undefined && log.amount !== null) {
+        if (status !== 'partial') {
+            return 'amount can only be recorded for partial doses';
+        }
+        if (typeof log.amount !== 'string' || log.amount.trim().length === 0) {
+            return 'amount must be a non-empty string';
+        }
+    }
+    return null;
+};
+exports.validateMedicationLogStatus = validateMedicationLogStatus;
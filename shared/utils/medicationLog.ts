@@ -0,0 +1,65 @@
+import type { MedicationLogReasonCode, MedicationLogStatus } from '../types';
+
+export const MEDICATION_LOG_STATUSES: MedicationLogStatus[] = ['taken', 'partial', 'skipped', 'refused', 'held'];
+
+export const MEDICATION_LOG_REASON_CODES: MedicationLogReasonCode[] = [
+  'nausea',
+  'side_effects',
+  'feeling_unwell',
+  'asleep',
+  'unavailable',
+  'doctor_instruction',
+  'patient_choice',
+  'other',
+];
+
+/**
+ * Status of a log, treating logs written before statuses existed as taken.
+ * @param log - The medication log
+ */
+export const getLogStatus = (log: { status?: MedicationLogStatus }): MedicationLogStatus =>
+  log.status || 'taken';
+
+/**
+ * Whether any of the medication was actually taken.
+ * @param log - The medication log
+ */
+export const isDoseTaken = (log: { status?: MedicationLogStatus }): boolean => {
+  const status = getLogStatus(log);
+  return status === 'taken' || status === 'partial';
+};
+
+/**
+ * Checks the status, reason code and amount of a log entry.
+ * @param log - The log, or the log with pending updates applied
+ * @returns An error message, or null if valid
+ */
+export const validateMedicationLogStatus = (log: {
+  status?: unknown;
+  reasonCode?: unknown;
+  amount?: unknown;
+}): string | null => {
+  const status = log.status ?? 'taken';
+  if (!MEDICATION_LOG_STATUSES.includes(status as MedicationLogStatus)) {
+    return `status must be one of: ${MEDICATION_LOG_STATUSES.join(', ')}`;
+  }
+
+  if (log.reasonCode !== undefined && !MEDICATION_LOG_REASON_CODES.includes(log.reasonCode as MedicationLogReasonCode)) {
+    return `reasonCode must be one of: ${MEDICATION_LOG_REASON_CODES.join(', ')}`;
+  }
+
+  if (status !== 'taken' && status !== 'partial' && log.reasonCode === undefined) {
+    return `reasonCode is required when status is ${status}`;
+  }
+
+  if (log.amount !== undefined && log.amount !== null) {
+    if (status !== 'partial') {
+      return 'amount can only be recorded for partial doses';
+    }
+    if (typeof log.amount !== 'string' || log.amount.trim().length === 0) {
+      return 'amount must be a non-empty string';
+    }
+  }
+
+  return null;
+};
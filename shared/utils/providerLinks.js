@@ -0,0 +1,22 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.getProviderLinkId = exports.PROVIDER_PERMISSIONS = void 0;
+// What a linked provider may do: the patient's care, not their family group
+// or audit log
+exports.PROVIDER_PERMISSIONS = [
+    'view_profile',
+    'view_medications',
+    'edit_medications',
+    'log_doses',
+    'view_appointments',
+    'edit_appointments',
+    'view_tasks',
+];
+/**
+ * The patient_access document ID for a provider and patient; the Firestore
+ * rules build the same ID to check a provider's access.
+ * @param providerId - The provider's uid
+ * @param patientId - The patient's user uid
+ */
+const getProviderLinkId = (providerId, patientId) => `${providerId}_${patientId}`;
+exports.getProviderLinkId = getProviderLinkId;
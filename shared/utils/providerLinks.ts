@@ -0,0 +1,22 @@
+import type { FamilyPermission } from '../types';
+
+// What a linked provider may do: the patient's care, not their family group
+// or audit log
+export const PROVIDER_PERMISSIONS: FamilyPermission[] = [
+  'view_profile',
+  'view_medications',
+  'edit_medications',
+  'log_doses',
+  'view_appointments',
+  'edit_appointments',
+  'view_tasks',
+];
+
+/**
+ * The patient_access document ID for a provider and patient; the Firestore
+ * rules build the same ID to check a provider's access.
+ * @param providerId - The provider's uid
+ * @param patientId - The patient's user uid
+ */
+export const getProviderLinkId = (providerId: string, patientId: string): string =>
+  `${providerId}_${patientId}`;
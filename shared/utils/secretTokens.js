@@ -0,0 +1,19 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.hashSecretToken = exports.generateSecretToken = void 0;
+const crypto_1 = require("crypto");
+/**
+ * Creates a secret for a link or callback, such as an invitation link, a
+ * calendar feed URL or an OAuth state. Only its hash is stored, so the
+ * secret can't be rebuilt from the database.
+ * @returns A URL-safe random token
+ */
+const generateSecretToken = () => (0, crypto_1.randomBytes)(32).toString('base64url');
+exports.generateSecretToken = generateSecretToken;
+/**
+ * Hashes a secret token for storage and lookup.
+ * @param token - The token as it was handed out
+ * @returns The token's SHA-256 hash, hex encoded
+ */
+const hashSecretToken = (token) => (0, crypto_1.createHash)('sha256').update(token).digest('hex');
+exports.hashSecretToken = hashSecretToken;
@@ -0,0 +1,17 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Creates a secret for a link or callback, such as an invitation link, a
+ * calendar feed URL or an OAuth state. Only its hash is stored, so the
+ * secret can't be rebuilt from the database.
+ * @returns A URL-safe random token
+ */
+export const generateSecretToken = (): string => randomBytes(32).toString('base64url');
+
+/**
+ * Hashes a secret token for storage and lookup.
+ * @param token - The token as it was handed out
+ * @returns The token's SHA-256 hash, hex encoded
+ */
+export const hashSecretToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
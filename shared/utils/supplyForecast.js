@@ -0,0 +1,113 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.validateSupplyFields = exports.validateRefill = exports.projectSupply = exports.getUnitsUsed = void 0;
+const dailyDoseLimit_1 = require("./dailyDoseLimit");
+const medicationLog_1 = require("./medicationLog");
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+/**
+ * Units of supply used by one logged dose. A partial dose uses its share of the
+ * dosage when both can be read in the same unit, otherwise a full dose.
+ * @param medication - The medication's dosage and unitsPerDose
+ * @param log - The logged dose
+ * @returns The units used, or 0 if none of the dose was taken
+ */
+const getUnitsUsed = (medication, log) => {
+    if (!(0, medicationLog_1.isDoseTaken)(log)) {
+        return 0;
+    }
+    const unitsPerDose = medication.unitsPerDose ?? 1;
+    if (log.status === 'partial') {
+        const dosage = (0, dailyDoseLimit_1.parseDoseQuantity)(medication.dosage);
+        const amount = (0, dailyDoseLimit_1.parseDoseQuantity)(log.amount);
+        if (dosage && amount && dosage.unit === amount.unit && dosage.value > 0) {
+            return unitsPerDose * Math.min(amount.value / dosage.value, 1);
+        }
+    }
+    return unitsPerDose;
+};
+exports.getUnitsUsed = getUnitsUsed;
+/**
+ * Projects when a supply runs out. Scheduled doses are walked in order until one
+ * can no longer be covered; without a schedule, recent average use is assumed
+ * to continue.
+ * @param options.onHand - Units left
+ * @param options.unitsPerDose - Units used by one scheduled dose
+ * @param options.upcomingDoses - Scheduled doses from now to the end of the horizon
+ * @param options.horizonDays - How far ahead upcomingDoses were expanded
+ * @param options.recentDailyUsage - Average units used per day recently
+ * @param options.now - Start of the forecast
+ */
+const projectSupply = (options) => {
+    const { onHand, unitsPerDose, upcomingDoses, horizonDays, recentDailyUsage, now } = options;
+    let runOutDate = null;
+    let dailyUsage;
+    let basis;
+    if (upcomingDoses.length > 0) {
+        basis = 'schedule';
+        dailyUsage = (upcomingDoses.length * unitsPerDose) / horizonDays;
+        const coveredDoses = Math.floor(onHand / unitsPerDose);
+        if (coveredDoses < upcomingDoses.length) {
+            runOutDate = upcomingDoses[coveredDoses];
+        }
+    }
+    else {
+        basis = 'recent_use';
+        dailyUsage = recentDailyUsage;
+        if (dailyUsage > 0) {
+            runOutDate = new Date(now.getTime() + (onHand / dailyUsage) * MS_PER_DAY);
+        }
+    }
+    return {
+        dailyUsage,
+        basis,
+        runOutDate,
+        daysRemaining: runOutDate ? Math.max(0, Math.floor((runOutDate.getTime() - now.getTime()) / MS_PER_DAY)) : null,
+    };
+};
+exports.projectSupply = projectSupply;
+/**
+ * Checks a refill before it is recorded.
+ * @param refill - The request body
+ * @param lastFillDate - The medication's current fill, if any
+ * @param now - Current time
+ * @returns An error message, or null if valid
+ */
+const validateRefill = (refill, lastFillDate, now) => {
+    if (typeof refill.quantityDispensed !== 'number' || !(refill.quantityDispensed > 0)) {
+        return 'quantityDispensed must be a positive number';
+    }
+    if (refill.fillDate !== undefined) {
+        const fillDate = new Date(refill.fillDate);
+        if (isNaN(fillDate.getTime())) {
+            return 'fillDate must be a valid date';
+        }
+        if (fillDate > now) {
+            return 'fillDate cannot be in the future';
+        }
+        if (lastFillDate && fillDate < lastFillDate) {
+            return 'fillDate cannot be before the last fill';
+        }
+    }
+    return null;
+};
+exports.validateRefill = validateRefill;
+/**
+ * Checks the supply fields on a medication being created or updated.
+ * @param medication - The request body
+ * @returns An error message, or null if valid
+ */
+const validateSupplyFields = (medication) => {
+    if (medication.quantityDispensed !== undefined &&
+        (typeof medication.quantityDispensed !== 'number' || !(medication.quantityDispensed >= 0))) {
+        return 'quantityDispensed must be a number of at least 0';
+    }
+    if (medication.unitsPerDose !== undefined &&
+        (typeof medication.unitsPerDose !== 'number' || !(medication.unitsPerDose > 0))) {
+        return 'unitsPerDose must be a positive number';
+    }
+    if (medication.lastFillDate !== undefined && isNaN(new Date(medication.lastFillDate).getTime())) {
+        return 'lastFillDate must be a valid date';
+    }
+    return null;
+};
+exports.validateSupplyFields = validateSupplyFields;
@@ -0,0 +1,141 @@
+import type { Medication, MedicationLogStatus, SupplyForecast } from '../types';
+import { parseDoseQuantity } from './dailyDoseLimit';
+import { isDoseTaken } from './medicationLog';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+type LoggedDose = { status?: MedicationLogStatus; amount?: string };
+
+/**
+ * Units of supply used by one logged dose. A partial dose uses its share of the
+ * dosage when both can be read in the same unit, otherwise a full dose.
+ * @param medication - The medication's dosage and unitsPerDose
+ * @param log - The logged dose
+ * @returns The units used, or 0 if none of the dose was taken
+ */
+export const getUnitsUsed = (
+  medication: Pick<Medication, 'dosage' | 'unitsPerDose'>,
+  log: LoggedDose
+): number => {
+  if (!isDoseTaken(log)) {
+    return 0;
+  }
+
+  const unitsPerDose = medication.unitsPerDose ?? 1;
+  if (log.status === 'partial') {
+    const dosage = parseDoseQuantity(medication.dosage);
+    const amount = parseDoseQuantity(log.amount);
+    if (dosage && amount && dosage.unit === amount.unit && dosage.value > 0) {
+      return unitsPerDose * Math.min(amount.value / dosage.value, 1);
+    }
+  }
+
+  return unitsPerDose;
+};
+
+/**
+ * Projects when a supply runs out. Scheduled doses are walked in order until one
+ * can no longer be covered; without a schedule, recent average use is assumed
+ * to continue.
+ * @param options.onHand - Units left
+ * @param options.unitsPerDose - Units used by one scheduled dose
+ * @param options.upcomingDoses - Scheduled doses from now to the end of the horizon
+ * @param options.horizonDays - How far ahead upcomingDoses were expanded
+ * @param options.recentDailyUsage - Average units used per day recently
+ * @param options.now - Start of the forecast
+ */
+export const projectSupply = (options: {
+  onHand: number;
+  unitsPerDose: number;
+  upcomingDoses: Date[];
+  horizonDays: number;
+  recentDailyUsage: number;
+  now: Date;
+}): Pick<SupplyForecast, 'dailyUsage' | 'basis' | 'runOutDate' | 'daysRemaining'> => {
+  const { onHand, unitsPerDose, upcomingDoses, horizonDays, recentDailyUsage, now } = options;
+
+  let runOutDate: Date | null = null;
+  let dailyUsage: number;
+  let basis: SupplyForecast['basis'];
+
+  if (upcomingDoses.length > 0) {
+    basis = 'schedule';
+    dailyUsage = (upcomingDoses.length * unitsPerDose) / horizonDays;
+    const coveredDoses = Math.floor(onHand / unitsPerDose);
+    if (coveredDoses < upcomingDoses.length) {
+      runOutDate = upcomingDoses[coveredDoses];
+    }
+  } else {
+    basis = 'recent_use';
+    dailyUsage = recentDailyUsage;
+    if (dailyUsage > 0) {
+      runOutDate = new Date(now.getTime() + (onHand / dailyUsage) * MS_PER_DAY);
+    }
+  }
+
+  return {
+    dailyUsage,
+    basis,
+    runOutDate,
+    daysRemaining: runOutDate ? Math.max(0, Math.floor((runOutDate.getTime() - now.getTime()) / MS_PER_DAY)) : null,
+  };
+};
+
+/**
+ * Checks a refill before it is recorded.
+ * @param refill - The request body
+ * @param lastFillDate - The medication's current fill, if any
+ * @param now - Current time
+ * @returns An error message, or null if valid
+ */
+export const validateRefill = (
+  refill: { quantityDispensed?: unknown; fillDate?: unknown },
+  lastFillDate: Date | undefined,
+  now: Date
+): string | null => {
+  if (typeof refill.quantityDispensed !== 'number' || !(refill.quantityDispensed > 0)) {
+    return 'quantityDispensed must be a positive number';
+  }
+
+  if (refill.fillDate !== undefined) {
+    const fillDate = new Date(refill.fillDate as string);
+    if (isNaN(fillDate.getTime())) {
+      return 'fillDate must be a valid date';
+    }
+    if (fillDate > now) {
+      return 'fillDate cannot be in the future';
+    }
+    if (lastFillDate && fillDate < lastFillDate) {
+      return 'fillDate cannot be before the last fill';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Checks the supply fields on a medication being created or updated.
+ * @param medication - The request body
+ * @returns An error message, or null if valid
+ */
+export const validateSupplyFields = (medication: {
+  quantityDispensed?: unknown;
+  unitsPerDose?: unknown;
+  lastFillDate?: unknown;
+}): string | null => {
+  if (medication.quantityDispensed !== undefined &&
+      (typeof medication.quantityDispensed !== 'number' || !(medication.quantityDispensed >= 0))) {
+    return 'quantityDispensed must be a number of at least 0';
+  }
+
+  if (medication.unitsPerDose !== undefined &&
+      (typeof medication.unitsPerDose !== 'number' || !(medication.unitsPerDose > 0))) {
+    return 'unitsPerDose must be a positive number';
+  }
+
+  if (medication.lastFillDate !== undefined && isNaN(new Date(medication.lastFillDate as string).getTime())) {
+    return 'lastFillDate must be a valid date';
+  }
+
+  return null;
+};
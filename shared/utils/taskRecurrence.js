@@ -0,0 +1,128 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.expandTaskRecurrence = exports.validateTaskSeries = exports.validateTaskRecurrence = void 0;
+const dosingSchedule_1 = require("./dosingSchedule");
+const timezone_1 = require("./timezone");
+const tasks_1 = require("./tasks");
+const MAX_INTERVAL_DAYS = 365;
+const isValidDate = (value) => (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+/**
+ * Validates a recurrence rule received from a client.
+ * @param recurrence - The candidate rule
+ * @returns An error message, or null when the rule is valid
+ */
+const validateTaskRecurrence = (recurrence) => {
+    if (!recurrence || typeof recurrence !== 'object') {
+        return 'recurrence must be an object';
+    }
+    switch (recurrence.type) {
+        case 'daily':
+            return null;
+        case 'weekly':
+            if (!Array.isArray(recurrence.days) || recurrence.days.length === 0 ||
+                !recurrence.days.every((day) => dosingSchedule_1.DAYS_OF_WEEK.includes(day))) {
+                return 'Weekly recurrence needs at least one valid day';
+            }
+            return null;
+        case 'every_n_days':
+            if (!Number.isInteger(recurrence.intervalDays) || recurrence.intervalDays < 1 || recurrence.intervalDays > MAX_INTERVAL_DAYS) {
+                return `intervalDays must be a whole number between 1 and ${MAX_INTERVAL_DAYS}`;
+            }
+            return null;
+        case 'monthly':
+            if (!Number.isInteger(recurrence.dayOfMonth) || recurrence.dayOfMonth < 1 || recurrence.dayOfMonth > 31) {
+                return 'dayOfMonth must be a whole number between 1 and 31';
+            }
+            return null;
+        default:
+            return 'recurrence type must be one of: daily, weekly, every_n_days, monthly';
+    }
+};
+exports.validateTaskRecurrence = validateTaskRecurrence;
+/**
+ * Checks the fields of a recurring task being created, or of an edit to all
+ * future instances. Only the fields present are checked unless `requireAll`
+ * is set.
+ * @param series - The request body
+ * @param requireAll - Whether title, recurrence, time and startDate must be given, as when creating
+ * @returns An error message, or null if valid
+ */
+const validateTaskSeries = (series, requireAll) => {
+    if (requireAll && series.title === undefined) {
+        return 'title is required';
+    }
+    const { title, description, priority, assignedTo } = series;
+    const taskError = (0, tasks_1.validateTask)({ title, description, priority, assignedTo }, false);
+    if (taskError) {
+        return taskError;
+    }
+    if (series.recurrence !== undefined || requireAll) {
+        const recurrenceError = (0, exports.validateTaskRecurrence)(series.recurrence);
+        if (recurrenceError) {
+            return recurrenceError;
+        }
+    }
+    if ((series.time !== undefined || requireAll) && (typeof series.time !== 'string' || !dosingSchedule_1.TIME_PATTERN.test(series.time))) {
+        return 'time must use HH:MM format';
+    }
+    if ((series.startDate !== undefined || requireAll) && !isValidDate(series.startDate)) {
+        return 'startDate must be a valid date';
+    }
+    if (series.endDate !== undefined && series.endDate !== null) {
+        if (!isValidDate(series.endDate)) {
+            return 'endDate must be a valid date';
+        }
+        if (series.startDate !== undefined && new Date(series.endDate) < new Date(series.startDate)) {
+            return 'endDate must not be before startDate';
+        }
+    }
+    return null;
+};
+exports.validateTaskSeries = validateTaskSeries;
+/**
+ * Expands a recurrence rule into the instants instances are due. Times are
+ * wall-clock times in the window's timezone, as for dosing schedules.
+ * @param recurrence - The series' rule
+ * @param window - The range to expand ([from, to)), the series' dates and time of day
+ * @returns Due times in ascending order
+ */
+const expandTaskRecurrence = (recurrence, window) => {
+    const { from, to, startDate, endDate, time, timeZone } = window;
+    const doseWindow = { from, to, startDate, endDate, timeZone };
+    switch (recurrence.type) {
+        case 'daily':
+            return (0, dosingSchedule_1.expandDosingSchedule)({ type: 'fixed_times', times: [time] }, doseWindow);
+        case 'weekly':
+            return (0, dosingSchedule_1.expandDosingSchedule)({ type: 'weekly', days: recurrence.days, times: [time] }, doseWindow);
+        case 'every_n_days':
+            // One day on, the rest of the interval off
+            return (0, dosingSchedule_1.expandDosingSchedule)({ type: 'cyclic', daysOn: 1, daysOff: recurrence.intervalDays - 1, times: [time] }, doseWindow);
+        case 'monthly':
+            return expandMonthly(recurrence.dayOfMonth, window);
+    }
+};
+exports.expandTaskRecurrence = expandTaskRecurrence;
+const expandMonthly = (dayOfMonth, window) => {
+    const timeZone = window.timeZone || timezone_1.DEFAULT_TIME_ZONE;
+    const toDay = (date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    const firstDay = toDay(window.startDate);
+    const lastDay = window.endDate ? toDay(window.endDate) : Infinity;
+    const fromParts = (0, timezone_1.getZonedDateParts)(window.from, timeZone);
+    const toParts = (0, timezone_1.getZonedDateParts)(window.to, timeZone);
+    const occurrences = [];
+    // Months are counted from year 0 so the loop can step across years
+    for (let index = fromParts.year * 12 + fromParts.month - 1; index <= toParts.year * 12 + toParts.month - 1; index++) {
+        const year = Math.floor(index / 12);
+        const month = (index % 12) + 1;
+        const day = Math.min(dayOfMonth, new Date(Date.UTC(year, month, 0)).getUTCDate());
+        const calendarDay = Date.UTC(year, month - 1, day);
+        if (calendarDay < firstDay || calendarDay > lastDay) {
+            continue;
+        }
+        const occurrence = (0, timezone_1.zonedTimeToUtc)(year, month, day, window.time, timeZone);
+        if (occurrence >= window.from && occurrence < window.to) {
+            occurrences.push(occurrence);
+        }
+    }
+    return occurrences;
+};
@@ -0,0 +1,154 @@
+import type { TaskRecurrence } from '../types';
+import { DAYS_OF_WEEK, TIME_PATTERN, expandDosingSchedule } from './dosingSchedule';
+import { DEFAULT_TIME_ZONE, getZonedDateParts, zonedTimeToUtc } from './timezone';
+import { validateTask } from './tasks';
+
+const MAX_INTERVAL_DAYS = 365;
+
+export interface OccurrenceWindow {
+  from: Date;
+  to: Date;
+  startDate: Date; // First day of the series (also anchors every-N-days rules)
+  endDate?: Date; // Last day of the series (inclusive)
+  time: string; // HH:MM, when each instance is due
+  timeZone?: string; // Zone the time is in (defaults to UTC)
+}
+
+const isValidDate = (value: unknown): boolean =>
+  (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+
+/**
+ * Validates a recurrence rule received from a client.
+ * @param recurrence - The candidate rule
+ * @returns An error message, or null when the rule is valid
+ */
+export const validateTaskRecurrence = (recurrence: any): string | null => {
+  if (!recurrence || typeof recurrence !== 'object') {
+    return 'recurrence must be an object';
+  }
+
+  switch (recurrence.type) {
+    case 'daily':
+      return null;
+    case 'weekly':
+      if (!Array.isArray(recurrence.days) || recurrence.days.length === 0 ||
+          !recurrence.days.every((day: any) => DAYS_OF_WEEK.includes(day))) {
+        return 'Weekly recurrence needs at least one valid day';
+      }
+      return null;
+    case 'every_n_days':
+      if (!Number.isInteger(recurrence.intervalDays) || recurrence.intervalDays < 1 || recurrence.intervalDays > MAX_INTERVAL_DAYS) {
+        return `intervalDays must be a whole number between 1 and ${MAX_INTERVAL_DAYS}`;
+      }
+      return null;
+    case 'monthly':
+      if (!Number.isInteger(recurrence.dayOfMonth) || recurrence.dayOfMonth < 1 || recurrence.dayOfMonth > 31) {
+        return 'dayOfMonth must be a whole number between 1 and 31';
+      }
+      return null;
+    default:
+      return 'recurrence type must be one of: daily, weekly, every_n_days, monthly';
+  }
+};
+
+/**
+ * Checks the fields of a recurring task being created, or of an edit to all
+ * future instances. Only the fields present are checked unless `requireAll`
+ * is set.
+ * @param series - The request body
+ * @param requireAll - Whether title, recurrence, time and startDate must be given, as when creating
+ * @returns An error message, or null if valid
+ */
+export const validateTaskSeries = (series: any, requireAll: boolean): string | null => {
+  if (requireAll && series.title === undefined) {
+    return 'title is required';
+  }
+
+  const { title, description, priority, assignedTo } = series;
+  const taskError = validateTask({ title, description, priority, assignedTo }, false);
+  if (taskError) {
+    return taskError;
+  }
+
+  if (series.recurrence !== undefined || requireAll) {
+    const recurrenceError = validateTaskRecurrence(series.recurrence);
+    if (recurrenceError) {
+      return recurrenceError;
+    }
+  }
+
+  if ((series.time !== undefined || requireAll) && (typeof series.time !== 'string' || !TIME_PATTERN.test(series.time))) {
+    return 'time must use HH:MM format';
+  }
+
+  if ((series.startDate !== undefined || requireAll) && !isValidDate(series.startDate)) {
+    return 'startDate must be a valid date';
+  }
+
+  if (series.endDate !== undefined && series.endDate !== null) {
+    if (!isValidDate(series.endDate)) {
+      return 'endDate must be a valid date';
+    }
+    if (series.startDate !== undefined && new Date(series.endDate) < new Date(series.startDate)) {
+      return 'endDate must not be before startDate';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Expands a recurrence rule into the instants instances are due. Times are
+ * wall-clock times in the window's timezone, as for dosing schedules.
+ * @param recurrence - The series' rule
+ * @param window - The range to expand ([from, to)), the series' dates and time of day
+ * @returns Due times in ascending order
+ */
+export const expandTaskRecurrence = (recurrence: TaskRecurrence, window: OccurrenceWindow): Date[] => {
+  const { from, to, startDate, endDate, time, timeZone } = window;
+  const doseWindow = { from, to, startDate, endDate, timeZone };
+
+  switch (recurrence.type) {
+    case 'daily':
+      return expandDosingSchedule({ type: 'fixed_times', times: [time] }, doseWindow);
+    case 'weekly':
+      return expandDosingSchedule({ type: 'weekly', days: recurrence.days, times: [time] }, doseWindow);
+    case 'every_n_days':
+      // One day on, the rest of the interval off
+      return expandDosingSchedule(
+        { type: 'cyclic', daysOn: 1, daysOff: recurrence.intervalDays - 1, times: [time] },
+        doseWindow
+      );
+    case 'monthly':
+      return expandMonthly(recurrence.dayOfMonth, window);
+  }
+};
+
+const expandMonthly = (dayOfMonth: number, window: OccurrenceWindow): Date[] => {
+  const timeZone = window.timeZone || DEFAULT_TIME_ZONE;
+  const toDay = (date: Date): number => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const firstDay = toDay(window.startDate);
+  const lastDay = window.endDate ? toDay(window.endDate) : Infinity;
+
+  const fromParts = getZonedDateParts(window.from, timeZone);
+  const toParts = getZonedDateParts(window.to, timeZone);
+  const occurrences: Date[] = [];
+
+  // Months are counted from year 0 so the loop can step across years
+  for (let index = fromParts.year * 12 + fromParts.month - 1; index <= toParts.year * 12 + toParts.month - 1; index++) {
+    const year = Math.floor(index / 12);
+    const month = (index % 12) + 1;
+    const day = Math.min(dayOfMonth, new Date(Date.UTC(year, month, 0)).getUTCDate());
+    const calendarDay = Date.UTC(year, month - 1, day);
+    if (calendarDay < firstDay || calendarDay > lastDay) {
+      continue;
+    }
+
+    const occurrence = zonedTimeToUtc(year, month, day, window.time, timeZone);
+    if (occurrence >= window.from && occurrence < window.to) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+};
@@ -0,0 +1,74 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.parseTaskFilters = exports.validateTask = exports.TASK_STATUSES = exports.TASK_PRIORITIES = void 0;
+exports.TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+exports.TASK_STATUSES = ['pending', 'in_progress', 'completed', 'cancelled'];
+const MAX_TITLE_LENGTH = 200;
+const isValidDate = (value) => (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+/**
+ * Checks the fields of a task being created or updated. Only the fields
+ * present are checked unless `requireAll` is set.
+ * @param task - The request body
+ * @param requireAll - Whether title and dueDate must be given, as when creating
+ * @returns An error message, or null if valid
+ */
+const validateTask = (task, requireAll) => {
+    if (task.title !== undefined || requireAll) {
+        if (typeof task.title !== 'string' || !task.title.trim()) {
+            return 'title is required';
+        }
+        if (task.title.length > MAX_TITLE_LENGTH) {
+            return `title must be at most ${MAX_TITLE_LENGTH} characters`;
+        }
+    }
+    if (task.description !== undefined && typeof task.description !== 'string') {
+        return 'description must be a string';
+    }
+    if (task.priority !== undefined && !exports.TASK_PRIORITIES.includes(task.priority)) {
+        return `priority must be one of: ${exports.TASK_PRIORITIES.join(', ')}`;
+    }
+    if (task.status !== undefined && !exports.TASK_STATUSES.includes(task.status)) {
+        return `status must be one of: ${exports.TASK_STATUSES.join(', ')}`;
+    }
+    if ((task.dueDate !== undefined || requireAll) && !isValidDate(task.dueDate)) {
+        return 'dueDate must be a valid date';
+    }
+    if (task.assignedTo !== undefined && task.assignedTo !== null && (typeof task.assignedTo !== 'string' || !task.assignedTo)) {
+        return 'assignedTo must be a user ID, or null to unassign';
+    }
+    return null;
+};
+exports.validateTask = validateTask;
+/**
+ * Reads task list filters from a query string.
+ * @param query - The request query
+ * @returns The filters, or an error message
+ */
+const parseTaskFilters = (query) => {
+    const filters = {};
+    if (query.assignedTo !== undefined) {
+        if (typeof query.assignedTo !== 'string' || !query.assignedTo) {
+            return { error: 'assignedTo must be a user ID' };
+        }
+        filters.assignedTo = query.assignedTo;
+    }
+    if (query.status !== undefined) {
+        if (!exports.TASK_STATUSES.includes(query.status)) {
+            return { error: `status must be one of: ${exports.TASK_STATUSES.join(', ')}` };
+        }
+        filters.status = query.status;
+    }
+    for (const field of ['dueFrom', 'dueTo']) {
+        if (query[field] !== undefined) {
+            if (!isValidDate(query[field])) {
+                return { error: `${field} must be a valid date` };
+            }
+            filters[field] = new Date(query[field]);
+        }
+    }
+    if (filters.dueFrom && filters.dueTo && filters.dueFrom > filters.dueTo) {
+        return { error: 'dueFrom must not be after dueTo' };
+    }
+    return { filters };
+};
+exports.parseTaskFilters = parseTaskFilters;
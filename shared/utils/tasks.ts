@@ -0,0 +1,92 @@
+import type { TaskFilters, TaskPriority, TaskStatus } from '../types';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+export const TASK_STATUSES: TaskStatus[] = ['pending', 'in_progress', 'completed', 'cancelled'];
+
+const MAX_TITLE_LENGTH = 200;
+
+const isValidDate = (value: unknown): boolean =>
+  (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+
+/**
+ * Checks the fields of a task being created or updated. Only the fields
+ * present are checked unless `requireAll` is set.
+ * @param task - The request body
+ * @param requireAll - Whether title and dueDate must be given, as when creating
+ * @returns An error message, or null if valid
+ */
+export const validateTask = (
+  task: { title?: unknown; description?: unknown; priority?: unknown; status?: unknown; dueDate?: unknown; assignedTo?: unknown },
+  requireAll: boolean
+): string | null => {
+  if (task.title !== undefined || requireAll) {
+    if (typeof task.title !== 'string' || !task.title.trim()) {
+      return 'title is required';
+    }
+    if (task.title.length > MAX_TITLE_LENGTH) {
+      return `title must be at most ${MAX_TITLE_LENGTH} characters`;
+    }
+  }
+
+  if (task.description !== undefined && typeof task.description !== 'string') {
+    return 'description must be a string';
+  }
+
+  if (task.priority !== undefined && !TASK_PRIORITIES.includes(task.priority as TaskPriority)) {
+    return `priority must be one of: ${TASK_PRIORITIES.join(', ')}`;
+  }
+
+  if (task.status !== undefined && !TASK_STATUSES.includes(task.status as TaskStatus)) {
+    return `status must be one of: ${TASK_STATUSES.join(', ')}`;
+  }
+
+  if ((task.dueDate !== undefined || requireAll) && !isValidDate(task.dueDate)) {
+    return 'dueDate must be a valid date';
+  }
+
+  if (task.assignedTo !== undefined && task.assignedTo !== null && (typeof task.assignedTo !== 'string' || !task.assignedTo)) {
+    return 'assignedTo must be a user ID, or null to unassign';
+  }
+
+  return null;
+};
+
+/**
+ * Reads task list filters from a query string.
+ * @param query - The request query
+ * @returns The filters, or an error message
+ */
+export const parseTaskFilters = (
+  query: { assignedTo?: unknown; status?: unknown; dueFrom?: unknown; dueTo?: unknown }
+): { filters?: TaskFilters; error?: string } => {
+  const filters: TaskFilters = {};
+
+  if (query.assignedTo !== undefined) {
+    if (typeof query.assignedTo !== 'string' || !query.assignedTo) {
+      return { error: 'assignedTo must be a user ID' };
+    }
+    filters.assignedTo = query.assignedTo;
+  }
+
+  if (query.status !== undefined) {
+    if (!TASK_STATUSES.includes(query.status as TaskStatus)) {
+      return { error: `status must be one of: ${TASK_STATUSES.join(', ')}` };
+    }
+    filters.status = query.status as TaskStatus;
+  }
+
+  for (const field of ['dueFrom', 'dueTo'] as const) {
+    if (query[field] !== undefined) {
+      if (!isValidDate(query[field])) {
+        return { error: `${field} must be a valid date` };
+      }
+      filters[field] = new Date(query[field] as string);
+    }
+  }
+
+  if (filters.dueFrom && filters.dueTo && filters.dueFrom > filters.dueTo) {
+    return { error: 'dueFrom must not be after dueTo' };
+  }
+
+  return { filters };
+};
@@ -0,0 +1,202 @@
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// Used for patients who have not set a timezone on their profile
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  weekday: number; // 0 = Sunday, matching Date.prototype.getUTCDay()
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Checks whether a string is an IANA timezone name the runtime understands.
+ * @param timeZone - e.g. "America/Chicago"
+ */
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Breaks an instant down into the wall-clock date and time in a timezone.
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ */
+export const getZonedDateParts = (date: Date, timeZone: string): ZonedDateParts => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hours: Number(parts.hour),
+    minutes: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+// Milliseconds the zone's wall clock is ahead of UTC at the given instant
+const getOffset = (instant: number, timeZone: string): number => {
+  const minute = Math.floor(instant / MS_PER_MINUTE) * MS_PER_MINUTE;
+  const parts = getZonedDateParts(new Date(minute), timeZone);
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes) - minute;
+};
+
+/**
+ * How far a timezone's wall clock is ahead of UTC at an instant.
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Minutes, negative west of UTC
+ */
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number =>
+  getOffset(date.getTime(), timeZone) / MS_PER_MINUTE;
+
+export interface TimeZoneTransition {
+  at: Date;
+  offsetFromMinutes: number; // Ahead of UTC before the change
+  offsetToMinutes: number; // Ahead of UTC after it
+}
+
+/**
+ * Finds when a timezone's offset from UTC changes during a year, e.g. for DST.
+ * @param timeZone - IANA timezone name
+ * @param year - Full year
+ * @returns The changes in order, or none for zones without DST
+ */
+export const getTimeZoneTransitions = (timeZone: string, year: number): TimeZoneTransition[] => {
+  const transitions: TimeZoneTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+
+  for (let day = Date.UTC(year, 0, 1); day < end; day += MS_PER_DAY) {
+    const offsetFrom = getOffset(day, timeZone);
+    const offsetTo = getOffset(day + MS_PER_DAY, timeZone);
+    if (offsetFrom === offsetTo) {
+      continue;
+    }
+
+    // Narrow down to the first minute on the new offset
+    let before = day;
+    let after = day + MS_PER_DAY;
+    while (after - before > MS_PER_MINUTE) {
+      const middle = before + Math.floor((after - before) / 2 / MS_PER_MINUTE) * MS_PER_MINUTE;
+      if (getOffset(middle, timeZone) === offsetFrom) {
+        before = middle;
+      } else {
+        after = middle;
+      }
+    }
+
+    transitions.push({
+      at: new Date(after),
+      offsetFromMinutes: offsetFrom / MS_PER_MINUTE,
+      offsetToMinutes: offsetTo / MS_PER_MINUTE,
+    });
+  }
+
+  return transitions;
+};
+
+/**
+ * Converts a wall-clock date and time in a timezone to the instant it occurs.
+ * Times skipped by a DST change resolve to the same distance past the change
+ * (02:30 on a spring-forward day becomes 03:30); times repeated by a DST
+ * change resolve to their first occurrence.
+ * @param year - Full year
+ * @param month - Month, 1-12
+ * @param day - Day of the month
+ * @param time - Time of day in HH:MM format
+ * @param timeZone - IANA timezone name
+ */
+export const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  time: string,
+  timeZone: string
+): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Zones change offset at most once in a day, so the offsets a day either
+  // side cover every candidate instant for this wall-clock time
+  const offsetBefore = getOffset(wallClock - MS_PER_DAY, timeZone);
+  const offsetAfter = getOffset(wallClock + MS_PER_DAY, timeZone);
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter]
+    .filter(instant => getOffset(instant, timeZone) === wallClock - instant);
+
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates));
+  }
+
+  return new Date(wallClock - offsetBefore);
+};
+
+/**
+ * Formats the wall-clock time of an instant in a timezone.
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Time in HH:MM format
+ */
+export const formatTimeInZone = (date: Date, timeZone: string): string => {
+  const { hours, minutes } = getZonedDateParts(date, timeZone);
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+/**
+ * Formats the calendar date of an instant in a timezone.
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Date in YYYY-MM-DD format
+ */
+export const formatDateInZone = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Short display name for a timezone at a given instant.
+ * @param timeZone - IANA timezone name
+ * @param date - The instant, since abbreviations change with DST
+ * @returns e.g. "CST", "CDT", or "GMT+5:30" where no abbreviation exists
+ */
+export const getTimeZoneAbbreviation = (timeZone: string, date: Date = new Date()): string => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value || timeZone;
+};